@@ -0,0 +1,214 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { assignTeamToUser, createTestTeam } from './helpers/dataHelpers.js';
+import { parseCalendarEvents } from '../utils/icalendar.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+// A league schedule export for "Joga Volt"
+const LEAGUE_CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//League//Schedule//EN',
+  'BEGIN:VEVENT',
+  'UID:league-1',
+  'DTSTART;TZID=America/New_York:20261107T093000',
+  'SUMMARY:Joga Volt vs Westsde Rovers',
+  'LOCATION:Memorial Park\\, Field 2',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:league-2',
+  'DTSTART;VALUE=DATE:20261114',
+  'SUMMARY:Joga Volt @ City Strikers (League)',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:league-3',
+  'DTSTART:not-a-date',
+  'SUMMARY:Joga Volt vs Lakeside',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+function buildUtcCalendar(header: string[]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...header,
+    'BEGIN:VEVENT',
+    'UID:utc-1',
+    'DTSTART:20261107T153000Z',
+    'SUMMARY:Joga Volt vs Lakeside',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:utc-2',
+    'DTSTART:20261108T023000Z',
+    'SUMMARY:Joga Volt @ Rovers',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+describe('parseCalendarEvents with UTC start times', () => {
+  const serverTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'UTC';
+  });
+
+  afterAll(() => {
+    process.env.TZ = serverTimeZone;
+  });
+
+  it("converts UTC times to the calendar's X-WR-TIMEZONE, not the server's", () => {
+    const [afternoon, evening] = parseCalendarEvents(buildUtcCalendar(['X-WR-TIMEZONE:America/Chicago']));
+    expect(afternoon).toMatchObject({ date: '2026-11-07', time: '09:30', utcTime: false });
+    expect(evening).toMatchObject({ date: '2026-11-07', time: '20:30', utcTime: false });
+  });
+
+  it("falls back to the VTIMEZONE's TZID", () => {
+    const [afternoon] = parseCalendarEvents(buildUtcCalendar([
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/London',
+      'END:VTIMEZONE',
+    ]));
+    expect(afternoon).toMatchObject({ date: '2026-11-07', time: '15:30', utcTime: false });
+  });
+
+  it('keeps UTC times and flags them when the calendar names no (known) time zone', () => {
+    const [afternoon, evening] = parseCalendarEvents(buildUtcCalendar(['X-WR-TIMEZONE:Eastern Standard Time']));
+    expect(afternoon).toMatchObject({ date: '2026-11-07', time: '15:30', utcTime: true });
+    expect(evening).toMatchObject({ date: '2026-11-08', time: '02:30', utcTime: true });
+  });
+});
+
+describe('Calendar feeds and .ics import', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam('Joga Volt', `joga-volt-${Date.now()}`);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  const getFeedPath = async () => {
+    const response = await makeRequest()
+      .get(`/api/calendar/teams/${testTeam.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    return new URL(response.body.url).pathname;
+  };
+
+  it('serves scheduled fixtures as an iCal feed without a session', async () => {
+    await makeRequest()
+      .post('/api/matches')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, opponentName: 'Titans', matchDate: '2026-11-01', kickoffTime: '10:15', venue: 'Field 3', isHome: false, status: 'scheduled' })
+      .expect(201);
+    await makeRequest()
+      .post('/api/matches')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, opponentName: 'Played Already', matchDate: '2026-10-01', result: 'Win' })
+      .expect(201);
+
+    const feedPath = await getFeedPath();
+    expect(await getFeedPath()).toBe(feedPath);
+
+    const feed = await makeRequest().get(feedPath).expect(200);
+    expect(feed.headers['content-type']).toContain('text/calendar');
+    expect(feed.text).toContain('SUMMARY:Joga Volt @ Titans');
+    expect(feed.text).toContain('DTSTART:20261101T101500');
+    expect(feed.text).toContain('LOCATION:Field 3');
+    expect(feed.text).not.toContain('Played Already');
+
+    // Regenerating the token revokes the old URL
+    const regenerated = await makeRequest()
+      .post(`/api/calendar/teams/${testTeam.id}/regenerate`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(new URL(regenerated.body.url).pathname).not.toBe(feedPath);
+    await makeRequest().get(feedPath).expect(404);
+  });
+
+  it('only gives coaches the feeds of their assigned teams', async () => {
+    const otherTeam = await createTestTeam('Other Team', 'other-team');
+    const coach = await createTestCoach();
+    await assignTeamToUser(coach.userId, testTeam.id);
+
+    await makeRequest()
+      .get(`/api/calendar/teams/${testTeam.id}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(200);
+    await makeRequest()
+      .get(`/api/calendar/teams/${otherTeam.id}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(403);
+  });
+
+  it('previews and imports an .ics schedule as scheduled matches', async () => {
+    await makeRequest()
+      .post('/api/opponents')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ name: 'Westside Rovers' })
+      .expect(201);
+
+    const preview = await makeRequest()
+      .post('/api/calendar/import/preview')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, content: LEAGUE_CALENDAR })
+      .expect(200);
+
+    expect(preview.body.summary).toEqual({ total: 3, valid: 2, invalid: 1, duplicates: 0 });
+    const [rovers, strikers, invalid] = preview.body.rows;
+    expect(rovers.gameInfo).toEqual({
+      opponentName: 'Westside Rovers',
+      matchDate: '2026-11-07',
+      kickoffTime: '09:30',
+      isHome: true,
+      venue: 'Memorial Park, Field 2',
+    });
+    expect(rovers.opponentMatch).toMatchObject({ type: 'similar', name: 'Westside Rovers', importedName: 'Westsde Rovers' });
+    expect(strikers.gameInfo).toMatchObject({ opponentName: 'City Strikers', matchDate: '2026-11-14', kickoffTime: null, isHome: false });
+    expect(strikers.opponentMatch.type).toBe('new');
+    expect(invalid.errors).toEqual(['Invalid start date: not-a-date']);
+
+    const commit = await makeRequest()
+      .post('/api/calendar/import/commit')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, content: LEAGUE_CALENDAR })
+      .expect(201);
+    expect(commit.body.created).toBe(2);
+
+    const scheduled = await makeRequest()
+      .get(`/api/matches?teamId=${testTeam.id}&status=scheduled`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(scheduled.body.map((match: any) => match.opponentName).sort()).toEqual(['City Strikers', 'Westside Rovers']);
+
+    // Importing the same file again flags every event as a duplicate
+    const again = await makeRequest()
+      .post('/api/calendar/import/preview')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, content: LEAGUE_CALENDAR })
+      .expect(200);
+    expect(again.body.summary.duplicates).toBe(2);
+
+    await makeRequest()
+      .post('/api/calendar/import/commit')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, content: LEAGUE_CALENDAR, rowNumbers: [3] })
+      .expect(400);
+  });
+});
@@ -0,0 +1,199 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestTeam, createTestMatch } from './helpers/dataHelpers.js';
+import { DEFAULT_SPI_WEIGHTING, getSpiWeighting, setSpiWeighting } from '../services/matchStatsService.js';
+import { loadClubSettings } from '../services/clubSettingsService.js';
+import { db } from '../db/database.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+// 2 5-pass strings of 100 passes: SPI (w) = 10 × 1.3 / 100 × 100 = 13 with the default weighting
+const PASS_STRING_STATS = {
+  '5-pass string': 2,
+  passesFor: 100,
+  'spi (w)': 13,
+};
+
+describe('Club Settings', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam();
+  });
+
+  afterEach(() => {
+    setSpiWeighting(DEFAULT_SPI_WEIGHTING);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  describe('GET /api/club-settings/spi-weighting', () => {
+    it('returns the default weighting', async () => {
+      const coach = await createTestCoach();
+      const response = await makeRequest()
+        .get('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(coach.cookies))
+        .expect(200);
+
+      expect(response.body).toEqual({ weighting: DEFAULT_SPI_WEIGHTING, isDefault: true });
+    });
+  });
+
+  describe('PUT /api/club-settings/spi-weighting', () => {
+    it('requires admin', async () => {
+      const coach = await createTestCoach();
+      await makeRequest()
+        .put('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .send({ baseStringLength: 4, bonusPerExtraPass: 0.2 })
+        .expect(403);
+    });
+
+    it('rejects an invalid weighting', async () => {
+      const response = await makeRequest()
+        .put('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ baseStringLength: 2, bonusPerExtraPass: 0.2 })
+        .expect(400);
+      expect(response.body.error).toContain('baseStringLength');
+
+      await makeRequest()
+        .put('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ baseStringLength: 3, bonusPerExtraPass: '0.2' })
+        .expect(400);
+    });
+
+    it('previews the impact on a dry run without saving', async () => {
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, PASS_STRING_STATS);
+
+      const response = await makeRequest()
+        .put('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ baseStringLength: 3, bonusPerExtraPass: 0.5, dryRun: true })
+        .expect(200);
+
+      expect(response.body.recompute.dryRun).toBe(true);
+      expect(response.body.recompute.matchesChanged).toBe(1);
+      // Only the weighted metrics are recomputed
+      expect(response.body.recompute.metrics.map((metric: { metric: string }) => metric.metric)).toEqual(['spi (w)']);
+      expect(response.body.recompute.matches[0].changes[0]).toMatchObject({ before: 13, after: 20 });
+
+      expect(getSpiWeighting()).toEqual(DEFAULT_SPI_WEIGHTING);
+      const setting = await db.selectFrom('club_settings').selectAll().execute();
+      expect(setting).toHaveLength(0);
+      const row = await db.selectFrom('matches').selectAll().where('id', '=', match.id).executeTakeFirstOrThrow();
+      expect(JSON.parse(row.stats_json!)['spi (w)']).toBe(13);
+    });
+
+    it('saves the weighting and backfills SPI (w) on stored matches', async () => {
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, PASS_STRING_STATS);
+
+      const response = await makeRequest()
+        .put('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ baseStringLength: 3, bonusPerExtraPass: 0.5 })
+        .expect(200);
+
+      expect(response.body.weighting).toEqual({ baseStringLength: 3, bonusPerExtraPass: 0.5 });
+      expect(response.body.isDefault).toBe(false);
+      expect(response.body.recompute.matchesChanged).toBe(1);
+
+      const row = await db.selectFrom('matches').selectAll().where('id', '=', match.id).executeTakeFirstOrThrow();
+      const stats = JSON.parse(row.stats_json!);
+      expect(stats['spi (w)']).toBeCloseTo(20, 5);
+      // Other stored stats are left alone
+      expect(stats.spi).toBeUndefined();
+      expect(row.last_modified_by).toBe(admin.userId);
+
+      // Reloaded from the database on startup
+      setSpiWeighting(DEFAULT_SPI_WEIGHTING);
+      await loadClubSettings();
+      expect(getSpiWeighting()).toEqual({ baseStringLength: 3, bonusPerExtraPass: 0.5 });
+    });
+
+    it('computes new matches with the saved weighting', async () => {
+      await makeRequest()
+        .put('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ baseStringLength: 3, bonusPerExtraPass: 0.5 })
+        .expect(200);
+
+      const response = await makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({
+          teamId: testTeam.id,
+          opponentName: 'Test Opponent',
+          matchDate: '2024-03-01',
+          rawStats: { '5-pass string': 2, 'Passes For': 100 },
+        })
+        .expect(201);
+
+      expect(response.body.statsJson['spi (w)']).toBeCloseTo(20, 5);
+    });
+  });
+
+  describe('Glossary', () => {
+    it('includes SPI (w) definitions built from the current weighting', async () => {
+      setSpiWeighting({ baseStringLength: 4, bonusPerExtraPass: 0.2 });
+
+      const response = await makeRequest()
+        .get('/api/glossary/SPI%20(w)')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(response.body.source).toBe('system');
+      expect(response.body.calculation).toContain('max(0, n − 4) × 0.2');
+
+      const list = await makeRequest()
+        .get('/api/glossary?category=JOGA%20Metrics')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(list.body.map((definition: { metric_name: string }) => definition.metric_name))
+        .toEqual(expect.arrayContaining(['SPI (w)', 'Opp SPI (w)']));
+
+      const categories = await makeRequest()
+        .get('/api/glossary/categories')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(categories.body).toContain('JOGA Metrics');
+    });
+
+    it('prefers a stored definition with the same name', async () => {
+      await db.insertInto('metric_definitions').values({
+        metric_name: 'SPI (w)',
+        category: 'JOGA Metrics',
+        description: 'From the sheet',
+        units: null,
+        calculation: null,
+        notes: null,
+        example: null,
+        data_type: null,
+        availability: null,
+        source: 'google_sheets',
+        last_synced_at: null,
+      }).execute();
+
+      const list = await makeRequest()
+        .get('/api/glossary')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      const spiDefinitions = list.body.filter((definition: { metric_name: string }) => definition.metric_name === 'SPI (w)');
+      expect(spiDefinitions).toHaveLength(1);
+      expect(spiDefinitions[0].description).toBe('From the sheet');
+    });
+  });
+});
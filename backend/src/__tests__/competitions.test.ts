@@ -0,0 +1,199 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestMatch, createTestTeam } from './helpers/dataHelpers.js';
+import { db } from '../db/database.js';
+import { inferCompetitionType, linkMatchesToCompetitions } from '../services/competitionService.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+describe('Competitions', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam();
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  const createCompetition = (body: Record<string, any>) =>
+    makeRequest()
+      .post('/api/competitions')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send(body);
+
+  const createMatch = (body: Record<string, any>) =>
+    makeRequest()
+      .post('/api/matches')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, ...body });
+
+  it('infers a competition type from free text', () => {
+    expect(inferCompetitionType('State Cup')).toBe('cup');
+    expect(inferCompetitionType('Memorial Day Showcase')).toBe('tournament');
+    expect(inferCompetitionType('Scrimmage')).toBe('friendly');
+    expect(inferCompetitionType('Spring Division 2')).toBe('league');
+  });
+
+  it('validates competitions and only lets admins change them', async () => {
+    const invalid = await createCompetition({ name: 'Spring League', type: 'ladder' }).expect(400);
+    expect(invalid.body.error).toContain('type must be one of');
+    await createCompetition({ name: 'Spring League', type: 'league', teamIds: [999999] }).expect(400);
+
+    const coach = await createTestCoach();
+    await makeRequest()
+      .post('/api/competitions')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .send({ name: 'Spring League', type: 'league' })
+      .expect(403);
+
+    const created = await createCompetition({ name: 'Spring League', type: 'league', teamIds: [testTeam.id] }).expect(201);
+    expect(created.body).toMatchObject({
+      name: 'Spring League',
+      type: 'league',
+      pointsRules: { win: 3, draw: 1, loss: 0 },
+      participants: [{ teamId: testTeam.id, opponentId: null }],
+    });
+
+    const list = await makeRequest()
+      .get(`/api/competitions?teamId=${testTeam.id}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(200);
+    expect(list.body.map((competition: { id: number }) => competition.id)).toEqual([created.body.id]);
+
+    await makeRequest()
+      .delete(`/api/competitions/${created.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    await makeRequest()
+      .get(`/api/competitions/${created.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(404);
+  });
+
+  it('computes standings with the competition\'s points rules', async () => {
+    const rovers = await makeRequest()
+      .post('/api/opponents')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ name: 'Rovers' })
+      .expect(201);
+    const competition = await createCompetition({
+      name: 'Spring League',
+      type: 'league',
+      pointsRules: { win: 2 },
+      teamIds: [testTeam.id],
+      opponentIds: [rovers.body.id],
+    }).expect(201);
+    const competitionId = competition.body.id;
+
+    const first = await createMatch({
+      opponentName: 'Titans', matchDate: '2024-03-01', competitionId, competitionType: 'Friendly',
+      statsJson: { goalsFor: 2, goalsAgainst: 1 },
+    }).expect(201);
+    await createMatch({ opponentName: 'Titans', matchDate: '2024-03-15', competitionId, statsJson: { goalsFor: 0, goalsAgainst: 3 } }).expect(201);
+    // Not played yet: no score or result
+    await createMatch({ opponentName: 'Rovers', matchDate: '2024-03-22', competitionId }).expect(201);
+    await createMatch({ opponentName: 'Rovers', matchDate: '2024-03-29', statsJson: { goalsFor: 9, goalsAgainst: 0 } }).expect(201);
+
+    // Linked matches take the competition's type
+    expect(first.body).toMatchObject({ competitionId, competitionName: 'Spring League', competitionType: 'League' });
+
+    const standings = await makeRequest()
+      .get(`/api/competitions/${competitionId}/standings`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+
+    expect(standings.body.competition.pointsRules).toEqual({ win: 2, draw: 1, loss: 0 });
+    expect(standings.body.rows.map((row: any) => [row.position, row.name, row.played, row.wins, row.draws, row.losses, row.goalsFor, row.goalsAgainst, row.points]))
+      .toEqual([
+        [1, 'Titans', 2, 1, 0, 1, 4, 2, 2],
+        [2, testTeam.displayName, 2, 1, 0, 1, 2, 4, 2],
+        [3, 'Rovers', 0, 0, 0, 0, 0, 0, 0],
+      ]);
+    // Titans were added as a participant when their match was linked
+    expect(standings.body.competition.participants.map((participant: { name: string }) => participant.name))
+      .toEqual([testTeam.displayName, 'Rovers', 'Titans']);
+
+    const matches = await makeRequest()
+      .get(`/api/matches?competitionId=${competitionId}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(matches.body).toHaveLength(3);
+  });
+
+  it('rejects unknown competitions and rewrites match types when the type changes', async () => {
+    const unknown = await createMatch({ opponentName: 'Titans', matchDate: '2024-03-01', competitionId: 999999 }).expect(400);
+    expect(unknown.body.error).toBe('Competition not found');
+
+    const competition = await createCompetition({ name: 'State Cup', type: 'league' }).expect(201);
+    const match = await createMatch({ opponentName: 'Titans', matchDate: '2024-03-01', competitionId: competition.body.id }).expect(201);
+
+    await makeRequest()
+      .put(`/api/competitions/${competition.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ type: 'cup' })
+      .expect(200);
+
+    const updated = await makeRequest()
+      .get(`/api/matches/${match.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(updated.body.competitionType).toBe('Cup');
+
+    const unlinked = await makeRequest()
+      .put(`/api/matches/${match.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ competitionId: null })
+      .expect(200);
+    expect(unlinked.body.competitionId).toBeNull();
+  });
+
+  it('backfills competitions from competition names and types per season', async () => {
+    const season = await db
+      .insertInto('seasons')
+      .values({ name: '2024', start_date: null, end_date: null, is_active: 0, created_at: new Date().toISOString() })
+      .returning('id')
+      .executeTakeFirstOrThrow();
+    const seasonTeam = await createTestTeam('Season Team', 'season-team', undefined, season.id);
+
+    const cupMatch = await createTestMatch(seasonTeam.id, 'Titans', '2024-05-01', 'Tournament', undefined, { Competition: 'State Cup' });
+    const leagueMatch = await createTestMatch(seasonTeam.id, 'Rovers', '2024-05-08', 'League');
+    const otherSeason = await createTestMatch(testTeam.id, 'Rovers', '2024-05-15', 'League');
+    const noCompetition = await createTestMatch(testTeam.id, 'Rovers', '2024-05-22');
+
+    expect(await linkMatchesToCompetitions()).toBe(3);
+
+    const competitions = await db.selectFrom('competitions').selectAll().orderBy('id').execute();
+    expect(competitions.map(competition => [competition.name, competition.competition_type, competition.season_id])).toEqual([
+      ['State Cup', 'tournament', season.id],
+      ['League', 'league', season.id],
+      ['League', 'league', null],
+    ]);
+
+    const links = await db
+      .selectFrom('matches')
+      .select(['id', 'competition_id'])
+      .where('id', 'in', [cupMatch.id, leagueMatch.id, otherSeason.id, noCompetition.id])
+      .execute();
+    const competitionOf = (matchId: number) => links.find(link => link.id === matchId)?.competition_id;
+    expect(competitionOf(cupMatch.id)).toBe(competitions[0].id);
+    expect(competitionOf(leagueMatch.id)).toBe(competitions[1].id);
+    expect(competitionOf(otherSeason.id)).toBe(competitions[2].id);
+    expect(competitionOf(noCompetition.id)).toBeNull();
+
+    // Running it again creates nothing new
+    expect(await linkMatchesToCompetitions()).toBe(0);
+  });
+});
@@ -0,0 +1,191 @@
+import { aggregateEventsToRawStats, deriveMatchStatsFromEvents, shouldAutoDeriveStats } from '../services/eventStatsService.js';
+import { normalizeEventType } from '../utils/eventTypes.js';
+import { createTestTeam, createTestMatch, createTestGameEvent } from './helpers/dataHelpers.js';
+import { db } from '../db/database.js';
+
+function event(id: number, eventType: string, period: number | null, isJogaTeam = true) {
+  return { id, eventType, period, isJogaTeam };
+}
+
+describe('eventStatsService', () => {
+  // ---------------------------------------------------------------------------
+  // normalizeEventType
+  // ---------------------------------------------------------------------------
+  describe('normalizeEventType', () => {
+    it('normalizes free kick variants', () => {
+      expect(normalizeEventType('Free Kick')).toBe('free_kick');
+      expect(normalizeEventType('free-kick')).toBe('free_kick');
+      expect(normalizeEventType('freekick')).toBe('free_kick');
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // aggregateEventsToRawStats
+  // ---------------------------------------------------------------------------
+  describe('aggregateEventsToRawStats', () => {
+    it('counts events per half and side', () => {
+      const { rawStats } = aggregateEventsToRawStats([
+        event(1, 'shot', 1),
+        event(2, 'shot', 1),
+        event(3, 'goal', 2),
+        event(4, 'shot', 2, false),
+        event(5, 'corner', 1),
+        event(6, 'corner', 2, false),
+        event(7, 'free_kick', 2),
+      ]);
+
+      expect(rawStats.shotsFor1stHalf).toBe(2);
+      expect(rawStats.shotsFor2ndHalf).toBe(0);
+      expect(rawStats.shotsAgainst2ndHalf).toBe(1);
+      expect(rawStats.goalsFor1stHalf).toBe(0);
+      expect(rawStats.goalsFor2ndHalf).toBe(1);
+      expect(rawStats.cornersFor1stHalf).toBe(1);
+      expect(rawStats.cornersAgainst2ndHalf).toBe(1);
+      expect(rawStats.freeKicksFor2ndHalf).toBe(1);
+    });
+
+    it('records zero goals when only shots are logged', () => {
+      const { rawStats, families } = aggregateEventsToRawStats([event(1, 'shot', 1)]);
+      expect(families).toEqual(expect.arrayContaining(['shots', 'goals']));
+      expect(rawStats.goalsFor1stHalf).toBe(0);
+      expect(rawStats.goalsAgainst2ndHalf).toBe(0);
+    });
+
+    it('omits families with no events', () => {
+      const { rawStats } = aggregateEventsToRawStats([event(1, 'pass', 1)]);
+      expect(rawStats.passesFor1stHalf).toBe(1);
+      expect(rawStats).not.toHaveProperty('cornersFor1stHalf');
+      expect(rawStats).not.toHaveProperty('goalsFor1stHalf');
+    });
+
+    it('falls back to full-game totals when a period is missing', () => {
+      const { rawStats } = aggregateEventsToRawStats([
+        event(1, 'shot', 1),
+        event(2, 'goal', null),
+      ]);
+      expect(rawStats.shotsFor).toBe(1);
+      expect(rawStats.goalsFor).toBe(1);
+      expect(rawStats).not.toHaveProperty('shotsFor1stHalf');
+    });
+
+    it('folds extra time periods into the 2nd half', () => {
+      const { rawStats } = aggregateEventsToRawStats([event(1, 'pass', 3)]);
+      expect(rawStats.passesFor2ndHalf).toBe(1);
+    });
+
+    it('counts quarters when the match has four periods', () => {
+      const { rawStats } = aggregateEventsToRawStats(
+        [event(1, 'shot', 1), event(2, 'shot', 3), event(3, 'goal', 4), event(4, 'goal', 5)],
+        { periods: 4 }
+      );
+      expect(rawStats.shotsForPeriod1).toBe(1);
+      expect(rawStats.shotsForPeriod3).toBe(1);
+      expect(rawStats.goalsForPeriod4).toBe(2);
+      expect(rawStats.goalsForPeriod2).toBe(0);
+      expect(rawStats).not.toHaveProperty('shotsFor1stHalf');
+    });
+
+    it('ignores unrelated event types', () => {
+      const { usedEventIds } = aggregateEventsToRawStats([
+        event(1, 'substitution', 1),
+        event(2, 'goal', 1),
+      ]);
+      expect(usedEventIds).toEqual([2]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // shouldAutoDeriveStats
+  // ---------------------------------------------------------------------------
+  describe('shouldAutoDeriveStats', () => {
+    it('derives for matches without stats or with event-sourced stats only', () => {
+      expect(shouldAutoDeriveStats({ statsJson: null, statsSource: null })).toBe(true);
+      expect(shouldAutoDeriveStats({ statsJson: { shotsFor: 1 }, statsSource: 'events' })).toBe(true);
+      expect(shouldAutoDeriveStats({ statsJson: { shotsFor: 1 }, statsSource: 'manual' })).toBe(false);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // deriveMatchStatsFromEvents (database)
+  // ---------------------------------------------------------------------------
+  describe('deriveMatchStatsFromEvents', () => {
+    it('stores computed stats, marks events processed, and respects manual fields', async () => {
+      const team = await createTestTeam();
+      const match = await createTestMatch(team.id, 'Test Opponent', '2024-03-01', undefined, undefined, {
+        shotsFor1stHalf: 9,
+        possession: 55,
+      });
+      await db
+        .updateTable('matches')
+        .set({ stats_manual_fields: JSON.stringify(['shotsFor1stHalf']) })
+        .where('id', '=', match.id)
+        .execute();
+
+      await createTestGameEvent(match.id, 'shot', 'attack', undefined, 1);
+      await createTestGameEvent(match.id, 'goal', 'attack', undefined, 1);
+      await createTestGameEvent(match.id, 'shot', 'attack', undefined, 2, undefined, undefined, undefined, undefined, undefined, undefined, false);
+
+      const result = await deriveMatchStatsFromEvents(match.id);
+
+      expect(result.eventsProcessed).toBe(3);
+      expect(result.skippedManualFields).toContain('shotsFor1stHalf');
+      expect(result.match?.statsSource).toBe('events');
+      expect(result.match?.statsComputedAt).not.toBeNull();
+
+      const stats = result.match?.statsJson;
+      expect(stats.shotsFor1stHalf).toBe(9); // manual value kept
+      expect(stats.goalsFor1stHalf).toBe(1);
+      expect(stats.shotsAgainst2ndHalf).toBe(1);
+      expect(stats.possession).toBe(55); // untouched family kept
+      expect(stats.goalsFor).toBe(1);
+      expect(stats.result).toBe('Win');
+
+      const events = await db
+        .selectFrom('game_events')
+        .select(['is_processed', 'processed_at'])
+        .where('match_id', '=', match.id)
+        .execute();
+      expect(events.every(e => Boolean(e.is_processed) && e.processed_at !== null)).toBe(true);
+    });
+
+    it('stores xG/xGA from located shots only when every shot of a side has a location', async () => {
+      const team = await createTestTeam();
+      const match = await createTestMatch(team.id, 'Test Opponent', '2024-03-01', undefined, undefined, { xGA: 1.5 });
+
+      await createTestGameEvent(match.id, 'shot', 'attack', undefined, 1, undefined, undefined, undefined, 90, 50);
+      await createTestGameEvent(match.id, 'goal', 'attack', undefined, 2, undefined, undefined, undefined, 95, 50);
+      await createTestGameEvent(match.id, 'shot', 'attack', undefined, 2, undefined, undefined, undefined, undefined, undefined, undefined, false);
+
+      const result = await deriveMatchStatsFromEvents(match.id);
+      const stats = result.match?.statsJson;
+
+      expect(stats.xG).toBeGreaterThan(0.3);
+      expect(stats.xGA).toBe(1.5); // opponent shot has no location, typed value kept
+    });
+
+    it('stores possession by third once enough on-ball events are located', async () => {
+      const team = await createTestTeam();
+      const match = await createTestMatch(team.id, 'Test Opponent', '2024-03-01', undefined, undefined, { possessionAtt: 40 });
+
+      // 10 passes in each third; the defensive tackle and opponent event don't count
+      for (const x of [10, 50, 90]) {
+        for (let i = 0; i < 10; i++) {
+          await createTestGameEvent(match.id, 'pass', 'possession', undefined, 1, undefined, undefined, undefined, x, 50);
+        }
+      }
+      await createTestGameEvent(match.id, 'tackle', 'defense', undefined, 1, undefined, undefined, undefined, 10, 50);
+      await createTestGameEvent(match.id, 'pass', 'possession', undefined, 1, undefined, undefined, undefined, 10, 50, undefined, false);
+
+      const result = await deriveMatchStatsFromEvents(match.id);
+      const stats = result.match?.statsJson;
+
+      expect(stats.possessionDef).toBe(33.3);
+      expect(stats.possessionMid).toBe(33.3);
+      expect(stats.possessionAtt).toBe(33.3);
+    });
+
+    it('throws for a missing match', async () => {
+      await expect(deriveMatchStatsFromEvents(999999)).rejects.toThrow('Match not found');
+    });
+  });
+});
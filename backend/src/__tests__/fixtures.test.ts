@@ -0,0 +1,122 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { assignTeamToUser, createTestTeam } from './helpers/dataHelpers.js';
+import { getMatchData } from '../services/matchDataService.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+// Fixture dates relative to today (YYYY-MM-DD, local time like the API)
+function daysFromToday(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+describe('Fixtures', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam();
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  const scheduleFixture = (body: Record<string, any>) =>
+    makeRequest()
+      .post('/api/matches')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, status: 'scheduled', ...body });
+
+  it('validates fixture fields', async () => {
+    const badStatus = await scheduleFixture({ opponentName: 'Titans', matchDate: daysFromToday(7), status: 'postponed' }).expect(400);
+    expect(badStatus.body.error).toContain('status must be one of');
+
+    const badKickoff = await scheduleFixture({ opponentName: 'Titans', matchDate: daysFromToday(7), kickoffTime: '9am' }).expect(400);
+    expect(badKickoff.body.error).toContain('kickoffTime');
+
+    const withResult = await scheduleFixture({ opponentName: 'Titans', matchDate: daysFromToday(7), result: 'Win' }).expect(400);
+    expect(withResult.body.error).toBe('A scheduled match can\'t have a result or stats');
+  });
+
+  it('moves a fixture from scheduled to played to stats entered', async () => {
+    const fixture = await scheduleFixture({
+      opponentName: 'Titans',
+      matchDate: daysFromToday(-1),
+      kickoffTime: '09:30',
+      venue: 'Field 3',
+      isHome: true,
+    }).expect(201);
+    expect(fixture.body).toMatchObject({ status: 'scheduled', kickoffTime: '09:30', venue: 'Field 3', isHome: true, statsEntered: false });
+
+    // Fixtures stay out of the analytics data until played
+    expect((await getMatchData({ teamId: testTeam.id })).length).toBe(0);
+
+    const played = await makeRequest()
+      .put(`/api/matches/${fixture.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ result: 'Win' })
+      .expect(200);
+    expect(played.body).toMatchObject({ status: 'played', statsEntered: false });
+
+    const withStats = await makeRequest()
+      .put(`/api/matches/${fixture.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ rawStats: { 'Goals For': 2, 'Goals Against': 1 } })
+      .expect(200);
+    expect(withStats.body).toMatchObject({ status: 'played', statsEntered: true });
+    expect((await getMatchData({ teamId: testTeam.id })).length).toBe(1);
+
+    const scheduled = await makeRequest()
+      .get(`/api/matches?teamId=${testTeam.id}&status=scheduled`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(scheduled.body).toHaveLength(0);
+  });
+
+  it('lists the next fixtures per team, soonest first, for the user\'s teams', async () => {
+    const otherTeam = await createTestTeam('Other Team', 'other-team');
+
+    await scheduleFixture({ opponentName: 'Rovers', matchDate: daysFromToday(14) }).expect(201);
+    await scheduleFixture({ opponentName: 'Titans', matchDate: daysFromToday(7), kickoffTime: '18:00' }).expect(201);
+    await scheduleFixture({ opponentName: 'United', matchDate: daysFromToday(7), kickoffTime: '09:00' }).expect(201);
+    await scheduleFixture({ opponentName: 'Past', matchDate: daysFromToday(-7) }).expect(201);
+    await scheduleFixture({ opponentName: 'Called Off', matchDate: daysFromToday(3), status: 'cancelled' }).expect(201);
+    await scheduleFixture({ teamId: otherTeam.id, opponentName: 'Rovers', matchDate: daysFromToday(1) }).expect(201);
+
+    const upcoming = await makeRequest()
+      .get('/api/matches/upcoming?limit=2')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(upcoming.body.map((team: any) => [team.teamId, team.fixtures.map((fixture: any) => fixture.opponentName)])).toEqual([
+      [otherTeam.id, ['Rovers']],
+      [testTeam.id, ['United', 'Titans']],
+    ]);
+
+    const coach = await createTestCoach();
+    await assignTeamToUser(coach.userId, testTeam.id);
+    const coachUpcoming = await makeRequest()
+      .get('/api/matches/upcoming')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(200);
+    expect(coachUpcoming.body.map((team: any) => team.teamId)).toEqual([testTeam.id]);
+    expect(coachUpcoming.body[0].fixtures).toHaveLength(3);
+
+    await makeRequest()
+      .get(`/api/matches/upcoming?teamId=${otherTeam.id}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(403);
+  });
+});
@@ -0,0 +1,104 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { assignTeamToUser, createTestTeam } from './helpers/dataHelpers.js';
+import { db } from '../db/database.js';
+import { getMatchOutcome } from '../utils/matchOutcome.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+describe('Head-to-head', () => {
+  describe('getMatchOutcome', () => {
+    it('prefers the score and falls back to the stored result', () => {
+      expect(getMatchOutcome('Loss', 2, 1)).toBe('W');
+      expect(getMatchOutcome(null, 1, 1)).toBe('D');
+      expect(getMatchOutcome('Win', null, null)).toBe('W');
+      expect(getMatchOutcome('tie', null, 0)).toBe('D');
+      expect(getMatchOutcome(null, null, null)).toBeNull();
+    });
+  });
+
+  describe('API', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+
+    beforeAll(async () => {
+      await cleanupTestData();
+      client = await getTestClient();
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    beforeEach(async () => {
+      admin = await createTestAdmin();
+    });
+
+    afterAll(async () => {
+      await cleanupTestData();
+    });
+
+    const createSeason = async (name: string) => (await db
+      .insertInto('seasons')
+      .values({ name, start_date: null, end_date: null, is_active: 0, created_at: new Date().toISOString() })
+      .returning('id')
+      .executeTakeFirstOrThrow()).id;
+
+    const createMatch = (teamId: number, opponentName: string, matchDate: string, statsJson: Record<string, any>, notes?: string) =>
+      makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ teamId, opponentName, matchDate, statsJson, notes })
+        .expect(201);
+
+    it('gathers every team\'s matches against an opponent with averages per season', async () => {
+      const teamA = await createTestTeam('Test Team A', 'test-team-a', undefined, await createSeason('2024'));
+      const teamB = await createTestTeam('Test Team B', 'test-team-b', undefined, await createSeason('2025'));
+
+      const first = await createMatch(teamA.id, 'Titans', '2024-04-01', { goalsFor: 2, goalsAgainst: 1, possession: 55 }, 'They press high');
+      await createMatch(teamA.id, 'TITANS', '2024-10-01', { goalsFor: 0, goalsAgainst: 0, possession: 45 });
+      await createMatch(teamB.id, 'Titans', '2025-04-01', { goalsFor: 1, goalsAgainst: 3 });
+      await createMatch(teamB.id, 'Rovers', '2025-04-08', { goalsFor: 5, goalsAgainst: 0 });
+
+      const response = await makeRequest()
+        .get(`/api/opponents/${first.body.opponentId}/head-to-head`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(200);
+
+      expect(response.body.opponent.name).toBe('Titans');
+      expect(response.body.record).toEqual({ played: 3, wins: 1, draws: 1, losses: 1, goalsFor: 3, goalsAgainst: 4 });
+      // Only games where possession was recorded count towards its average
+      expect(response.body.averages.possession).toBe(50);
+      expect(response.body.seasons.map((season: { seasonName: string; record: { played: number } }) =>
+        [season.seasonName, season.record.played])).toEqual([['2024', 2], ['2025', 1]]);
+      expect(response.body.matches.map((match: { matchDate: string; outcome: string }) =>
+        [match.matchDate, match.outcome])).toEqual([['2025-04-01', 'L'], ['2024-10-01', 'D'], ['2024-04-01', 'W']]);
+      expect(response.body.matches[2]).toMatchObject({ teamDisplayName: 'Test Team A', notes: 'They press high' });
+    });
+
+    it('limits coaches to their assigned teams', async () => {
+      const coach = await createTestCoach();
+      const teamA = await createTestTeam('Test Team A', 'test-team-a');
+      const teamB = await createTestTeam('Test Team B', 'test-team-b');
+      await assignTeamToUser(coach.userId, teamA.id, admin.userId);
+
+      const first = await createMatch(teamA.id, 'Titans', '2024-04-01', { goalsFor: 1, goalsAgainst: 0 });
+      await createMatch(teamB.id, 'Titans', '2024-05-01', { goalsFor: 0, goalsAgainst: 2 });
+
+      const response = await makeRequest()
+        .get(`/api/opponents/${first.body.opponentId}/head-to-head`)
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .expect(200);
+      expect(response.body.record).toMatchObject({ played: 1, wins: 1 });
+
+      await makeRequest()
+        .get(`/api/opponents/${first.body.opponentId}/head-to-head?teamId=${teamB.id}`)
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .expect(403);
+
+      await makeRequest()
+        .get('/api/opponents/999999/head-to-head')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { buildHeatmap, computePossessionZones, validateHeatmapOptions } from '../services/heatmapService.js';
+
+function located(x: number | null, y: number | null, isJogaTeam = true, eventType = 'pass', period: number | null = 1, extra: any = {}) {
+  return {
+    eventType,
+    eventCategory: null,
+    period,
+    xCoordinate: x,
+    yCoordinate: y,
+    isJogaTeam,
+    playerName: null,
+    ...extra,
+  };
+}
+
+describe('heatmapService', () => {
+  // ---------------------------------------------------------------------------
+  // buildHeatmap
+  // ---------------------------------------------------------------------------
+  describe('buildHeatmap', () => {
+    it('bins located events into the grid and counts events without a location', () => {
+      const heatmap = buildHeatmap([
+        located(10, 10),
+        located(12, 20),
+        located(100, 100),
+        located(null, null),
+      ], { columns: 4, rows: 2 });
+
+      expect(heatmap.cells).toEqual([
+        [2, 0, 0, 0],
+        [0, 0, 0, 1],
+      ]);
+      expect(heatmap.max).toBe(2);
+      expect(heatmap.events).toBe(3);
+      expect(heatmap.eventsWithoutLocation).toBe(1);
+    });
+
+    it('mirrors the opponent and listed periods into the attacking frame', () => {
+      const opponent = buildHeatmap([located(10, 10, false)], { side: 'opponent', columns: 2, rows: 2 });
+      expect(opponent.cells).toEqual([[0, 0], [0, 1]]);
+      expect(opponent.thirds).toEqual({ def: 0, mid: 0, att: 100 });
+
+      const secondHalfSwitched = buildHeatmap([
+        located(90, 50, true, 'pass', 1),
+        located(10, 50, true, 'pass', 2),
+      ], { columns: 2, rows: 1, mirrorPeriods: [2] });
+      expect(secondHalfSwitched.cells).toEqual([[0, 2]]);
+    });
+
+    it('filters by event type and player and lists the event types available', () => {
+      const events = [
+        located(10, 10, true, 'Pass', 1, { playerName: 'Sam Lee' }),
+        located(90, 10, true, 'shot', 1, { playerName: 'sam  lee' }),
+        located(50, 50, true, 'pass', 1, { playerName: 'Jordan Park' }),
+        located(50, 50, false, 'corner'),
+      ];
+
+      const passes = buildHeatmap(events, { eventTypes: ['pass'] });
+      expect(passes.events).toBe(2);
+      expect(passes.eventTypes).toEqual(['pass', 'shot']);
+
+      const player = buildHeatmap(events, { playerName: 'Sam Lee' });
+      expect(player.events).toBe(2);
+      expect(player.thirds).toEqual({ def: 50, mid: 0, att: 50 });
+      expect(player.playerNames).toEqual(['Jordan Park', 'Sam Lee']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // computePossessionZones
+  // ---------------------------------------------------------------------------
+  describe('computePossessionZones', () => {
+    it('needs enough located on-ball events', () => {
+      const events = Array.from({ length: 19 }, (_, i) => located(i < 10 ? 20 : 80, 50));
+      expect(computePossessionZones(events)).toBeNull();
+
+      const zones = computePossessionZones([
+        ...events,
+        located(50, 50),
+        { ...located(5, 50), eventCategory: 'defense' },
+      ]);
+      expect(zones).toEqual({ possessionDef: 50, possessionMid: 5, possessionAtt: 45 });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // validateHeatmapOptions
+  // ---------------------------------------------------------------------------
+  describe('validateHeatmapOptions', () => {
+    it('rejects unknown sides and out-of-range grids', () => {
+      expect(validateHeatmapOptions({ side: 'joga', columns: 12, rows: 8, mirrorPeriods: [2] })).toBeNull();
+      expect(validateHeatmapOptions({ side: 'both' as any })).toContain('side');
+      expect(validateHeatmapOptions({ columns: 1 })).toContain('columns');
+      expect(validateHeatmapOptions({ rows: 4.5 })).toContain('rows');
+      expect(validateHeatmapOptions({ mirrorPeriods: [NaN] })).toContain('mirrorPeriods');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { assignTeamToUser, createTestGameEvent, createTestMatch, createTestTeam } from './helpers/dataHelpers.js';
+import { computeMinutesPlayed } from '../services/lineupService.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+const starters = (names: string[]) => names.map(playerName => ({ playerName, isStarter: true }));
+const bench = (names: string[]) => names.map(playerName => ({ playerName, isStarter: false }));
+
+describe('computeMinutesPlayed', () => {
+  it('counts starters from kickoff and substitutes from when they come on', () => {
+    const minutes = computeMinutesPlayed(
+      [...starters(['Sam Lee', 'Alex Kim']), ...bench(['Jordan Park', 'Unused Sub'])],
+      [{ minute: 30, playerOff: 'sam lee', playerOn: 'Jordan Park' }],
+      60
+    );
+    expect(Object.fromEntries(minutes)).toEqual({ 'sam lee': 30, 'alex kim': 60, 'jordan park': 30, 'unused sub': 0 });
+  });
+
+  it('supports players going back on (rolling substitutions)', () => {
+    const minutes = computeMinutesPlayed(
+      [...starters(['Sam Lee']), ...bench(['Jordan Park'])],
+      [
+        { minute: 40, playerOff: 'Jordan Park', playerOn: 'Sam Lee' },
+        { minute: 20, playerOff: 'Sam Lee', playerOn: 'Jordan Park' },
+      ],
+      60
+    );
+    expect(minutes.get('sam lee')).toBe(40);
+    expect(minutes.get('jordan park')).toBe(20);
+  });
+
+  it('rejects substitutions that do not fit the lineup', () => {
+    expect(() => computeMinutesPlayed(
+      [...starters(['Sam Lee']), ...bench(['Jordan Park'])],
+      [{ minute: 10, playerOff: 'Jordan Park', playerOn: 'Sam Lee' }],
+      60
+    )).toThrow("Substitution at 10': Jordan Park is not on the pitch");
+    expect(() => computeMinutesPlayed(
+      starters(['Sam Lee']),
+      [{ minute: 10, playerOff: 'Sam Lee', playerOn: 'Somebody Else' }],
+      60
+    )).toThrow('Somebody Else is not in the lineup');
+  });
+});
+
+describe('Match lineups and playing time', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam();
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  const saveLineup = (matchId: number, body: Record<string, any>, user: { cookies: string[]; csrfToken?: string } = admin) =>
+    makeRequest()
+      .put(`/api/matches/${matchId}/lineup`)
+      .set(getAuthHeaders(user.cookies, user.csrfToken))
+      .send(body);
+
+  it('saves a lineup with minutes played and links roster players', async () => {
+    const player = await makeRequest()
+      .post('/api/players')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ name: 'Sam Lee', jerseyNumber: 9, teamId: testTeam.id })
+      .expect(201);
+    const match = await createTestMatch(testTeam.id);
+
+    const badSub = await saveLineup(match.id, {
+      durationMinutes: 60,
+      players: [...starters(['Sam Lee']), ...bench(['Jordan Park'])],
+      substitutions: [{ minute: 20, playerOff: 'Jordan Park', playerOn: 'Sam Lee' }],
+    }).expect(400);
+    expect(badSub.body.error).toContain('Jordan Park is not on the pitch');
+
+    const saved = await saveLineup(match.id, {
+      durationMinutes: 60,
+      players: [{ playerId: player.body.id, isStarter: true }, ...bench(['jordan  park'])],
+      substitutions: [{ minute: 45, playerOff: 'sam lee', playerOn: 'Jordan Park' }],
+    }).expect(200);
+    expect(saved.body.players).toEqual([
+      { playerName: 'Sam Lee', playerId: player.body.id, isStarter: true, minutesPlayed: 45 },
+      { playerName: 'jordan park', playerId: null, isStarter: false, minutesPlayed: 15 },
+    ]);
+    expect(saved.body.substitutions).toEqual([{ minute: 45, playerOff: 'Sam Lee', playerOn: 'jordan park' }]);
+
+    const fetched = await makeRequest()
+      .get(`/api/matches/${match.id}/lineup`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(fetched.body.durationMinutes).toBe(60);
+  });
+
+  it('suggests roster players and names already used in the team\'s events', async () => {
+    await makeRequest()
+      .post('/api/players')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ name: 'Sam Lee', jerseyNumber: 9, teamId: testTeam.id })
+      .expect(201);
+    const match = await createTestMatch(testTeam.id);
+    await createTestGameEvent(match.id, 'shot', 'attack', 10, 1, 5, 0, undefined, undefined, undefined, undefined, true, 'Casey Fox');
+    await createTestGameEvent(match.id, 'shot', 'attack', 20, 1, 6, 0, undefined, undefined, undefined, undefined, false, 'Their Striker');
+
+    const names = await makeRequest()
+      .get(`/api/matches/${match.id}/lineup/names`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(names.body).toEqual([
+      { name: 'Casey Fox', playerId: null, jerseyNumber: null },
+      { name: 'Sam Lee', playerId: expect.any(Number), jerseyNumber: 9 },
+    ]);
+  });
+
+  it('totals season minutes and flags players below the playing time policy', async () => {
+    const first = await createTestMatch(testTeam.id, 'Opponent A', '2026-09-01');
+    const second = await createTestMatch(testTeam.id, 'Opponent B', '2026-09-08');
+    await saveLineup(first.id, {
+      durationMinutes: 60,
+      players: [...starters(['Sam Lee', 'Alex Kim']), ...bench(['Jordan Park'])],
+      substitutions: [{ minute: 50, playerOff: 'Alex Kim', playerOn: 'Jordan Park' }],
+    }).expect(200);
+    await saveLineup(second.id, {
+      durationMinutes: 60,
+      players: [...starters(['Sam Lee', 'Jordan Park']), ...bench(['Alex Kim'])],
+    }).expect(200);
+
+    await makeRequest()
+      .put('/api/club-settings/playing-time-policy')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ minSharePercent: 60 })
+      .expect(200);
+
+    const report = await makeRequest()
+      .get(`/api/players/playing-time?teamId=${testTeam.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(report.body.policy).toEqual({ minSharePercent: 60 });
+    expect(report.body.matches).toBe(2);
+    expect(report.body.alerts).toBe(2);
+    expect(report.body.players.map((player: any) => [player.playerName, player.minutesPlayed, player.sharePercent, player.belowPolicy]))
+      .toEqual([
+        ['Alex Kim', 50, 41.7, true],
+        ['Jordan Park', 70, 58.3, true],
+        ['Sam Lee', 120, 100, false],
+      ]);
+    expect(report.body.players[0]).toMatchObject({ matches: 2, starts: 1, appearances: 1, availableMinutes: 120 });
+  });
+
+  it('limits lineup changes and playing time to the coach\'s teams', async () => {
+    const otherTeam = await createTestTeam('Other Team', 'other-team');
+    const ownMatch = await createTestMatch(testTeam.id);
+    const otherMatch = await createTestMatch(otherTeam.id);
+    const coach = await createTestCoach();
+    await assignTeamToUser(coach.userId, testTeam.id);
+
+    const lineup = { durationMinutes: 60, players: starters(['Sam Lee']) };
+    await saveLineup(ownMatch.id, lineup, coach).expect(200);
+    await saveLineup(otherMatch.id, lineup, coach).expect(403);
+
+    await makeRequest()
+      .get(`/api/players/playing-time?teamId=${otherTeam.id}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(403);
+    await makeRequest()
+      .put('/api/club-settings/playing-time-policy')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .send({ minSharePercent: 40 })
+      .expect(403);
+  });
+});
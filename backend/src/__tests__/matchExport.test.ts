@@ -0,0 +1,257 @@
+import request from 'supertest';
+import ExcelJS from 'exceljs';
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestTeam, createTestMatch, assignTeamToUser } from './helpers/dataHelpers.js';
+import { splitMatchStats, toCsv, GAME_INFO_COLUMNS } from '../services/matchExportService.js';
+import { parseCsv } from '../services/matchImportService.js';
+import { createSeason } from '../services/seasonService.js';
+import { createCompetition } from '../services/competitionService.js';
+import { db } from '../db/database.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+const STATS = {
+  opponentName: 'Test Opponent',
+  goalsFor1stHalf: 1,
+  goalsFor2ndHalf: 1,
+  goalsAgainst1stHalf: 0,
+  goalsAgainst2ndHalf: 1,
+  shotsFor1stHalf: 4,
+  shotsFor2ndHalf: 3,
+  goalsFor: 2,
+  goalsAgainst: 1,
+};
+
+describe('Match Export', () => {
+  // ---------------------------------------------------------------------------
+  // Formatting helpers
+  // ---------------------------------------------------------------------------
+  describe('splitMatchStats', () => {
+    it('separates entered stats from computed stats and drops game info keys', () => {
+      const { raw, computed } = splitMatchStats(STATS);
+
+      expect(raw.goalsFor1stHalf).toBe(1);
+      expect(raw).not.toHaveProperty('goalsFor');
+      expect(raw).not.toHaveProperty('opponentName');
+      expect(computed.goalsFor).toBe(2);
+      expect(computed.shotsFor).toBe(7);
+      expect(computed).not.toHaveProperty('result');
+      expect(computed).not.toHaveProperty('goalsFor1stHalf');
+    });
+
+    it('handles matches without stats', () => {
+      expect(splitMatchStats(null)).toEqual({ raw: {}, computed: {} });
+    });
+  });
+
+  describe('toCsv', () => {
+    it('quotes values containing commas, quotes and newlines', () => {
+      const csv = toCsv({
+        columns: ['Opponent', 'Notes', 'Goals'],
+        rows: [{ Opponent: 'Smith, FC', Notes: 'said "hi"\nlate', Goals: 2 }],
+      });
+      expect(parseCsv(csv)).toEqual([
+        ['Opponent', 'Notes', 'Goals'],
+        ['Smith, FC', 'said "hi"\nlate', '2'],
+      ]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // GET /api/matches/export
+  // ---------------------------------------------------------------------------
+  describe('GET /api/matches/export', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+    let coach: Awaited<ReturnType<typeof createTestCoach>>;
+    let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+    let otherTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+    beforeAll(async () => {
+      await cleanupTestData();
+      client = await getTestClient();
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    beforeEach(async () => {
+      admin = await createTestAdmin();
+      coach = await createTestCoach();
+      testTeam = await createTestTeam();
+      otherTeam = await createTestTeam(undefined, `test-team-other-${Date.now()}`);
+      await assignTeamToUser(coach.userId, testTeam.id, admin.userId);
+    });
+
+    afterAll(async () => {
+      await cleanupTestData();
+    });
+
+    it('should return 401 without authentication', async () => {
+      await makeRequest().get('/api/matches/export').expect(401);
+    });
+
+    it('exports CSV with game info, raw and computed columns by default', async () => {
+      const competition = await createCompetition({ name: 'Spring League', type: 'league' });
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', 'League', 'Win', STATS);
+      await db
+        .updateTable('matches')
+        .set({ competition_id: competition.id, format: '9v9' })
+        .where('id', '=', match.id)
+        .execute();
+
+      const response = await makeRequest()
+        .get('/api/matches/export')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toMatch(/attachment; filename="matches-.*\.csv"/);
+
+      const [header, row] = parseCsv(response.text);
+      expect(header.slice(0, GAME_INFO_COLUMNS.length)).toEqual(GAME_INFO_COLUMNS);
+      expect(header).toEqual(expect.arrayContaining(['goalsFor1stHalf', 'goalsFor', 'tsr']));
+
+      const values = Object.fromEntries(header.map((column, index) => [column, row[index]]));
+      expect(values['Team']).toBe(testTeam.slug);
+      expect(values['Date']).toBe('2024-03-01');
+      expect(values['Opponent']).toBe('Test Opponent');
+      expect(values['Competition']).toBe('Spring League');
+      expect(values['Competition Type']).toBe('League');
+      expect(values['Format']).toBe('9v9');
+      expect(values['Result']).toBe('Win');
+      expect(values['goalsFor']).toBe('2');
+    });
+
+    it('limits columns to the requested set', async () => {
+      await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, STATS);
+
+      const raw = await makeRequest()
+        .get('/api/matches/export?format=json&columns=raw')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(raw.body[0]).toHaveProperty('goalsFor1stHalf', 1);
+      expect(raw.body[0]).not.toHaveProperty('goalsFor');
+      expect(raw.body[0]).toHaveProperty('Opponent', 'Test Opponent');
+
+      const computed = await makeRequest()
+        .get('/api/matches/export?format=json&columns=computed')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(computed.body[0]).toHaveProperty('goalsFor', 2);
+      expect(computed.body[0]).not.toHaveProperty('goalsFor1stHalf');
+    });
+
+    it('exports XLSX', async () => {
+      await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, STATS);
+
+      const response = await makeRequest()
+        .get('/api/matches/export?format=xlsx')
+        .set(getAuthHeaders(admin.cookies))
+        .buffer(true)
+        .parse((res: any, callback: any) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(response.body);
+      const sheet = workbook.worksheets[0];
+      const header = (sheet.getRow(1).values as any[]).slice(1);
+      const opponentColumn = header.indexOf('Opponent') + 1;
+      expect(opponentColumn).toBeGreaterThan(0);
+      expect(sheet.getRow(2).getCell(opponentColumn).value).toBe('Test Opponent');
+    });
+
+    it('round-trips kickoff time, status, competition and format through the importer', async () => {
+      const competition = await createCompetition({ name: 'Spring League', type: 'league' });
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, STATS);
+      await db
+        .updateTable('matches')
+        .set({ kickoff_time: '18:30', status: 'scheduled', competition_id: competition.id, format: '7v7' })
+        .where('id', '=', match.id)
+        .execute();
+
+      const exported = await makeRequest()
+        .get('/api/matches/export?columns=raw')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      await db.deleteFrom('matches').where('id', '=', match.id).execute();
+
+      const imported = await makeRequest()
+        .post('/api/matches/import/commit')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ fileBase64: Buffer.from(exported.text, 'utf8').toString('base64'), fileName: 'matches.csv' })
+        .expect(201);
+      expect(imported.body.created).toBe(1);
+
+      const reimported = await db
+        .selectFrom('matches')
+        .selectAll()
+        .where('id', '=', imported.body.matches[0].matchId)
+        .executeTakeFirstOrThrow();
+      expect(reimported.kickoff_time).toBe('18:30');
+      expect(reimported.status).toBe('scheduled');
+      expect(reimported.competition_id).toBe(competition.id);
+      expect(reimported.format).toBe('7v7');
+      const stats = JSON.parse(reimported.stats_json!);
+      expect(stats.goalsFor1stHalf).toBe(1);
+      expect(stats).not.toHaveProperty('Kickoff');
+      expect(stats).not.toHaveProperty('Status');
+      expect(stats).not.toHaveProperty('kickoffTime');
+      expect(stats).not.toHaveProperty('Competition');
+      expect(stats).not.toHaveProperty('format');
+    });
+
+    it('applies team, date and season filters', async () => {
+      const season = await createSeason(2032);
+      const seasonTeam = await createTestTeam(undefined, `test-team-season-${Date.now()}`, undefined, season.id);
+      await createTestMatch(testTeam.id, 'Test Opponent Early', '2024-01-10');
+      await createTestMatch(testTeam.id, 'Test Opponent Late', '2024-06-10');
+      await createTestMatch(seasonTeam.id, 'Test Opponent Season', '2024-06-10');
+
+      const byTeamAndDate = await makeRequest()
+        .get(`/api/matches/export?format=json&teamId=${testTeam.id}&startDate=2024-03-01&endDate=2024-12-31`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(byTeamAndDate.body.map((row: any) => row.Opponent)).toEqual(['Test Opponent Late']);
+
+      const bySeason = await makeRequest()
+        .get(`/api/matches/export?format=json&seasonId=${season.id}`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(bySeason.body.map((row: any) => row.Opponent)).toEqual(['Test Opponent Season']);
+    });
+
+    it('limits coaches to their assigned teams', async () => {
+      await createTestMatch(testTeam.id, 'Test Opponent Mine', '2024-03-01');
+      await createTestMatch(otherTeam.id, 'Test Opponent Theirs', '2024-03-01');
+
+      const response = await makeRequest()
+        .get('/api/matches/export?format=json')
+        .set(getAuthHeaders(coach.cookies))
+        .expect(200);
+      expect(response.body.map((row: any) => row.Opponent)).toEqual(['Test Opponent Mine']);
+
+      const forbidden = await makeRequest()
+        .get(`/api/matches/export?teamId=${otherTeam.id}`)
+        .set(getAuthHeaders(coach.cookies))
+        .expect(403);
+      expect(forbidden.body.error).toBe('You can only view matches for your assigned teams');
+    });
+
+    it('rejects unknown formats and column sets', async () => {
+      await makeRequest()
+        .get('/api/matches/export?format=pdf')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(400);
+      await makeRequest()
+        .get('/api/matches/export?columns=everything')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(400);
+    });
+  });
+});
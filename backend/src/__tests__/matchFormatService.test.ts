@@ -0,0 +1,38 @@
+import { defaultFormatForLevel, getPeriodCount, normalizeMatchFormat } from '../services/matchFormatService.js';
+
+describe('matchFormatService', () => {
+  describe('normalizeMatchFormat', () => {
+    it('accepts known formats and clears empty values', () => {
+      expect(normalizeMatchFormat('7v7')).toBe('7v7');
+      expect(normalizeMatchFormat(' 11V11 ')).toBe('11v11');
+      expect(normalizeMatchFormat('')).toBeNull();
+      expect(normalizeMatchFormat(null)).toBeNull();
+      expect(normalizeMatchFormat(undefined)).toBeNull();
+    });
+
+    it('rejects unknown formats', () => {
+      expect(() => normalizeMatchFormat('5v5')).toThrow('Invalid format (must be 7v7, 9v9, or 11v11)');
+    });
+  });
+
+  describe('defaultFormatForLevel', () => {
+    it('maps team levels to the format they play', () => {
+      expect(defaultFormatForLevel('U9')).toBe('7v7');
+      expect(defaultFormatForLevel('u10')).toBe('7v7');
+      expect(defaultFormatForLevel('U11')).toBe('9v9');
+      expect(defaultFormatForLevel('12')).toBe('9v9');
+      expect(defaultFormatForLevel('U13')).toBe('11v11');
+      expect(defaultFormatForLevel('Senior')).toBeNull();
+      expect(defaultFormatForLevel(null)).toBeNull();
+    });
+  });
+
+  describe('getPeriodCount', () => {
+    it('uses quarters for 7v7 and halves otherwise', () => {
+      expect(getPeriodCount('7v7')).toBe(4);
+      expect(getPeriodCount('9v9')).toBe(2);
+      expect(getPeriodCount('11v11')).toBe(2);
+      expect(getPeriodCount(null)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import request from 'supertest';
+import ExcelJS from 'exceljs';
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestTeam, createTestMatch, assignTeamToUser } from './helpers/dataHelpers.js';
+import { parseCsv, parseImportDate } from '../services/matchImportService.js';
+import { db } from '../db/database.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+function toBase64(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64');
+}
+
+describe('Match Import', () => {
+  // ---------------------------------------------------------------------------
+  // Parsing helpers
+  // ---------------------------------------------------------------------------
+  describe('parseCsv', () => {
+    it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+      const rows = parseCsv('Opponent,Notes\r\n"Smith, FC","said ""hi"""\r\nTitans,\r\n');
+      expect(rows).toEqual([
+        ['Opponent', 'Notes'],
+        ['Smith, FC', 'said "hi"'],
+        ['Titans', ''],
+      ]);
+    });
+
+    it('strips a UTF-8 BOM', () => {
+      expect(parseCsv('\uFEFFDate\n2024-03-01')[0]).toEqual(['Date']);
+    });
+  });
+
+  describe('parseImportDate', () => {
+    it('accepts ISO, US and spreadsheet serial dates', () => {
+      expect(parseImportDate('2024-03-01')).toBe('2024-03-01');
+      expect(parseImportDate('3/1/2024')).toBe('2024-03-01');
+      expect(parseImportDate('3/1/24')).toBe('2024-03-01');
+      expect(parseImportDate(45352)).toBe('2024-03-01');
+      expect(parseImportDate(new Date(Date.UTC(2024, 2, 1)))).toBe('2024-03-01');
+    });
+
+    it('rejects invalid dates', () => {
+      expect(parseImportDate('2024-02-30')).toBeNull();
+      expect(parseImportDate('next tuesday')).toBeNull();
+      expect(parseImportDate('')).toBeNull();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Routes
+  // ---------------------------------------------------------------------------
+  describe('API', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+    let coach: Awaited<ReturnType<typeof createTestCoach>>;
+    let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+    beforeAll(async () => {
+      await cleanupTestData();
+      client = await getTestClient();
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    beforeEach(async () => {
+      admin = await createTestAdmin();
+      coach = await createTestCoach();
+      testTeam = await createTestTeam();
+      await assignTeamToUser(coach.userId, testTeam.id, admin.userId);
+    });
+
+    afterAll(async () => {
+      await cleanupTestData();
+    });
+
+    function buildCsv(): string {
+      return [
+        'Team,Date,Opponent,Home/Away,Goals For (1st Half),Goals For (2nd Half),Goals Against (1st Half),Goals Against (2nd Half),Shots For (1st Half),Shots For (2nd Half)',
+        `${testTeam.slug},2024-03-01,Titans FC,Home,1,2,0,1,5,4`,
+        `${testTeam.slug},03/08/2024,Existing Opponent,Away,0,0,1,0,2,3`,
+        `${testTeam.slug},not a date,Rovers,,,,,,,`,
+        `${testTeam.slug},2024-03-01,titans fc,Home,1,2,0,1,5,4`,
+      ].join('\n');
+    }
+
+    describe('POST /api/matches/import/preview', () => {
+      it('requires admin', async () => {
+        const response = await makeRequest()
+          .post('/api/matches/import/preview')
+          .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+          .send({ fileBase64: toBase64(buildCsv()), fileName: 'matches.csv' });
+
+        expect(response.status).toBe(403);
+      });
+
+      it('rejects unsupported file types', async () => {
+        const response = await makeRequest()
+          .post('/api/matches/import/preview')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: toBase64('hello'), fileName: 'matches.txt' });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain('Unsupported file type');
+      });
+
+      it('maps columns, computes stats and flags duplicates and invalid rows', async () => {
+        await createTestMatch(testTeam.id, 'Existing Opponent', '2024-03-08');
+
+        const response = await makeRequest()
+          .post('/api/matches/import/preview')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: toBase64(buildCsv()), fileName: 'matches.csv' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.fileType).toBe('csv');
+        expect(response.body.summary).toEqual({ total: 4, valid: 3, invalid: 1, duplicates: 2 });
+
+        const [first, second, third, fourth] = response.body.rows;
+
+        expect(first.rowNumber).toBe(2);
+        expect(first.gameInfo).toMatchObject({
+          teamId: testTeam.id,
+          opponentName: 'Titans FC',
+          matchDate: '2024-03-01',
+          isHome: true,
+        });
+        expect(first.rawStats.goalsFor1stHalf).toBe(1);
+        expect(first.computedStats.goalsFor).toBe(3);
+        expect(first.computedStats.shotsFor).toBe(9);
+        expect(first.computedStats.result).toBe('Win');
+        expect(first.duplicate).toBeNull();
+
+        expect(second.gameInfo.matchDate).toBe('2024-03-08');
+        expect(second.duplicate).toMatchObject({ opponentName: 'Existing Opponent', matchDate: '2024-03-08' });
+
+        expect(third.errors).toContain('Invalid date: not a date');
+
+        expect(fourth.duplicateOfRow).toBe(2);
+
+        // Preview does not write anything
+        const matches = await db.selectFrom('matches').select('id').where('team_id', '=', testTeam.id).execute();
+        expect(matches).toHaveLength(1);
+      });
+
+      it('uses the default team for rows without a Team column and warns about similar opponents', async () => {
+        await createTestMatch(testTeam.id, 'Titans FC', '2023-10-01');
+
+        const csv = 'Date,Opponent,Goals For,Goals Against\n2024-04-01,Titanz FC,2,2';
+        const response = await makeRequest()
+          .post('/api/matches/import/preview')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: toBase64(csv), fileName: 'matches.csv', teamId: testTeam.id });
+
+        expect(response.status).toBe(200);
+        const [row] = response.body.rows;
+        expect(row.errors).toEqual([]);
+        expect(row.gameInfo.teamId).toBe(testTeam.id);
+        expect(row.warnings[0]).toContain('"Titans FC"');
+      });
+
+      it('reports unknown teams', async () => {
+        const csv = 'Team,Date,Opponent\nno-such-team,2024-04-01,Rovers';
+        const response = await makeRequest()
+          .post('/api/matches/import/preview')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: toBase64(csv), fileName: 'matches.csv' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.rows[0].errors).toContain('Team not found: no-such-team');
+      });
+
+      it('reads XLSX files', async () => {
+        const workbook = new ExcelJS.Workbook();
+        const sheet = workbook.addWorksheet('Matches');
+        sheet.addRow(['Team', 'Date', 'Opponent', 'Goals For', 'Goals Against']);
+        sheet.addRow([testTeam.displayName, new Date(Date.UTC(2024, 4, 12)), 'Rovers', 1, 0]);
+        const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+        const response = await makeRequest()
+          .post('/api/matches/import/preview')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: buffer.toString('base64'), fileName: 'matches.xlsx' });
+
+        expect(response.status).toBe(200);
+        const [row] = response.body.rows;
+        expect(row.errors).toEqual([]);
+        expect(row.gameInfo).toMatchObject({ teamId: testTeam.id, matchDate: '2024-05-12', opponentName: 'Rovers' });
+        expect(row.rawStats.goalsFor).toBe(1);
+      });
+    });
+
+    describe('POST /api/matches/import/commit', () => {
+      it('imports all valid non-duplicate rows by default', async () => {
+        await createTestMatch(testTeam.id, 'Existing Opponent', '2024-03-08');
+
+        const response = await makeRequest()
+          .post('/api/matches/import/commit')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: toBase64(buildCsv()), fileName: 'matches.csv' });
+
+        expect(response.status).toBe(201);
+        expect(response.body.created).toBe(1);
+        expect(response.body.matches[0].rowNumber).toBe(2);
+
+        const match = await db
+          .selectFrom('matches')
+          .selectAll()
+          .where('id', '=', response.body.matches[0].matchId)
+          .executeTakeFirstOrThrow();
+        expect(match.opponent_name).toBe('Titans FC');
+        expect(match.result).toBe('Win');
+        expect(match.stats_source).toBe('import');
+        expect(match.created_by).toBe(admin.userId);
+        expect(JSON.parse(match.stats_json!).goalsFor).toBe(3);
+      });
+
+      it('imports only the selected rows', async () => {
+        const response = await makeRequest()
+          .post('/api/matches/import/commit')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: toBase64(buildCsv()), fileName: 'matches.csv', rowNumbers: [3] });
+
+        expect(response.status).toBe(201);
+        expect(response.body.created).toBe(1);
+
+        const matches = await db
+          .selectFrom('matches')
+          .select('opponent_name')
+          .where('team_id', '=', testTeam.id)
+          .execute();
+        expect(matches.map(m => m.opponent_name)).toEqual(['Existing Opponent']);
+      });
+
+      it('rejects selections containing invalid rows without creating anything', async () => {
+        const response = await makeRequest()
+          .post('/api/matches/import/commit')
+          .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+          .send({ fileBase64: toBase64(buildCsv()), fileName: 'matches.csv', rowNumbers: [2, 4, 99] });
+
+        expect(response.status).toBe(400);
+        expect(response.body.rowErrors).toEqual([
+          { rowNumber: 4, errors: ['Invalid date: not a date'] },
+          { rowNumber: 99, errors: ['Row not found in file'] },
+        ]);
+
+        const matches = await db.selectFrom('matches').select('id').where('team_id', '=', testTeam.id).execute();
+        expect(matches).toHaveLength(0);
+      });
+
+      it('requires admin', async () => {
+        const response = await makeRequest()
+          .post('/api/matches/import/commit')
+          .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+          .send({ fileBase64: toBase64(buildCsv()), fileName: 'matches.csv' });
+
+        expect(response.status).toBe(403);
+      });
+    });
+  });
+});
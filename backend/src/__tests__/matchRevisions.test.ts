@@ -0,0 +1,240 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, createTestViewer, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestTeam, createTestMatch, assignTeamToUser } from './helpers/dataHelpers.js';
+import { diffMatchSnapshots, type MatchSnapshot } from '../services/matchRevisionService.js';
+import { db } from '../db/database.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+const SNAPSHOT: MatchSnapshot = {
+  teamId: 1,
+  opponentName: 'Test Opponent',
+  matchDate: '2024-03-01',
+  competitionType: 'League',
+  result: 'Win',
+  isHome: true,
+  matchIdExternal: null,
+  statsJson: { goalsFor: 2, goalsAgainst: 1, shotsFor: 8 },
+  statsSource: 'manual',
+  statsComputedAt: null,
+  statsManualFields: null,
+  notes: null,
+  venue: null,
+  referee: null,
+  createdBy: 1,
+};
+
+describe('Match Revisions', () => {
+  describe('diffMatchSnapshots', () => {
+    it('lists changed game info fields, then changed stats keys', () => {
+      const changes = diffMatchSnapshots(SNAPSHOT, {
+        ...SNAPSHOT,
+        result: 'Draw',
+        statsJson: { goalsFor: 1, goalsAgainst: 1, possession: 55 },
+      });
+
+      expect(changes).toEqual([
+        { field: 'result', section: 'game', before: 'Win', after: 'Draw' },
+        { field: 'goalsFor', section: 'stats', before: 2, after: 1 },
+        { field: 'possession', section: 'stats', before: null, after: 55 },
+        { field: 'shotsFor', section: 'stats', before: 8, after: null },
+      ]);
+    });
+
+    it('returns no changes for identical snapshots', () => {
+      expect(diffMatchSnapshots(SNAPSHOT, { ...SNAPSHOT })).toEqual([]);
+    });
+  });
+
+  describe('API', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+    let coach: Awaited<ReturnType<typeof createTestCoach>>;
+    let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+    beforeAll(async () => {
+      await cleanupTestData();
+      client = await getTestClient();
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    beforeEach(async () => {
+      admin = await createTestAdmin();
+      coach = await createTestCoach();
+      testTeam = await createTestTeam();
+      await assignTeamToUser(coach.userId, testTeam.id, admin.userId);
+    });
+
+    afterAll(async () => {
+      await cleanupTestData();
+    });
+
+    async function createMatchViaApi(): Promise<number> {
+      const response = await makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({
+          teamId: testTeam.id,
+          opponentName: 'Test Opponent',
+          matchDate: '2024-03-01',
+          statsJson: { goalsFor: 2, goalsAgainst: 1 },
+        })
+        .expect(201);
+      return response.body.id;
+    }
+
+    function updateMatchViaApi(matchId: number, cookies: string[], csrfToken: string | undefined, statsJson: Record<string, any>) {
+      return makeRequest()
+        .put(`/api/matches/${matchId}`)
+        .set(getAuthHeaders(cookies, csrfToken))
+        .send({ statsJson });
+    }
+
+    it('records create, update and delete revisions with the user', async () => {
+      const matchId = await createMatchViaApi();
+      await updateMatchViaApi(matchId, coach.cookies, coach.csrfToken, { goalsFor: 3, goalsAgainst: 1 }).expect(200);
+      await makeRequest()
+        .delete(`/api/matches/${matchId}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(200);
+
+      const response = await makeRequest()
+        .get(`/api/matches/${matchId}/revisions`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body.map((revision: any) => revision.action)).toEqual(['delete', 'update', 'create']);
+      expect(response.body.map((revision: any) => revision.changedBy)).toEqual([admin.userId, coach.userId, admin.userId]);
+      expect(response.body[1].changedByName).toBeTruthy();
+      expect(response.body[0]).not.toHaveProperty('snapshot');
+    });
+
+    it('keeps the pre-edit state of matches created before revisions existed', async () => {
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, { goalsFor: 1 });
+      await updateMatchViaApi(match.id, admin.cookies, admin.csrfToken, { goalsFor: 4 }).expect(200);
+
+      const revisions = await db
+        .selectFrom('match_revisions')
+        .select(['action', 'snapshot_json'])
+        .where('match_id', '=', match.id)
+        .orderBy('id')
+        .execute();
+
+      expect(revisions.map(revision => revision.action)).toEqual(['create', 'update']);
+      expect(JSON.parse(revisions[0].snapshot_json).statsJson.goalsFor).toBe(1);
+      expect(JSON.parse(revisions[1].snapshot_json).statsJson.goalsFor).toBe(4);
+    });
+
+    it('diffs a revision against the previous one by default, or any other revision', async () => {
+      const matchId = await createMatchViaApi();
+      await updateMatchViaApi(matchId, admin.cookies, admin.csrfToken, { goalsFor: 3, goalsAgainst: 1 }).expect(200);
+      await updateMatchViaApi(matchId, admin.cookies, admin.csrfToken, { goalsFor: 3, goalsAgainst: 2 }).expect(200);
+
+      const list = await makeRequest()
+        .get(`/api/matches/${matchId}/revisions`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      const [latest, middle, first] = list.body;
+
+      const previous = await makeRequest()
+        .get(`/api/matches/${matchId}/revisions/diff?to=${latest.id}`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(previous.body.from.id).toBe(middle.id);
+      expect(previous.body.changes).toEqual([
+        { field: 'goalsAgainst', section: 'stats', before: 1, after: 2 },
+      ]);
+
+      const acrossAll = await makeRequest()
+        .get(`/api/matches/${matchId}/revisions/diff?from=${first.id}&to=${latest.id}`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(acrossAll.body.changes.map((change: any) => change.field)).toEqual(['goalsAgainst', 'goalsFor']);
+
+      await makeRequest()
+        .get(`/api/matches/${matchId}/revisions/diff?to=999999`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(404);
+    });
+
+    it('lets the owning coach restore an earlier revision', async () => {
+      const matchId = await createMatchViaApi();
+      await updateMatchViaApi(matchId, admin.cookies, admin.csrfToken, { goalsFor: 0, goalsAgainst: 5 }).expect(200);
+
+      const list = await makeRequest()
+        .get(`/api/matches/${matchId}/revisions`)
+        .set(getAuthHeaders(coach.cookies))
+        .expect(200);
+      const original = list.body[list.body.length - 1];
+
+      const response = await makeRequest()
+        .post(`/api/matches/${matchId}/revisions/${original.id}/restore`)
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .expect(200);
+
+      expect(response.body.statsJson).toEqual({ goalsFor: 2, goalsAgainst: 1 });
+
+      const latest = await db
+        .selectFrom('match_revisions')
+        .selectAll()
+        .where('match_id', '=', matchId)
+        .orderBy('id', 'desc')
+        .executeTakeFirstOrThrow();
+      expect(latest.action).toBe('restore');
+      expect(latest.changed_by).toBe(coach.userId);
+      expect(latest.restored_from_revision_id).toBe(original.id);
+    });
+
+    it('restores a deleted match with its original ID', async () => {
+      const matchId = await createMatchViaApi();
+      await makeRequest()
+        .delete(`/api/matches/${matchId}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(200);
+
+      const list = await makeRequest()
+        .get(`/api/matches/${matchId}/revisions`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      const response = await makeRequest()
+        .post(`/api/matches/${matchId}/revisions/${list.body[0].id}/restore`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(200);
+
+      expect(response.body.id).toBe(matchId);
+      expect(response.body.opponentName).toBe('Test Opponent');
+    });
+
+    it('enforces team access', async () => {
+      const otherTeam = await createTestTeam(undefined, `test-team-other-${Date.now()}`);
+      const match = await createTestMatch(otherTeam.id, 'Test Opponent', '2024-03-01');
+      await updateMatchViaApi(match.id, admin.cookies, admin.csrfToken, { goalsFor: 1 }).expect(200);
+      const viewer = await createTestViewer();
+
+      await makeRequest()
+        .get(`/api/matches/${match.id}/revisions`)
+        .set(getAuthHeaders(coach.cookies))
+        .expect(403);
+
+      const [revision] = await db.selectFrom('match_revisions').select('id').where('match_id', '=', match.id).execute();
+      await makeRequest()
+        .post(`/api/matches/${match.id}/revisions/${revision.id}/restore`)
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .expect(403);
+      await makeRequest()
+        .post(`/api/matches/${match.id}/revisions/${revision.id}/restore`)
+        .set(getAuthHeaders(viewer.cookies, viewer.csrfToken))
+        .expect(403);
+    });
+
+    it('returns 404 for a match without history', async () => {
+      await makeRequest()
+        .get('/api/matches/999999/revisions')
+        .set(getAuthHeaders(admin.cookies))
+        .expect(404);
+    });
+  });
+});
@@ -228,6 +228,41 @@ describe('matchStatsService', () => {
       expect(result['opp total attempts (2nd half)']).toBe(5);
       expect(result['opp total attempts']).toBe(7);
     });
+
+    it('sums quarters into full game totals and total attempts per quarter', () => {
+      const result = computeMatchStats({
+        opponentName: 'Opp',
+        matchDate: '2024-01-01',
+        goalsForPeriod1: 1, goalsForPeriod2: 0, goalsForPeriod3: 2, goalsForPeriod4: 0,
+        shotsForPeriod1: 2, shotsForPeriod2: 1, shotsForPeriod3: 0, shotsForPeriod4: 3,
+        tacklesPeriod1: 3, tacklesPeriod4: 2,
+      });
+      expect(result.goalsFor).toBe(3);
+      expect(result.shotsFor).toBe(6);
+      expect((result as Record<string, unknown>).tackles).toBe(5);
+      expect(result['total attempts (q1)']).toBe(3);
+      expect(result['total attempts (q4)']).toBe(3);
+      expect(result['total attempts']).toBe(9);
+      expect(result).not.toHaveProperty('total attempts (1st half)');
+    });
+
+    it('sums 7v7 quarter passes and possession minutes into full game totals', () => {
+      const result = computeMatchStats(normalizeFieldNames({
+        'Opponent': 'Opp',
+        'Date': '2024-01-01',
+        'Passes Comp (Q1)': 20, 'Passes Comp (Q2)': 15, 'Passes Comp (Q3)': 25, 'Passes Comp (Q4)': 20,
+        'Opp Passes Comp (Q1)': 10, 'Opp Passes Comp (Q2)': 10, 'Opp Passes Comp (Q3)': 5, 'Opp Passes Comp (Q4)': 15,
+        'Possession Mins (Q1)': 6, 'Possession Mins (Q2)': 5, 'Possession Mins (Q3)': 7, 'Possession Mins (Q4)': 2,
+        'Opp Possession Mins (Q1)': 4, 'Opp Possession Mins (Q2)': 5, 'Opp Possession Mins (Q3)': 3, 'Opp Possession Mins (Q4)': 8,
+      }));
+      expect(result.passesFor).toBe(80);
+      expect(result.passesAgainst).toBe(40);
+      expect((result as Record<string, unknown>).possessionMins).toBe(20);
+      expect((result as Record<string, unknown>).oppPossessionMins).toBe(20);
+      expect(result.ppm).toBe(4);
+      expect(result['opp ppm']).toBe(2);
+      expect(result['pass share']).toBeCloseTo(66.67, 1);
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -397,6 +432,22 @@ describe('matchStatsService', () => {
       });
       expect(result['spi (w)'] ?? 0).toBeGreaterThan(result.spi ?? 0);
     });
+
+    it('uses the given weighting', () => {
+      // 2 5-pass strings → 10 passes; base 4, 50% bonus → multiplier 1.5
+      const result = computeMatchStats(
+        {
+          opponentName: 'Opp',
+          matchDate: '2024-01-01',
+          '3-pass string': 2,
+          '5-pass string': 2,
+          passesFor: 100,
+        },
+        { spiWeighting: { baseStringLength: 4, bonusPerExtraPass: 0.5 } }
+      );
+      expect(result['spi (w)']).toBeCloseTo((6 * 1.0 + 10 * 1.5) / 100 * 100, 5);
+      expect(result.spi).toBeCloseTo(16, 5);
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -417,6 +468,50 @@ describe('matchStatsService', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // computeMatchStats - Defense
+  // ---------------------------------------------------------------------------
+  describe('Defense', () => {
+    it('sums defensive halves and computes defensive actions', () => {
+      const result = computeMatchStats({
+        opponentName: 'Opp',
+        matchDate: '2024-01-01',
+        tackles1stHalf: 6, tackles2ndHalf: 4,
+        interceptions1stHalf: 3, interceptions2ndHalf: 2,
+        clearances: 5,
+        passesAgainst: 200,
+      });
+      expect(result.tackles).toBe(10);
+      expect(result.interceptions).toBe(5);
+      expect(result.clearances).toBe(5);
+      expect(result['defensive actions']).toBe(20);
+      expect(result['opp passes per defensive action']).toBeCloseTo(10, 5);
+    });
+
+    it('computes save % from saves and goals conceded', () => {
+      const result = computeMatchStats({
+        opponentName: 'Opp',
+        matchDate: '2024-01-01',
+        saves1stHalf: 2, saves2ndHalf: 1,
+        goalsAgainst1stHalf: 0, goalsAgainst2ndHalf: 1,
+      });
+      expect(result.saves).toBe(3);
+      expect(result['save %']).toBeCloseTo(75, 5);
+      expect(result['defensive actions']).toBeUndefined();
+    });
+
+    it('computes the share of opponent final third entries ending in an attempt', () => {
+      const result = computeMatchStats({
+        opponentName: 'Opp',
+        matchDate: '2024-01-01',
+        goalsAgainst1stHalf: 1, shotsAgainst1stHalf: 3,
+        oppFinalThirdEntries1stHalf: 12, oppFinalThirdEntries2ndHalf: 8,
+      });
+      expect(result.oppFinalThirdEntries).toBe(20);
+      expect(result['opp entry attempt %']).toBeCloseTo(20, 5);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // normalizeFieldNames
   // ---------------------------------------------------------------------------
@@ -450,6 +545,74 @@ describe('matchStatsService', () => {
       expect(result.passesFor2ndHalf).toBe(80);
     });
 
+    it('handles defensive field names', () => {
+      const result = normalizeFieldNames({
+        'Tackles (1st)': 6,
+        'Interceptions (2nd)': 3,
+        'Opp Final Third Entries (1st)': 9,
+        'Saves': 4,
+      });
+      expect(result.tackles1stHalf).toBe(6);
+      expect(result.interceptions2ndHalf).toBe(3);
+      expect(result.oppFinalThirdEntries1stHalf).toBe(9);
+      expect(result.saves).toBe(4);
+    });
+
+    it('handles quarter and period field names', () => {
+      const result = normalizeFieldNames({
+        'Goals For (Q1)': 1,
+        'Shots Against (3rd Quarter)': 2,
+        'Corners For (Period 4)': 3,
+        'Tackles (Q2)': 5,
+      });
+      expect(result.goalsForPeriod1).toBe(1);
+      expect(result.shotsAgainstPeriod3).toBe(2);
+      expect(result.cornersForPeriod4).toBe(3);
+      expect(result.tacklesPeriod2).toBe(5);
+    });
+
+    it('handles quarter pass and possession minute field names', () => {
+      const result = normalizeFieldNames({
+        'Passes Comp (Q1)': 20,
+        'Opp Passes Completed (Q2)': 12,
+        'Possession Mins (Q3)': 6,
+        'Opp Possession Minutes (Q4)': 4,
+      });
+      expect(result.passesForPeriod1).toBe(20);
+      expect(result.passesAgainstPeriod2).toBe(12);
+      expect(result.possessionMinsPeriod3).toBe(6);
+      expect(result.oppPossessionMinsPeriod4).toBe(4);
+    });
+
+    it('keeps other per-period pass columns out of completed passes', () => {
+      const result = normalizeFieldNames({
+        'Passes Comp (1st)': 40,
+        'Passes per Possession (1st)': 3,
+        'Passes Comp (2nd)': 35,
+        'Long Passes (2nd)': 7,
+      });
+      expect(result.passesFor1stHalf).toBe(40);
+      expect(result.passesFor2ndHalf).toBe(35);
+      expect((result as Record<string, unknown>)['Passes per Possession (1st)']).toBe(3);
+      expect((result as Record<string, unknown>)['Long Passes (2nd)']).toBe(7);
+    });
+
+    it('does not map shot or opponent fields to defensive stats', () => {
+      const result = normalizeFieldNames({
+        'Tackles (1st)': 6,
+        'Opp Tackles (1st)': 4,
+        'Shots Blocked (Q2)': 2,
+        'Opp Final Third Entries (2nd)': 9,
+        'Transformations (1st)': 1,
+      });
+      expect(result.tackles1stHalf).toBe(6);
+      expect((result as Record<string, unknown>)['Opp Tackles (1st)']).toBe(4);
+      expect((result as Record<string, unknown>)['Shots Blocked (Q2)']).toBe(2);
+      expect(result).not.toHaveProperty('blocksPeriod2');
+      expect(result.oppFinalThirdEntries2ndHalf).toBe(9);
+      expect((result as Record<string, unknown>)['Transformations (1st)']).toBe(1);
+    });
+
     it('normalizes case-insensitively', () => {
       const result = normalizeFieldNames({ 'GOALS FOR': 5 });
       expect(result.goalsFor).toBe(5);
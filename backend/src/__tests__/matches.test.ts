@@ -2,6 +2,7 @@ import request from 'supertest';
 import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
 import { createTestAdmin, createTestCoach, createTestViewer, getAuthHeaders } from './helpers/authHelpers.js';
 import { createTestTeam, createTestMatch, createTestGameEvent, assignTeamToUser } from './helpers/dataHelpers.js';
+import { createSeason } from '../services/seasonService.js';
 import { db } from '../db/database.js';
 
 let client: any;
@@ -146,6 +147,20 @@ describe('Matches Management API', () => {
       
       expect(Array.isArray(response.body)).toBe(true);
     });
+
+    it('should filter matches by seasonId (via the team season)', async () => {
+      const season = await createSeason(2031);
+      const seasonTeam = await createTestTeam(undefined, `test-team-season-${Date.now()}`, undefined, season.id);
+      const inSeason = await createTestMatch(seasonTeam.id, 'Test Opponent Season');
+      await createTestMatch(testTeam.id, 'Test Opponent Other');
+
+      const response = await makeRequest()
+        .get(`/api/matches?seasonId=${season.id}`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body.map((m: any) => m.id)).toEqual([inSeason.id]);
+    });
   });
 
   describe('GET /api/matches/:id', () => {
@@ -606,5 +621,414 @@ describe('Matches Management API', () => {
       expect(response.body).toHaveProperty('id');
       expect(response.body.eventType).toBe('shot');
     });
+
+    it('should keep zero minute, second and coordinates', async () => {
+      const response = await makeRequest()
+        .post(`/api/matches/${testMatch.id}/events`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({
+          eventType: 'kickoff',
+          period: 1,
+          minute: 0,
+          second: 0,
+          xCoordinate: 0,
+          yCoordinate: 50,
+        })
+        .expect(201);
+
+      expect(response.body.minute).toBe(0);
+      expect(response.body.second).toBe(0);
+      expect(response.body.xCoordinate).toBe(0);
+      expect(response.body.yCoordinate).toBe(50);
+    });
+
+    it('should derive stats automatically for a match without stats', async () => {
+      await makeRequest()
+        .post(`/api/matches/${testMatch.id}/events`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ eventType: 'goal', period: 1 })
+        .expect(201);
+
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body.statsSource).toBe('events');
+      expect(response.body.statsJson.goalsFor1stHalf).toBe(1);
+    });
+
+    it('should not overwrite hand-typed stats when an event is logged', async () => {
+      await db
+        .updateTable('matches')
+        .set({ stats_json: JSON.stringify({ shotsFor: 12 }), stats_source: 'manual' })
+        .where('id', '=', testMatch.id)
+        .execute();
+
+      await makeRequest()
+        .post(`/api/matches/${testMatch.id}/events`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ eventType: 'shot', period: 1 })
+        .expect(201);
+
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body.statsSource).toBe('manual');
+      expect(response.body.statsJson.shotsFor).toBe(12);
+    });
+  });
+
+  describe('GET /api/matches/:id/events filters', () => {
+    let testMatch: Awaited<ReturnType<typeof createTestMatch>>;
+
+    beforeEach(async () => {
+      testMatch = await createTestMatch(testTeam.id, 'Test Opponent', undefined, undefined, undefined, undefined, admin.userId);
+      await createTestGameEvent(testMatch.id, 'shot', 'attack', 1000, 1, undefined, undefined, undefined, undefined, undefined, undefined, true, 'Alex', undefined, ['counter']);
+      await createTestGameEvent(testMatch.id, 'shot', 'attack', 2000, 2, undefined, undefined, undefined, undefined, undefined, undefined, true, 'Sam', undefined, ['high press', 'counter']);
+      await createTestGameEvent(testMatch.id, 'pass', 'attack', 3000, 2, undefined, undefined, undefined, undefined, undefined, undefined, true, 'Alex', undefined, ['press']);
+    });
+
+    afterEach(async () => {
+      if (testMatch?.id) {
+        await db.deleteFrom('game_events').where('match_id', '=', testMatch.id).execute();
+        await db.deleteFrom('matches').where('id', '=', testMatch.id).execute();
+      }
+    });
+
+    it('should filter by event type and period', async () => {
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/events?eventType=shot&period=2`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].playerName).toBe('Sam');
+    });
+
+    it('should filter by player name', async () => {
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/events?playerName=Alex`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+    });
+
+    it('should filter by whole tags only', async () => {
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/events?tags=press`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].eventType).toBe('pass');
+      expect(response.body[0].tags).toEqual(['press']);
+    });
+
+    it('should match tags case-insensitively', async () => {
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/events?tags=High Press`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].playerName).toBe('Sam');
+    });
+
+    it('should treat LIKE wildcards in tags literally', async () => {
+      await createTestGameEvent(testMatch.id, 'pass', 'attack', 4000, 2, undefined, undefined, undefined, undefined, undefined, undefined, true, 'Sam', undefined, ['a_b']);
+
+      for (const tag of ['_', '%', 'a%', 'axb']) {
+        const response = await makeRequest()
+          .get(`/api/matches/${testMatch.id}/events?tags=${encodeURIComponent(tag)}`)
+          .set(getAuthHeaders(admin.cookies))
+          .expect(200);
+        expect(response.body).toHaveLength(0);
+      }
+
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/events?tags=a_b`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+      expect(response.body).toHaveLength(1);
+    });
+
+    it('should require every requested tag', async () => {
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/events?tags=counter,high press`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].playerName).toBe('Sam');
+    });
+
+    it('should return 400 for an invalid period', async () => {
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/events?period=first`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+
+  describe('GET /api/matches/:id/shots', () => {
+    let testMatch: Awaited<ReturnType<typeof createTestMatch>>;
+
+    beforeEach(async () => {
+      testMatch = await createTestMatch(testTeam.id, 'Test Opponent', undefined, undefined, undefined, undefined, admin.userId);
+    });
+
+    afterEach(async () => {
+      if (testMatch?.id) {
+        await db.deleteFrom('game_events').where('match_id', '=', testMatch.id).execute();
+        await db.deleteFrom('matches').where('id', '=', testMatch.id).execute();
+      }
+    });
+
+    it('should return located shots with xG', async () => {
+      await createTestGameEvent(testMatch.id, 'goal', 'attack', undefined, 1, undefined, undefined, undefined, 92, 50);
+      await createTestGameEvent(testMatch.id, 'shot', 'attack', undefined, 1, undefined, undefined, undefined, 20, 40, undefined, false);
+      await createTestGameEvent(testMatch.id, 'shot', 'attack', undefined, 2);
+
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/shots`)
+        .set(getAuthHeaders(coachWithTeam.cookies))
+        .expect(200);
+
+      expect(response.body.shots).toHaveLength(2);
+      expect(response.body.shots[0].outcome).toBe('goal');
+      expect(response.body.xG).toBeGreaterThan(0);
+      expect(response.body.xGA).toBeGreaterThan(0);
+      expect(response.body.shotsWithoutLocationFor).toBe(1);
+    });
+
+    it('should return 403 for coach without team assignment', async () => {
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}/shots`)
+        .set(getAuthHeaders(coach.cookies))
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+
+  describe('POST /api/matches/:id/events/bulk', () => {
+    let testMatch: Awaited<ReturnType<typeof createTestMatch>>;
+
+    beforeEach(async () => {
+      testMatch = await createTestMatch(testTeam.id, 'Test Opponent', undefined, undefined, undefined, undefined, admin.userId);
+    });
+
+    afterEach(async () => {
+      if (testMatch?.id) {
+        await db.deleteFrom('game_events').where('match_id', '=', testMatch.id).execute();
+        await db.deleteFrom('matches').where('id', '=', testMatch.id).execute();
+      }
+    });
+
+    it('should return 403 for coach without team assignment', async () => {
+      const otherMatch = await createTestMatch(otherTeam.id, 'Test Opponent', undefined, undefined, undefined, undefined, admin.userId);
+
+      const response = await makeRequest()
+        .post(`/api/matches/${otherMatch.id}/events/bulk`)
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .send({ events: [{ eventType: 'shot' }] })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error');
+    });
+
+    it('should insert many events in one request', async () => {
+      const events = Array.from({ length: 600 }, (_, i) => ({
+        eventType: 'pass',
+        period: i < 300 ? 1 : 2,
+        minute: i % 90,
+        tags: ['build-up'],
+      }));
+
+      const response = await makeRequest()
+        .post(`/api/matches/${testMatch.id}/events/bulk`)
+        .set(getAuthHeaders(coachWithTeam.cookies, coachWithTeam.csrfToken))
+        .send({ events })
+        .expect(201);
+
+      expect(response.body.created).toBe(600);
+      expect(response.body.events[0].tags).toEqual(['build-up']);
+
+      const count = await db
+        .selectFrom('game_events')
+        .select(db.fn.count('id').as('count'))
+        .where('match_id', '=', testMatch.id)
+        .executeTakeFirst();
+      expect(Number(count?.count)).toBe(600);
+    });
+
+    it('should return per-row errors and insert nothing when a row is invalid', async () => {
+      const response = await makeRequest()
+        .post(`/api/matches/${testMatch.id}/events/bulk`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({
+          events: [
+            { eventType: 'shot', period: 1 },
+            { period: 1 },
+            { eventType: 'goal', minute: 'ten' },
+          ],
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('2 of 3');
+      expect(response.body.rowErrors).toHaveLength(2);
+      expect(response.body.rowErrors[0].index).toBe(1);
+      expect(response.body.rowErrors[0].errors).toContain('Event type is required');
+      expect(response.body.rowErrors[1].index).toBe(2);
+      expect(response.body.rowErrors[1].errors).toContain('minute must be a number');
+
+      const events = await db.selectFrom('game_events').select('id').where('match_id', '=', testMatch.id).execute();
+      expect(events).toHaveLength(0);
+    });
+
+    it('should return 400 for an empty payload', async () => {
+      const response = await makeRequest()
+        .post(`/api/matches/${testMatch.id}/events/bulk`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ events: [] })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+
+  describe('PUT/DELETE /api/matches/:id/events/:eventId', () => {
+    let testMatch: Awaited<ReturnType<typeof createTestMatch>>;
+
+    beforeEach(async () => {
+      testMatch = await createTestMatch(testTeam.id, 'Test Opponent', undefined, undefined, undefined, undefined, admin.userId);
+    });
+
+    afterEach(async () => {
+      if (testMatch?.id) {
+        await db.deleteFrom('game_events').where('match_id', '=', testMatch.id).execute();
+        await db.deleteFrom('matches').where('id', '=', testMatch.id).execute();
+      }
+    });
+
+    it('should update an event as coach with assigned team', async () => {
+      const event = await createTestGameEvent(testMatch.id, 'shot', 'attack', undefined, 1);
+
+      const response = await makeRequest()
+        .put(`/api/matches/${testMatch.id}/events/${event.id}`)
+        .set(getAuthHeaders(coachWithTeam.cookies, coachWithTeam.csrfToken))
+        .send({ period: 2, playerName: 'Alex', tags: 'counter, counter , set piece' })
+        .expect(200);
+
+      expect(response.body.eventType).toBe('shot');
+      expect(response.body.period).toBe(2);
+      expect(response.body.playerName).toBe('Alex');
+      expect(response.body.tags).toEqual(['counter', 'set piece']);
+    });
+
+    it('should return 400 for invalid updates', async () => {
+      const event = await createTestGameEvent(testMatch.id, 'shot', 'attack', undefined, 1);
+
+      const response = await makeRequest()
+        .put(`/api/matches/${testMatch.id}/events/${event.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ period: 0 })
+        .expect(400);
+
+      expect(response.body.error).toContain('period');
+    });
+
+    it('should return 404 for an event from another match', async () => {
+      const otherMatch = await createTestMatch(testTeam.id, 'Test Opponent', undefined, undefined, undefined, undefined, admin.userId);
+      const event = await createTestGameEvent(otherMatch.id, 'shot');
+
+      await makeRequest()
+        .put(`/api/matches/${testMatch.id}/events/${event.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ period: 2 })
+        .expect(404);
+
+      await makeRequest()
+        .delete(`/api/matches/${testMatch.id}/events/${event.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(404);
+    });
+
+    it('should return 403 for viewer', async () => {
+      const event = await createTestGameEvent(testMatch.id, 'shot');
+
+      await makeRequest()
+        .delete(`/api/matches/${testMatch.id}/events/${event.id}`)
+        .set(getAuthHeaders(viewer.cookies, viewer.csrfToken))
+        .expect(403);
+    });
+
+    it('should delete an event and recount event-derived stats', async () => {
+      await makeRequest()
+        .post(`/api/matches/${testMatch.id}/events`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ eventType: 'corner', period: 1 })
+        .expect(201);
+      const [corner] = await db.selectFrom('game_events').select('id').where('match_id', '=', testMatch.id).execute();
+
+      await makeRequest()
+        .delete(`/api/matches/${testMatch.id}/events/${corner.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(200);
+
+      const response = await makeRequest()
+        .get(`/api/matches/${testMatch.id}`)
+        .set(getAuthHeaders(admin.cookies))
+        .expect(200);
+
+      expect(response.body.statsJson.cornersFor1stHalf).toBe(0);
+    });
+  });
+
+  describe('POST /api/matches/:id/derive-stats', () => {
+    let testMatch: Awaited<ReturnType<typeof createTestMatch>>;
+
+    beforeEach(async () => {
+      testMatch = await createTestMatch(testTeam.id, 'Test Opponent', undefined, undefined, undefined, { shotsFor: 12 }, admin.userId);
+    });
+
+    afterEach(async () => {
+      if (testMatch?.id) {
+        await db.deleteFrom('game_events').where('match_id', '=', testMatch.id).execute();
+        await db.deleteFrom('matches').where('id', '=', testMatch.id).execute();
+      }
+    });
+
+    it('should return 403 for coach without team assignment', async () => {
+      const otherMatch = await createTestMatch(otherTeam.id, 'Test Opponent', undefined, undefined, undefined, undefined, admin.userId);
+
+      const response = await makeRequest()
+        .post(`/api/matches/${otherMatch.id}/derive-stats`)
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error');
+    });
+
+    it('should derive stats from events as coach with assigned team', async () => {
+      await createTestGameEvent(testMatch.id, 'shot', 'attack', undefined, 1);
+      await createTestGameEvent(testMatch.id, 'shot', 'attack', undefined, 2);
+
+      const response = await makeRequest()
+        .post(`/api/matches/${testMatch.id}/derive-stats`)
+        .set(getAuthHeaders(coachWithTeam.cookies, coachWithTeam.csrfToken))
+        .expect(200);
+
+      expect(response.body.eventsProcessed).toBe(2);
+      expect(response.body.match.statsSource).toBe('events');
+      expect(response.body.match.statsJson.shotsFor).toBe(2);
+      expect(response.body.match.statsJson.shotsFor1stHalf).toBe(1);
+    });
   });
 });
@@ -0,0 +1,209 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestMatch, createTestTeam } from './helpers/dataHelpers.js';
+import { db } from '../db/database.js';
+import {
+  calculateOpponentNameSimilarity,
+  linkMatchesToOpponents,
+  proposeOpponentMerges,
+} from '../services/opponentService.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+describe('Opponents', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam();
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  const createMatch = (opponent: { opponentName?: string; opponentId?: number }, matchDate = '2024-03-01') =>
+    makeRequest()
+      .post('/api/matches')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, matchDate, ...opponent })
+      .expect(201);
+
+  it('treats names that only differ by club suffixes as near-identical', () => {
+    expect(calculateOpponentNameSimilarity('Titans', 'TITANS FC')).toBeGreaterThanOrEqual(0.95);
+    expect(calculateOpponentNameSimilarity('Titans', 'Rovers')).toBeLessThan(0.8);
+  });
+
+  it('links new matches to the registry by alias and stores the registry name', async () => {
+    const first = await createMatch({ opponentName: 'Titans' });
+    const second = await createMatch({ opponentName: '  TITANS ' }, '2024-03-08');
+
+    expect(first.body.opponentId).toEqual(expect.any(Number));
+    expect(second.body.opponentId).toBe(first.body.opponentId);
+    expect(second.body.opponentName).toBe('Titans');
+
+    const byId = await createMatch({ opponentId: first.body.opponentId }, '2024-03-15');
+    expect(byId.body.opponentName).toBe('Titans');
+
+    await makeRequest()
+      .post('/api/matches')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, matchDate: '2024-03-22', opponentId: 999999 })
+      .expect(400);
+  });
+
+  it('suggests registry opponents, matching on aliases', async () => {
+    const created = await createMatch({ opponentName: 'Rovers' });
+    await makeRequest()
+      .post(`/api/opponents/${created.body.opponentId}/aliases`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ alias: 'Riverside Rovers SC' })
+      .expect(201);
+
+    const response = await makeRequest()
+      .get('/api/matches/opponents/suggestions?query=riverside')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+
+    expect(response.body.suggestions).toEqual([
+      expect.objectContaining({ id: created.body.opponentId, name: 'Rovers', matchCount: 1 }),
+    ]);
+
+    // The alias now resolves to the same opponent
+    const aliased = await createMatch({ opponentName: 'riverside rovers sc' }, '2024-03-08');
+    expect(aliased.body.opponentId).toBe(created.body.opponentId);
+  });
+
+  it('backfills unlinked matches and proposes merges for likely duplicates', async () => {
+    const ids = [
+      (await createTestMatch(testTeam.id, 'Eagles', '2024-01-01')).id,
+      (await createTestMatch(testTeam.id, 'EAGLES', '2024-01-08')).id,
+      (await createTestMatch(testTeam.id, 'Eagles FC', '2024-01-15')).id,
+      (await createTestMatch(testTeam.id, 'Hornets', '2024-01-22')).id,
+    ];
+
+    expect(await linkMatchesToOpponents()).toBe(4);
+    const linked = await db.selectFrom('matches').select(['id', 'opponent_id']).where('id', 'in', ids).orderBy('id').execute();
+    expect(linked[0].opponent_id).toBe(linked[1].opponent_id);
+    expect(linked[2].opponent_id).not.toBe(linked[0].opponent_id);
+
+    expect(await proposeOpponentMerges()).toBe(1);
+    const proposals = await makeRequest()
+      .get('/api/opponents/merge-proposals')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(proposals.body).toHaveLength(1);
+    // The opponent with more matches is the target
+    expect(proposals.body[0].target).toMatchObject({ id: linked[0].opponent_id, matchCount: 2 });
+    expect(proposals.body[0].source).toMatchObject({ name: 'Eagles FC' });
+
+    await makeRequest()
+      .post(`/api/opponents/merge-proposals/${proposals.body[0].id}/dismiss`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    // Dismissed proposals aren't proposed again
+    expect(await proposeOpponentMerges()).toBe(0);
+  });
+
+  it('merges duplicates: moves aliases and matches (with revisions) and deletes the duplicate', async () => {
+    const titans = await createMatch({ opponentName: 'Titans' });
+    const titansFc = await createMatch({ opponentName: 'TITANS FC' }, '2024-03-08');
+    expect(titansFc.body.opponentId).not.toBe(titans.body.opponentId);
+
+    const scan = await makeRequest()
+      .post('/api/opponents/merge-proposals/scan')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(scan.body.created).toBe(1);
+
+    const merged = await makeRequest()
+      .post(`/api/opponents/merge-proposals/${scan.body.proposals[0].id}/accept`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(merged.body).toMatchObject({ id: titans.body.opponentId, matchCount: 2 });
+    expect(merged.body.aliases).toEqual(expect.arrayContaining(['Titans', 'TITANS FC']));
+
+    const match = await makeRequest()
+      .get(`/api/matches/${titansFc.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(match.body).toMatchObject({ opponentId: titans.body.opponentId, opponentName: 'Titans' });
+
+    const revisions = await makeRequest()
+      .get(`/api/matches/${titansFc.body.id}/revisions`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(revisions.body.map((revision: { action: string }) => revision.action)).toEqual(['update', 'create']);
+
+    await makeRequest()
+      .get(`/api/opponents/${titansFc.body.opponentId}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(404);
+
+    // Restoring the pre-merge revision resolves the old name through the moved alias
+    await makeRequest()
+      .post(`/api/matches/${titansFc.body.id}/revisions/${revisions.body[1].id}/restore`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    const restored = await db.selectFrom('matches').select(['opponent_id', 'opponent_name']).where('id', '=', titansFc.body.id).executeTakeFirstOrThrow();
+    expect(restored).toEqual({ opponent_id: titans.body.opponentId, opponent_name: 'TITANS FC' });
+  });
+
+  it('renames an opponent, keeping the old name as an alias', async () => {
+    const created = await createMatch({ opponentName: 'Wildcats' });
+
+    const renamed = await makeRequest()
+      .put(`/api/opponents/${created.body.opponentId}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ name: 'Wildcats SC', ageGroup: 'U13' })
+      .expect(200);
+    expect(renamed.body).toMatchObject({ name: 'Wildcats SC', ageGroup: 'U13' });
+    expect(renamed.body.aliases).toEqual(['Wildcats', 'Wildcats SC']);
+
+    const match = await makeRequest()
+      .get(`/api/matches/${created.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(match.body.opponentName).toBe('Wildcats SC');
+
+    // An opponent with matches can't be deleted, and its own name can't be removed as an alias
+    await makeRequest()
+      .delete(`/api/opponents/${created.body.opponentId}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(400);
+    await makeRequest()
+      .delete(`/api/opponents/${created.body.opponentId}/aliases?alias=${encodeURIComponent('wildcats sc')}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(400);
+  });
+
+  it('only lets admins change the registry', async () => {
+    const coach = await createTestCoach();
+    const created = await createMatch({ opponentName: 'Falcons' });
+
+    await makeRequest()
+      .get('/api/opponents')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(200);
+    await makeRequest()
+      .put(`/api/opponents/${created.body.opponentId}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .send({ name: 'Falcons FC' })
+      .expect(403);
+    await makeRequest()
+      .post('/api/opponents/merge')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .send({ targetId: created.body.opponentId, sourceIds: [created.body.opponentId + 1] })
+      .expect(403);
+  });
+});
@@ -0,0 +1,66 @@
+import { buildPassNetwork } from '../services/passNetworkService.js';
+
+function pass(passer: string | null, receiver: string | null, x: number | null = null, y: number | null = null, extra: any = {}) {
+  return {
+    eventType: 'pass',
+    xCoordinate: x,
+    yCoordinate: y,
+    isJogaTeam: true,
+    playerName: null,
+    eventData: { passer, receiver, ...extra },
+  };
+}
+
+describe('passNetworkService', () => {
+  describe('buildPassNetwork', () => {
+    it('counts passes between two players in both directions as one edge', () => {
+      const network = buildPassNetwork([
+        pass('Sam Lee', 'Jordan Park'),
+        pass('jordan  park', 'sam lee'),
+        pass('Sam Lee', 'Jordan Park'),
+        pass('Sam Lee', 'Alex Kim'),
+      ]);
+
+      expect(network.passes).toBe(4);
+      expect(network.edges).toEqual([
+        { playerA: 'Jordan Park', playerB: 'Sam Lee', passes: 3, aToB: 1, bToA: 2 },
+        { playerA: 'Alex Kim', playerB: 'Sam Lee', passes: 1, aToB: 0, bToA: 1 },
+      ]);
+      expect(network.nodes.map(node => [node.playerName, node.passesMade, node.passesReceived])).toEqual([
+        ['Sam Lee', 3, 1],
+        ['Jordan Park', 1, 2],
+        ['Alex Kim', 0, 1],
+      ]);
+    });
+
+    it('places nodes at the average location of passes made and received', () => {
+      const network = buildPassNetwork([
+        pass('Sam Lee', 'Jordan Park', 20, 40, { endX: 60, endY: 30 }),
+        pass('Sam Lee', 'Jordan Park', 40, 60),
+        pass('Jordan Park', 'Alex Kim', 70, 50),
+      ]);
+
+      const positions = Object.fromEntries(network.nodes.map(node => [node.playerName, [node.x, node.y]]));
+      expect(positions).toEqual({
+        'Sam Lee': [30, 50],
+        'Jordan Park': [65, 40],
+        'Alex Kim': [null, null],
+      });
+    });
+
+    it('uses the event player as passer and skips passes without a receiver or from the opponent', () => {
+      const network = buildPassNetwork([
+        { ...pass(null, 'Jordan Park'), playerName: 'Sam Lee' },
+        pass('Sam Lee', null),
+        pass('Sam Lee', 'sam lee'),
+        { ...pass('Their Player', 'Another'), isJogaTeam: false },
+        { ...pass('Sam Lee', 'Jordan Park'), eventType: 'shot' },
+      ], 2);
+
+      expect(network.matches).toBe(2);
+      expect(network.passes).toBe(1);
+      expect(network.passesWithoutReceiver).toBe(2);
+      expect(network.edges).toEqual([{ playerA: 'Jordan Park', playerB: 'Sam Lee', passes: 1, aToB: 0, bToA: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { assignTeamToUser, createTestGameEvent, createTestMatch, createTestTeam } from './helpers/dataHelpers.js';
+import { aggregatePlayerStats, type PlayerStatsEvent } from '../services/playerStatsService.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+function event(matchId: number, eventType: string, playerName: string | null, eventData: any = null, teamId = 1): PlayerStatsEvent {
+  return { matchId, teamId, eventType, eventData, playerId: null, playerName };
+}
+
+const TEAM_NAMES = new Map([[1, 'U12 Blue'], [2, 'U14 Blue']]);
+
+describe('aggregatePlayerStats', () => {
+  it('credits shots, goals, assists, passes and pass strings by normalized name per team', () => {
+    const stats = aggregatePlayerStats(
+      [
+        event(1, 'shot', 'Sam Lee'),
+        event(1, 'goal', 'sam  lee', { assistPlayerName: 'Jordan Park' }),
+        event(1, 'pass', 'Jordan Park'),
+        event(1, 'pass_string', 'Jordan Park', { players: ['Sam Lee', 'jordan park'] }),
+        event(1, 'shot', 'Sam Lee', null, 2),
+        event(1, 'shot', null),
+      ],
+      [],
+      [],
+      TEAM_NAMES
+    );
+
+    expect(stats.map(entry => [entry.teamName, entry.playerName, entry.totals])).toEqual([
+      ['U12 Blue', 'Sam Lee', { shots: 2, goals: 1, assists: 0, passes: 0, passStrings: 1 }],
+      ['U12 Blue', 'Jordan Park', { shots: 0, goals: 0, assists: 1, passes: 1, passStrings: 1 }],
+      ['U14 Blue', 'Sam Lee', { shots: 1, goals: 0, assists: 0, passes: 0, passStrings: 0 }],
+    ]);
+  });
+
+  it('folds names into roster players and rates per 60 from matches with known minutes', () => {
+    const stats = aggregatePlayerStats(
+      [
+        event(1, 'shot', 'sam lee'),
+        event(1, 'shot', 'Sam Lee'),
+        event(2, 'shot', 'Sam Lee'),
+        { ...event(2, 'goal', null), playerId: 7 },
+      ],
+      [{ matchId: 1, teamId: 1, playerId: 7, playerName: 'Sam Lee', minutesPlayed: 30 }],
+      [{ teamId: 1, playerId: 7, name: 'Sam Lee' }],
+      TEAM_NAMES
+    );
+
+    expect(stats).toHaveLength(1);
+    expect(stats[0]).toMatchObject({
+      playerId: 7,
+      matches: 2,
+      minutesPlayed: 30,
+      totals: { shots: 4, goals: 1 },
+      // Match 2 has no lineup, so only match 1's two shots count toward the rate
+      per60: { shots: 4, goals: 0 },
+    });
+  });
+});
+
+describe('Player stats API', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam();
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  const logEvent = (matchId: number, eventType: string, playerName: string, isJogaTeam = true) =>
+    createTestGameEvent(matchId, eventType, 'attack', 10, 1, 5, 0, undefined, undefined, undefined, undefined, isJogaTeam, playerName);
+
+  it('reports per-player stats for a date range with per-60 rates from lineups', async () => {
+    const early = await createTestMatch(testTeam.id, 'Opponent A', '2026-09-01');
+    const late = await createTestMatch(testTeam.id, 'Opponent B', '2026-10-01');
+    await logEvent(early.id, 'shot', 'Sam Lee');
+    await logEvent(early.id, 'goal', 'Sam Lee');
+    await logEvent(early.id, 'shot', 'Their Striker', false);
+    await logEvent(late.id, 'shot', 'Sam Lee');
+
+    await makeRequest()
+      .put(`/api/matches/${early.id}/lineup`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ durationMinutes: 60, players: [{ playerName: 'Sam Lee', isStarter: true }] })
+      .expect(200);
+
+    const response = await makeRequest()
+      .get(`/api/players/stats?teamId=${testTeam.id}&startDate=2026-08-01&endDate=2026-09-30`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(response.body).toEqual([
+      expect.objectContaining({
+        playerName: 'Sam Lee',
+        matches: 1,
+        minutesPlayed: 60,
+        totals: { shots: 2, goals: 1, assists: 0, passes: 0, passStrings: 0 },
+        per60: { shots: 2, goals: 1, assists: 0, passes: 0, passStrings: 0 },
+      }),
+    ]);
+
+    await makeRequest()
+      .get('/api/players/stats?startDate=01/09/2026')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(400);
+  });
+
+  it('limits coaches to their assigned teams', async () => {
+    const otherTeam = await createTestTeam('Other Team', 'other-team');
+    await logEvent((await createTestMatch(testTeam.id)).id, 'shot', 'Sam Lee');
+    await logEvent((await createTestMatch(otherTeam.id)).id, 'shot', 'Other Player');
+
+    const coach = await createTestCoach();
+    await assignTeamToUser(coach.userId, testTeam.id);
+
+    const response = await makeRequest()
+      .get('/api/players/stats')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(200);
+    expect(response.body.map((entry: any) => entry.playerName)).toEqual(['Sam Lee']);
+
+    await makeRequest()
+      .get(`/api/players/stats?teamId=${otherTeam.id}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(403);
+  });
+});
@@ -0,0 +1,159 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { assignTeamToUser, createTestTeam } from './helpers/dataHelpers.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+describe('Players and rosters', () => {
+  let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+  let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+  beforeAll(async () => {
+    await cleanupTestData();
+    client = await getTestClient();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  });
+
+  beforeEach(async () => {
+    admin = await createTestAdmin();
+    testTeam = await createTestTeam();
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  const createPlayer = (body: Record<string, any>) =>
+    makeRequest()
+      .post('/api/players')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send(body);
+
+  it('creates players on a roster and validates their details', async () => {
+    const badNumber = await createPlayer({ name: 'Sam Lee', jerseyNumber: -4 }).expect(400);
+    expect(badNumber.body.error).toContain('jerseyNumber');
+
+    await createPlayer({ name: 'Sam Lee', jerseyNumber: 9, positions: ['st', 'RW', 'ST'], birthYear: 2013, teamId: testTeam.id }).expect(201);
+    await createPlayer({ name: 'Alex Kim', jerseyNumber: 1, positions: ['GK'], teamId: testTeam.id }).expect(201);
+    await createPlayer({ name: 'Not On Roster' }).expect(201);
+
+    const roster = await makeRequest()
+      .get(`/api/players/teams/${testTeam.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(roster.body.map((player: any) => player.name)).toEqual(['Alex Kim', 'Sam Lee']);
+    expect(roster.body[1]).toMatchObject({ jerseyNumber: 9, positions: ['ST', 'RW'], birthYear: 2013 });
+    expect(roster.body[1].teams).toEqual([{ teamId: testTeam.id, teamName: testTeam.displayName, seasonId: null }]);
+
+    await makeRequest()
+      .delete(`/api/players/teams/${testTeam.id}/${roster.body[0].id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    const afterRemove = await makeRequest()
+      .get(`/api/players?teamId=${testTeam.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(afterRemove.body.map((player: any) => player.name)).toEqual(['Sam Lee']);
+  });
+
+  it('limits coaches to their teams\' rosters and keeps roster changes admin-only', async () => {
+    const otherTeam = await createTestTeam('Other Team', 'other-team');
+    await createPlayer({ name: 'Sam Lee', teamId: testTeam.id }).expect(201);
+    await createPlayer({ name: 'Other Player', teamId: otherTeam.id }).expect(201);
+
+    const coach = await createTestCoach();
+    await assignTeamToUser(coach.userId, testTeam.id);
+
+    const players = await makeRequest()
+      .get('/api/players')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(200);
+    expect(players.body.map((player: any) => player.name)).toEqual(['Sam Lee']);
+
+    await makeRequest()
+      .get(`/api/players/teams/${otherTeam.id}`)
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .expect(403);
+    await makeRequest()
+      .post('/api/players')
+      .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+      .send({ name: 'New Player' })
+      .expect(403);
+  });
+
+  it('imports a CSV roster, updating players already on it', async () => {
+    await createPlayer({ name: 'Sam Lee', jerseyNumber: 9, positions: ['ST'], teamId: testTeam.id }).expect(201);
+
+    const content = [
+      'First Name,Last Name,#,Position,Birth Year',
+      'Sam,Lee,10,,2013',
+      'Jordan,Park,4,CB / DM,2013',
+      ',,5,,',
+    ].join('\n');
+
+    const preview = await makeRequest()
+      .post(`/api/players/teams/${testTeam.id}/import/preview`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ content })
+      .expect(200);
+    expect(preview.body.summary).toEqual({ total: 3, valid: 2, invalid: 1, existing: 1 });
+    expect(preview.body.rows[0].existingPlayer).toMatchObject({ name: 'Sam Lee', match: 'roster' });
+    expect(preview.body.rows[1].player).toEqual({ name: 'Jordan Park', jerseyNumber: 4, positions: ['CB', 'DM'], birthYear: 2013 });
+    expect(preview.body.rows[2].errors).toEqual(['Name is required']);
+
+    // Nothing is saved while a row has errors
+    await makeRequest()
+      .post(`/api/players/teams/${testTeam.id}/import/commit`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ content })
+      .expect(400);
+
+    const commit = await makeRequest()
+      .post(`/api/players/teams/${testTeam.id}/import/commit`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ content: content.split('\n').slice(0, 3).join('\n') })
+      .expect(201);
+    expect(commit.body).toEqual({ created: 1, updated: 1 });
+
+    const roster = await makeRequest()
+      .get(`/api/players/teams/${testTeam.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(roster.body.map((player: any) => [player.name, player.jerseyNumber, player.positions])).toEqual([
+      ['Jordan Park', 4, ['CB', 'DM']],
+      ['Sam Lee', 10, ['ST']],
+    ]);
+  });
+
+  it('links game events to roster players', async () => {
+    const player = await createPlayer({ name: 'Sam Lee', jerseyNumber: 9, teamId: testTeam.id }).expect(201);
+    const match = await makeRequest()
+      .post('/api/matches')
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ teamId: testTeam.id, opponentName: 'Test Opponent', matchDate: '2026-09-01' })
+      .expect(201);
+
+    const event = await makeRequest()
+      .post(`/api/matches/${match.body.id}/events`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ eventType: 'shot', playerId: player.body.id })
+      .expect(201);
+    expect(event.body).toMatchObject({ playerId: player.body.id, playerName: 'Sam Lee' });
+
+    const unknownPlayer = await makeRequest()
+      .post(`/api/matches/${match.body.id}/events`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .send({ eventType: 'shot', playerId: 999999 })
+      .expect(400);
+    expect(unknownPlayer.body.error).toBe('Player not found: 999999');
+
+    const byPlayer = await makeRequest()
+      .get(`/api/matches/${match.body.id}/events?playerId=${player.body.id}`)
+      .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+      .expect(200);
+    expect(byPlayer.body).toHaveLength(1);
+  });
+});
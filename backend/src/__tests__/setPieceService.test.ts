@@ -0,0 +1,106 @@
+import { buildSetPieceAnalytics, validateSetPieceData } from '../services/setPieceService.js';
+
+function setPiece(eventType: string, isJogaTeam: boolean, eventData: any = {}) {
+  return { eventType, isJogaTeam, eventData };
+}
+
+describe('setPieceService', () => {
+  describe('buildSetPieceAnalytics', () => {
+    it('computes conversion rates for and against from set pieces with an outcome', () => {
+      const analytics = buildSetPieceAnalytics([{
+        matchId: 1,
+        events: [
+          setPiece('corner', true, { outcome: 'goal' }),
+          setPiece('corner', true, { outcome: 'shot' }),
+          setPiece('Free Kick', true, { outcome: 'cleared' }),
+          setPiece('corner', true, { outcome: 'retained' }),
+          setPiece('corner', true),
+          setPiece('corner', false, { outcome: 'cleared' }),
+          setPiece('free_kick', false, { outcome: 'shot' }),
+          setPiece('shot', true, { outcome: 'goal' }),
+        ],
+      }]);
+
+      expect(analytics.totals.for).toEqual({
+        total: 5,
+        goals: 1,
+        shots: 2,
+        cleared: 1,
+        retained: 1,
+        withoutOutcome: 1,
+        shotRate: 50,
+        goalRate: 25,
+      });
+      expect(analytics.totals.against.total).toBe(2);
+      expect(analytics.totals.against.shotRate).toBe(50);
+      expect(analytics.byType.corner.for.total).toBe(4);
+      expect(analytics.byType.free_kick.for.total).toBe(1);
+    });
+
+    it('returns one trend entry per match, including matches without set pieces', () => {
+      const analytics = buildSetPieceAnalytics([
+        { matchId: 3, events: [setPiece('corner', true, { outcome: 'shot' }), setPiece('corner', true, { outcome: 'cleared' })] },
+        { matchId: 7, events: [] },
+      ]);
+
+      expect(analytics.matches).toBe(2);
+      expect(analytics.trend.map(entry => [entry.matchId, entry.for.total, entry.for.shotRate])).toEqual([
+        [3, 2, 50],
+        [7, 0, null],
+      ]);
+    });
+
+    it('breaks set pieces down by delivery and side', () => {
+      const analytics = buildSetPieceAnalytics([{
+        matchId: 1,
+        events: [
+          setPiece('corner', true, { delivery: 'outswinger', side: 'right', outcome: 'shot' }),
+          setPiece('corner', true, { delivery: 'Inswinger', side: 'left', outcome: 'goal' }),
+          setPiece('corner', false, { delivery: 'inswinger', side: 'left', outcome: 'cleared' }),
+          setPiece('corner', true, { delivery: 'chipped' }),
+        ],
+      }]);
+
+      expect(analytics.deliveries.map(entry => [entry.delivery, entry.for.total, entry.against.total])).toEqual([
+        ['inswinger', 1, 1],
+        ['outswinger', 1, 0],
+        ['unknown', 1, 0],
+      ]);
+      expect(analytics.sides.map(entry => [entry.side, entry.for.total])).toEqual([
+        ['left', 1],
+        ['right', 1],
+        ['unknown', 1],
+      ]);
+    });
+
+    it('only counts the requested type but keeps per-type totals', () => {
+      const analytics = buildSetPieceAnalytics([{
+        matchId: 1,
+        events: [
+          setPiece('corner', true, { outcome: 'shot' }),
+          setPiece('free_kick', true, { outcome: 'goal' }),
+        ],
+      }], 'free_kick');
+
+      expect(analytics.type).toBe('free_kick');
+      expect(analytics.totals.for.total).toBe(1);
+      expect(analytics.totals.for.goals).toBe(1);
+      expect(analytics.byType.corner.for.total).toBe(1);
+    });
+  });
+
+  describe('validateSetPieceData', () => {
+    it('accepts known values and ignores other event types', () => {
+      expect(validateSetPieceData('corner', { side: 'left', delivery: 'inswinger', outcome: 'retained' })).toEqual([]);
+      expect(validateSetPieceData('Free Kick', { delivery: 'direct' })).toEqual([]);
+      expect(validateSetPieceData('shot', { outcome: 'saved' })).toEqual([]);
+    });
+
+    it('rejects unknown values', () => {
+      expect(validateSetPieceData('corner', { side: 'middle', outcome: 'saved' })).toEqual([
+        'Set piece side must be one of: left, right, central',
+        'Set piece outcome must be one of: goal, shot, cleared, retained',
+      ]);
+    });
+  });
+});
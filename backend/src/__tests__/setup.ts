@@ -21,12 +21,24 @@ beforeEach(async () => {
   // NOTE: Sessions are deleted first, then users (to avoid foreign key issues)
   // Test helpers should recreate users and sessions AFTER this cleanup runs
   await db.deleteFrom('sessions').execute();
+  await db.deleteFrom('club_settings').execute();
   await db.deleteFrom('user_teams').execute();
   await db.deleteFrom('custom_charts').execute();
   await db.deleteFrom('metric_definitions').execute();
   await db.deleteFrom('images').execute();
+  await db.deleteFrom('match_revisions').execute();
   await db.deleteFrom('game_events').execute();
+  await db.deleteFrom('match_substitutions').execute();
+  await db.deleteFrom('match_lineup_players').execute();
+  await db.deleteFrom('match_lineups').execute();
+  await db.deleteFrom('team_players').execute();
+  await db.deleteFrom('players').execute();
   await db.deleteFrom('matches').execute();
+  await db.deleteFrom('competition_participants').execute();
+  await db.deleteFrom('competitions').execute();
+  await db.deleteFrom('opponent_merge_proposals').execute();
+  await db.deleteFrom('opponent_aliases').execute();
+  await db.deleteFrom('opponents').execute();
   await db.deleteFrom('team_aliases').execute();
   await db.deleteFrom('teams').execute();
   await db.deleteFrom('seasons').execute();
@@ -0,0 +1,229 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestTeam } from './helpers/dataHelpers.js';
+import {
+  DEFAULT_STAT_VALIDATION_RULES,
+  evaluateStatValidationRules,
+  mergeStatsForValidation,
+  validateStatValidationRules,
+  type StatValidationRule,
+} from '../services/statValidationService.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+const CORNERS_RULE: StatValidationRule = {
+  id: 'corners-for-max',
+  message: "Corners for can't be more than 20",
+  severity: 'warning',
+  enabled: true,
+  left: ['cornersFor'],
+  operator: '<=',
+  right: 20,
+};
+
+describe('Stat Validation', () => {
+  describe('evaluateStatValidationRules', () => {
+    it('flags goals greater than attempts as an error', () => {
+      const results = evaluateStatValidationRules({ goalsFor: 3, attemptsFor: 2 }, DEFAULT_STAT_VALIDATION_RULES);
+      expect(results).toEqual([{
+        ruleId: 'goals-for-within-attempts',
+        severity: 'error',
+        message: expect.any(String),
+        fields: ['goalsFor', 'attemptsFor'],
+        leftValue: 3,
+        rightValue: 2,
+      }]);
+    });
+
+    it('flags halves that do not add up to the total', () => {
+      const results = evaluateStatValidationRules(
+        { passesFor1stHalf: 100, passesFor2ndHalf: 120, passesFor: 200 },
+        DEFAULT_STAT_VALIDATION_RULES
+      );
+      expect(results.map(result => [result.ruleId, result.severity])).toEqual([['passes-for-halves-total', 'warning']]);
+    });
+
+    it('allows the tolerance on possession zones', () => {
+      const rules = DEFAULT_STAT_VALIDATION_RULES;
+      expect(evaluateStatValidationRules({ possessionDef: 33.3, possessionMid: 33.3, possessionAtt: 33.3 }, rules)).toEqual([]);
+      expect(evaluateStatValidationRules({ possessionDef: 40, possessionMid: 40, possessionAtt: 40 }, rules)
+        .map(result => result.ruleId)).toEqual(['possession-zones-total']);
+    });
+
+    it('skips rules with missing fields and disabled rules, and puts errors first', () => {
+      const rules: StatValidationRule[] = [
+        CORNERS_RULE,
+        { ...CORNERS_RULE, id: 'disabled', enabled: false },
+        { ...CORNERS_RULE, id: 'error-rule', severity: 'error', left: ['cornersFor', 'cornersAgainst'] },
+        { ...CORNERS_RULE, id: 'missing-field', left: ['freeKicksFor'] },
+      ];
+      const results = evaluateStatValidationRules({ cornersFor: '21', cornersAgainst: 1 }, rules);
+      expect(results.map(result => result.ruleId)).toEqual(['error-rule', 'corners-for-max']);
+    });
+  });
+
+  describe('mergeStatsForValidation', () => {
+    it('leaves out totals computed from the stored halves unless they were entered', () => {
+      const existing = { goalsFor1stHalf: 1, goalsFor2ndHalf: 1, goalsFor: 2, attemptsFor: 5 };
+
+      const merged = mergeStatsForValidation(existing, { goalsFor1stHalf: 2 });
+      expect(merged.goalsFor).toBeUndefined();
+      expect(merged.goalsFor1stHalf).toBe(2);
+      // Entered directly (not derived from other fields), so still checked
+      expect(merged.attemptsFor).toBe(5);
+
+      expect(mergeStatsForValidation(existing, { goalsFor1stHalf: 2, goalsFor: 3 }).goalsFor).toBe(3);
+    });
+  });
+
+  describe('validateStatValidationRules', () => {
+    it('accepts the defaults', () => {
+      expect(validateStatValidationRules(DEFAULT_STAT_VALIDATION_RULES)).toBeNull();
+    });
+
+    it('rejects malformed rules', () => {
+      expect(validateStatValidationRules({})).toBe('rules must be an array');
+      expect(validateStatValidationRules([CORNERS_RULE, CORNERS_RULE])).toContain('used more than once');
+      expect(validateStatValidationRules([{ ...CORNERS_RULE, operator: '!=' }])).toContain('operator');
+      expect(validateStatValidationRules([{ ...CORNERS_RULE, right: [] }])).toContain('right');
+      expect(validateStatValidationRules([{ ...CORNERS_RULE, severity: 'info' }])).toContain('severity');
+    });
+  });
+
+  describe('API', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+    let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+    beforeAll(async () => {
+      await cleanupTestData();
+      client = await getTestClient();
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    beforeEach(async () => {
+      admin = await createTestAdmin();
+      testTeam = await createTestTeam();
+    });
+
+    afterAll(async () => {
+      await cleanupTestData();
+    });
+
+    const matchBody = (rawStats: Record<string, any>, extra: Record<string, any> = {}) => ({
+      teamId: testTeam.id,
+      opponentName: 'Test Opponent',
+      matchDate: '2024-03-01',
+      rawStats,
+      ...extra,
+    });
+
+    it('returns validation results from preview', async () => {
+      const response = await makeRequest()
+        .post('/api/matches/preview')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send(matchBody({ 'Goals For': 3, 'Attempts For': 2 }))
+        .expect(200);
+
+      expect(response.body.validation.map((result: { ruleId: string }) => result.ruleId))
+        .toEqual(['goals-for-within-attempts']);
+    });
+
+    it('blocks a create that fails an error rule', async () => {
+      const response = await makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send(matchBody({ 'Goals For': 3, 'Attempts For': 2 }, { acknowledgeWarnings: true }))
+        .expect(400);
+
+      expect(response.body.error).toContain('failed validation');
+      expect(response.body.validation[0].ruleId).toBe('goals-for-within-attempts');
+    });
+
+    it('requires warnings to be acknowledged', async () => {
+      const rawStats = { 'Passes For (1st Half)': 100, 'Passes For (2nd Half)': 120, 'Passes For': 200 };
+
+      const blocked = await makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send(matchBody(rawStats))
+        .expect(400);
+      expect(blocked.body.error).toContain('must be acknowledged');
+
+      await makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send(matchBody(rawStats, { acknowledgeWarnings: true }))
+        .expect(201);
+    });
+
+    it('validates updates against the merged stats', async () => {
+      const created = await makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send(matchBody({ 'Goals For (1st Half)': 1, 'Goals For (2nd Half)': 1, 'Attempts For': 4 }))
+        .expect(201);
+
+      // Changing a half isn't checked against the total computed from the old halves
+      await makeRequest()
+        .put(`/api/matches/${created.body.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ rawStats: { 'Goals For (1st Half)': 2 } })
+        .expect(200);
+
+      // But the stored attempts still apply
+      const response = await makeRequest()
+        .put(`/api/matches/${created.body.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ rawStats: { 'Goals For': 6 } })
+        .expect(400);
+      expect(response.body.validation[0]).toMatchObject({ ruleId: 'goals-for-within-attempts', leftValue: 6, rightValue: 4 });
+
+      const preview = await makeRequest()
+        .post('/api/matches/preview')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send(matchBody({ 'Goals For': 6 }, { matchId: created.body.id }))
+        .expect(200);
+      expect(preview.body.validation[0].ruleId).toBe('goals-for-within-attempts');
+    });
+
+    it('lets admins replace and reset the rules', async () => {
+      const coach = await createTestCoach();
+      await makeRequest()
+        .put('/api/club-settings/validation-rules')
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .send({ rules: [CORNERS_RULE] })
+        .expect(403);
+
+      await makeRequest()
+        .put('/api/club-settings/validation-rules')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ rules: [{ ...CORNERS_RULE, operator: 'between' }] })
+        .expect(400);
+
+      const saved = await makeRequest()
+        .put('/api/club-settings/validation-rules')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ rules: [CORNERS_RULE] })
+        .expect(200);
+      expect(saved.body).toEqual({ rules: [CORNERS_RULE], isDefault: false });
+
+      // Only the club's rules apply now
+      const preview = await makeRequest()
+        .post('/api/matches/preview')
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .send(matchBody({ 'Goals For': 3, 'Attempts For': 2, 'Corners For': 25 }))
+        .expect(200);
+      expect(preview.body.validation.map((result: { ruleId: string }) => result.ruleId)).toEqual(['corners-for-max']);
+
+      const reset = await makeRequest()
+        .delete('/api/club-settings/validation-rules')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .expect(200);
+      expect(reset.body.isDefault).toBe(true);
+      expect(reset.body.rules).toEqual(DEFAULT_STAT_VALIDATION_RULES);
+    });
+  });
+});
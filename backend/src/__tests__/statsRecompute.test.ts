@@ -0,0 +1,197 @@
+import { cleanupTestData, getTestClient } from './helpers/testHelpers.js';
+import { createTestAdmin, createTestCoach, getAuthHeaders } from './helpers/authHelpers.js';
+import { createTestTeam, createTestMatch } from './helpers/dataHelpers.js';
+import { recomputeStoredStats } from '../services/statsRecomputeService.js';
+import { DEFAULT_SPI_WEIGHTING, STATS_FORMULA_VERSION, setSpiWeighting } from '../services/matchStatsService.js';
+import { recomputeMatchStats } from '../scripts/recompute-match-stats.js';
+import { db } from '../db/database.js';
+
+let client: any;
+function makeRequest() {
+  return client;
+}
+
+// Stored with an out-of-date total and TSR
+const STALE_STATS = {
+  goalsFor1stHalf: 1,
+  goalsFor2ndHalf: 1,
+  goalsAgainst1stHalf: 0,
+  goalsAgainst2ndHalf: 0,
+  shotsFor1stHalf: 3,
+  shotsFor2ndHalf: 3,
+  shotsAgainst1stHalf: 2,
+  shotsAgainst2ndHalf: 0,
+  goalsFor: 3,
+  tsr: 50,
+};
+
+describe('Stats Recompute', () => {
+  describe('recomputeStoredStats', () => {
+    it('reports changed computed metrics with deltas', () => {
+      const { stats, changes } = recomputeStoredStats(STALE_STATS, null);
+
+      expect(stats.goalsFor).toBe(2);
+      expect(changes).toContainEqual({ metric: 'goalsFor', before: 3, after: 2, delta: -1 });
+      const tsr = changes.find(change => change.metric === 'tsr');
+      expect(tsr?.before).toBe(50);
+      expect(tsr?.delta).toBeCloseTo(tsr!.after as number - 50);
+      // Newly computed metrics have no delta
+      expect(changes).toContainEqual(expect.objectContaining({ metric: 'goalsAgainst', before: null, delta: null }));
+    });
+
+    it('keeps fields listed as manual', () => {
+      const { stats, changes } = recomputeStoredStats(STALE_STATS, ['goalsFor']);
+      expect(stats.goalsFor).toBe(3);
+      expect(changes.map(change => change.metric)).not.toContain('goalsFor');
+    });
+  });
+
+  describe('POST /api/matches/recompute-stats', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+    let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+    beforeAll(async () => {
+      await cleanupTestData();
+      client = await getTestClient();
+      await new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    beforeEach(async () => {
+      admin = await createTestAdmin();
+      testTeam = await createTestTeam();
+    });
+
+    afterAll(async () => {
+      await cleanupTestData();
+    });
+
+    it('requires admin', async () => {
+      const coach = await createTestCoach();
+      await makeRequest()
+        .post('/api/matches/recompute-stats')
+        .set(getAuthHeaders(coach.cookies, coach.csrfToken))
+        .send({})
+        .expect(403);
+    });
+
+    it('reports changes on a dry run without writing', async () => {
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, STALE_STATS);
+
+      const response = await makeRequest()
+        .post('/api/matches/recompute-stats')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({})
+        .expect(200);
+
+      expect(response.body.dryRun).toBe(true);
+      expect(response.body.formulaVersion).toBe(STATS_FORMULA_VERSION);
+      expect(response.body.matchesChecked).toBe(1);
+      expect(response.body.matchesChanged).toBe(1);
+      expect(response.body.metrics).toContainEqual({ metric: 'goalsFor', matchesChanged: 1, maxAbsDelta: 1, meanDelta: -1 });
+      expect(response.body.matches[0].matchId).toBe(match.id);
+
+      const row = await db.selectFrom('matches').selectAll().where('id', '=', match.id).executeTakeFirstOrThrow();
+      expect(JSON.parse(row.stats_json!).goalsFor).toBe(3);
+      expect(row.stats_formula_version).toBeNull();
+    });
+
+    it('writes recomputed stats, stamps the version and skips up-to-date matches afterwards', async () => {
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, STALE_STATS);
+
+      const response = await makeRequest()
+        .post('/api/matches/recompute-stats')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ dryRun: false })
+        .expect(200);
+      expect(response.body.matchesChanged).toBe(1);
+
+      const row = await db.selectFrom('matches').selectAll().where('id', '=', match.id).executeTakeFirstOrThrow();
+      expect(JSON.parse(row.stats_json!).goalsFor).toBe(2);
+      expect(row.stats_formula_version).toBe(STATS_FORMULA_VERSION);
+      expect(row.stats_computed_at).not.toBeNull();
+      expect(row.last_modified_by).toBe(admin.userId);
+
+      const revisions = await db.selectFrom('match_revisions').select('action').where('match_id', '=', match.id).orderBy('id').execute();
+      expect(revisions.map(revision => revision.action)).toEqual(['create', 'update']);
+
+      const again = await makeRequest()
+        .post('/api/matches/recompute-stats')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({})
+        .expect(200);
+      expect(again.body.matchesChecked).toBe(0);
+    });
+
+    it('stamps matches created through the API with the current version', async () => {
+      const response = await makeRequest()
+        .post('/api/matches')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({
+          teamId: testTeam.id,
+          opponentName: 'Test Opponent',
+          matchDate: '2024-03-01',
+          rawStats: { 'Goals For (1st Half)': 1, 'Goals Against (1st Half)': 0 },
+        })
+        .expect(201);
+
+      expect(response.body.statsFormulaVersion).toBe(STATS_FORMULA_VERSION);
+    });
+
+    it('filters by team', async () => {
+      const otherTeam = await createTestTeam(undefined, `test-team-other-${Date.now()}`);
+      await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, STALE_STATS);
+      await createTestMatch(otherTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, STALE_STATS);
+
+      const response = await makeRequest()
+        .post('/api/matches/recompute-stats')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ teamId: otherTeam.id })
+        .expect(200);
+      expect(response.body.matchesChecked).toBe(1);
+    });
+  });
+
+  describe('recompute-match-stats script', () => {
+    let admin: Awaited<ReturnType<typeof createTestAdmin>>;
+    let testTeam: Awaited<ReturnType<typeof createTestTeam>>;
+
+    beforeAll(async () => {
+      await cleanupTestData();
+      client = await getTestClient();
+    });
+
+    beforeEach(async () => {
+      admin = await createTestAdmin();
+      testTeam = await createTestTeam();
+    });
+
+    afterEach(() => {
+      setSpiWeighting(DEFAULT_SPI_WEIGHTING);
+    });
+
+    afterAll(async () => {
+      await cleanupTestData();
+    });
+
+    it("recomputes SPI (w) with the club's saved weighting", async () => {
+      // 2 5-pass strings of 100 passes: SPI (w) = 13 with the default weighting, 20 with a 0.5 bonus
+      const match = await createTestMatch(testTeam.id, 'Test Opponent', '2024-03-01', undefined, undefined, {
+        '5-pass string': 2,
+        passesFor: 100,
+      });
+      await makeRequest()
+        .put('/api/club-settings/spi-weighting')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ baseStringLength: 3, bonusPerExtraPass: 0.5 })
+        .expect(200);
+
+      // A fresh CLI process starts with the default weighting
+      setSpiWeighting(DEFAULT_SPI_WEIGHTING);
+      await recomputeMatchStats({ apply: true, teamId: testTeam.id, includeCurrent: false, verbose: false });
+
+      const row = await db.selectFrom('matches').selectAll().where('id', '=', match.id).executeTakeFirstOrThrow();
+      expect(JSON.parse(row.stats_json!)['spi (w)']).toBeCloseTo(20, 5);
+      expect(row.stats_formula_version).toBe(STATS_FORMULA_VERSION);
+    });
+  });
+});
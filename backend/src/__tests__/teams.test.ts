@@ -210,11 +210,35 @@ describe('Teams Management API', () => {
       expect(response.body).toHaveProperty('id');
       expect(response.body.displayName).toBe(`Test Team ${timestamp}`);
       expect(response.body.slug).toBe('BU13-VT-2026');
+      expect(response.body.format).toBe('11v11');
       
       // Cleanup
       // Cleanup handled in afterEach
     });
 
+    it('should default the match format from the level and reject unknown formats', async () => {
+      const response = await makeRequest()
+        .post('/api/teams')
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ seasonId, gender: 'girls', level: 'U9', variant: 'volt' })
+        .expect(201);
+      expect(response.body.format).toBe('7v7');
+
+      const updated = await makeRequest()
+        .put(`/api/teams/${response.body.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ format: '9v9' })
+        .expect(200);
+      expect(updated.body.format).toBe('9v9');
+
+      const invalid = await makeRequest()
+        .put(`/api/teams/${response.body.id}`)
+        .set(getAuthHeaders(admin.cookies, admin.csrfToken))
+        .send({ format: '5v5' })
+        .expect(400);
+      expect(invalid.body.error).toBe('Invalid format (must be 7v7, 9v9, or 11v11)');
+    });
+
     it('should create team with metadata (admin only)', async () => {
       // Skip if admin login failed
       if (!admin || !admin.cookies || admin.cookies.length === 0) {
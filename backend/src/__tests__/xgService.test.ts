@@ -0,0 +1,100 @@
+import { computeMatchXG, estimateShotXG, getShotGeometry } from '../services/xgService.js';
+
+// Penalty spot: 11m from the goal line on a 105m pitch
+const PENALTY_SPOT_X = 100 - (11 / 105) * 100;
+
+function shot(id: number, x: number | null, y: number | null, isJogaTeam = true, eventType = 'shot', eventData: any = null) {
+  return {
+    id,
+    eventType,
+    period: 1,
+    minute: 10,
+    xCoordinate: x,
+    yCoordinate: y,
+    isJogaTeam,
+    playerName: null,
+    eventData,
+  };
+}
+
+describe('xgService', () => {
+  // ---------------------------------------------------------------------------
+  // getShotGeometry
+  // ---------------------------------------------------------------------------
+  describe('getShotGeometry', () => {
+    it('measures distance and box position from the attacked goal', () => {
+      const geometry = getShotGeometry(PENALTY_SPOT_X, 50);
+      expect(geometry.distance).toBeCloseTo(11, 1);
+      expect(geometry.insideBox).toBe(true);
+      expect(getShotGeometry(70, 50).insideBox).toBe(false);
+    });
+
+    it('gives central shots a wider goal angle than shots from the same distance out wide', () => {
+      expect(getShotGeometry(90, 50).angle).toBeGreaterThan(getShotGeometry(95, 85).angle);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // estimateShotXG
+  // ---------------------------------------------------------------------------
+  describe('estimateShotXG', () => {
+    it('rates a penalty spot shot around 0.35', () => {
+      expect(estimateShotXG(PENALTY_SPOT_X, 50)).toBeGreaterThan(0.3);
+      expect(estimateShotXG(PENALTY_SPOT_X, 50)).toBeLessThan(0.4);
+    });
+
+    it('rates long range shots low', () => {
+      expect(estimateShotXG(75, 50)).toBeLessThan(0.05);
+    });
+
+    it('increases as the shot gets closer', () => {
+      expect(estimateShotXG(96, 50)).toBeGreaterThan(estimateShotXG(90, 50));
+      expect(estimateShotXG(90, 50)).toBeGreaterThan(estimateShotXG(80, 50));
+    });
+
+    it('stays within 0.01 and 0.95', () => {
+      expect(estimateShotXG(100, 50)).toBeLessThanOrEqual(0.95);
+      expect(estimateShotXG(0, 0)).toBeGreaterThanOrEqual(0.01);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // computeMatchXG
+  // ---------------------------------------------------------------------------
+  describe('computeMatchXG', () => {
+    it('mirrors opponent shots toward the goal they attack', () => {
+      const summary = computeMatchXG([
+        shot(1, PENALTY_SPOT_X, 50, true),
+        shot(2, 100 - PENALTY_SPOT_X, 50, false),
+      ]);
+      expect(summary.xG).toBe(summary.xGA);
+      expect(summary.shots[1].distance).toBeCloseTo(11, 1);
+    });
+
+    it('sums xG per side and counts shots without a location', () => {
+      const summary = computeMatchXG([
+        shot(1, PENALTY_SPOT_X, 50, true, 'goal'),
+        shot(2, 80, 50, true),
+        shot(3, null, null, true),
+        shot(4, null, null, false),
+        { ...shot(5, 90, 50, true), eventType: 'corner' },
+      ]);
+      expect(summary.shots).toHaveLength(2);
+      expect(summary.xG).toBeCloseTo(summary.shots[0].xG + summary.shots[1].xG, 2);
+      expect(summary.xGA).toBe(0);
+      expect(summary.shotsWithoutLocationFor).toBe(1);
+      expect(summary.shotsWithoutLocationAgainst).toBe(1);
+    });
+
+    it('reports shot outcomes', () => {
+      const summary = computeMatchXG([
+        shot(1, 90, 50, true, 'goal'),
+        shot(2, 90, 50, true, 'shot', { outcome: 'Saved' }),
+        shot(3, 90, 50, true, 'shot', { outcome: 'off target' }),
+        shot(4, 90, 50, true, 'shot', { outcome: 'blocked' }),
+        shot(5, 90, 50, true, 'shot'),
+      ]);
+      expect(summary.shots.map(s => s.outcome)).toEqual(['goal', 'on_target', 'off_target', 'blocked', 'unknown']);
+    });
+  });
+});
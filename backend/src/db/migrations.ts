@@ -1,5 +1,7 @@
 import { db } from './database.js';
 import { sql } from 'kysely';
+import { linkMatchesToOpponents, proposeOpponentMerges } from '../services/opponentService.js';
+import { linkMatchesToCompetitions } from '../services/competitionService.js';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -353,5 +355,352 @@ async function runPostgresMigrations(): Promise<void> {
     console.log('✓ Migration 008 (Postgres) completed successfully');
   }
 
+  if (version < 9) {
+    console.log('Running migration 009 (Postgres): Create match_revisions table...');
+    // match_id has no foreign key so history survives when the match is deleted
+    await sql`
+      CREATE TABLE IF NOT EXISTS match_revisions (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        match_id INTEGER NOT NULL,
+        action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore')),
+        snapshot_json TEXT NOT NULL,
+        changed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        restored_from_revision_id INTEGER,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_match_revisions_match_id ON match_revisions(match_id)
+    `.execute(db);
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 9,
+        description: 'Create match_revisions table for match edit history',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 009 (Postgres) completed successfully');
+  }
+
+  if (version < 10) {
+    console.log('Running migration 010 (Postgres): Add stats_formula_version to matches table...');
+    // NULL = computed before formulas were versioned (treated as out of date)
+    await sql`
+      ALTER TABLE matches
+      ADD COLUMN IF NOT EXISTS stats_formula_version INTEGER
+    `.execute(db);
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 10,
+        description: 'Add stats_formula_version to matches table for recomputing stats after formula changes',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 010 (Postgres) completed successfully');
+  }
+
+  if (version < 11) {
+    console.log('Running migration 011 (Postgres): Create club_settings table...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS club_settings (
+        key TEXT PRIMARY KEY,
+        value_json TEXT NOT NULL,
+        updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `.execute(db);
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 11,
+        description: 'Create club_settings table for club-wide configuration (e.g. SPI weighting)',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 011 (Postgres) completed successfully');
+  }
+
+  if (version < 12) {
+    console.log('Running migration 012 (Postgres): Create opponent registry...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS opponents (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        name TEXT NOT NULL,
+        club_name TEXT,
+        team_name TEXT,
+        age_group TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `.execute(db);
+    await sql`
+      CREATE TABLE IF NOT EXISTS opponent_aliases (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        opponent_id INTEGER NOT NULL REFERENCES opponents(id) ON DELETE CASCADE,
+        alias TEXT NOT NULL,
+        normalized_alias TEXT NOT NULL UNIQUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_opponent_aliases_opponent_id ON opponent_aliases(opponent_id)
+    `.execute(db);
+    await sql`
+      CREATE TABLE IF NOT EXISTS opponent_merge_proposals (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        target_opponent_id INTEGER NOT NULL REFERENCES opponents(id) ON DELETE CASCADE,
+        source_opponent_id INTEGER NOT NULL REFERENCES opponents(id) ON DELETE CASCADE,
+        similarity DOUBLE PRECISION NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+        resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        resolved_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (target_opponent_id, source_opponent_id)
+      )
+    `.execute(db);
+    await sql`
+      ALTER TABLE matches
+      ADD COLUMN IF NOT EXISTS opponent_id INTEGER REFERENCES opponents(id) ON DELETE SET NULL
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_matches_opponent_id ON matches(opponent_id)
+    `.execute(db);
+
+    // One-time backfill: one opponent per distinct (normalized) name, then propose merges
+    // for names that look like the same club ("Titans" / "TITANS FC") for an admin to review
+    const linked = await linkMatchesToOpponents();
+    const proposals = await proposeOpponentMerges();
+    console.log(`  Linked ${linked} match(es) to opponents, ${proposals} merge proposal(s) to review`);
+
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 12,
+        description: 'Create opponents registry (aliases, merge proposals) and link matches via opponent_id',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 012 (Postgres) completed successfully');
+  }
+
+  if (version < 13) {
+    console.log('Running migration 013 (Postgres): Create competitions...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS competitions (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        name TEXT NOT NULL,
+        competition_type TEXT NOT NULL CHECK (competition_type IN ('league', 'cup', 'tournament', 'friendly')),
+        season_id INTEGER REFERENCES seasons(id) ON DELETE SET NULL,
+        points_win INTEGER NOT NULL DEFAULT 3,
+        points_draw INTEGER NOT NULL DEFAULT 1,
+        points_loss INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `.execute(db);
+    await sql`
+      CREATE TABLE IF NOT EXISTS competition_participants (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        competition_id INTEGER NOT NULL REFERENCES competitions(id) ON DELETE CASCADE,
+        team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE,
+        opponent_id INTEGER REFERENCES opponents(id) ON DELETE CASCADE,
+        CHECK ((team_id IS NULL) <> (opponent_id IS NULL)),
+        UNIQUE (competition_id, team_id),
+        UNIQUE (competition_id, opponent_id)
+      )
+    `.execute(db);
+    await sql`
+      ALTER TABLE matches
+      ADD COLUMN IF NOT EXISTS competition_id INTEGER REFERENCES competitions(id) ON DELETE SET NULL
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_matches_competition_id ON matches(competition_id)
+    `.execute(db);
+
+    // One-time backfill: one competition per distinct competition name (or competition_type)
+    // and season, with the teams and opponents that played in it
+    const created = await linkMatchesToCompetitions();
+    console.log(`  Created ${created} competition(s) from existing matches`);
+
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 13,
+        description: 'Create competitions and competition_participants, link matches via competition_id',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 013 (Postgres) completed successfully');
+  }
+
+  if (version < 14) {
+    console.log('Running migration 014 (Postgres): Add match status and kickoff time...');
+    // Existing matches were all entered after being played
+    await sql`
+      ALTER TABLE matches
+      ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'played'
+        CHECK (status IN ('scheduled', 'played', 'cancelled'))
+    `.execute(db);
+    await sql`
+      ALTER TABLE matches
+      ADD COLUMN IF NOT EXISTS kickoff_time TEXT
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_matches_status_date ON matches(status, match_date)
+    `.execute(db);
+
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 14,
+        description: 'Add matches.status (scheduled, played, cancelled) and matches.kickoff_time for fixtures',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 014 (Postgres) completed successfully');
+  }
+
+  if (version < 15) {
+    console.log('Running migration 015 (Postgres): Add team calendar feed tokens...');
+    await sql`
+      ALTER TABLE teams
+      ADD COLUMN IF NOT EXISTS calendar_token TEXT UNIQUE
+    `.execute(db);
+
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 15,
+        description: 'Add teams.calendar_token for per-team iCal fixture feeds',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 015 (Postgres) completed successfully');
+  }
+
+  if (version < 16) {
+    console.log('Running migration 016 (Postgres): Create players and team rosters...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS players (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        name TEXT NOT NULL,
+        jersey_number INTEGER,
+        positions TEXT,
+        birth_year INTEGER,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `.execute(db);
+    // Roster membership: a player on a team for the team's season
+    await sql`
+      CREATE TABLE IF NOT EXISTS team_players (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        player_id INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+        season_id INTEGER REFERENCES seasons(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (team_id, player_id)
+      )
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_team_players_player_id ON team_players(player_id)
+    `.execute(db);
+    await sql`
+      ALTER TABLE game_events
+      ADD COLUMN IF NOT EXISTS player_id INTEGER REFERENCES players(id) ON DELETE SET NULL
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_game_events_player_id ON game_events(player_id)
+    `.execute(db);
+
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 16,
+        description: 'Create players and team_players (season-scoped rosters), add game_events.player_id',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 016 (Postgres) completed successfully');
+  }
+
+  if (version < 17) {
+    console.log('Running migration 017 (Postgres): Create match lineups and substitutions...');
+    // One lineup per match; duration_minutes is the match length used for minutes played
+    await sql`
+      CREATE TABLE IF NOT EXISTS match_lineups (
+        match_id INTEGER PRIMARY KEY REFERENCES matches(id) ON DELETE CASCADE,
+        duration_minutes INTEGER NOT NULL,
+        updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `.execute(db);
+    await sql`
+      CREATE TABLE IF NOT EXISTS match_lineup_players (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        match_id INTEGER NOT NULL REFERENCES match_lineups(match_id) ON DELETE CASCADE,
+        player_id INTEGER REFERENCES players(id) ON DELETE SET NULL,
+        player_name TEXT NOT NULL,
+        is_starter BOOLEAN NOT NULL,
+        minutes_played INTEGER NOT NULL DEFAULT 0,
+        UNIQUE (match_id, player_name)
+      )
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_match_lineup_players_player_id ON match_lineup_players(player_id)
+    `.execute(db);
+    await sql`
+      CREATE TABLE IF NOT EXISTS match_substitutions (
+        id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        match_id INTEGER NOT NULL REFERENCES match_lineups(match_id) ON DELETE CASCADE,
+        minute INTEGER NOT NULL,
+        player_off TEXT NOT NULL,
+        player_on TEXT NOT NULL
+      )
+    `.execute(db);
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_match_substitutions_match_id ON match_substitutions(match_id)
+    `.execute(db);
+
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 17,
+        description: 'Create match_lineups, match_lineup_players and match_substitutions for playing time',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 017 (Postgres) completed successfully');
+  }
+
+  if (version < 18) {
+    console.log('Running migration 018 (Postgres): Add match format to teams and matches...');
+    // Format is 7v7, 9v9 or 11v11; a match without one is a legacy two-half game
+    await sql`ALTER TABLE teams ADD COLUMN IF NOT EXISTS format TEXT`.execute(db);
+    await sql`ALTER TABLE matches ADD COLUMN IF NOT EXISTS format TEXT`.execute(db);
+    // Default existing teams from their level (U10 and under 7v7, U11-U12 9v9, older 11v11)
+    await sql`
+      UPDATE teams
+      SET format = CASE
+        WHEN CAST(SUBSTRING(level FROM '[0-9]+') AS INTEGER) <= 10 THEN '7v7'
+        WHEN CAST(SUBSTRING(level FROM '[0-9]+') AS INTEGER) <= 12 THEN '9v9'
+        ELSE '11v11'
+      END
+      WHERE format IS NULL AND level ~ '^[Uu]?[0-9]+$'
+    `.execute(db);
+
+    await db
+      .insertInto('schema_migrations')
+      .values({
+        version: 18,
+        description: 'Add format (7v7, 9v9, 11v11) to teams and matches',
+        applied_at: new Date().toISOString(),
+      })
+      .execute();
+    console.log('✓ Migration 018 (Postgres) completed successfully');
+  }
+
   console.log('All migrations completed!');
 }
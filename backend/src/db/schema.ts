@@ -14,10 +14,22 @@ export interface Database {
   user_teams: UserTeamsTable;
   sessions: SessionsTable;
   matches: MatchesTable;
+  match_revisions: MatchRevisionsTable;
   game_events: GameEventsTable;
   images: ImagesTable;
   metric_definitions: MetricDefinitionsTable;
   custom_charts: CustomChartsTable;
+  club_settings: ClubSettingsTable;
+  opponents: OpponentsTable;
+  opponent_aliases: OpponentAliasesTable;
+  opponent_merge_proposals: OpponentMergeProposalsTable;
+  competitions: CompetitionsTable;
+  competition_participants: CompetitionParticipantsTable;
+  players: PlayersTable;
+  team_players: TeamPlayersTable;
+  match_lineups: MatchLineupsTable;
+  match_lineup_players: MatchLineupPlayersTable;
+  match_substitutions: MatchSubstitutionsTable;
 }
 
 // Schema Migrations
@@ -47,10 +59,12 @@ export interface TeamsTable {
   gender: string | null;
   level: string | null;
   variant: string | null;
+  format: string | null; // Default match format for new matches (7v7, 9v9, 11v11)
   birth_year_start: number | null;
   birth_year_end: number | null;
   age_group: string | null;
   parent_team_id: number | null;
+  calendar_token: string | null; // Unguessable token for the public iCal fixture feed
   is_active: Generated<number>;
   created_at: Generated<string>;
   updated_at: Generated<string>;
@@ -105,15 +119,21 @@ export interface SessionsTable {
 export interface MatchesTable {
   id: Generated<number>;
   team_id: number | null;
-  opponent_name: string;
+  opponent_id: number | null;
+  opponent_name: string; // Registry name at the time of the last save (kept for display and history)
+  competition_id: number | null;
   match_date: string;
+  kickoff_time: string | null; // HH:MM (24h), for fixtures
+  status: Generated<'scheduled' | 'played' | 'cancelled'>; // Fixtures start as 'scheduled'
   competition_type: string | null;
   result: string | null;
   is_home: boolean | null;
+  format: string | null; // 7v7, 9v9 or 11v11; null for matches saved before formats (two halves)
   match_id_external: string | null; // External Match ID (e.g., from Google Sheets: "M10001")
   stats_json: string | null; // JSON stored as string
   stats_source: string | null;
   stats_computed_at: string | null;
+  stats_formula_version: number | null; // STATS_FORMULA_VERSION used for the computed fields in stats_json
   stats_manual_fields: string | null; // JSON stored as string
   notes: string | null;
   venue: string | null;
@@ -124,6 +144,117 @@ export interface MatchesTable {
   last_modified_by: number | null;
 }
 
+// Competitions (league, cup, tournament or friendlies; matches link via matches.competition_id)
+export interface CompetitionsTable {
+  id: Generated<number>;
+  name: string;
+  competition_type: 'league' | 'cup' | 'tournament' | 'friendly';
+  season_id: number | null;
+  points_win: Generated<number>;
+  points_draw: Generated<number>;
+  points_loss: Generated<number>;
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+// Competition Participants (a club team or a registry opponent, exactly one of the two)
+export interface CompetitionParticipantsTable {
+  id: Generated<number>;
+  competition_id: number;
+  team_id: number | null;
+  opponent_id: number | null;
+}
+
+// Players (club players; positions is a JSON array string, e.g. '["CB","DM"]')
+export interface PlayersTable {
+  id: Generated<number>;
+  name: string;
+  jersey_number: number | null;
+  positions: string | null;
+  birth_year: number | null;
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+// Team rosters (a player's membership of a team for the team's season)
+export interface TeamPlayersTable {
+  id: Generated<number>;
+  team_id: number;
+  player_id: number;
+  season_id: number | null;
+  created_at: Generated<string>;
+}
+
+// Match lineups (one per match; the match length used to work out minutes played)
+export interface MatchLineupsTable {
+  match_id: number;
+  duration_minutes: number;
+  updated_by: number | null;
+  updated_at: Generated<string>;
+}
+
+// Players in a match lineup (starters and bench); player_id is set for roster players
+export interface MatchLineupPlayersTable {
+  id: Generated<number>;
+  match_id: number;
+  player_id: number | null;
+  player_name: string;
+  is_starter: boolean;
+  minutes_played: Generated<number>; // Derived from the substitutions when the lineup is saved
+}
+
+// Substitutions in a match lineup (by player name)
+export interface MatchSubstitutionsTable {
+  id: Generated<number>;
+  match_id: number;
+  minute: number;
+  player_off: string;
+  player_on: string;
+}
+
+// Opponents (registry of the clubs/teams matches are played against)
+export interface OpponentsTable {
+  id: Generated<number>;
+  name: string;
+  club_name: string | null;
+  team_name: string | null;
+  age_group: string | null;
+  created_at: Generated<string>;
+  updated_at: Generated<string>;
+}
+
+// Opponent Aliases (every spelling that resolves to an opponent, including its name)
+export interface OpponentAliasesTable {
+  id: Generated<number>;
+  opponent_id: number;
+  alias: string;
+  normalized_alias: string; // normalizeOpponentName(alias), unique across all opponents
+  created_at: Generated<string>;
+}
+
+// Opponent Merge Proposals (likely duplicates found by clustering names)
+export interface OpponentMergeProposalsTable {
+  id: Generated<number>;
+  target_opponent_id: number;
+  source_opponent_id: number;
+  similarity: number;
+  status: 'pending' | 'dismissed';
+  resolved_by: number | null;
+  resolved_at: string | null;
+  created_at: Generated<string>;
+}
+
+// Match Revisions (snapshot of a match after each create/update/restore, or before delete)
+export interface MatchRevisionsTable {
+  id: Generated<number>;
+  match_id: number;
+  action: 'create' | 'update' | 'delete' | 'restore';
+  snapshot_json: string; // JSON stored as string
+  changed_by: number | null;
+  restored_from_revision_id: number | null;
+  created_at: Generated<string>;
+}
+
 // Game Events
 export interface GameEventsTable {
   id: Generated<number>;
@@ -139,6 +270,7 @@ export interface GameEventsTable {
   y_coordinate: number | null;
   event_data: string | null; // JSON stored as string
   is_joga_team: Generated<number>;
+  player_id: number | null; // Roster player (player_name keeps their name at the time of entry)
   player_name: string | null;
   notes: string | null;
   tags: string | null;
@@ -194,6 +326,14 @@ export interface CustomChartsTable {
   updated_at: Generated<string>;
 }
 
+// Club Settings (club-wide configuration, one row per key)
+export interface ClubSettingsTable {
+  key: string;
+  value_json: string; // JSON stored as string
+  updated_by: number | null;
+  updated_at: Generated<string>;
+}
+
 // Helper types for common operations
 export type UserRow = Selectable<UsersTable>;
 export type NewUser = Insertable<UsersTable>;
@@ -207,6 +347,19 @@ export type MatchRow = Selectable<MatchesTable>;
 export type NewMatch = Insertable<MatchesTable>;
 export type MatchUpdate = Updateable<MatchesTable>;
 
+export type OpponentRow = Selectable<OpponentsTable>;
+export type NewOpponent = Insertable<OpponentsTable>;
+export type OpponentUpdate = Updateable<OpponentsTable>;
+
+export type CompetitionRow = Selectable<CompetitionsTable>;
+
+export type PlayerRow = Selectable<PlayersTable>;
+
+export type MatchRevisionRow = Selectable<MatchRevisionsTable>;
+export type NewMatchRevision = Insertable<MatchRevisionsTable>;
+
+export type GameEventRow = Selectable<GameEventsTable>;
+
 export type SessionRow = Selectable<SessionsTable>;
 export type NewSession = Insertable<SessionsTable>;
 
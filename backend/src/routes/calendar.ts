@@ -0,0 +1,153 @@
+import express from 'express';
+import { authenticateSession } from '../middleware/auth.js';
+import { getUserTeamAssignments } from '../services/teamService.js';
+import {
+  buildTeamCalendarFeed,
+  commitCalendarImport,
+  getTeamCalendarToken,
+  previewCalendarImport,
+  regenerateTeamCalendarToken,
+} from '../services/calendarService.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/calendar/feeds/:token.ics
+ * A team's scheduled fixtures as an iCalendar feed, for calendar app subscriptions
+ * No login session: the token in the URL is the credential.
+ */
+router.get('/feeds/:token.ics', async (req, res) => {
+  try {
+    const calendar = await buildTeamCalendarFeed(req.params.token);
+    if (!calendar) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="fixtures.ics"');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.send(calendar);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to build calendar' });
+  }
+});
+
+// Everything else requires authentication
+router.use(authenticateSession);
+
+/**
+ * Team from the route or body, checked against the user's assignments
+ * Admins can use any team; coaches only their assigned teams; viewers none.
+ * Sends the error response and returns null when the user can't use the team.
+ */
+async function getAccessibleTeamId(req: express.Request, res: express.Response, value: unknown): Promise<number | null> {
+  const teamId = parseInt(String(value));
+  if (isNaN(teamId)) {
+    res.status(400).json({ error: 'teamId is required' });
+    return null;
+  }
+  if (req.userRole === 'admin') {
+    return teamId;
+  }
+  if (req.userRole === 'viewer' || !(await getUserTeamAssignments(req.userId!)).includes(teamId)) {
+    res.status(403).json({ error: 'You can only manage calendars for your assigned teams' });
+    return null;
+  }
+  return teamId;
+}
+
+function getFeedUrl(req: express.Request, token: string): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}/feeds/${token}.ics`;
+}
+
+/**
+ * GET /api/calendar/teams/:teamId
+ * The team's feed URL (the token is created on first request)
+ */
+router.get('/teams/:teamId', async (req, res) => {
+  try {
+    const teamId = await getAccessibleTeamId(req, res, req.params.teamId);
+    if (teamId === null) return;
+
+    const token = await getTeamCalendarToken(teamId);
+    if (!token) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    res.json({ teamId, url: getFeedUrl(req, token) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get calendar feed' });
+  }
+});
+
+/**
+ * POST /api/calendar/teams/:teamId/regenerate
+ * Replace the team's feed token; subscriptions to the old URL stop updating
+ */
+router.post('/teams/:teamId/regenerate', async (req, res) => {
+  try {
+    const teamId = await getAccessibleTeamId(req, res, req.params.teamId);
+    if (teamId === null) return;
+
+    const token = await regenerateTeamCalendarToken(teamId);
+    if (!token) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    res.json({ teamId, url: getFeedUrl(req, token) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to regenerate calendar feed' });
+  }
+});
+
+/**
+ * POST /api/calendar/import/preview
+ * Dry-run importing an .ics schedule as scheduled matches: opponent matches and duplicate flags per event
+ * Body: teamId, content (the .ics file as text)
+ */
+router.post('/import/preview', async (req, res) => {
+  try {
+    const teamId = await getAccessibleTeamId(req, res, req.body.teamId);
+    if (teamId === null) return;
+    if (typeof req.body.content !== 'string' || !req.body.content) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+
+    res.json(await previewCalendarImport(teamId, req.body.content));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to preview calendar import' });
+  }
+});
+
+/**
+ * POST /api/calendar/import/commit
+ * Create scheduled matches from an .ics schedule
+ * Body: same as /import/preview, plus rowNumbers (optional, event positions from the preview).
+ * Without rowNumbers, all valid events that aren't duplicates are imported.
+ */
+router.post('/import/commit', async (req, res) => {
+  try {
+    const teamId = await getAccessibleTeamId(req, res, req.body.teamId);
+    if (teamId === null) return;
+    const { content, rowNumbers } = req.body;
+    if (typeof content !== 'string' || !content) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+    if (rowNumbers !== undefined && (!Array.isArray(rowNumbers) || !rowNumbers.every(n => Number.isInteger(n)))) {
+      return res.status(400).json({ error: 'rowNumbers must be an array of row numbers' });
+    }
+
+    const preview = await previewCalendarImport(teamId, content);
+    const result = await commitCalendarImport(preview, { userId: req.userId!, rowNumbers });
+
+    if (result.rowErrors.length > 0) {
+      return res.status(400).json({
+        error: `${result.rowErrors.length} selected event${result.rowErrors.length === 1 ? '' : 's'} cannot be imported`,
+        rowErrors: result.rowErrors,
+      });
+    }
+
+    res.status(201).json({ created: result.created.length, matches: result.created });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to import calendar' });
+  }
+});
+
+export default router;
@@ -0,0 +1,136 @@
+import express from 'express';
+import { authenticateSession, requireAdmin } from '../middleware/auth.js';
+import {
+  getPlayingTimePolicy,
+  getSpiWeightingSetting,
+  getStatValidationRules,
+  resetStatValidationRules,
+  updatePlayingTimePolicy,
+  updateSpiWeighting,
+  updateStatValidationRules,
+  validatePlayingTimePolicy,
+  validateSpiWeighting,
+} from '../services/clubSettingsService.js';
+import { validateStatValidationRules } from '../services/statValidationService.js';
+
+const router = express.Router();
+
+// All club settings routes require authentication
+router.use(authenticateSession);
+
+/**
+ * GET /api/club-settings/spi-weighting
+ * Get the club's weighting for SPI (w) / Opp SPI (w)
+ */
+router.get('/spi-weighting', async (req, res) => {
+  try {
+    res.json(getSpiWeightingSetting());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get SPI weighting' });
+  }
+});
+
+/**
+ * PUT /api/club-settings/spi-weighting
+ * Change the SPI weighting and recompute SPI (w) / Opp SPI (w) on every match
+ * Body: baseStringLength, bonusPerExtraPass, dryRun (optional - preview changes without saving)
+ * Requires: Admin
+ */
+router.put('/spi-weighting', requireAdmin, async (req, res) => {
+  try {
+    const { dryRun = false, ...weighting } = req.body || {};
+    const validationError = validateSpiWeighting(weighting);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (typeof dryRun !== 'boolean') {
+      return res.status(400).json({ error: 'dryRun must be a boolean' });
+    }
+
+    const recompute = await updateSpiWeighting(weighting, { dryRun, userId: req.userId ?? null });
+    res.json({ ...(dryRun ? { weighting } : getSpiWeightingSetting()), recompute });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to update SPI weighting' });
+  }
+});
+
+/**
+ * GET /api/club-settings/validation-rules
+ * Get the rules entered match stats are checked against
+ */
+router.get('/validation-rules', async (req, res) => {
+  try {
+    res.json(await getStatValidationRules());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get validation rules' });
+  }
+});
+
+/**
+ * PUT /api/club-settings/validation-rules
+ * Replace the stat validation rules
+ * Body: rules (full rule set)
+ * Requires: Admin
+ */
+router.put('/validation-rules', requireAdmin, async (req, res) => {
+  try {
+    const { rules } = req.body || {};
+    const validationError = validateStatValidationRules(rules);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const saved = await updateStatValidationRules(rules, req.userId ?? null);
+    res.json({ rules: saved, isDefault: false });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to update validation rules' });
+  }
+});
+
+/**
+ * DELETE /api/club-settings/validation-rules
+ * Go back to the default stat validation rules
+ * Requires: Admin
+ */
+router.delete('/validation-rules', requireAdmin, async (req, res) => {
+  try {
+    await resetStatValidationRules();
+    res.json(await getStatValidationRules());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to reset validation rules' });
+  }
+});
+
+/**
+ * GET /api/club-settings/playing-time-policy
+ * Get the club's equal playing time policy
+ */
+router.get('/playing-time-policy', async (req, res) => {
+  try {
+    res.json(await getPlayingTimePolicy());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get playing time policy' });
+  }
+});
+
+/**
+ * PUT /api/club-settings/playing-time-policy
+ * Change the equal playing time policy
+ * Body: minSharePercent (minimum share of available minutes, 0-100)
+ * Requires: Admin
+ */
+router.put('/playing-time-policy', requireAdmin, async (req, res) => {
+  try {
+    const validationError = validatePlayingTimePolicy(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const policy = await updatePlayingTimePolicy(req.body, req.userId ?? null);
+    res.json({ policy, isDefault: false });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to update playing time policy' });
+  }
+});
+
+export default router;
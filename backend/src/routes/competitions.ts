@@ -0,0 +1,133 @@
+import express from 'express';
+import { authenticateSession, requireAdmin } from '../middleware/auth.js';
+import {
+  COMPETITION_TYPES,
+  createCompetition,
+  deleteCompetition,
+  getCompetitionById,
+  getCompetitions,
+  getStandings,
+  updateCompetition,
+  validateCompetitionInput,
+  type CompetitionType,
+} from '../services/competitionService.js';
+
+const router = express.Router();
+
+// All competition routes require authentication
+router.use(authenticateSession);
+
+function isNotFound(error: any): boolean {
+  return Boolean(error.message?.includes('not found'));
+}
+
+/**
+ * GET /api/competitions
+ * List competitions with their participants and match counts
+ * Query params: seasonId, teamId (competitions that club team takes part in), type
+ */
+router.get('/', async (req, res) => {
+  try {
+    const type = req.query.type as CompetitionType | undefined;
+    if (type && !COMPETITION_TYPES.includes(type)) {
+      return res.status(400).json({ error: `type must be one of: ${COMPETITION_TYPES.join(', ')}` });
+    }
+    const competitions = await getCompetitions({
+      seasonId: req.query.seasonId ? parseInt(req.query.seasonId as string) : undefined,
+      teamId: req.query.teamId ? parseInt(req.query.teamId as string) : undefined,
+      type,
+    });
+    res.json(competitions);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get competitions' });
+  }
+});
+
+/**
+ * GET /api/competitions/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const competition = await getCompetitionById(parseInt(req.params.id));
+    if (!competition) {
+      return res.status(404).json({ error: 'Competition not found' });
+    }
+    res.json(competition);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get competition' });
+  }
+});
+
+/**
+ * GET /api/competitions/:id/standings
+ * Standings table (W/D/L, GF/GA, points under the competition's points rules)
+ */
+router.get('/:id/standings', async (req, res) => {
+  try {
+    const standings = await getStandings(parseInt(req.params.id));
+    if (!standings) {
+      return res.status(404).json({ error: 'Competition not found' });
+    }
+    res.json(standings);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get standings' });
+  }
+});
+
+/**
+ * POST /api/competitions
+ * Body: name, type (league | cup | tournament | friendly), seasonId, pointsRules { win, draw, loss },
+ * teamIds (club teams), opponentIds (registry opponents); all but name and type optional
+ * Requires: Admin
+ */
+router.post('/', requireAdmin, async (req, res) => {
+  try {
+    const validationError = validateCompetitionInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const { name, type, seasonId, pointsRules, teamIds, opponentIds } = req.body;
+    res.status(201).json(await createCompetition({ name, type, seasonId, pointsRules, teamIds, opponentIds }));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to create competition' });
+  }
+});
+
+/**
+ * PUT /api/competitions/:id
+ * Body: any of the POST fields (teamIds / opponentIds replace the participants)
+ * A new type is written to the competition's matches
+ * Requires: Admin
+ */
+router.put('/:id', requireAdmin, async (req, res) => {
+  try {
+    const validationError = validateCompetitionInput(req.body, { partial: true });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const { name, type, seasonId, pointsRules, teamIds, opponentIds } = req.body;
+    res.json(await updateCompetition(
+      parseInt(req.params.id),
+      { name, type, seasonId, pointsRules, teamIds, opponentIds },
+      req.userId!
+    ));
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to update competition' });
+  }
+});
+
+/**
+ * DELETE /api/competitions/:id
+ * Its matches are kept (no longer linked to a competition)
+ * Requires: Admin
+ */
+router.delete('/:id', requireAdmin, async (req, res) => {
+  try {
+    await deleteCompetition(parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 500).json({ error: error.message || 'Failed to delete competition' });
+  }
+});
+
+export default router;
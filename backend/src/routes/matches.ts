@@ -2,73 +2,256 @@ import express from 'express';
 import {
   getMatches,
   getMatchById,
+  findExistingMatch,
   createMatch,
   updateMatch,
   deleteMatch,
   getMatchEvents,
+  getGameEventById,
   createGameEvent,
+  createGameEventsBulk,
+  updateGameEvent,
+  deleteGameEvent,
+  validateGameEventInput,
   hasHalfTimeStats,
+  getUpcomingFixtures,
+  isMatchStatus,
+  isKickoffTime,
+  MAX_BULK_GAME_EVENTS,
+  type GameEventFilters,
 } from '../services/matchService.js';
-import { authenticateSession, canModifyMatch } from '../middleware/auth.js';
+import { authenticateSession, canModifyMatch, requireAdmin } from '../middleware/auth.js';
 import { getUserTeamAssignments } from '../services/teamService.js';
-import { computeMatchStats, normalizeFieldNames } from '../services/matchStatsService.js';
-import { normalizeOpponentName, opponentNamesMatch, findBestOpponentMatch, calculateOpponentSimilarity } from '../utils/opponentMatching.js';
+import { computeMatchStats, normalizeFieldNames, STATS_FORMULA_VERSION } from '../services/matchStatsService.js';
+import { deriveMatchStatsFromEvents, refreshEventDerivedStats } from '../services/eventStatsService.js';
+import { computeMatchXG } from '../services/xgService.js';
+import { buildPassNetwork, MAX_PASS_NETWORK_MATCHES } from '../services/passNetworkService.js';
+import { buildSetPieceAnalytics, isSetPieceType, MAX_SET_PIECE_MATCHES } from '../services/setPieceService.js';
+import { buildHeatmap, validateHeatmapOptions, type HeatmapOptions, type HeatmapSide } from '../services/heatmapService.js';
+import { recomputeOutdatedMatchStats } from '../services/statsRecomputeService.js';
+import { getStatValidationRules } from '../services/clubSettingsService.js';
+import { evaluateStatValidationRules, mergeStatsForValidation } from '../services/statValidationService.js';
+import { parseImportFile, previewMatchImport, commitMatchImport } from '../services/matchImportService.js';
+import {
+  buildMatchExport,
+  renderMatchExport,
+  isMatchExportFormat,
+  isMatchExportColumnSet,
+} from '../services/matchExportService.js';
+import {
+  getMatchRevisions,
+  getMatchRevision,
+  diffMatchSnapshots,
+  restoreMatchRevision,
+  type MatchRevision,
+} from '../services/matchRevisionService.js';
+import { getOpponentById, getOpponentSuggestions } from '../services/opponentService.js';
+import {
+  deleteMatchLineup,
+  getLineupNameSuggestions,
+  getMatchLineup,
+  saveMatchLineup,
+  validateLineupInput,
+} from '../services/lineupService.js';
 
 const router = express.Router();
 
 // All match routes require authentication
 router.use(authenticateSession);
 
+/**
+ * Build getMatches filters from list query params, scoped by role:
+ * - Admin: can view all matches (including unlinked matches with teamId: null)
+ * - Coach: can view only matches for assigned teams (including unlinked matches)
+ * - Viewer: (not used in UI yet) keep same as coach for safety (no access to other teams)
+ * Returns null when a non-admin asks for a team they aren't assigned to.
+ */
+async function getMatchListFilters(req: express.Request): Promise<any | null> {
+  const filters: any = {};
+
+  if (req.query.teamId) {
+    filters.teamId = parseInt(req.query.teamId as string);
+  }
+  if (req.query.opponentId) {
+    filters.opponentId = parseInt(req.query.opponentId as string);
+  }
+  if (req.query.opponentName) {
+    filters.opponentName = req.query.opponentName as string;
+  }
+  if (req.query.startDate) {
+    filters.startDate = req.query.startDate as string;
+  }
+  if (req.query.endDate) {
+    filters.endDate = req.query.endDate as string;
+  }
+  if (req.query.competitionType) {
+    filters.competitionType = req.query.competitionType as string;
+  }
+  if (req.query.competitionId) {
+    filters.competitionId = parseInt(req.query.competitionId as string);
+  }
+  if (req.query.seasonId) {
+    filters.seasonId = parseInt(req.query.seasonId as string);
+  }
+  if (isMatchStatus(req.query.status)) {
+    filters.status = req.query.status;
+  }
+  if (req.query.missingHalfTimeStats === 'true') {
+    filters.missingHalfTimeStats = true;
+  }
+
+  if (req.userId && req.userRole && req.userRole !== 'admin') {
+    const assignedTeamIds = await getUserTeamAssignments(req.userId);
+
+    // If an explicit teamId is requested, enforce it is assigned
+    if (filters.teamId && !assignedTeamIds.includes(filters.teamId)) {
+      return null;
+    }
+
+    // Otherwise, scope to assigned teams (includes unlinked matches via service layer)
+    if (!filters.teamId) {
+      filters.teamIds = assignedTeamIds;
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Check fixture fields (status, kickoffTime) from a create/update body.
+ * Returns an error message, or null when valid.
+ */
+function validateFixtureFields(body: any): string | null {
+  if (body.status !== undefined && !isMatchStatus(body.status)) {
+    return 'status must be one of: scheduled, played, cancelled';
+  }
+  if (body.kickoffTime !== undefined && body.kickoffTime !== null && body.kickoffTime !== '' && !isKickoffTime(body.kickoffTime)) {
+    return 'kickoffTime must be HH:MM (24h)';
+  }
+  return null;
+}
+
+/**
+ * Entered stats that should overwrite stored ones on update
+ * (0s and blanks are placeholders that keep the existing value)
+ */
+function withoutPlaceholders(stats: Record<string, any>): Record<string, any> {
+  const entered: Record<string, any> = {};
+  Object.entries(stats).forEach(([key, value]) => {
+    if (value !== 0 && value !== '' && value !== null && value !== undefined) {
+      entered[key] = value;
+    }
+  });
+  return entered;
+}
+
+/**
+ * Check entered stats against the club's validation rules.
+ * Returns the 400 response body when the save must be blocked (a failed error rule, or
+ * failed warnings that weren't acknowledged), otherwise null.
+ */
+async function getStatValidationFailure(stats: Record<string, any>, acknowledgeWarnings: unknown) {
+  const { rules } = await getStatValidationRules();
+  const validation = evaluateStatValidationRules(stats, rules);
+  const errors = validation.filter(result => result.severity === 'error');
+  if (errors.length > 0) {
+    return {
+      error: `Match stats failed validation: ${errors.map(result => result.message).join('; ')}`,
+      validation,
+    };
+  }
+  if (validation.length > 0 && acknowledgeWarnings !== true) {
+    return {
+      error: `Match stats have warnings that must be acknowledged: ${validation.map(result => result.message).join('; ')}`,
+      validation,
+    };
+  }
+  return null;
+}
+
 /**
  * GET /api/matches
  * Get all matches with optional filters
- * Query params: teamId, opponentName, startDate, endDate, competitionType
+ * Query params: teamId, opponentId, opponentName, startDate, endDate, competitionType, competitionId, seasonId,
+ * status (scheduled, played or cancelled)
  */
 router.get('/', async (req, res) => {
   try {
-    const filters: any = {};
-    
-    if (req.query.teamId) {
-      filters.teamId = parseInt(req.query.teamId as string);
-    }
-    if (req.query.opponentName) {
-      filters.opponentName = req.query.opponentName as string;
-    }
-    if (req.query.startDate) {
-      filters.startDate = req.query.startDate as string;
-    }
-    if (req.query.endDate) {
-      filters.endDate = req.query.endDate as string;
-    }
-    if (req.query.competitionType) {
-      filters.competitionType = req.query.competitionType as string;
-    }
-    if (req.query.missingHalfTimeStats === 'true') {
-      filters.missingHalfTimeStats = true;
+    const filters = await getMatchListFilters(req);
+    if (!filters) {
+      return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
     }
 
-    // Role-based visibility:
-    // - Admin: can view all matches (including unlinked matches with teamId: null)
-    // - Coach: can view only matches for assigned teams (including unlinked matches)
-    // - Viewer: (not used in UI yet) keep same as coach for safety (no access to other teams)
+    const matches = await getMatches(Object.keys(filters).length > 0 ? filters : undefined);
+    res.json(matches);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get matches' });
+  }
+});
+
+/**
+ * GET /api/matches/upcoming
+ * Next scheduled fixtures per team, from today
+ * Query params: teamId (optional), limit (fixtures per team, default 3, max 10)
+ * Coaches only see their assigned teams
+ */
+router.get('/upcoming', async (req, res) => {
+  try {
+    const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 3, 1), 10);
+
+    let teamIds = teamId ? [teamId] : undefined;
     if (req.userId && req.userRole && req.userRole !== 'admin') {
       const assignedTeamIds = await getUserTeamAssignments(req.userId);
-
-      // If an explicit teamId is requested, enforce it is assigned
-      if (filters.teamId && !assignedTeamIds.includes(filters.teamId)) {
+      if (teamId && !assignedTeamIds.includes(teamId)) {
         return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
       }
-
-      // Otherwise, scope to assigned teams (includes unlinked matches via service layer)
-      if (!filters.teamId) {
-        filters.teamIds = assignedTeamIds;
+      teamIds = teamId ? [teamId] : assignedTeamIds;
+      if (teamIds.length === 0) {
+        return res.json([]);
       }
     }
 
+    const now = new Date();
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    res.json(await getUpcomingFixtures({ fromDate: today, teamIds, perTeam: limit }));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get upcoming fixtures' });
+  }
+});
+
+/**
+ * GET /api/matches/export
+ * Download matches as CSV, XLSX or JSON
+ * Query params: same filters as GET /api/matches, plus
+ *   - format: csv (default), xlsx or json
+ *   - columns: raw, computed or both (default); game info columns are always included
+ */
+router.get('/export', async (req, res) => {
+  try {
+    const format = (req.query.format as string) || 'csv';
+    const columnSet = (req.query.columns as string) || 'both';
+
+    if (!isMatchExportFormat(format)) {
+      return res.status(400).json({ error: 'format must be csv, xlsx or json' });
+    }
+    if (!isMatchExportColumnSet(columnSet)) {
+      return res.status(400).json({ error: 'columns must be raw, computed or both' });
+    }
+
+    const filters = await getMatchListFilters(req);
+    if (!filters) {
+      return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+    }
+
     const matches = await getMatches(Object.keys(filters).length > 0 ? filters : undefined);
-    res.json(matches);
+    const file = await renderMatchExport(buildMatchExport(matches, columnSet), format);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.body);
   } catch (error: any) {
-    res.status(500).json({ error: error.message || 'Failed to get matches' });
+    res.status(500).json({ error: error.message || 'Failed to export matches' });
   }
 });
 
@@ -104,6 +287,89 @@ function convertDateForQuery(dateStr: string): string {
   return dateStr;
 }
 
+/**
+ * GET /api/matches/pass-network
+ * JOGA pass network (passer -> receiver counts, average player positions) from pass events
+ * Query params: matchIds (comma-separated, required)
+ */
+router.get('/pass-network', async (req, res) => {
+  try {
+    const matchIds = [...new Set(String(req.query.matchIds || '')
+      .split(',')
+      .map(id => parseInt(id.trim()))
+      .filter(id => Number.isFinite(id)))];
+    if (matchIds.length === 0) {
+      return res.status(400).json({ error: 'matchIds is required' });
+    }
+    if (matchIds.length > MAX_PASS_NETWORK_MATCHES) {
+      return res.status(400).json({ error: `A pass network can include at most ${MAX_PASS_NETWORK_MATCHES} matches` });
+    }
+
+    const assignedTeamIds = req.userId && req.userRole && req.userRole !== 'admin'
+      ? await getUserTeamAssignments(req.userId)
+      : null;
+    const events = [];
+    for (const matchId of matchIds) {
+      const match = await getMatchById(matchId);
+      if (!match) {
+        return res.status(404).json({ error: `Match ${matchId} not found` });
+      }
+      if (assignedTeamIds && match.teamId && !assignedTeamIds.includes(match.teamId)) {
+        return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+      }
+      events.push(...await getMatchEvents(matchId));
+    }
+
+    res.json(buildPassNetwork(events, matchIds.length));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get pass network' });
+  }
+});
+
+/**
+ * GET /api/matches/set-pieces
+ * Corner and free kick analytics (conversion for/against, per-match trend, delivery and side breakdowns)
+ * from set-piece events
+ * Query params: matchIds (comma-separated, required), type (corner or free_kick, default both)
+ */
+router.get('/set-pieces', async (req, res) => {
+  try {
+    const matchIds = [...new Set(String(req.query.matchIds || '')
+      .split(',')
+      .map(id => parseInt(id.trim()))
+      .filter(id => Number.isFinite(id)))];
+    if (matchIds.length === 0) {
+      return res.status(400).json({ error: 'matchIds is required' });
+    }
+    if (matchIds.length > MAX_SET_PIECE_MATCHES) {
+      return res.status(400).json({ error: `Set-piece analytics can include at most ${MAX_SET_PIECE_MATCHES} matches` });
+    }
+    const type = req.query.type ? String(req.query.type) : undefined;
+    if (type !== undefined && !isSetPieceType(type)) {
+      return res.status(400).json({ error: 'type must be corner or free_kick' });
+    }
+
+    const assignedTeamIds = req.userId && req.userRole && req.userRole !== 'admin'
+      ? await getUserTeamAssignments(req.userId)
+      : null;
+    const matches = [];
+    for (const matchId of matchIds) {
+      const match = await getMatchById(matchId);
+      if (!match) {
+        return res.status(404).json({ error: `Match ${matchId} not found` });
+      }
+      if (assignedTeamIds && match.teamId && !assignedTeamIds.includes(match.teamId)) {
+        return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+      }
+      matches.push({ matchId, events: await getMatchEvents(matchId) });
+    }
+
+    res.json(buildSetPieceAnalytics(matches, type));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get set-piece analytics' });
+  }
+});
+
 /**
  * GET /api/matches/find-existing
  * Find existing match by Team ID + Opponent + Date (fuzzy opponent matching)
@@ -122,27 +388,12 @@ router.get('/find-existing', async (req, res) => {
     // Convert date to YYYY-MM-DD format for database query
     const dateForQuery = convertDateForQuery(matchDate as string);
     
-    // Get all matches for this team and date
-    const matches = await getMatches({
-      teamId: parseInt(teamId as string),
-      startDate: dateForQuery,
-      endDate: dateForQuery,
-    });
-    
-    // Find match with matching opponent (fuzzy - uses similarity threshold)
-    // Try exact match first, then fuzzy match
-    const normalizedInput = normalizeOpponentName(opponentName as string);
-    let existingMatch = matches.find(match => 
-      normalizeOpponentName(match.opponentName) === normalizedInput
+    const existingMatch = await findExistingMatch(
+      parseInt(teamId as string),
+      opponentName as string,
+      dateForQuery
     );
     
-    // If no exact match, try fuzzy matching with 70% similarity threshold
-    if (!existingMatch) {
-      existingMatch = matches.find(match => 
-        opponentNamesMatch(match.opponentName, opponentName as string, 0.7)
-      );
-    }
-    
     if (existingMatch) {
       // Return the full match data for pre-filling
       const fullMatch = await getMatchById(existingMatch.id);
@@ -171,7 +422,7 @@ router.get('/find-existing', async (req, res) => {
 
 /**
  * GET /api/matches/opponents/suggestions
- * Get opponent name suggestions based on partial input
+ * Get opponent suggestions from the opponent registry (names and aliases) based on partial input
  * Query params: query (partial opponent name), teamId (optional), limit (default 10)
  */
 router.get('/opponents/suggestions', async (req, res) => {
@@ -182,73 +433,12 @@ router.get('/opponents/suggestions', async (req, res) => {
       return res.json({ suggestions: [] });
     }
     
-    const limitNum = parseInt(limit as string, 10) || 10;
-    const searchTerm = searchQuery.trim();
-    
-    // Get all matches (optionally filtered by team)
-    const filters: any = {};
-    if (teamId) {
-      filters.teamId = parseInt(teamId as string);
-    }
-    
-    const matches = await getMatches(filters);
-    
-    // Extract unique opponent names
-    const opponentSet = new Set<string>();
-    matches.forEach(match => {
-      if (match.opponentName && match.opponentName.trim()) {
-        opponentSet.add(match.opponentName.trim());
-      }
+    const suggestions = await getOpponentSuggestions(searchQuery.trim(), {
+      teamId: teamId ? parseInt(teamId as string) : undefined,
+      limit: parseInt(limit as string, 10) || 10,
     });
     
-    const allOpponents = Array.from(opponentSet);
-    
-    // Find best matches using fuzzy matching
-    const suggestions: Array<{ name: string; similarity: number }> = [];
-    
-    for (const opponent of allOpponents) {
-      const similarity = calculateOpponentSimilarity(searchTerm, opponent);
-      if (similarity > 0.3) { // Lower threshold for suggestions (30% similarity)
-        suggestions.push({ name: opponent, similarity });
-      }
-    }
-    
-    // Sort by similarity (highest first), then alphabetically
-    suggestions.sort((a, b) => {
-      if (Math.abs(a.similarity - b.similarity) > 0.1) {
-        return b.similarity - a.similarity;
-      }
-      return a.name.localeCompare(b.name);
-    });
-    
-    // Also include exact/prefix matches at the top
-    const exactMatches = allOpponents.filter(opp => {
-      const normOpp = normalizeOpponentName(opp);
-      const normSearch = normalizeOpponentName(searchTerm);
-      return normOpp.includes(normSearch) || normSearch.includes(normOpp);
-    }).slice(0, limitNum);
-    
-    // Combine and deduplicate
-    const result: string[] = [];
-    const seen = new Set<string>();
-    
-    // Add exact/prefix matches first
-    for (const name of exactMatches) {
-      if (!seen.has(name)) {
-        result.push(name);
-        seen.add(name);
-      }
-    }
-    
-    // Add fuzzy matches
-    for (const { name } of suggestions) {
-      if (!seen.has(name) && result.length < limitNum) {
-        result.push(name);
-        seen.add(name);
-      }
-    }
-    
-    return res.json({ suggestions: result });
+    return res.json({ suggestions });
   } catch (error: any) {
     console.error('Error getting opponent suggestions:', error);
     return res.status(500).json({ error: error.message || 'Failed to get opponent suggestions' });
@@ -284,18 +474,21 @@ router.get('/:id', async (req, res) => {
 
 /**
  * POST /api/matches/preview
- * Preview computed stats without saving
+ * Preview computed stats and validation results without saving
+ * Body: same as POST /api/matches, plus matchId (optional - validate as an update of that match)
  * Requires: Authentication
  */
 router.post('/preview', async (req, res) => {
   try {
     const {
+      matchId,
       teamId,
       opponentName,
       matchDate,
       competitionType,
       result,
       isHome,
+      format,
       venue,
       referee,
       notes,
@@ -328,6 +521,24 @@ router.post('/preview', async (req, res) => {
       ...computedStats,
     };
 
+    // Updates are validated against the stored stats they'll be merged into
+    let statsToValidate: Record<string, any> = normalizedStats;
+    if (matchId) {
+      const existingMatch = await getMatchById(parseInt(matchId));
+      if (!existingMatch) {
+        return res.status(404).json({ error: 'Match not found' });
+      }
+      if (req.userId && req.userRole && req.userRole !== 'admin') {
+        const assignedTeamIds = await getUserTeamAssignments(req.userId);
+        if (existingMatch.teamId && !assignedTeamIds.includes(existingMatch.teamId)) {
+          return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+        }
+      }
+      statsToValidate = mergeStatsForValidation(existingMatch.statsJson || {}, withoutPlaceholders(normalizedStats));
+    }
+    const { rules } = await getStatValidationRules();
+    const validation = evaluateStatValidationRules(statsToValidate, rules);
+
     res.json({
       gameInfo: {
         teamId,
@@ -336,6 +547,7 @@ router.post('/preview', async (req, res) => {
         competitionType,
         result,
         isHome,
+      format,
         venue,
         referee,
         notes,
@@ -343,15 +555,113 @@ router.post('/preview', async (req, res) => {
       rawStats: normalizedStats,
       computedStats,
       allStats: previewStats,
+      validation,
     });
   } catch (error: any) {
     res.status(400).json({ error: error.message || 'Failed to preview match stats' });
   }
 });
 
+/**
+ * Parse an import request body and build its dry-run preview
+ */
+async function buildImportPreview(body: any) {
+  const { fileBase64, fileName, teamId } = body;
+  const parsed = await parseImportFile(fileBase64, fileName);
+  const preview = await previewMatchImport(parsed.records, {
+    defaultTeamId: teamId ? parseInt(teamId) : null,
+  });
+  return { fileType: parsed.fileType, columns: parsed.columns, ...preview };
+}
+
+/**
+ * POST /api/matches/import/preview
+ * Dry-run a CSV/XLSX match import: mapped stats, computed stats and duplicate flags per row
+ * Body: fileBase64, fileName (.csv or .xlsx), teamId (optional, for rows without a Team column)
+ * Requires: Admin
+ */
+router.post('/import/preview', requireAdmin, async (req, res) => {
+  try {
+    const { fileBase64, fileName } = req.body;
+    if (!fileBase64 || !fileName) {
+      return res.status(400).json({ error: 'fileBase64 and fileName are required' });
+    }
+
+    const preview = await buildImportPreview(req.body);
+    res.json(preview);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to preview import' });
+  }
+});
+
+/**
+ * POST /api/matches/import/commit
+ * Create matches from a CSV/XLSX import
+ * Body: same as /import/preview, plus rowNumbers (optional).
+ * Without rowNumbers, all valid rows that aren't duplicates are imported.
+ * Requires: Admin
+ */
+router.post('/import/commit', requireAdmin, async (req, res) => {
+  try {
+    const { fileBase64, fileName, rowNumbers } = req.body;
+    if (!fileBase64 || !fileName) {
+      return res.status(400).json({ error: 'fileBase64 and fileName are required' });
+    }
+    if (rowNumbers !== undefined && (!Array.isArray(rowNumbers) || !rowNumbers.every(n => Number.isInteger(n)))) {
+      return res.status(400).json({ error: 'rowNumbers must be an array of row numbers' });
+    }
+
+    const preview = await buildImportPreview(req.body);
+    const result = await commitMatchImport(preview, { userId: req.userId!, rowNumbers });
+
+    if (result.rowErrors.length > 0) {
+      return res.status(400).json({
+        error: `${result.rowErrors.length} selected row${result.rowErrors.length === 1 ? '' : 's'} cannot be imported`,
+        rowErrors: result.rowErrors,
+      });
+    }
+
+    res.status(201).json({ created: result.created.length, matches: result.created });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to import matches' });
+  }
+});
+
+/**
+ * POST /api/matches/recompute-stats
+ * Recompute stats_json for matches computed with an older formula version
+ * Body: dryRun (default true), teamId (optional), includeCurrent (optional, also recompute up-to-date matches)
+ * Dry runs report per-metric changes without writing.
+ * Requires: Admin
+ */
+router.post('/recompute-stats', requireAdmin, async (req, res) => {
+  try {
+    const { dryRun = true, teamId, includeCurrent = false } = req.body || {};
+    if (typeof dryRun !== 'boolean' || typeof includeCurrent !== 'boolean') {
+      return res.status(400).json({ error: 'dryRun and includeCurrent must be booleans' });
+    }
+    if (teamId !== undefined && !Number.isInteger(teamId)) {
+      return res.status(400).json({ error: 'teamId must be a team ID' });
+    }
+
+    const report = await recomputeOutdatedMatchStats({ dryRun, teamId, includeCurrent, userId: req.userId });
+    res.json(report);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to recompute match stats' });
+  }
+});
+
 /**
  * POST /api/matches
  * Create a new match
+ * Stats entered as rawStats are checked against the club's validation rules: a failed error
+ * blocks the save, failed warnings need acknowledgeWarnings: true
+ * The opponent is opponentId (from the registry) or opponentName, resolved through the
+ * registry aliases (a new name registers a new opponent); the match stores the registry name
+ * competitionId links the match to a competition (its type replaces competitionType)
+ * format (7v7, 9v9, 11v11) defaults to the team's format; it sets how many periods stats are entered for
+ * A fixture is entered with status: 'scheduled' (plus kickoffTime, venue, isHome) and no result or stats;
+ * status defaults to 'played'
  * Requires: Admin (any team) or Coach (assigned teams only)
  */
 router.post('/', canModifyMatch, async (req, res) => {
@@ -363,6 +673,7 @@ router.post('/', canModifyMatch, async (req, res) => {
       competitionType,
       result,
       isHome,
+      format,
       statsJson, // If provided, use as-is (for backward compatibility)
       statsSource,
       statsComputedAt,
@@ -372,11 +683,26 @@ router.post('/', canModifyMatch, async (req, res) => {
       referee,
       // Raw stats from form (if statsJson not provided)
       rawStats,
+      acknowledgeWarnings,
+      opponentId,
+      competitionId,
+      status,
+      kickoffTime,
     } = req.body;
 
-    if (!opponentName || !matchDate) {
+    if ((!opponentName && !opponentId) || !matchDate) {
       return res.status(400).json({ error: 'Opponent name and match date are required' });
     }
+    const fixtureError = validateFixtureFields(req.body);
+    if (fixtureError) {
+      return res.status(400).json({ error: fixtureError });
+    }
+    if (status && status !== 'played' && (result || statsJson || rawStats)) {
+      return res.status(400).json({ error: `A ${status} match can't have a result or stats` });
+    }
+    if (opponentId !== undefined && opponentId !== null && !(await getOpponentById(opponentId))) {
+      return res.status(400).json({ error: 'Opponent not found' });
+    }
 
     if (!req.userId) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -384,6 +710,7 @@ router.post('/', canModifyMatch, async (req, res) => {
 
     let finalStatsJson = statsJson;
     let finalStatsComputedAt = statsComputedAt;
+    let statsFormulaVersion: number | null = null;
 
     // If rawStats provided instead of statsJson, compute derived metrics
     if (rawStats && !statsJson) {
@@ -400,6 +727,11 @@ router.post('/', canModifyMatch, async (req, res) => {
         notes,
       });
 
+      const validationFailure = await getStatValidationFailure(normalizedStats, acknowledgeWarnings);
+      if (validationFailure) {
+        return res.status(400).json(validationFailure);
+      }
+
       // Compute all derived metrics
       const computedStats = computeMatchStats(normalizedStats);
 
@@ -411,18 +743,25 @@ router.post('/', canModifyMatch, async (req, res) => {
 
       // Mark as computed
       finalStatsComputedAt = new Date().toISOString();
+      statsFormulaVersion = STATS_FORMULA_VERSION;
     }
 
     const match = await createMatch({
       teamId,
+      opponentId,
       opponentName,
       matchDate,
+      kickoffTime,
+      status,
+      competitionId,
       competitionType,
       result,
       isHome,
+      format,
       statsJson: finalStatsJson,
       statsSource: statsSource || 'manual',
       statsComputedAt: finalStatsComputedAt,
+      statsFormulaVersion,
       statsManualFields,
       notes,
       venue,
@@ -439,6 +778,8 @@ router.post('/', canModifyMatch, async (req, res) => {
 /**
  * PUT /api/matches/:id
  * Update a match
+ * Stats entered as rawStats are validated like POST /api/matches (against the merged stats)
+ * Saving a result or stats on a scheduled fixture marks it played (unless status is given)
  * Requires: Admin (any team) or Coach (assigned teams only)
  */
 router.put('/:id', canModifyMatch, async (req, res) => {
@@ -451,6 +792,7 @@ router.put('/:id', canModifyMatch, async (req, res) => {
       competitionType,
       result,
       isHome,
+      format,
       statsJson,
       statsSource,
       statsComputedAt,
@@ -460,11 +802,20 @@ router.put('/:id', canModifyMatch, async (req, res) => {
       referee,
       // Raw stats from form (if statsJson not provided)
       rawStats,
+      acknowledgeWarnings,
+      opponentId,
+      competitionId,
+      status,
+      kickoffTime,
     } = req.body;
 
     if (!req.userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
+    const fixtureError = validateFixtureFields(req.body);
+    if (fixtureError) {
+      return res.status(400).json({ error: fixtureError });
+    }
 
     // Get existing match to merge stats
     const existingMatch = await getMatchById(matchId);
@@ -474,6 +825,8 @@ router.put('/:id', canModifyMatch, async (req, res) => {
     }
     
     let finalStatsJson = statsJson;
+    let finalStatsComputedAt = statsComputedAt;
+    let statsFormulaVersion: number | undefined;
 
     // If rawStats provided instead of statsJson, compute derived metrics and merge with existing
     if (rawStats && !statsJson) {
@@ -492,15 +845,16 @@ router.put('/:id', canModifyMatch, async (req, res) => {
 
       // Merge with existing stats (0s in rawStats mean "don't update" - keep existing value)
       const existingStats = existingMatch.statsJson || {};
-      const mergedStats: Record<string, any> = { ...existingStats };
-      
-      // Only update fields that have non-zero values (0s act as placeholders)
-      Object.entries(normalizedStats).forEach(([key, value]) => {
-        if (value !== 0 && value !== '' && value !== null && value !== undefined) {
-          mergedStats[key] = value;
-        }
-        // If value is 0, keep existing value (don't update)
-      });
+      const enteredStats = withoutPlaceholders(normalizedStats);
+      const mergedStats: Record<string, any> = { ...existingStats, ...enteredStats };
+
+      const validationFailure = await getStatValidationFailure(
+        mergeStatsForValidation(existingStats, enteredStats),
+        acknowledgeWarnings
+      );
+      if (validationFailure) {
+        return res.status(400).json(validationFailure);
+      }
 
       // Normalize merged stats to ensure proper type for computeMatchStats
       const normalizedMergedStats = normalizeFieldNames(mergedStats);
@@ -513,18 +867,30 @@ router.put('/:id', canModifyMatch, async (req, res) => {
         ...mergedStats,
         ...computedStats,
       };
+      finalStatsComputedAt = new Date().toISOString();
+      statsFormulaVersion = STATS_FORMULA_VERSION;
+    }
+
+    if (opponentId !== undefined && opponentId !== null && !(await getOpponentById(opponentId))) {
+      return res.status(400).json({ error: 'Opponent not found' });
     }
 
     const match = await updateMatch(matchId, {
       teamId,
+      opponentId,
       opponentName,
       matchDate,
+      kickoffTime,
+      status,
+      competitionId,
       competitionType,
       result,
       isHome,
+      format,
       statsJson: finalStatsJson,
       statsSource,
-      statsComputedAt,
+      statsComputedAt: finalStatsComputedAt,
+      statsFormulaVersion,
       statsManualFields,
       notes,
       venue,
@@ -546,16 +912,146 @@ router.put('/:id', canModifyMatch, async (req, res) => {
 router.delete('/:id', canModifyMatch, async (req, res) => {
   try {
     const matchId = parseInt(req.params.id);
-    await deleteMatch(matchId);
+    await deleteMatch(matchId, req.userId);
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message || 'Failed to delete match' });
   }
 });
 
+/**
+ * Revision history outlives the match, so access is checked against the current team
+ * or, for a deleted match, the team in its last snapshot.
+ * Sends the error response and returns null when the match has no history or the user can't see it.
+ */
+async function getAccessibleRevisions(
+  req: express.Request,
+  res: express.Response,
+  matchId: number
+): Promise<{ revisions: MatchRevision[]; teamId: number | null } | null> {
+  const [match, revisions] = await Promise.all([getMatchById(matchId), getMatchRevisions(matchId)]);
+  if (!match && revisions.length === 0) {
+    res.status(404).json({ error: 'Match not found' });
+    return null;
+  }
+
+  const teamId = match ? match.teamId : revisions[0].snapshot.teamId;
+  if (req.userId && req.userRole && req.userRole !== 'admin' && teamId) {
+    const assignedTeamIds = await getUserTeamAssignments(req.userId);
+    if (!assignedTeamIds.includes(teamId)) {
+      res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+      return null;
+    }
+  }
+
+  return { revisions, teamId };
+}
+
+function toRevisionSummary({ snapshot: _snapshot, ...summary }: MatchRevision) {
+  return summary;
+}
+
+/**
+ * GET /api/matches/:id/revisions
+ * List a match's revisions, newest first (still available after the match is deleted)
+ */
+router.get('/:id/revisions', async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    if (isNaN(matchId)) {
+      return res.status(400).json({ error: 'Invalid match ID' });
+    }
+
+    const access = await getAccessibleRevisions(req, res, matchId);
+    if (!access) return;
+
+    res.json(access.revisions.map(toRevisionSummary));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get match revisions' });
+  }
+});
+
+/**
+ * GET /api/matches/:id/revisions/diff?to=<revisionId>&from=<revisionId>
+ * Field-by-field diff between two revisions
+ * from defaults to the revision before "to" (the first revision is compared against an empty match)
+ */
+router.get('/:id/revisions/diff', async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    const toId = parseInt(req.query.to as string);
+    const fromId = req.query.from !== undefined ? parseInt(req.query.from as string) : null;
+    if (isNaN(matchId) || isNaN(toId) || (fromId !== null && isNaN(fromId))) {
+      return res.status(400).json({ error: 'to (and optional from) must be revision IDs' });
+    }
+
+    const access = await getAccessibleRevisions(req, res, matchId);
+    if (!access) return;
+
+    const toIndex = access.revisions.findIndex(revision => revision.id === toId);
+    const from = fromId !== null
+      ? access.revisions.find(revision => revision.id === fromId)
+      : access.revisions[toIndex + 1] ?? null;
+    if (toIndex === -1 || from === undefined) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+    const to = access.revisions[toIndex];
+
+    res.json({
+      from: from ? toRevisionSummary(from) : null,
+      to: toRevisionSummary(to),
+      changes: diffMatchSnapshots(from ? from.snapshot : null, to.snapshot),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to diff match revisions' });
+  }
+});
+
+/**
+ * POST /api/matches/:id/revisions/:revisionId/restore
+ * Put the match back to a revision's state (re-creates it if it was deleted)
+ * Requires: Admin (any team) or Coach (assigned teams only, for both the current and restored team)
+ */
+router.post('/:id/revisions/:revisionId/restore', async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    const revisionId = parseInt(req.params.revisionId);
+    if (isNaN(matchId) || isNaN(revisionId)) {
+      return res.status(400).json({ error: 'Invalid match or revision ID' });
+    }
+    if (!req.userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    if (req.userRole === 'viewer') {
+      return res.status(403).json({ error: 'Viewers cannot modify matches' });
+    }
+
+    const access = await getAccessibleRevisions(req, res, matchId);
+    if (!access) return;
+
+    const revision = await getMatchRevision(matchId, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    if (req.userRole !== 'admin' && revision.snapshot.teamId) {
+      const assignedTeamIds = await getUserTeamAssignments(req.userId);
+      if (!assignedTeamIds.includes(revision.snapshot.teamId)) {
+        return res.status(403).json({ error: 'You can only modify matches for your assigned teams' });
+      }
+    }
+
+    await restoreMatchRevision(matchId, revisionId, req.userId);
+    res.json(await getMatchById(matchId));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to restore match revision' });
+  }
+});
+
 /**
  * GET /api/matches/:id/events
  * Get all game events for a match
+ * Query params: eventType, period, playerId, playerName, tags (comma-separated, events must have every tag)
  */
 router.get('/:id/events', async (req, res) => {
   try {
@@ -573,13 +1069,106 @@ router.get('/:id/events', async (req, res) => {
       }
     }
 
-    const events = await getMatchEvents(matchId);
+    const filters: GameEventFilters = {};
+    if (req.query.eventType) {
+      filters.eventType = req.query.eventType as string;
+    }
+    if (req.query.period) {
+      filters.period = parseInt(req.query.period as string);
+      if (!Number.isFinite(filters.period)) {
+        return res.status(400).json({ error: 'Invalid period' });
+      }
+    }
+    if (req.query.playerId) {
+      filters.playerId = parseInt(req.query.playerId as string);
+      if (!Number.isFinite(filters.playerId)) {
+        return res.status(400).json({ error: 'Invalid playerId' });
+      }
+    }
+    if (req.query.playerName) {
+      filters.playerName = req.query.playerName as string;
+    }
+    if (req.query.tags) {
+      filters.tags = (req.query.tags as string).split(',');
+    }
+
+    const events = await getMatchEvents(matchId, filters);
     res.json(events);
   } catch (error: any) {
     res.status(500).json({ error: error.message || 'Failed to get match events' });
   }
 });
 
+/**
+ * GET /api/matches/:id/shots
+ * Get located shots/goals for a match with estimated xG per shot (for shot maps)
+ */
+router.get('/:id/shots', async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+
+    // Enforce visibility via match access
+    const match = await getMatchById(matchId);
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+    if (req.userId && req.userRole && req.userRole !== 'admin') {
+      const assignedTeamIds = await getUserTeamAssignments(req.userId);
+      if (match.teamId && !assignedTeamIds.includes(match.teamId)) {
+        return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+      }
+    }
+
+    const events = await getMatchEvents(matchId);
+    res.json(computeMatchXG(events));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get match shots' });
+  }
+});
+
+/**
+ * GET /api/matches/:id/heatmap
+ * Grid of located events for a touch/action heatmap, in the side's attacking frame
+ * Query params: side (joga or opponent, default joga), playerName, eventTypes (comma-separated),
+ *   columns, rows (grid resolution), mirrorPeriods (comma-separated periods logged with the ends switched)
+ */
+router.get('/:id/heatmap', async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+
+    // Enforce visibility via match access
+    const match = await getMatchById(matchId);
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+    if (req.userId && req.userRole && req.userRole !== 'admin') {
+      const assignedTeamIds = await getUserTeamAssignments(req.userId);
+      if (match.teamId && !assignedTeamIds.includes(match.teamId)) {
+        return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+      }
+    }
+
+    const parseList = (value: unknown) => String(value || '').split(',').map(item => item.trim()).filter(Boolean);
+    const options: HeatmapOptions = {
+      side: (req.query.side as HeatmapSide | undefined) || undefined,
+      playerName: (req.query.playerName as string | undefined) || undefined,
+      eventTypes: parseList(req.query.eventTypes),
+      columns: req.query.columns ? Number(req.query.columns) : undefined,
+      rows: req.query.rows ? Number(req.query.rows) : undefined,
+      mirrorPeriods: parseList(req.query.mirrorPeriods).map(Number),
+    };
+    const validationError = validateHeatmapOptions(options);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const events = await getMatchEvents(matchId);
+    res.json(buildHeatmap(events, options));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get match heatmap' });
+  }
+});
+
 /**
  * POST /api/matches/:id/events
  * Create a game event for a match
@@ -600,6 +1189,7 @@ router.post('/:id/events', canModifyMatch, async (req, res) => {
       yCoordinate,
       eventData,
       isJogaTeam,
+      playerId,
       playerName,
       notes,
       tags,
@@ -609,6 +1199,11 @@ router.post('/:id/events', canModifyMatch, async (req, res) => {
       return res.status(400).json({ error: 'Event type is required' });
     }
 
+    const validationErrors = validateGameEventInput(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: validationErrors.join('; ') });
+    }
+
     const event = await createGameEvent({
       matchId,
       eventType,
@@ -622,15 +1217,233 @@ router.post('/:id/events', canModifyMatch, async (req, res) => {
       yCoordinate,
       eventData,
       isJogaTeam,
+      playerId,
       playerName,
       notes,
       tags,
     });
 
+    // Keep event-driven stats in sync (never touches hand-typed stats)
+    await refreshEventDerivedStats(matchId, { userId: req.userId });
+
     res.status(201).json(event);
   } catch (error: any) {
     res.status(400).json({ error: error.message || 'Failed to create game event' });
   }
 });
 
+/**
+ * POST /api/matches/:id/events/bulk
+ * Create many game events for a match in one transaction
+ * Body: { events: [...] } (same fields as POST /:id/events)
+ * If any row is invalid nothing is inserted and per-row errors are returned
+ * Requires: Admin (any team) or Coach (assigned teams only)
+ */
+router.post('/:id/events/bulk', canModifyMatch, async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    const { events } = req.body;
+
+    if (!Array.isArray(events) || events.length === 0) {
+      return res.status(400).json({ error: 'events must be a non-empty array' });
+    }
+    if (events.length > MAX_BULK_GAME_EVENTS) {
+      return res.status(400).json({ error: `Cannot create more than ${MAX_BULK_GAME_EVENTS} events at once` });
+    }
+
+    const rowErrors = events
+      .map((event: any, index: number) => ({ index, errors: validateGameEventInput(event) }))
+      .filter(row => row.errors.length > 0);
+
+    if (rowErrors.length > 0) {
+      return res.status(400).json({
+        error: `${rowErrors.length} of ${events.length} events failed validation`,
+        rowErrors,
+      });
+    }
+
+    const created = await createGameEventsBulk(matchId, events);
+
+    await refreshEventDerivedStats(matchId, { userId: req.userId });
+
+    res.status(201).json({ created: created.length, events: created });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to create game events' });
+  }
+});
+
+/**
+ * PUT /api/matches/:id/events/:eventId
+ * Update a game event
+ * Requires: Admin (any team) or Coach (assigned teams only)
+ */
+router.put('/:id/events/:eventId', canModifyMatch, async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    const eventId = parseInt(req.params.eventId);
+    if (!Number.isFinite(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const existing = await getGameEventById(eventId);
+    if (!existing || existing.matchId !== matchId) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    // Existing type fills in for partial updates, so set-piece details are still checked
+    const validationErrors = validateGameEventInput({ eventType: existing.eventType, ...req.body }, { partial: true });
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: validationErrors.join('; ') });
+    }
+
+    const event = await updateGameEvent(eventId, req.body);
+
+    // Recount the old event type too in case the event was retyped
+    await refreshEventDerivedStats(matchId, {
+      userId: req.userId,
+      includeEventTypes: [existing.eventType],
+    });
+
+    res.json(event);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to update game event' });
+  }
+});
+
+/**
+ * DELETE /api/matches/:id/events/:eventId
+ * Delete a game event
+ * Requires: Admin (any team) or Coach (assigned teams only)
+ */
+router.delete('/:id/events/:eventId', canModifyMatch, async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    const eventId = parseInt(req.params.eventId);
+    if (!Number.isFinite(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const existing = await getGameEventById(eventId);
+    if (!existing || existing.matchId !== matchId) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    await deleteGameEvent(eventId);
+
+    await refreshEventDerivedStats(matchId, {
+      userId: req.userId,
+      includeEventTypes: [existing.eventType],
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to delete game event' });
+  }
+});
+
+/**
+ * POST /api/matches/:id/derive-stats
+ * Aggregate the match's game events into stats_json (stats_source = 'events')
+ * Fields listed in stats_manual_fields are never overwritten
+ * Requires: Admin (any team) or Coach (assigned teams only)
+ */
+router.post('/:id/derive-stats', canModifyMatch, async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    const result = await deriveMatchStatsFromEvents(matchId, { userId: req.userId });
+    res.json(result);
+  } catch (error: any) {
+    if (error.message === 'Match not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || 'Failed to derive match stats from events' });
+  }
+});
+
+/**
+ * Load a match the user can view, sending the error response and returning null otherwise
+ */
+async function getViewableMatch(req: express.Request, res: express.Response, matchId: number) {
+  const match = await getMatchById(matchId);
+  if (!match) {
+    res.status(404).json({ error: 'Match not found' });
+    return null;
+  }
+  if (req.userId && req.userRole && req.userRole !== 'admin') {
+    const assignedTeamIds = await getUserTeamAssignments(req.userId);
+    if (match.teamId && !assignedTeamIds.includes(match.teamId)) {
+      res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+      return null;
+    }
+  }
+  return match;
+}
+
+/**
+ * GET /api/matches/:id/lineup
+ * The match's lineup (starters, bench, substitutions and minutes played), or null
+ */
+router.get('/:id/lineup', async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    if (!(await getViewableMatch(req, res, matchId))) return;
+    res.json(await getMatchLineup(matchId));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get lineup' });
+  }
+});
+
+/**
+ * GET /api/matches/:id/lineup/names
+ * Player names for the match's team: roster players plus names used in earlier events and lineups
+ */
+router.get('/:id/lineup/names', async (req, res) => {
+  try {
+    const match = await getViewableMatch(req, res, parseInt(req.params.id));
+    if (!match) return;
+    res.json(match.teamId ? await getLineupNameSuggestions(match.teamId) : []);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get player names' });
+  }
+});
+
+/**
+ * PUT /api/matches/:id/lineup
+ * Save (replace) the match's lineup; minutes played are worked out from the substitutions
+ * Body: durationMinutes, players [{ playerName, playerId?, isStarter }], substitutions [{ minute, playerOff, playerOn }]
+ * Requires: Admin (any team) or Coach (assigned teams only)
+ */
+router.put('/:id/lineup', canModifyMatch, async (req, res) => {
+  try {
+    const validationError = validateLineupInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const { durationMinutes, players, substitutions } = req.body;
+    const lineup = await saveMatchLineup(
+      parseInt(req.params.id),
+      { durationMinutes, players, substitutions },
+      req.userId ?? null
+    );
+    res.json(lineup);
+  } catch (error: any) {
+    res.status(error.message === 'Match not found' ? 404 : 400).json({ error: error.message || 'Failed to save lineup' });
+  }
+});
+
+/**
+ * DELETE /api/matches/:id/lineup
+ * Requires: Admin (any team) or Coach (assigned teams only)
+ */
+router.delete('/:id/lineup', canModifyMatch, async (req, res) => {
+  try {
+    if (!(await deleteMatchLineup(parseInt(req.params.id)))) {
+      return res.status(404).json({ error: 'Lineup not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to delete lineup' });
+  }
+});
+
 export default router;
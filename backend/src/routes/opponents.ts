@@ -0,0 +1,259 @@
+import express from 'express';
+import { authenticateSession, requireAdmin } from '../middleware/auth.js';
+import {
+  addOpponentAlias,
+  createOpponent,
+  deleteOpponent,
+  dismissMergeProposal,
+  getOpponentById,
+  getOpponents,
+  getPendingMergeProposals,
+  proposeOpponentMerges,
+  removeOpponentAlias,
+  validateOpponentInput,
+} from '../services/opponentService.js';
+import { acceptMergeProposal, mergeOpponents, updateOpponent } from '../services/opponentMergeService.js';
+import { getHeadToHead } from '../services/headToHeadService.js';
+import { getUserTeamAssignments } from '../services/teamService.js';
+
+const router = express.Router();
+
+// All opponent routes require authentication
+router.use(authenticateSession);
+
+function isNotFound(error: any): boolean {
+  return Boolean(error.message?.includes('not found'));
+}
+
+/**
+ * GET /api/opponents
+ * List opponents with their aliases and match counts
+ * Query params: search (matches any alias), teamId (opponents that team has played)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const opponents = await getOpponents({
+      search: typeof req.query.search === 'string' ? req.query.search : undefined,
+      teamId: req.query.teamId ? parseInt(req.query.teamId as string) : undefined,
+    });
+    res.json(opponents);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get opponents' });
+  }
+});
+
+/**
+ * GET /api/opponents/merge-proposals
+ * Pending merge proposals (likely duplicates), most similar first
+ * Requires: Admin
+ */
+router.get('/merge-proposals', requireAdmin, async (req, res) => {
+  try {
+    res.json(await getPendingMergeProposals());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get merge proposals' });
+  }
+});
+
+/**
+ * POST /api/opponents/merge-proposals/scan
+ * Look for likely duplicates and add merge proposals for them
+ * Requires: Admin
+ */
+router.post('/merge-proposals/scan', requireAdmin, async (req, res) => {
+  try {
+    const created = await proposeOpponentMerges();
+    res.json({ created, proposals: await getPendingMergeProposals() });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to scan for duplicate opponents' });
+  }
+});
+
+/**
+ * POST /api/opponents/merge-proposals/:id/accept
+ * Merge the proposal's duplicate into its target
+ * Requires: Admin
+ */
+router.post('/merge-proposals/:id/accept', requireAdmin, async (req, res) => {
+  try {
+    const opponent = await acceptMergeProposal(parseInt(req.params.id), req.userId!);
+    if (!opponent) {
+      return res.status(404).json({ error: 'Merge proposal not found' });
+    }
+    res.json(opponent);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to accept merge proposal' });
+  }
+});
+
+/**
+ * POST /api/opponents/merge-proposals/:id/dismiss
+ * Mark a proposal as not a duplicate (it won't be proposed again)
+ * Requires: Admin
+ */
+router.post('/merge-proposals/:id/dismiss', requireAdmin, async (req, res) => {
+  try {
+    const dismissed = await dismissMergeProposal(parseInt(req.params.id), req.userId!);
+    if (!dismissed) {
+      return res.status(404).json({ error: 'Merge proposal not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to dismiss merge proposal' });
+  }
+});
+
+/**
+ * POST /api/opponents/merge
+ * Merge duplicate opponents into one
+ * Body: targetId, sourceIds (opponents merged into the target and deleted)
+ * Requires: Admin
+ */
+router.post('/merge', requireAdmin, async (req, res) => {
+  try {
+    const { targetId, sourceIds } = req.body || {};
+    if (!Number.isInteger(targetId)) {
+      return res.status(400).json({ error: 'targetId is required' });
+    }
+    if (!Array.isArray(sourceIds) || sourceIds.length === 0 || !sourceIds.every(id => Number.isInteger(id))) {
+      return res.status(400).json({ error: 'sourceIds must be a list of opponent IDs' });
+    }
+
+    res.json(await mergeOpponents(targetId, sourceIds, req.userId!));
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to merge opponents' });
+  }
+});
+
+/**
+ * GET /api/opponents/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const opponent = await getOpponentById(parseInt(req.params.id));
+    if (!opponent) {
+      return res.status(404).json({ error: 'Opponent not found' });
+    }
+    res.json(opponent);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get opponent' });
+  }
+});
+
+/**
+ * GET /api/opponents/:id/head-to-head
+ * Record, key metric averages (overall and per season) and every match against an opponent,
+ * with coach notes, across the club's teams
+ * Query params: teamId (optional, one team only)
+ * Coaches/viewers only see their assigned teams' matches (plus matches not linked to a team)
+ */
+router.get('/:id/head-to-head', async (req, res) => {
+  try {
+    const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+    let teamIds: number[] | undefined;
+
+    if (req.userId && req.userRole && req.userRole !== 'admin') {
+      const assignedTeamIds = await getUserTeamAssignments(req.userId);
+      if (teamId && !assignedTeamIds.includes(teamId)) {
+        return res.status(403).json({ error: 'You can only view matches for your assigned teams' });
+      }
+      if (!teamId) {
+        teamIds = assignedTeamIds;
+      }
+    }
+
+    const headToHead = await getHeadToHead(parseInt(req.params.id), { teamId, teamIds });
+    if (!headToHead) {
+      return res.status(404).json({ error: 'Opponent not found' });
+    }
+    res.json(headToHead);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get head-to-head history' });
+  }
+});
+
+/**
+ * POST /api/opponents
+ * Body: name, clubName, teamName, ageGroup (all but name optional)
+ * Requires: Admin
+ */
+router.post('/', requireAdmin, async (req, res) => {
+  try {
+    const validationError = validateOpponentInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const { name, clubName, teamName, ageGroup } = req.body;
+    res.status(201).json(await createOpponent({ name, clubName, teamName, ageGroup }));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to create opponent' });
+  }
+});
+
+/**
+ * PUT /api/opponents/:id
+ * Body: any of name, clubName, teamName, ageGroup
+ * Renaming keeps the old name as an alias and renames the opponent's matches
+ * Requires: Admin
+ */
+router.put('/:id', requireAdmin, async (req, res) => {
+  try {
+    const validationError = validateOpponentInput(req.body, { partial: true });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const { name, clubName, teamName, ageGroup } = req.body;
+    res.json(await updateOpponent(parseInt(req.params.id), { name, clubName, teamName, ageGroup }, req.userId!));
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to update opponent' });
+  }
+});
+
+/**
+ * DELETE /api/opponents/:id
+ * Only opponents without matches can be deleted (merge the others)
+ * Requires: Admin
+ */
+router.delete('/:id', requireAdmin, async (req, res) => {
+  try {
+    await deleteOpponent(parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to delete opponent' });
+  }
+});
+
+/**
+ * POST /api/opponents/:id/aliases
+ * Body: alias (another spelling that should resolve to this opponent)
+ * Requires: Admin
+ */
+router.post('/:id/aliases', requireAdmin, async (req, res) => {
+  try {
+    const { alias } = req.body || {};
+    if (typeof alias !== 'string' || !alias.trim()) {
+      return res.status(400).json({ error: 'alias is required' });
+    }
+    res.status(201).json(await addOpponentAlias(parseInt(req.params.id), alias));
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to add alias' });
+  }
+});
+
+/**
+ * DELETE /api/opponents/:id/aliases?alias=<alias>
+ * Requires: Admin
+ */
+router.delete('/:id/aliases', requireAdmin, async (req, res) => {
+  try {
+    const alias = req.query.alias;
+    if (typeof alias !== 'string' || !alias.trim()) {
+      return res.status(400).json({ error: 'alias is required' });
+    }
+    res.json(await removeOpponentAlias(parseInt(req.params.id), alias));
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to remove alias' });
+  }
+});
+
+export default router;
@@ -0,0 +1,300 @@
+import express from 'express';
+import { authenticateSession, requireAdmin } from '../middleware/auth.js';
+import { getUserTeamAssignments } from '../services/teamService.js';
+import { getPlayingTimeReport } from '../services/lineupService.js';
+import { getPlayerStats } from '../services/playerStatsService.js';
+import {
+  addPlayerToRoster,
+  commitRosterImport,
+  createPlayer,
+  deletePlayer,
+  getPlayerById,
+  getPlayers,
+  getTeamRoster,
+  previewRosterImport,
+  removePlayerFromRoster,
+  updatePlayer,
+  validatePlayerInput,
+} from '../services/playerService.js';
+
+const router = express.Router();
+
+// All player routes require authentication
+router.use(authenticateSession);
+
+function isNotFound(error: any): boolean {
+  return Boolean(error.message?.includes('not found'));
+}
+
+/**
+ * Team IDs a non-admin can see players for (null for admins, who see everyone)
+ */
+async function getVisibleTeamIds(req: express.Request): Promise<number[] | null> {
+  if (req.userRole === 'admin') return null;
+  return getUserTeamAssignments(req.userId!);
+}
+
+/**
+ * GET /api/players
+ * List players with their teams
+ * Query params: teamId, seasonId, search
+ * Coaches only see players on their assigned teams' rosters.
+ */
+router.get('/', async (req, res) => {
+  try {
+    const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+    const visibleTeamIds = await getVisibleTeamIds(req);
+    if (visibleTeamIds && teamId && !visibleTeamIds.includes(teamId)) {
+      return res.status(403).json({ error: 'You can only view players for your assigned teams' });
+    }
+
+    const players = await getPlayers({
+      teamId,
+      teamIds: teamId ? undefined : visibleTeamIds ?? undefined,
+      seasonId: req.query.seasonId ? parseInt(req.query.seasonId as string) : undefined,
+      search: req.query.search as string | undefined,
+    });
+    res.json(players);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get players' });
+  }
+});
+
+/**
+ * GET /api/players/playing-time
+ * Minutes played per player from match lineups, with players below the club's
+ * playing time policy flagged
+ * Query params: teamId, seasonId
+ * Coaches only see their assigned teams.
+ */
+router.get('/playing-time', async (req, res) => {
+  try {
+    const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+    const visibleTeamIds = await getVisibleTeamIds(req);
+    if (visibleTeamIds && teamId && !visibleTeamIds.includes(teamId)) {
+      return res.status(403).json({ error: 'You can only view players for your assigned teams' });
+    }
+
+    const report = await getPlayingTimeReport({
+      teamId,
+      teamIds: teamId ? undefined : visibleTeamIds ?? undefined,
+      seasonId: req.query.seasonId ? parseInt(req.query.seasonId as string) : undefined,
+    });
+    res.json(report);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get playing time' });
+  }
+});
+
+/**
+ * GET /api/players/stats
+ * Per-player shots, goals, assists, passes and pass string involvement from game events,
+ * as totals and per 60 minutes played (from match lineups)
+ * Query params: teamId, seasonId, matchId, startDate, endDate (YYYY-MM-DD)
+ * Coaches only see their assigned teams.
+ */
+router.get('/stats', async (req, res) => {
+  try {
+    const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+    const visibleTeamIds = await getVisibleTeamIds(req);
+    if (visibleTeamIds && teamId && !visibleTeamIds.includes(teamId)) {
+      return res.status(403).json({ error: 'You can only view players for your assigned teams' });
+    }
+    const { startDate, endDate } = req.query as Record<string, string | undefined>;
+    for (const date of [startDate, endDate]) {
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: 'Dates must be YYYY-MM-DD' });
+      }
+    }
+
+    const stats = await getPlayerStats({
+      teamId,
+      teamIds: teamId ? undefined : visibleTeamIds ?? undefined,
+      seasonId: req.query.seasonId ? parseInt(req.query.seasonId as string) : undefined,
+      matchId: req.query.matchId ? parseInt(req.query.matchId as string) : undefined,
+      startDate,
+      endDate,
+    });
+    res.json(stats);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get player stats' });
+  }
+});
+
+/**
+ * GET /api/players/teams/:teamId
+ * A team's roster, by jersey number
+ */
+router.get('/teams/:teamId', async (req, res) => {
+  try {
+    const teamId = parseInt(req.params.teamId);
+    const visibleTeamIds = await getVisibleTeamIds(req);
+    if (visibleTeamIds && !visibleTeamIds.includes(teamId)) {
+      return res.status(403).json({ error: 'You can only view players for your assigned teams' });
+    }
+    res.json(await getTeamRoster(teamId));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get roster' });
+  }
+});
+
+/**
+ * GET /api/players/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const player = await getPlayerById(parseInt(req.params.id));
+    const visibleTeamIds = await getVisibleTeamIds(req);
+    if (!player || (visibleTeamIds && !player.teams.some(team => visibleTeamIds.includes(team.teamId)))) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(player);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get player' });
+  }
+});
+
+// Managing players and rosters is admin-only (like team management)
+router.use(requireAdmin);
+
+/**
+ * POST /api/players
+ * Body: name, jerseyNumber, positions (array), birthYear, teamId (optional, adds the player to that roster)
+ * Requires: Admin
+ */
+router.post('/', async (req, res) => {
+  try {
+    const validationError = validatePlayerInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const { name, jerseyNumber, positions, birthYear, teamId } = req.body;
+    const player = await createPlayer(
+      { name, jerseyNumber, positions, birthYear },
+      { teamId: teamId ? parseInt(teamId) : undefined }
+    );
+    res.status(201).json(player);
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to create player' });
+  }
+});
+
+/**
+ * PUT /api/players/:id
+ * Body: any of name, jerseyNumber, positions, birthYear
+ * Requires: Admin
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const validationError = validatePlayerInput(req.body, { partial: true });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const { name, jerseyNumber, positions, birthYear } = req.body;
+    const player = await updatePlayer(parseInt(req.params.id), { name, jerseyNumber, positions, birthYear });
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(player);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to update player' });
+  }
+});
+
+/**
+ * DELETE /api/players/:id
+ * Removes the player from every roster; tagged events keep the player's name
+ * Requires: Admin
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!(await deletePlayer(parseInt(req.params.id)))) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to delete player' });
+  }
+});
+
+/**
+ * POST /api/players/teams/:teamId
+ * Add an existing player to a team's roster
+ * Body: playerId
+ * Requires: Admin
+ */
+router.post('/teams/:teamId', async (req, res) => {
+  try {
+    const playerId = parseInt(req.body.playerId);
+    if (!Number.isInteger(playerId)) {
+      return res.status(400).json({ error: 'playerId is required' });
+    }
+    const teamId = parseInt(req.params.teamId);
+    await addPlayerToRoster(teamId, playerId);
+    res.status(201).json(await getTeamRoster(teamId));
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to add player to roster' });
+  }
+});
+
+/**
+ * DELETE /api/players/teams/:teamId/:playerId
+ * Take a player off a team's roster (the player and their events are kept)
+ * Requires: Admin
+ */
+router.delete('/teams/:teamId/:playerId', async (req, res) => {
+  try {
+    if (!(await removePlayerFromRoster(parseInt(req.params.teamId), parseInt(req.params.playerId)))) {
+      return res.status(404).json({ error: 'Player is not on this roster' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to remove player from roster' });
+  }
+});
+
+/**
+ * POST /api/players/teams/:teamId/import/preview
+ * Dry-run a CSV roster import: parsed players and the existing players they update
+ * Body: content (CSV text with Name, Number, Position and Birth Year columns)
+ * Requires: Admin
+ */
+router.post('/teams/:teamId/import/preview', async (req, res) => {
+  try {
+    if (typeof req.body.content !== 'string' || !req.body.content) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+    res.json(await previewRosterImport(parseInt(req.params.teamId), req.body.content));
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to preview roster import' });
+  }
+});
+
+/**
+ * POST /api/players/teams/:teamId/import/commit
+ * Create/update the players in a CSV roster and put them on the team's roster
+ * Body: same as /import/preview. Nothing is saved if any row has errors.
+ * Requires: Admin
+ */
+router.post('/teams/:teamId/import/commit', async (req, res) => {
+  try {
+    if (typeof req.body.content !== 'string' || !req.body.content) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+    const preview = await previewRosterImport(parseInt(req.params.teamId), req.body.content);
+    const result = await commitRosterImport(preview);
+
+    if (result.rowErrors.length > 0) {
+      return res.status(400).json({
+        error: `${result.rowErrors.length} row${result.rowErrors.length === 1 ? '' : 's'} cannot be imported`,
+        rowErrors: result.rowErrors,
+      });
+    }
+
+    res.status(201).json({ created: result.created, updated: result.updated });
+  } catch (error: any) {
+    res.status(isNotFound(error) ? 404 : 400).json({ error: error.message || 'Failed to import roster' });
+  }
+});
+
+export default router;
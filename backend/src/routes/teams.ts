@@ -70,6 +70,7 @@ router.post('/', async (req, res) => {
       gender,
       level,
       variant,
+      format,
       birthYearStart,
       birthYearEnd,
       ageGroup,
@@ -100,6 +101,7 @@ router.post('/', async (req, res) => {
       gender,
       level,
       variant,
+      format,
       birthYearStart: birthYearStart ?? null,
       birthYearEnd: birthYearEnd ?? null,
       ageGroup: ageGroup || null,
@@ -127,6 +129,7 @@ router.put('/:id', async (req, res) => {
       gender,
       level,
       variant,
+      format,
       birthYearStart,
       birthYearEnd,
       ageGroup,
@@ -141,6 +144,7 @@ router.put('/:id', async (req, res) => {
       gender,
       level,
       variant,
+      format,
       birthYearStart,
       birthYearEnd,
       ageGroup: ageGroup !== undefined ? ageGroup : undefined,
@@ -13,7 +13,7 @@
 import { fetchSheetData } from '../services/sheetsService.js';
 import { getMatches, createMatch } from '../services/matchService.js';
 import { normalizeFieldNames } from '../services/matchStatsService.js';
-import { computeMatchStats } from '../services/matchStatsService.js';
+import { computeMatchStats, STATS_FORMULA_VERSION } from '../services/matchStatsService.js';
 import { db } from '../db/database.js';
 
 interface MigrationOptions {
@@ -244,6 +244,7 @@ async function migrateSheetsToPostgres(options: MigrationOptions = {}) {
             statsJson,
             statsSource: 'google_sheets_migration',
             statsComputedAt,
+            statsFormulaVersion: statsComputedAt ? STATS_FORMULA_VERSION : null,
             notes,
             venue,
             referee,
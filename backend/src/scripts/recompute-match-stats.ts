@@ -0,0 +1,90 @@
+/**
+ * Recompute stored match stats after computeMatchStats changes
+ *
+ * Finds matches whose stats_formula_version is older than STATS_FORMULA_VERSION,
+ * recomputes their derived metrics and reports which metrics change and by how much.
+ * Runs as a dry run unless --apply is passed.
+ *
+ * Usage:
+ *   npm run recompute-stats                 (dry run)
+ *   npm run recompute-stats:apply           (write changes)
+ *   npx tsx src/scripts/recompute-match-stats.ts [--apply] [--team=<id>] [--all] [--verbose]
+ *
+ *   --all      also recompute matches already on the current version
+ *   --verbose  list every changed metric per match
+ */
+
+import { recomputeOutdatedMatchStats } from '../services/statsRecomputeService.js';
+import { loadClubSettings } from '../services/clubSettingsService.js';
+import { db } from '../db/database.js';
+
+function formatNumber(value: number | null): string {
+  if (value === null) return '-';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+async function recomputeMatchStats(options: { apply: boolean; teamId?: number; includeCurrent: boolean; verbose: boolean }) {
+  console.log(`🔄 Recomputing match stats${options.apply ? '' : ' (dry run)'}...\n`);
+
+  // The club's SPI weighting, so SPI (w) isn't recomputed with the default
+  await loadClubSettings();
+
+  const report = await recomputeOutdatedMatchStats({
+    dryRun: !options.apply,
+    teamId: options.teamId,
+    includeCurrent: options.includeCurrent,
+  });
+
+  console.log(`Formula version: ${report.formulaVersion}`);
+  console.log(`Matches checked: ${report.matchesChecked}`);
+  console.log(`Matches with changed stats: ${report.matchesChanged}\n`);
+
+  if (report.metrics.length > 0) {
+    console.log('📊 Changed metrics:');
+    report.metrics.forEach(metric => {
+      console.log(
+        `   ${metric.metric}: ${metric.matchesChanged} match(es), ` +
+        `max |Δ| ${formatNumber(metric.maxAbsDelta)}, mean Δ ${formatNumber(metric.meanDelta)}`
+      );
+    });
+  }
+
+  if (options.verbose) {
+    report.matches.forEach(match => {
+      console.log(`\n   Match ${match.matchId} (${match.matchDate} vs ${match.opponentName}, version ${match.fromVersion ?? 'none'})`);
+      match.changes.forEach(change => {
+        console.log(`     ${change.metric}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`);
+      });
+    });
+  }
+
+  if (!options.apply) {
+    console.log('\n⚠️  This was a dry run. No matches were changed.');
+    console.log('   Run with --apply to write the recomputed stats.');
+  } else {
+    console.log('\n✅ Recompute completed!');
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const teamArg = args.find(arg => arg.startsWith('--team='));
+
+  recomputeMatchStats({
+    apply: args.includes('--apply'),
+    teamId: teamArg ? parseInt(teamArg.split('=')[1]) : undefined,
+    includeCurrent: args.includes('--all'),
+    verbose: args.includes('--verbose'),
+  })
+    .finally(() => db.destroy())
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Recompute failed:', error);
+      process.exit(1);
+    });
+}
+
+export { recomputeMatchStats };
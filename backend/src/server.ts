@@ -13,6 +13,12 @@ import sheetsRoutes from './routes/sheets.js';
 import aiRoutes from './routes/ai.js';
 import glossaryRoutes from './routes/glossary.js';
 import customChartsRoutes from './routes/customCharts.js';
+import clubSettingsRoutes from './routes/clubSettings.js';
+import opponentRoutes from './routes/opponents.js';
+import competitionRoutes from './routes/competitions.js';
+import calendarRoutes from './routes/calendar.js';
+import playerRoutes from './routes/players.js';
+import { loadClubSettings } from './services/clubSettingsService.js';
 
 // Load environment variables
 // Try to load from backend/.env explicitly
@@ -53,7 +59,7 @@ app.use((req, res, next) => {
     res.setHeader('Access-Control-Allow-Origin', frontendUrl);
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS, PATCH');
     res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-ID, X-CSRF-Token');
-    res.setHeader('Access-Control-Expose-Headers', 'X-CSRF-Token'); // Allow frontend to read CSRF token from response headers
+    res.setHeader('Access-Control-Expose-Headers', 'X-CSRF-Token, Content-Disposition'); // Allow frontend to read CSRF token (and download filenames) from response headers
     res.setHeader('Access-Control-Max-Age', '86400'); // Cache preflight for 24 hours (helps Safari)
     return res.status(204).end();
   }
@@ -62,7 +68,7 @@ app.use((req, res, next) => {
   // CRITICAL: Safari requires exact origin match (no wildcards) when credentials are true
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.setHeader('Access-Control-Allow-Origin', frontendUrl); // Must be exact origin, not wildcard
-  res.setHeader('Access-Control-Expose-Headers', 'X-CSRF-Token'); // Always expose CSRF token header
+  res.setHeader('Access-Control-Expose-Headers', 'X-CSRF-Token, Content-Disposition'); // Always expose CSRF token header (and download filenames)
   next();
 });
 
@@ -113,6 +119,7 @@ if (process.env.NODE_ENV !== 'production') {
 export async function initializeDatabase() {
   try {
     await runMigrations();
+    await loadClubSettings();
     console.log('✓ Database initialized and migrations completed');
   } catch (error) {
     console.error('✗ Database initialization failed:', error);
@@ -133,6 +140,11 @@ app.use('/api/sheets', sheetsRoutes);
 app.use('/api/glossary', glossaryRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/custom-charts', customChartsRoutes);
+app.use('/api/club-settings', clubSettingsRoutes);
+app.use('/api/opponents', opponentRoutes);
+app.use('/api/competitions', competitionRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/players', playerRoutes);
 
 // NOTE: /api/config/check endpoint removed for security reasons
 // It exposed which environment variables were configured, aiding reconnaissance
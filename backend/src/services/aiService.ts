@@ -125,6 +125,12 @@ Team stats (left side):
 - Possession Mins (${period})
 - Possessions Won (${period})
 - Throw-in (${period})
+- Tackles (${period})
+- Interceptions (${period})
+- Clearances (${period})
+- Blocks (${period})
+- Recoveries (${period})
+- Saves (${period}) - saves by the Team's goalkeeper
 
 Opponent stats (right side):
 - Goals Against (${period})
@@ -137,6 +143,7 @@ Opponent stats (right side):
 - Opp Possession Mins (${period})
 - Opp Possessions Won (${period})
 - Opp Throw-in (${period})
+- Opp Final Third Entries (${period}) - times the opponent entered the final third
 
 DO NOT extract:
 - Attempts (these are computed fields, not in the form)
@@ -0,0 +1,345 @@
+/**
+ * Calendar Service
+ *
+ * Per-team iCalendar feeds of scheduled fixtures, and import of a league's .ics schedule
+ * as scheduled matches. Feeds are served without a login session, so each team has an
+ * unguessable token in teams.calendar_token; regenerating it revokes old subscriptions.
+ * Imported event titles ("Home vs Away", "Away @ Home") are split into the club team's
+ * side and the opponent, and opponents are matched to the registry through its aliases,
+ * then through the fuzzy name matching used elsewhere.
+ */
+
+import crypto from 'crypto';
+import { db } from '../db/database.js';
+import { buildCalendar, parseCalendarEvents } from '../utils/icalendar.js';
+import { calculateOpponentSimilarity, findBestOpponentMatch, normalizeOpponentName } from '../utils/opponentMatching.js';
+import { createMatchesBulk, findExistingMatch, getMatches, type MatchInput } from './matchService.js';
+import { findOpponentByName, getOpponents } from './opponentService.js';
+import { getTeamById } from './teamService.js';
+
+// Max events accepted in a single .ics import
+export const MAX_CALENDAR_IMPORT_EVENTS = 500;
+
+export interface CalendarImportRow {
+  rowNumber: number; // Position of the event in the file (first event is 1)
+  uid: string | null;
+  summary: string | null;
+  gameInfo: {
+    opponentName: string | null;
+    matchDate: string | null;
+    kickoffTime: string | null;
+    isHome: boolean | null;
+    venue: string | null;
+  };
+  /** How the opponent was matched: an alias in the registry, a similar registry name, or a new opponent */
+  opponentMatch: {
+    type: 'alias' | 'similar' | 'new';
+    opponentId: number | null;
+    name: string;
+    /** Name as written in the file */
+    importedName: string;
+    similarity: number | null;
+  } | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: { matchId: number; opponentName: string; matchDate: string } | null;
+  duplicateOfRow: number | null;
+}
+
+export interface CalendarImportPreview {
+  teamId: number;
+  rows: CalendarImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicates: number;
+  };
+}
+
+function generateCalendarToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * The team's feed token, created on first use
+ */
+export async function getTeamCalendarToken(teamId: number): Promise<string | null> {
+  const team = await db
+    .selectFrom('teams')
+    .select('calendar_token')
+    .where('id', '=', teamId)
+    .executeTakeFirst();
+  if (!team) return null;
+  return team.calendar_token ?? regenerateTeamCalendarToken(teamId);
+}
+
+/**
+ * Replace the team's feed token; feed URLs with the old token stop working
+ */
+export async function regenerateTeamCalendarToken(teamId: number): Promise<string | null> {
+  const token = generateCalendarToken();
+  const result = await db
+    .updateTable('teams')
+    .set({ calendar_token: token, updated_at: new Date().toISOString() })
+    .where('id', '=', teamId)
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows) > 0 ? token : null;
+}
+
+/**
+ * Build the .ics feed of a team's scheduled fixtures for a feed token
+ * Returns null when no team has the token.
+ */
+export async function buildTeamCalendarFeed(token: string): Promise<string | null> {
+  if (!token) return null;
+  const team = await db
+    .selectFrom('teams')
+    .select(['id', 'display_name', 'slug'])
+    .where('calendar_token', '=', token)
+    .executeTakeFirst();
+  if (!team) return null;
+
+  const teamName = team.display_name || team.slug;
+  const fixtures = await getMatches({ teamId: team.id, status: 'scheduled' });
+
+  return buildCalendar({
+    name: `${teamName} Fixtures`,
+    events: fixtures
+      .sort((a, b) => a.matchDate.localeCompare(b.matchDate))
+      .map(fixture => ({
+        uid: `match-${fixture.id}@joga`,
+        summary: fixture.isHome === false
+          ? `${teamName} @ ${fixture.opponentName}`
+          : `${teamName} vs ${fixture.opponentName}`,
+        date: fixture.matchDate,
+        time: fixture.kickoffTime,
+        location: fixture.venue,
+        description: fixture.competitionName ?? fixture.competitionType,
+        updatedAt: fixture.updatedAt.toISOString(),
+      })),
+  });
+}
+
+// "Home vs Away", "Home v Away", "Home - Away" (home team first), "Away @ Home", "Away at Home"
+const HOME_FIRST_SEPARATOR = /\s+(?:vs\.?|v\.?|versus|-|–)\s+/i;
+const AWAY_FIRST_SEPARATOR = /\s+(?:@|at)\s+/i;
+
+/**
+ * Split an event title into its two sides, home side first
+ */
+function splitEventSummary(summary: string): { home: string; away: string } | null {
+  // Drop a trailing "(League)" or "[Cup]" style label
+  const title = summary.replace(/\s*[([][^)\]]*[)\]]\s*$/, '').trim();
+
+  const homeFirst = title.split(HOME_FIRST_SEPARATOR);
+  if (homeFirst.length === 2 && homeFirst[0] && homeFirst[1]) {
+    return { home: homeFirst[0].trim(), away: homeFirst[1].trim() };
+  }
+  const awayFirst = title.split(AWAY_FIRST_SEPARATOR);
+  if (awayFirst.length === 2 && awayFirst[0] && awayFirst[1]) {
+    return { home: awayFirst[1].trim(), away: awayFirst[0].trim() };
+  }
+  return null;
+}
+
+/**
+ * Names the league might use for a club team: display name, slug and team aliases
+ */
+async function getTeamNames(teamId: number, displayName: string, slug: string): Promise<string[]> {
+  const aliases = await db
+    .selectFrom('team_aliases')
+    .select('alias')
+    .where('team_id', '=', teamId)
+    .execute();
+  return [displayName, slug.replace(/-/g, ' '), ...aliases.map(row => row.alias)].filter(Boolean);
+}
+
+function teamSimilarity(side: string, teamNames: string[]): number {
+  return Math.max(...teamNames.map(name => calculateOpponentSimilarity(side, name)));
+}
+
+/**
+ * Dry-run importing an .ics schedule as scheduled matches for a team
+ */
+export async function previewCalendarImport(teamId: number, content: string): Promise<CalendarImportPreview> {
+  const team = await getTeamById(teamId);
+  if (!team) {
+    throw new Error('Team not found');
+  }
+
+  const events = parseCalendarEvents(content);
+  if (events.length === 0) {
+    throw new Error('The calendar has no events');
+  }
+  if (events.length > MAX_CALENDAR_IMPORT_EVENTS) {
+    throw new Error(`Too many events (max ${MAX_CALENDAR_IMPORT_EVENTS})`);
+  }
+
+  const teamNames = await getTeamNames(team.id, team.displayName, team.slug);
+
+  // Registry names and aliases, for fuzzy matching names the registry doesn't know yet
+  const opponents = await getOpponents();
+  const opponentsByName = new Map<string, { id: number; name: string }>();
+  opponents.forEach(opponent => {
+    [opponent.name, ...opponent.aliases].forEach(name => opponentsByName.set(name, { id: opponent.id, name: opponent.name }));
+  });
+  const candidateNames = Array.from(opponentsByName.keys());
+
+  const seenRows = new Map<string, number>();
+  const rows: CalendarImportRow[] = [];
+
+  for (const [index, event] of events.entries()) {
+    const rowNumber = index + 1;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    let opponentName: string | null = null;
+    let isHome: boolean | null = null;
+    let opponentMatch: CalendarImportRow['opponentMatch'] = null;
+
+    if (!event.summary) {
+      errors.push('Event has no title');
+    } else {
+      const sides = splitEventSummary(event.summary);
+      if (!sides) {
+        errors.push(`Couldn't find the two teams in "${event.summary}"`);
+      } else {
+        // The side closer to the club team's names is ours
+        const homeSimilarity = teamSimilarity(sides.home, teamNames);
+        const awaySimilarity = teamSimilarity(sides.away, teamNames);
+        isHome = homeSimilarity >= awaySimilarity;
+        const importedName = isHome ? sides.away : sides.home;
+        if (Math.max(homeSimilarity, awaySimilarity) < 0.7) {
+          warnings.push(`Neither side of "${event.summary}" looks like ${team.displayName}; assuming ${team.displayName} is ${isHome ? 'home' : 'away'}`);
+        }
+
+        const aliased = await findOpponentByName(db, importedName);
+        const similar = aliased ? null : findBestOpponentMatch(importedName, candidateNames);
+        if (aliased) {
+          opponentMatch = { type: 'alias', opponentId: aliased.id, name: aliased.name, importedName, similarity: null };
+        } else if (similar) {
+          const opponent = opponentsByName.get(similar.name)!;
+          opponentMatch = { type: 'similar', opponentId: opponent.id, name: opponent.name, importedName, similarity: similar.similarity };
+          warnings.push(`Opponent "${importedName}" matched to existing opponent "${opponent.name}"`);
+        } else {
+          opponentMatch = { type: 'new', opponentId: null, name: importedName, importedName, similarity: null };
+          warnings.push(`"${importedName}" will be added as a new opponent`);
+        }
+        opponentName = opponentMatch.name;
+      }
+    }
+
+    if (!event.rawStart) {
+      errors.push('Event has no start date');
+    } else if (!event.date) {
+      errors.push(`Invalid start date: ${event.rawStart}`);
+    } else if (event.utcTime) {
+      warnings.push(`Kickoff ${event.time} is in UTC (the calendar has no time zone); check it before importing`);
+    }
+
+    let duplicate: CalendarImportRow['duplicate'] = null;
+    let duplicateOfRow: number | null = null;
+    if (opponentName && event.date) {
+      const existing = await findExistingMatch(team.id, opponentName, event.date);
+      if (existing) {
+        duplicate = { matchId: existing.id, opponentName: existing.opponentName, matchDate: existing.matchDate };
+      }
+
+      const key = `${event.date}|${normalizeOpponentName(opponentName)}`;
+      duplicateOfRow = seenRows.get(key) ?? null;
+      if (duplicateOfRow === null) {
+        seenRows.set(key, rowNumber);
+      }
+    }
+
+    rows.push({
+      rowNumber,
+      uid: event.uid,
+      summary: event.summary,
+      gameInfo: {
+        opponentName,
+        matchDate: event.date,
+        kickoffTime: event.time,
+        isHome,
+        venue: event.location,
+      },
+      opponentMatch,
+      errors,
+      warnings,
+      duplicate,
+      duplicateOfRow,
+    });
+  }
+
+  return {
+    teamId: team.id,
+    rows,
+    summary: {
+      total: rows.length,
+      valid: rows.filter(row => row.errors.length === 0).length,
+      invalid: rows.filter(row => row.errors.length > 0).length,
+      duplicates: rows.filter(row => row.duplicate || row.duplicateOfRow !== null).length,
+    },
+  };
+}
+
+function toScheduledMatchInput(teamId: number, row: CalendarImportRow, userId: number): MatchInput {
+  return {
+    teamId,
+    opponentId: row.opponentMatch?.opponentId ?? null,
+    opponentName: row.gameInfo.opponentName!,
+    matchDate: row.gameInfo.matchDate!,
+    kickoffTime: row.gameInfo.kickoffTime,
+    status: 'scheduled',
+    isHome: row.gameInfo.isHome,
+    venue: row.gameInfo.venue,
+    matchIdExternal: row.uid,
+    createdBy: userId,
+  };
+}
+
+/**
+ * Create scheduled matches for the chosen events of a previewed .ics import.
+ * Without rowNumbers, every valid event that isn't a duplicate is imported.
+ * Selected events must be valid; nothing is created if any of them has errors.
+ */
+export async function commitCalendarImport(
+  preview: Pick<CalendarImportPreview, 'teamId' | 'rows'>,
+  options: { userId: number; rowNumbers?: number[] }
+): Promise<{
+  created: Array<{ rowNumber: number; matchId: number }>;
+  rowErrors: Array<{ rowNumber: number; errors: string[] }>;
+}> {
+  let selected: CalendarImportRow[];
+  const rowErrors: Array<{ rowNumber: number; errors: string[] }> = [];
+
+  if (options.rowNumbers) {
+    const rowsByNumber = new Map(preview.rows.map(row => [row.rowNumber, row]));
+    selected = [];
+    for (const rowNumber of options.rowNumbers) {
+      const row = rowsByNumber.get(rowNumber);
+      if (!row) {
+        rowErrors.push({ rowNumber, errors: ['Event not found in file'] });
+      } else if (row.errors.length > 0) {
+        rowErrors.push({ rowNumber, errors: row.errors });
+      } else {
+        selected.push(row);
+      }
+    }
+  } else {
+    selected = preview.rows.filter(row =>
+      row.errors.length === 0 && !row.duplicate && row.duplicateOfRow === null
+    );
+  }
+
+  if (rowErrors.length > 0) {
+    return { created: [], rowErrors };
+  }
+
+  const ids = await createMatchesBulk(selected.map(row => toScheduledMatchInput(preview.teamId, row, options.userId)));
+  return {
+    created: selected.map((row, index) => ({ rowNumber: row.rowNumber, matchId: ids[index] })),
+    rowErrors: [],
+  };
+}
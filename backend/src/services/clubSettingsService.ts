@@ -0,0 +1,198 @@
+/**
+ * Club Settings Service
+ *
+ * Club-wide configuration stored as JSON per key in club_settings.
+ * Settings that feed computeMatchStats are cached in matchStatsService, so they are
+ * loaded at startup and re-applied whenever they change.
+ */
+
+import { db } from '../db/database.js';
+import {
+  DEFAULT_SPI_WEIGHTING,
+  getSpiWeighting,
+  setSpiWeighting,
+  type SpiWeighting,
+} from './matchStatsService.js';
+import { recomputeOutdatedMatchStats, type StatsRecomputeReport } from './statsRecomputeService.js';
+import {
+  DEFAULT_STAT_VALIDATION_RULES,
+  normalizeStatValidationRules,
+  validateStatValidationRules,
+  type StatValidationRule,
+} from './statValidationService.js';
+
+const SPI_WEIGHTING_KEY = 'spi_weighting';
+const STAT_VALIDATION_RULES_KEY = 'stat_validation_rules';
+const PLAYING_TIME_POLICY_KEY = 'playing_time_policy';
+
+/**
+ * Equal playing time policy: each player should get at least minSharePercent of the
+ * minutes in the matches they were in the squad for
+ */
+export interface PlayingTimePolicy {
+  minSharePercent: number;
+}
+
+export const DEFAULT_PLAYING_TIME_POLICY: PlayingTimePolicy = { minSharePercent: 50 };
+
+// Metrics that depend on the SPI weighting
+export const WEIGHTED_SPI_METRICS = ['spi (w)', 'opp spi (w)'];
+
+async function getSetting<T>(key: string): Promise<T | null> {
+  const row = await db
+    .selectFrom('club_settings')
+    .select('value_json')
+    .where('key', '=', key)
+    .executeTakeFirst();
+  return row ? JSON.parse(row.value_json) as T : null;
+}
+
+async function setSetting(key: string, value: unknown, userId: number | null): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .insertInto('club_settings')
+    .values({ key, value_json: JSON.stringify(value), updated_by: userId, updated_at: now })
+    .onConflict(oc => oc.column('key').doUpdateSet({ value_json: JSON.stringify(value), updated_by: userId, updated_at: now }))
+    .execute();
+}
+
+async function deleteSetting(key: string): Promise<void> {
+  await db.deleteFrom('club_settings').where('key', '=', key).execute();
+}
+
+/**
+ * Validate an SPI weighting from user input.
+ * Returns an error message, or null when valid.
+ */
+export function validateSpiWeighting(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'SPI weighting is required';
+  }
+  const { baseStringLength, bonusPerExtraPass } = input;
+  if (!Number.isInteger(baseStringLength) || baseStringLength < 3 || baseStringLength > 10) {
+    return 'baseStringLength must be a whole number from 3 to 10';
+  }
+  if (typeof bonusPerExtraPass !== 'number' || !Number.isFinite(bonusPerExtraPass) || bonusPerExtraPass < 0 || bonusPerExtraPass > 1) {
+    return 'bonusPerExtraPass must be a number from 0 to 1';
+  }
+  return null;
+}
+
+/**
+ * Load settings that computeMatchStats depends on (called after migrations)
+ */
+export async function loadClubSettings(): Promise<void> {
+  const weighting = await getSetting<SpiWeighting>(SPI_WEIGHTING_KEY);
+  setSpiWeighting(weighting && !validateSpiWeighting(weighting) ? weighting : DEFAULT_SPI_WEIGHTING);
+}
+
+/**
+ * The club's SPI weighting, and whether it is the default
+ */
+export function getSpiWeightingSetting(): { weighting: SpiWeighting; isDefault: boolean } {
+  const weighting = getSpiWeighting();
+  return {
+    weighting,
+    isDefault: weighting.baseStringLength === DEFAULT_SPI_WEIGHTING.baseStringLength
+      && weighting.bonusPerExtraPass === DEFAULT_SPI_WEIGHTING.bonusPerExtraPass,
+  };
+}
+
+/**
+ * Change the club's SPI weighting and recompute SPI (w) / Opp SPI (w) on every match.
+ * With dryRun, reports how stored values would change without saving anything.
+ * Callers must validate the weighting first.
+ */
+export async function updateSpiWeighting(
+  weighting: SpiWeighting,
+  options: { dryRun: boolean; userId: number | null }
+): Promise<StatsRecomputeReport> {
+  const normalized: SpiWeighting = {
+    baseStringLength: weighting.baseStringLength,
+    bonusPerExtraPass: weighting.bonusPerExtraPass,
+  };
+
+  // Save first so matches saved while the recompute runs already use the new weighting
+  if (!options.dryRun) {
+    await setSetting(SPI_WEIGHTING_KEY, normalized, options.userId);
+    setSpiWeighting(normalized);
+  }
+
+  return recomputeOutdatedMatchStats({
+    dryRun: options.dryRun,
+    includeCurrent: true,
+    metrics: WEIGHTED_SPI_METRICS,
+    spiWeighting: normalized,
+    userId: options.userId,
+  });
+}
+
+/**
+ * The club's stat validation rules, and whether they are the defaults
+ */
+export async function getStatValidationRules(): Promise<{ rules: StatValidationRule[]; isDefault: boolean }> {
+  const rules = await getSetting<StatValidationRule[]>(STAT_VALIDATION_RULES_KEY);
+  if (!rules || validateStatValidationRules(rules)) {
+    return { rules: DEFAULT_STAT_VALIDATION_RULES, isDefault: true };
+  }
+  return { rules, isDefault: false };
+}
+
+/**
+ * Replace the club's stat validation rules.
+ * Callers must validate the rules first.
+ */
+export async function updateStatValidationRules(
+  rules: StatValidationRule[],
+  userId: number | null
+): Promise<StatValidationRule[]> {
+  const normalized = normalizeStatValidationRules(rules);
+  await setSetting(STAT_VALIDATION_RULES_KEY, normalized, userId);
+  return normalized;
+}
+
+/**
+ * Go back to DEFAULT_STAT_VALIDATION_RULES
+ */
+export async function resetStatValidationRules(): Promise<void> {
+  await deleteSetting(STAT_VALIDATION_RULES_KEY);
+}
+
+/**
+ * Validate a playing time policy from user input.
+ * Returns an error message, or null when valid.
+ */
+export function validatePlayingTimePolicy(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Playing time policy is required';
+  }
+  const { minSharePercent } = input;
+  if (typeof minSharePercent !== 'number' || !Number.isFinite(minSharePercent) || minSharePercent < 0 || minSharePercent > 100) {
+    return 'minSharePercent must be a number from 0 to 100';
+  }
+  return null;
+}
+
+/**
+ * The club's playing time policy, and whether it is the default
+ */
+export async function getPlayingTimePolicy(): Promise<{ policy: PlayingTimePolicy; isDefault: boolean }> {
+  const policy = await getSetting<PlayingTimePolicy>(PLAYING_TIME_POLICY_KEY);
+  if (!policy || validatePlayingTimePolicy(policy)) {
+    return { policy: DEFAULT_PLAYING_TIME_POLICY, isDefault: true };
+  }
+  return { policy, isDefault: false };
+}
+
+/**
+ * Change the club's playing time policy.
+ * Callers must validate the policy first.
+ */
+export async function updatePlayingTimePolicy(
+  policy: PlayingTimePolicy,
+  userId: number | null
+): Promise<PlayingTimePolicy> {
+  const normalized: PlayingTimePolicy = { minSharePercent: policy.minSharePercent };
+  await setSetting(PLAYING_TIME_POLICY_KEY, normalized, userId);
+  return normalized;
+}
@@ -0,0 +1,629 @@
+/**
+ * Competition Service
+ *
+ * Competitions (leagues, cups, tournaments and friendlies) in a season, the club teams and
+ * registry opponents taking part, and standings computed from the matches linked to them
+ * through matches.competition_id. Linked matches keep the competition's type label in
+ * competition_type ("League", "Cup", ...) so filters and exports reading it still work.
+ */
+
+import type { Kysely, Transaction } from 'kysely';
+import { sql } from 'kysely';
+import { db } from '../db/database.js';
+import type { CompetitionRow, Database } from '../db/schema.js';
+import { getMatchOutcome, toStatNumber } from '../utils/matchOutcome.js';
+import { normalizeOpponentName } from '../utils/opponentMatching.js';
+import { ensureBaselineRevision, recordMatchRevisionsForRows } from './matchRevisionService.js';
+
+type Executor = Kysely<Database> | Transaction<Database>;
+
+export const COMPETITION_TYPES = ['league', 'cup', 'tournament', 'friendly'] as const;
+
+export type CompetitionType = typeof COMPETITION_TYPES[number];
+
+export interface PointsRules {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
+export const DEFAULT_POINTS_RULES: PointsRules = { win: 3, draw: 1, loss: 0 };
+
+/**
+ * A club team (teamId) or a registry opponent (opponentId) taking part in a competition
+ */
+export interface CompetitionParticipant {
+  teamId: number | null;
+  opponentId: number | null;
+  name: string;
+}
+
+export interface Competition {
+  id: number;
+  name: string;
+  type: CompetitionType;
+  seasonId: number | null;
+  seasonName: string | null;
+  pointsRules: PointsRules;
+  participants: CompetitionParticipant[];
+  matchCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CompetitionInput {
+  name: string;
+  type: CompetitionType;
+  seasonId?: number | null;
+  pointsRules?: Partial<PointsRules>;
+  /** Replaces the participating club teams */
+  teamIds?: number[];
+  /** Replaces the participating opponents */
+  opponentIds?: number[];
+}
+
+export interface StandingsRow {
+  position: number;
+  teamId: number | null;
+  opponentId: number | null;
+  name: string;
+  isClubTeam: boolean;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+}
+
+export interface Standings {
+  competition: Competition;
+  rows: StandingsRow[];
+}
+
+function toTimestampString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Label stored in matches.competition_type for a competition type ("league" -> "League")
+ */
+export function getCompetitionTypeLabel(type: CompetitionType): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+/**
+ * Best guess at a competition type from a free-text competition name or type
+ * ("Spring League", "State Cup", "Memorial Day Showcase", "Scrimmage")
+ */
+export function inferCompetitionType(text: string): CompetitionType {
+  const lower = text.toLowerCase();
+  if (lower.includes('friendly') || lower.includes('scrimmage')) return 'friendly';
+  if (lower.includes('cup')) return 'cup';
+  if (lower.includes('tournament') || lower.includes('showcase') || lower.includes('festival')) return 'tournament';
+  return 'league';
+}
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(id => Number.isInteger(id));
+}
+
+/**
+ * Validate competition details from user input.
+ * With partial, only the fields present are checked (for updates).
+ * Returns an error message, or null when valid.
+ */
+export function validateCompetitionInput(input: any, options?: { partial?: boolean }): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Competition details are required';
+  }
+  if (!options?.partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'name is required';
+    }
+  }
+  if (!options?.partial || input.type !== undefined) {
+    if (!COMPETITION_TYPES.includes(input.type)) {
+      return `type must be one of: ${COMPETITION_TYPES.join(', ')}`;
+    }
+  }
+  if (input.seasonId !== undefined && input.seasonId !== null && !Number.isInteger(input.seasonId)) {
+    return 'seasonId must be a season ID';
+  }
+  if (input.pointsRules !== undefined) {
+    if (!input.pointsRules || typeof input.pointsRules !== 'object') {
+      return 'pointsRules must be an object';
+    }
+    for (const key of ['win', 'draw', 'loss'] as const) {
+      const points = input.pointsRules[key];
+      if (points !== undefined && !Number.isInteger(points)) {
+        return `pointsRules.${key} must be a whole number`;
+      }
+    }
+  }
+  for (const field of ['teamIds', 'opponentIds']) {
+    if (input[field] !== undefined && !isIdList(input[field])) {
+      return `${field} must be a list of IDs`;
+    }
+  }
+  return null;
+}
+
+async function toCompetitions(executor: Executor, rows: CompetitionRow[]): Promise<Competition[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map(row => row.id);
+  const seasonIds = [...new Set(rows.map(row => row.season_id).filter((id): id is number => id !== null))];
+
+  const [participants, counts, seasons] = await Promise.all([
+    executor
+      .selectFrom('competition_participants')
+      .leftJoin('teams', 'competition_participants.team_id', 'teams.id')
+      .leftJoin('opponents', 'competition_participants.opponent_id', 'opponents.id')
+      .select([
+        'competition_participants.competition_id',
+        'competition_participants.team_id',
+        'competition_participants.opponent_id',
+        'teams.display_name as team_name',
+        'opponents.name as opponent_name',
+      ])
+      .where('competition_participants.competition_id', 'in', ids)
+      .execute(),
+    executor
+      .selectFrom('matches')
+      .select(['competition_id', sql<string>`count(*)`.as('match_count')])
+      .where('competition_id', 'in', ids)
+      .groupBy('competition_id')
+      .execute(),
+    seasonIds.length > 0
+      ? executor.selectFrom('seasons').select(['id', 'name']).where('id', 'in', seasonIds).execute()
+      : Promise.resolve([]),
+  ]);
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    type: row.competition_type,
+    seasonId: row.season_id,
+    seasonName: seasons.find(season => season.id === row.season_id)?.name ?? null,
+    pointsRules: { win: row.points_win, draw: row.points_draw, loss: row.points_loss },
+    participants: participants
+      .filter(participant => participant.competition_id === row.id)
+      .map(participant => ({
+        teamId: participant.team_id,
+        opponentId: participant.opponent_id,
+        name: participant.team_name ?? participant.opponent_name ?? '',
+      }))
+      // Club teams first, then opponents, alphabetically
+      .sort((a, b) => Number(a.teamId === null) - Number(b.teamId === null) || a.name.localeCompare(b.name)),
+    matchCount: Number(counts.find(count => count.competition_id === row.id)?.match_count ?? 0),
+    createdAt: toTimestampString(row.created_at),
+    updatedAt: toTimestampString(row.updated_at),
+  }));
+}
+
+/**
+ * List competitions, newest season first.
+ * teamId limits to competitions that club team takes part in.
+ */
+export async function getCompetitions(filters?: {
+  seasonId?: number;
+  teamId?: number;
+  type?: CompetitionType;
+}): Promise<Competition[]> {
+  let query = db.selectFrom('competitions').selectAll('competitions');
+
+  if (filters?.seasonId) {
+    query = query.where('competitions.season_id', '=', filters.seasonId);
+  }
+  if (filters?.type) {
+    query = query.where('competitions.competition_type', '=', filters.type);
+  }
+  if (filters?.teamId) {
+    query = query.where('competitions.id', 'in', db
+      .selectFrom('competition_participants')
+      .select('competition_id')
+      .where('team_id', '=', filters.teamId));
+  }
+
+  const rows = await query
+    .orderBy(sql`competitions.season_id desc nulls last`)
+    .orderBy('competitions.name')
+    .execute();
+  return toCompetitions(db, rows);
+}
+
+export async function getCompetitionById(competitionId: number, executor: Executor = db): Promise<Competition | null> {
+  const row = await executor
+    .selectFrom('competitions')
+    .selectAll()
+    .where('id', '=', competitionId)
+    .executeTakeFirst();
+  if (!row) return null;
+  const [competition] = await toCompetitions(executor, [row]);
+  return competition;
+}
+
+async function setParticipants(
+  trx: Transaction<Database>,
+  competitionId: number,
+  teamIds: number[] | undefined,
+  opponentIds: number[] | undefined
+): Promise<void> {
+  if (teamIds !== undefined) {
+    const ids = [...new Set(teamIds)];
+    const found = ids.length > 0 ? await trx.selectFrom('teams').select('id').where('id', 'in', ids).execute() : [];
+    const missing = ids.filter(id => !found.some(team => team.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Unknown team ID(s): ${missing.join(', ')}`);
+    }
+    await trx
+      .deleteFrom('competition_participants')
+      .where('competition_id', '=', competitionId)
+      .where('team_id', 'is not', null)
+      .execute();
+    if (ids.length > 0) {
+      await trx
+        .insertInto('competition_participants')
+        .values(ids.map(teamId => ({ competition_id: competitionId, team_id: teamId, opponent_id: null })))
+        .execute();
+    }
+  }
+
+  if (opponentIds !== undefined) {
+    const ids = [...new Set(opponentIds)];
+    const found = ids.length > 0 ? await trx.selectFrom('opponents').select('id').where('id', 'in', ids).execute() : [];
+    const missing = ids.filter(id => !found.some(opponent => opponent.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Unknown opponent ID(s): ${missing.join(', ')}`);
+    }
+    await trx
+      .deleteFrom('competition_participants')
+      .where('competition_id', '=', competitionId)
+      .where('opponent_id', 'is not', null)
+      .execute();
+    if (ids.length > 0) {
+      await trx
+        .insertInto('competition_participants')
+        .values(ids.map(opponentId => ({ competition_id: competitionId, team_id: null, opponent_id: opponentId })))
+        .execute();
+    }
+  }
+}
+
+/**
+ * Create a competition. Callers must validate the input first.
+ */
+export async function createCompetition(input: CompetitionInput): Promise<Competition> {
+  const pointsRules = { ...DEFAULT_POINTS_RULES, ...input.pointsRules };
+  const competitionId = await db.transaction().execute(async (trx) => {
+    const now = new Date().toISOString();
+    const { id } = await trx
+      .insertInto('competitions')
+      .values({
+        name: input.name.trim(),
+        competition_type: input.type,
+        season_id: input.seasonId ?? null,
+        points_win: pointsRules.win,
+        points_draw: pointsRules.draw,
+        points_loss: pointsRules.loss,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow();
+    await setParticipants(trx, id, input.teamIds, input.opponentIds);
+    return id;
+  });
+
+  return (await getCompetitionById(competitionId))!;
+}
+
+/**
+ * Update a competition. A new type is written to its matches' competition_type
+ * (with a match revision for each). Callers must validate the input first.
+ */
+export async function updateCompetition(
+  competitionId: number,
+  updates: Partial<CompetitionInput>,
+  userId: number
+): Promise<Competition> {
+  await db.transaction().execute(async (trx) => {
+    const competition = await trx.selectFrom('competitions').selectAll().where('id', '=', competitionId).executeTakeFirst();
+    if (!competition) {
+      throw new Error('Competition not found');
+    }
+
+    const now = new Date().toISOString();
+    await trx
+      .updateTable('competitions')
+      .set({
+        name: updates.name !== undefined ? updates.name.trim() : competition.name,
+        competition_type: updates.type ?? competition.competition_type,
+        season_id: updates.seasonId !== undefined ? updates.seasonId : competition.season_id,
+        points_win: updates.pointsRules?.win ?? competition.points_win,
+        points_draw: updates.pointsRules?.draw ?? competition.points_draw,
+        points_loss: updates.pointsRules?.loss ?? competition.points_loss,
+        updated_at: now,
+      })
+      .where('id', '=', competitionId)
+      .execute();
+    await setParticipants(trx, competitionId, updates.teamIds, updates.opponentIds);
+
+    if (updates.type && updates.type !== competition.competition_type) {
+      const label = getCompetitionTypeLabel(updates.type);
+      const matches = await trx
+        .selectFrom('matches')
+        .select('id')
+        .where('competition_id', '=', competitionId)
+        .where(eb => eb.or([eb('competition_type', 'is', null), eb('competition_type', '!=', label)]))
+        .execute();
+      if (matches.length > 0) {
+        for (const match of matches) {
+          await ensureBaselineRevision(trx, match.id);
+        }
+        const rows = await trx
+          .updateTable('matches')
+          .set({ competition_type: label, updated_at: now, last_modified_by: userId })
+          .where('id', 'in', matches.map(match => match.id))
+          .returningAll()
+          .execute();
+        await recordMatchRevisionsForRows(trx, rows, 'update');
+      }
+    }
+  });
+
+  return (await getCompetitionById(competitionId))!;
+}
+
+/**
+ * Delete a competition. Its matches are kept (unlinked, with their competition_type).
+ */
+export async function deleteCompetition(competitionId: number): Promise<void> {
+  const deleted = await db
+    .deleteFrom('competitions')
+    .where('id', '=', competitionId)
+    .executeTakeFirst();
+  if (Number(deleted.numDeletedRows) === 0) {
+    throw new Error('Competition not found');
+  }
+}
+
+/**
+ * The competition a match is saved under (null when none is given).
+ * Throws if competitionId does not exist.
+ */
+export async function resolveMatchCompetition(
+  executor: Executor,
+  competitionId: number | null | undefined
+): Promise<{ id: number; type: CompetitionType } | null> {
+  if (!competitionId) return null;
+  const competition = await executor
+    .selectFrom('competitions')
+    .select(['id', 'competition_type'])
+    .where('id', '=', competitionId)
+    .executeTakeFirst();
+  if (!competition) {
+    throw new Error('Competition not found');
+  }
+  return { id: competition.id, type: competition.competition_type };
+}
+
+/**
+ * Make sure a linked match's team and opponent are listed as participants
+ */
+export async function addMatchParticipants(
+  executor: Executor,
+  competitionId: number,
+  teamId: number | null,
+  opponentId: number | null
+): Promise<void> {
+  if (teamId) {
+    await executor
+      .insertInto('competition_participants')
+      .values({ competition_id: competitionId, team_id: teamId, opponent_id: null })
+      .onConflict(oc => oc.columns(['competition_id', 'team_id']).doNothing())
+      .execute();
+  }
+  if (opponentId) {
+    await executor
+      .insertInto('competition_participants')
+      .values({ competition_id: competitionId, team_id: null, opponent_id: opponentId })
+      .onConflict(oc => oc.columns(['competition_id', 'opponent_id']).doNothing())
+      .execute();
+  }
+}
+
+function parseStats(statsJson: string | null): Record<string, any> {
+  if (!statsJson) return {};
+  try {
+    return JSON.parse(statsJson) || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Standings table for a competition, from its linked matches (each one counts for the
+ * club team and for the opponent). Every participant is listed, including those without games.
+ * Fixtures not played yet, cancelled matches and matches without a score or result are not counted.
+ * Ordered by points, then goal difference, then goals scored.
+ * Returns null if the competition does not exist.
+ */
+export async function getStandings(competitionId: number): Promise<Standings | null> {
+  const competition = await getCompetitionById(competitionId);
+  if (!competition) return null;
+
+  const matches = await db
+    .selectFrom('matches')
+    .leftJoin('teams', 'matches.team_id', 'teams.id')
+    .select([
+      'matches.team_id',
+      'matches.opponent_id',
+      'matches.opponent_name',
+      'matches.result',
+      'matches.stats_json',
+      'teams.display_name as team_name',
+    ])
+    .where('matches.competition_id', '=', competitionId)
+    .where('matches.status', '=', 'played')
+    .execute();
+
+  const rows = new Map<string, StandingsRow>();
+  const getRow = (teamId: number | null, opponentId: number | null, name: string): StandingsRow => {
+    const key = teamId ? `team:${teamId}` : opponentId ? `opponent:${opponentId}` : `name:${normalizeOpponentName(name)}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        position: 0,
+        teamId,
+        opponentId,
+        name,
+        isClubTeam: teamId !== null,
+        played: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        points: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const participant of competition.participants) {
+    getRow(participant.teamId, participant.opponentId, participant.name);
+  }
+
+  const { pointsRules } = competition;
+  const addResult = (row: StandingsRow, outcome: 'W' | 'D' | 'L', goalsFor: number, goalsAgainst: number) => {
+    row.played++;
+    row.goalsFor += goalsFor;
+    row.goalsAgainst += goalsAgainst;
+    if (outcome === 'W') {
+      row.wins++;
+      row.points += pointsRules.win;
+    } else if (outcome === 'D') {
+      row.draws++;
+      row.points += pointsRules.draw;
+    } else {
+      row.losses++;
+      row.points += pointsRules.loss;
+    }
+  };
+
+  for (const match of matches) {
+    const stats = parseStats(match.stats_json);
+    const goalsFor = toStatNumber(stats.goalsFor);
+    const goalsAgainst = toStatNumber(stats.goalsAgainst);
+    const outcome = getMatchOutcome(match.result ?? stats.result, goalsFor, goalsAgainst);
+    if (!outcome) continue;
+
+    if (match.team_id) {
+      addResult(getRow(match.team_id, null, match.team_name ?? 'Unknown team'), outcome, goalsFor ?? 0, goalsAgainst ?? 0);
+    }
+    const opponentOutcome = outcome === 'W' ? 'L' : outcome === 'L' ? 'W' : 'D';
+    addResult(getRow(null, match.opponent_id, match.opponent_name), opponentOutcome, goalsAgainst ?? 0, goalsFor ?? 0);
+  }
+
+  const standings = [...rows.values()]
+    .map(row => ({ ...row, goalDifference: row.goalsFor - row.goalsAgainst }))
+    .sort((a, b) =>
+      b.points - a.points ||
+      b.goalDifference - a.goalDifference ||
+      b.goalsFor - a.goalsFor ||
+      a.name.localeCompare(b.name)
+    )
+    .map((row, index) => ({ ...row, position: index + 1 }));
+
+  return { competition, rows: standings };
+}
+
+/**
+ * Create competitions for matches that aren't linked to one yet: one per distinct
+ * competition name (the "Competition" stat, else competition_type) and team season,
+ * with the teams and opponents that played in it. Reuses a competition with the same
+ * name and season. Returns the number of competitions created.
+ */
+export async function linkMatchesToCompetitions(executor: Executor = db): Promise<number> {
+  const matches = await executor
+    .selectFrom('matches')
+    .leftJoin('teams', 'matches.team_id', 'teams.id')
+    .select([
+      'matches.id',
+      'matches.team_id',
+      'matches.opponent_id',
+      'matches.competition_type',
+      'matches.stats_json',
+      'teams.season_id',
+    ])
+    .where('matches.competition_id', 'is', null)
+    .orderBy('matches.match_date')
+    .orderBy('matches.id')
+    .execute();
+
+  const groups = new Map<string, { name: string; type: CompetitionType; seasonId: number | null; matches: typeof matches }>();
+  for (const match of matches) {
+    const statsName = parseStats(match.stats_json)['Competition'];
+    const name = (typeof statsName === 'string' && statsName.trim() ? statsName : match.competition_type || '')
+      .trim()
+      .replace(/\s+/g, ' ');
+    if (!name) continue;
+
+    const key = `${name.toLowerCase()}|${match.season_id ?? ''}`;
+    const group = groups.get(key);
+    if (group) {
+      group.matches.push(match);
+    } else {
+      groups.set(key, {
+        name,
+        type: inferCompetitionType(match.competition_type || name),
+        seasonId: match.season_id ?? null,
+        matches: [match],
+      });
+    }
+  }
+
+  let created = 0;
+  for (const group of groups.values()) {
+    let competitionQuery = executor
+      .selectFrom('competitions')
+      .select('id')
+      .where(sql<string>`lower(name)`, '=', group.name.toLowerCase());
+    competitionQuery = group.seasonId === null
+      ? competitionQuery.where('season_id', 'is', null)
+      : competitionQuery.where('season_id', '=', group.seasonId);
+    let competitionId = (await competitionQuery.executeTakeFirst())?.id;
+
+    if (!competitionId) {
+      const now = new Date().toISOString();
+      competitionId = (await executor
+        .insertInto('competitions')
+        .values({
+          name: group.name,
+          competition_type: group.type,
+          season_id: group.seasonId,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()).id;
+      created++;
+    }
+
+    for (const match of group.matches) {
+      await addMatchParticipants(executor, competitionId, match.team_id, match.opponent_id);
+    }
+    await executor
+      .updateTable('matches')
+      .set({ competition_id: competitionId })
+      .where('id', 'in', group.matches.map(match => match.id))
+      .execute();
+  }
+
+  return created;
+}
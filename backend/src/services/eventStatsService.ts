@@ -0,0 +1,329 @@
+/**
+ * Event Stats Service
+ *
+ * Derives a match's stats_json from its logged game_events.
+ * Events are aggregated into RawMatchStats fields (per half or quarter, JOGA vs opponent),
+ * plus xG/xGA from located shots (see xgService) and possession by third from
+ * located events (see heatmapService), run through computeMatchStats,
+ * and stored with stats_source = 'events'.
+ */
+
+import { db } from '../db/database.js';
+import { getMatchById, getMatchEvents } from './matchService.js';
+import {
+  computeMatchStats,
+  getPeriodFieldNames,
+  MAX_PERIODS,
+  normalizeFieldNames,
+  STATS_FORMULA_VERSION,
+  type RawMatchStats,
+} from './matchStatsService.js';
+import { DEFAULT_PERIOD_COUNT, getPeriodCount } from './matchFormatService.js';
+import { ensureBaselineRevision, recordMatchRevision } from './matchRevisionService.js';
+import { computeMatchXG } from './xgService.js';
+import { computePossessionZones } from './heatmapService.js';
+import { normalizeEventType } from '../utils/eventTypes.js';
+
+/**
+ * Minimal event shape needed for aggregation (matches getMatchEvents output)
+ */
+export interface AggregatableEvent {
+  id: number;
+  eventType: string;
+  period: number | null;
+  isJogaTeam: boolean;
+}
+
+/**
+ * Stat families that can be derived from events.
+ * Each family maps to For/Against fields for each period (halves or quarters) and the full game.
+ */
+interface StatFamily {
+  eventTypes: string[];
+  forPrefix: string;
+  againstPrefix: string;
+}
+
+const STAT_FAMILIES: Record<string, StatFamily> = {
+  goals: { eventTypes: ['goal'], forPrefix: 'goalsFor', againstPrefix: 'goalsAgainst' },
+  shots: { eventTypes: ['shot'], forPrefix: 'shotsFor', againstPrefix: 'shotsAgainst' },
+  passes: { eventTypes: ['pass'], forPrefix: 'passesFor', againstPrefix: 'passesAgainst' },
+  corners: { eventTypes: ['corner'], forPrefix: 'cornersFor', againstPrefix: 'cornersAgainst' },
+  freeKicks: { eventTypes: ['free_kick'], forPrefix: 'freeKicksFor', againstPrefix: 'freeKicksAgainst' },
+};
+
+// Goals and shots are logged together (a goal is a shot that went in, Veo-style),
+// so if either is logged the other is assumed to be tracked as well (0-0 with shots is valid)
+const LINKED_FAMILIES: Record<string, string[]> = {
+  goals: ['shots'],
+  shots: ['goals'],
+};
+
+function getFamilyForEventType(eventType: string): string | null {
+  const normalized = normalizeEventType(eventType);
+  for (const [family, def] of Object.entries(STAT_FAMILIES)) {
+    if (def.eventTypes.includes(normalized)) {
+      return family;
+    }
+  }
+  return null;
+}
+
+/**
+ * All stats_json field names that belong to a family (used to clear stale values)
+ */
+function getFamilyFieldNames(family: string): string[] {
+  const def = STAT_FAMILIES[family];
+  return [def.forPrefix, def.againstPrefix].flatMap(prefix => [
+    prefix,
+    ...getPeriodFieldNames(prefix, 2),
+    ...getPeriodFieldNames(prefix, MAX_PERIODS),
+  ]);
+}
+
+/**
+ * Aggregate game events into RawMatchStats fields.
+ *
+ * - Events are counted per period for options.periods periods (2 = halves, 4 = quarters);
+ *   later periods fold into the last one (extra time folds into the 2nd half or 4th quarter)
+ * - If any event in a family has no period, only full-game totals are produced for that family
+ *   (period fields would otherwise not add up to the full-game value)
+ * - Families with no logged events are omitted so they don't overwrite existing values with 0,
+ *   unless one of their event types is listed in includeEventTypes (e.g. the last corner was deleted)
+ */
+export function aggregateEventsToRawStats(
+  events: AggregatableEvent[],
+  options?: { includeEventTypes?: string[]; periods?: number }
+): {
+  rawStats: Partial<RawMatchStats>;
+  families: string[];
+  usedEventIds: number[];
+} {
+  const periodCount = options?.periods ?? DEFAULT_PERIOD_COUNT;
+  // One count per period, plus a last slot for events with no period recorded
+  const emptyCounts = () => ({
+    for: new Array<number>(periodCount + 1).fill(0),
+    against: new Array<number>(periodCount + 1).fill(0),
+  });
+  const counts: Record<string, { for: number[]; against: number[] }> = {};
+  const usedEventIds: number[] = [];
+
+  for (const event of events) {
+    const family = getFamilyForEventType(event.eventType);
+    if (!family) continue;
+
+    if (!counts[family]) {
+      counts[family] = emptyCounts();
+    }
+
+    // Index 0..periodCount-1 = period, periodCount = no period recorded
+    const periodIndex = event.period === null || event.period === undefined
+      ? periodCount
+      : Math.min(Math.max(event.period, 1), periodCount) - 1;
+    const side = event.isJogaTeam ? 'for' : 'against';
+    counts[family][side][periodIndex] += 1;
+    usedEventIds.push(event.id);
+  }
+
+  for (const eventType of options?.includeEventTypes || []) {
+    const family = getFamilyForEventType(eventType);
+    if (family && !counts[family]) {
+      counts[family] = emptyCounts();
+    }
+  }
+
+  // Pull in linked families so e.g. a match with shots but no goals records 0 goals
+  for (const family of Object.keys(counts)) {
+    for (const linked of LINKED_FAMILIES[family] || []) {
+      if (!counts[linked]) {
+        counts[linked] = emptyCounts();
+      }
+    }
+  }
+
+  const rawStats: Record<string, number> = {};
+  for (const [family, familyCounts] of Object.entries(counts)) {
+    const def = STAT_FAMILIES[family];
+    // Linked families have no events of their own, so check every linked family for missing periods
+    const familyGroup = [family, ...(LINKED_FAMILIES[family] || [])];
+    const hasUnassigned = familyGroup.some(f => counts[f] && (counts[f].for[periodCount] > 0 || counts[f].against[periodCount] > 0));
+
+    const sides: Array<[string, number[]]> = [
+      [def.forPrefix, familyCounts.for],
+      [def.againstPrefix, familyCounts.against],
+    ];
+    for (const [prefix, sideCounts] of sides) {
+      if (hasUnassigned) {
+        rawStats[prefix] = sideCounts.reduce((sum, count) => sum + count, 0);
+      } else {
+        getPeriodFieldNames(prefix, periodCount).forEach((field, i) => {
+          rawStats[field] = sideCounts[i];
+        });
+      }
+    }
+  }
+
+  return {
+    rawStats: rawStats as Partial<RawMatchStats>,
+    families: Object.keys(counts),
+    usedEventIds,
+  };
+}
+
+/**
+ * Normalize a list of manual field names to the same keys normalizeFieldNames produces
+ */
+export function normalizeManualFields(manualFields: unknown): Set<string> {
+  if (!Array.isArray(manualFields)) {
+    return new Set();
+  }
+  const asObject: Record<string, boolean> = {};
+  manualFields.forEach(field => {
+    if (typeof field === 'string' && field.trim()) {
+      asObject[field] = true;
+    }
+  });
+  return new Set(Object.keys(normalizeFieldNames(asObject)));
+}
+
+/**
+ * Derive a match's stats from its game events and store them.
+ *
+ * Existing stats_json values are kept for families that have no events.
+ * Fields listed in stats_manual_fields are never overwritten.
+ * All aggregated events are flagged is_processed with processed_at = now.
+ */
+export async function deriveMatchStatsFromEvents(
+  matchId: number,
+  options?: { userId?: number | null; includeEventTypes?: string[] }
+) {
+  const match = await getMatchById(matchId);
+  if (!match) {
+    throw new Error('Match not found');
+  }
+
+  const events = await getMatchEvents(matchId);
+  const { rawStats: eventStats, families, usedEventIds } = aggregateEventsToRawStats(events, {
+    includeEventTypes: options?.includeEventTypes,
+    periods: getPeriodCount(match.format),
+  });
+
+  const manualFields = normalizeManualFields(match.statsManualFields);
+
+  // Start from the existing stats (normalized so legacy keys line up with event keys)
+  const existingStats = normalizeFieldNames(match.statsJson || {});
+  const mergedStats: Record<string, any> = { ...existingStats };
+
+  // Clear stale values for derived families so periods and full-game totals don't conflict
+  const derivedFields: string[] = [];
+  const skippedManualFields: string[] = [];
+  for (const family of families) {
+    for (const field of getFamilyFieldNames(family)) {
+      if (!manualFields.has(field)) {
+        delete mergedStats[field];
+      }
+    }
+  }
+  // xG/xGA from shot locations. A side's total is only used when every one of its
+  // shots has a location, otherwise the sum would understate the real value.
+  const xgSummary = computeMatchXG(events);
+  if (xgSummary.shots.length > 0) {
+    if (xgSummary.shotsWithoutLocationFor === 0) {
+      eventStats.xG = xgSummary.xG;
+    }
+    if (xgSummary.shotsWithoutLocationAgainst === 0) {
+      eventStats.xGA = xgSummary.xGA;
+    }
+  }
+  // Possess % by third from located on-ball events (once enough are located)
+  const possessionZones = computePossessionZones(events);
+  if (possessionZones) {
+    Object.assign(eventStats, possessionZones);
+  }
+
+  for (const [field, value] of Object.entries(eventStats)) {
+    if (manualFields.has(field)) {
+      skippedManualFields.push(field);
+      continue;
+    }
+    mergedStats[field] = value;
+    derivedFields.push(field);
+  }
+
+  const normalizedStats = normalizeFieldNames({
+    ...mergedStats,
+    teamId: match.teamId ?? undefined,
+    opponentName: match.opponentName,
+    matchDate: match.matchDate,
+  });
+  const computedStats = computeMatchStats(normalizedStats);
+  const finalStatsJson = {
+    ...mergedStats,
+    ...computedStats,
+  };
+
+  const now = new Date().toISOString();
+
+  await db.transaction().execute(async (trx) => {
+    const updateData: any = {
+      stats_json: JSON.stringify(finalStatsJson),
+      stats_source: 'events',
+      stats_computed_at: now,
+      stats_formula_version: STATS_FORMULA_VERSION,
+      updated_at: now,
+    };
+    if (options?.userId) {
+      updateData.last_modified_by = options.userId;
+    }
+
+    await ensureBaselineRevision(trx, matchId);
+    await trx
+      .updateTable('matches')
+      .set(updateData)
+      .where('id', '=', matchId)
+      .execute();
+    await recordMatchRevision(trx, matchId, 'update', options?.userId);
+
+    if (usedEventIds.length > 0) {
+      await trx
+        .updateTable('game_events')
+        .set({ is_processed: 1, processed_at: now })
+        .where('id', 'in', usedEventIds)
+        .execute();
+    }
+  });
+
+  return {
+    match: await getMatchById(matchId),
+    derivedFields,
+    skippedManualFields,
+    eventsProcessed: usedEventIds.length,
+  };
+}
+
+/**
+ * Whether a match's stats should be re-derived automatically when its events change.
+ * Only matches with no stats yet, or whose stats already come from events, are updated
+ * automatically so hand-typed stats are never replaced by a single logged event.
+ */
+export function shouldAutoDeriveStats(match: { statsJson: any; statsSource: string | null }): boolean {
+  if (!match.statsJson || Object.keys(match.statsJson).length === 0) {
+    return true;
+  }
+  return match.statsSource === 'events';
+}
+
+/**
+ * Re-derive a match's stats after its events changed, if its stats are event-driven.
+ * Pass the event types of removed or retyped events as includeEventTypes so their
+ * families are recounted even when no events of that type remain.
+ */
+export async function refreshEventDerivedStats(
+  matchId: number,
+  options?: { userId?: number | null; includeEventTypes?: string[] }
+): Promise<void> {
+  const match = await getMatchById(matchId);
+  if (match && shouldAutoDeriveStats(match)) {
+    await deriveMatchStatsFromEvents(matchId, options);
+  }
+}
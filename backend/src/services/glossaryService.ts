@@ -1,5 +1,6 @@
 import { db } from '../db/database.js';
 import { fetchColumnMetadata } from './sheetsService.js';
+import { getSpiWeighting, getSpiStringMultiplier } from './matchStatsService.js';
 
 // Type for column metadata (matches what fetchColumnMetadata returns)
 export type ColumnMetadata = Record<string, any>;
@@ -29,6 +30,45 @@ function normalizeCategoryList(categoryRaw: string): string[] {
     .map((c) => (c.toLowerCase() === 'other' ? 'Game Info' : c));
 }
 
+/**
+ * Definitions for metrics computed by the app rather than the Glossary sheet.
+ * Built from the current club settings so the wording always matches how values are computed;
+ * a row with the same name in metric_definitions takes precedence.
+ */
+function getBuiltInMetricDefinitions(): MetricDefinition[] {
+  const { baseStringLength, bonusPerExtraPass } = getSpiWeighting();
+  const bonusPercent = Math.round(bonusPerExtraPass * 1000) / 10;
+  // Pass strings are tracked up to 10 passes
+  const exampleLength = Math.min(baseStringLength + 2, 10);
+  const weightingNote =
+    `Each pass beyond ${baseStringLength} in a string adds ${bonusPercent}% to that string's weight ` +
+    `(a ${exampleLength}-pass string counts ×${getSpiStringMultiplier(exampleLength).toFixed(2)}). ` +
+    'The weighting is configured per club in Settings.';
+
+  const spiDefinition = (metricName: string, side: 'team' | 'opponent'): MetricDefinition => ({
+    metric_name: metricName,
+    category: 'JOGA Metrics',
+    description: side === 'team'
+      ? 'Sustained Possession Index, weighted so longer pass strings count for more.'
+      : "Opponent's Sustained Possession Index, weighted so longer pass strings count for more.",
+    units: '%',
+    calculation:
+      'Sum of (passes in n-pass strings × weight) ÷ total passes × 100, ' +
+      `where weight = 1 + max(0, n − ${baseStringLength}) × ${bonusPerExtraPass}`,
+    notes: weightingNote,
+    example: null,
+    data_type: 'number',
+    availability: null,
+    source: 'system',
+  });
+
+  return [spiDefinition('SPI (w)', 'team'), spiDefinition('Opp SPI (w)', 'opponent')];
+}
+
+function hasCategory(definition: MetricDefinition, category: string): boolean {
+  return !!definition.category && normalizeCategoryList(definition.category).includes(category);
+}
+
 function toStoredCategory(categoryList: string[]): string | null {
   const unique = Array.from(new Set(categoryList.map((c) => c.trim()).filter(Boolean)));
   return unique.length > 0 ? unique.join(', ') : null;
@@ -216,7 +256,18 @@ export async function getMetricDefinitions(category?: string): Promise<MetricDef
     ) as any;
   }
 
-  return await query.execute();
+  const definitions: MetricDefinition[] = await query.execute();
+  const storedNames = new Set(definitions.map((d) => d.metric_name.toLowerCase()));
+  const builtIns = getBuiltInMetricDefinitions().filter(
+    (d) => !storedNames.has(d.metric_name.toLowerCase()) && (!category || hasCategory(d, category.trim())),
+  );
+  if (builtIns.length === 0) {
+    return definitions;
+  }
+
+  return [...definitions, ...builtIns].sort(
+    (a, b) => (a.category || '').localeCompare(b.category || '') || a.metric_name.localeCompare(b.metric_name),
+  );
 }
 
 /**
@@ -229,7 +280,10 @@ export async function getMetricDefinitionByName(metricName: string): Promise<Met
     .where('metric_name', '=', metricName)
     .executeTakeFirst();
 
-  return result || null;
+  if (result) {
+    return result;
+  }
+  return getBuiltInMetricDefinitions().find((d) => d.metric_name.toLowerCase() === metricName.toLowerCase()) || null;
 }
 
 /**
@@ -243,7 +297,7 @@ export async function getMetricCategories(): Promise<string[]> {
     .execute();
 
   const set = new Set<string>();
-  for (const row of results) {
+  for (const row of [...results, ...getBuiltInMetricDefinitions()]) {
     if (!row.category) continue;
     for (const token of normalizeCategoryList(row.category)) {
       set.add(token);
@@ -0,0 +1,165 @@
+/**
+ * Head-to-Head Service
+ *
+ * Everything the club's teams have played against one opponent (across teams and seasons):
+ * the overall record, averages of key metrics in those games, the same per season
+ * (to show the trend over time) and each match with its coach notes.
+ */
+
+import { getMatches } from './matchService.js';
+import { getAllSeasons } from './seasonService.js';
+import { getOpponentById, type Opponent } from './opponentService.js';
+import { getMatchOutcome, toStatNumber, type MatchOutcome } from '../utils/matchOutcome.js';
+
+type HeadToHeadSourceMatch = Awaited<ReturnType<typeof getMatches>>[number];
+
+export interface HeadToHeadMetric {
+  /** stats_json key */
+  key: string;
+  label: string;
+}
+
+// Metrics averaged over the games against an opponent
+export const HEAD_TO_HEAD_METRICS: HeadToHeadMetric[] = [
+  { key: 'goalsFor', label: 'Goals For' },
+  { key: 'goalsAgainst', label: 'Goals Against' },
+  { key: 'xG', label: 'xG' },
+  { key: 'xGA', label: 'xGA' },
+  { key: 'possession', label: 'Possession %' },
+  { key: 'tsr', label: 'TSR' },
+  { key: 'conversion rate', label: 'Conversion Rate' },
+  { key: 'pass share', label: 'Pass Share' },
+  { key: 'spi', label: 'SPI' },
+  { key: 'ppm', label: 'PPM' },
+];
+
+export interface HeadToHeadRecord {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+export interface HeadToHeadMatch {
+  id: number;
+  teamId: number | null;
+  teamDisplayName: string | null;
+  seasonId: number | null;
+  matchDate: string;
+  competitionType: string | null;
+  isHome: boolean | null;
+  venue: string | null;
+  outcome: MatchOutcome | null;
+  goalsFor: number | null;
+  goalsAgainst: number | null;
+  metrics: Record<string, number | null>;
+  notes: string | null;
+}
+
+export interface HeadToHeadSeason {
+  seasonId: number | null;
+  seasonName: string | null;
+  record: HeadToHeadRecord;
+  averages: Record<string, number | null>;
+}
+
+export interface HeadToHead {
+  opponent: Opponent;
+  metrics: HeadToHeadMetric[];
+  record: HeadToHeadRecord;
+  averages: Record<string, number | null>;
+  /** Oldest season first */
+  seasons: HeadToHeadSeason[];
+  /** Newest first */
+  matches: HeadToHeadMatch[];
+}
+
+function toHeadToHeadMatch(match: HeadToHeadSourceMatch): HeadToHeadMatch {
+  const stats = match.statsJson || {};
+  const goalsFor = toStatNumber(stats.goalsFor);
+  const goalsAgainst = toStatNumber(stats.goalsAgainst);
+  return {
+    id: match.id,
+    teamId: match.teamId,
+    teamDisplayName: match.teamDisplayName,
+    seasonId: match.seasonId,
+    matchDate: match.matchDate,
+    competitionType: match.competitionType,
+    isHome: match.isHome,
+    venue: match.venue,
+    outcome: getMatchOutcome(match.result ?? stats.result, goalsFor, goalsAgainst),
+    goalsFor,
+    goalsAgainst,
+    metrics: Object.fromEntries(HEAD_TO_HEAD_METRICS.map(metric => [metric.key, toStatNumber(stats[metric.key])])),
+    notes: match.notes?.trim() || null,
+  };
+}
+
+function summarize(matches: HeadToHeadMatch[]): { record: HeadToHeadRecord; averages: Record<string, number | null> } {
+  const record: HeadToHeadRecord = { played: matches.length, wins: 0, draws: 0, losses: 0, goalsFor: 0, goalsAgainst: 0 };
+  for (const match of matches) {
+    if (match.outcome === 'W') record.wins++;
+    if (match.outcome === 'D') record.draws++;
+    if (match.outcome === 'L') record.losses++;
+    record.goalsFor += match.goalsFor ?? 0;
+    record.goalsAgainst += match.goalsAgainst ?? 0;
+  }
+
+  // Averages only count the games where the metric was recorded
+  const averages: Record<string, number | null> = {};
+  for (const metric of HEAD_TO_HEAD_METRICS) {
+    const values = matches
+      .map(match => match.metrics[metric.key])
+      .filter((value): value is number => value !== null);
+    averages[metric.key] = values.length > 0
+      ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+      : null;
+  }
+
+  return { record, averages };
+}
+
+/**
+ * Head-to-head history against an opponent.
+ * teamIds limits it to those teams' matches (plus matches not linked to a team), as for the match list.
+ * Returns null if the opponent does not exist.
+ */
+export async function getHeadToHead(
+  opponentId: number,
+  filters?: { teamId?: number; teamIds?: number[] }
+): Promise<HeadToHead | null> {
+  const opponent = await getOpponentById(opponentId);
+  if (!opponent) return null;
+
+  const [matches, seasons] = await Promise.all([
+    getMatches({ opponentId, teamId: filters?.teamId, teamIds: filters?.teamIds, status: 'played' }),
+    getAllSeasons(),
+  ]);
+  const headToHeadMatches = matches.map(toHeadToHeadMatch);
+
+  const bySeason = new Map<number | null, HeadToHeadMatch[]>();
+  for (const match of headToHeadMatches) {
+    bySeason.set(match.seasonId, [...(bySeason.get(match.seasonId) ?? []), match]);
+  }
+  const seasonNames = new Map(seasons.map(season => [season.id, season.name]));
+  const seasonSummaries: HeadToHeadSeason[] = [...bySeason.entries()]
+    .map(([seasonId, seasonMatches]) => ({
+      seasonId,
+      seasonName: seasonId !== null ? seasonNames.get(seasonId) ?? null : null,
+      ...summarize(seasonMatches),
+      // Oldest match date orders seasons (names are just labels)
+      firstMatchDate: seasonMatches[seasonMatches.length - 1].matchDate,
+    }))
+    .sort((a, b) => a.firstMatchDate.localeCompare(b.firstMatchDate))
+    .map(({ firstMatchDate: _firstMatchDate, ...season }) => season);
+
+  return {
+    opponent,
+    metrics: HEAD_TO_HEAD_METRICS,
+    ...summarize(headToHeadMatches),
+    seasons: seasonSummaries,
+    matches: headToHeadMatches,
+  };
+}
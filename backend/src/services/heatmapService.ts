@@ -0,0 +1,209 @@
+/**
+ * Heatmap Service
+ *
+ * Bins located game events into a grid for touch/action heatmaps, and derives
+ * possession by pitch third (Possess % Def/Mid/Att) from the same locations.
+ *
+ * Stored coordinates use the xgService frame (percentages, JOGA attacking toward
+ * x = 100). Heatmaps are returned in the selected side's attacking frame, so the
+ * opponent is mirrored and both sides attack left to right. Periods listed in
+ * mirrorPeriods are flipped first, for events logged with the ends switched
+ * (e.g. coordinates read straight off second-half video).
+ */
+
+import { normalizeEventType } from '../utils/eventTypes.js';
+
+/**
+ * Minimal event shape needed for heatmaps (matches getMatchEvents output)
+ */
+export interface HeatmapEvent {
+  eventType: string;
+  eventCategory: string | null;
+  period: number | null;
+  xCoordinate: number | null;
+  yCoordinate: number | null;
+  isJogaTeam: boolean;
+  playerName: string | null;
+}
+
+export type HeatmapSide = 'joga' | 'opponent';
+
+export interface HeatmapOptions {
+  side?: HeatmapSide;
+  playerName?: string; // Only this player's events (case and spacing ignored)
+  eventTypes?: string[]; // Only these event types (all when empty)
+  columns?: number;
+  rows?: number;
+  mirrorPeriods?: number[];
+}
+
+export interface PitchThirds {
+  def: number; // Percent of located events
+  mid: number;
+  att: number;
+}
+
+export interface Heatmap {
+  side: HeatmapSide;
+  columns: number;
+  rows: number;
+  cells: number[][]; // [row][column]; row 0 is y = 0, column 0 is the side's own goal line
+  max: number;
+  events: number; // Located events in the heatmap
+  eventsWithoutLocation: number;
+  thirds: PitchThirds | null;
+  eventTypes: string[]; // Event types available for this side (and player), for filters
+  playerNames: string[]; // Players with events for this side, for filters
+}
+
+export const DEFAULT_HEATMAP_COLUMNS = 12;
+export const DEFAULT_HEATMAP_ROWS = 8;
+export const MIN_HEATMAP_GRID = 2;
+export const MAX_HEATMAP_COLUMNS = 30;
+export const MAX_HEATMAP_ROWS = 20;
+
+// Possess % by third is only derived once enough on-ball events are located;
+// a handful of tagged shots would otherwise report 100% in the attacking third
+export const MIN_LOCATED_EVENTS_FOR_POSSESSION_ZONES = 20;
+
+// Events logged without the ball (defending) don't count toward possession
+const OFF_BALL_CATEGORIES = ['defense'];
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function isCoordinate(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function clampPercent(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+function roundPercent(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Validate grid options; returns an error message or null
+ */
+export function validateHeatmapOptions(options: HeatmapOptions): string | null {
+  if (options.side !== undefined && options.side !== 'joga' && options.side !== 'opponent') {
+    return 'side must be joga or opponent';
+  }
+  if (options.columns !== undefined
+    && (!Number.isInteger(options.columns) || options.columns < MIN_HEATMAP_GRID || options.columns > MAX_HEATMAP_COLUMNS)) {
+    return `columns must be a whole number from ${MIN_HEATMAP_GRID} to ${MAX_HEATMAP_COLUMNS}`;
+  }
+  if (options.rows !== undefined
+    && (!Number.isInteger(options.rows) || options.rows < MIN_HEATMAP_GRID || options.rows > MAX_HEATMAP_ROWS)) {
+    return `rows must be a whole number from ${MIN_HEATMAP_GRID} to ${MAX_HEATMAP_ROWS}`;
+  }
+  if (options.mirrorPeriods?.some(period => !Number.isInteger(period) || period < 1)) {
+    return 'mirrorPeriods must be period numbers';
+  }
+  return null;
+}
+
+/**
+ * Location of an event in its side's attacking frame (x = 100 is the goal being attacked)
+ */
+function toAttackingFrame(event: HeatmapEvent, mirrorPeriods: Set<number>): { x: number; y: number } {
+  let x = clampPercent(event.xCoordinate!);
+  let y = clampPercent(event.yCoordinate!);
+  if (event.period !== null && mirrorPeriods.has(event.period)) {
+    x = 100 - x;
+    y = 100 - y;
+  }
+  if (!event.isJogaTeam) {
+    x = 100 - x;
+    y = 100 - y;
+  }
+  return { x, y };
+}
+
+function getThirds(xs: number[]): PitchThirds | null {
+  if (xs.length === 0) return null;
+  const counts = [0, 0, 0];
+  for (const x of xs) {
+    counts[x < 100 / 3 ? 0 : x < 200 / 3 ? 1 : 2] += 1;
+  }
+  const [def, mid, att] = counts.map(count => roundPercent((count / xs.length) * 100));
+  return { def, mid, att };
+}
+
+/**
+ * Bin a side's located events into a columns x rows grid
+ */
+export function buildHeatmap(events: HeatmapEvent[], options: HeatmapOptions = {}): Heatmap {
+  const side = options.side ?? 'joga';
+  const columns = options.columns ?? DEFAULT_HEATMAP_COLUMNS;
+  const rows = options.rows ?? DEFAULT_HEATMAP_ROWS;
+  const mirrorPeriods = new Set(options.mirrorPeriods || []);
+  const eventTypes = new Set((options.eventTypes || []).map(normalizeEventType));
+  const playerName = options.playerName?.trim() ? normalizeName(options.playerName) : null;
+
+  const cells = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+  const availableTypes = new Set<string>();
+  const playerNames = new Map<string, string>();
+  const xs: number[] = [];
+  let eventsWithoutLocation = 0;
+
+  for (const event of events) {
+    if (event.isJogaTeam !== (side === 'joga')) continue;
+    if (event.playerName?.trim() && !playerNames.has(normalizeName(event.playerName))) {
+      playerNames.set(normalizeName(event.playerName), event.playerName.trim().replace(/\s+/g, ' '));
+    }
+    if (playerName && (!event.playerName || normalizeName(event.playerName) !== playerName)) continue;
+
+    const eventType = normalizeEventType(event.eventType);
+    availableTypes.add(eventType);
+    if (eventTypes.size > 0 && !eventTypes.has(eventType)) continue;
+
+    if (!isCoordinate(event.xCoordinate) || !isCoordinate(event.yCoordinate)) {
+      eventsWithoutLocation += 1;
+      continue;
+    }
+
+    const { x, y } = toAttackingFrame(event, mirrorPeriods);
+    const column = Math.min(columns - 1, Math.floor((x / 100) * columns));
+    const row = Math.min(rows - 1, Math.floor((y / 100) * rows));
+    cells[row][column] += 1;
+    xs.push(x);
+  }
+
+  return {
+    side,
+    columns,
+    rows,
+    cells,
+    max: Math.max(0, ...cells.flat()),
+    events: xs.length,
+    eventsWithoutLocation,
+    thirds: getThirds(xs),
+    eventTypes: [...availableTypes].sort(),
+    playerNames: [...playerNames.values()].sort((a, b) => a.localeCompare(b)),
+  };
+}
+
+/**
+ * JOGA possession by pitch third (possessionDef/Mid/Att, percent) from located on-ball events.
+ * Null until MIN_LOCATED_EVENTS_FOR_POSSESSION_ZONES events are located.
+ */
+export function computePossessionZones(
+  events: HeatmapEvent[]
+): { possessionDef: number; possessionMid: number; possessionAtt: number } | null {
+  const onBall = events.filter(event =>
+    !OFF_BALL_CATEGORIES.includes(normalizeEventType(event.eventCategory || ''))
+  );
+  const heatmap = buildHeatmap(onBall, { side: 'joga' });
+  if (!heatmap.thirds || heatmap.events < MIN_LOCATED_EVENTS_FOR_POSSESSION_ZONES) {
+    return null;
+  }
+  return {
+    possessionDef: heatmap.thirds.def,
+    possessionMid: heatmap.thirds.mid,
+    possessionAtt: heatmap.thirds.att,
+  };
+}
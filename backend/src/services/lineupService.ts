@@ -0,0 +1,476 @@
+/**
+ * Lineup Service
+ *
+ * Per-match lineups (starters, bench and substitutions) and the playing time they add up
+ * to. Minutes played are worked out from the substitutions when a lineup is saved and
+ * stored on match_lineup_players, so season totals are a simple sum. Lineup players are
+ * identified by name (like game_events.player_name); roster players also carry player_id.
+ */
+
+import type { Kysely, Transaction } from 'kysely';
+import { db } from '../db/database.js';
+import type { Database } from '../db/schema.js';
+import { getPlayingTimePolicy, type PlayingTimePolicy } from './clubSettingsService.js';
+
+type Executor = Kysely<Database> | Transaction<Database>;
+
+// Upper bounds for a single lineup
+export const MAX_LINEUP_PLAYERS = 40;
+export const MAX_MATCH_DURATION_MINUTES = 150;
+
+export interface LineupPlayerInput {
+  playerName?: string | null;
+  playerId?: number | null;
+  isStarter: boolean;
+}
+
+export interface SubstitutionInput {
+  minute: number;
+  playerOff: string;
+  playerOn: string;
+}
+
+export interface LineupInput {
+  durationMinutes: number;
+  players: LineupPlayerInput[];
+  substitutions?: SubstitutionInput[];
+}
+
+export interface LineupPlayer {
+  playerName: string;
+  playerId: number | null;
+  isStarter: boolean;
+  minutesPlayed: number;
+}
+
+export interface Substitution {
+  minute: number;
+  playerOff: string;
+  playerOn: string;
+}
+
+export interface MatchLineup {
+  matchId: number;
+  durationMinutes: number;
+  players: LineupPlayer[];
+  substitutions: Substitution[];
+  updatedAt: string;
+}
+
+export interface LineupNameSuggestion {
+  name: string;
+  playerId: number | null;
+  jerseyNumber: number | null;
+}
+
+export interface PlayingTimeEntry {
+  playerName: string;
+  playerId: number | null;
+  matches: number; // Matches in the squad (starter or bench)
+  starts: number;
+  appearances: number; // Matches with any minutes
+  minutesPlayed: number;
+  availableMinutes: number; // Total length of the matches in the squad
+  sharePercent: number | null;
+  belowPolicy: boolean;
+}
+
+export interface PlayingTimeReport {
+  policy: PlayingTimePolicy;
+  matches: number;
+  players: PlayingTimeEntry[];
+  alerts: number;
+}
+
+function toTimestampString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function cleanName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+function normalizeName(name: string): string {
+  return cleanName(name).toLowerCase();
+}
+
+/**
+ * Validate a lineup from user input.
+ * Returns an error message, or null when valid. Whether the substitutions make sense
+ * (player on the pitch, etc.) is checked by computeMinutesPlayed.
+ */
+export function validateLineupInput(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Lineup is required';
+  }
+  const { durationMinutes, players, substitutions } = input;
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > MAX_MATCH_DURATION_MINUTES) {
+    return `durationMinutes must be a whole number from 1 to ${MAX_MATCH_DURATION_MINUTES}`;
+  }
+  if (!Array.isArray(players) || players.length === 0) {
+    return 'players must be a non-empty array';
+  }
+  if (players.length > MAX_LINEUP_PLAYERS) {
+    return `A lineup can have at most ${MAX_LINEUP_PLAYERS} players`;
+  }
+  for (const player of players) {
+    if (!player || typeof player !== 'object') {
+      return 'Each player must be an object';
+    }
+    const hasName = typeof player.playerName === 'string' && player.playerName.trim() !== '';
+    const hasId = player.playerId !== undefined && player.playerId !== null;
+    if (!hasName && !hasId) {
+      return 'Each player needs a playerName or playerId';
+    }
+    if (hasId && (!Number.isInteger(player.playerId) || player.playerId <= 0)) {
+      return 'playerId must be a player ID';
+    }
+    if (typeof player.isStarter !== 'boolean') {
+      return 'isStarter must be a boolean';
+    }
+  }
+  if (!players.some((player: any) => player.isStarter)) {
+    return 'A lineup needs at least one starter';
+  }
+  if (substitutions !== undefined && substitutions !== null) {
+    if (!Array.isArray(substitutions)) {
+      return 'substitutions must be an array';
+    }
+    for (const substitution of substitutions) {
+      if (!substitution || typeof substitution !== 'object') {
+        return 'Each substitution must be an object';
+      }
+      if (!Number.isInteger(substitution.minute) || substitution.minute < 0 || substitution.minute > durationMinutes) {
+        return `Substitution minutes must be whole numbers from 0 to ${durationMinutes}`;
+      }
+      if (typeof substitution.playerOff !== 'string' || !substitution.playerOff.trim()
+        || typeof substitution.playerOn !== 'string' || !substitution.playerOn.trim()) {
+        return 'Each substitution needs playerOff and playerOn';
+      }
+      if (normalizeName(substitution.playerOff) === normalizeName(substitution.playerOn)) {
+        return 'A player cannot be substituted for themselves';
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Minutes played per player (keyed by lowercased name).
+ * Starters are on from minute 0; each substitution takes playerOff off and puts playerOn
+ * on at its minute, so rolling substitutions (players coming back on) are supported.
+ * Throws when a substitution doesn't fit the lineup.
+ */
+export function computeMinutesPlayed(
+  players: Array<{ playerName: string; isStarter: boolean }>,
+  substitutions: SubstitutionInput[],
+  durationMinutes: number
+): Map<string, number> {
+  const minutes = new Map(players.map(player => [normalizeName(player.playerName), 0]));
+  // Minute each player currently on the pitch came on
+  const onPitchSince = new Map<string, number>(
+    players.filter(player => player.isStarter).map(player => [normalizeName(player.playerName), 0])
+  );
+
+  const ordered = substitutions
+    .map((substitution, index) => ({ ...substitution, index }))
+    .sort((a, b) => a.minute - b.minute || a.index - b.index);
+
+  for (const substitution of ordered) {
+    const off = normalizeName(substitution.playerOff);
+    const on = normalizeName(substitution.playerOn);
+    const label = `Substitution at ${substitution.minute}'`;
+    if (!minutes.has(off)) {
+      throw new Error(`${label}: ${cleanName(substitution.playerOff)} is not in the lineup`);
+    }
+    if (!minutes.has(on)) {
+      throw new Error(`${label}: ${cleanName(substitution.playerOn)} is not in the lineup`);
+    }
+    const cameOn = onPitchSince.get(off);
+    if (cameOn === undefined) {
+      throw new Error(`${label}: ${cleanName(substitution.playerOff)} is not on the pitch`);
+    }
+    if (onPitchSince.has(on)) {
+      throw new Error(`${label}: ${cleanName(substitution.playerOn)} is already on the pitch`);
+    }
+    minutes.set(off, minutes.get(off)! + substitution.minute - cameOn);
+    onPitchSince.delete(off);
+    onPitchSince.set(on, substitution.minute);
+  }
+
+  for (const [name, cameOn] of onPitchSince) {
+    minutes.set(name, minutes.get(name)! + durationMinutes - cameOn);
+  }
+  return minutes;
+}
+
+export async function getMatchLineup(matchId: number, executor: Executor = db): Promise<MatchLineup | null> {
+  const lineup = await executor
+    .selectFrom('match_lineups')
+    .selectAll()
+    .where('match_id', '=', matchId)
+    .executeTakeFirst();
+  if (!lineup) return null;
+
+  const [players, substitutions] = await Promise.all([
+    executor
+      .selectFrom('match_lineup_players')
+      .selectAll()
+      .where('match_id', '=', matchId)
+      .orderBy('is_starter', 'desc')
+      .orderBy('minutes_played', 'desc')
+      .orderBy('player_name')
+      .execute(),
+    executor
+      .selectFrom('match_substitutions')
+      .selectAll()
+      .where('match_id', '=', matchId)
+      .orderBy('minute')
+      .orderBy('id')
+      .execute(),
+  ]);
+
+  return {
+    matchId,
+    durationMinutes: lineup.duration_minutes,
+    players: players.map(player => ({
+      playerName: player.player_name,
+      playerId: player.player_id,
+      isStarter: player.is_starter,
+      minutesPlayed: player.minutes_played,
+    })),
+    substitutions: substitutions.map(substitution => ({
+      minute: substitution.minute,
+      playerOff: substitution.player_off,
+      playerOn: substitution.player_on,
+    })),
+    updatedAt: toTimestampString(lineup.updated_at),
+  };
+}
+
+/**
+ * Save (replace) a match's lineup and work out minutes played.
+ * Players given by playerId take their roster name; typed names that match a player on
+ * the match team's roster are linked to that player.
+ * Callers must validate the input first.
+ */
+export async function saveMatchLineup(
+  matchId: number,
+  input: LineupInput,
+  userId: number | null
+): Promise<MatchLineup> {
+  const match = await db.selectFrom('matches').select(['id', 'team_id']).where('id', '=', matchId).executeTakeFirst();
+  if (!match) {
+    throw new Error('Match not found');
+  }
+
+  const playerIds = [...new Set(input.players.map(player => player.playerId).filter((id): id is number => !!id))];
+  const knownPlayers = playerIds.length > 0
+    ? await db.selectFrom('players').select(['id', 'name']).where('id', 'in', playerIds).execute()
+    : [];
+  const missingIds = playerIds.filter(id => !knownPlayers.some(player => player.id === id));
+  if (missingIds.length > 0) {
+    throw new Error(`Player not found: ${missingIds.join(', ')}`);
+  }
+  const roster = match.team_id
+    ? await db
+      .selectFrom('team_players')
+      .innerJoin('players', 'players.id', 'team_players.player_id')
+      .select(['players.id', 'players.name'])
+      .where('team_players.team_id', '=', match.team_id)
+      .execute()
+    : [];
+  const rosterByName = new Map(roster.map(player => [normalizeName(player.name), player.id]));
+
+  const players = input.players.map(player => {
+    const known = player.playerId ? knownPlayers.find(row => row.id === player.playerId) : undefined;
+    const playerName = cleanName(known?.name ?? player.playerName ?? '');
+    return {
+      playerName,
+      playerId: known?.id ?? rosterByName.get(normalizeName(playerName)) ?? null,
+      isStarter: player.isStarter,
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const player of players) {
+    const key = normalizeName(player.playerName);
+    if (seen.has(key)) {
+      throw new Error(`${player.playerName} is in the lineup more than once`);
+    }
+    seen.add(key);
+  }
+
+  const substitutions = input.substitutions ?? [];
+  const minutesPlayed = computeMinutesPlayed(players, substitutions, input.durationMinutes);
+  // Store substitutions with the lineup's spelling of each name
+  const lineupName = (name: string) =>
+    players.find(player => normalizeName(player.playerName) === normalizeName(name))!.playerName;
+
+  return db.transaction().execute(async (trx) => {
+    const now = new Date().toISOString();
+    await trx
+      .insertInto('match_lineups')
+      .values({ match_id: matchId, duration_minutes: input.durationMinutes, updated_by: userId, updated_at: now })
+      .onConflict(oc => oc.column('match_id').doUpdateSet({
+        duration_minutes: input.durationMinutes,
+        updated_by: userId,
+        updated_at: now,
+      }))
+      .execute();
+    await trx.deleteFrom('match_lineup_players').where('match_id', '=', matchId).execute();
+    await trx.deleteFrom('match_substitutions').where('match_id', '=', matchId).execute();
+
+    await trx
+      .insertInto('match_lineup_players')
+      .values(players.map(player => ({
+        match_id: matchId,
+        player_id: player.playerId,
+        player_name: player.playerName,
+        is_starter: player.isStarter,
+        minutes_played: minutesPlayed.get(normalizeName(player.playerName)) ?? 0,
+      })))
+      .execute();
+    if (substitutions.length > 0) {
+      await trx
+        .insertInto('match_substitutions')
+        .values(substitutions.map(substitution => ({
+          match_id: matchId,
+          minute: substitution.minute,
+          player_off: lineupName(substitution.playerOff),
+          player_on: lineupName(substitution.playerOn),
+        })))
+        .execute();
+    }
+
+    return (await getMatchLineup(matchId, trx))!;
+  });
+}
+
+export async function deleteMatchLineup(matchId: number): Promise<boolean> {
+  const result = await db.deleteFrom('match_lineups').where('match_id', '=', matchId).executeTakeFirst();
+  return Number(result.numDeletedRows) > 0;
+}
+
+/**
+ * Names to pick from when entering a team's lineup: the team's roster, plus names
+ * already used for the team in tagged events and earlier lineups.
+ */
+export async function getLineupNameSuggestions(teamId: number): Promise<LineupNameSuggestion[]> {
+  const [roster, eventNames, lineupNames] = await Promise.all([
+    db
+      .selectFrom('team_players')
+      .innerJoin('players', 'players.id', 'team_players.player_id')
+      .select(['players.id', 'players.name', 'players.jersey_number'])
+      .where('team_players.team_id', '=', teamId)
+      .execute(),
+    db
+      .selectFrom('game_events')
+      .innerJoin('matches', 'matches.id', 'game_events.match_id')
+      .select('game_events.player_name')
+      .distinct()
+      .where('matches.team_id', '=', teamId)
+      .where('game_events.is_joga_team', '=', 1)
+      .where('game_events.player_name', 'is not', null)
+      .execute(),
+    db
+      .selectFrom('match_lineup_players')
+      .innerJoin('matches', 'matches.id', 'match_lineup_players.match_id')
+      .select('match_lineup_players.player_name')
+      .distinct()
+      .where('matches.team_id', '=', teamId)
+      .execute(),
+  ]);
+
+  const suggestions = new Map<string, LineupNameSuggestion>();
+  for (const player of roster) {
+    suggestions.set(normalizeName(player.name), { name: player.name, playerId: player.id, jerseyNumber: player.jersey_number });
+  }
+  for (const name of [...eventNames, ...lineupNames].map(row => row.player_name)) {
+    if (!name?.trim()) continue;
+    const key = normalizeName(name);
+    if (!suggestions.has(key)) {
+      suggestions.set(key, { name: cleanName(name), playerId: null, jerseyNumber: null });
+    }
+  }
+  return [...suggestions.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Minutes played per player across matches with lineups (cancelled matches excluded).
+ * teamId/teamIds limit to those teams' matches, seasonId to the teams in that season.
+ * Players whose share of the minutes they were available for is below the club's
+ * playing time policy are flagged.
+ */
+export async function getPlayingTimeReport(filters?: {
+  teamId?: number;
+  teamIds?: number[];
+  seasonId?: number;
+}): Promise<PlayingTimeReport> {
+  let query = db
+    .selectFrom('match_lineup_players')
+    .innerJoin('match_lineups', 'match_lineups.match_id', 'match_lineup_players.match_id')
+    .innerJoin('matches', 'matches.id', 'match_lineup_players.match_id')
+    .leftJoin('teams', 'teams.id', 'matches.team_id')
+    .leftJoin('players', 'players.id', 'match_lineup_players.player_id')
+    .select([
+      'match_lineup_players.match_id',
+      'match_lineup_players.player_id',
+      'match_lineup_players.player_name',
+      'match_lineup_players.is_starter',
+      'match_lineup_players.minutes_played',
+      'match_lineups.duration_minutes',
+      'players.name as roster_name',
+    ])
+    .where('matches.status', '!=', 'cancelled');
+
+  const teamIds = filters?.teamId ? [filters.teamId] : filters?.teamIds;
+  if (teamIds) {
+    query = query.where('matches.team_id', 'in', teamIds.length > 0 ? teamIds : [0]);
+  }
+  if (filters?.seasonId) {
+    query = query.where('teams.season_id', '=', filters.seasonId);
+  }
+
+  const [rows, { policy }] = await Promise.all([query.execute(), getPlayingTimePolicy()]);
+
+  const entries = new Map<string, PlayingTimeEntry>();
+  for (const row of rows) {
+    const key = row.player_id ? `id:${row.player_id}` : `name:${normalizeName(row.player_name)}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        playerName: row.roster_name ?? cleanName(row.player_name),
+        playerId: row.player_id,
+        matches: 0,
+        starts: 0,
+        appearances: 0,
+        minutesPlayed: 0,
+        availableMinutes: 0,
+        sharePercent: null,
+        belowPolicy: false,
+      };
+      entries.set(key, entry);
+    }
+    entry.matches += 1;
+    entry.starts += row.is_starter ? 1 : 0;
+    entry.appearances += row.minutes_played > 0 ? 1 : 0;
+    entry.minutesPlayed += row.minutes_played;
+    entry.availableMinutes += row.duration_minutes;
+  }
+
+  const players = [...entries.values()].map(entry => {
+    const sharePercent = entry.availableMinutes > 0
+      ? Math.round((entry.minutesPlayed / entry.availableMinutes) * 1000) / 10
+      : null;
+    return { ...entry, sharePercent, belowPolicy: sharePercent !== null && sharePercent < policy.minSharePercent };
+  });
+  players.sort((a, b) => (a.sharePercent ?? 0) - (b.sharePercent ?? 0) || a.playerName.localeCompare(b.playerName));
+
+  return {
+    policy,
+    matches: new Set(rows.map(row => row.match_id)).size,
+    players,
+    alerts: players.filter(player => player.belowPolicy).length,
+  };
+}
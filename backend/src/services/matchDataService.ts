@@ -75,6 +75,7 @@ function convertMatchToMatchData(match: any): MatchData {
     'Date': dateString, // Ensure it's a string in YYYY-MM-DD format
     'Match Date': dateString, // Add both formats for compatibility
     'Competition Type': match.competitionType || '',
+    'Competition': match.competitionName || '',
     'Result': match.result || '',
     'Home/Away': match.isHome === true ? 'Home' : match.isHome === false ? 'Away' : 'Tournament',
     'Venue': match.venue || '',
@@ -95,6 +96,11 @@ function convertMatchToMatchData(match: any): MatchData {
     matchData['Team ID'] = match.teamId;
   }
 
+  // Add competition ID if linked (used by the competition filter)
+  if (match.competitionId) {
+    matchData['Competition ID'] = match.competitionId;
+  }
+
   return matchData;
 }
 
@@ -114,6 +120,8 @@ export async function getMatchData(options?: {
     teamIds: options?.teamIds,
     startDate: options?.startDate,
     endDate: options?.endDate,
+    // Fixtures not played yet (or cancelled) have no data to chart
+    status: 'played',
   });
 
   // Convert to MatchData format
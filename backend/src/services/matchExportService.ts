@@ -0,0 +1,218 @@
+/**
+ * Match Export Service
+ *
+ * Turns matches (from getMatches) into flat rows for CSV, XLSX or JSON download.
+ * Game info columns come first, then raw stats (what was entered or imported)
+ * and/or computed stats (what computeMatchStats derives from them).
+ *
+ * Column names match what the spreadsheet import accepts, so an export can be
+ * edited and imported again.
+ */
+
+import ExcelJS from 'exceljs';
+import { computeMatchStats, type RawMatchStats } from './matchStatsService.js';
+import type { getMatches } from './matchService.js';
+
+export type MatchExportFormat = 'csv' | 'xlsx' | 'json';
+export type MatchExportColumnSet = 'raw' | 'computed' | 'both';
+
+type ExportMatch = Awaited<ReturnType<typeof getMatches>>[number];
+type ExportValue = string | number | null;
+
+export interface MatchExport {
+  columns: string[];
+  rows: Array<Record<string, ExportValue>>;
+}
+
+export const GAME_INFO_COLUMNS = [
+  'Match ID',
+  'Team',
+  'Date',
+  'Kickoff',
+  'Opponent',
+  'Competition',
+  'Competition Type',
+  'Format',
+  'Status',
+  'Result',
+  'Home/Away',
+  'Venue',
+  'Referee',
+  'Notes',
+];
+
+// Game info stored inside stats_json (already covered by the game info columns)
+const GAME_INFO_STAT_KEYS = new Set([
+  'teamId',
+  'opponentName',
+  'matchDate',
+  'competitionType',
+  'result',
+  'venue',
+  'referee',
+  'notes',
+]);
+
+const CONTENT_TYPES: Record<MatchExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+export function isMatchExportFormat(value: string): value is MatchExportFormat {
+  return value === 'csv' || value === 'xlsx' || value === 'json';
+}
+
+export function isMatchExportColumnSet(value: string): value is MatchExportColumnSet {
+  return value === 'raw' || value === 'computed' || value === 'both';
+}
+
+function toExportValue(value: any): ExportValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return JSON.stringify(value);
+}
+
+function getGameInfo(match: ExportMatch): Record<string, ExportValue> {
+  return {
+    'Match ID': match.matchIdExternal || match.id,
+    'Team': match.teamSlug || match.teamDisplayName || null,
+    'Date': match.matchDate,
+    'Kickoff': match.kickoffTime,
+    'Opponent': match.opponentName,
+    'Competition': match.competitionName,
+    'Competition Type': match.competitionType,
+    'Format': match.format,
+    'Status': match.status,
+    'Result': match.result,
+    'Home/Away': match.isHome === true ? 'Home' : match.isHome === false ? 'Away' : null,
+    'Venue': match.venue,
+    'Referee': match.referee,
+    'Notes': match.notes,
+  };
+}
+
+/**
+ * Split a match's stats into raw and computed fields.
+ * Computed fields are the ones computeMatchStats produces from the stored stats;
+ * stored values win so exports show exactly what the app displays.
+ */
+export function splitMatchStats(statsJson: Record<string, any> | null): {
+  raw: Record<string, ExportValue>;
+  computed: Record<string, ExportValue>;
+} {
+  const raw: Record<string, ExportValue> = {};
+  const computed: Record<string, ExportValue> = {};
+  if (!statsJson) {
+    return { raw, computed };
+  }
+
+  const recomputed = computeMatchStats(statsJson as RawMatchStats);
+
+  for (const [key, value] of Object.entries(recomputed)) {
+    if (GAME_INFO_STAT_KEYS.has(key)) continue;
+    const storedValue = statsJson[key] !== undefined ? statsJson[key] : value;
+    if (storedValue === undefined) continue;
+    computed[key] = toExportValue(storedValue);
+  }
+
+  for (const [key, value] of Object.entries(statsJson)) {
+    if (GAME_INFO_STAT_KEYS.has(key) || key in recomputed) continue;
+    raw[key] = toExportValue(value);
+  }
+
+  return { raw, computed };
+}
+
+/**
+ * Build export rows for a list of matches.
+ * Stat columns are ordered by first appearance across matches.
+ */
+export function buildMatchExport(matches: ExportMatch[], columnSet: MatchExportColumnSet): MatchExport {
+  const rawColumns = new Set<string>();
+  const computedColumns = new Set<string>();
+
+  const split = matches.map(match => {
+    const stats = splitMatchStats(match.statsJson);
+    Object.keys(stats.raw).forEach(key => rawColumns.add(key));
+    Object.keys(stats.computed).forEach(key => computedColumns.add(key));
+    return stats;
+  });
+
+  const includeRaw = columnSet === 'raw' || columnSet === 'both';
+  const includeComputed = columnSet === 'computed' || columnSet === 'both';
+
+  const columns = [
+    ...GAME_INFO_COLUMNS,
+    ...(includeRaw ? Array.from(rawColumns) : []),
+    ...(includeComputed ? Array.from(computedColumns) : []),
+  ];
+
+  const rows = matches.map((match, index) => {
+    const row: Record<string, ExportValue> = getGameInfo(match);
+    if (includeRaw) {
+      rawColumns.forEach(key => {
+        row[key] = split[index].raw[key] ?? null;
+      });
+    }
+    if (includeComputed) {
+      computedColumns.forEach(key => {
+        row[key] = split[index].computed[key] ?? null;
+      });
+    }
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+function escapeCsvValue(value: ExportValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize export rows as CSV (RFC 4180)
+ */
+export function toCsv(data: MatchExport): string {
+  const lines = [data.columns.map(escapeCsvValue).join(',')];
+  data.rows.forEach(row => {
+    lines.push(data.columns.map(column => escapeCsvValue(row[column] ?? null)).join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+async function toXlsx(data: MatchExport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Matches');
+  sheet.addRow(data.columns);
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  data.rows.forEach(row => {
+    sheet.addRow(data.columns.map(column => row[column] ?? null));
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Render export rows in the requested file format
+ */
+export async function renderMatchExport(
+  data: MatchExport,
+  format: MatchExportFormat
+): Promise<{ body: string | Buffer; contentType: string; fileName: string }> {
+  const fileName = `matches-${new Date().toISOString().split('T')[0]}.${format}`;
+
+  let body: string | Buffer;
+  if (format === 'csv') {
+    body = toCsv(data);
+  } else if (format === 'xlsx') {
+    body = await toXlsx(data);
+  } else {
+    body = JSON.stringify(data.rows, null, 2);
+  }
+
+  return { body, contentType: CONTENT_TYPES[format], fileName };
+}
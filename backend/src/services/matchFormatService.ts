@@ -0,0 +1,61 @@
+/**
+ * Match Format Service
+ *
+ * Small-sided formats played by the club's age groups. Teams carry a default
+ * format (from their level) and each match stores the format it was played in,
+ * which sets the default match length, the number of periods stats are entered
+ * for, and the pitch size used for event locations.
+ *
+ * Matches saved before formats existed have no format and are treated as two halves.
+ */
+
+export const MATCH_FORMATS = ['7v7', '9v9', '11v11'] as const;
+
+export type MatchFormat = typeof MATCH_FORMATS[number];
+
+export interface MatchFormatDefaults {
+  durationMinutes: number;
+  periods: number; // 2 = halves, 4 = quarters
+  pitchLengthYards: number;
+  pitchWidthYards: number;
+}
+
+export const MATCH_FORMAT_DEFAULTS: Record<MatchFormat, MatchFormatDefaults> = {
+  '7v7': { durationMinutes: 48, periods: 4, pitchLengthYards: 60, pitchWidthYards: 40 },
+  '9v9': { durationMinutes: 60, periods: 2, pitchLengthYards: 75, pitchWidthYards: 50 },
+  '11v11': { durationMinutes: 80, periods: 2, pitchLengthYards: 110, pitchWidthYards: 70 },
+};
+
+export const DEFAULT_PERIOD_COUNT = 2;
+
+/**
+ * Validate a format from a request body. Null/empty clears the format.
+ */
+export function normalizeMatchFormat(format: string | null | undefined): MatchFormat | null {
+  if (format === undefined || format === null || !format.toString().trim()) return null;
+  const f = format.toString().trim().toLowerCase();
+  if (!(MATCH_FORMATS as readonly string[]).includes(f)) {
+    throw new Error('Invalid format (must be 7v7, 9v9, or 11v11)');
+  }
+  return f as MatchFormat;
+}
+
+/**
+ * Default format for a team level (U10 and under play 7v7, U11-U12 play 9v9, older play 11v11)
+ */
+export function defaultFormatForLevel(level: string | null | undefined): MatchFormat | null {
+  if (!level) return null;
+  const levelNum = parseInt(level.trim().replace(/^U/i, ''), 10);
+  if (isNaN(levelNum)) return null;
+  if (levelNum <= 10) return '7v7';
+  if (levelNum <= 12) return '9v9';
+  return '11v11';
+}
+
+/**
+ * Number of periods stats are entered for in a match of this format
+ */
+export function getPeriodCount(format: string | null | undefined): number {
+  const known = MATCH_FORMATS.find(f => f === format);
+  return known ? MATCH_FORMAT_DEFAULTS[known].periods : DEFAULT_PERIOD_COUNT;
+}
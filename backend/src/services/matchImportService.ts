@@ -0,0 +1,584 @@
+/**
+ * Match Import Service
+ *
+ * Bulk import of matches from a CSV or XLSX spreadsheet (one match per row).
+ * Columns are mapped through normalizeFieldNames (same names as the upload form
+ * and the Google Sheet), each row gets a dry-run of computeMatchStats, and rows
+ * that look like matches already in the database are flagged as duplicates
+ * using the same team + date + opponent logic as /find-existing.
+ */
+
+import ExcelJS from 'exceljs';
+import { db } from '../db/database.js';
+import { computeMatchStats, normalizeFieldNames, STATS_FORMULA_VERSION, type RawMatchStats } from './matchStatsService.js';
+import { createMatchesBulk, findExistingMatch, getMatches, isKickoffTime, isMatchStatus, type MatchInput, type MatchStatus } from './matchService.js';
+import { getAllTeams } from './teamService.js';
+import { findOpponentByName } from './opponentService.js';
+import { getCompetitions, type Competition } from './competitionService.js';
+import { normalizeMatchFormat, type MatchFormat } from './matchFormatService.js';
+import { normalizeOpponentName, findBestOpponentMatch } from '../utils/opponentMatching.js';
+
+// Max data rows accepted in a single import file
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportFileType = 'csv' | 'xlsx';
+
+export interface ImportDuplicate {
+  matchId: number;
+  opponentName: string;
+  matchDate: string;
+}
+
+export interface ImportRowPreview {
+  rowNumber: number; // Spreadsheet row number (header row is 1)
+  gameInfo: {
+    teamId: number | null;
+    teamName: string | null;
+    opponentName: string | null;
+    matchDate: string | null;
+    kickoffTime: string | null;
+    status: MatchStatus | null;
+    /** Linked competition, matched by name from the Competition column */
+    competitionId: number | null;
+    competitionName: string | null;
+    competitionType: string | null;
+    format: MatchFormat | null;
+    result: string | null;
+    isHome: boolean | null;
+    venue: string | null;
+    referee: string | null;
+    notes: string | null;
+    matchIdExternal: string | null;
+  };
+  rawStats: Record<string, any>;
+  computedStats: Record<string, any>;
+  errors: string[];
+  warnings: string[];
+  duplicate: ImportDuplicate | null;
+  duplicateOfRow: number | null; // Earlier row in the same file with the same team/date/opponent
+}
+
+export interface ImportPreview {
+  fileType: ImportFileType;
+  columns: string[];
+  rows: ImportRowPreview[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicates: number;
+  };
+}
+
+export interface ImportOptions {
+  defaultTeamId?: number | null; // Used for rows without a Team column value
+}
+
+// Columns handled outside normalizeFieldNames (lowercased)
+const MATCH_ID_COLUMNS = ['match id', 'matchid', 'match_id'];
+const HOME_AWAY_COLUMNS = ['home/away', 'home away', 'home_away', 'venue type'];
+const COMPETITION_COLUMNS = ['competition', 'competition name'];
+
+const NUMERIC_CELL_PATTERN = /^-?\d+(\.\d+)?%?$/;
+
+/**
+ * Work out the file type from its name
+ */
+export function getImportFileType(fileName: string): ImportFileType | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.xlsx')) return 'xlsx';
+  return null;
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM (Excel adds one when saving as CSV UTF-8)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Convert an ExcelJS cell value to a plain value
+ */
+function getXlsxCellValue(value: ExcelJS.CellValue): any {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'object') {
+    if ('result' in value) return value.result ?? null; // Formula
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return value.text; // Hyperlink
+    if ('error' in value) return null;
+  }
+  return value;
+}
+
+async function readXlsxRows(buffer: Buffer): Promise<any[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error('Spreadsheet has no worksheets');
+  }
+
+  const rows: any[][] = [];
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const cells: any[] = [];
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      cells.push(getXlsxCellValue(row.getCell(col).value));
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+function isBlankCell(value: any): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Parse a base64-encoded CSV/XLSX file into header-keyed records.
+ * Blank rows are dropped; each record keeps its spreadsheet row number.
+ */
+export async function parseImportFile(
+  fileBase64: string,
+  fileName: string
+): Promise<{ fileType: ImportFileType; columns: string[]; records: Array<{ rowNumber: number; values: Record<string, any> }> }> {
+  const fileType = getImportFileType(fileName);
+  if (!fileType) {
+    throw new Error('Unsupported file type. Upload a .csv or .xlsx file');
+  }
+
+  const buffer = Buffer.from(fileBase64, 'base64');
+  const rows = fileType === 'csv'
+    ? parseCsv(buffer.toString('utf8'))
+    : await readXlsxRows(buffer);
+
+  if (rows.length === 0) {
+    throw new Error('File is empty');
+  }
+
+  const columns = rows[0].map(header => (isBlankCell(header) ? '' : String(header).trim()));
+  if (columns.every(column => column === '')) {
+    throw new Error('Header row is empty');
+  }
+
+  const records: Array<{ rowNumber: number; values: Record<string, any> }> = [];
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.every(isBlankCell)) continue;
+
+    const values: Record<string, any> = {};
+    columns.forEach((column, index) => {
+      if (column && !isBlankCell(row[index])) {
+        values[column] = typeof row[index] === 'string' ? row[index].trim() : row[index];
+      }
+    });
+    records.push({ rowNumber: i + 1, values });
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Too many rows (${records.length}). Import at most ${MAX_IMPORT_ROWS} matches at a time`);
+  }
+
+  return { fileType, columns: columns.filter(Boolean), records };
+}
+
+/**
+ * Parse an import date cell into YYYY-MM-DD
+ * Accepts YYYY-MM-DD, MM/DD/YYYY, spreadsheet Date cells and serial numbers
+ */
+export function parseImportDate(value: any): string | null {
+  if (isBlankCell(value)) return null;
+
+  const formatUtc = (date: Date) => {
+    const year = date.getUTCFullYear();
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  };
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : formatUtc(value);
+  }
+
+  // Spreadsheet serial date (days since 1899-12-30)
+  if (typeof value === 'number') {
+    return formatUtc(new Date(Date.UTC(1899, 11, 30) + Math.round(value) * 24 * 60 * 60 * 1000));
+  }
+
+  const text = String(value).trim();
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const usMatch = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (isoMatch) {
+    [year, month, day] = [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])];
+  } else if (usMatch) {
+    month = Number(usMatch[1]);
+    day = Number(usMatch[2]);
+    year = usMatch[3].length === 2 ? 2000 + Number(usMatch[3]) : Number(usMatch[3]);
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return formatUtc(date);
+}
+
+function parseHomeAway(value: any): boolean | null {
+  if (isBlankCell(value)) return null;
+  const lower = String(value).trim().toLowerCase();
+  if (lower === 'home' || lower === 'h') return true;
+  if (lower === 'away' || lower === 'a') return false;
+  return null;
+}
+
+// Spreadsheet cells arrive as text; stats must be numbers for computeMatchStats
+function coerceStatValue(value: any): any {
+  if (typeof value === 'string' && NUMERIC_CELL_PATTERN.test(value)) {
+    return Number(value.replace('%', ''));
+  }
+  return value;
+}
+
+function toOptionalString(value: any): string | null {
+  return isBlankCell(value) ? null : String(value).trim();
+}
+
+function getDuplicateKey(teamId: number, matchDate: string, opponentName: string): string {
+  return `${teamId}|${matchDate}|${normalizeOpponentName(opponentName)}`;
+}
+
+/**
+ * Build the dry-run preview for parsed spreadsheet records
+ */
+export async function previewMatchImport(
+  records: Array<{ rowNumber: number; values: Record<string, any> }>,
+  options: ImportOptions = {}
+): Promise<Omit<ImportPreview, 'fileType' | 'columns'>> {
+  const teams = await getAllTeams();
+  const teamsByKey = new Map<string, (typeof teams)[number]>();
+  teams.forEach(team => {
+    teamsByKey.set(String(team.id), team);
+    teamsByKey.set(team.slug.toLowerCase(), team);
+    teamsByKey.set(team.displayName.toLowerCase(), team);
+  });
+
+  const defaultTeam = options.defaultTeamId ? teamsByKey.get(String(options.defaultTeamId)) : undefined;
+  if (options.defaultTeamId && !defaultTeam) {
+    throw new Error('Default team not found');
+  }
+
+  // Competitions by lowercased name, for the Competition column
+  const competitionsByName = new Map<string, Competition[]>();
+  (await getCompetitions()).forEach(competition => {
+    const key = competition.name.toLowerCase();
+    competitionsByName.set(key, [...(competitionsByName.get(key) ?? []), competition]);
+  });
+
+  // Known opponents per team, for "did you mean" warnings
+  const opponentsByTeam = new Map<number, string[]>();
+  const getTeamOpponents = async (teamId: number) => {
+    if (!opponentsByTeam.has(teamId)) {
+      const matches = await getMatches({ teamId });
+      opponentsByTeam.set(teamId, Array.from(new Set(matches.map(match => match.opponentName))));
+    }
+    return opponentsByTeam.get(teamId)!;
+  };
+
+  const seenRows = new Map<string, number>();
+  const rows: ImportRowPreview[] = [];
+
+  for (const record of records) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Pull out columns normalizeFieldNames doesn't know about
+    const statColumns: Record<string, any> = {};
+    let matchIdExternal: string | null = null;
+    let isHome: boolean | null = null;
+    let competitionName: string | null = null;
+    for (const [column, value] of Object.entries(record.values)) {
+      const lower = column.toLowerCase().trim();
+      if (MATCH_ID_COLUMNS.includes(lower)) {
+        matchIdExternal = toOptionalString(value);
+      } else if (HOME_AWAY_COLUMNS.includes(lower)) {
+        isHome = parseHomeAway(value);
+      } else if (COMPETITION_COLUMNS.includes(lower)) {
+        competitionName = toOptionalString(value);
+      } else {
+        statColumns[column] = coerceStatValue(value);
+      }
+    }
+
+    const normalized: Record<string, any> = normalizeFieldNames(statColumns);
+
+    // Resolve team by ID, slug or display name
+    const teamValue = toOptionalString(normalized.teamId);
+    const team = teamValue ? teamsByKey.get(teamValue.toLowerCase()) : defaultTeam;
+    if (teamValue && !team) {
+      errors.push(`Team not found: ${teamValue}`);
+    } else if (!team) {
+      errors.push('Team is required');
+    }
+
+    const opponentName = toOptionalString(normalized.opponentName);
+    if (!opponentName) {
+      errors.push('Opponent is required');
+    }
+
+    const matchDate = parseImportDate(normalized.matchDate);
+    if (normalized.matchDate === undefined) {
+      errors.push('Date is required');
+    } else if (!matchDate) {
+      errors.push(`Invalid date: ${normalized.matchDate}`);
+    }
+
+    const kickoffTime = toOptionalString(normalized.kickoffTime);
+    if (kickoffTime && !isKickoffTime(kickoffTime)) {
+      errors.push(`Invalid kickoff time: ${kickoffTime} (expected HH:MM)`);
+    }
+
+    const status = toOptionalString(normalized.status)?.toLowerCase() ?? null;
+    if (status && !isMatchStatus(status)) {
+      errors.push(`Invalid status: ${status}`);
+    }
+
+    let format: MatchFormat | null = null;
+    try {
+      format = normalizeMatchFormat(toOptionalString(normalized.format));
+    } catch {
+      errors.push(`Invalid format: ${normalized.format} (expected 7v7, 9v9 or 11v11)`);
+    }
+
+    // Link a competition with that name, preferring the team's season; older sheets
+    // used the Competition column for the type ("League"), so unknown names stay the type
+    let competition: Competition | undefined;
+    let competitionType = toOptionalString(normalized.competitionType);
+    if (competitionName) {
+      const candidates = competitionsByName.get(competitionName.toLowerCase()) ?? [];
+      competition = candidates.find(candidate => candidate.seasonId === (team?.seasonId ?? null)) ?? candidates[0];
+      if (!competition && !competitionType) {
+        competitionType = competitionName;
+      } else if (!competition) {
+        warnings.push(`Competition not found: ${competitionName}`);
+      }
+    }
+
+    const gameInfo = {
+      teamId: team?.id ?? null,
+      teamName: team?.displayName ?? null,
+      opponentName,
+      matchDate,
+      kickoffTime: kickoffTime && isKickoffTime(kickoffTime) ? kickoffTime : null,
+      status: isMatchStatus(status) ? status : null,
+      competitionId: competition?.id ?? null,
+      competitionName: competition?.name ?? null,
+      competitionType,
+      format,
+      result: toOptionalString(normalized.result),
+      isHome,
+      venue: toOptionalString(normalized.venue),
+      referee: toOptionalString(normalized.referee),
+      notes: toOptionalString(normalized.notes),
+      matchIdExternal,
+    };
+
+    // Same shape the single-match form stores: normalized raw stats + game info
+    // (kickoff time, status and format are match columns, not stats)
+    const { kickoffTime: _kickoffTime, status: _status, format: _format, ...statFields } = normalized;
+    const rawStats: Record<string, any> = {
+      ...statFields,
+      teamId: gameInfo.teamId,
+      opponentName: gameInfo.opponentName,
+      matchDate: gameInfo.matchDate,
+    };
+
+    let computedStats: Record<string, any> = {};
+    try {
+      computedStats = computeMatchStats(rawStats as RawMatchStats);
+    } catch (error: any) {
+      errors.push(`Failed to compute stats: ${error.message}`);
+    }
+
+    let duplicate: ImportDuplicate | null = null;
+    let duplicateOfRow: number | null = null;
+    if (team && opponentName && matchDate) {
+      const existing = await findExistingMatch(team.id, opponentName, matchDate);
+      if (existing) {
+        duplicate = {
+          matchId: existing.id,
+          opponentName: existing.opponentName,
+          matchDate: existing.matchDate,
+        };
+      }
+
+      const key = getDuplicateKey(team.id, matchDate, opponentName);
+      duplicateOfRow = seenRows.get(key) ?? null;
+      if (duplicateOfRow === null) {
+        seenRows.set(key, record.rowNumber);
+      }
+
+      // Flag likely typos of an opponent this team has already played
+      // (names already registered as an opponent alias are saved under the opponent's name)
+      const knownOpponents = await getTeamOpponents(team.id);
+      const normalizedOpponent = normalizeOpponentName(opponentName);
+      if (
+        !knownOpponents.some(name => normalizeOpponentName(name) === normalizedOpponent)
+        && !(await findOpponentByName(db, opponentName))
+      ) {
+        const suggestion = findBestOpponentMatch(opponentName, knownOpponents);
+        if (suggestion) {
+          warnings.push(`Opponent "${opponentName}" is similar to existing opponent "${suggestion.name}"`);
+        }
+      }
+    }
+
+    rows.push({
+      rowNumber: record.rowNumber,
+      gameInfo,
+      rawStats,
+      computedStats,
+      errors,
+      warnings,
+      duplicate,
+      duplicateOfRow,
+    });
+  }
+
+  return {
+    rows,
+    summary: {
+      total: rows.length,
+      valid: rows.filter(row => row.errors.length === 0).length,
+      invalid: rows.filter(row => row.errors.length > 0).length,
+      duplicates: rows.filter(row => row.duplicate || row.duplicateOfRow !== null).length,
+    },
+  };
+}
+
+/**
+ * Map a previewed row to createMatch input
+ */
+export function toImportedMatchInput(row: ImportRowPreview, userId: number): MatchInput {
+  return {
+    teamId: row.gameInfo.teamId,
+    opponentName: row.gameInfo.opponentName!,
+    matchDate: row.gameInfo.matchDate!,
+    kickoffTime: row.gameInfo.kickoffTime,
+    status: row.gameInfo.status ?? undefined,
+    competitionId: row.gameInfo.competitionId,
+    competitionType: row.gameInfo.competitionType,
+    format: row.gameInfo.format ?? undefined,
+    result: row.gameInfo.result ?? row.computedStats.result ?? null,
+    isHome: row.gameInfo.isHome,
+    matchIdExternal: row.gameInfo.matchIdExternal,
+    statsJson: { ...row.rawStats, ...row.computedStats },
+    statsSource: 'import',
+    statsComputedAt: new Date().toISOString(),
+    statsFormulaVersion: STATS_FORMULA_VERSION,
+    notes: row.gameInfo.notes,
+    venue: row.gameInfo.venue,
+    referee: row.gameInfo.referee,
+    createdBy: userId,
+  };
+}
+
+/**
+ * Create matches for the chosen rows of a previewed import.
+ * Without rowNumbers, every valid row that isn't a duplicate is imported.
+ * Selected rows must be valid; nothing is created if any of them has errors.
+ */
+export async function commitMatchImport(
+  preview: Pick<ImportPreview, 'rows'>,
+  options: { userId: number; rowNumbers?: number[] }
+): Promise<{
+  created: Array<{ rowNumber: number; matchId: number }>;
+  rowErrors: Array<{ rowNumber: number; errors: string[] }>;
+}> {
+  let selected: ImportRowPreview[];
+  const rowErrors: Array<{ rowNumber: number; errors: string[] }> = [];
+
+  if (options.rowNumbers) {
+    const rowsByNumber = new Map(preview.rows.map(row => [row.rowNumber, row]));
+    selected = [];
+    for (const rowNumber of options.rowNumbers) {
+      const row = rowsByNumber.get(rowNumber);
+      if (!row) {
+        rowErrors.push({ rowNumber, errors: ['Row not found in file'] });
+      } else if (row.errors.length > 0) {
+        rowErrors.push({ rowNumber, errors: row.errors });
+      } else {
+        selected.push(row);
+      }
+    }
+  } else {
+    selected = preview.rows.filter(row =>
+      row.errors.length === 0 && !row.duplicate && row.duplicateOfRow === null
+    );
+  }
+
+  if (rowErrors.length > 0) {
+    return { created: [], rowErrors };
+  }
+
+  const ids = await createMatchesBulk(selected.map(row => toImportedMatchInput(row, options.userId)));
+  return {
+    created: selected.map((row, index) => ({ rowNumber: row.rowNumber, matchId: ids[index] })),
+    rowErrors: [],
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Match Revision Service
+ *
+ * Keeps a snapshot of a match every time it is created, updated, restored or deleted,
+ * so edits to stats_json can be reviewed (field-by-field diff) and rolled back.
+ *
+ * Snapshots hold the match state after the change; a 'delete' revision holds the
+ * state the match had when it was deleted.
+ */
+
+import type { Kysely, Transaction } from 'kysely';
+import { db } from '../db/database.js';
+import type { Database, MatchRow, MatchRevisionRow, NewMatchRevision } from '../db/schema.js';
+import { findOrCreateOpponent } from './opponentService.js';
+
+export type MatchRevisionAction = MatchRevisionRow['action'];
+
+type Executor = Kysely<Database> | Transaction<Database>;
+
+export interface MatchSnapshot {
+  teamId: number | null;
+  opponentId?: number | null;
+  opponentName: string;
+  matchDate: string;
+  kickoffTime?: string | null;
+  status?: MatchRow['status'];
+  competitionId?: number | null;
+  competitionType: string | null;
+  result: string | null;
+  isHome: boolean | null;
+  format?: string | null;
+  matchIdExternal: string | null;
+  statsJson: Record<string, any> | null;
+  statsSource: string | null;
+  statsComputedAt: string | null;
+  statsFormulaVersion?: number | null;
+  statsManualFields: any;
+  notes: string | null;
+  venue: string | null;
+  referee: string | null;
+  createdBy: number | null;
+}
+
+export interface MatchRevisionChange {
+  field: string;
+  section: 'game' | 'stats';
+  before: unknown;
+  after: unknown;
+}
+
+// Snapshot fields compared in a diff (statsJson is compared key by key)
+const GAME_DIFF_FIELDS: Array<keyof MatchSnapshot> = [
+  'teamId',
+  'opponentName',
+  'matchDate',
+  'kickoffTime',
+  'status',
+  'competitionType',
+  'result',
+  'isHome',
+  'format',
+  'matchIdExternal',
+  'notes',
+  'venue',
+  'referee',
+  'statsSource',
+  'statsManualFields',
+];
+
+function parseJson(value: string | null): any {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+// match_date may come back as a Date; use local date parts like getMatchById does
+function toDateString(value: unknown): string {
+  if (value instanceof Date) {
+    const year = value.getFullYear();
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+  const text = String(value || '');
+  return text.includes('T') ? text.split('T')[0] : text;
+}
+
+function toTimestampString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toMatchSnapshot(row: MatchRow): MatchSnapshot {
+  return {
+    teamId: row.team_id,
+    opponentId: row.opponent_id,
+    opponentName: row.opponent_name,
+    matchDate: toDateString(row.match_date),
+    kickoffTime: row.kickoff_time,
+    status: row.status,
+    competitionId: row.competition_id,
+    competitionType: row.competition_type,
+    result: row.result,
+    isHome: row.is_home,
+    format: row.format,
+    matchIdExternal: row.match_id_external,
+    statsJson: parseJson(row.stats_json),
+    statsSource: row.stats_source,
+    statsComputedAt: toTimestampString(row.stats_computed_at),
+    statsFormulaVersion: row.stats_formula_version,
+    statsManualFields: parseJson(row.stats_manual_fields),
+    notes: row.notes,
+    venue: row.venue,
+    referee: row.referee,
+    createdBy: row.created_by,
+  };
+}
+
+function toRevisionInsert(
+  row: MatchRow,
+  action: MatchRevisionAction,
+  changedBy: number | null | undefined,
+  now: string,
+  restoredFromRevisionId: number | null = null
+): NewMatchRevision {
+  return {
+    match_id: row.id,
+    action,
+    snapshot_json: JSON.stringify(toMatchSnapshot(row)),
+    changed_by: changedBy || null,
+    restored_from_revision_id: restoredFromRevisionId,
+    created_at: now,
+  };
+}
+
+/**
+ * Record revisions for match rows that were just written (e.g. a bulk import),
+ * attributed to each row's last_modified_by.
+ * Use the executor of the surrounding transaction so history and data commit together.
+ */
+export async function recordMatchRevisionsForRows(
+  executor: Executor,
+  rows: MatchRow[],
+  action: MatchRevisionAction
+): Promise<void> {
+  if (rows.length === 0) return;
+  const now = new Date().toISOString();
+  await executor
+    .insertInto('match_revisions')
+    .values(rows.map(row => toRevisionInsert(row, action, row.last_modified_by, now)))
+    .execute();
+}
+
+/**
+ * Record a revision with the current state of a match.
+ * Does nothing if the match does not exist.
+ */
+export async function recordMatchRevision(
+  executor: Executor,
+  matchId: number,
+  action: MatchRevisionAction,
+  changedBy?: number | null,
+  restoredFromRevisionId: number | null = null
+): Promise<void> {
+  const row = await executor
+    .selectFrom('matches')
+    .selectAll()
+    .where('id', '=', matchId)
+    .executeTakeFirst();
+  if (!row) return;
+
+  await executor
+    .insertInto('match_revisions')
+    .values(toRevisionInsert(row, action, changedBy, new Date().toISOString(), restoredFromRevisionId))
+    .execute();
+}
+
+/**
+ * Matches created before revisions existed have no history.
+ * Call this before changing a match so its pre-change state is kept as the 'create' revision.
+ */
+export async function ensureBaselineRevision(executor: Executor, matchId: number): Promise<void> {
+  const existing = await executor
+    .selectFrom('match_revisions')
+    .select('id')
+    .where('match_id', '=', matchId)
+    .limit(1)
+    .executeTakeFirst();
+  if (existing) return;
+
+  const row = await executor
+    .selectFrom('matches')
+    .selectAll()
+    .where('id', '=', matchId)
+    .executeTakeFirst();
+  if (!row) return;
+
+  await executor
+    .insertInto('match_revisions')
+    .values(toRevisionInsert(row, 'create', row.created_by, toTimestampString(row.created_at) || new Date().toISOString()))
+    .execute();
+}
+
+function toRevision(row: MatchRevisionRow & { changed_by_name?: string | null }) {
+  return {
+    id: row.id,
+    matchId: row.match_id,
+    action: row.action,
+    changedBy: row.changed_by,
+    changedByName: row.changed_by_name ?? null,
+    restoredFromRevisionId: row.restored_from_revision_id,
+    createdAt: toTimestampString(row.created_at),
+    snapshot: parseJson(row.snapshot_json) as MatchSnapshot,
+  };
+}
+
+export type MatchRevision = ReturnType<typeof toRevision>;
+
+/**
+ * Get a match's revisions, newest first (includes revisions of deleted matches)
+ */
+export async function getMatchRevisions(matchId: number): Promise<MatchRevision[]> {
+  const rows = await db
+    .selectFrom('match_revisions')
+    .leftJoin('users', 'users.id', 'match_revisions.changed_by')
+    .selectAll('match_revisions')
+    .select('users.name as changed_by_name')
+    .where('match_revisions.match_id', '=', matchId)
+    .orderBy('match_revisions.id', 'desc')
+    .execute();
+
+  return rows.map(toRevision);
+}
+
+/**
+ * Get a single revision, scoped to its match
+ */
+export async function getMatchRevision(matchId: number, revisionId: number): Promise<MatchRevision | null> {
+  const row = await db
+    .selectFrom('match_revisions')
+    .leftJoin('users', 'users.id', 'match_revisions.changed_by')
+    .selectAll('match_revisions')
+    .select('users.name as changed_by_name')
+    .where('match_revisions.match_id', '=', matchId)
+    .where('match_revisions.id', '=', revisionId)
+    .executeTakeFirst();
+
+  return row ? toRevision(row) : null;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field-by-field differences between two snapshots (before = null diffs against an empty match).
+ * Game info fields come first, then stats_json keys in alphabetical order.
+ */
+export function diffMatchSnapshots(before: MatchSnapshot | null, after: MatchSnapshot): MatchRevisionChange[] {
+  const changes: MatchRevisionChange[] = [];
+
+  GAME_DIFF_FIELDS.forEach(field => {
+    const beforeValue = before ? before[field] : null;
+    if (!isSameValue(beforeValue, after[field])) {
+      changes.push({ field, section: 'game', before: beforeValue ?? null, after: after[field] ?? null });
+    }
+  });
+
+  const beforeStats = before?.statsJson || {};
+  const afterStats = after.statsJson || {};
+  const statKeys = Array.from(new Set([...Object.keys(beforeStats), ...Object.keys(afterStats)])).sort();
+  statKeys.forEach(key => {
+    if (!isSameValue(beforeStats[key], afterStats[key])) {
+      changes.push({ field: key, section: 'stats', before: beforeStats[key] ?? null, after: afterStats[key] ?? null });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Put a match back to the state stored in one of its revisions.
+ * Re-creates the match (same ID) if it was deleted; game events removed with it are not restored.
+ * Returns false if the revision does not belong to the match.
+ */
+export async function restoreMatchRevision(
+  matchId: number,
+  revisionId: number,
+  userId: number
+): Promise<boolean> {
+  const revision = await getMatchRevision(matchId, revisionId);
+  if (!revision) return false;
+
+  const snapshot = revision.snapshot;
+  const now = new Date().toISOString();
+  const values = {
+    team_id: snapshot.teamId,
+    opponent_name: snapshot.opponentName,
+    match_date: snapshot.matchDate,
+    kickoff_time: snapshot.kickoffTime ?? null,
+    // Snapshots from before fixtures existed are all of played matches
+    status: snapshot.status ?? 'played',
+    competition_type: snapshot.competitionType,
+    result: snapshot.result,
+    is_home: snapshot.isHome,
+    format: snapshot.format ?? null,
+    match_id_external: snapshot.matchIdExternal,
+    stats_json: snapshot.statsJson ? JSON.stringify(snapshot.statsJson) : null,
+    stats_source: snapshot.statsSource,
+    stats_computed_at: snapshot.statsComputedAt,
+    stats_formula_version: snapshot.statsFormulaVersion ?? null,
+    stats_manual_fields: snapshot.statsManualFields ? JSON.stringify(snapshot.statsManualFields) : null,
+    notes: snapshot.notes,
+    venue: snapshot.venue,
+    referee: snapshot.referee,
+    updated_at: now,
+    last_modified_by: userId,
+  };
+
+  await db.transaction().execute(async (trx) => {
+    // The snapshot's opponent may have been merged away since; its name still resolves via the aliases
+    const opponent = snapshot.opponentId
+      ? await trx.selectFrom('opponents').select('id').where('id', '=', snapshot.opponentId).executeTakeFirst()
+      : undefined;
+    const opponentId = opponent ? opponent.id : (await findOrCreateOpponent(trx, snapshot.opponentName)).id;
+    // The competition may have been deleted since (the match then stays unlinked)
+    const competition = snapshot.competitionId
+      ? await trx.selectFrom('competitions').select('id').where('id', '=', snapshot.competitionId).executeTakeFirst()
+      : undefined;
+    const linked = { opponent_id: opponentId, competition_id: competition?.id ?? null };
+
+    const existing = await trx
+      .selectFrom('matches')
+      .select('id')
+      .where('id', '=', matchId)
+      .executeTakeFirst();
+
+    if (existing) {
+      await trx.updateTable('matches').set({ ...values, ...linked }).where('id', '=', matchId).execute();
+    } else {
+      await trx
+        .insertInto('matches')
+        .values({ ...values, ...linked, id: matchId, created_by: snapshot.createdBy, created_at: now })
+        .execute();
+    }
+
+    await recordMatchRevision(trx, matchId, 'restore', userId, revisionId);
+  });
+
+  return true;
+}
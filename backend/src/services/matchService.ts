@@ -1,5 +1,31 @@
 import { db } from '../db/database.js';
-import type { MatchesTable, GameEventsTable } from '../db/schema.js';
+import { normalizeOpponentName, opponentNamesMatch } from '../utils/opponentMatching.js';
+import { recordMatchRevision, recordMatchRevisionsForRows, ensureBaselineRevision } from './matchRevisionService.js';
+import { findOpponentByName, resolveMatchOpponent } from './opponentService.js';
+import { addMatchParticipants, getCompetitionTypeLabel, resolveMatchCompetition, type CompetitionType } from './competitionService.js';
+import { validateSetPieceData } from './setPieceService.js';
+import { normalizeMatchFormat, type MatchFormat } from './matchFormatService.js';
+import type { Transaction } from 'kysely';
+import type { Database, MatchesTable, GameEventsTable, GameEventRow, MatchRow, NewMatch } from '../db/schema.js';
+
+/**
+ * Match lifecycle: fixtures are entered as 'scheduled', become 'played' once a result or
+ * stats are saved, and count as stats entered when stats_json is filled in
+ */
+export const MATCH_STATUSES = ['scheduled', 'played', 'cancelled'] as const;
+
+export type MatchStatus = MatchRow['status'];
+
+export function isMatchStatus(value: unknown): value is MatchStatus {
+  return typeof value === 'string' && (MATCH_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Kickoff time as HH:MM (24h)
+ */
+export function isKickoffTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
 
 /**
  * Check if a match has half-time statistics (1st and 2nd half data)
@@ -71,27 +97,38 @@ export function hasHalfTimeStats(statsJson: any): boolean {
 export async function getMatches(filters?: {
   teamId?: number;
   teamIds?: number[];
+  opponentId?: number;
   opponentName?: string;
   startDate?: string;
   endDate?: string;
   competitionType?: string;
+  competitionId?: number;
+  seasonId?: number;
+  status?: MatchStatus;
   missingHalfTimeStats?: boolean;
 }) {
   let query = db
     .selectFrom('matches')
     .leftJoin('teams', 'matches.team_id', 'teams.id')
+    .leftJoin('competitions', 'matches.competition_id', 'competitions.id')
     .select([
       'matches.id',
       'matches.team_id',
+      'matches.opponent_id',
       'matches.opponent_name',
       'matches.match_date',
+      'matches.kickoff_time',
+      'matches.status',
       'matches.competition_type',
+      'matches.competition_id',
       'matches.result',
       'matches.is_home',
+      'matches.format',
       'matches.match_id_external',
       'matches.stats_json',
       'matches.stats_source',
       'matches.stats_computed_at',
+      'matches.stats_formula_version',
       'matches.stats_manual_fields',
       'matches.notes',
       'matches.venue',
@@ -102,6 +139,8 @@ export async function getMatches(filters?: {
       'matches.last_modified_by',
       'teams.slug as team_slug',
       'teams.display_name as team_display_name',
+      'teams.season_id as team_season_id',
+      'competitions.name as competition_name',
     ])
     .orderBy('matches.match_date', 'desc')
     .orderBy('matches.id', 'desc');
@@ -121,6 +160,9 @@ export async function getMatches(filters?: {
     );
   }
 
+  if (filters?.opponentId) {
+    query = query.where('matches.opponent_id', '=', filters.opponentId);
+  }
   if (filters?.opponentName) {
     query = query.where('matches.opponent_name', 'like', `%${filters.opponentName}%`);
   }
@@ -136,6 +178,17 @@ export async function getMatches(filters?: {
   if (filters?.competitionType) {
     query = query.where('matches.competition_type', '=', filters.competitionType);
   }
+  if (filters?.competitionId) {
+    query = query.where('matches.competition_id', '=', filters.competitionId);
+  }
+  if (filters?.status) {
+    query = query.where('matches.status', '=', filters.status);
+  }
+
+  if (filters?.seasonId) {
+    // Season comes from the team (unlinked matches have no season)
+    query = query.where('teams.season_id', '=', filters.seasonId);
+  }
 
   const matches = await query.execute();
 
@@ -174,15 +227,24 @@ export async function getMatches(filters?: {
       teamId: match.team_id,
       teamSlug: match.team_slug || null,
       teamDisplayName: match.team_display_name || null,
+      seasonId: match.team_season_id ?? null,
+      opponentId: match.opponent_id,
       opponentName: match.opponent_name,
       matchDate: matchDateString,
+      kickoffTime: match.kickoff_time,
+      status: match.status,
+      statsEntered: Boolean(match.stats_json),
       competitionType: match.competition_type,
+      competitionId: match.competition_id,
+      competitionName: match.competition_name ?? null,
       result: match.result,
       isHome: match.is_home !== null ? Boolean(match.is_home) : null,
+      format: match.format,
       matchIdExternal: match.match_id_external || null,
       statsJson: match.stats_json ? JSON.parse(match.stats_json) : null,
       statsSource: match.stats_source,
       statsComputedAt: match.stats_computed_at ? new Date(match.stats_computed_at) : null,
+      statsFormulaVersion: match.stats_formula_version,
       statsManualFields: match.stats_manual_fields ? JSON.parse(match.stats_manual_fields) : null,
       notes: match.notes,
       venue: match.venue,
@@ -204,6 +266,36 @@ export async function getMatches(filters?: {
   return processedMatches;
 }
 
+/**
+ * Find an existing match for a team on a date with the same opponent
+ * Tries the opponent registry first (any alias of the opponent counts), then an exact
+ * (normalized) opponent name, then fuzzy matching at 70% similarity
+ * matchDate must be YYYY-MM-DD
+ */
+export async function findExistingMatch(teamId: number, opponentName: string, matchDate: string) {
+  const matches = await getMatches({
+    teamId,
+    startDate: matchDate,
+    endDate: matchDate,
+  });
+
+  const opponent = await findOpponentByName(db, opponentName);
+  const registryMatch = opponent && matches.find(match => match.opponentId === opponent.id);
+  if (registryMatch) {
+    return registryMatch;
+  }
+
+  const normalizedInput = normalizeOpponentName(opponentName);
+  const exactMatch = matches.find(match =>
+    normalizeOpponentName(match.opponentName) === normalizedInput
+  );
+  if (exactMatch) {
+    return exactMatch;
+  }
+
+  return matches.find(match => opponentNamesMatch(match.opponentName, opponentName, 0.7)) || null;
+}
+
 /**
  * Get match by ID
  */
@@ -231,6 +323,16 @@ export async function getMatchById(matchId: number) {
     }
   }
 
+  let competitionName: string | null = null;
+  if (match.competition_id) {
+    const competition = await db
+      .selectFrom('competitions')
+      .select('name')
+      .where('id', '=', match.competition_id)
+      .executeTakeFirst();
+    competitionName = competition?.name ?? null;
+  }
+
   // Convert match_date to string format (YYYY-MM-DD) if it's a Date object
   // PostgreSQL may return dates as Date objects even though schema says string
   // IMPORTANT: Use local date methods to avoid timezone shifts (don't use toISOString)
@@ -265,15 +367,23 @@ export async function getMatchById(matchId: number) {
     teamId: match.team_id,
     teamSlug,
     teamDisplayName,
+    opponentId: match.opponent_id,
     opponentName: match.opponent_name,
     matchDate: matchDateString,
+    kickoffTime: match.kickoff_time,
+    status: match.status,
+    statsEntered: Boolean(match.stats_json),
     competitionType: match.competition_type,
+    competitionId: match.competition_id,
+    competitionName,
     result: match.result,
     isHome: match.is_home !== null ? Boolean(match.is_home) : null,
+    format: match.format,
     matchIdExternal: match.match_id_external || null,
     statsJson: match.stats_json ? JSON.parse(match.stats_json) : null,
     statsSource: match.stats_source,
     statsComputedAt: match.stats_computed_at ? new Date(match.stats_computed_at) : null,
+    statsFormulaVersion: match.stats_formula_version,
     statsManualFields: match.stats_manual_fields ? JSON.parse(match.stats_manual_fields) : null,
     notes: match.notes,
     venue: match.venue,
@@ -285,56 +395,159 @@ export async function getMatchById(matchId: number) {
   };
 }
 
+/**
+ * Fields accepted when creating a match
+ */
+export interface MatchInput {
+  teamId?: number | null;
+  /** Registry opponent; when omitted, opponentName is resolved (or registered) via the aliases */
+  opponentId?: number | null;
+  opponentName: string;
+  matchDate: string;
+  kickoffTime?: string | null;
+  /** Defaults to 'played' (a fixture is entered as 'scheduled') */
+  status?: MatchStatus;
+  /** Linked competition; its type label replaces competitionType */
+  competitionId?: number | null;
+  competitionType?: string | null;
+  result?: string | null;
+  isHome?: boolean | null;
+  /** 7v7, 9v9 or 11v11; defaults to the team's format when omitted */
+  format?: MatchFormat | null;
+  matchIdExternal?: string | null;
+  statsJson?: any;
+  statsSource?: string | null;
+  statsComputedAt?: string | null;
+  statsFormulaVersion?: number | null;
+  statsManualFields?: any;
+  notes?: string | null;
+  venue?: string | null;
+  referee?: string | null;
+  createdBy?: number | null;
+}
+
+/**
+ * The format a new match is saved with: the given one, otherwise its team's default
+ */
+async function resolveMatchFormat(
+  trx: Transaction<Database>,
+  matchData: Pick<MatchInput, 'teamId' | 'format'>
+): Promise<MatchFormat | null> {
+  if (matchData.format !== undefined) return normalizeMatchFormat(matchData.format);
+  if (!matchData.teamId) return null;
+  const team = await trx.selectFrom('teams').select('format').where('id', '=', matchData.teamId).executeTakeFirst();
+  return normalizeMatchFormat(team?.format);
+}
+
+function toMatchInsert(
+  matchData: MatchInput,
+  opponent: { id: number; name: string },
+  competition: { id: number; type: CompetitionType } | null,
+  format: MatchFormat | null,
+  now: string
+): NewMatch {
+  return {
+    team_id: matchData.teamId || null,
+    opponent_id: opponent.id,
+    opponent_name: opponent.name,
+    competition_id: competition?.id ?? null,
+    match_date: matchData.matchDate,
+    kickoff_time: matchData.kickoffTime || null,
+    status: matchData.status || 'played',
+    competition_type: competition ? getCompetitionTypeLabel(competition.type) : matchData.competitionType || null,
+    result: matchData.result || null,
+    is_home: matchData.isHome !== undefined && matchData.isHome !== null ? Boolean(matchData.isHome) : null,
+    format,
+    match_id_external: matchData.matchIdExternal || null,
+    stats_json: matchData.statsJson ? JSON.stringify(matchData.statsJson) : null,
+    stats_source: matchData.statsSource || null,
+    stats_computed_at: matchData.statsComputedAt || null,
+    stats_formula_version: matchData.statsFormulaVersion ?? null,
+    stats_manual_fields: matchData.statsManualFields ? JSON.stringify(matchData.statsManualFields) : null,
+    notes: matchData.notes || null,
+    venue: matchData.venue || null,
+    referee: matchData.referee || null,
+    created_by: matchData.createdBy || null,
+    created_at: now,
+    updated_at: now,
+    last_modified_by: matchData.createdBy || null,
+  };
+}
+
 /**
  * Create a new match
  */
-export async function createMatch(
-  matchData: {
-    teamId?: number | null;
-    opponentName: string;
-    matchDate: string;
-    competitionType?: string | null;
-    result?: string | null;
-    isHome?: boolean | null;
-    matchIdExternal?: string | null;
-    statsJson?: any;
-    statsSource?: string | null;
-    statsComputedAt?: string | null;
-    statsManualFields?: any;
-    notes?: string | null;
-    venue?: string | null;
-    referee?: string | null;
-    createdBy?: number | null;
+export async function createMatch(matchData: MatchInput) {
+  const matchId = await db.transaction().execute(async (trx) => {
+    const opponent = await resolveMatchOpponent(trx, matchData);
+    const competition = await resolveMatchCompetition(trx, matchData.competitionId);
+    const format = await resolveMatchFormat(trx, matchData);
+    const result = await trx
+      .insertInto('matches')
+      .values(toMatchInsert(matchData, opponent, competition, format, new Date().toISOString()))
+      .returning('id')
+      .executeTakeFirstOrThrow();
+    if (competition) {
+      await addMatchParticipants(trx, competition.id, matchData.teamId || null, opponent.id);
+    }
+    await recordMatchRevision(trx, result.id, 'create', matchData.createdBy);
+    return result.id;
+  });
+
+  return getMatchById(matchId);
+}
+
+/**
+ * Create many matches in a single transaction (used by spreadsheet import).
+ * Callers should validate every row first; any database error rolls back the whole batch.
+ * Returns the new match IDs in input order.
+ */
+export async function createMatchesBulk(matches: MatchInput[]): Promise<number[]> {
+  if (matches.length === 0) {
+    return [];
   }
-) {
+
   const now = new Date().toISOString();
 
-  const result = await db
-    .insertInto('matches')
-    .values({
-      team_id: matchData.teamId || null,
-      opponent_name: matchData.opponentName,
-      match_date: matchData.matchDate,
-      competition_type: matchData.competitionType || null,
-      result: matchData.result || null,
-      is_home: matchData.isHome !== undefined && matchData.isHome !== null ? Boolean(matchData.isHome) : null,
-      match_id_external: matchData.matchIdExternal || null,
-      stats_json: matchData.statsJson ? JSON.stringify(matchData.statsJson) : null,
-      stats_source: matchData.statsSource || null,
-      stats_computed_at: matchData.statsComputedAt || null,
-      stats_manual_fields: matchData.statsManualFields ? JSON.stringify(matchData.statsManualFields) : null,
-      notes: matchData.notes || null,
-      venue: matchData.venue || null,
-      referee: matchData.referee || null,
-      created_by: matchData.createdBy || null,
-      created_at: now,
-      updated_at: now,
-      last_modified_by: matchData.createdBy || null,
-    })
-    .returning('id')
-    .executeTakeFirstOrThrow();
+  return db.transaction().execute(async (trx) => {
+    // Many rows share an opponent (or competition, or team format); resolve each distinct one once
+    const opponents = new Map<string, Promise<{ id: number; name: string }>>();
+    const competitions = new Map<number, Promise<{ id: number; type: CompetitionType } | null>>();
+    const teamFormats = new Map<number, Promise<MatchFormat | null>>();
+    const rows: NewMatch[] = [];
+    for (const match of matches) {
+      const key = match.opponentId ? `id:${match.opponentId}` : `name:${normalizeOpponentName(match.opponentName)}`;
+      if (!opponents.has(key)) {
+        opponents.set(key, resolveMatchOpponent(trx, match));
+      }
+      const competitionId = match.competitionId || 0;
+      if (!competitions.has(competitionId)) {
+        competitions.set(competitionId, resolveMatchCompetition(trx, competitionId));
+      }
+      const teamId = match.teamId || 0;
+      if (match.format === undefined && !teamFormats.has(teamId)) {
+        teamFormats.set(teamId, resolveMatchFormat(trx, { teamId }));
+      }
+      const format = match.format !== undefined ? normalizeMatchFormat(match.format) : await teamFormats.get(teamId)!;
+      const row = toMatchInsert(match, await opponents.get(key)!, await competitions.get(competitionId)!, format, now);
+      if (row.competition_id) {
+        await addMatchParticipants(trx, row.competition_id, row.team_id ?? null, row.opponent_id ?? null);
+      }
+      rows.push(row);
+    }
 
-  return getMatchById(result.id);
+    const ids: number[] = [];
+    for (let i = 0; i < rows.length; i += BULK_INSERT_CHUNK_SIZE) {
+      const chunk = await trx
+        .insertInto('matches')
+        .values(rows.slice(i, i + BULK_INSERT_CHUNK_SIZE))
+        .returningAll()
+        .execute();
+      await recordMatchRevisionsForRows(trx, chunk, 'create');
+      ids.push(...chunk.map(row => row.id));
+    }
+    return ids;
+  });
 }
 
 /**
@@ -344,15 +557,24 @@ export async function updateMatch(
   matchId: number,
   updates: {
     teamId?: number | null;
+    opponentId?: number | null;
     opponentName?: string;
     matchDate?: string;
+    kickoffTime?: string | null;
+    /** When omitted, a scheduled match becomes 'played' once a result or stats are saved */
+    status?: MatchStatus;
+    /** null unlinks the match from its competition */
+    competitionId?: number | null;
     competitionType?: string | null;
     result?: string | null;
     isHome?: boolean | null;
+    /** null clears the format (the match is then treated as two halves) */
+    format?: MatchFormat | null;
     matchIdExternal?: string | null;
     statsJson?: any;
     statsSource?: string | null;
     statsComputedAt?: string | null;
+    statsFormulaVersion?: number | null;
     statsManualFields?: any;
     notes?: string | null;
     venue?: string | null;
@@ -365,52 +587,159 @@ export async function updateMatch(
   };
 
   if (updates.teamId !== undefined) updateData.team_id = updates.teamId;
-  if (updates.opponentName !== undefined) updateData.opponent_name = updates.opponentName;
   if (updates.matchDate !== undefined) updateData.match_date = updates.matchDate;
+  if (updates.kickoffTime !== undefined) updateData.kickoff_time = updates.kickoffTime || null;
+  if (updates.status !== undefined) updateData.status = updates.status;
   if (updates.competitionType !== undefined) updateData.competition_type = updates.competitionType;
   if (updates.result !== undefined) updateData.result = updates.result;
   if (updates.isHome !== undefined) updateData.is_home = updates.isHome !== null ? Boolean(updates.isHome) : null;
+  if (updates.format !== undefined) updateData.format = normalizeMatchFormat(updates.format);
   if (updates.matchIdExternal !== undefined) updateData.match_id_external = updates.matchIdExternal || null;
   if (updates.statsJson !== undefined) updateData.stats_json = updates.statsJson ? JSON.stringify(updates.statsJson) : null;
   if (updates.statsSource !== undefined) updateData.stats_source = updates.statsSource;
   if (updates.statsComputedAt !== undefined) updateData.stats_computed_at = updates.statsComputedAt;
+  if (updates.statsFormulaVersion !== undefined) updateData.stats_formula_version = updates.statsFormulaVersion;
   if (updates.statsManualFields !== undefined) updateData.stats_manual_fields = updates.statsManualFields ? JSON.stringify(updates.statsManualFields) : null;
   if (updates.notes !== undefined) updateData.notes = updates.notes;
   if (updates.venue !== undefined) updateData.venue = updates.venue;
   if (updates.referee !== undefined) updateData.referee = updates.referee;
   if (updates.lastModifiedBy !== undefined) updateData.last_modified_by = updates.lastModifiedBy;
 
-  await db
-    .updateTable('matches')
-    .set(updateData)
-    .where('id', '=', matchId)
-    .execute();
+  await db.transaction().execute(async (trx) => {
+    if (updates.opponentId || updates.opponentName !== undefined) {
+      const opponent = await resolveMatchOpponent(trx, updates);
+      updateData.opponent_id = opponent.id;
+      updateData.opponent_name = opponent.name;
+    }
+    if (updates.competitionId !== undefined) {
+      const competition = await resolveMatchCompetition(trx, updates.competitionId);
+      updateData.competition_id = competition?.id ?? null;
+      if (competition) {
+        updateData.competition_type = getCompetitionTypeLabel(competition.type);
+      }
+    }
+    if (updates.status === undefined && (updates.result || updates.statsJson)) {
+      const current = await trx.selectFrom('matches').select('status').where('id', '=', matchId).executeTakeFirst();
+      if (current?.status === 'scheduled') {
+        updateData.status = 'played';
+      }
+    }
+    await ensureBaselineRevision(trx, matchId);
+    const updated = await trx
+      .updateTable('matches')
+      .set(updateData)
+      .where('id', '=', matchId)
+      .returning(['competition_id', 'team_id', 'opponent_id'])
+      .executeTakeFirst();
+    if (updated?.competition_id) {
+      await addMatchParticipants(trx, updated.competition_id, updated.team_id, updated.opponent_id);
+    }
+    await recordMatchRevision(trx, matchId, 'update', updates.lastModifiedBy);
+  });
 
   return getMatchById(matchId);
 }
 
 /**
- * Delete a match
+ * Delete a match (its last state is kept as a 'delete' revision so it can be restored)
  */
-export async function deleteMatch(matchId: number): Promise<void> {
-  await db
-    .deleteFrom('matches')
-    .where('id', '=', matchId)
-    .execute();
+export async function deleteMatch(matchId: number, deletedBy?: number | null): Promise<void> {
+  await db.transaction().execute(async (trx) => {
+    await ensureBaselineRevision(trx, matchId);
+    await recordMatchRevision(trx, matchId, 'delete', deletedBy);
+    await trx
+      .deleteFrom('matches')
+      .where('id', '=', matchId)
+      .execute();
+  });
+}
+
+type MatchListItem = Awaited<ReturnType<typeof getMatches>>[number];
+
+export interface TeamFixtures {
+  teamId: number;
+  teamSlug: string | null;
+  teamDisplayName: string | null;
+  fixtures: MatchListItem[];
 }
 
 /**
- * Get game events for a match
+ * Next scheduled fixtures (on or after fromDate, YYYY-MM-DD) for each team, soonest first.
+ * teamIds limits it to those teams. Teams are ordered by their next fixture.
  */
-export async function getMatchEvents(matchId: number) {
-  const events = await db
-    .selectFrom('game_events')
-    .selectAll()
-    .where('match_id', '=', matchId)
-    .orderBy('timestamp', 'asc')
-    .execute();
+export async function getUpcomingFixtures(options: {
+  fromDate: string;
+  teamIds?: number[];
+  perTeam?: number;
+}): Promise<TeamFixtures[]> {
+  const perTeam = options.perTeam ?? 3;
+  const matches = await getMatches({ status: 'scheduled', startDate: options.fromDate, teamIds: options.teamIds });
+
+  // getMatches lists newest first; fixtures read soonest first (kickoff time breaks ties)
+  const sorted = matches
+    .filter(match => match.teamId !== null)
+    .sort((a, b) =>
+      a.matchDate.localeCompare(b.matchDate) ||
+      (a.kickoffTime ?? '99:99').localeCompare(b.kickoffTime ?? '99:99') ||
+      a.id - b.id
+    );
+
+  const byTeam = new Map<number, TeamFixtures>();
+  for (const match of sorted) {
+    const teamId = match.teamId!;
+    let team = byTeam.get(teamId);
+    if (!team) {
+      team = { teamId, teamSlug: match.teamSlug, teamDisplayName: match.teamDisplayName, fixtures: [] };
+      byTeam.set(teamId, team);
+    }
+    if (team.fixtures.length < perTeam) {
+      team.fixtures.push(match);
+    }
+  }
+  return [...byTeam.values()];
+}
+
+/**
+ * Game event fields accepted on create/update (camelCase, as sent by the API)
+ */
+export interface GameEventInput {
+  eventType: string;
+  eventCategory?: string | null;
+  timestamp?: number | null;
+  period?: number | null;
+  minute?: number | null;
+  second?: number | null;
+  fieldPosition?: string | null;
+  xCoordinate?: number | null;
+  yCoordinate?: number | null;
+  eventData?: any;
+  isJogaTeam?: boolean;
+  /** Roster player; their name is stored as playerName */
+  playerId?: number | null;
+  playerName?: string | null;
+  notes?: string | null;
+  tags?: string | string[] | null;
+}
+
+/**
+ * Filters for listing a match's game events
+ */
+export interface GameEventFilters {
+  eventType?: string;
+  period?: number;
+  playerId?: number;
+  playerName?: string;
+  tags?: string[];
+}
 
-  return events.map(event => ({
+// Max rows accepted by a single bulk insert request
+export const MAX_BULK_GAME_EVENTS = 2000;
+
+// Rows per INSERT statement (keeps bulk inserts well under Postgres' bind parameter limit)
+const BULK_INSERT_CHUNK_SIZE = 500;
+
+function mapGameEventRow(event: GameEventRow) {
+  return {
     id: event.id,
     matchId: event.match_id,
     eventType: event.event_type,
@@ -424,58 +753,241 @@ export async function getMatchEvents(matchId: number) {
     yCoordinate: event.y_coordinate,
     eventData: event.event_data ? JSON.parse(event.event_data) : null,
     isJogaTeam: Boolean(event.is_joga_team),
+    playerId: event.player_id,
     playerName: event.player_name,
     notes: event.notes,
-    tags: event.tags,
+    tags: deserializeEventTags(event.tags),
     isProcessed: Boolean(event.is_processed),
     processedAt: event.processed_at ? new Date(event.processed_at) : null,
     createdAt: new Date(event.created_at),
-  }));
+  };
 }
 
 /**
- * Create a game event
+ * Parse tags from a comma-separated string or an array into a clean, de-duplicated list
  */
-export async function createGameEvent(
-  eventData: {
-    matchId: number;
-    eventType: string;
-    eventCategory?: string | null;
-    timestamp?: number | null;
-    period?: number | null;
-    minute?: number | null;
-    second?: number | null;
-    fieldPosition?: string | null;
-    xCoordinate?: number | null;
-    yCoordinate?: number | null;
-    eventData?: any;
-    isJogaTeam?: boolean;
-    playerName?: string | null;
-    notes?: string | null;
-    tags?: string | null;
+export function parseEventTags(tags: string | string[] | null | undefined): string[] {
+  if (!tags) {
+    return [];
   }
-) {
+  const list = Array.isArray(tags) ? tags : tags.split(',');
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of list) {
+    const trimmed = String(tag).trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase());
+      result.push(trimmed);
+    }
+  }
+  return result;
+}
+
+/**
+ * Tags are stored as a JSON array string (e.g. '["counter","high press"]')
+ */
+function serializeEventTags(tags: string | string[] | null | undefined): string | null {
+  const parsed = parseEventTags(tags);
+  return parsed.length > 0 ? JSON.stringify(parsed) : null;
+}
+
+// Escape LIKE wildcards (and the escape character) so user input matches literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[%_\\]/g, '\\$&');
+}
+
+/**
+ * Read stored tags (JSON array, or a comma-separated list written by older clients)
+ */
+function deserializeEventTags(tags: string | null): string[] | null {
+  if (!tags) {
+    return null;
+  }
+  if (tags.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(tags);
+      if (Array.isArray(parsed)) {
+        return parseEventTags(parsed);
+      }
+    } catch {
+      // Fall through to comma-separated parsing
+    }
+  }
+  return parseEventTags(tags);
+}
+
+/**
+ * Validate a game event payload.
+ * Returns a list of error messages (empty when valid).
+ * With partial = true (updates), eventType may be omitted.
+ */
+export function validateGameEventInput(input: any, options?: { partial?: boolean }): string[] {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['Event must be an object'];
+  }
+
+  if (input.eventType === undefined && !options?.partial) {
+    errors.push('Event type is required');
+  } else if (input.eventType !== undefined && (typeof input.eventType !== 'string' || !input.eventType.trim())) {
+    errors.push('Event type must be a non-empty string');
+  }
+
+  const numberFields = ['timestamp', 'period', 'minute', 'second', 'xCoordinate', 'yCoordinate'];
+  for (const field of numberFields) {
+    const value = input[field];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value))) {
+      errors.push(`${field} must be a number`);
+    }
+  }
+  if (typeof input.period === 'number' && (!Number.isInteger(input.period) || input.period < 1)) {
+    errors.push('period must be a positive integer');
+  }
+  if (typeof input.minute === 'number' && input.minute < 0) {
+    errors.push('minute cannot be negative');
+  }
+  if (typeof input.second === 'number' && (input.second < 0 || input.second >= 60)) {
+    errors.push('second must be between 0 and 59');
+  }
+
+  const stringFields = ['eventCategory', 'fieldPosition', 'playerName', 'notes'];
+  for (const field of stringFields) {
+    const value = input[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (input.playerId !== undefined && input.playerId !== null && (!Number.isInteger(input.playerId) || input.playerId < 1)) {
+    errors.push('playerId must be a player ID');
+  }
+
+  if (input.isJogaTeam !== undefined && typeof input.isJogaTeam !== 'boolean') {
+    errors.push('isJogaTeam must be a boolean');
+  }
+
+  if (input.tags !== undefined && input.tags !== null) {
+    const validTags = typeof input.tags === 'string'
+      || (Array.isArray(input.tags) && input.tags.every((tag: unknown) => typeof tag === 'string'));
+    if (!validTags) {
+      errors.push('tags must be a string or an array of strings');
+    }
+  }
+
+  errors.push(...validateSetPieceData(input.eventType, input.eventData));
+
+  return errors;
+}
+
+function toGameEventInsert(matchId: number, eventData: GameEventInput, createdAt: string) {
+  return {
+    match_id: matchId,
+    event_type: eventData.eventType,
+    event_category: eventData.eventCategory || null,
+    timestamp: eventData.timestamp ?? null,
+    period: eventData.period ?? null,
+    minute: eventData.minute ?? null,
+    second: eventData.second ?? null,
+    field_position: eventData.fieldPosition || null,
+    x_coordinate: eventData.xCoordinate ?? null,
+    y_coordinate: eventData.yCoordinate ?? null,
+    event_data: eventData.eventData ? JSON.stringify(eventData.eventData) : null,
+    is_joga_team: eventData.isJogaTeam !== undefined ? (eventData.isJogaTeam ? 1 : 0) : 1,
+    player_id: eventData.playerId ?? null,
+    player_name: eventData.playerName || null,
+    notes: eventData.notes || null,
+    tags: serializeEventTags(eventData.tags),
+    is_processed: 0,
+    created_at: createdAt,
+  };
+}
+
+/**
+ * Fill in playerName from the roster for events that reference a player.
+ * Throws when a playerId isn't a player.
+ */
+async function withRosterPlayerNames<T extends Partial<GameEventInput>>(events: T[]): Promise<T[]> {
+  const ids = Array.from(new Set(events.map(event => event.playerId).filter((id): id is number => Boolean(id))));
+  if (ids.length === 0) {
+    return events;
+  }
+  const players = await db.selectFrom('players').select(['id', 'name']).where('id', 'in', ids).execute();
+  const names = new Map(players.map(player => [player.id, player.name]));
+  const missing = ids.filter(id => !names.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Player not found: ${missing.join(', ')}`);
+  }
+  return events.map(event => (event.playerId ? { ...event, playerName: names.get(event.playerId) } : event));
+}
+
+/**
+ * Get game events for a match, optionally filtered.
+ * Tag filters match events carrying every requested tag.
+ */
+export async function getMatchEvents(matchId: number, filters?: GameEventFilters) {
+  let query = db
+    .selectFrom('game_events')
+    .selectAll()
+    .where('match_id', '=', matchId)
+    .orderBy('timestamp', 'asc')
+    .orderBy('id', 'asc');
+
+  if (filters?.eventType) {
+    query = query.where('event_type', '=', filters.eventType);
+  }
+  if (filters?.period !== undefined) {
+    query = query.where('period', '=', filters.period);
+  }
+  if (filters?.playerId) {
+    query = query.where('player_id', '=', filters.playerId);
+  }
+  if (filters?.playerName) {
+    query = query.where('player_name', '=', filters.playerName);
+  }
+  for (const tag of parseEventTags(filters?.tags)) {
+    // Match a whole tag, ignoring case, without false positives ("press" vs "high press");
+    // also covers legacy comma-separated values. % and _ in the tag match literally.
+    const json = escapeLikePattern(JSON.stringify(tag));
+    const plain = escapeLikePattern(tag);
+    query = query.where((eb) =>
+      eb.or([
+        eb('tags', 'ilike', `%${json}%`),
+        eb('tags', 'ilike', plain),
+        eb('tags', 'ilike', `${plain},%`),
+        eb('tags', 'ilike', `%,${plain}`),
+        eb('tags', 'ilike', `%, ${plain}`),
+        eb('tags', 'ilike', `%,${plain},%`),
+        eb('tags', 'ilike', `%, ${plain},%`),
+      ])
+    );
+  }
+
+  const events = await query.execute();
+  return events.map(mapGameEventRow);
+}
+
+/**
+ * Get a single game event by ID
+ */
+export async function getGameEventById(eventId: number) {
+  const event = await db
+    .selectFrom('game_events')
+    .selectAll()
+    .where('id', '=', eventId)
+    .executeTakeFirst();
+
+  return event ? mapGameEventRow(event) : null;
+}
+
+/**
+ * Create a game event
+ */
+export async function createGameEvent(eventData: GameEventInput & { matchId: number }) {
+  const [resolved] = await withRosterPlayerNames([eventData]);
   const result = await db
     .insertInto('game_events')
-    .values({
-      match_id: eventData.matchId,
-      event_type: eventData.eventType,
-      event_category: eventData.eventCategory || null,
-      timestamp: eventData.timestamp || null,
-      period: eventData.period || null,
-      minute: eventData.minute || null,
-      second: eventData.second || null,
-      field_position: eventData.fieldPosition || null,
-      x_coordinate: eventData.xCoordinate || null,
-      y_coordinate: eventData.yCoordinate || null,
-      event_data: eventData.eventData ? JSON.stringify(eventData.eventData) : null,
-      is_joga_team: eventData.isJogaTeam !== undefined ? (eventData.isJogaTeam ? 1 : 0) : 1,
-      player_name: eventData.playerName || null,
-      notes: eventData.notes || null,
-      tags: eventData.tags || null,
-      is_processed: 0,
-      created_at: new Date().toISOString(),
-    })
+    .values(toGameEventInsert(eventData.matchId, resolved, new Date().toISOString()))
     .returning('id')
     .executeTakeFirstOrThrow();
 
@@ -485,25 +997,83 @@ export async function createGameEvent(
     .where('id', '=', result.id)
     .executeTakeFirstOrThrow();
 
-  return {
-    id: event.id,
-    matchId: event.match_id,
-    eventType: event.event_type,
-    eventCategory: event.event_category,
-    timestamp: event.timestamp,
-    period: event.period,
-    minute: event.minute,
-    second: event.second,
-    fieldPosition: event.field_position,
-    xCoordinate: event.x_coordinate,
-    yCoordinate: event.y_coordinate,
-    eventData: event.event_data ? JSON.parse(event.event_data) : null,
-    isJogaTeam: Boolean(event.is_joga_team),
-    playerName: event.player_name,
-    notes: event.notes,
-    tags: event.tags,
-    isProcessed: Boolean(event.is_processed),
-    processedAt: event.processed_at ? new Date(event.processed_at) : null,
-    createdAt: new Date(event.created_at),
+  return mapGameEventRow(event);
+}
+
+/**
+ * Create many game events for a match in a single transaction.
+ * Callers should validate every row first; any database error rolls back the whole batch.
+ */
+export async function createGameEventsBulk(matchId: number, events: GameEventInput[]) {
+  if (events.length === 0) {
+    return [];
+  }
+
+  const createdAt = new Date().toISOString();
+  const rows = (await withRosterPlayerNames(events)).map(event => toGameEventInsert(matchId, event, createdAt));
+
+  const inserted = await db.transaction().execute(async (trx) => {
+    const results: GameEventRow[] = [];
+    for (let i = 0; i < rows.length; i += BULK_INSERT_CHUNK_SIZE) {
+      const chunk = await trx
+        .insertInto('game_events')
+        .values(rows.slice(i, i + BULK_INSERT_CHUNK_SIZE))
+        .returningAll()
+        .execute();
+      results.push(...chunk);
+    }
+    return results;
+  });
+
+  return inserted.map(mapGameEventRow);
+}
+
+/**
+ * Update a game event.
+ * The event is flagged unprocessed so it is picked up again by stats derivation.
+ */
+export async function updateGameEvent(eventId: number, updates: Partial<GameEventInput>) {
+  const updateData: any = {
+    is_processed: 0,
+    processed_at: null,
   };
+
+  if (updates.eventType !== undefined) updateData.event_type = updates.eventType;
+  if (updates.eventCategory !== undefined) updateData.event_category = updates.eventCategory;
+  if (updates.timestamp !== undefined) updateData.timestamp = updates.timestamp;
+  if (updates.period !== undefined) updateData.period = updates.period;
+  if (updates.minute !== undefined) updateData.minute = updates.minute;
+  if (updates.second !== undefined) updateData.second = updates.second;
+  if (updates.fieldPosition !== undefined) updateData.field_position = updates.fieldPosition;
+  if (updates.xCoordinate !== undefined) updateData.x_coordinate = updates.xCoordinate;
+  if (updates.yCoordinate !== undefined) updateData.y_coordinate = updates.yCoordinate;
+  if (updates.eventData !== undefined) updateData.event_data = updates.eventData ? JSON.stringify(updates.eventData) : null;
+  if (updates.isJogaTeam !== undefined) updateData.is_joga_team = updates.isJogaTeam ? 1 : 0;
+  if (updates.playerId !== undefined) {
+    updateData.player_id = updates.playerId;
+    if (updates.playerId) {
+      updateData.player_name = (await withRosterPlayerNames([updates]))[0].playerName;
+    }
+  }
+  if (updates.playerName !== undefined && !updates.playerId) updateData.player_name = updates.playerName;
+  if (updates.notes !== undefined) updateData.notes = updates.notes;
+  if (updates.tags !== undefined) updateData.tags = serializeEventTags(updates.tags);
+
+  await db
+    .updateTable('game_events')
+    .set(updateData)
+    .where('id', '=', eventId)
+    .execute();
+
+  return getGameEventById(eventId);
+}
+
+/**
+ * Delete a game event
+ */
+export async function deleteGameEvent(eventId: number): Promise<void> {
+  await db
+    .deleteFrom('game_events')
+    .where('id', '=', eventId)
+    .execute();
 }
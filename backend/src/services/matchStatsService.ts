@@ -78,6 +78,29 @@ export interface RawMatchStats {
   freeKicksFor?: number;
   freeKicksAgainst?: number;
   
+  // Defense (JOGA's defensive actions; entered per half or as full-game totals)
+  tackles1stHalf?: number;
+  tackles2ndHalf?: number;
+  tackles?: number;
+  interceptions1stHalf?: number;
+  interceptions2ndHalf?: number;
+  interceptions?: number;
+  clearances1stHalf?: number;
+  clearances2ndHalf?: number;
+  clearances?: number;
+  blocks1stHalf?: number;
+  blocks2ndHalf?: number;
+  blocks?: number;
+  recoveries1stHalf?: number;
+  recoveries2ndHalf?: number;
+  recoveries?: number;
+  saves1stHalf?: number;
+  saves2ndHalf?: number;
+  saves?: number;
+  oppFinalThirdEntries1stHalf?: number; // Opponent entries into JOGA's defensive third
+  oppFinalThirdEntries2ndHalf?: number;
+  oppFinalThirdEntries?: number;
+  
   // Match Info
   matchDuration?: number; // minutes
 }
@@ -115,9 +138,9 @@ export interface ComputedMatchStats {
   
   // SPI (Sustained Passing Index)
   spi?: number; // Sum of passes in pass strings / total passes * 100
-  'spi (w)'?: number; // Weighted SPI (TODO: formula needed)
+  'spi (w)'?: number; // Weighted SPI: pass-string passes weighted by length (see SpiWeighting) / total passes * 100
   'opp spi'?: number; // Opponent SPI: Sum of opponent passes in pass strings / total opponent passes * 100
-  'opp spi (w)'?: number; // Weighted Opponent SPI (TODO: formula needed)
+  'opp spi (w)'?: number; // Weighted Opponent SPI: same weighting on opponent pass strings
   
   // Total Attempts (Veo-specific: attempts = shots + goals)
   'total attempts (1st half)'?: number;
@@ -133,10 +156,115 @@ export interface ComputedMatchStats {
   'pass strings <4'?: number; // Less than 4 (only 3-pass string)
   'pass strings 4+'?: number; // 4 or more (4, 5, 6, 7, 8, 9, 10-pass strings)
   
+  // Defense
+  'defensive actions'?: number; // tackles + interceptions + clearances + blocks + recoveries
+  'opp passes per defensive action'?: number; // passesAgainst / defensive actions (PPDA over the whole pitch)
+  'save %'?: number; // saves / (saves + goalsAgainst) * 100
+  'opp entry attempt %'?: number; // opp total attempts / oppFinalThirdEntries * 100
+  
   // Allow dynamic fields
   [key: string]: any;
 }
 
+/**
+ * Defensive stats entered per half or quarter (e.g. "Tackles (1st)" -> tackles1stHalf,
+ * "Tackles (Q3)" -> tacklesPeriod3) or as full-game totals
+ */
+export const DEFENSIVE_STAT_FIELDS = [
+  'tackles',
+  'interceptions',
+  'clearances',
+  'blocks',
+  'recoveries',
+  'saves',
+  'oppFinalThirdEntries',
+] as const;
+
+export type DefensiveStatField = typeof DEFENSIVE_STAT_FIELDS[number];
+
+// Actions summed into 'defensive actions' (saves are counted separately)
+const DEFENSIVE_ACTION_FIELDS: DefensiveStatField[] = ['tackles', 'interceptions', 'clearances', 'blocks', 'recoveries'];
+
+/**
+ * Match a lowercased form/sheet field name to a defensive stat, e.g. "tackles (1st)" or "oppfinalthirdentries"
+ */
+function matchDefensiveField(lowerKey: string): DefensiveStatField | undefined {
+  if (/final\s*third\s*entr/.test(lowerKey)) {
+    return lowerKey.includes('opp') ? 'oppFinalThirdEntries' : undefined;
+  }
+  // "Shots Blocked (2nd)" or "Goals Saved" describe shots, not defensive actions
+  if (/\b(shots?|attempts?|goals?)\b/.test(lowerKey)) return undefined;
+  if (/\btackle/.test(lowerKey)) return 'tackles';
+  if (/\bintercept/.test(lowerKey)) return 'interceptions';
+  if (/\bclearance/.test(lowerKey)) return 'clearances';
+  if (/\bblocks?\b/.test(lowerKey)) return 'blocks';
+  if (/\brecover/.test(lowerKey)) return 'recoveries';
+  if (/\bsaves?\b/.test(lowerKey)) return 'saves';
+  return undefined;
+}
+
+// Highest period number read from "<stat>Period<n>" fields
+export const MAX_PERIODS = 8;
+
+/**
+ * Raw stat field names for each period of a stat: "<stat>1stHalf"/"<stat>2ndHalf" for halves,
+ * "<stat>Period<n>" for any other period count (quarters)
+ */
+export function getPeriodFieldNames(field: string, periodCount: number): string[] {
+  if (periodCount === 2) {
+    return [`${field}1stHalf`, `${field}2ndHalf`];
+  }
+  return Array.from({ length: periodCount }, (_, i) => `${field}Period${i + 1}`);
+}
+
+/**
+ * Values entered per period for a stat, in order. Quarters (and any other period count) are
+ * stored as "<stat>Period<n>" (e.g. goalsForPeriod3), halves as "<stat>1stHalf"/"<stat>2ndHalf".
+ * Undefined when the stat was only entered as a full-game total (or not at all).
+ */
+export function getPeriodValues(raw: Record<string, any>, field: string): number[] | undefined {
+  const periods: number[] = [];
+  for (let n = 1; n <= MAX_PERIODS; n++) {
+    const value = raw[`${field}Period${n}`];
+    if (value !== undefined) {
+      periods[n - 1] = Number(value ?? 0);
+    }
+  }
+  if (periods.length > 0) {
+    return Array.from(periods, value => value ?? 0);
+  }
+
+  const first = raw[`${field}1stHalf`];
+  const second = raw[`${field}2ndHalf`];
+  if (first === undefined && second === undefined) return undefined;
+  return [Number(first ?? 0), Number(second ?? 0)];
+}
+
+/**
+ * Full-game value of a stat: the sum of its periods if any were entered, otherwise the direct total
+ */
+function getFullGameValue(raw: Record<string, any>, field: string): number | undefined {
+  const periods = getPeriodValues(raw, field);
+  if (periods) {
+    return periods.reduce((sum, value) => sum + value, 0);
+  }
+  return raw[field] !== undefined && raw[field] !== null ? Number(raw[field]) : undefined;
+}
+
+function sumPeriods(periods: number[] | undefined): number {
+  return (periods ?? []).reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Label for a period in computed stat names: halves keep "1st half"/"2nd half",
+ * quarters are "q1".."q4", anything else "period n"
+ */
+function getPeriodLabel(index: number, periodCount: number): string {
+  if (periodCount === 2) return index === 0 ? '1st half' : '2nd half';
+  if (periodCount === 4) return `q${index + 1}`;
+  return `period ${index + 1}`;
+}
+
 /**
  * Calculate LPC (Longest Pass Chain)
  * LPC is the highest numbered "X-pass string" field (3-10) with a non-zero value
@@ -159,6 +287,38 @@ function calculateLPC(rawStats: RawMatchStats): number | undefined {
   return maxLPC > 0 ? maxLPC : undefined;
 }
 
+/**
+ * Club-configurable weighting for SPI (w).
+ * Each pass in a string longer than baseStringLength adds bonusPerExtraPass to the string's multiplier.
+ */
+export interface SpiWeighting {
+  baseStringLength: number;
+  bonusPerExtraPass: number;
+}
+
+export const DEFAULT_SPI_WEIGHTING: SpiWeighting = {
+  baseStringLength: 3,
+  bonusPerExtraPass: 0.15,
+};
+
+// Loaded from club_settings at startup (see clubSettingsService)
+let activeSpiWeighting: SpiWeighting = DEFAULT_SPI_WEIGHTING;
+
+export function getSpiWeighting(): SpiWeighting {
+  return activeSpiWeighting;
+}
+
+export function setSpiWeighting(weighting: SpiWeighting): void {
+  activeSpiWeighting = weighting;
+}
+
+/**
+ * Multiplier applied to the passes of an N-pass string in SPI (w)
+ */
+export function getSpiStringMultiplier(stringLength: number, weighting: SpiWeighting = activeSpiWeighting): number {
+  return 1 + Math.max(0, stringLength - weighting.baseStringLength) * weighting.bonusPerExtraPass;
+}
+
 /**
  * Calculate SPI (Sustained Passing Index)
  * Formula: Sum of passes in pass strings / total number of passes
@@ -166,12 +326,16 @@ function calculateLPC(rawStats: RawMatchStats): number | undefined {
  * So for each pass string field, multiply by the number of passes: 3-pass × 3, 4-pass × 4, etc.
  * 
  * Weighted SPI (SPI (w)):
- * - Includes a 15% bonus for each pass in a pass string over 3
+ * - Each pass in a string over baseStringLength adds bonusPerExtraPass to the multiplier
+ *   (default: 15% bonus for each pass over 3)
  * - Formula: ((3*count*1) + (4*count*1.15) + (5*count*1.30) + ...) / total passes
  * - Example: 3 3-pass strings, 4 5-pass strings, 2 6-pass strings, 150 total passes
  *   = ((3*3*1) + (5*4*1.3) + (6*2*1.45)) / 150
  */
-function calculateSPI(rawStats: RawMatchStats): { spi?: number; spiW?: number; oppSpi?: number; oppSpiW?: number } {
+function calculateSPI(
+  rawStats: RawMatchStats,
+  weighting: SpiWeighting
+): { spi?: number; spiW?: number; oppSpi?: number; oppSpiW?: number } {
   const result: { spi?: number; spiW?: number; oppSpi?: number; oppSpiW?: number } = {};
   
   // Calculate total passes from pass strings
@@ -187,22 +351,19 @@ function calculateSPI(rawStats: RawMatchStats): { spi?: number; spiW?: number; o
       const passesInStrings = count * i; // Total passes for this string length
       totalPassesInStrings += passesInStrings;
       
-      // Calculate weighted passes: 15% bonus for each pass over 3
+      // Calculate weighted passes (default: 15% bonus for each pass over 3)
       // For 3-pass: multiplier = 1.0 (no bonus)
       // For 4-pass: multiplier = 1.15 (1 pass over 3 = 15% bonus)
       // For 5-pass: multiplier = 1.30 (2 passes over 3 = 30% bonus)
       // For 6-pass: multiplier = 1.45 (3 passes over 3 = 45% bonus)
       // etc.
-      const passesOver3 = Math.max(0, i - 3);
-      const bonusMultiplier = 1 + (passesOver3 * 0.15);
-      weightedPassesInStrings += passesInStrings * bonusMultiplier;
+      weightedPassesInStrings += passesInStrings * getSpiStringMultiplier(i, weighting);
     }
   }
   
   // Get total passes for the team
-  const passesFor1st = rawStats.passesFor1stHalf ?? 0;
-  const passesFor2nd = rawStats.passesFor2ndHalf ?? 0;
-  const totalPassesFor = passesFor1st + passesFor2nd > 0 ? passesFor1st + passesFor2nd : (rawStats.passesFor ?? 0);
+  const passesForPeriods = sumPeriods(getPeriodValues(rawStats, 'passesFor'));
+  const totalPassesFor = passesForPeriods > 0 ? passesForPeriods : (rawStats.passesFor ?? 0);
   
   // Calculate SPI: total passes in strings / total passes
   if (totalPassesFor > 0 && totalPassesInStrings > 0) {
@@ -266,17 +427,14 @@ function calculateSPI(rawStats: RawMatchStats): { spi?: number; spiW?: number; o
       const oppPassesInStrings = oppStringCount * i;
       totalOppPassesInStrings += oppPassesInStrings;
       
-      // Calculate weighted passes with 15% bonus for each pass over 3
-      const passesOver3 = Math.max(0, i - 3);
-      const bonusMultiplier = 1 + (passesOver3 * 0.15);
-      weightedOppPassesInStrings += oppPassesInStrings * bonusMultiplier;
+      // Same weighting as the team's SPI (w)
+      weightedOppPassesInStrings += oppPassesInStrings * getSpiStringMultiplier(i, weighting);
     }
   }
   
   // Get total passes against (opponent passes)
-  const passesAgainst1st = rawStats.passesAgainst1stHalf ?? 0;
-  const passesAgainst2nd = rawStats.passesAgainst2ndHalf ?? 0;
-  const totalPassesAgainst = passesAgainst1st + passesAgainst2nd > 0 ? passesAgainst1st + passesAgainst2nd : (rawStats.passesAgainst ?? 0);
+  const passesAgainstPeriods = sumPeriods(getPeriodValues(rawStats, 'passesAgainst'));
+  const totalPassesAgainst = passesAgainstPeriods > 0 ? passesAgainstPeriods : (rawStats.passesAgainst ?? 0);
   
   // Calculate Opp SPI: total opponent passes in strings / total opponent passes
   if (totalPassesAgainst > 0 && totalOppPassesInStrings > 0) {
@@ -291,60 +449,53 @@ function calculateSPI(rawStats: RawMatchStats): { spi?: number; spiW?: number; o
   return result;
 }
 
+/**
+ * Version of the formulas in computeMatchStats, stamped on matches as stats_formula_version.
+ * Bump it whenever a derived metric's definition changes so stored stats can be recomputed
+ * (POST /api/matches/recompute-stats or npm run recompute-stats).
+ *
+ * 1 - TSR/conversion rate on total attempts, SPI from pass strings, LPC from highest pass string
+ * 2 - SPI (w) / Opp SPI (w) use the club's SPI weighting
+ */
+export const STATS_FORMULA_VERSION = 2;
+
 /**
  * Compute all derived metrics from raw match statistics
+ * @param options.spiWeighting Overrides the club's SPI weighting (e.g. to preview a change)
  */
-export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
+export function computeMatchStats(raw: RawMatchStats, options?: { spiWeighting?: SpiWeighting }): ComputedMatchStats {
   const computed: ComputedMatchStats = {};
   
-  // Sum 1st and 2nd half stats to get full game stats
-  // Priority: compute from halves if available, otherwise use direct input
-  // Use !== undefined to detect whether half fields were provided (handles zero goals correctly)
-  const goalsFor1st = raw.goalsFor1stHalf ?? 0;
-  const goalsFor2nd = raw.goalsFor2ndHalf ?? 0;
-  const goalsFor = (raw.goalsFor1stHalf !== undefined || raw.goalsFor2ndHalf !== undefined)
-    ? (goalsFor1st + goalsFor2nd)
-    : (raw.goalsFor ?? undefined);
-
-  const goalsAgainst1st = raw.goalsAgainst1stHalf ?? 0;
-  const goalsAgainst2nd = raw.goalsAgainst2ndHalf ?? 0;
-  const goalsAgainst = (raw.goalsAgainst1stHalf !== undefined || raw.goalsAgainst2ndHalf !== undefined)
-    ? (goalsAgainst1st + goalsAgainst2nd)
-    : (raw.goalsAgainst ?? undefined);
-
-  const shotsFor1st = raw.shotsFor1stHalf ?? 0;
-  const shotsFor2nd = raw.shotsFor2ndHalf ?? 0;
-  const shotsFor = (raw.shotsFor1stHalf !== undefined || raw.shotsFor2ndHalf !== undefined)
-    ? (shotsFor1st + shotsFor2nd)
-    : (raw.shotsFor ?? undefined);
-
-  const shotsAgainst1st = raw.shotsAgainst1stHalf ?? 0;
-  const shotsAgainst2nd = raw.shotsAgainst2ndHalf ?? 0;
-  const shotsAgainst = (raw.shotsAgainst1stHalf !== undefined || raw.shotsAgainst2ndHalf !== undefined)
-    ? (shotsAgainst1st + shotsAgainst2nd)
-    : (raw.shotsAgainst ?? undefined);
-
-  const attemptsFor1st = raw.attemptsFor1stHalf ?? 0;
-  const attemptsFor2nd = raw.attemptsFor2ndHalf ?? 0;
-  const attemptsFor = (raw.attemptsFor1stHalf !== undefined || raw.attemptsFor2ndHalf !== undefined)
-    ? (attemptsFor1st + attemptsFor2nd)
-    : (raw.attemptsFor ?? undefined);
-
-  const attemptsAgainst1st = raw.attemptsAgainst1stHalf ?? 0;
-  const attemptsAgainst2nd = raw.attemptsAgainst2ndHalf ?? 0;
-  const attemptsAgainst = (raw.attemptsAgainst1stHalf !== undefined || raw.attemptsAgainst2ndHalf !== undefined)
-    ? (attemptsAgainst1st + attemptsAgainst2nd)
-    : (raw.attemptsAgainst ?? undefined);
-  
-  // Calculate Total Attempts (Veo-specific: attempts = shots + goals)
+  // Sum period stats (halves or quarters) to get full game stats
+  // Priority: compute from periods if available, otherwise use direct input
+  // Use !== undefined to detect whether period fields were provided (handles zero goals correctly)
+  const goalsForPeriods = getPeriodValues(raw, 'goalsFor');
+  const goalsFor = getFullGameValue(raw, 'goalsFor');
+  const goalsAgainstPeriods = getPeriodValues(raw, 'goalsAgainst');
+  const goalsAgainst = getFullGameValue(raw, 'goalsAgainst');
+  const shotsForPeriods = getPeriodValues(raw, 'shotsFor');
+  const shotsFor = getFullGameValue(raw, 'shotsFor');
+  const shotsAgainstPeriods = getPeriodValues(raw, 'shotsAgainst');
+  const shotsAgainst = getFullGameValue(raw, 'shotsAgainst');
+  const attemptsFor = getFullGameValue(raw, 'attemptsFor');
+  const attemptsAgainst = getFullGameValue(raw, 'attemptsAgainst');
+  
+  // Calculate Total Attempts per period (Veo-specific: attempts = shots + goals)
   // Total Attempts = goals + shots (since shots are non-goal shots)
-  const totalAttemptsFor1st = goalsFor1st + shotsFor1st;
-  const totalAttemptsFor2nd = goalsFor2nd + shotsFor2nd;
-  const totalAttemptsFor = totalAttemptsFor1st + totalAttemptsFor2nd;
-  
-  const totalAttemptsAgainst1st = goalsAgainst1st + shotsAgainst1st;
-  const totalAttemptsAgainst2nd = goalsAgainst2nd + shotsAgainst2nd;
-  const totalAttemptsAgainst = totalAttemptsAgainst1st + totalAttemptsAgainst2nd;
+  const periodCount = Math.max(
+    2,
+    goalsForPeriods?.length ?? 0,
+    shotsForPeriods?.length ?? 0,
+    goalsAgainstPeriods?.length ?? 0,
+    shotsAgainstPeriods?.length ?? 0
+  );
+  const totalAttemptsForPeriods = Array.from({ length: periodCount }, (_, i) =>
+    (goalsForPeriods?.[i] ?? 0) + (shotsForPeriods?.[i] ?? 0));
+  const totalAttemptsFor = sumPeriods(totalAttemptsForPeriods);
+  
+  const totalAttemptsAgainstPeriods = Array.from({ length: periodCount }, (_, i) =>
+    (goalsAgainstPeriods?.[i] ?? 0) + (shotsAgainstPeriods?.[i] ?? 0));
+  const totalAttemptsAgainst = sumPeriods(totalAttemptsAgainstPeriods);
   
   // TSR Calculation (Total Shots Ratio) - using total attempts (Veo-specific)
   // TSR = totalAttemptsFor / (totalAttemptsFor + totalAttemptsAgainst) * 100
@@ -365,44 +516,13 @@ export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
     computed['opp conversion rate'] = (goalsAgainst / totalAttemptsAgainst) * 100;
   }
   
-  // Sum 1st and 2nd half passes to get full game passes
-  const passesFor1st = raw.passesFor1stHalf ?? 0;
-  const passesFor2nd = raw.passesFor2ndHalf ?? 0;
-  const passesFor = (raw.passesFor1stHalf !== undefined || raw.passesFor2ndHalf !== undefined)
-    ? (passesFor1st + passesFor2nd)
-    : (raw.passesFor ?? undefined);
-
-  const passesAgainst1st = raw.passesAgainst1stHalf ?? 0;
-  const passesAgainst2nd = raw.passesAgainst2ndHalf ?? 0;
-  const passesAgainst = (raw.passesAgainst1stHalf !== undefined || raw.passesAgainst2ndHalf !== undefined)
-    ? (passesAgainst1st + passesAgainst2nd)
-    : (raw.passesAgainst ?? undefined);
-
-  // Sum 1st and 2nd half corners to get full game corners
-  const cornersFor1st = raw.cornersFor1stHalf ?? 0;
-  const cornersFor2nd = raw.cornersFor2ndHalf ?? 0;
-  const cornersFor = (raw.cornersFor1stHalf !== undefined || raw.cornersFor2ndHalf !== undefined)
-    ? (cornersFor1st + cornersFor2nd)
-    : (raw.cornersFor ?? undefined);
-
-  const cornersAgainst1st = raw.cornersAgainst1stHalf ?? 0;
-  const cornersAgainst2nd = raw.cornersAgainst2ndHalf ?? 0;
-  const cornersAgainst = (raw.cornersAgainst1stHalf !== undefined || raw.cornersAgainst2ndHalf !== undefined)
-    ? (cornersAgainst1st + cornersAgainst2nd)
-    : (raw.cornersAgainst ?? undefined);
-
-  // Sum 1st and 2nd half free kicks to get full game free kicks
-  const freeKicksFor1st = raw.freeKicksFor1stHalf ?? 0;
-  const freeKicksFor2nd = raw.freeKicksFor2ndHalf ?? 0;
-  const freeKicksFor = (raw.freeKicksFor1stHalf !== undefined || raw.freeKicksFor2ndHalf !== undefined)
-    ? (freeKicksFor1st + freeKicksFor2nd)
-    : (raw.freeKicksFor ?? undefined);
-
-  const freeKicksAgainst1st = raw.freeKicksAgainst1stHalf ?? 0;
-  const freeKicksAgainst2nd = raw.freeKicksAgainst2ndHalf ?? 0;
-  const freeKicksAgainst = (raw.freeKicksAgainst1stHalf !== undefined || raw.freeKicksAgainst2ndHalf !== undefined)
-    ? (freeKicksAgainst1st + freeKicksAgainst2nd)
-    : (raw.freeKicksAgainst ?? undefined);
+  // Sum period passes, corners and free kicks to get full game values
+  const passesFor = getFullGameValue(raw, 'passesFor');
+  const passesAgainst = getFullGameValue(raw, 'passesAgainst');
+  const cornersFor = getFullGameValue(raw, 'cornersFor');
+  const cornersAgainst = getFullGameValue(raw, 'cornersAgainst');
+  const freeKicksFor = getFullGameValue(raw, 'freeKicksFor');
+  const freeKicksAgainst = getFullGameValue(raw, 'freeKicksAgainst');
   
   // Pass Share - using full game stats
   if (passesFor !== undefined && passesAgainst !== undefined) {
@@ -413,12 +533,14 @@ export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
     }
   }
   
-  // PPM (Passes Per Minute) - using possession minutes (not match duration)
-  if (passesFor !== undefined && raw.possessionMins !== undefined && raw.possessionMins > 0) {
-    computed.ppm = passesFor / raw.possessionMins;
+  // PPM (Passes Per Minute) - using possession minutes (not match duration), summed over periods
+  const possessionMins = getFullGameValue(raw, 'possessionMins');
+  const oppPossessionMins = getFullGameValue(raw, 'oppPossessionMins');
+  if (passesFor !== undefined && possessionMins !== undefined && possessionMins > 0) {
+    computed.ppm = passesFor / possessionMins;
   }
-  if (passesAgainst !== undefined && raw.oppPossessionMins !== undefined && raw.oppPossessionMins > 0) {
-    computed['opp ppm'] = passesAgainst / raw.oppPossessionMins;
+  if (passesAgainst !== undefined && oppPossessionMins !== undefined && oppPossessionMins > 0) {
+    computed['opp ppm'] = passesAgainst / oppPossessionMins;
   }
   
   // Inside/Outside Box Attempts % - values are already percentages
@@ -478,7 +600,7 @@ export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
   }
   
   // SPI (Sustained Passing Index)
-  const spiResult = calculateSPI(raw);
+  const spiResult = calculateSPI(raw, options?.spiWeighting ?? activeSpiWeighting);
   if (spiResult.spi !== undefined) {
     computed.spi = spiResult.spi;
   }
@@ -493,7 +615,7 @@ export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
   }
   
   // Include computed full game stats in the output (for charts/display)
-  // These are computed from 1st/2nd half stats
+  // These are computed from period (half or quarter) stats
   if (goalsFor !== undefined) {
     (computed as any).goalsFor = goalsFor;
   }
@@ -518,6 +640,13 @@ export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
   if (passesAgainst !== undefined) {
     (computed as any).passesAgainst = passesAgainst;
   }
+  // Possession minutes are only computed when entered per period (quarters); a direct total stays a raw stat
+  if (possessionMins !== undefined && getPeriodValues(raw, 'possessionMins')) {
+    (computed as any).possessionMins = possessionMins;
+  }
+  if (oppPossessionMins !== undefined && getPeriodValues(raw, 'oppPossessionMins')) {
+    (computed as any).oppPossessionMins = oppPossessionMins;
+  }
   if (cornersFor !== undefined) {
     (computed as any).cornersFor = cornersFor;
   }
@@ -532,17 +661,54 @@ export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
   }
   
   // Total Attempts (Veo-specific: attempts = shots + goals)
-  if (totalAttemptsFor1st > 0 || totalAttemptsFor2nd > 0) {
-    (computed as any)['total attempts (1st half)'] = totalAttemptsFor1st;
-    (computed as any)['total attempts (2nd half)'] = totalAttemptsFor2nd;
+  if (totalAttemptsForPeriods.some(value => value > 0)) {
+    totalAttemptsForPeriods.forEach((value, i) => {
+      (computed as any)[`total attempts (${getPeriodLabel(i, periodCount)})`] = value;
+    });
     (computed as any)['total attempts'] = totalAttemptsFor;
   }
-  if (totalAttemptsAgainst1st > 0 || totalAttemptsAgainst2nd > 0) {
-    (computed as any)['opp total attempts (1st half)'] = totalAttemptsAgainst1st;
-    (computed as any)['opp total attempts (2nd half)'] = totalAttemptsAgainst2nd;
+  if (totalAttemptsAgainstPeriods.some(value => value > 0)) {
+    totalAttemptsAgainstPeriods.forEach((value, i) => {
+      (computed as any)[`opp total attempts (${getPeriodLabel(i, periodCount)})`] = value;
+    });
     (computed as any)['opp total attempts'] = totalAttemptsAgainst;
   }
   
+  // Defense - sum periods the same way as the stats above, and include full-game totals
+  const defensiveTotals: Partial<Record<DefensiveStatField, number>> = {};
+  for (const field of DEFENSIVE_STAT_FIELDS) {
+    const total = getFullGameValue(raw, field);
+    if (total !== undefined && !isNaN(total)) {
+      defensiveTotals[field] = total;
+      (computed as any)[field] = total;
+    }
+  }
+  
+  // Defensive actions = tackles + interceptions + clearances + blocks + recoveries (whichever were entered)
+  const enteredActions = DEFENSIVE_ACTION_FIELDS.filter(field => defensiveTotals[field] !== undefined);
+  if (enteredActions.length > 0) {
+    const defensiveActions = enteredActions.reduce((sum, field) => sum + defensiveTotals[field]!, 0);
+    computed['defensive actions'] = defensiveActions;
+    
+    // Opp passes per defensive action - how long the opponent keeps the ball before JOGA wins or breaks up play
+    if (passesAgainst !== undefined && defensiveActions > 0) {
+      computed['opp passes per defensive action'] = passesAgainst / defensiveActions;
+    }
+  }
+  
+  // Save % = saves / shots on target faced, where on-target attempts are saves + goals conceded
+  const saves = defensiveTotals.saves;
+  if (saves !== undefined && goalsAgainst !== undefined && saves + goalsAgainst > 0) {
+    computed['save %'] = (saves / (saves + goalsAgainst)) * 100;
+  }
+  
+  // Opp entry attempt % = share of opponent final-third entries that ended in an attempt
+  const oppFinalThirdEntries = defensiveTotals.oppFinalThirdEntries;
+  if (oppFinalThirdEntries !== undefined && oppFinalThirdEntries > 0 &&
+      (goalsAgainst !== undefined || shotsAgainst !== undefined)) {
+    computed['opp entry attempt %'] = (totalAttemptsAgainst / oppFinalThirdEntries) * 100;
+  }
+  
   // Compute Result from goals (Win/Loss/Draw)
   if (goalsFor !== undefined && goalsAgainst !== undefined) {
     if (goalsFor > goalsAgainst) {
@@ -557,6 +723,57 @@ export function computeMatchStats(raw: RawMatchStats): ComputedMatchStats {
   return computed;
 }
 
+/**
+ * Period a lowercased form/sheet field name is for, as the raw stat suffix:
+ * quarters/periods ("goals for (q3)", "3rd quarter", "period 5") -> "Period3",
+ * halves ("(1st)", "2nd half") -> "1stHalf"/"2ndHalf"
+ */
+function matchPeriodSuffix(lowerKey: string): string | undefined {
+  const period = lowerKey.match(/\b(?:q|quarter\s*|period\s*|p)([1-8])\b/)
+    || lowerKey.match(/\b([1-8])(?:st|nd|rd|th)\s+(?:quarter|period)\b/);
+  if (period) {
+    return `Period${period[1]}`;
+  }
+  if (lowerKey.includes('1st half') || lowerKey.includes('first half') || lowerKey.includes('(1st') || lowerKey.includes('(first') || lowerKey.includes('1st')) {
+    return '1stHalf';
+  }
+  if (lowerKey.includes('2nd half') || lowerKey.includes('second half') || lowerKey.includes('(2nd') || lowerKey.includes('(second') || lowerKey.includes('2nd')) {
+    return '2ndHalf';
+  }
+  return undefined;
+}
+
+// "Opp Tackles (1st)", "Opponent Passes (Q2)"
+const OPP_PREFIX_PATTERN = /^opp(onent)?\b/;
+// Completed passes only ("Passes Comp (Q1)", "Opp Passes Completed (1st)", "Passes Against (2nd)"),
+// not other pass counts like "Long Passes (2nd)" or "Passes per Possession (1st)"
+const COMPLETED_PASSES_PATTERN = /^(opp(onent)?\s+)?passes(\s+(comp|completed))?(\s+(for|against))?(\s*\(|\s+(1st|2nd|first|second|q\d|p\d|quarter|period|\d(st|nd|rd|th))\b)/;
+
+/**
+ * Raw stat a lowercased per-period field name is for (e.g. "shots against (q2)" -> shotsAgainst)
+ */
+function matchPeriodStat(lowerKey: string): string | undefined {
+  if (/\bpossession\s*(mins|minutes)\b/.test(lowerKey)) {
+    return OPP_PREFIX_PATTERN.test(lowerKey) ? 'oppPossessionMins' : 'possessionMins';
+  }
+  if (COMPLETED_PASSES_PATTERN.test(lowerKey)) {
+    return OPP_PREFIX_PATTERN.test(lowerKey) || /\bagainst\b/.test(lowerKey) ? 'passesAgainst' : 'passesFor';
+  }
+  // Other opponent fields ("Opp Tackles (1st)") have no raw stat and are kept as entered
+  if (OPP_PREFIX_PATTERN.test(lowerKey)) {
+    return matchDefensiveField(lowerKey) === 'oppFinalThirdEntries' ? 'oppFinalThirdEntries' : undefined;
+  }
+  const side = /\bfor\b/.test(lowerKey) ? 'For' : /\bagainst\b/.test(lowerKey) ? 'Against' : undefined;
+  if (side) {
+    if (lowerKey.includes('goal')) return `goals${side}`;
+    if (lowerKey.includes('shot')) return `shots${side}`;
+    if (lowerKey.includes('attempt')) return `attempts${side}`;
+    if (lowerKey.includes('corner')) return `corners${side}`;
+    if (lowerKey.includes('free kick') || lowerKey.includes('freekick')) return `freeKicks${side}`;
+  }
+  return matchDefensiveField(lowerKey);
+}
+
 /**
  * Normalize field names from form input to match expected raw stats format
  * Handles various field name formats (e.g., "Shots For" vs "shotsFor")
@@ -573,6 +790,11 @@ export function normalizeFieldNames(formData: Record<string, any>): RawMatchStat
     'opponent name': 'opponentName',
     'date': 'matchDate',
     'match date': 'matchDate',
+    'kickoff': 'kickoffTime',
+    'kickoff time': 'kickoffTime',
+    'status': 'status',
+    'format': 'format',
+    'match format': 'format',
     'competition': 'competitionType',
     'competition type': 'competitionType',
     'result': 'result',
@@ -680,6 +902,16 @@ export function normalizeFieldNames(formData: Record<string, any>): RawMatchStat
     'free kicks for': 'freeKicksFor',
     'free kicks against': 'freeKicksAgainst',
     
+    // Defense (half fields are matched by pattern below)
+    'tackles': 'tackles',
+    'interceptions': 'interceptions',
+    'clearances': 'clearances',
+    'blocks': 'blocks',
+    'recoveries': 'recoveries',
+    'saves': 'saves',
+    'opp final third entries': 'oppFinalThirdEntries',
+    'oppfinalthirdentries': 'oppFinalThirdEntries',
+    
     // Match Info
     'match duration': 'matchDuration',
     'duration': 'matchDuration',
@@ -696,77 +928,13 @@ export function normalizeFieldNames(formData: Record<string, any>): RawMatchStat
     if (fieldMappings[lowerKey]) {
       normalized[fieldMappings[lowerKey]] = value;
     } else {
-      // Try pattern matching for 1st/2nd half fields
+      // Try pattern matching for per-period fields (halves, quarters)
       let matched = false;
-      
-      // Check for 1st half patterns
-      if (lowerKey.includes('1st half') || lowerKey.includes('first half') || lowerKey.includes('(1st') || lowerKey.includes('(first') || lowerKey.includes('1st')) {
-        if (lowerKey.includes('goal') && lowerKey.includes('for')) {
-          normalized.goalsFor1stHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('goal') && lowerKey.includes('against')) {
-          normalized.goalsAgainst1stHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('shot') && lowerKey.includes('for')) {
-          normalized.shotsFor1stHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('shot') && lowerKey.includes('against')) {
-          normalized.shotsAgainst1stHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('attempt') && lowerKey.includes('for')) {
-          normalized.attemptsFor1stHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('attempt') && lowerKey.includes('against')) {
-          normalized.attemptsAgainst1stHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('corner') || lowerKey.includes('corners')) && lowerKey.includes('for')) {
-          normalized.cornersFor1stHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('corner') || lowerKey.includes('corners')) && lowerKey.includes('against')) {
-          normalized.cornersAgainst1stHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('free kick') || lowerKey.includes('free kicks') || lowerKey.includes('freekick') || lowerKey.includes('freekicks')) && lowerKey.includes('for')) {
-          normalized.freeKicksFor1stHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('free kick') || lowerKey.includes('free kicks') || lowerKey.includes('freekick') || lowerKey.includes('freekicks')) && lowerKey.includes('against')) {
-          normalized.freeKicksAgainst1stHalf = value;
-          matched = true;
-        }
-      }
-      
-      // Check for 2nd half patterns
-      if (!matched && (lowerKey.includes('2nd half') || lowerKey.includes('second half') || lowerKey.includes('(2nd') || lowerKey.includes('(second') || lowerKey.includes('2nd'))) {
-        if (lowerKey.includes('goal') && lowerKey.includes('for')) {
-          normalized.goalsFor2ndHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('goal') && lowerKey.includes('against')) {
-          normalized.goalsAgainst2ndHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('shot') && lowerKey.includes('for')) {
-          normalized.shotsFor2ndHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('shot') && lowerKey.includes('against')) {
-          normalized.shotsAgainst2ndHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('attempt') && lowerKey.includes('for')) {
-          normalized.attemptsFor2ndHalf = value;
-          matched = true;
-        } else if (lowerKey.includes('attempt') && lowerKey.includes('against')) {
-          normalized.attemptsAgainst2ndHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('corner') || lowerKey.includes('corners')) && lowerKey.includes('for')) {
-          normalized.cornersFor2ndHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('corner') || lowerKey.includes('corners')) && lowerKey.includes('against')) {
-          normalized.cornersAgainst2ndHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('free kick') || lowerKey.includes('free kicks') || lowerKey.includes('freekick') || lowerKey.includes('freekicks')) && lowerKey.includes('for')) {
-          normalized.freeKicksFor2ndHalf = value;
-          matched = true;
-        } else if ((lowerKey.includes('free kick') || lowerKey.includes('free kicks') || lowerKey.includes('freekick') || lowerKey.includes('freekicks')) && lowerKey.includes('against')) {
-          normalized.freeKicksAgainst2ndHalf = value;
-          matched = true;
-        }
+      const periodSuffix = matchPeriodSuffix(lowerKey);
+      const periodStat = periodSuffix ? matchPeriodStat(lowerKey) : undefined;
+      if (periodSuffix && periodStat) {
+        normalized[`${periodStat}${periodSuffix}`] = value;
+        matched = true;
       }
       
       // If not matched by pattern, check for pass string or keep original
@@ -75,6 +75,7 @@ function convertMatchToMatchData(match: any): MatchData {
     'Opponent': match.opponentName,
     'Date': dateString, // Use "Date" as primary - ensure it's a string in YYYY-MM-DD format
     'Competition Type': match.competitionType || '',
+    'Competition': match.competitionName || '',
     'Result': match.result || '',
     'Home/Away': match.isHome === true ? 'Home' : match.isHome === false ? 'Away' : 'Tournament',
     'Venue': match.venue || '',
@@ -109,6 +110,11 @@ function convertMatchToMatchData(match: any): MatchData {
     matchData['Team ID'] = match.teamId;
   }
 
+  // Add competition ID if linked (used by the competition filter)
+  if (match.competitionId) {
+    matchData['Competition ID'] = match.competitionId;
+  }
+
   return matchData;
 }
 
@@ -201,6 +207,8 @@ export async function getMergedMatchData(options?: {
       teamIds: options?.teamIds,
       startDate: options?.startDate,
       endDate: options?.endDate,
+      // Fixtures not played yet (or cancelled) have no data to chart
+      status: 'played',
     }).catch(err => {
       console.warn('⚠️ Failed to fetch PostgreSQL matches:', err.message);
       return [];
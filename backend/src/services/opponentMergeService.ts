@@ -0,0 +1,152 @@
+/**
+ * Opponent Merge Service
+ *
+ * Registry changes that rewrite matches: renaming an opponent and merging duplicates.
+ * Matches store the registry name in opponent_name, so both update the affected matches
+ * and record a match revision for each.
+ */
+
+import type { Transaction } from 'kysely';
+import { db } from '../db/database.js';
+import type { Database, OpponentUpdate } from '../db/schema.js';
+import { normalizeOpponentName } from '../utils/opponentMatching.js';
+import { ensureBaselineRevision, recordMatchRevisionsForRows } from './matchRevisionService.js';
+import { findOpponentByName, getOpponentById, type Opponent, type OpponentInput } from './opponentService.js';
+import { addMatchParticipants } from './competitionService.js';
+
+async function renameMatches(
+  trx: Transaction<Database>,
+  opponentIds: number[],
+  target: { id: number; name: string },
+  userId: number
+): Promise<void> {
+  const matches = await trx
+    .selectFrom('matches')
+    .select(['id', 'opponent_id', 'opponent_name'])
+    .where('opponent_id', 'in', opponentIds)
+    .execute();
+  const changed = matches
+    .filter(match => match.opponent_id !== target.id || match.opponent_name !== target.name)
+    .map(match => match.id);
+  if (changed.length === 0) return;
+
+  for (const matchId of changed) {
+    await ensureBaselineRevision(trx, matchId);
+  }
+  const rows = await trx
+    .updateTable('matches')
+    .set({ opponent_id: target.id, opponent_name: target.name, updated_at: new Date().toISOString(), last_modified_by: userId })
+    .where('id', 'in', changed)
+    .returningAll()
+    .execute();
+  await recordMatchRevisionsForRows(trx, rows, 'update');
+}
+
+/**
+ * Update an opponent's details. A new name becomes an alias (the old one is kept, so it
+ * still resolves) and is written to the opponent's matches.
+ * Callers must validate the input first.
+ */
+export async function updateOpponent(
+  opponentId: number,
+  updates: Partial<OpponentInput>,
+  userId: number
+): Promise<Opponent> {
+  await db.transaction().execute(async (trx) => {
+    const opponent = await trx.selectFrom('opponents').selectAll().where('id', '=', opponentId).executeTakeFirst();
+    if (!opponent) {
+      throw new Error('Opponent not found');
+    }
+
+    const now = new Date().toISOString();
+    const updateData: OpponentUpdate = { updated_at: now };
+    if (updates.clubName !== undefined) updateData.club_name = updates.clubName?.trim() || null;
+    if (updates.teamName !== undefined) updateData.team_name = updates.teamName?.trim() || null;
+    if (updates.ageGroup !== undefined) updateData.age_group = updates.ageGroup?.trim() || null;
+
+    const name = updates.name?.trim().replace(/\s+/g, ' ');
+    const renamed = name !== undefined && name !== opponent.name;
+    if (renamed) {
+      const existing = await findOpponentByName(trx, name);
+      if (existing && existing.id !== opponentId) {
+        throw new Error(`"${name}" is already an alias of ${existing.name}`);
+      }
+      if (!existing) {
+        await trx
+          .insertInto('opponent_aliases')
+          .values({ opponent_id: opponentId, alias: name, normalized_alias: normalizeOpponentName(name), created_at: now })
+          .execute();
+      }
+      updateData.name = name;
+    }
+
+    await trx.updateTable('opponents').set(updateData).where('id', '=', opponentId).execute();
+    if (renamed) {
+      await renameMatches(trx, [opponentId], { id: opponentId, name }, userId);
+    }
+  });
+
+  return (await getOpponentById(opponentId))!;
+}
+
+/**
+ * Merge duplicate opponents into targetId: their aliases and matches move to the target
+ * (matches take the target's name) and the duplicates are deleted.
+ * Club / team / age group details missing on the target are taken from the duplicates.
+ */
+export async function mergeOpponents(targetId: number, sourceIds: number[], userId: number): Promise<Opponent> {
+  const ids = [...new Set(sourceIds)].filter(id => id !== targetId);
+  if (ids.length === 0) {
+    throw new Error('Choose at least one other opponent to merge');
+  }
+
+  await db.transaction().execute(async (trx) => {
+    const target = await trx.selectFrom('opponents').selectAll().where('id', '=', targetId).executeTakeFirst();
+    const sources = await trx.selectFrom('opponents').selectAll().where('id', 'in', ids).orderBy('id').execute();
+    if (!target || sources.length !== ids.length) {
+      throw new Error('Opponent not found');
+    }
+
+    await trx
+      .updateTable('opponents')
+      .set({
+        club_name: target.club_name ?? sources.find(source => source.club_name)?.club_name ?? null,
+        team_name: target.team_name ?? sources.find(source => source.team_name)?.team_name ?? null,
+        age_group: target.age_group ?? sources.find(source => source.age_group)?.age_group ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .where('id', '=', targetId)
+      .execute();
+    await trx.updateTable('opponent_aliases').set({ opponent_id: targetId }).where('opponent_id', 'in', ids).execute();
+    // Competitions the duplicates took part in now list the target
+    const participations = await trx
+      .selectFrom('competition_participants')
+      .select('competition_id')
+      .where('opponent_id', 'in', ids)
+      .execute();
+    for (const { competition_id } of participations) {
+      await addMatchParticipants(trx, competition_id, null, targetId);
+    }
+    await renameMatches(trx, ids, target, userId);
+    // Proposals involving the duplicates go with them (ON DELETE CASCADE)
+    await trx.deleteFrom('opponents').where('id', 'in', ids).execute();
+  });
+
+  return (await getOpponentById(targetId))!;
+}
+
+/**
+ * Accept a pending merge proposal (merges its source opponent into its target).
+ * Returns null if there is no pending proposal with that ID.
+ */
+export async function acceptMergeProposal(proposalId: number, userId: number): Promise<Opponent | null> {
+  const proposal = await db
+    .selectFrom('opponent_merge_proposals')
+    .select(['target_opponent_id', 'source_opponent_id'])
+    .where('id', '=', proposalId)
+    .where('status', '=', 'pending')
+    .executeTakeFirst();
+  if (!proposal) return null;
+
+  return mergeOpponents(proposal.target_opponent_id, [proposal.source_opponent_id], userId);
+}
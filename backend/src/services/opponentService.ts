@@ -0,0 +1,520 @@
+/**
+ * Opponent Service
+ *
+ * Registry of the clubs/teams matches are played against. Each opponent has a name,
+ * optional club / team / age group details, and aliases: every spelling that resolves
+ * to it (including the name itself), matched via normalizeOpponentName.
+ * Matches point at an opponent through matches.opponent_id.
+ *
+ * Merging and renaming change the matches that point at an opponent, so they live in
+ * opponentMergeService (which records match revisions).
+ */
+
+import type { Kysely, Transaction } from 'kysely';
+import { sql } from 'kysely';
+import { db } from '../db/database.js';
+import type { Database, OpponentRow } from '../db/schema.js';
+import { calculateOpponentSimilarity, normalizeOpponentName } from '../utils/opponentMatching.js';
+
+type Executor = Kysely<Database> | Transaction<Database>;
+
+// Names at least this similar are proposed as duplicates
+export const MERGE_PROPOSAL_THRESHOLD = 0.8;
+
+// Words that don't tell two opponents apart ("Titans" vs "TITANS FC")
+const CLUB_SUFFIX_WORDS = new Set(['fc', 'sc', 'cf', 'afc', 'sa', 'soccer', 'football', 'club']);
+
+export interface OpponentInput {
+  name: string;
+  clubName?: string | null;
+  teamName?: string | null;
+  ageGroup?: string | null;
+}
+
+export interface Opponent {
+  id: number;
+  name: string;
+  clubName: string | null;
+  teamName: string | null;
+  ageGroup: string | null;
+  aliases: string[];
+  matchCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OpponentMergeProposal {
+  id: number;
+  target: Opponent;
+  source: Opponent;
+  similarity: number;
+  createdAt: string;
+}
+
+function toTimestampString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function optionalText(value: string | null | undefined): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validate opponent details from user input.
+ * With partial, only the fields present are checked (for updates).
+ * Returns an error message, or null when valid.
+ */
+export function validateOpponentInput(input: any, options?: { partial?: boolean }): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Opponent details are required';
+  }
+  if (!options?.partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !normalizeOpponentName(input.name)) {
+      return 'name is required';
+    }
+  }
+  for (const field of ['clubName', 'teamName', 'ageGroup']) {
+    const value = input[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return `${field} must be a string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Name similarity used for duplicate detection: like calculateOpponentSimilarity, but
+ * names that only differ by words like "FC" or "Soccer Club" count as the same
+ */
+export function calculateOpponentNameSimilarity(name1: string, name2: string): number {
+  const core = (name: string) => normalizeOpponentName(name)
+    .split(' ')
+    .filter(word => !CLUB_SUFFIX_WORDS.has(word))
+    .join(' ');
+  const core1 = core(name1);
+  const core2 = core(name2);
+  if (core1 && core1 === core2) {
+    return Math.max(0.95, calculateOpponentSimilarity(name1, name2));
+  }
+  return calculateOpponentSimilarity(name1, name2);
+}
+
+async function toOpponents(executor: Executor, rows: OpponentRow[]): Promise<Opponent[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map(row => row.id);
+
+  const [aliases, counts] = await Promise.all([
+    executor
+      .selectFrom('opponent_aliases')
+      .select(['opponent_id', 'alias'])
+      .where('opponent_id', 'in', ids)
+      .orderBy('alias')
+      .execute(),
+    executor
+      .selectFrom('matches')
+      .select(['opponent_id', sql<string>`count(*)`.as('match_count')])
+      .where('opponent_id', 'in', ids)
+      .groupBy('opponent_id')
+      .execute(),
+  ]);
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    clubName: row.club_name,
+    teamName: row.team_name,
+    ageGroup: row.age_group,
+    aliases: aliases.filter(alias => alias.opponent_id === row.id).map(alias => alias.alias),
+    matchCount: Number(counts.find(count => count.opponent_id === row.id)?.match_count ?? 0),
+    createdAt: toTimestampString(row.created_at),
+    updatedAt: toTimestampString(row.updated_at),
+  }));
+}
+
+/**
+ * List opponents with their aliases and match counts.
+ * search matches any alias (case/punctuation-insensitive); teamId limits to opponents that team has played.
+ */
+export async function getOpponents(filters?: { search?: string; teamId?: number; limit?: number }): Promise<Opponent[]> {
+  let query = db.selectFrom('opponents').selectAll('opponents');
+
+  const search = filters?.search ? normalizeOpponentName(filters.search) : '';
+  if (search) {
+    query = query.where('opponents.id', 'in', db
+      .selectFrom('opponent_aliases')
+      .select('opponent_id')
+      .where('normalized_alias', 'like', `%${search.replace(/[%_\\]/g, '\\$&')}%`));
+  }
+  if (filters?.teamId) {
+    query = query.where('opponents.id', 'in', db
+      .selectFrom('matches')
+      .select('opponent_id')
+      .where('team_id', '=', filters.teamId)
+      .where('opponent_id', 'is not', null)
+      .$narrowType<{ opponent_id: number }>());
+  }
+  if (filters?.limit) {
+    query = query.limit(filters.limit);
+  }
+
+  const rows = await query.orderBy('opponents.name').execute();
+  return toOpponents(db, rows);
+}
+
+export async function getOpponentById(opponentId: number, executor: Executor = db): Promise<Opponent | null> {
+  const row = await executor
+    .selectFrom('opponents')
+    .selectAll()
+    .where('id', '=', opponentId)
+    .executeTakeFirst();
+  if (!row) return null;
+  const [opponent] = await toOpponents(executor, [row]);
+  return opponent;
+}
+
+/**
+ * Opponents for an autocomplete: those with an alias containing the search first,
+ * then fuzzy matches (over 30% similar), best first.
+ * teamId limits suggestions to opponents that team has played.
+ */
+export async function getOpponentSuggestions(
+  search: string,
+  options?: { teamId?: number; limit?: number }
+): Promise<Opponent[]> {
+  const normalizedSearch = normalizeOpponentName(search);
+  if (!normalizedSearch) return [];
+
+  const scored = (await getOpponents({ teamId: options?.teamId }))
+    .map(opponent => {
+      const names = [opponent.name, ...opponent.aliases];
+      const contains = names.some(name => normalizeOpponentName(name).includes(normalizedSearch));
+      const similarity = Math.max(...names.map(name => calculateOpponentSimilarity(search, name)));
+      return { opponent, contains, similarity };
+    })
+    .filter(({ contains, similarity }) => contains || similarity > 0.3);
+
+  scored.sort((a, b) => {
+    if (a.contains !== b.contains) return a.contains ? -1 : 1;
+    if (Math.abs(a.similarity - b.similarity) > 0.1) return b.similarity - a.similarity;
+    return a.opponent.name.localeCompare(b.opponent.name);
+  });
+
+  return scored.slice(0, options?.limit ?? 10).map(({ opponent }) => opponent);
+}
+
+/**
+ * The opponent an entered name resolves to (via its aliases), if any
+ */
+export async function findOpponentByName(
+  executor: Executor,
+  name: string
+): Promise<{ id: number; name: string } | null> {
+  const normalized = normalizeOpponentName(name);
+  if (!normalized) return null;
+  const row = await executor
+    .selectFrom('opponent_aliases')
+    .innerJoin('opponents', 'opponents.id', 'opponent_aliases.opponent_id')
+    .select(['opponents.id', 'opponents.name'])
+    .where('opponent_aliases.normalized_alias', '=', normalized)
+    .executeTakeFirst();
+  return row ?? null;
+}
+
+async function insertOpponent(executor: Executor, input: OpponentInput): Promise<{ id: number; name: string }> {
+  const name = input.name.trim().replace(/\s+/g, ' ');
+  const now = new Date().toISOString();
+  const row = await executor
+    .insertInto('opponents')
+    .values({
+      name,
+      club_name: optionalText(input.clubName),
+      team_name: optionalText(input.teamName),
+      age_group: optionalText(input.ageGroup),
+      created_at: now,
+      updated_at: now,
+    })
+    .returning(['id', 'name'])
+    .executeTakeFirstOrThrow();
+
+  await executor
+    .insertInto('opponent_aliases')
+    .values({ opponent_id: row.id, alias: name, normalized_alias: normalizeOpponentName(name), created_at: now })
+    .execute();
+
+  return row;
+}
+
+/**
+ * The opponent a name resolves to, creating it (with the name as its first alias) if there is none
+ */
+export async function findOrCreateOpponent(executor: Executor, name: string): Promise<{ id: number; name: string }> {
+  if (!normalizeOpponentName(name)) {
+    throw new Error('Opponent name is required');
+  }
+  return (await findOpponentByName(executor, name)) ?? insertOpponent(executor, { name });
+}
+
+/**
+ * The opponent to store on a match: opponentId if given, otherwise whatever opponentName resolves to.
+ * Matches store the registry name, so "TITANS FC" becomes "Titans" once it is an alias.
+ */
+export async function resolveMatchOpponent(
+  executor: Executor,
+  input: { opponentId?: number | null; opponentName?: string | null }
+): Promise<{ id: number; name: string }> {
+  if (input.opponentId) {
+    const row = await executor
+      .selectFrom('opponents')
+      .select(['id', 'name'])
+      .where('id', '=', input.opponentId)
+      .executeTakeFirst();
+    if (!row) {
+      throw new Error('Opponent not found');
+    }
+    return row;
+  }
+  return findOrCreateOpponent(executor, input.opponentName || '');
+}
+
+/**
+ * Create an opponent. Fails if the name is already an alias of another opponent.
+ * Callers must validate the input first.
+ */
+export async function createOpponent(input: OpponentInput): Promise<Opponent> {
+  const id = await db.transaction().execute(async (trx) => {
+    const existing = await findOpponentByName(trx, input.name);
+    if (existing) {
+      throw new Error(`"${input.name.trim()}" is already an alias of ${existing.name}`);
+    }
+    return (await insertOpponent(trx, input)).id;
+  });
+  return (await getOpponentById(id))!;
+}
+
+/**
+ * Add a spelling that should resolve to an opponent.
+ * Matches not yet linked to any opponent with that spelling are linked to it.
+ */
+export async function addOpponentAlias(opponentId: number, alias: string): Promise<Opponent> {
+  const trimmed = alias.trim().replace(/\s+/g, ' ');
+  const normalized = normalizeOpponentName(trimmed);
+  if (!normalized) {
+    throw new Error('alias is required');
+  }
+
+  await db.transaction().execute(async (trx) => {
+    const opponent = await trx.selectFrom('opponents').select('id').where('id', '=', opponentId).executeTakeFirst();
+    if (!opponent) {
+      throw new Error('Opponent not found');
+    }
+    const existing = await findOpponentByName(trx, trimmed);
+    if (existing) {
+      if (existing.id === opponentId) return;
+      throw new Error(`"${trimmed}" is already an alias of ${existing.name}`);
+    }
+
+    await trx
+      .insertInto('opponent_aliases')
+      .values({ opponent_id: opponentId, alias: trimmed, normalized_alias: normalized, created_at: new Date().toISOString() })
+      .execute();
+    await linkUnassignedMatches(trx, [normalized], opponentId);
+  });
+
+  return (await getOpponentById(opponentId))!;
+}
+
+/**
+ * Remove an alias. The alias matching the opponent's current name can't be removed.
+ */
+export async function removeOpponentAlias(opponentId: number, alias: string): Promise<Opponent> {
+  const normalized = normalizeOpponentName(alias);
+  const opponent = await db.selectFrom('opponents').select('name').where('id', '=', opponentId).executeTakeFirst();
+  if (!opponent) {
+    throw new Error('Opponent not found');
+  }
+  if (normalizeOpponentName(opponent.name) === normalized) {
+    throw new Error("An opponent's own name can't be removed from its aliases");
+  }
+
+  const deleted = await db
+    .deleteFrom('opponent_aliases')
+    .where('opponent_id', '=', opponentId)
+    .where('normalized_alias', '=', normalized)
+    .executeTakeFirst();
+  if (Number(deleted.numDeletedRows) === 0) {
+    throw new Error('Alias not found');
+  }
+
+  return (await getOpponentById(opponentId))!;
+}
+
+/**
+ * Delete an opponent. Opponents that matches point at must be merged instead.
+ */
+export async function deleteOpponent(opponentId: number): Promise<void> {
+  const opponent = await getOpponentById(opponentId);
+  if (!opponent) {
+    throw new Error('Opponent not found');
+  }
+  if (opponent.matchCount > 0) {
+    throw new Error(`${opponent.name} has ${opponent.matchCount} match(es); merge it into another opponent instead`);
+  }
+  await db.deleteFrom('opponents').where('id', '=', opponentId).execute();
+}
+
+// Matches store the opponent name, so this only sets the link (no revision needed)
+async function linkUnassignedMatches(executor: Executor, normalizedNames: string[], opponentId: number): Promise<void> {
+  if (normalizedNames.length === 0) return;
+  const matches = await executor
+    .selectFrom('matches')
+    .select(['id', 'opponent_name'])
+    .where('opponent_id', 'is', null)
+    .execute();
+  const ids = matches
+    .filter(match => normalizedNames.includes(normalizeOpponentName(match.opponent_name)))
+    .map(match => match.id);
+  if (ids.length > 0) {
+    await executor.updateTable('matches').set({ opponent_id: opponentId }).where('id', 'in', ids).execute();
+  }
+}
+
+/**
+ * Link every match without an opponent to the registry, creating opponents as needed.
+ * Names that normalize the same ("Titans", "TITANS ") share an opponent, named after the
+ * most used spelling. Match opponent names are left as entered.
+ * Returns the number of matches linked.
+ */
+export async function linkMatchesToOpponents(executor: Executor = db): Promise<number> {
+  const matches = await executor
+    .selectFrom('matches')
+    .select(['id', 'opponent_name'])
+    .where('opponent_id', 'is', null)
+    .execute();
+
+  const groups = new Map<string, { ids: number[]; spellings: Map<string, number> }>();
+  for (const match of matches) {
+    const spelling = match.opponent_name.trim().replace(/\s+/g, ' ');
+    const normalized = normalizeOpponentName(spelling);
+    if (!normalized) continue;
+    const group = groups.get(normalized) ?? { ids: [], spellings: new Map<string, number>() };
+    group.ids.push(match.id);
+    group.spellings.set(spelling, (group.spellings.get(spelling) ?? 0) + 1);
+    groups.set(normalized, group);
+  }
+
+  let linked = 0;
+  for (const group of groups.values()) {
+    const spellings = [...group.spellings.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    const opponent = await findOrCreateOpponent(executor, spellings[0][0]);
+
+    await executor.updateTable('matches').set({ opponent_id: opponent.id }).where('id', 'in', group.ids).execute();
+    linked += group.ids.length;
+  }
+
+  return linked;
+}
+
+/**
+ * Group opponents whose names look like the same club ("Titans", "TITANS FC") and store
+ * a pending merge proposal for each duplicate, targeting the opponent in its group with
+ * the most matches. Opponents with different age groups are never grouped.
+ * Pairs already proposed (including dismissed ones) are not proposed again.
+ * Returns the number of new proposals.
+ */
+export async function proposeOpponentMerges(executor: Executor = db): Promise<number> {
+  const rows = await executor.selectFrom('opponents').selectAll().orderBy('id').execute();
+  const opponents = await toOpponents(executor, rows);
+
+  // Union-find over opponents with similar names
+  const parent = opponents.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  for (let i = 0; i < opponents.length; i++) {
+    for (let j = i + 1; j < opponents.length; j++) {
+      const a = opponents[i];
+      const b = opponents[j];
+      if (a.ageGroup && b.ageGroup && normalizeOpponentName(a.ageGroup) !== normalizeOpponentName(b.ageGroup)) continue;
+      if (calculateOpponentNameSimilarity(a.name, b.name) >= MERGE_PROPOSAL_THRESHOLD) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, Opponent[]>();
+  opponents.forEach((opponent, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), opponent]);
+  });
+
+  const existing = await executor
+    .selectFrom('opponent_merge_proposals')
+    .select(['target_opponent_id', 'source_opponent_id'])
+    .execute();
+  const proposed = new Set(existing.flatMap(row => [
+    `${row.target_opponent_id}:${row.source_opponent_id}`,
+    `${row.source_opponent_id}:${row.target_opponent_id}`,
+  ]));
+
+  const now = new Date().toISOString();
+  const proposals = [...clusters.values()]
+    .filter(cluster => cluster.length > 1)
+    .flatMap(cluster => {
+      const [target, ...sources] = [...cluster].sort((a, b) => b.matchCount - a.matchCount || a.id - b.id);
+      return sources
+        .filter(source => !proposed.has(`${target.id}:${source.id}`))
+        .map(source => ({
+          target_opponent_id: target.id,
+          source_opponent_id: source.id,
+          similarity: Math.round(calculateOpponentNameSimilarity(target.name, source.name) * 100) / 100,
+          status: 'pending' as const,
+          created_at: now,
+        }));
+    });
+
+  if (proposals.length > 0) {
+    await executor.insertInto('opponent_merge_proposals').values(proposals).execute();
+  }
+  return proposals.length;
+}
+
+/**
+ * Merge proposals waiting for an admin, most similar first
+ */
+export async function getPendingMergeProposals(): Promise<OpponentMergeProposal[]> {
+  const rows = await db
+    .selectFrom('opponent_merge_proposals')
+    .selectAll()
+    .where('status', '=', 'pending')
+    .orderBy('similarity', 'desc')
+    .orderBy('id')
+    .execute();
+  if (rows.length === 0) return [];
+
+  const opponentRows = await db
+    .selectFrom('opponents')
+    .selectAll()
+    .where('id', 'in', rows.flatMap(row => [row.target_opponent_id, row.source_opponent_id]))
+    .execute();
+  const opponents = new Map((await toOpponents(db, opponentRows)).map(opponent => [opponent.id, opponent]));
+
+  return rows.map(row => ({
+    id: row.id,
+    target: opponents.get(row.target_opponent_id)!,
+    source: opponents.get(row.source_opponent_id)!,
+    similarity: Number(row.similarity),
+    createdAt: toTimestampString(row.created_at),
+  }));
+}
+
+/**
+ * Mark a proposal as not a duplicate so scans don't propose it again.
+ * Returns false if there is no pending proposal with that ID.
+ */
+export async function dismissMergeProposal(proposalId: number, userId: number): Promise<boolean> {
+  const result = await db
+    .updateTable('opponent_merge_proposals')
+    .set({ status: 'dismissed', resolved_by: userId, resolved_at: new Date().toISOString() })
+    .where('id', '=', proposalId)
+    .where('status', '=', 'pending')
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows) > 0;
+}
@@ -0,0 +1,153 @@
+/**
+ * Pass Network Service
+ *
+ * Builds a JOGA pass network (who passes to whom) from pass events. A pass event
+ * names its passer and receiver in eventData:
+ * - eventData.passer: passing player (falls back to the event's player_name)
+ * - eventData.receiver: receiving player
+ * - eventData.endX / eventData.endY: optional reception location
+ *
+ * Coordinates use the xgService frame (percentages, JOGA attacking toward x = 100).
+ * Each player's node sits at the average location of the passes they made and received;
+ * edges are undirected, counting passes between two players in either direction.
+ * Names are matched ignoring case and spacing.
+ */
+
+import { normalizeEventType } from '../utils/eventTypes.js';
+
+/**
+ * Minimal event shape needed for pass networks (matches getMatchEvents output)
+ */
+export interface PassNetworkEvent {
+  eventType: string;
+  xCoordinate: number | null;
+  yCoordinate: number | null;
+  isJogaTeam: boolean;
+  playerName: string | null;
+  eventData: any;
+}
+
+export interface PassNetworkNode {
+  playerName: string;
+  x: number | null; // Average location; null when none of the player's passes are located
+  y: number | null;
+  passesMade: number;
+  passesReceived: number;
+}
+
+export interface PassNetworkEdge {
+  playerA: string;
+  playerB: string;
+  passes: number; // Both directions
+  aToB: number;
+  bToA: number;
+}
+
+export interface PassNetwork {
+  matches: number;
+  passes: number; // Passes with a passer and receiver (the ones in the network)
+  passesWithoutReceiver: number;
+  nodes: PassNetworkNode[];
+  edges: PassNetworkEdge[];
+}
+
+export const MAX_PASS_NETWORK_MATCHES = 100;
+
+function cleanName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return name || null;
+}
+
+function isCoordinate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function roundPosition(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Build the JOGA pass network for a set of events (one or more matches)
+ */
+export function buildPassNetwork(events: PassNetworkEvent[], matches = 1): PassNetwork {
+  interface NodeAccumulator {
+    playerName: string;
+    passesMade: number;
+    passesReceived: number;
+    sumX: number;
+    sumY: number;
+    located: number;
+  }
+  const nodes = new Map<string, NodeAccumulator>();
+  const edges = new Map<string, PassNetworkEdge>();
+  let passes = 0;
+  let passesWithoutReceiver = 0;
+
+  const getNode = (name: string): NodeAccumulator => {
+    const key = name.toLowerCase();
+    let node = nodes.get(key);
+    if (!node) {
+      node = { playerName: name, passesMade: 0, passesReceived: 0, sumX: 0, sumY: 0, located: 0 };
+      nodes.set(key, node);
+    }
+    return node;
+  };
+
+  const addLocation = (node: NodeAccumulator, x: unknown, y: unknown) => {
+    if (isCoordinate(x) && isCoordinate(y)) {
+      node.sumX += x;
+      node.sumY += y;
+      node.located += 1;
+    }
+  };
+
+  for (const event of events) {
+    if (!event.isJogaTeam || normalizeEventType(event.eventType) !== 'pass') continue;
+
+    const passerName = cleanName(event.eventData?.passer) ?? cleanName(event.playerName);
+    const receiverName = cleanName(event.eventData?.receiver);
+    if (!passerName || !receiverName || passerName.toLowerCase() === receiverName.toLowerCase()) {
+      passesWithoutReceiver += 1;
+      continue;
+    }
+    passes += 1;
+
+    const passer = getNode(passerName);
+    const receiver = getNode(receiverName);
+    passer.passesMade += 1;
+    receiver.passesReceived += 1;
+    addLocation(passer, event.xCoordinate, event.yCoordinate);
+    addLocation(receiver, event.eventData?.endX, event.eventData?.endY);
+
+    const [first, second] = [passer.playerName, receiver.playerName].sort((a, b) => a.localeCompare(b));
+    const edgeKey = `${first.toLowerCase()}\u0000${second.toLowerCase()}`;
+    let edge = edges.get(edgeKey);
+    if (!edge) {
+      edge = { playerA: first, playerB: second, passes: 0, aToB: 0, bToA: 0 };
+      edges.set(edgeKey, edge);
+    }
+    edge.passes += 1;
+    if (passer.playerName === first) {
+      edge.aToB += 1;
+    } else {
+      edge.bToA += 1;
+    }
+  }
+
+  return {
+    matches,
+    passes,
+    passesWithoutReceiver,
+    nodes: [...nodes.values()]
+      .map(node => ({
+        playerName: node.playerName,
+        x: node.located > 0 ? roundPosition(node.sumX / node.located) : null,
+        y: node.located > 0 ? roundPosition(node.sumY / node.located) : null,
+        passesMade: node.passesMade,
+        passesReceived: node.passesReceived,
+      }))
+      .sort((a, b) => (b.passesMade + b.passesReceived) - (a.passesMade + a.passesReceived) || a.playerName.localeCompare(b.playerName)),
+    edges: [...edges.values()].sort((a, b) => b.passes - a.passes || a.playerA.localeCompare(b.playerA)),
+  };
+}
@@ -0,0 +1,490 @@
+/**
+ * Player Service
+ *
+ * Club players (name, jersey number, positions, birth year) and team rosters. A player
+ * joins a team's roster through team_players, which records the team's season so a
+ * player can be followed from one season's team to the next. Game events point at a
+ * player through game_events.player_id.
+ */
+
+import type { Kysely, Transaction } from 'kysely';
+import { db } from '../db/database.js';
+import type { Database, PlayerRow } from '../db/schema.js';
+import { parseCsv } from './matchImportService.js';
+
+type Executor = Kysely<Database> | Transaction<Database>;
+
+// Max data rows accepted in a single roster file
+export const MAX_ROSTER_IMPORT_ROWS = 200;
+
+export interface PlayerInput {
+  name: string;
+  jerseyNumber?: number | null;
+  positions?: string[] | null;
+  birthYear?: number | null;
+}
+
+export interface PlayerTeam {
+  teamId: number;
+  teamName: string;
+  seasonId: number | null;
+}
+
+export interface Player {
+  id: number;
+  name: string;
+  jerseyNumber: number | null;
+  positions: string[];
+  birthYear: number | null;
+  teams: PlayerTeam[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RosterImportRow {
+  rowNumber: number; // Spreadsheet row number (header row is 1)
+  player: {
+    name: string | null;
+    jerseyNumber: number | null;
+    positions: string[];
+    birthYear: number | null;
+  };
+  /** Existing player the row updates ('roster': already on this team; 'club': on another team) */
+  existingPlayer: { id: number; name: string; match: 'roster' | 'club' } | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface RosterImportPreview {
+  teamId: number;
+  rows: RosterImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    existing: number;
+  };
+}
+
+// Header names accepted for each roster column (lowercased)
+const ROSTER_COLUMNS: Record<'name' | 'firstName' | 'lastName' | 'jerseyNumber' | 'positions' | 'birthYear', string[]> = {
+  name: ['name', 'player', 'player name', 'full name'],
+  firstName: ['first name', 'firstname', 'first'],
+  lastName: ['last name', 'lastname', 'last', 'surname'],
+  jerseyNumber: ['number', 'jersey', 'jersey number', 'jersey #', 'no', 'no.', '#', 'shirt'],
+  positions: ['position', 'positions', 'pos'],
+  birthYear: ['birth year', 'birthyear', 'year of birth', 'yob', 'born'],
+};
+
+function toTimestampString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function normalizePlayerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Clean a position list: trimmed, uppercase, de-duplicated ("cb, dm" -> ["CB", "DM"])
+ */
+export function parsePositions(value: string | string[] | null | undefined): string[] {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : value.split(/[,/;|]/);
+  const result: string[] = [];
+  for (const position of list) {
+    const cleaned = String(position).trim().toUpperCase();
+    if (cleaned && !result.includes(cleaned)) {
+      result.push(cleaned);
+    }
+  }
+  return result;
+}
+
+function serializePositions(positions: string[] | null | undefined): string | null {
+  const parsed = parsePositions(positions);
+  return parsed.length > 0 ? JSON.stringify(parsed) : null;
+}
+
+function deserializePositions(positions: string | null): string[] {
+  if (!positions) return [];
+  try {
+    const parsed = JSON.parse(positions);
+    return Array.isArray(parsed) ? parsePositions(parsed) : [];
+  } catch {
+    return parsePositions(positions);
+  }
+}
+
+/**
+ * Validate player details from user input.
+ * With partial, only the fields present are checked (for updates).
+ * Returns an error message, or null when valid.
+ */
+export function validatePlayerInput(input: any, options?: { partial?: boolean }): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Player details are required';
+  }
+  if (!options?.partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'name is required';
+    }
+  }
+  const jerseyNumber = input.jerseyNumber;
+  if (jerseyNumber !== undefined && jerseyNumber !== null
+    && (!Number.isInteger(jerseyNumber) || jerseyNumber < 0 || jerseyNumber > 999)) {
+    return 'jerseyNumber must be a whole number between 0 and 999';
+  }
+  const birthYear = input.birthYear;
+  if (birthYear !== undefined && birthYear !== null
+    && (!Number.isInteger(birthYear) || birthYear < 1900 || birthYear > new Date().getFullYear())) {
+    return 'birthYear must be a four-digit year';
+  }
+  if (input.positions !== undefined && input.positions !== null
+    && !(Array.isArray(input.positions) && input.positions.every((position: unknown) => typeof position === 'string'))) {
+    return 'positions must be an array of strings';
+  }
+  return null;
+}
+
+async function toPlayers(executor: Executor, rows: PlayerRow[]): Promise<Player[]> {
+  if (rows.length === 0) return [];
+  const memberships = await executor
+    .selectFrom('team_players')
+    .innerJoin('teams', 'teams.id', 'team_players.team_id')
+    .select(['team_players.player_id', 'team_players.team_id', 'team_players.season_id', 'teams.display_name', 'teams.slug'])
+    .where('team_players.player_id', 'in', rows.map(row => row.id))
+    .orderBy('teams.display_name')
+    .execute();
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    jerseyNumber: row.jersey_number,
+    positions: deserializePositions(row.positions),
+    birthYear: row.birth_year,
+    teams: memberships
+      .filter(membership => membership.player_id === row.id)
+      .map(membership => ({
+        teamId: membership.team_id,
+        teamName: membership.display_name || membership.slug,
+        seasonId: membership.season_id,
+      })),
+    createdAt: toTimestampString(row.created_at),
+    updatedAt: toTimestampString(row.updated_at),
+  }));
+}
+
+/**
+ * List players.
+ * teamId/teamIds limit to those teams' rosters; seasonId to rosters in that season;
+ * search matches part of the name.
+ */
+export async function getPlayers(filters?: {
+  teamId?: number;
+  teamIds?: number[];
+  seasonId?: number;
+  search?: string;
+}): Promise<Player[]> {
+  let query = db.selectFrom('players').selectAll('players');
+
+  const teamIds = filters?.teamId ? [filters.teamId] : filters?.teamIds;
+  if (teamIds || filters?.seasonId) {
+    let memberships = db.selectFrom('team_players').select('player_id');
+    if (teamIds) {
+      memberships = memberships.where('team_id', 'in', teamIds.length > 0 ? teamIds : [0]);
+    }
+    if (filters?.seasonId) {
+      memberships = memberships.where('season_id', '=', filters.seasonId);
+    }
+    query = query.where('players.id', 'in', memberships);
+  }
+  if (filters?.search?.trim()) {
+    query = query.where('players.name', 'ilike', `%${filters.search.trim().replace(/[%_\\]/g, '\\$&')}%`);
+  }
+
+  const rows = await query.orderBy('players.name').execute();
+  return toPlayers(db, rows);
+}
+
+export async function getPlayerById(playerId: number, executor: Executor = db): Promise<Player | null> {
+  const row = await executor
+    .selectFrom('players')
+    .selectAll()
+    .where('id', '=', playerId)
+    .executeTakeFirst();
+  return row ? (await toPlayers(executor, [row]))[0] : null;
+}
+
+/**
+ * A team's roster, by jersey number then name
+ */
+export async function getTeamRoster(teamId: number): Promise<Player[]> {
+  const players = await getPlayers({ teamId });
+  return players.sort((a, b) =>
+    (a.jerseyNumber ?? Number.MAX_SAFE_INTEGER) - (b.jerseyNumber ?? Number.MAX_SAFE_INTEGER)
+    || a.name.localeCompare(b.name)
+  );
+}
+
+async function insertPlayer(executor: Executor, input: PlayerInput): Promise<number> {
+  const now = new Date().toISOString();
+  const row = await executor
+    .insertInto('players')
+    .values({
+      name: input.name.trim().replace(/\s+/g, ' '),
+      jersey_number: input.jerseyNumber ?? null,
+      positions: serializePositions(input.positions),
+      birth_year: input.birthYear ?? null,
+      created_at: now,
+      updated_at: now,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow();
+  return row.id;
+}
+
+async function updatePlayerRow(executor: Executor, playerId: number, input: Partial<PlayerInput>): Promise<void> {
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (input.name !== undefined) updates.name = input.name.trim().replace(/\s+/g, ' ');
+  if (input.jerseyNumber !== undefined) updates.jersey_number = input.jerseyNumber;
+  if (input.positions !== undefined) updates.positions = serializePositions(input.positions);
+  if (input.birthYear !== undefined) updates.birth_year = input.birthYear;
+  await executor.updateTable('players').set(updates).where('id', '=', playerId).execute();
+}
+
+async function addRosterMembership(executor: Executor, teamId: number, playerId: number): Promise<void> {
+  const team = await executor.selectFrom('teams').select(['id', 'season_id']).where('id', '=', teamId).executeTakeFirst();
+  if (!team) {
+    throw new Error('Team not found');
+  }
+  await executor
+    .insertInto('team_players')
+    .values({ team_id: teamId, player_id: playerId, season_id: team.season_id, created_at: new Date().toISOString() })
+    .onConflict(oc => oc.columns(['team_id', 'player_id']).doNothing())
+    .execute();
+}
+
+/**
+ * Create a player, optionally adding them to a team's roster.
+ * Callers must validate the input first.
+ */
+export async function createPlayer(input: PlayerInput, options?: { teamId?: number }): Promise<Player> {
+  const id = await db.transaction().execute(async (trx) => {
+    const playerId = await insertPlayer(trx, input);
+    if (options?.teamId) {
+      await addRosterMembership(trx, options.teamId, playerId);
+    }
+    return playerId;
+  });
+  return (await getPlayerById(id))!;
+}
+
+/**
+ * Update a player. Callers must validate the input first.
+ */
+export async function updatePlayer(playerId: number, input: Partial<PlayerInput>): Promise<Player | null> {
+  if (!(await getPlayerById(playerId))) return null;
+  await updatePlayerRow(db, playerId, input);
+  return getPlayerById(playerId);
+}
+
+/**
+ * Delete a player. Their roster memberships go with them; tagged events keep the player's name.
+ */
+export async function deletePlayer(playerId: number): Promise<boolean> {
+  const result = await db.deleteFrom('players').where('id', '=', playerId).executeTakeFirst();
+  return Number(result.numDeletedRows) > 0;
+}
+
+/**
+ * Add an existing player to a team's roster (no-op if they're already on it)
+ */
+export async function addPlayerToRoster(teamId: number, playerId: number): Promise<void> {
+  if (!(await getPlayerById(playerId))) {
+    throw new Error('Player not found');
+  }
+  await addRosterMembership(db, teamId, playerId);
+}
+
+export async function removePlayerFromRoster(teamId: number, playerId: number): Promise<boolean> {
+  const result = await db
+    .deleteFrom('team_players')
+    .where('team_id', '=', teamId)
+    .where('player_id', '=', playerId)
+    .executeTakeFirst();
+  return Number(result.numDeletedRows) > 0;
+}
+
+function findColumn(columns: string[], names: string[]): number {
+  return columns.findIndex(column => names.includes(column));
+}
+
+function parseWholeNumber(value: string | undefined): number | null | undefined {
+  const trimmed = value?.trim().replace(/^#/, '');
+  if (!trimmed) return null;
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : undefined;
+}
+
+/**
+ * Dry-run a CSV roster import for a team.
+ * Columns: Name (or First Name + Last Name), Number, Position(s), Birth Year.
+ * Rows are matched to players already on the roster by name, then to other club players
+ * with the same name and birth year (moving up from last season's team); anything else
+ * creates a player.
+ */
+export async function previewRosterImport(teamId: number, content: string): Promise<RosterImportPreview> {
+  const team = await db.selectFrom('teams').select('id').where('id', '=', teamId).executeTakeFirst();
+  if (!team) {
+    throw new Error('Team not found');
+  }
+
+  const rows = parseCsv(content).filter(row => row.some(cell => cell.trim()));
+  if (rows.length === 0) {
+    throw new Error('File is empty');
+  }
+  if (rows.length - 1 > MAX_ROSTER_IMPORT_ROWS) {
+    throw new Error(`Too many rows (${rows.length - 1}). Import at most ${MAX_ROSTER_IMPORT_ROWS} players at a time`);
+  }
+
+  const columns = rows[0].map(header => header.trim().toLowerCase());
+  const nameColumn = findColumn(columns, ROSTER_COLUMNS.name);
+  const firstNameColumn = findColumn(columns, ROSTER_COLUMNS.firstName);
+  const lastNameColumn = findColumn(columns, ROSTER_COLUMNS.lastName);
+  const jerseyColumn = findColumn(columns, ROSTER_COLUMNS.jerseyNumber);
+  const positionsColumn = findColumn(columns, ROSTER_COLUMNS.positions);
+  const birthYearColumn = findColumn(columns, ROSTER_COLUMNS.birthYear);
+  if (nameColumn === -1 && firstNameColumn === -1) {
+    throw new Error('The file needs a Name column (or First Name and Last Name columns)');
+  }
+
+  const roster = await getTeamRoster(teamId);
+  const rosterByName = new Map(roster.map(player => [normalizePlayerName(player.name), player]));
+  const clubPlayers = await getPlayers();
+
+  const seenNames = new Map<string, number>();
+  const previewRows: RosterImportRow[] = [];
+
+  for (let i = 1; i < rows.length; i++) {
+    const cells = rows[i];
+    const rowNumber = i + 1;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = nameColumn !== -1
+      ? cells[nameColumn]?.trim()
+      : [cells[firstNameColumn], lastNameColumn !== -1 ? cells[lastNameColumn] : ''].map(part => part?.trim()).filter(Boolean).join(' ');
+    if (!name) {
+      errors.push('Name is required');
+    }
+
+    const jerseyNumber = jerseyColumn !== -1 ? parseWholeNumber(cells[jerseyColumn]) : null;
+    if (jerseyNumber === undefined) {
+      errors.push(`Invalid number: ${cells[jerseyColumn]}`);
+    }
+    const birthYear = birthYearColumn !== -1 ? parseWholeNumber(cells[birthYearColumn]) : null;
+    if (birthYear === undefined || (birthYear !== null && validatePlayerInput({ name: 'x', birthYear }))) {
+      errors.push(`Invalid birth year: ${cells[birthYearColumn]}`);
+    }
+    const positions = positionsColumn !== -1 ? parsePositions(cells[positionsColumn]) : [];
+
+    let existingPlayer: RosterImportRow['existingPlayer'] = null;
+    if (name) {
+      const normalized = normalizePlayerName(name);
+      const onRoster = rosterByName.get(normalized);
+      const fromClub = !onRoster && birthYear
+        ? clubPlayers.find(player => normalizePlayerName(player.name) === normalized && player.birthYear === birthYear)
+        : undefined;
+      if (onRoster) {
+        existingPlayer = { id: onRoster.id, name: onRoster.name, match: 'roster' };
+      } else if (fromClub) {
+        existingPlayer = { id: fromClub.id, name: fromClub.name, match: 'club' };
+        warnings.push(`Adds ${fromClub.name} (${fromClub.teams.map(team => team.teamName).join(', ') || 'no team'}) to this roster`);
+      }
+
+      const earlierRow = seenNames.get(normalized);
+      if (earlierRow !== undefined) {
+        errors.push(`Same player as row ${earlierRow}`);
+      } else {
+        seenNames.set(normalized, rowNumber);
+      }
+    }
+
+    if (typeof jerseyNumber === 'number') {
+      const sameNumber = roster.find(player =>
+        player.jerseyNumber === jerseyNumber && player.id !== existingPlayer?.id
+      );
+      if (sameNumber) {
+        warnings.push(`#${jerseyNumber} is already worn by ${sameNumber.name}`);
+      }
+    }
+
+    previewRows.push({
+      rowNumber,
+      player: {
+        name: name || null,
+        jerseyNumber: jerseyNumber ?? null,
+        positions,
+        birthYear: birthYear ?? null,
+      },
+      existingPlayer,
+      errors,
+      warnings,
+    });
+  }
+
+  return {
+    teamId,
+    rows: previewRows,
+    summary: {
+      total: previewRows.length,
+      valid: previewRows.filter(row => row.errors.length === 0).length,
+      invalid: previewRows.filter(row => row.errors.length > 0).length,
+      existing: previewRows.filter(row => row.existingPlayer).length,
+    },
+  };
+}
+
+/**
+ * Apply a previewed roster import: update matched players, create the rest, and put
+ * everyone on the team's roster. Nothing is saved if any row has errors.
+ */
+export async function commitRosterImport(
+  preview: RosterImportPreview
+): Promise<{ created: number; updated: number; rowErrors: Array<{ rowNumber: number; errors: string[] }> }> {
+  const rowErrors = preview.rows
+    .filter(row => row.errors.length > 0)
+    .map(row => ({ rowNumber: row.rowNumber, errors: row.errors }));
+  if (rowErrors.length > 0) {
+    return { created: 0, updated: 0, rowErrors };
+  }
+
+  return db.transaction().execute(async (trx) => {
+    let created = 0;
+    let updated = 0;
+    for (const row of preview.rows) {
+      const input: PlayerInput = {
+        name: row.player.name!,
+        jerseyNumber: row.player.jerseyNumber,
+        positions: row.player.positions,
+        birthYear: row.player.birthYear,
+      };
+      let playerId: number;
+      if (row.existingPlayer) {
+        playerId = row.existingPlayer.id;
+        // Blank cells don't clear what the player already has
+        await updatePlayerRow(trx, playerId, {
+          name: input.name,
+          ...(input.jerseyNumber !== null ? { jerseyNumber: input.jerseyNumber } : {}),
+          ...(input.positions!.length > 0 ? { positions: input.positions } : {}),
+          ...(input.birthYear !== null ? { birthYear: input.birthYear } : {}),
+        });
+        updated++;
+      } else {
+        playerId = await insertPlayer(trx, input);
+        created++;
+      }
+      await addRosterMembership(trx, preview.teamId, playerId);
+    }
+    return { created, updated, rowErrors: [] };
+  });
+}
@@ -0,0 +1,313 @@
+/**
+ * Player Stats Service
+ *
+ * Individual stats aggregated from JOGA game events, per team. Events are credited by
+ * player_id, or by player_name normalized within the team (case and spacing ignored),
+ * with names that match a roster player folded into that player. Per-60 rates use the
+ * minutes played recorded in match lineups, counting only events from matches where
+ * the player's minutes are known.
+ *
+ * Event conventions:
+ * - shot / goal: a goal is also a shot (as in xgService)
+ * - assist: credits the event's player; goal events can instead carry eventData.assistPlayerName
+ * - pass: one pass by the event's player
+ * - pass_string: a completed pass string; the event's player and every name in
+ *   eventData.players are involved
+ */
+
+import { db } from '../db/database.js';
+import { normalizeEventType } from '../utils/eventTypes.js';
+
+export interface PlayerStatTotals {
+  shots: number;
+  goals: number;
+  assists: number;
+  passes: number;
+  passStrings: number;
+}
+
+export interface PlayerStatsEntry {
+  playerName: string;
+  playerId: number | null;
+  teamId: number;
+  teamName: string;
+  matches: number; // Matches with at least one credited event or lineup minutes
+  minutesPlayed: number | null; // From lineups; null when no lineup minutes are known
+  totals: PlayerStatTotals;
+  per60: PlayerStatTotals | null;
+}
+
+export interface PlayerStatsFilters {
+  teamId?: number;
+  teamIds?: number[];
+  matchId?: number;
+  seasonId?: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * A JOGA event as used for player stats
+ */
+export interface PlayerStatsEvent {
+  matchId: number;
+  teamId: number;
+  eventType: string;
+  eventData: any;
+  playerId: number | null;
+  playerName: string | null;
+}
+
+export interface PlayerMinutesRow {
+  matchId: number;
+  teamId: number;
+  playerId: number | null;
+  playerName: string;
+  minutesPlayed: number;
+}
+
+export interface RosterName {
+  teamId: number;
+  playerId: number;
+  name: string;
+}
+
+type StatKey = keyof PlayerStatTotals;
+
+function emptyTotals(): PlayerStatTotals {
+  return { shots: 0, goals: 0, assists: 0, passes: 0, passStrings: 0 };
+}
+
+function cleanName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+function normalizeName(name: string): string {
+  return cleanName(name).toLowerCase();
+}
+
+function parseEventData(value: unknown): any {
+  if (typeof value !== 'string') return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stats a single event credits, as [player, stat] pairs (player by id and/or name)
+ */
+function getEventCredits(event: PlayerStatsEvent): Array<{ playerId: number | null; playerName: string | null; stat: StatKey }> {
+  const eventType = normalizeEventType(event.eventType);
+  const self = { playerId: event.playerId, playerName: event.playerName };
+  const credits: Array<{ playerId: number | null; playerName: string | null; stat: StatKey }> = [];
+
+  if (eventType === 'shot' || eventType === 'goal') {
+    credits.push({ ...self, stat: 'shots' });
+  }
+  if (eventType === 'goal') {
+    credits.push({ ...self, stat: 'goals' });
+    const assist = event.eventData?.assistPlayerName;
+    if (typeof assist === 'string' && assist.trim()) {
+      credits.push({ playerId: null, playerName: assist, stat: 'assists' });
+    }
+  }
+  if (eventType === 'assist') {
+    credits.push({ ...self, stat: 'assists' });
+  }
+  if (eventType === 'pass') {
+    credits.push({ ...self, stat: 'passes' });
+  }
+  if (eventType === 'pass_string') {
+    const names = Array.isArray(event.eventData?.players)
+      ? event.eventData.players.filter((name: unknown): name is string => typeof name === 'string' && name.trim() !== '')
+      : [];
+    const involved = new Set<string>();
+    if (event.playerId || event.playerName) {
+      credits.push({ ...self, stat: 'passStrings' });
+      if (event.playerName) involved.add(normalizeName(event.playerName));
+    }
+    for (const name of names) {
+      if (involved.has(normalizeName(name))) continue;
+      involved.add(normalizeName(name));
+      credits.push({ playerId: null, playerName: name, stat: 'passStrings' });
+    }
+  }
+
+  return credits.filter(credit => credit.playerId || credit.playerName?.trim());
+}
+
+/**
+ * Aggregate events and lineup minutes into per-player stats (per team).
+ * Pure function; getPlayerStats loads the inputs.
+ */
+export function aggregatePlayerStats(
+  events: PlayerStatsEvent[],
+  minutes: PlayerMinutesRow[],
+  roster: RosterName[],
+  teamNames: Map<number, string>
+): PlayerStatsEntry[] {
+  const rosterIds = new Map(roster.map(player => [`${player.teamId}:${normalizeName(player.name)}`, player]));
+  const rosterById = new Map(roster.map(player => [`${player.teamId}:${player.playerId}`, player]));
+
+  interface Accumulator {
+    entry: PlayerStatsEntry;
+    eventsByMatch: Map<number, PlayerStatTotals>;
+    minutesByMatch: Map<number, number>;
+  }
+  const players = new Map<string, Accumulator>();
+
+  const resolve = (teamId: number, playerId: number | null, playerName: string | null): Accumulator => {
+    const rosterPlayer = playerId
+      ? rosterById.get(`${teamId}:${playerId}`)
+      : playerName ? rosterIds.get(`${teamId}:${normalizeName(playerName)}`) : undefined;
+    const id = playerId ?? rosterPlayer?.playerId ?? null;
+    const key = id ? `${teamId}:id:${id}` : `${teamId}:name:${normalizeName(playerName!)}`;
+    let accumulator = players.get(key);
+    if (!accumulator) {
+      accumulator = {
+        entry: {
+          playerName: rosterPlayer?.name ?? cleanName(playerName ?? ''),
+          playerId: id,
+          teamId,
+          teamName: teamNames.get(teamId) ?? '',
+          matches: 0,
+          minutesPlayed: null,
+          totals: emptyTotals(),
+          per60: null,
+        },
+        eventsByMatch: new Map(),
+        minutesByMatch: new Map(),
+      };
+      players.set(key, accumulator);
+    }
+    if (!accumulator.entry.playerName && playerName) {
+      accumulator.entry.playerName = cleanName(playerName);
+    }
+    return accumulator;
+  };
+
+  for (const event of events) {
+    for (const credit of getEventCredits(event)) {
+      const accumulator = resolve(event.teamId, credit.playerId, credit.playerName);
+      accumulator.entry.totals[credit.stat] += 1;
+      const matchTotals = accumulator.eventsByMatch.get(event.matchId) ?? emptyTotals();
+      matchTotals[credit.stat] += 1;
+      accumulator.eventsByMatch.set(event.matchId, matchTotals);
+    }
+  }
+
+  for (const row of minutes) {
+    const accumulator = resolve(row.teamId, row.playerId, row.playerName);
+    accumulator.minutesByMatch.set(row.matchId, (accumulator.minutesByMatch.get(row.matchId) ?? 0) + row.minutesPlayed);
+  }
+
+  const result: PlayerStatsEntry[] = [];
+  for (const { entry, eventsByMatch, minutesByMatch } of players.values()) {
+    const matchIds = new Set([...eventsByMatch.keys(), ...[...minutesByMatch].filter(([, played]) => played > 0).map(([id]) => id)]);
+    if (matchIds.size === 0) continue;
+    entry.matches = matchIds.size;
+
+    const minutesPlayed = [...minutesByMatch.values()].reduce((sum, played) => sum + played, 0);
+    entry.minutesPlayed = minutesByMatch.size > 0 ? minutesPlayed : null;
+    if (minutesPlayed > 0) {
+      // Only events from matches where the player's minutes are known count toward the rate
+      const counted = emptyTotals();
+      for (const [matchId, totals] of eventsByMatch) {
+        if (!minutesByMatch.has(matchId)) continue;
+        for (const stat of Object.keys(counted) as StatKey[]) {
+          counted[stat] += totals[stat];
+        }
+      }
+      entry.per60 = Object.fromEntries(
+        Object.entries(counted).map(([stat, count]) => [stat, Math.round((count / minutesPlayed) * 60 * 100) / 100])
+      ) as unknown as PlayerStatTotals;
+    }
+    result.push(entry);
+  }
+
+  return result.sort((a, b) =>
+    a.teamName.localeCompare(b.teamName)
+    || b.totals.goals - a.totals.goals
+    || b.totals.shots - a.totals.shots
+    || a.playerName.localeCompare(b.playerName)
+  );
+}
+
+/**
+ * Player stats for JOGA events in matches matching the filters.
+ * teamId/teamIds limit to those teams, matchId to one match, seasonId to teams in that
+ * season, startDate/endDate (YYYY-MM-DD, inclusive) to a date range.
+ */
+export async function getPlayerStats(filters: PlayerStatsFilters = {}): Promise<PlayerStatsEntry[]> {
+  let matchQuery = db
+    .selectFrom('matches')
+    .innerJoin('teams', 'teams.id', 'matches.team_id')
+    .select(['matches.id', 'matches.team_id', 'teams.display_name', 'teams.slug'])
+    .where('matches.status', '!=', 'cancelled');
+
+  const teamIds = filters.teamId ? [filters.teamId] : filters.teamIds;
+  if (teamIds) {
+    matchQuery = matchQuery.where('matches.team_id', 'in', teamIds.length > 0 ? teamIds : [0]);
+  }
+  if (filters.matchId) {
+    matchQuery = matchQuery.where('matches.id', '=', filters.matchId);
+  }
+  if (filters.seasonId) {
+    matchQuery = matchQuery.where('teams.season_id', '=', filters.seasonId);
+  }
+  if (filters.startDate) {
+    matchQuery = matchQuery.where('matches.match_date', '>=', filters.startDate);
+  }
+  if (filters.endDate) {
+    matchQuery = matchQuery.where('matches.match_date', '<=', filters.endDate);
+  }
+
+  const matches = await matchQuery.execute();
+  if (matches.length === 0) return [];
+
+  const matchIds = matches.map(match => match.id);
+  const teamByMatch = new Map(matches.map(match => [match.id, match.team_id!]));
+  const teamNames = new Map(matches.map(match => [match.team_id!, match.display_name || match.slug]));
+
+  const [eventRows, minuteRows, rosterRows] = await Promise.all([
+    db
+      .selectFrom('game_events')
+      .select(['match_id', 'event_type', 'event_data', 'player_id', 'player_name'])
+      .where('match_id', 'in', matchIds)
+      .where('is_joga_team', '=', 1)
+      .execute(),
+    db
+      .selectFrom('match_lineup_players')
+      .select(['match_id', 'player_id', 'player_name', 'minutes_played'])
+      .where('match_id', 'in', matchIds)
+      .execute(),
+    db
+      .selectFrom('team_players')
+      .innerJoin('players', 'players.id', 'team_players.player_id')
+      .select(['team_players.team_id', 'players.id', 'players.name'])
+      .where('team_players.team_id', 'in', [...teamNames.keys()])
+      .execute(),
+  ]);
+
+  return aggregatePlayerStats(
+    eventRows.map(row => ({
+      matchId: row.match_id,
+      teamId: teamByMatch.get(row.match_id)!,
+      eventType: row.event_type,
+      eventData: parseEventData(row.event_data),
+      playerId: row.player_id,
+      playerName: row.player_name,
+    })),
+    minuteRows.map(row => ({
+      matchId: row.match_id,
+      teamId: teamByMatch.get(row.match_id)!,
+      playerId: row.player_id,
+      playerName: row.player_name,
+      minutesPlayed: row.minutes_played,
+    })),
+    rosterRows.map(row => ({ teamId: row.team_id, playerId: row.id, name: row.name })),
+    teamNames
+  );
+}
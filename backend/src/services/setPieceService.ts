@@ -0,0 +1,214 @@
+/**
+ * Set Piece Service
+ *
+ * Builds set-piece analytics (corners and free kicks) from game events. Each set
+ * piece is one event; its details live in eventData:
+ * - eventData.side: where it was taken from (left, right, central)
+ * - eventData.delivery: inswinger, outswinger, driven, short or direct
+ * - eventData.outcome: goal, shot, cleared or retained
+ *
+ * Conversion rates only count set pieces with an outcome logged, so matches
+ * tagged before outcomes were captured don't drag the rates down. A goal also
+ * counts as a shot.
+ */
+
+import { normalizeEventType } from '../utils/eventTypes.js';
+
+export const SET_PIECE_TYPES = ['corner', 'free_kick'] as const;
+export const SET_PIECE_SIDES = ['left', 'right', 'central'] as const;
+export const SET_PIECE_DELIVERIES = ['inswinger', 'outswinger', 'driven', 'short', 'direct'] as const;
+export const SET_PIECE_OUTCOMES = ['goal', 'shot', 'cleared', 'retained'] as const;
+
+export type SetPieceType = typeof SET_PIECE_TYPES[number];
+export type SetPieceSide = typeof SET_PIECE_SIDES[number];
+export type SetPieceDelivery = typeof SET_PIECE_DELIVERIES[number];
+export type SetPieceOutcome = typeof SET_PIECE_OUTCOMES[number];
+
+export const MAX_SET_PIECE_MATCHES = 100;
+
+/**
+ * Minimal event shape needed for set-piece analytics (matches getMatchEvents output)
+ */
+export interface SetPieceEvent {
+  eventType: string;
+  isJogaTeam: boolean;
+  eventData: any;
+}
+
+export interface SetPieceTally {
+  total: number;
+  goals: number;
+  shots: number; // Includes goals
+  cleared: number;
+  retained: number;
+  withoutOutcome: number;
+  shotRate: number | null; // Percent of set pieces with an outcome that led to a shot
+  goalRate: number | null; // Percent of set pieces with an outcome that led to a goal
+}
+
+export interface SetPieceSplit {
+  for: SetPieceTally;
+  against: SetPieceTally;
+}
+
+export interface SetPieceMatchTrend extends SetPieceSplit {
+  matchId: number;
+}
+
+export interface SetPieceDeliveryBreakdown extends SetPieceSplit {
+  delivery: SetPieceDelivery | 'unknown';
+}
+
+export interface SetPieceSideBreakdown extends SetPieceSplit {
+  side: SetPieceSide | 'unknown';
+}
+
+export interface SetPieceAnalytics {
+  matches: number;
+  type: SetPieceType | null; // Only this type was counted (both when null)
+  totals: SetPieceSplit;
+  byType: Record<SetPieceType, SetPieceSplit>;
+  trend: SetPieceMatchTrend[]; // One entry per match, in the order given
+  deliveries: SetPieceDeliveryBreakdown[]; // Deliveries that were used, in SET_PIECE_DELIVERIES order
+  sides: SetPieceSideBreakdown[];
+}
+
+export interface SetPieceMatchEvents {
+  matchId: number;
+  events: SetPieceEvent[];
+}
+
+export function isSetPieceType(value: unknown): value is SetPieceType {
+  return typeof value === 'string' && (SET_PIECE_TYPES as readonly string[]).includes(value);
+}
+
+function getSetPieceType(event: SetPieceEvent): SetPieceType | null {
+  const eventType = normalizeEventType(event.eventType);
+  return isSetPieceType(eventType) ? eventType : null;
+}
+
+function readOption<T extends string>(value: unknown, options: readonly T[]): T | null {
+  if (typeof value !== 'string') return null;
+  const normalized = normalizeEventType(value);
+  return (options as readonly string[]).includes(normalized) ? normalized as T : null;
+}
+
+/**
+ * Check set-piece details in a game event's eventData (unknown side/delivery/outcome values).
+ * Only applies to corner and free kick events; anything else returns no errors.
+ */
+export function validateSetPieceData(eventType: unknown, eventData: unknown): string[] {
+  if (typeof eventType !== 'string' || !isSetPieceType(normalizeEventType(eventType))) return [];
+  if (!eventData || typeof eventData !== 'object' || Array.isArray(eventData)) return [];
+
+  const errors: string[] = [];
+  const details = eventData as Record<string, unknown>;
+  const fields: Array<[string, readonly string[]]> = [
+    ['side', SET_PIECE_SIDES],
+    ['delivery', SET_PIECE_DELIVERIES],
+    ['outcome', SET_PIECE_OUTCOMES],
+  ];
+  for (const [field, options] of fields) {
+    const value = details[field];
+    if (value !== undefined && value !== null && readOption(value, options) === null) {
+      errors.push(`Set piece ${field} must be one of: ${options.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+function emptyTally(): SetPieceTally {
+  return { total: 0, goals: 0, shots: 0, cleared: 0, retained: 0, withoutOutcome: 0, shotRate: null, goalRate: null };
+}
+
+function emptySplit(): SetPieceSplit {
+  return { for: emptyTally(), against: emptyTally() };
+}
+
+function addToSplit(split: SetPieceSplit, isJogaTeam: boolean, outcome: SetPieceOutcome | null) {
+  const tally = isJogaTeam ? split.for : split.against;
+  tally.total += 1;
+  if (outcome === 'goal') {
+    tally.goals += 1;
+    tally.shots += 1;
+  } else if (outcome === 'shot') {
+    tally.shots += 1;
+  } else if (outcome === 'cleared') {
+    tally.cleared += 1;
+  } else if (outcome === 'retained') {
+    tally.retained += 1;
+  } else {
+    tally.withoutOutcome += 1;
+  }
+}
+
+function toPercent(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : null;
+}
+
+function finishSplit<T extends SetPieceSplit>(split: T): T {
+  for (const tally of [split.for, split.against]) {
+    const withOutcome = tally.total - tally.withoutOutcome;
+    tally.shotRate = toPercent(tally.shots, withOutcome);
+    tally.goalRate = toPercent(tally.goals, withOutcome);
+  }
+  return split;
+}
+
+/**
+ * Build set-piece analytics for one or more matches, optionally for one set-piece type only
+ */
+export function buildSetPieceAnalytics(matches: SetPieceMatchEvents[], type?: SetPieceType): SetPieceAnalytics {
+  const totals = emptySplit();
+  const byType: Record<SetPieceType, SetPieceSplit> = { corner: emptySplit(), free_kick: emptySplit() };
+  const deliveries = new Map<string, SetPieceDeliveryBreakdown>();
+  const sides = new Map<string, SetPieceSideBreakdown>();
+  const trend: SetPieceMatchTrend[] = [];
+
+  for (const match of matches) {
+    const matchTrend: SetPieceMatchTrend = { matchId: match.matchId, ...emptySplit() };
+
+    for (const event of match.events) {
+      const setPieceType = getSetPieceType(event);
+      if (!setPieceType) continue;
+
+      const outcome = readOption(event.eventData?.outcome, SET_PIECE_OUTCOMES);
+      // Always counted by type, so the per-type totals are available when filtering
+      addToSplit(byType[setPieceType], event.isJogaTeam, outcome);
+      if (type && setPieceType !== type) continue;
+
+      addToSplit(totals, event.isJogaTeam, outcome);
+      addToSplit(matchTrend, event.isJogaTeam, outcome);
+
+      const delivery = readOption(event.eventData?.delivery, SET_PIECE_DELIVERIES) ?? 'unknown';
+      if (!deliveries.has(delivery)) deliveries.set(delivery, { delivery, ...emptySplit() });
+      addToSplit(deliveries.get(delivery)!, event.isJogaTeam, outcome);
+
+      const side = readOption(event.eventData?.side, SET_PIECE_SIDES) ?? 'unknown';
+      if (!sides.has(side)) sides.set(side, { side, ...emptySplit() });
+      addToSplit(sides.get(side)!, event.isJogaTeam, outcome);
+    }
+
+    trend.push(finishSplit(matchTrend));
+  }
+
+  const deliveryOrder: string[] = [...SET_PIECE_DELIVERIES, 'unknown'];
+  const sideOrder: string[] = [...SET_PIECE_SIDES, 'unknown'];
+
+  return {
+    matches: matches.length,
+    type: type ?? null,
+    totals: finishSplit(totals),
+    byType: {
+      corner: finishSplit(byType.corner),
+      free_kick: finishSplit(byType.free_kick),
+    },
+    trend,
+    deliveries: [...deliveries.values()]
+      .map(finishSplit)
+      .sort((a, b) => deliveryOrder.indexOf(a.delivery) - deliveryOrder.indexOf(b.delivery)),
+    sides: [...sides.values()]
+      .map(finishSplit)
+      .sort((a, b) => sideOrder.indexOf(a.side) - sideOrder.indexOf(b.side)),
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * Stat Validation Service
+ *
+ * Declarative rules checked against entered match stats (RawMatchStats field names).
+ * Each rule compares the sum of some fields with the sum of others (or a constant);
+ * a failed 'error' rule blocks the save, a failed 'warning' rule must be acknowledged.
+ * Rules only run when every field they reference has a value.
+ *
+ * The club's rule set is stored in club_settings (see clubSettingsService) and
+ * falls back to DEFAULT_STAT_VALIDATION_RULES.
+ */
+
+import { computeMatchStats, normalizeFieldNames } from './matchStatsService.js';
+
+export type StatValidationSeverity = 'error' | 'warning';
+export type StatValidationOperator = '<=' | '<' | '=' | '>=' | '>';
+
+export interface StatValidationRule {
+  id: string;
+  /** Shown to the user when the rule fails */
+  message: string;
+  severity: StatValidationSeverity;
+  enabled: boolean;
+  /** Fields summed on the left-hand side */
+  left: string[];
+  operator: StatValidationOperator;
+  /** Fields summed on the right-hand side, or a constant */
+  right: string[] | number;
+  /** How far the comparison may be off and still pass (default 0) */
+  tolerance?: number;
+}
+
+export interface StatValidationResult {
+  ruleId: string;
+  severity: StatValidationSeverity;
+  message: string;
+  fields: string[];
+  leftValue: number;
+  rightValue: number;
+}
+
+const SEVERITIES: StatValidationSeverity[] = ['error', 'warning'];
+const OPERATORS: StatValidationOperator[] = ['<=', '<', '=', '>=', '>'];
+
+type Side = 'For' | 'Against';
+const SIDES: Side[] = ['For', 'Against'];
+
+function goalsWithinAttempts(side: Side, period: '' | '1stHalf' | '2ndHalf'): StatValidationRule {
+  const periodLabel = period === '1stHalf' ? ' (1st half)' : period === '2ndHalf' ? ' (2nd half)' : '';
+  return {
+    id: `goals-${side.toLowerCase()}-within-attempts${period ? `-${period.toLowerCase()}` : ''}`,
+    message: `Goals ${side.toLowerCase()}${periodLabel} can't be more than attempts ${side.toLowerCase()}${periodLabel}`,
+    severity: 'error',
+    enabled: true,
+    left: [`goals${side}${period}`],
+    operator: '<=',
+    right: [`attempts${side}${period}`],
+  };
+}
+
+function halvesAddUpToTotal(stat: string, label: string, side: Side, severity: StatValidationSeverity): StatValidationRule {
+  return {
+    id: `${label.toLowerCase().replace(/ /g, '-')}-${side.toLowerCase()}-halves-total`,
+    message: `${label} ${side.toLowerCase()} in the two halves don't add up to the full-game total`,
+    severity,
+    enabled: true,
+    left: [`${stat}${side}1stHalf`, `${stat}${side}2ndHalf`],
+    operator: '=',
+    right: [`${stat}${side}`],
+  };
+}
+
+export const DEFAULT_STAT_VALIDATION_RULES: StatValidationRule[] = [
+  ...SIDES.flatMap(side => [
+    goalsWithinAttempts(side, ''),
+    goalsWithinAttempts(side, '1stHalf'),
+    goalsWithinAttempts(side, '2ndHalf'),
+  ]),
+  ...SIDES.flatMap(side => [
+    halvesAddUpToTotal('goals', 'Goals', side, 'error'),
+    halvesAddUpToTotal('shots', 'Shots', side, 'error'),
+    halvesAddUpToTotal('attempts', 'Attempts', side, 'error'),
+    halvesAddUpToTotal('passes', 'Passes', side, 'warning'),
+    halvesAddUpToTotal('corners', 'Corners', side, 'warning'),
+    halvesAddUpToTotal('freeKicks', 'Free kicks', side, 'warning'),
+  ]),
+  {
+    id: 'possession-zones-total',
+    message: 'Possession by zone (def + mid + att) should total 100%',
+    severity: 'error',
+    enabled: true,
+    left: ['possessionDef', 'possessionMid', 'possessionAtt'],
+    operator: '=',
+    right: 100,
+    tolerance: 1,
+  },
+  {
+    id: 'possession-within-100',
+    message: "Possession can't be more than 100%",
+    severity: 'error',
+    enabled: true,
+    left: ['possession'],
+    operator: '<=',
+    right: 100,
+  },
+  {
+    id: 'possession-mins-within-duration',
+    message: 'Possession minutes (both teams) are longer than the match',
+    severity: 'warning',
+    enabled: true,
+    left: ['possessionMins', 'oppPossessionMins'],
+    operator: '<=',
+    right: ['matchDuration'],
+  },
+];
+
+function isFieldList(value: unknown): value is string[] {
+  return Array.isArray(value)
+    && value.length > 0
+    && value.every(field => typeof field === 'string' && field.trim() !== '');
+}
+
+/**
+ * Validate a rule set from user input.
+ * Returns an error message, or null when valid.
+ */
+export function validateStatValidationRules(input: unknown): string | null {
+  if (!Array.isArray(input)) {
+    return 'rules must be an array';
+  }
+
+  const ids = new Set<string>();
+  for (const [index, rule] of input.entries()) {
+    const label = rule && typeof rule.id === 'string' && rule.id ? `Rule "${rule.id}"` : `Rule ${index + 1}`;
+    if (!rule || typeof rule !== 'object') {
+      return `${label} must be an object`;
+    }
+    if (typeof rule.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(rule.id)) {
+      return `${label}: id must be lowercase letters, numbers and dashes`;
+    }
+    if (ids.has(rule.id)) {
+      return `${label}: id is used more than once`;
+    }
+    ids.add(rule.id);
+    if (typeof rule.message !== 'string' || !rule.message.trim()) {
+      return `${label}: message is required`;
+    }
+    if (!SEVERITIES.includes(rule.severity)) {
+      return `${label}: severity must be one of ${SEVERITIES.join(', ')}`;
+    }
+    if (typeof rule.enabled !== 'boolean') {
+      return `${label}: enabled must be a boolean`;
+    }
+    if (!isFieldList(rule.left)) {
+      return `${label}: left must be a list of field names`;
+    }
+    if (!OPERATORS.includes(rule.operator)) {
+      return `${label}: operator must be one of ${OPERATORS.join(' ')}`;
+    }
+    if (!isFieldList(rule.right) && !(typeof rule.right === 'number' && Number.isFinite(rule.right))) {
+      return `${label}: right must be a list of field names or a number`;
+    }
+    if (rule.tolerance !== undefined && (typeof rule.tolerance !== 'number' || !Number.isFinite(rule.tolerance) || rule.tolerance < 0)) {
+      return `${label}: tolerance must be a number of 0 or more`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the fields a rule set understands (drops anything extra sent by the client)
+ */
+export function normalizeStatValidationRules(rules: StatValidationRule[]): StatValidationRule[] {
+  return rules.map(rule => ({
+    id: rule.id,
+    message: rule.message.trim(),
+    severity: rule.severity,
+    enabled: rule.enabled,
+    left: rule.left.map(field => field.trim()),
+    operator: rule.operator,
+    right: Array.isArray(rule.right) ? rule.right.map(field => field.trim()) : rule.right,
+    ...(rule.tolerance !== undefined ? { tolerance: rule.tolerance } : {}),
+  }));
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function sumFields(stats: Record<string, any>, fields: string[]): number | null {
+  let total = 0;
+  for (const field of fields) {
+    const value = toNumber(stats[field]);
+    if (value === null) return null;
+    total += value;
+  }
+  return total;
+}
+
+function compare(left: number, operator: StatValidationOperator, right: number, tolerance: number): boolean {
+  switch (operator) {
+    case '<=': return left <= right + tolerance;
+    case '<': return left < right + tolerance;
+    case '=': return Math.abs(left - right) <= tolerance;
+    case '>=': return left >= right - tolerance;
+    case '>': return left > right - tolerance;
+  }
+}
+
+/**
+ * Evaluate enabled rules against entered stats.
+ * Returns only the rules that failed, errors first.
+ */
+export function evaluateStatValidationRules(
+  stats: Record<string, any>,
+  rules: StatValidationRule[]
+): StatValidationResult[] {
+  const results: StatValidationResult[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const leftValue = sumFields(stats, rule.left);
+    const rightValue = Array.isArray(rule.right) ? sumFields(stats, rule.right) : rule.right;
+    if (leftValue === null || rightValue === null) continue;
+    // Sums of decimal fields (e.g. possession %) pick up floating point noise
+    const tolerance = (rule.tolerance ?? 0) + 1e-9;
+    if (compare(leftValue, rule.operator, rightValue, tolerance)) continue;
+
+    results.push({
+      ruleId: rule.id,
+      severity: rule.severity,
+      message: rule.message,
+      fields: [...rule.left, ...(Array.isArray(rule.right) ? rule.right : [])],
+      leftValue,
+      rightValue,
+    });
+  }
+
+  return results.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+}
+
+/**
+ * Stats to validate when updating a match: stored stats overlaid with the entered ones.
+ * Values computeMatchStats derived on the last save (e.g. goalsFor from the halves) are left out
+ * unless the user changed them, so editing one half isn't flagged against the old total.
+ */
+export function mergeStatsForValidation(
+  existingStats: Record<string, any>,
+  enteredStats: Record<string, any>
+): Record<string, any> {
+  // A field is derived if it can be recomputed with every computed field removed;
+  // totals entered without halves are passed through by computeMatchStats and count as entered
+  const computedFields = Object.keys(computeMatchStats(normalizeFieldNames(existingStats)));
+  const enteredOnly = { ...existingStats };
+  computedFields.forEach(field => delete enteredOnly[field]);
+  const derivedFields = Object.keys(computeMatchStats(normalizeFieldNames(enteredOnly)));
+
+  const merged: Record<string, any> = { ...existingStats, ...enteredStats };
+  for (const field of derivedFields) {
+    const entered = enteredStats[field];
+    if (entered === undefined || toNumber(entered) === toNumber(existingStats[field])) {
+      delete merged[field];
+    }
+  }
+  return merged;
+}
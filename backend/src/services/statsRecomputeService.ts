@@ -0,0 +1,229 @@
+/**
+ * Stats Recompute Service
+ *
+ * Brings stored stats_json up to date after computeMatchStats changes.
+ * Every match whose stats_formula_version is older than STATS_FORMULA_VERSION (or NULL)
+ * is recomputed from its stored stats; a dry run reports which metrics would change
+ * and by how much without writing anything.
+ *
+ * Used by POST /api/matches/recompute-stats and `npm run recompute-stats`.
+ */
+
+import { db } from '../db/database.js';
+import { computeMatchStats, normalizeFieldNames, STATS_FORMULA_VERSION, type SpiWeighting } from './matchStatsService.js';
+import { normalizeManualFields } from './eventStatsService.js';
+import { ensureBaselineRevision, recordMatchRevision } from './matchRevisionService.js';
+
+export interface StatsRecomputeOptions {
+  dryRun: boolean;
+  teamId?: number;
+  /** Recompute matches already on the current version too */
+  includeCurrent?: boolean;
+  /** Only update these computed metrics (default: all) */
+  metrics?: string[];
+  /** Compute with this SPI weighting instead of the club's current one */
+  spiWeighting?: SpiWeighting;
+  userId?: number | null;
+}
+
+export interface RecomputedMetricChange {
+  metric: string;
+  before: unknown;
+  after: unknown;
+  delta: number | null;
+}
+
+export interface RecomputedMatch {
+  matchId: number;
+  teamId: number | null;
+  opponentName: string;
+  matchDate: string;
+  fromVersion: number | null;
+  changes: RecomputedMetricChange[];
+}
+
+export interface MetricChangeSummary {
+  metric: string;
+  matchesChanged: number;
+  maxAbsDelta: number | null;
+  meanDelta: number | null;
+}
+
+export interface StatsRecomputeReport {
+  dryRun: boolean;
+  formulaVersion: number;
+  matchesChecked: number;
+  matchesChanged: number;
+  metrics: MetricChangeSummary[];
+  /** Only matches whose stats change */
+  matches: RecomputedMatch[];
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function toDateString(value: unknown): string {
+  if (value instanceof Date) {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return String(value || '').split('T')[0];
+}
+
+/**
+ * Recompute one match's stored stats with the current formulas.
+ * Computed fields overwrite stored ones except those listed in stats_manual_fields.
+ */
+export function recomputeStoredStats(
+  statsJson: Record<string, any>,
+  manualFields: unknown,
+  options: { metrics?: string[]; spiWeighting?: SpiWeighting } = {}
+): { stats: Record<string, any>; changes: RecomputedMetricChange[] } {
+  const manual = normalizeManualFields(manualFields);
+  const computed = computeMatchStats(normalizeFieldNames(statsJson), { spiWeighting: options.spiWeighting });
+  const stats: Record<string, any> = { ...statsJson };
+  const changes: RecomputedMetricChange[] = [];
+
+  for (const [metric, after] of Object.entries(computed)) {
+    if (after === undefined || manual.has(metric)) continue;
+    if (options.metrics && !options.metrics.includes(metric)) continue;
+    const before = statsJson[metric];
+    if (isSameValue(before, after)) continue;
+
+    stats[metric] = after;
+    changes.push({
+      metric,
+      before: before ?? null,
+      after,
+      delta: typeof before === 'number' && typeof after === 'number' ? after - before : null,
+    });
+  }
+
+  return { stats, changes };
+}
+
+function summarizeMetrics(matches: RecomputedMatch[]): MetricChangeSummary[] {
+  const byMetric = new Map<string, { matchesChanged: number; deltas: number[] }>();
+  matches.forEach(match => {
+    match.changes.forEach(change => {
+      const entry = byMetric.get(change.metric) || { matchesChanged: 0, deltas: [] };
+      entry.matchesChanged++;
+      if (change.delta !== null) entry.deltas.push(change.delta);
+      byMetric.set(change.metric, entry);
+    });
+  });
+
+  return Array.from(byMetric.entries())
+    .map(([metric, { matchesChanged, deltas }]) => ({
+      metric,
+      matchesChanged,
+      maxAbsDelta: deltas.length > 0 ? Math.max(...deltas.map(Math.abs)) : null,
+      meanDelta: deltas.length > 0 ? deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length : null,
+    }))
+    .sort((a, b) => b.matchesChanged - a.matchesChanged || a.metric.localeCompare(b.metric));
+}
+
+/**
+ * Recompute stats for every match on an older formula version.
+ * With dryRun nothing is written. Otherwise changed matches get a revision, and every
+ * checked match is stamped with the current version and stats_computed_at = now
+ * (unless only some metrics were recomputed).
+ */
+export async function recomputeOutdatedMatchStats(options: StatsRecomputeOptions): Promise<StatsRecomputeReport> {
+  let query = db
+    .selectFrom('matches')
+    .select([
+      'id',
+      'team_id',
+      'opponent_name',
+      'match_date',
+      'stats_json',
+      'stats_manual_fields',
+      'stats_formula_version',
+    ])
+    .where('stats_json', 'is not', null)
+    .orderBy('match_date', 'asc')
+    .orderBy('id', 'asc');
+
+  if (!options.includeCurrent) {
+    query = query.where(eb => eb.or([
+      eb('stats_formula_version', 'is', null),
+      eb('stats_formula_version', '<', STATS_FORMULA_VERSION),
+    ]));
+  }
+  if (options.teamId !== undefined) {
+    query = query.where('team_id', '=', options.teamId);
+  }
+
+  const rows = await query.execute();
+
+  const results = rows.map(row => {
+    const { stats, changes } = recomputeStoredStats(
+      JSON.parse(row.stats_json!),
+      row.stats_manual_fields ? JSON.parse(row.stats_manual_fields) : null,
+      { metrics: options.metrics, spiWeighting: options.spiWeighting }
+    );
+    return {
+      stats,
+      match: {
+        matchId: row.id,
+        teamId: row.team_id,
+        opponentName: row.opponent_name,
+        matchDate: toDateString(row.match_date),
+        fromVersion: row.stats_formula_version,
+        changes,
+      },
+    };
+  });
+
+  if (!options.dryRun && results.length > 0) {
+    const now = new Date().toISOString();
+    // Only a full recompute brings a match up to the current formula version
+    const isFullRecompute = !options.metrics;
+    await db.transaction().execute(async (trx) => {
+      for (const { stats, match } of results) {
+        const hasChanges = match.changes.length > 0;
+        if (!hasChanges && !isFullRecompute) continue;
+        if (hasChanges) {
+          await ensureBaselineRevision(trx, match.matchId);
+        }
+
+        const updateData: any = {};
+        if (isFullRecompute) {
+          updateData.stats_computed_at = now;
+          updateData.stats_formula_version = STATS_FORMULA_VERSION;
+        }
+        if (hasChanges) {
+          updateData.stats_json = JSON.stringify(stats);
+          updateData.updated_at = now;
+          if (options.userId) {
+            updateData.last_modified_by = options.userId;
+          }
+        }
+
+        await trx
+          .updateTable('matches')
+          .set(updateData)
+          .where('id', '=', match.matchId)
+          .execute();
+
+        if (hasChanges) {
+          await recordMatchRevision(trx, match.matchId, 'update', options.userId);
+        }
+      }
+    });
+  }
+
+  const changedMatches = results.map(result => result.match).filter(match => match.changes.length > 0);
+
+  return {
+    dryRun: options.dryRun,
+    formulaVersion: STATS_FORMULA_VERSION,
+    matchesChecked: results.length,
+    matchesChanged: changedMatches.length,
+    metrics: summarizeMetrics(changedMatches),
+    matches: changedMatches,
+  };
+}
@@ -1,4 +1,5 @@
 import { db } from '../db/database.js';
+import { defaultFormatForLevel, MatchFormat, normalizeMatchFormat } from './matchFormatService.js';
 
 export type TeamGender = 'boys' | 'girls';
 export type TeamVariant = 'volt' | 'valor' | 'black';
@@ -172,6 +173,7 @@ export async function getAllTeams() {
     gender: team.gender,
     level: team.level,
     variant: team.variant,
+    format: team.format,
     birthYearStart: team.birth_year_start,
     birthYearEnd: team.birth_year_end,
     ageGroup: team.age_group,
@@ -203,6 +205,7 @@ export async function getUserTeams(userId: number) {
     gender: team.gender,
     level: team.level,
     variant: team.variant,
+    format: team.format,
     birthYearStart: team.birth_year_start,
     birthYearEnd: team.birth_year_end,
     parentTeamId: team.parent_team_id,
@@ -283,6 +286,7 @@ export async function getTeamById(teamId: number) {
     gender: team.gender,
     level: team.level,
     variant: team.variant,
+    format: team.format,
     birthYearStart: team.birth_year_start,
     birthYearEnd: team.birth_year_end,
     ageGroup: team.age_group,
@@ -302,6 +306,7 @@ export async function createTeam(teamData: {
   gender: TeamGender;
   level: string;
   variant?: TeamVariant;
+  format?: MatchFormat | null;
   birthYearStart?: number | null;
   birthYearEnd?: number | null;
   ageGroup?: string | null;
@@ -313,6 +318,10 @@ export async function createTeam(teamData: {
   const gender = normalizeGender(teamData.gender);
   const level = normalizeLevel(teamData.level);
   const variant = normalizeVariant(teamData.variant);
+  // Default the format from the level (U10 and under play 7v7, etc.) unless one was given
+  const format = teamData.format !== undefined
+    ? normalizeMatchFormat(teamData.format)
+    : defaultFormatForLevel(level);
 
   if (!Number.isFinite(teamData.seasonId)) {
     throw new Error('seasonId is required');
@@ -386,6 +395,7 @@ export async function createTeam(teamData: {
       gender,
       level,
       variant,
+      format,
       birth_year_start: teamData.birthYearStart ?? null,
       birth_year_end: teamData.birthYearEnd ?? null,
       age_group: ageGroup,
@@ -412,6 +422,7 @@ export async function updateTeam(
     gender?: TeamGender;
     level?: string;
     variant?: TeamVariant;
+    format?: MatchFormat | null;
     birthYearStart?: number;
     birthYearEnd?: number;
     ageGroup?: string | null;
@@ -428,6 +439,7 @@ export async function updateTeam(
   if (updates.seasonId !== undefined) updateData.season_id = updates.seasonId;
   if (updates.parentTeamId !== undefined) updateData.parent_team_id = updates.parentTeamId;
   if (updates.isActive !== undefined) updateData.is_active = updates.isActive ? 1 : 0;
+  if (updates.format !== undefined) updateData.format = normalizeMatchFormat(updates.format);
 
   // If any of the structured identity fields are being updated, recompute slug (and displayName if not explicitly set)
   const willUpdateIdentity =
@@ -0,0 +1,181 @@
+/**
+ * Expected Goals (xG) Service
+ *
+ * Estimates the xG of each shot from its logged pitch coordinates using a small
+ * logistic model (distance, goal-mouth angle, inside/outside the box). Runs fully
+ * offline - no external data provider needed.
+ *
+ * Coordinates are percentages (0-100) of pitch length (x) and width (y) in a fixed
+ * frame where JOGA attacks toward x = 100 (same frame as live tagging). Opponent
+ * shots are mirrored so every shot is measured against the goal being attacked.
+ */
+
+import { normalizeEventType } from '../utils/eventTypes.js';
+
+// Reference pitch dimensions in meters (coordinates are scaled to these)
+const PITCH_LENGTH_M = 105;
+const PITCH_WIDTH_M = 68;
+const GOAL_WIDTH_M = 7.32;
+const PENALTY_AREA_DEPTH_M = 16.5;
+const PENALTY_AREA_WIDTH_M = 40.32;
+
+// Logistic model coefficients
+// Calibrated to common reference points: penalty spot ≈ 0.35, central 6-yard box ≈ 0.68,
+// central edge of the box ≈ 0.16, central 25m shot ≈ 0.03
+const XG_INTERCEPT = 0;
+const XG_DISTANCE_COEF = -0.15; // per meter
+const XG_ANGLE_COEF = 1.0; // per radian of goal mouth visible
+const XG_INSIDE_BOX_COEF = 0.4;
+
+const MIN_XG = 0.01;
+const MAX_XG = 0.95;
+
+export type ShotOutcome = 'goal' | 'on_target' | 'off_target' | 'blocked' | 'unknown';
+
+/**
+ * Minimal event shape needed for xG (matches getMatchEvents output)
+ */
+export interface XGEvent {
+  id: number;
+  eventType: string;
+  period: number | null;
+  minute: number | null;
+  xCoordinate: number | null;
+  yCoordinate: number | null;
+  isJogaTeam: boolean;
+  playerName: string | null;
+  eventData: any;
+}
+
+export interface ShotGeometry {
+  distance: number; // meters to the center of the goal
+  angle: number; // radians of goal mouth visible from the shot location
+  insideBox: boolean;
+}
+
+export interface ShotXG extends ShotGeometry {
+  eventId: number;
+  isJogaTeam: boolean;
+  x: number;
+  y: number;
+  xG: number;
+  outcome: ShotOutcome;
+  period: number | null;
+  minute: number | null;
+  playerName: string | null;
+}
+
+export interface MatchXGSummary {
+  shots: ShotXG[];
+  xG: number;
+  xGA: number;
+  // Shots/goals logged without coordinates (not included in xG totals)
+  shotsWithoutLocationFor: number;
+  shotsWithoutLocationAgainst: number;
+}
+
+/**
+ * Compute distance, goal-mouth angle and box position for a shot.
+ * x/y are in the attacking frame: x = 100 is the goal line being attacked.
+ */
+export function getShotGeometry(x: number, y: number): ShotGeometry {
+  const dx = ((100 - x) / 100) * PITCH_LENGTH_M;
+  const dy = Math.abs(((y - 50) / 100) * PITCH_WIDTH_M);
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Angle between the lines to each post
+  const halfGoal = GOAL_WIDTH_M / 2;
+  let angle = Math.atan2(GOAL_WIDTH_M * dx, dx * dx + dy * dy - halfGoal * halfGoal);
+  if (angle < 0) {
+    angle += Math.PI;
+  }
+
+  const insideBox = dx <= PENALTY_AREA_DEPTH_M && dy <= PENALTY_AREA_WIDTH_M / 2;
+
+  return { distance, angle, insideBox };
+}
+
+/**
+ * Estimate the xG of a single shot (attacking frame coordinates)
+ */
+export function estimateShotXG(x: number, y: number): number {
+  const { distance, angle, insideBox } = getShotGeometry(x, y);
+  const logit = XG_INTERCEPT
+    + XG_DISTANCE_COEF * distance
+    + XG_ANGLE_COEF * angle
+    + (insideBox ? XG_INSIDE_BOX_COEF : 0);
+  const probability = 1 / (1 + Math.exp(-logit));
+  return Math.min(MAX_XG, Math.max(MIN_XG, probability));
+}
+
+function isShotEvent(eventType: string): boolean {
+  const normalized = normalizeEventType(eventType);
+  return normalized === 'shot' || normalized === 'goal';
+}
+
+function getShotOutcome(event: XGEvent): ShotOutcome {
+  if (normalizeEventType(event.eventType) === 'goal') {
+    return 'goal';
+  }
+  const outcome = typeof event.eventData?.outcome === 'string'
+    ? normalizeEventType(event.eventData.outcome)
+    : null;
+  if (outcome === 'on_target' || outcome === 'saved') return 'on_target';
+  if (outcome === 'off_target' || outcome === 'wide') return 'off_target';
+  if (outcome === 'blocked') return 'blocked';
+  return 'unknown';
+}
+
+function roundXG(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Estimate xG for every located shot/goal event and sum per side
+ */
+export function computeMatchXG(events: XGEvent[]): MatchXGSummary {
+  const shots: ShotXG[] = [];
+  let shotsWithoutLocationFor = 0;
+  let shotsWithoutLocationAgainst = 0;
+
+  for (const event of events) {
+    if (!isShotEvent(event.eventType)) continue;
+
+    if (event.xCoordinate === null || event.xCoordinate === undefined
+      || event.yCoordinate === null || event.yCoordinate === undefined) {
+      if (event.isJogaTeam) shotsWithoutLocationFor += 1;
+      else shotsWithoutLocationAgainst += 1;
+      continue;
+    }
+
+    // Opponent attacks toward x = 0, so mirror into the attacking frame
+    const attackX = event.isJogaTeam ? event.xCoordinate : 100 - event.xCoordinate;
+    const attackY = event.isJogaTeam ? event.yCoordinate : 100 - event.yCoordinate;
+    const geometry = getShotGeometry(attackX, attackY);
+
+    shots.push({
+      eventId: event.id,
+      isJogaTeam: event.isJogaTeam,
+      x: event.xCoordinate,
+      y: event.yCoordinate,
+      ...geometry,
+      xG: roundXG(estimateShotXG(attackX, attackY)),
+      outcome: getShotOutcome(event),
+      period: event.period,
+      minute: event.minute,
+      playerName: event.playerName,
+    });
+  }
+
+  const sum = (isJogaTeam: boolean) => roundXG(
+    shots.filter(shot => shot.isJogaTeam === isJogaTeam).reduce((total, shot) => total + shot.xG, 0)
+  );
+
+  return {
+    shots,
+    xG: sum(true),
+    xGA: sum(false),
+    shotsWithoutLocationFor,
+    shotsWithoutLocationAgainst,
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Game event type utilities
+ */
+
+/**
+ * Normalize an event type for matching ("Free Kick", "free-kick", "freekick" -> "free_kick")
+ */
+export function normalizeEventType(eventType: string): string {
+  const normalized = eventType.toLowerCase().trim().replace(/[\s-]+/g, '_');
+  if (normalized === 'freekick') return 'free_kick';
+  return normalized;
+}
@@ -0,0 +1,263 @@
+/**
+ * iCalendar (RFC 5545) helpers
+ * Just enough of the format for fixture feeds and league schedule imports: VEVENTs with
+ * UID, SUMMARY, LOCATION, DESCRIPTION and DTSTART.
+ */
+
+export interface CalendarEventInput {
+  uid: string;
+  summary: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM (24h); all-day event when null */
+  time: string | null;
+  durationMinutes?: number;
+  location?: string | null;
+  description?: string | null;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+}
+
+export interface ParsedCalendarEvent {
+  uid: string | null;
+  summary: string | null;
+  location: string | null;
+  description: string | null;
+  /** YYYY-MM-DD, null when DTSTART is missing or invalid */
+  date: string | null;
+  /** HH:MM, null for all-day events */
+  time: string | null;
+  /** Raw DTSTART value, for error messages */
+  rawStart: string | null;
+  /** DTSTART was a UTC time and the calendar names no time zone, so time is in UTC */
+  utcTime: boolean;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatUtcTimestamp(iso: string): string {
+  const date = new Date(iso);
+  const timestamp = isNaN(date.getTime()) ? new Date() : date;
+  return timestamp.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function addMinutes(date: string, time: string, minutes: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, mins] = time.split(':').map(Number);
+  const end = new Date(Date.UTC(year, month - 1, day, hours, mins + minutes));
+  return end.toISOString().slice(0, 16).replace(/[-:]/g, '') + '00';
+}
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Build a VCALENDAR document.
+ * Kickoff times are written as floating local times (no time zone), so they show at the
+ * entered time wherever the subscriber is.
+ */
+export function buildCalendar(options: { name: string; events: CalendarEventInput[] }): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//JOGA//Fixtures//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+
+  for (const event of options.events) {
+    lines.push('BEGIN:VEVENT', `UID:${escapeText(event.uid)}`, `DTSTAMP:${formatUtcTimestamp(event.updatedAt)}`);
+    if (event.time) {
+      const start = `${formatDate(event.date)}T${event.time.replace(':', '')}00`;
+      lines.push(`DTSTART:${start}`, `DTEND:${addMinutes(event.date, event.time, event.durationMinutes ?? 90)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${nextDay(event.date)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar's time zone: X-WR-TIMEZONE, otherwise the first VTIMEZONE's TZID.
+ * Names that aren't IANA zones (e.g. Outlook's "Eastern Standard Time") are ignored.
+ */
+function findCalendarTimeZone(lines: string[]): string | null {
+  const zones = [
+    ...lines.filter(line => /^X-WR-TIMEZONE[:;]/i.test(line)),
+    ...lines.filter(line => /^TZID[:;]/i.test(line)),
+  ].map(line => line.slice(line.indexOf(':') + 1).trim());
+  return zones.find(isTimeZone) ?? null;
+}
+
+/**
+ * Wall-clock date and time of a UTC instant in a time zone
+ */
+function toZonedDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+/**
+ * Parse a DTSTART value into a local date and time.
+ * UTC times (trailing Z) are converted to the calendar's time zone, or kept in UTC when it
+ * names none (never the server's zone); times with a TZID or without a zone are taken as
+ * the wall-clock time of the venue.
+ */
+function parseStart(value: string, timeZone: string | null): { date: string; time: string | null; utc: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+
+  if (hours === undefined) {
+    return { date: `${year}-${month}-${day}`, time: null, utc: false };
+  }
+  if (utc) {
+    const instant = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)));
+    return { ...toZonedDateTime(instant, timeZone ?? 'UTC'), utc: timeZone === null };
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}`, utc: false };
+}
+
+/**
+ * Read the VEVENTs of an .ics file (other components are skipped)
+ */
+export function parseCalendarEvents(content: string): ParsedCalendarEvent[] {
+  // Unfold continuation lines
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file (no BEGIN:VCALENDAR)');
+  }
+  const timeZone = findCalendarTimeZone(lines.map(line => line.trim()));
+
+  const events: ParsedCalendarEvent[] = [];
+  let current: ParsedCalendarEvent | null = null;
+  // Nested components (e.g. VALARM) inside an event
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const [name, ...params] = line.slice(0, separator).split(';');
+    const property = name.trim().toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (property === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT' && !current) {
+        current = { uid: null, summary: null, location: null, description: null, date: null, time: null, rawStart: null, utcTime: false };
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+    if (property === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && value.toUpperCase() === 'VEVENT') {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nestedDepth > 0) continue;
+
+    switch (property) {
+      case 'UID':
+        current.uid = value || null;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value) || null;
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(value) || null;
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(value) || null;
+        break;
+      case 'DTSTART': {
+        current.rawStart = value;
+        const start = parseStart(value, timeZone);
+        const isDate = params.some(param => param.toUpperCase() === 'VALUE=DATE');
+        current.date = start?.date ?? null;
+        current.time = isDate ? null : start?.time ?? null;
+        current.utcTime = !isDate && Boolean(start?.utc);
+        break;
+      }
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,32 @@
+/**
+ * Match outcome utilities
+ */
+
+export type MatchOutcome = 'W' | 'D' | 'L';
+
+/**
+ * W/D/L from the score when both goals are known, otherwise from the stored result ("Win", "L", "Tie", ...)
+ */
+export function getMatchOutcome(
+  result: string | null | undefined,
+  goalsFor: number | null,
+  goalsAgainst: number | null
+): MatchOutcome | null {
+  if (goalsFor !== null && goalsAgainst !== null) {
+    return goalsFor > goalsAgainst ? 'W' : goalsFor < goalsAgainst ? 'L' : 'D';
+  }
+  const first = (result || '').trim().charAt(0).toUpperCase();
+  if (first === 'W') return 'W';
+  if (first === 'L') return 'L';
+  if (first === 'D' || first === 'T') return 'D';
+  return null;
+}
+
+/**
+ * Read a numeric stat (stats_json values may be numbers or numeric strings)
+ */
+export function toStatNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
@@ -5,6 +5,7 @@ import { invalidateAIContextCache } from './services/aiService';
 import { sheetConfig } from './config';
 import { useURLState } from './hooks/useURLState';
 import { useLocalStorageState, getViewScopedStorageKey } from './hooks/useLocalStorageState';
+import { useMetricNormalization } from './hooks/useMetricNormalization';
 import { StatsCard } from './components/StatsCard';
 import { getMissingDataInfo } from './utils/missingDataUtils';
 import { ShotsChart } from './components/ShotsChart';
@@ -19,6 +20,12 @@ import { PassStrLengthChart } from './components/PassStrLengthChart';
 import { PassByZoneChart } from './components/PassByZoneChart';
 import { PPMChart } from './components/PPMChart';
 import { TSRChart } from './components/TSRChart';
+import { PassNetworkChart } from './components/PassNetworkChart';
+import { SetPiecesChart } from './components/SetPiecesChart';
+import { HalvesChart } from './components/HalvesChart';
+import { DefensiveActionsChart } from './components/DefensiveActionsChart';
+import { SavesChart } from './components/SavesChart';
+import { OppFinalThirdEntriesChart } from './components/OppFinalThirdEntriesChart';
 import { AutoChart } from './components/AutoChart';
 import { ChatFirstView } from './components/ChatFirstView';
 import { getChartConfig, findColumnPairs, shouldExcludeColumn } from './utils/chartUtils';
@@ -28,6 +35,7 @@ import { Sidebar } from './components/Sidebar';
 import { EmptyChart } from './components/EmptyChart';
 import { GameDataView } from './components/GameDataView';
 import { DateFilter } from './components/DateFilter';
+import { CompetitionTypeFilter } from './components/CompetitionTypeFilter';
 import { ClubDataView } from './components/ClubDataView';
 import { UploadGameDataView } from './components/UploadGameDataView';
 import { Modal } from './components/Modal';
@@ -47,14 +55,24 @@ import { EmailVerification } from './components/EmailVerification';
 import { SettingsView } from './components/SettingsView';
 import { Glossary } from './components/Glossary';
 import { MatchEditorView } from './components/MatchEditorView';
+import { LiveTaggingView } from './components/LiveTaggingView';
+import { OpponentHistoryView } from './components/OpponentHistoryView';
+import { CompetitionsView } from './components/CompetitionsView';
+import { FixturesView } from './components/FixturesView';
+import { PlayerStatsView } from './components/PlayerStatsView';
+import { UpcomingFixtures } from './components/UpcomingFixtures';
 import { WalkthroughOverlay } from './components/WalkthroughOverlay';
 import { getAllTeams } from './services/teamService';
+import { getMatches, Match } from './services/matchService';
 import { Team } from './types/auth';
 import { createTeamSlugMap, getTeamsForDropdown, getDisplayNameForSlug } from './utils/teamMapping';
 import { formatDateWithUserPreference, dateToYYYYMMDD } from './utils/dateFormatting';
 import { JOGA_COLORS } from './utils/colors';
+import { normalizeMatchData, getNormalizationUnit } from './utils/metricNormalization';
+import { hasHalfColumns } from './utils/halvesAnalysis';
+import { MetricNormalizationSelector } from './components/MetricNormalizationSelector';
 
-type ViewMode = 'chat' | 'dashboard' | 'game-data' | 'club-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor';
+type ViewMode = 'chat' | 'dashboard' | 'game-data' | 'club-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor' | 'live-tagging' | 'opponent-history' | 'competitions' | 'fixtures' | 'player-stats';
 
 function App() {
   const { user, isLoading, isSetupRequired, backendError, retryConnection } = useAuth();
@@ -152,6 +170,8 @@ function App() {
       deserialize: (v) => v || null,
     }
   );
+  // Database team for the dashboard's selected slug (sheet-only teams have none)
+  const selectedDatabaseTeam = selectedTeam ? teamSlugMap.get(selectedTeam.toLowerCase().trim()) : undefined;
   const [selectedOpponent, setSelectedOpponent] = useLocalStorageState<string | null>(
     getViewScopedStorageKey('dashboard', 'opponent'), 
     null,
@@ -164,6 +184,17 @@ function App() {
     getViewScopedStorageKey('dashboard', 'date'), 
     ''
   );
+  const [selectedCompetitionId, setSelectedCompetitionId] = useLocalStorageState<number | null>(
+    getViewScopedStorageKey('dashboard', 'competition'),
+    null,
+    {
+      serialize: (v) => v?.toString() || '',
+      deserialize: (v) => {
+        const num = v ? parseInt(v, 10) : NaN;
+        return isNaN(num) ? null : num;
+      },
+    }
+  );
   // Chart group selections - stored in localStorage per view (persists when switching views)
   const [dashboardSelectedChartGroup, setDashboardSelectedChartGroup] = useLocalStorageState<string | null>(
     getViewScopedStorageKey('dashboard', 'chartGroup'), 
@@ -270,6 +301,9 @@ function App() {
     }
   );
   
+  // Count metrics rescaled by match length (shared by the dashboard, Club Data and chat)
+  const [metricNormalization, setMetricNormalization] = useMetricNormalization();
+
   // Chart expansion state - synced with chart configs (loaded from saved preferences)
   const [expandedCharts, setExpandedCharts] = useState<Record<string, boolean>>({});
   
@@ -750,6 +784,52 @@ function App() {
     return findColumnKey(['Opp PPM', 'opp ppm', 'Opponent PPM', 'opponent ppm', 'Opp Passes Per Minute', 'opp passes per minute']) || 'Opp PPM';
   };
 
+  const getTacklesKey = (): string => {
+    return findColumnKey(['tackles', 'Tackles']) || 'tackles';
+  };
+
+  const getInterceptionsKey = (): string => {
+    return findColumnKey(['interceptions', 'Interceptions']) || 'interceptions';
+  };
+
+  const getClearancesKey = (): string => {
+    return findColumnKey(['clearances', 'Clearances']) || 'clearances';
+  };
+
+  const getBlocksKey = (): string => {
+    return findColumnKey(['blocks', 'Blocks']) || 'blocks';
+  };
+
+  const getRecoveriesKey = (): string => {
+    return findColumnKey(['recoveries', 'Recoveries', 'Ball Recoveries', 'ball recoveries']) || 'recoveries';
+  };
+
+  const getOppPassesPerDefensiveActionKey = (): string => {
+    return findColumnKey(['opp passes per defensive action', 'Opp Passes per Defensive Action', 'PPDA', 'ppda']) || 'opp passes per defensive action';
+  };
+
+  const getSavesKey = (): string => {
+    return findColumnKey(['saves', 'Saves', 'GK Saves', 'gk saves']) || 'saves';
+  };
+
+  const getSavePctKey = (): string => {
+    return findColumnKey(['save %', 'Save %', 'Save Percentage', 'save percentage']) || 'save %';
+  };
+
+  const getOppFinalThirdEntriesKey = (): string => {
+    return findColumnKey(['oppFinalThirdEntries', 'Opp Final Third Entries', 'opp final third entries', 'Opponent Final Third Entries', 'opponent final third entries']) || 'oppFinalThirdEntries';
+  };
+
+  const getOppEntryAttemptPctKey = (): string => {
+    return findColumnKey(['opp entry attempt %', 'Opp Entry Attempt %']) || 'opp entry attempt %';
+  };
+
+  // Defensive action columns present in the data (tackles, interceptions, clearances, blocks, recoveries)
+  const getDefensiveActionKeys = (): string[] => {
+    return [getTacklesKey(), getInterceptionsKey(), getClearancesKey(), getBlocksKey(), getRecoveriesKey()]
+      .filter(key => columnKeys.includes(key));
+  };
+
   // Helper to find pass string length columns (1, 2, 3, 4, 5, 6+)
   const getPassStrLengthKeys = (): string[] => {
     const keys: string[] = [];
@@ -1014,6 +1094,11 @@ function App() {
       });
     }
 
+    // Filter by competition (the match's linked competition)
+    if (selectedCompetitionId) {
+      filtered = filtered.filter((match) => Number(match['Competition ID']) === selectedCompetitionId);
+    }
+
     // Filter by selected date if specified
     if (dateKey && selectedDate) {
       filtered = filtered.filter((match) => {
@@ -1045,7 +1130,7 @@ function App() {
     }
 
     return filtered;
-  }, [matchData, selectedTeam, selectedOpponent, lastNGames, selectedDate, columnKeys, parseDateHelper]);
+  }, [matchData, selectedTeam, selectedOpponent, selectedCompetitionId, lastNGames, selectedDate, columnKeys, parseDateHelper]);
 
   // Process custom chart data using filteredData (respects Last N Games and other filters)
   useEffect(() => {
@@ -1066,6 +1151,16 @@ function App() {
   const teamKey = getTeamKey();
   const opponentKey = getOpponentKey();
 
+  // Competitions the loaded matches are linked to
+  const availableCompetitionIds = useMemo(() => {
+    const ids = new Set<number>();
+    matchData.forEach((match) => {
+      const competitionId = Number(match['Competition ID']);
+      if (competitionId) ids.add(competitionId);
+    });
+    return Array.from(ids);
+  }, [matchData]);
+
   // Calculate available dates based on selected opponent
   const availableDates = useMemo(() => {
     const dateKey = columnKeys.find(key => 
@@ -1139,11 +1234,17 @@ function App() {
   };
 
 
+  // Rescale count metrics per game before any per-team averaging
+  const normalizedData = useMemo(
+    () => normalizeMatchData(filteredData, columnKeys, metricNormalization),
+    [filteredData, columnKeys, metricNormalization]
+  );
+
   // Transform data for "All Teams" mode - aggregate by team
   const dataToDisplay = useMemo(() => {
-    // If a specific team is selected, use filteredData as-is
+    // If a specific team is selected, use the (normalized) games as-is
     if (selectedTeam !== null) {
-      return filteredData;
+      return normalizedData.data;
     }
 
     // When "All Teams" is selected, aggregate data by team
@@ -1156,7 +1257,7 @@ function App() {
     // Group matches by team
     const teamGroups = new Map<string, MatchData[]>();
     
-    filteredData.forEach((match) => {
+    normalizedData.data.forEach((match) => {
       const team = match[teamKey];
       if (team && typeof team === 'string') {
         const teamName = team.trim();
@@ -1229,7 +1330,51 @@ function App() {
     });
 
     return aggregatedData;
-  }, [filteredData, selectedTeam, lastNGames, columnKeys]);
+  }, [normalizedData, selectedTeam, lastNGames, columnKeys]);
+
+  // Database matches for the selected team (the pass network needs the database match ID)
+  const [teamDbMatches, setTeamDbMatches] = useState<Match[]>([]);
+  useEffect(() => {
+    if (!selectedDatabaseTeam) {
+      setTeamDbMatches([]);
+      return;
+    }
+    let cancelled = false;
+    getMatches({ teamId: selectedDatabaseTeam.id })
+      .then(matches => {
+        if (!cancelled) setTeamDbMatches(matches);
+      })
+      .catch(err => {
+        console.error('Failed to load matches for pass network:', err);
+        if (!cancelled) setTeamDbMatches([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDatabaseTeam]);
+
+  // Displayed games that exist in the database (matched by date and opponent)
+  const databaseGames = useMemo(() => {
+    const dateKey = columnKeys.find(key => key.toLowerCase().includes('date'));
+    if (selectedTeam === null || !dateKey || teamDbMatches.length === 0) return [];
+    const games: Array<{ matchId: number; title: string }> = [];
+    filteredData.forEach(row => {
+      const date = parseDateHelper(row[dateKey] as string | number | undefined | null);
+      const opponent = String(row[opponentKey] || '').trim().toLowerCase();
+      if (!date || !opponent) return;
+      const dateStr = dateToYYYYMMDD(date);
+      const dbMatch = teamDbMatches.find(match =>
+        match.matchDate === dateStr && match.opponentName.trim().toLowerCase() === opponent
+      );
+      if (dbMatch) {
+        games.push({
+          matchId: dbMatch.id,
+          title: `${dbMatch.opponentName} · ${formatDateWithUserPreference(date, user?.preferences)}`,
+        });
+      }
+    });
+    return games;
+  }, [filteredData, selectedTeam, teamDbMatches, columnKeys, opponentKey, user?.preferences]);
 
   // Get available teams for Club Data based on additional options
   const availableClubTeams = useMemo(() => {
@@ -1409,6 +1554,12 @@ function App() {
     }
   }, [additionalOptions, availableClubTeams, selectedClubTeams, includeBoysTeams, includeGirlsTeams, viewMode, setSelectedClubTeams]);
 
+  // All games with count metrics rescaled (Club Data averages and chat)
+  const normalizedMatchData = useMemo(
+    () => normalizeMatchData(matchData, columnKeys, metricNormalization),
+    [matchData, columnKeys, metricNormalization]
+  );
+
   // Club Data: Aggregate data by team for club overview
   const clubDataByTeam = useMemo(() => {
     if (viewMode !== 'club-data') return [];
@@ -1432,7 +1583,7 @@ function App() {
     teams.forEach(teamObj => {
       const teamSlug = teamObj.slug; // Use slug for filtering match data
       // Get all matches for this team
-      const teamMatches = matchData.filter(match => {
+      const teamMatches = normalizedMatchData.data.filter(match => {
         const matchTeamSlug = (match[teamKeyForClub] as string)?.trim();
         return matchTeamSlug === teamSlug;
       });
@@ -1478,7 +1629,7 @@ function App() {
     });
 
     return aggregated;
-  }, [viewMode, matchData, lastNGames, additionalOptions, columnKeys, parseDateHelper, includeBoysTeams, includeGirlsTeams, includeBlackTeams]);
+  }, [viewMode, normalizedMatchData, lastNGames, additionalOptions, columnKeys, parseDateHelper, includeBoysTeams, includeGirlsTeams, includeBlackTeams]);
   
   // Get team display name for labels (use display name from database or fallback to slug)
   const teamDisplayName = selectedTeam 
@@ -1548,6 +1699,12 @@ function App() {
     if (columnKeys.includes(getOppAvgPassLengthKey())) special.push(getOppAvgPassLengthKey());
     if (columnKeys.includes(getPPMKey())) special.push(getPPMKey());
     if (columnKeys.includes(getOppPPMKey())) special.push(getOppPPMKey());
+    getDefensiveActionKeys().forEach(key => special.push(key));
+    if (columnKeys.includes(getOppPassesPerDefensiveActionKey())) special.push(getOppPassesPerDefensiveActionKey());
+    if (columnKeys.includes(getSavesKey())) special.push(getSavesKey());
+    if (columnKeys.includes(getSavePctKey())) special.push(getSavePctKey());
+    if (columnKeys.includes(getOppFinalThirdEntriesKey())) special.push(getOppFinalThirdEntriesKey());
+    if (columnKeys.includes(getOppEntryAttemptPctKey())) special.push(getOppEntryAttemptPctKey());
     // Add pass string length columns
     getPassStrLengthKeys().forEach(key => {
       if (columnKeys.includes(key)) special.push(key);
@@ -1630,6 +1787,26 @@ function App() {
     if (columnKeys.includes(getPassShareKey()) || columnKeys.includes(getOppPassShareKey())) {
       charts.push('passShare');
     }
+    // Built from tagged pass events, so only for teams in the database
+    if (selectedDatabaseTeam) {
+      charts.push('passNetwork');
+    }
+    if (getDefensiveActionKeys().length > 0) {
+      charts.push('defensiveActions');
+    }
+    if (columnKeys.includes(getSavesKey())) {
+      charts.push('saves');
+    }
+    if (columnKeys.includes(getOppFinalThirdEntriesKey())) {
+      charts.push('oppFinalThirdEntries');
+    }
+    // Built from tagged corner/free kick events, so only for teams in the database
+    if (selectedDatabaseTeam) {
+      charts.push('setPieces');
+    }
+    if (hasHalfColumns(columnKeys)) {
+      charts.push('halves');
+    }
     // Note: 'auto' charts removed from dropdown - can be re-enabled later if needed
     // if (autoChartColumns.length > 0) {
     //   charts.push('auto');
@@ -1639,7 +1816,7 @@ function App() {
       charts.push(`custom-chart-${chart.id}`);
     });
     return charts;
-  }, [columnKeys, autoChartColumns, customCharts]);
+  }, [columnKeys, autoChartColumns, customCharts, selectedDatabaseTeam]);
 
   // Track if charts came from URL on mount
   const chartsFromURLRef = useRef(false);
@@ -1756,7 +1933,7 @@ function App() {
   // This prevents empty charts from being auto-filled and written to URL
 
   // Handle navigation from sidebar
-  const handleNavigation = (view: 'dashboard' | 'chat' | 'team-data' | 'club-data' | 'game-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor') => {
+  const handleNavigation = (view: 'dashboard' | 'chat' | 'team-data' | 'club-data' | 'game-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor' | 'live-tagging' | 'opponent-history' | 'competitions' | 'fixtures' | 'player-stats') => {
     if (view === 'chat') {
       setViewMode('chat');
     } else if (view === 'team-data') {
@@ -1774,6 +1951,16 @@ function App() {
       setViewMode('glossary');
     } else if (view === 'match-editor') {
       setViewMode('match-editor');
+    } else if (view === 'live-tagging') {
+      setViewMode('live-tagging');
+    } else if (view === 'opponent-history') {
+      setViewMode('opponent-history');
+    } else if (view === 'competitions') {
+      setViewMode('competitions');
+    } else if (view === 'fixtures') {
+      setViewMode('fixtures');
+    } else if (view === 'player-stats') {
+      setViewMode('player-stats');
     } else {
       setViewMode('dashboard');
     }
@@ -1942,7 +2129,12 @@ function App() {
       <div className="flex h-screen bg-gray-50 relative">
         <Sidebar currentView="chat" onNavigate={handleNavigation} />
         <div className="flex-1 ml-16" data-tour="chat-content">
-          <ChatFirstView matchData={matchData} columnKeys={columnKeys} sheetConfig={sheetConfig} />
+          <ChatFirstView
+            matchData={normalizedMatchData.data}
+            columnKeys={columnKeys}
+            sheetConfig={sheetConfig}
+            metricNormalization={metricNormalization}
+          />
         </div>
       </div>
     );
@@ -2011,7 +2203,10 @@ function App() {
       <div className="flex h-screen bg-gray-50 relative">
         <Sidebar currentView="settings" onNavigate={handleNavigation} />
         <div className="flex-1 ml-16">
-          <SettingsView />
+          <SettingsView
+            metricNormalization={metricNormalization}
+            setMetricNormalization={setMetricNormalization}
+          />
         </div>
         {showWalkthrough && (
           <WalkthroughOverlay onClose={() => setShowWalkthrough(false)} />
@@ -2047,6 +2242,69 @@ function App() {
     );
   }
 
+  // Render Live Tagging view if selected (admin and coaches)
+  if (viewMode === 'live-tagging') {
+    return (
+      <div className="flex h-screen bg-gray-50 relative">
+        <Sidebar currentView="live-tagging" onNavigate={handleNavigation} />
+        <div className="flex-1 ml-16 flex flex-col overflow-auto">
+          <LiveTaggingView />
+        </div>
+        {showWalkthrough && (
+          <WalkthroughOverlay onClose={() => setShowWalkthrough(false)} />
+        )}
+      </div>
+    );
+  }
+
+  // Render Opponent History (head-to-head) view if selected
+  if (viewMode === 'opponent-history') {
+    return (
+      <div className="flex h-screen bg-gray-50 relative">
+        <Sidebar currentView="opponent-history" onNavigate={handleNavigation} />
+        <div className="flex-1 ml-16 flex flex-col overflow-auto">
+          <OpponentHistoryView />
+        </div>
+      </div>
+    );
+  }
+
+  // Render Player Stats (individual stats from events) view if selected
+  if (viewMode === 'player-stats') {
+    return (
+      <div className="flex h-screen bg-gray-50 relative">
+        <Sidebar currentView="player-stats" onNavigate={handleNavigation} />
+        <div className="flex-1 ml-16 flex flex-col overflow-auto">
+          <PlayerStatsView />
+        </div>
+      </div>
+    );
+  }
+
+  // Render Competitions (standings) view if selected
+  if (viewMode === 'competitions') {
+    return (
+      <div className="flex h-screen bg-gray-50 relative">
+        <Sidebar currentView="competitions" onNavigate={handleNavigation} />
+        <div className="flex-1 ml-16 flex flex-col overflow-auto">
+          <CompetitionsView />
+        </div>
+      </div>
+    );
+  }
+
+  // Render Fixtures (schedule) view if selected
+  if (viewMode === 'fixtures') {
+    return (
+      <div className="flex h-screen bg-gray-50 relative">
+        <Sidebar currentView="fixtures" onNavigate={handleNavigation} />
+        <div className="flex-1 ml-16 flex flex-col overflow-auto">
+          <FixturesView />
+        </div>
+      </div>
+    );
+  }
+
   // Custom Charts view removed - now managed via chart selector and Settings
 
   // Render Club Data view if selected
@@ -2065,6 +2323,9 @@ function App() {
             teamSlugMap={teamSlugMap}
             lastNGames={lastNGames}
             setLastNGames={setLastNGames}
+            metricNormalization={metricNormalization}
+            setMetricNormalization={setMetricNormalization}
+            gamesWithoutMinutes={normalizedMatchData.gamesWithoutMinutes}
             selectedChartGroup={selectedChartGroup}
             setSelectedChartGroup={setSelectedChartGroup}
             selectedCharts={selectedCharts.filter(chart => typeof chart === 'string' && !chart.startsWith('custom-chart-')) as ChartType[]}
@@ -2198,6 +2459,13 @@ function App() {
               </select>
             </div>
 
+            {/* Competition Filter */}
+            <CompetitionTypeFilter
+              selectedCompetitionId={selectedCompetitionId}
+              onCompetitionChange={setSelectedCompetitionId}
+              availableCompetitionIds={availableCompetitionIds}
+            />
+
             {/* Date Filter */}
             <DateFilter
               selectedDate={selectedDate}
@@ -2240,6 +2508,12 @@ function App() {
               />
             </div>
 
+            {/* Count metric normalization (shared with Club Data) */}
+            <div className="flex-shrink-0">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Normalize</label>
+              <MetricNormalizationSelector value={metricNormalization} onChange={setMetricNormalization} />
+            </div>
+
             {/* Last N Games Filter - Last in the group */}
             <div className="flex-shrink-0">
               <label className="block text-xs font-medium text-gray-600 mb-1">Last N Games</label>
@@ -2271,6 +2545,23 @@ function App() {
       <main className="flex-1 overflow-y-auto p-6 bg-gray-50" data-tour="charts-area">
         <div className="max-w-[1600px] mx-auto w-full">
 
+        {getNormalizationUnit(metricNormalization) && (
+          <div className="mb-4 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm text-gray-700">
+            Count metrics are shown {getNormalizationUnit(metricNormalization)}.
+            {normalizedData.gamesWithoutMinutes > 0 && (
+              <span className="text-gray-500">
+                {' '}{normalizedData.gamesWithoutMinutes} game{normalizedData.gamesWithoutMinutes === 1 ? '' : 's'} without
+                {metricNormalization === 'perPossessionMinute' ? ' possession minutes' : ' a match duration'} left out of count metrics.
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Next fixtures for the selected team */}
+        {selectedDatabaseTeam && (
+          <UpcomingFixtures teamId={selectedDatabaseTeam.id} />
+        )}
+
         {selectedTeam === null ? (
           <div 
             className="relative w-full rounded-lg"
@@ -3366,6 +3657,7 @@ function App() {
                                             group.id === 'passing-possession' ? 'Passing & Possession Charts' :
                                             group.id === 'performance' ? 'JOGA Metrics Charts' :
                                             group.id === 'defense' ? 'Defense Charts' :
+                                            group.id === 'set-pieces' ? 'Set Piece Charts' :
                                             `${group.name} Charts`;
                             
                             return (
@@ -3584,6 +3876,93 @@ function App() {
                                       )}
                                     </div>
                                   )}
+
+                                  {groupCharts.includes('passNetwork') && selectedDatabaseTeam && (
+                                    <div className={expandedCharts['passNetwork'] ? 'lg:col-span-2' : ''}>
+                                      <PassNetworkChart
+                                        games={databaseGames}
+                                        onExpansionChange={handleChartExpansionChange('passNetwork')}
+                                      />
+                                    </div>
+                                  )}
+
+                                  {groupCharts.includes('defensiveActions') && getDefensiveActionKeys().length > 0 && (
+                                    <div className={expandedCharts['defensiveActions'] ? 'lg:col-span-2' : ''}>
+                                      {selectedTeam === null ? (
+                                        <EmptyChart showTitle={false} />
+                                      ) : (
+                                        <DefensiveActionsChart
+                                          data={dataToDisplay}
+                                          opponentKey={opponentKey}
+                                          tacklesKey={columnKeys.includes(getTacklesKey()) ? getTacklesKey() : undefined}
+                                          interceptionsKey={columnKeys.includes(getInterceptionsKey()) ? getInterceptionsKey() : undefined}
+                                          clearancesKey={columnKeys.includes(getClearancesKey()) ? getClearancesKey() : undefined}
+                                          blocksKey={columnKeys.includes(getBlocksKey()) ? getBlocksKey() : undefined}
+                                          recoveriesKey={columnKeys.includes(getRecoveriesKey()) ? getRecoveriesKey() : undefined}
+                                          oppPassesPerDefensiveActionKey={columnKeys.includes(getOppPassesPerDefensiveActionKey()) ? getOppPassesPerDefensiveActionKey() : undefined}
+                                          showLabels={showLabels}
+                                          onExpansionChange={handleChartExpansionChange('defensiveActions')}
+                                        />
+                                      )}
+                                    </div>
+                                  )}
+
+                                  {groupCharts.includes('saves') && columnKeys.includes(getSavesKey()) && (
+                                    <div className={expandedCharts['saves'] ? 'lg:col-span-2' : ''}>
+                                      {selectedTeam === null ? (
+                                        <EmptyChart showTitle={false} />
+                                      ) : (
+                                        <SavesChart
+                                          data={dataToDisplay}
+                                          savesKey={getSavesKey()}
+                                          opponentKey={opponentKey}
+                                          savePctKey={columnKeys.includes(getSavePctKey()) ? getSavePctKey() : undefined}
+                                          showLabels={showLabels}
+                                          onExpansionChange={handleChartExpansionChange('saves')}
+                                        />
+                                      )}
+                                    </div>
+                                  )}
+
+                                  {groupCharts.includes('oppFinalThirdEntries') && columnKeys.includes(getOppFinalThirdEntriesKey()) && (
+                                    <div className={expandedCharts['oppFinalThirdEntries'] ? 'lg:col-span-2' : ''}>
+                                      {selectedTeam === null ? (
+                                        <EmptyChart showTitle={false} />
+                                      ) : (
+                                        <OppFinalThirdEntriesChart
+                                          data={dataToDisplay}
+                                          oppFinalThirdEntriesKey={getOppFinalThirdEntriesKey()}
+                                          opponentKey={opponentKey}
+                                          oppEntryAttemptPctKey={columnKeys.includes(getOppEntryAttemptPctKey()) ? getOppEntryAttemptPctKey() : undefined}
+                                          showLabels={showLabels}
+                                          onExpansionChange={handleChartExpansionChange('oppFinalThirdEntries')}
+                                        />
+                                      )}
+                                    </div>
+                                  )}
+
+                                  {groupCharts.includes('setPieces') && selectedDatabaseTeam && (
+                                    <div className={expandedCharts['setPieces'] ? 'lg:col-span-2' : ''}>
+                                      <SetPiecesChart
+                                        games={databaseGames}
+                                        onExpansionChange={handleChartExpansionChange('setPieces')}
+                                      />
+                                    </div>
+                                  )}
+
+                                  {groupCharts.includes('halves') && hasHalfColumns(columnKeys) && (
+                                    <div className={expandedCharts['halves'] ? 'lg:col-span-2' : ''}>
+                                      {selectedTeam === null ? (
+                                        <EmptyChart showTitle={false} />
+                                      ) : (
+                                        <HalvesChart
+                                          data={dataToDisplay}
+                                          columnKeys={columnKeys}
+                                          onExpansionChange={handleChartExpansionChange('halves')}
+                                        />
+                                      )}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                             );
@@ -3866,6 +4245,93 @@ function App() {
                 </div>
               )}
 
+              {selectedCharts.includes('passNetwork') && selectedDatabaseTeam && (
+                <div className={expandedCharts['passNetwork'] ? 'lg:col-span-2' : ''}>
+                  <PassNetworkChart
+                    games={databaseGames}
+                    onExpansionChange={handleChartExpansionChange('passNetwork')}
+                  />
+                </div>
+              )}
+
+              {selectedCharts.includes('defensiveActions') && getDefensiveActionKeys().length > 0 && (
+                <div className={expandedCharts['defensiveActions'] ? 'lg:col-span-2' : ''}>
+                  {selectedTeam === null ? (
+                    <EmptyChart showTitle={false} />
+                  ) : (
+                    <DefensiveActionsChart
+                      data={dataToDisplay}
+                      opponentKey={opponentKey}
+                      tacklesKey={columnKeys.includes(getTacklesKey()) ? getTacklesKey() : undefined}
+                      interceptionsKey={columnKeys.includes(getInterceptionsKey()) ? getInterceptionsKey() : undefined}
+                      clearancesKey={columnKeys.includes(getClearancesKey()) ? getClearancesKey() : undefined}
+                      blocksKey={columnKeys.includes(getBlocksKey()) ? getBlocksKey() : undefined}
+                      recoveriesKey={columnKeys.includes(getRecoveriesKey()) ? getRecoveriesKey() : undefined}
+                      oppPassesPerDefensiveActionKey={columnKeys.includes(getOppPassesPerDefensiveActionKey()) ? getOppPassesPerDefensiveActionKey() : undefined}
+                      showLabels={showLabels}
+                      onExpansionChange={handleChartExpansionChange('defensiveActions')}
+                    />
+                  )}
+                </div>
+              )}
+
+              {selectedCharts.includes('saves') && columnKeys.includes(getSavesKey()) && (
+                <div className={expandedCharts['saves'] ? 'lg:col-span-2' : ''}>
+                  {selectedTeam === null ? (
+                    <EmptyChart showTitle={false} />
+                  ) : (
+                    <SavesChart
+                      data={dataToDisplay}
+                      savesKey={getSavesKey()}
+                      opponentKey={opponentKey}
+                      savePctKey={columnKeys.includes(getSavePctKey()) ? getSavePctKey() : undefined}
+                      showLabels={showLabels}
+                      onExpansionChange={handleChartExpansionChange('saves')}
+                    />
+                  )}
+                </div>
+              )}
+
+              {selectedCharts.includes('oppFinalThirdEntries') && columnKeys.includes(getOppFinalThirdEntriesKey()) && (
+                <div className={expandedCharts['oppFinalThirdEntries'] ? 'lg:col-span-2' : ''}>
+                  {selectedTeam === null ? (
+                    <EmptyChart showTitle={false} />
+                  ) : (
+                    <OppFinalThirdEntriesChart
+                      data={dataToDisplay}
+                      oppFinalThirdEntriesKey={getOppFinalThirdEntriesKey()}
+                      opponentKey={opponentKey}
+                      oppEntryAttemptPctKey={columnKeys.includes(getOppEntryAttemptPctKey()) ? getOppEntryAttemptPctKey() : undefined}
+                      showLabels={showLabels}
+                      onExpansionChange={handleChartExpansionChange('oppFinalThirdEntries')}
+                    />
+                  )}
+                </div>
+              )}
+
+              {selectedCharts.includes('setPieces') && selectedDatabaseTeam && (
+                <div className={expandedCharts['setPieces'] ? 'lg:col-span-2' : ''}>
+                  <SetPiecesChart
+                    games={databaseGames}
+                    onExpansionChange={handleChartExpansionChange('setPieces')}
+                  />
+                </div>
+              )}
+
+              {selectedCharts.includes('halves') && hasHalfColumns(columnKeys) && (
+                <div className={expandedCharts['halves'] ? 'lg:col-span-2' : ''}>
+                  {selectedTeam === null ? (
+                    <EmptyChart showTitle={false} />
+                  ) : (
+                    <HalvesChart
+                      data={dataToDisplay}
+                      columnKeys={columnKeys}
+                      onExpansionChange={handleChartExpansionChange('halves')}
+                    />
+                  )}
+                </div>
+              )}
+
                   </div>
                 );
               })()}
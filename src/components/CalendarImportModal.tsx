@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { JOGA_COLORS } from '../utils/colors';
+import { formatDateStringLocale } from '../utils/dateFormatting';
+import {
+  previewCalendarImport,
+  commitCalendarImport,
+  CalendarImportPreview,
+  CalendarImportRow,
+} from '../services/calendarService';
+
+interface CalendarImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teamId: number;
+  teamName: string;
+  onImported?: (created: number) => void;
+}
+
+// Events are pre-selected when they can be imported and don't look like an existing match
+function isSelectedByDefault(row: CalendarImportRow): boolean {
+  return row.errors.length === 0 && !row.duplicate && row.duplicateOfRow === null;
+}
+
+function formatOpponentMatch(row: CalendarImportRow): string | null {
+  const match = row.opponentMatch;
+  if (!match) return null;
+  if (match.type === 'new') return 'New opponent';
+  if (match.type === 'similar') return `Matched "${match.importedName}" (${Math.round((match.similarity ?? 0) * 100)}% similar)`;
+  return match.importedName !== match.name ? `Alias "${match.importedName}"` : null;
+}
+
+/**
+ * Import a league's .ics schedule as scheduled matches for one team.
+ * Shows a dry-run of every event (opponent matched against the registry, duplicate flags)
+ * and imports only the events the user keeps selected.
+ */
+export const CalendarImportModal: React.FC<CalendarImportModalProps> = ({
+  isOpen,
+  onClose,
+  teamId,
+  teamName,
+  onImported,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<CalendarImportPreview | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const resetPreview = () => {
+    setPreview(null);
+    setSelectedRows(new Set());
+    setSuccessMessage(null);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setError(null);
+    resetPreview();
+    onClose();
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    resetPreview();
+    try {
+      const result = await previewCalendarImport(teamId, file);
+      setPreview(result);
+      setSelectedRows(new Set(result.rows.filter(isSelectedByDefault).map(row => row.rowNumber)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview import');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || selectedRows.size === 0) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await commitCalendarImport(teamId, file, Array.from(selectedRows).sort((a, b) => a - b));
+      setPreview(null);
+      setSelectedRows(new Set());
+      setSuccessMessage(`Imported ${result.created} fixture${result.created === 1 ? '' : 's'}.`);
+      onImported?.(result.created);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import fixtures');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const selectableRows = preview ? preview.rows.filter(row => row.errors.length === 0) : [];
+  const allSelected = selectableRows.length > 0 && selectableRows.every(row => selectedRows.has(row.rowNumber));
+
+  const toggleAll = () => {
+    setSelectedRows(allSelected ? new Set() : new Set(selectableRows.map(row => row.rowNumber)));
+  };
+
+  const renderStatus = (row: CalendarImportRow) => {
+    if (row.errors.length > 0) {
+      return <span className="text-red-700">{row.errors.join('; ')}</span>;
+    }
+    const notes: React.ReactNode[] = [];
+    if (row.duplicate) {
+      notes.push(
+        <span key="duplicate" className="text-amber-700">
+          Already scheduled as match #{row.duplicate.matchId} ({row.duplicate.opponentName})
+        </span>
+      );
+    }
+    if (row.duplicateOfRow !== null) {
+      notes.push(
+        <span key="duplicate-row" className="text-amber-700">Same match as event {row.duplicateOfRow}</span>
+      );
+    }
+    row.warnings.forEach((warning, index) => {
+      notes.push(<span key={`warning-${index}`} className="text-gray-600">{warning}</span>);
+    });
+    return notes.length > 0
+      ? <div className="flex flex-col gap-0.5">{notes}</div>
+      : <span className="text-green-700">Ready</span>;
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`Import ${teamName} Schedule`} maxWidth="xl">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Upload the .ics calendar from the league site. Event titles like "Home vs Away" or
+          "Away @ Home" are matched to this team and to opponents you already have. Nothing is
+          saved until you import.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col text-sm text-gray-700">
+            Calendar file
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                resetPreview();
+              }}
+              className="mt-1 text-sm"
+            />
+          </label>
+          <button
+            onClick={handlePreview}
+            disabled={!file || loading}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-900 text-white disabled:opacity-50"
+          >
+            {loading && !preview ? 'Reading file...' : 'Preview'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+        {successMessage && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{successMessage}</div>
+        )}
+
+        {preview && (
+          <>
+            <div className="text-sm text-gray-700">
+              {preview.summary.total} events · {preview.summary.valid} valid · {preview.summary.invalid} with errors ·{' '}
+              {preview.summary.duplicates} already scheduled
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2">
+                      <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all events" />
+                    </th>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Kickoff</th>
+                    <th className="px-3 py-2">Opponent</th>
+                    <th className="px-3 py-2">Venue</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(row => {
+                    const { gameInfo } = row;
+                    const opponentNote = formatOpponentMatch(row);
+                    return (
+                      <tr key={row.rowNumber} className={`border-t border-gray-100 ${row.errors.length > 0 ? 'bg-red-50/50' : ''}`}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedRows.has(row.rowNumber)}
+                            disabled={row.errors.length > 0}
+                            onChange={() => toggleRow(row.rowNumber)}
+                            aria-label={`Select event ${row.rowNumber}`}
+                          />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {gameInfo.matchDate ? formatDateStringLocale(gameInfo.matchDate) : '-'}
+                        </td>
+                        <td className="px-3 py-2">{gameInfo.kickoffTime || '-'}</td>
+                        <td className="px-3 py-2">
+                          {gameInfo.opponentName
+                            ? <>{gameInfo.isHome === false ? '@ ' : 'vs '}{gameInfo.opponentName}</>
+                            : row.summary || '-'}
+                          {opponentNote && <div className="text-xs text-gray-500">{opponentNote}</div>}
+                        </td>
+                        <td className="px-3 py-2">{gameInfo.venue || '-'}</td>
+                        <td className="px-3 py-2 text-xs">{renderStatus(row)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={loading || selectedRows.size === 0}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50"
+                style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+              >
+                {loading ? 'Importing...' : `Import ${selectedRows.size} fixture${selectedRows.size === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -3,7 +3,7 @@ import { ChartConfig } from '../types/chartConfig';
 import { JOGA_COLORS } from '../utils/colors';
 
 interface ChartConfigPanelProps {
-  chartType: 'shots' | 'possession' | 'goals' | 'xg' | 'conversionRate' | 'tsr' | 'passes' | 'passShare' | 'avgPassLength' | 'ppm' | 'passStrLength' | 'spi' | 'attempts' | 'miscStats' | 'positionalAttempts' | 'passByZone' | 'auto';
+  chartType: 'shots' | 'possession' | 'goals' | 'xg' | 'conversionRate' | 'tsr' | 'passes' | 'passShare' | 'avgPassLength' | 'ppm' | 'passStrLength' | 'spi' | 'attempts' | 'miscStats' | 'positionalAttempts' | 'passByZone' | 'defensiveActions' | 'saves' | 'oppFinalThirdEntries' | 'auto';
   config: ChartConfig;
   availableMetrics: {
     id: string;
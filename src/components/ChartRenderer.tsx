@@ -1,6 +1,7 @@
 import React from 'react';
 import { BarChart, Bar, LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { getDefaultChartColors } from '../utils/colors';
+import { isCountMetric } from '../utils/metricNormalization';
 
 export interface ChartData {
   type?: 'bar' | 'line' | 'area' | 'combo';
@@ -16,12 +17,14 @@ export interface ChartData {
 
 interface ChartRendererProps {
   chartData: ChartData;
+  normalizationUnit?: string | null; // e.g. "per 90 min" when count metrics are normalized
 }
 
-export const ChartRenderer: React.FC<ChartRendererProps> = ({ chartData }) => {
+export const ChartRenderer: React.FC<ChartRendererProps> = ({ chartData, normalizationUnit }) => {
   // Support both 'type' and 'chartType' for compatibility
   const chartType = chartData.type || chartData.chartType || 'bar';
   const { title, data, xKey, yKeys, colors = getDefaultChartColors(), xAxisLabel } = chartData;
+  const showUnit = !!normalizationUnit && yKeys.some(isCountMetric);
 
   // Calculate Y-axis domain with padding to ensure bars are tall enough
   const calculateYAxisDomain = (): [number, number] | [number, 'auto'] => {
@@ -199,7 +202,10 @@ export const ChartRenderer: React.FC<ChartRendererProps> = ({ chartData }) => {
 
   return (
     <div className="bg-white rounded-lg shadow-md p-4 my-4 border border-gray-200">
-      <h4 className="text-lg font-semibold mb-3 text-gray-800">{title}</h4>
+      <h4 className={`text-lg font-semibold text-gray-800 ${showUnit ? 'mb-1' : 'mb-3'}`}>{title}</h4>
+      {showUnit && (
+        <p className="text-xs text-gray-500 mb-3">Count metrics shown {normalizationUnit}</p>
+      )}
       <ResponsiveContainer width="100%" height={500}>
         {renderChart()}
       </ResponsiveContainer>
@@ -6,6 +6,7 @@ import { ChartData } from './ChartRenderer';
 import { WelcomeMessage } from './WelcomeMessage';
 import { PageLayout } from './PageLayout';
 import { JOGA_COLORS } from '../utils/colors';
+import { MetricNormalization, getNormalizationUnit } from '../utils/metricNormalization';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -18,9 +19,10 @@ interface ChatFirstViewProps {
   matchData: MatchData[];
   columnKeys: string[];
   sheetConfig?: SheetConfig;
+  metricNormalization?: MetricNormalization; // matchData is already normalized; used to label charts
 }
 
-export const ChatFirstView: React.FC<ChatFirstViewProps> = ({ matchData, columnKeys, sheetConfig }) => {
+export const ChatFirstView: React.FC<ChatFirstViewProps> = ({ matchData, columnKeys, sheetConfig, metricNormalization = 'none' }) => {
   const [aiConfigured, setAiConfigured] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [showWelcome, setShowWelcome] = useState(true);
@@ -60,8 +62,12 @@ export const ChatFirstView: React.FC<ChatFirstViewProps> = ({ matchData, columnK
     setStatusMessage('Processing your request...');
 
     try {
+      // The data passed along is already normalized, so tell the model which unit counts are in
+      const normalizationUnit = getNormalizationUnit(metricNormalization);
       const response = await chatWithAI(
-        question.trim(), 
+        normalizationUnit
+          ? `${question.trim()}\n\n(Note: goals, shots, passes and other count metrics in this data are ${normalizationUnit}, not raw totals.)`
+          : question.trim(),
         matchData, 
         columnKeys, 
         sheetConfig,
@@ -204,6 +210,7 @@ export const ChatFirstView: React.FC<ChatFirstViewProps> = ({ matchData, columnK
                   content={message.content}
                   timestamp={message.timestamp}
                   charts={message.charts}
+                  normalizationUnit={getNormalizationUnit(metricNormalization)}
                 />
               ))}
               {isLoading && (
@@ -10,9 +10,10 @@ interface ChatMessageProps {
   content: string;
   timestamp: Date;
   charts?: ChartData[];
+  normalizationUnit?: string | null;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ role, content, timestamp }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({ role, content, timestamp, normalizationUnit }) => {
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
@@ -87,7 +88,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ role, content, timesta
         // Render chart inline
         const chartData = chartMap.get(part)!;
         elements.push(
-          <ChartRenderer key={`chart-${index}`} chartData={chartData} />
+          <ChartRenderer key={`chart-${index}`} chartData={chartData} normalizationUnit={normalizationUnit} />
         );
       } else if (part.trim()) {
         // Render markdown content
@@ -24,6 +24,8 @@ import { PassShareChart } from './PassShareChart';
 import { AutoChart } from './AutoChart';
 import { getChartConfig } from '../utils/chartUtils';
 import { TeamComparisonRadialChart } from './TeamComparisonRadialChart';
+import { MetricNormalizationSelector } from './MetricNormalizationSelector';
+import { MetricNormalization, getNormalizationUnit } from '../utils/metricNormalization';
 
 interface ClubDataViewProps {
   matchData: MatchData[];
@@ -35,6 +37,9 @@ interface ClubDataViewProps {
   teamSlugMap: Map<string, any>;
   lastNGames: number | null;
   setLastNGames: (value: number | null | ((prev: number | null) => number | null)) => void;
+  metricNormalization: MetricNormalization;
+  setMetricNormalization: (value: MetricNormalization) => void;
+  gamesWithoutMinutes: number; // Games whose count metrics couldn't be normalized
   selectedChartGroup: string | null;
   setSelectedChartGroup: (value: string | null | ((prev: string | null) => string | null)) => void;
   selectedCharts: ChartType[];
@@ -99,6 +104,9 @@ export const ClubDataView: React.FC<ClubDataViewProps> = ({
   teamSlugMap: _teamSlugMap, // Reserved for future use
   lastNGames,
   setLastNGames,
+  metricNormalization,
+  setMetricNormalization,
+  gamesWithoutMinutes,
   selectedChartGroup,
   setSelectedChartGroup,
   selectedCharts,
@@ -284,6 +292,12 @@ export const ClubDataView: React.FC<ClubDataViewProps> = ({
                 style={lastNGames ? { borderColor: '#ceff00' } : {}}
               />
             </div>
+
+            {/* Count metric normalization (shared with the dashboard) */}
+            <div className="flex-shrink-0">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Normalize</label>
+              <MetricNormalizationSelector value={metricNormalization} onChange={setMetricNormalization} />
+            </div>
           </div>
         </div>
       </div>
@@ -291,6 +305,17 @@ export const ClubDataView: React.FC<ClubDataViewProps> = ({
       {/* Main Content Area */}
       <main className="flex-1 overflow-y-auto p-6 bg-gray-50">
         <div className="max-w-[1600px] mx-auto w-full">
+          {getNormalizationUnit(metricNormalization) && (
+            <div className="mb-4 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm text-gray-700">
+              Team averages of count metrics are {getNormalizationUnit(metricNormalization)}.
+              {gamesWithoutMinutes > 0 && (
+                <span className="text-gray-500">
+                  {' '}{gamesWithoutMinutes} game{gamesWithoutMinutes === 1 ? '' : 's'} without
+                  {metricNormalization === 'perPossessionMinute' ? ' possession minutes' : ' a match duration'} left out of count metrics.
+                </span>
+              )}
+            </div>
+          )}
           {!clubDataByTeam || clubDataByTeam.length === 0 ? (
             (() => {
               // Show radial chart when no teams selected OR when all teams are selected (default state)
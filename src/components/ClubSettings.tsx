@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { JOGA_COLORS } from '../utils/colors';
+import {
+  SpiWeighting,
+  StatsRecomputeReport,
+  getPlayingTimePolicy,
+  getSpiStringMultiplier,
+  getSpiWeighting,
+  updatePlayingTimePolicy,
+  updateSpiWeighting,
+} from '../services/clubSettingsService';
+import { StatValidationRulesEditor } from './StatValidationRulesEditor';
+
+const PREVIEW_STRING_LENGTHS = [3, 4, 5, 6, 7, 8, 9, 10];
+
+function formatDelta(value: number | null): string {
+  if (value === null) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+/**
+ * Equal playing time policy: players below the minimum share of available minutes are
+ * flagged in the lineup playing time report
+ */
+const PlayingTimePolicySettings: React.FC = () => {
+  const [minSharePercent, setMinSharePercent] = useState('');
+  const [isDefault, setIsDefault] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    getPlayingTimePolicy()
+      .then(setting => {
+        setMinSharePercent(String(setting.policy.minSharePercent));
+        setIsDefault(setting.isDefault);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load playing time policy'));
+  }, []);
+
+  const parsed = Number(minSharePercent);
+  const isValid = minSharePercent.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 && parsed <= 100;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const setting = await updatePlayingTimePolicy({ minSharePercent: parsed });
+      setMinSharePercent(String(setting.policy.minSharePercent));
+      setIsDefault(setting.isDefault);
+      setSuccess('Playing time policy saved.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update playing time policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-semibold text-gray-900">Equal Playing Time</h2>
+        <p className="text-xs text-gray-600 mt-1">
+          Players who get less than this share of the minutes in matches they were in the squad for are flagged in
+          the season playing time report.{isDefault ? ' Using the default policy.' : ''}
+        </p>
+      </div>
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+        {success && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{success}</div>
+        )}
+        <div className="flex items-end gap-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Minimum share of minutes (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={minSharePercent}
+              onChange={(e) => setMinSharePercent(e.target.value)}
+              className="mt-1 w-40 px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!isValid || isSaving}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Club-wide settings (admin only).
+ * The SPI (w) weighting: changing it recomputes SPI (w) / Opp SPI (w) on every match,
+ * and "Preview impact" shows how stored values would move before saving.
+ * Also hosts the stat validation rules editor and the equal playing time policy.
+ */
+export const ClubSettings: React.FC = () => {
+  const [baseStringLength, setBaseStringLength] = useState('3');
+  const [bonusPercent, setBonusPercent] = useState('15');
+  const [isDefault, setIsDefault] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [report, setReport] = useState<StatsRecomputeReport | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const applySetting = (weighting: SpiWeighting) => {
+    setBaseStringLength(String(weighting.baseStringLength));
+    setBonusPercent(String(Math.round(weighting.bonusPerExtraPass * 1000) / 10));
+  };
+
+  useEffect(() => {
+    getSpiWeighting()
+      .then(setting => {
+        applySetting(setting.weighting);
+        setIsDefault(setting.isDefault);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load club settings'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const parsedWeighting: SpiWeighting | null = (() => {
+    const base = Number(baseStringLength);
+    const bonus = Number(bonusPercent);
+    if (!Number.isInteger(base) || base < 3 || base > 10) return null;
+    if (bonusPercent.trim() === '' || !Number.isFinite(bonus) || bonus < 0 || bonus > 100) return null;
+    return { baseStringLength: base, bonusPerExtraPass: bonus / 100 };
+  })();
+
+  const handleSubmit = async (dryRun: boolean) => {
+    if (!parsedWeighting) return;
+    if (!dryRun && !window.confirm('Save the new weighting? SPI (w) and Opp SPI (w) will be recomputed on every match.')) {
+      return;
+    }
+    setIsSubmitting(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await updateSpiWeighting(parsedWeighting, dryRun);
+      setReport(response.recompute);
+      if (!dryRun) {
+        applySetting(response.weighting);
+        setIsDefault(response.isDefault ?? false);
+        setSuccess(`Weighting saved. ${response.recompute.matchesChanged} match(es) updated.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update SPI weighting');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading club settings...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="text-lg font-semibold text-gray-900">Weighted SPI</h2>
+          <p className="text-xs text-gray-600 mt-1">
+            SPI (w) and Opp SPI (w) give longer pass strings more weight. Each pass beyond the base length adds the bonus
+            to that string's multiplier.{isDefault ? ' Using the default weighting.' : ''}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+          )}
+          {success && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{success}</div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-xl">
+            <label className="block text-sm font-medium text-gray-700">
+              Base string length
+              <input
+                type="number"
+                min={3}
+                max={10}
+                step={1}
+                value={baseStringLength}
+                onChange={(e) => setBaseStringLength(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Bonus per extra pass (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={1}
+                value={bonusPercent}
+                onChange={(e) => setBonusPercent(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+          </div>
+
+          {parsedWeighting ? (
+            <div>
+              <div className="text-xs font-semibold text-gray-700 mb-1">String multipliers</div>
+              <div className="flex flex-wrap gap-2">
+                {PREVIEW_STRING_LENGTHS.map(length => (
+                  <span key={length} className="px-2 py-1 rounded bg-gray-100 text-xs text-gray-700">
+                    {length}-pass ×{getSpiStringMultiplier(length, parsedWeighting).toFixed(2)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-red-700">Base length must be a whole number from 3 to 10 and the bonus from 0 to 100%.</p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => handleSubmit(true)}
+              disabled={!parsedWeighting || isSubmitting}
+              className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Preview impact
+            </button>
+            <button
+              type="button"
+              onClick={() => handleSubmit(false)}
+              disabled={!parsedWeighting || isSubmitting}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+            >
+              {isSubmitting ? 'Working...' : 'Save and recompute'}
+            </button>
+          </div>
+
+          {report && (
+            <div className="border-t border-gray-200 pt-4">
+              <div className="text-sm text-gray-700 mb-2">
+                {report.dryRun ? 'Preview: ' : ''}
+                {report.matchesChanged} of {report.matchesChecked} match(es) {report.dryRun ? 'would change' : 'changed'}.
+              </div>
+              {report.metrics.length > 0 && (
+                <table className="min-w-full text-xs">
+                  <thead className="text-left text-gray-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">Metric</th>
+                      <th className="py-1 pr-3 font-medium">Matches</th>
+                      <th className="py-1 pr-3 font-medium">Mean Δ</th>
+                      <th className="py-1 font-medium">Max |Δ|</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.metrics.map(metric => (
+                      <tr key={metric.metric} className="border-t border-gray-100">
+                        <td className="py-1 pr-3 text-gray-700">{metric.metric}</td>
+                        <td className="py-1 pr-3 text-gray-700">{metric.matchesChanged}</td>
+                        <td className="py-1 pr-3 text-gray-700">{formatDelta(metric.meanDelta)}</td>
+                        <td className="py-1 text-gray-700">{metric.maxAbsDelta === null ? '—' : metric.maxAbsDelta.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <StatValidationRulesEditor />
+
+      <PlayingTimePolicySettings />
+    </div>
+  );
+};
@@ -135,8 +135,8 @@ export const CombinedChartSelector: React.FC<CombinedChartSelectorProps> = ({
           </div>
           <div className="py-1">
             {(() => {
-              // Define the desired order: Dashboard > All Charts > JOGA Metrics > Shooting > Passing & Possession > Defense
-              const groupOrder = ['dashboard', 'all', 'performance', 'shooting', 'passing-possession', 'defense'];
+              // Define the desired order: Dashboard > All Charts > JOGA Metrics > Shooting > Passing & Possession > Defense > Set Pieces
+              const groupOrder = ['dashboard', 'all', 'performance', 'shooting', 'passing-possession', 'defense', 'set-pieces'];
               
               // Sort groups according to the desired order
               const sortedGroups = [...CHART_GROUPS].sort((a, b) => {
@@ -1 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { Competition, getCompetitions } from '../services/competitionService';
 
+interface CompetitionTypeFilterProps {
+  selectedCompetitionId: number | null;
+  onCompetitionChange: (competitionId: number | null) => void;
+  /** Only offer these competitions (e.g. the ones in the loaded match data) */
+  availableCompetitionIds?: number[];
+}
+
+/**
+ * Filter by a competition (matched on the match's linked competition, not its competition type text)
+ */
+export const CompetitionTypeFilter: React.FC<CompetitionTypeFilterProps> = ({
+  selectedCompetitionId,
+  onCompetitionChange,
+  availableCompetitionIds,
+}) => {
+  const [competitions, setCompetitions] = useState<Competition[]>([]);
+
+  useEffect(() => {
+    getCompetitions()
+      .then(setCompetitions)
+      .catch(error => console.error('Error loading competitions:', error));
+  }, []);
+
+  const options = availableCompetitionIds
+    ? competitions.filter(competition => availableCompetitionIds.includes(competition.id))
+    : competitions;
+
+  if (options.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex-shrink-0">
+      <label className="block text-xs font-medium text-gray-600 mb-1">Competition</label>
+      <select
+        value={selectedCompetitionId || ''}
+        onChange={(e) => onCompetitionChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+        className={`px-3 py-1.5 text-sm border-2 rounded-lg bg-white focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa] whitespace-nowrap ${
+          selectedCompetitionId ? 'border-[#ceff00]' : 'border-gray-300'
+        }`}
+        style={selectedCompetitionId ? { borderColor: '#ceff00', width: 'auto', minWidth: '160px' } : { width: 'auto', minWidth: '160px' }}
+      >
+        <option value="">All Competitions</option>
+        {options.map((competition) => (
+          <option key={competition.id} value={competition.id}>
+            {competition.name}{competition.seasonName ? ` (${competition.seasonName})` : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
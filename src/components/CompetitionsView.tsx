@@ -0,0 +1,428 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  COMPETITION_TYPES,
+  Competition,
+  CompetitionInput,
+  Standings,
+  createCompetition,
+  deleteCompetition,
+  getCompetitions,
+  getStandings,
+  updateCompetition,
+} from '../services/competitionService';
+import { getOpponents, Opponent } from '../services/opponentService';
+import { getAllSeasons } from '../services/seasonService';
+import { getAllTeams } from '../services/teamService';
+import { Season, Team } from '../types/auth';
+import { JOGA_COLORS } from '../utils/colors';
+import { UserMenu } from './UserMenu';
+
+const EMPTY_FORM: CompetitionInput = {
+  name: '',
+  type: 'league',
+  seasonId: null,
+  pointsRules: { win: 3, draw: 1, loss: 0 },
+  teamIds: [],
+  opponentIds: [],
+};
+
+function toForm(competition: Competition): CompetitionInput {
+  return {
+    name: competition.name,
+    type: competition.type,
+    seasonId: competition.seasonId,
+    pointsRules: { ...competition.pointsRules },
+    teamIds: competition.participants.flatMap(participant => participant.teamId ? [participant.teamId] : []),
+    opponentIds: competition.participants.flatMap(participant => participant.opponentId ? [participant.opponentId] : []),
+  };
+}
+
+function toggleId(ids: number[] | undefined, id: number): number[] {
+  const list = ids || [];
+  return list.includes(id) ? list.filter(existing => existing !== id) : [...list, id];
+}
+
+/**
+ * Competitions (leagues, cups, tournaments, friendlies) and their standings.
+ * Admins can create and edit competitions, their participants and points rules.
+ */
+export const CompetitionsView: React.FC = () => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [competitions, setCompetitions] = useState<Competition[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [seasonFilter, setSeasonFilter] = useState<number | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [standings, setStandings] = useState<Standings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // null: not editing; editingId null with a form: creating
+  const [form, setForm] = useState<CompetitionInput | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [opponents, setOpponents] = useState<Opponent[]>([]);
+  const [opponentSearch, setOpponentSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadCompetitions = useCallback(async () => {
+    try {
+      setCompetitions(await getCompetitions({ seasonId: seasonFilter ?? undefined }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load competitions');
+    }
+  }, [seasonFilter]);
+
+  useEffect(() => {
+    loadCompetitions();
+  }, [loadCompetitions]);
+
+  useEffect(() => {
+    getAllSeasons()
+      .then(setSeasons)
+      .catch(err => console.error('Error loading seasons:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setStandings(null);
+      return;
+    }
+    getStandings(selectedId)
+      .then(setStandings)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load standings'));
+  }, [selectedId, competitions]);
+
+  // Teams and opponents are only needed for the edit form
+  useEffect(() => {
+    if (!form || teams.length > 0) return;
+    Promise.all([getAllTeams(), getOpponents()])
+      .then(([allTeams, allOpponents]) => {
+        setTeams(allTeams);
+        setOpponents(allOpponents);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load teams and opponents'));
+  }, [form, teams.length]);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, seasonId: seasonFilter });
+  };
+
+  const startEdit = (competition: Competition) => {
+    setEditingId(competition.id);
+    setForm(toForm(competition));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = editingId
+        ? await updateCompetition(editingId, form)
+        : await createCompetition(form);
+      setForm(null);
+      setEditingId(null);
+      setSelectedId(saved.id);
+      await loadCompetitions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save competition');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (competition: Competition) => {
+    if (!window.confirm(`Delete ${competition.name}? Its ${competition.matchCount} match(es) are kept but no longer linked to it.`)) {
+      return;
+    }
+    try {
+      await deleteCompetition(competition.id);
+      if (selectedId === competition.id) setSelectedId(null);
+      await loadCompetitions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete competition');
+    }
+  };
+
+  const selectedCompetition = competitions.find(competition => competition.id === selectedId) || null;
+  const filteredOpponents = opponents.filter(opponent =>
+    !opponentSearch.trim() || opponent.name.toLowerCase().includes(opponentSearch.trim().toLowerCase())
+  );
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]';
+
+  return (
+    <>
+      <header className="bg-white shadow-sm border-b border-gray-200 relative">
+        <div className="px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Competitions</h1>
+              <p className="text-sm text-gray-600 mt-1">Leagues, cups, tournaments and friendlies, with standings from the club's results.</p>
+            </div>
+            <div className="relative">
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Competition list */}
+            <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center gap-2">
+                <select
+                  value={seasonFilter || ''}
+                  onChange={(e) => setSeasonFilter(e.target.value ? parseInt(e.target.value) : null)}
+                  className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white text-black"
+                >
+                  <option value="">All seasons</option>
+                  {seasons.map(season => (
+                    <option key={season.id} value={season.id}>{season.name}</option>
+                  ))}
+                </select>
+                {isAdmin && (
+                  <button
+                    onClick={startCreate}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg text-black"
+                    style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+                  >
+                    New
+                  </button>
+                )}
+              </div>
+              {competitions.length === 0 ? (
+                <p className="px-4 py-6 text-sm text-gray-600">No competitions yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {competitions.map(competition => (
+                    <li key={competition.id}>
+                      <button
+                        onClick={() => setSelectedId(competition.id)}
+                        className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selectedId === competition.id ? 'bg-gray-100' : ''}`}
+                      >
+                        <div className="font-medium text-gray-900">{competition.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {COMPETITION_TYPES.find(type => type.value === competition.type)?.label}
+                          {competition.seasonName ? ` · ${competition.seasonName}` : ''}
+                          {` · ${competition.matchCount} ${competition.matchCount === 1 ? 'match' : 'matches'}`}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="lg:col-span-2 space-y-6">
+              {/* Create / edit form (admin) */}
+              {form && (
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+                  <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                    <h2 className="text-lg font-semibold text-gray-900">{editingId ? 'Edit competition' : 'New competition'}</h2>
+                  </div>
+                  <div className="p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                        <input
+                          type="text"
+                          value={form.name}
+                          onChange={(e) => setForm({ ...form, name: e.target.value })}
+                          placeholder="e.g. Spring League"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Type</label>
+                        <select
+                          value={form.type}
+                          onChange={(e) => setForm({ ...form, type: e.target.value as CompetitionInput['type'] })}
+                          className={inputClass}
+                        >
+                          {COMPETITION_TYPES.map(type => (
+                            <option key={type.value} value={type.value}>{type.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Season</label>
+                        <select
+                          value={form.seasonId || ''}
+                          onChange={(e) => setForm({ ...form, seasonId: e.target.value ? parseInt(e.target.value) : null })}
+                          className={inputClass}
+                        >
+                          <option value="">No season</option>
+                          {seasons.map(season => (
+                            <option key={season.id} value={season.id}>{season.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Points for a</label>
+                      <div className="flex gap-4">
+                        {(['win', 'draw', 'loss'] as const).map(key => (
+                          <label key={key} className="flex items-center gap-2 text-sm text-gray-700 capitalize">
+                            {key}
+                            <input
+                              type="number"
+                              value={form.pointsRules?.[key] ?? 0}
+                              onChange={(e) => setForm({
+                                ...form,
+                                pointsRules: { ...form.pointsRules, [key]: parseInt(e.target.value, 10) || 0 },
+                              })}
+                              className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-lg text-center"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Club teams</label>
+                        <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-2 space-y-1">
+                          {teams.map(team => (
+                            <label key={team.id} className="flex items-center gap-2 text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={form.teamIds?.includes(team.id) || false}
+                                onChange={() => setForm({ ...form, teamIds: toggleId(form.teamIds, team.id) })}
+                              />
+                              {team.displayName}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Opponents</label>
+                        <input
+                          type="text"
+                          value={opponentSearch}
+                          onChange={(e) => setOpponentSearch(e.target.value)}
+                          placeholder="Search opponents..."
+                          className={`${inputClass} mb-2`}
+                        />
+                        <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-2 space-y-1">
+                          {filteredOpponents.map(opponent => (
+                            <label key={opponent.id} className="flex items-center gap-2 text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={form.opponentIds?.includes(opponent.id) || false}
+                                onChange={() => setForm({ ...form, opponentIds: toggleId(form.opponentIds, opponent.id) })}
+                              />
+                              {opponent.name}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">Teams and opponents from matches linked to the competition are added automatically.</p>
+
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => { setForm(null); setEditingId(null); }}
+                        className="px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSave}
+                        disabled={saving || !form.name.trim()}
+                        className="px-4 py-2 text-sm font-medium rounded-lg text-black disabled:opacity-50"
+                        style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+                      >
+                        {saving ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Standings */}
+              {selectedCompetition && standings ? (
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+                  <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">{selectedCompetition.name} standings</h2>
+                      <p className="text-xs text-gray-500">
+                        {`Win ${standings.competition.pointsRules.win} · Draw ${standings.competition.pointsRules.draw} · Loss ${standings.competition.pointsRules.loss} pts`}
+                      </p>
+                    </div>
+                    {isAdmin && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => startEdit(selectedCompetition)}
+                          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(selectedCompetition)}
+                          className="px-3 py-1.5 text-sm border border-red-300 rounded-lg text-red-700 hover:bg-red-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {standings.rows.length === 0 ? (
+                    <p className="px-6 py-4 text-sm text-gray-600">No participants or results yet.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            {['#', 'Team', 'P', 'W', 'D', 'L', 'GF', 'GA', 'GD', 'Pts'].map(heading => (
+                              <th key={heading} className={`px-3 py-2 font-medium text-gray-600 ${heading === 'Team' ? 'text-left' : 'text-right'}`}>
+                                {heading}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {standings.rows.map(row => (
+                            <tr key={`${row.teamId ?? ''}-${row.opponentId ?? ''}-${row.name}`} className={row.isClubTeam ? 'font-semibold' : ''}>
+                              <td className="px-3 py-2 text-right text-gray-500">{row.position}</td>
+                              <td className="px-3 py-2 text-gray-900">
+                                {row.name}
+                                {row.isClubTeam && (
+                                  <span className="ml-2 px-1.5 py-0.5 text-xs rounded" style={{ backgroundColor: JOGA_COLORS.voltYellow }}>Club</span>
+                                )}
+                              </td>
+                              <td className="px-3 py-2 text-right text-gray-700">{row.played}</td>
+                              <td className="px-3 py-2 text-right text-gray-700">{row.wins}</td>
+                              <td className="px-3 py-2 text-right text-gray-700">{row.draws}</td>
+                              <td className="px-3 py-2 text-right text-gray-700">{row.losses}</td>
+                              <td className="px-3 py-2 text-right text-gray-700">{row.goalsFor}</td>
+                              <td className="px-3 py-2 text-right text-gray-700">{row.goalsAgainst}</td>
+                              <td className="px-3 py-2 text-right text-gray-700">{row.goalDifference > 0 ? `+${row.goalDifference}` : row.goalDifference}</td>
+                              <td className="px-3 py-2 text-right text-gray-900 font-bold">{row.points}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                  <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+                    Opponents' records only include their games against the club's teams.
+                  </p>
+                </div>
+              ) : !form && (
+                <div className="bg-white rounded-lg shadow p-6 text-gray-600">Select a competition to see its standings.</div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
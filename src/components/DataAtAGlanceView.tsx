@@ -4,12 +4,16 @@ import { Team } from '../types/auth';
 import { getAllSeasons } from '../services/seasonService.api';
 import { JOGA_COLORS } from '../utils/colors';
 import { formatDateWithMonthName } from '../utils/dateFormatting';
+import { isCountMetric, normalizeMatchData, getNormalizationUnit, MetricNormalization } from '../utils/metricNormalization';
+import { MetricNormalizationSelector } from './MetricNormalizationSelector';
 // import { getDisplayNameForSlug } from '../utils/teamMapping'; // Reserved for future use
 
 interface DataAtAGlanceViewProps {
   matchData: MatchData[];
   columnKeys: string[];
   teamSlugMap: Map<string, Team>;
+  metricNormalization: MetricNormalization;
+  setMetricNormalization: (value: MetricNormalization) => void;
 }
 
 // Helper function to categorize columns
@@ -147,9 +151,16 @@ const categorizeColumns = (columnKeys: string[]): Record<string, string[]> => {
   return categories;
 };
 
-export const DataAtAGlanceView: React.FC<DataAtAGlanceViewProps> = ({ matchData, columnKeys, teamSlugMap: _teamSlugMap }) => {
+export const DataAtAGlanceView: React.FC<DataAtAGlanceViewProps> = ({
+  matchData,
+  columnKeys,
+  teamSlugMap: _teamSlugMap,
+  metricNormalization,
+  setMetricNormalization,
+}) => {
   const [activeSeason, setActiveSeason] = useState<string | null>(null);
   const [loadingSeason, setLoadingSeason] = useState(true);
+  const normalizationUnit = getNormalizationUnit(metricNormalization);
 
   // Calculate stats - same logic as in ChatFirstView
   const stats = useMemo(() => {
@@ -303,6 +314,13 @@ export const DataAtAGlanceView: React.FC<DataAtAGlanceViewProps> = ({ matchData,
     return categorizeColumns(columnKeys);
   }, [columnKeys]);
 
+  const countColumnCount = useMemo(() => columnKeys.filter(isCountMetric).length, [columnKeys]);
+
+  // Games the selected normalization can't rescale (no match duration / possession minutes)
+  const gamesWithoutMinutes = useMemo(() => {
+    return normalizeMatchData(matchData, columnKeys, metricNormalization).gamesWithoutMinutes;
+  }, [matchData, columnKeys, metricNormalization]);
+
   // JOGA colors for card headers (rotating pattern - matches Glossary)
   const cardHeaderColors = [JOGA_COLORS.voltYellow, JOGA_COLORS.valorBlue];
   
@@ -430,6 +448,22 @@ export const DataAtAGlanceView: React.FC<DataAtAGlanceViewProps> = ({ matchData,
                 </div>
               )}
             </div>
+            <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="text-sm text-gray-900 font-medium">Count Metrics</div>
+                  <div className="text-xs text-gray-600">
+                    {countColumnCount} count column{countColumnCount !== 1 ? 's' : ''} shown {normalizationUnit || 'as raw totals'} across the dashboard, Club Data and chat
+                  </div>
+                </div>
+                <MetricNormalizationSelector value={metricNormalization} onChange={setMetricNormalization} />
+              </div>
+              {gamesWithoutMinutes > 0 && (
+                <div className="text-xs text-amber-700 mt-2">
+                  {gamesWithoutMinutes} of {stats.matchCount} game{stats.matchCount !== 1 ? 's have' : ' has'} no {metricNormalization === 'perPossessionMinute' ? 'possession minutes' : 'match duration'} recorded, so their count metrics are left out.
+                </div>
+              )}
+            </div>
             </div>
           </div>
 
@@ -464,9 +498,12 @@ export const DataAtAGlanceView: React.FC<DataAtAGlanceViewProps> = ({ matchData,
                         <span
                           key={column}
                           className="px-3 py-1.5 bg-white rounded-md text-sm font-mono border border-gray-300 shadow-sm"
-                          title={column}
+                          title={normalizationUnit && isCountMetric(column) ? `${column} (${normalizationUnit})` : column}
                         >
                           {column}
+                          {normalizationUnit && isCountMetric(column) && (
+                            <span className="ml-1.5 text-xs font-sans text-gray-500">{normalizationUnit}</span>
+                          )}
                         </span>
                       ))}
                     </div>
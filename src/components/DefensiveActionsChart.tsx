@@ -0,0 +1,164 @@
+import React from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LabelList } from 'recharts';
+import { MatchData } from '../types';
+import { JOGA_COLORS, OPPONENT_COLORS, VALOR_BLUE_COMPLEMENTS, VOLT_YELLOW_COMPLEMENTS } from '../utils/colors';
+import { DEFAULT_DEFENSIVE_ACTIONS_CONFIG } from '../types/chartConfig';
+import { ChartConfigPanel } from './ChartConfigPanel';
+import { ChartExpandButton } from './ChartExpandButton';
+import { useChartConfig } from '../hooks/useChartConfig';
+
+interface DefensiveActionsChartProps {
+  data: MatchData[];
+  opponentKey: string;
+  // Optional metrics (if available in data)
+  tacklesKey?: string;
+  interceptionsKey?: string;
+  clearancesKey?: string;
+  blocksKey?: string;
+  recoveriesKey?: string;
+  oppPassesPerDefensiveActionKey?: string;
+  showLabels?: boolean;
+  onExpansionChange?: (isExpanded: boolean) => void; // Callback when expansion state changes
+}
+
+export const DefensiveActionsChart: React.FC<DefensiveActionsChartProps> = ({
+  data,
+  opponentKey,
+  tacklesKey,
+  interceptionsKey,
+  clearancesKey,
+  blocksKey,
+  recoveriesKey,
+  oppPassesPerDefensiveActionKey,
+  showLabels = false,
+  onExpansionChange,
+}) => {
+  const { config, isLoading, handleConfigChange, handleSave, handleReset, handleExpandToggle, isExpanded } = useChartConfig({
+    chartType: 'defensiveActions',
+    defaultConfig: DEFAULT_DEFENSIVE_ACTIONS_CONFIG,
+    onExpansionChange,
+  });
+
+  // Stacked actions, in stacking order (bottom to top)
+  const actions = [
+    { id: 'tackles', label: 'Tackles', key: tacklesKey, color: JOGA_COLORS.voltYellow },
+    { id: 'interceptions', label: 'Interceptions', key: interceptionsKey, color: JOGA_COLORS.valorBlue },
+    { id: 'clearances', label: 'Clearances', key: clearancesKey, color: JOGA_COLORS.pinkFoam },
+    { id: 'blocks', label: 'Blocks', key: blocksKey, color: VALOR_BLUE_COMPLEMENTS.darkBlue },
+    { id: 'recoveries', label: 'Recoveries', key: recoveriesKey, color: VOLT_YELLOW_COMPLEMENTS.darkGray },
+  ].filter(action => action.key);
+
+  const visibleActions = actions.filter(action => config.visibleMetrics.includes(action.id));
+  const showOppPassesPerAction = config.visibleMetrics.includes('oppPassesPerDefensiveAction') && !!oppPassesPerDefensiveActionKey;
+
+  // Build chart data based on configuration
+  const chartData = data.map((match) => {
+    const base: Record<string, string | number | null> = {
+      name: match[opponentKey] || 'Opponent',
+    };
+
+    visibleActions.forEach(action => {
+      const val = match[action.key!];
+      base[action.label] = typeof val === 'number' ? val : 0;
+    });
+    if (showOppPassesPerAction) {
+      const val = match[oppPassesPerDefensiveActionKey!];
+      base['Opp Passes per Defensive Action'] = typeof val === 'number' ? val : null;
+    }
+
+    return base;
+  });
+
+  // Determine which elements to render based on config
+  const renderChartElements = () => {
+    const elements: JSX.Element[] = visibleActions.map(action => (
+      <Bar key={action.label} yAxisId="left" dataKey={action.label} stackId="actions" fill={action.color} animationDuration={500}>
+        {showLabels && <LabelList dataKey={action.label} position="center" fill="#1f2937" fontSize={11} />}
+      </Bar>
+    ));
+
+    if (showOppPassesPerAction) {
+      elements.push(
+        <Line
+          key="Opp Passes per Defensive Action"
+          yAxisId="right"
+          type="monotone"
+          dataKey="Opp Passes per Defensive Action"
+          stroke={OPPONENT_COLORS.dark}
+          strokeWidth={2}
+          connectNulls
+        />
+      );
+    }
+
+    return elements;
+  };
+
+  // Available metrics
+  const availableMetrics = [
+    ...actions.map(action => ({ id: action.id, label: action.label, required: false })),
+    ...(oppPassesPerDefensiveActionKey ? [{ id: 'oppPassesPerDefensiveAction', label: 'Opp Passes per Defensive Action', required: false }] : []),
+  ];
+
+  // Fixed title - don't rename based on metrics
+  const chartTitle = 'Defensive Actions';
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-xl font-bold mb-2 text-gray-800">{chartTitle}</h3>
+        <div className="flex items-center justify-center h-96">
+          <p className="text-gray-500">Loading chart configuration...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 relative group">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-800">{chartTitle}</h3>
+        <div className="flex items-center gap-2">
+          <ChartExpandButton isExpanded={isExpanded} onToggle={handleExpandToggle} />
+          <ChartConfigPanel
+            chartType="defensiveActions"
+            config={config}
+            availableMetrics={availableMetrics}
+            onConfigChange={handleConfigChange}
+            onSave={handleSave}
+            onReset={handleReset}
+            hideOpponentToggle
+          />
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={400}>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 30, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <Legend
+            verticalAlign="top"
+            align="center"
+            wrapperStyle={{ paddingBottom: '15px', color: '#1f2937' }}
+            formatter={(value: string) => value.trim()}
+          />
+          <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
+          <YAxis yAxisId="left" allowDecimals={false} label={{ value: 'Actions', angle: -90, position: 'insideLeft' }} />
+          {showOppPassesPerAction && <YAxis yAxisId="right" orientation="right" />}
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#111827',
+              color: '#ffffff',
+              border: '1px solid #374151',
+              borderRadius: '8px',
+              padding: '12px'
+            }}
+            formatter={(value: number, name: string) => [
+              name === 'Opp Passes per Defensive Action' && typeof value === 'number' ? value.toFixed(1) : value,
+              name,
+            ]}
+          />
+          {renderChartElements()}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
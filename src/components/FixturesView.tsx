@@ -0,0 +1,423 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getAllTeams, getUserTeams } from '../services/teamService';
+import { Competition, getCompetitions } from '../services/competitionService';
+import { Match, MatchStatus, createMatch, deleteMatch, getMatches, updateMatch } from '../services/matchService';
+import { getTeamCalendarFeed, regenerateTeamCalendarFeed } from '../services/calendarService';
+import { Team } from '../types/auth';
+import { JOGA_COLORS } from '../utils/colors';
+import { dateToYYYYMMDD, formatDateStringLocale } from '../utils/dateFormatting';
+import { UserMenu } from './UserMenu';
+import { CalendarImportModal } from './CalendarImportModal';
+
+const STATUS_STYLES: Record<MatchStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  played: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+interface FixtureForm {
+  opponentName: string;
+  matchDate: string;
+  kickoffTime: string;
+  venue: string;
+  homeAway: '' | 'home' | 'away';
+  competitionId: string;
+}
+
+const EMPTY_FORM: FixtureForm = {
+  opponentName: '',
+  matchDate: '',
+  kickoffTime: '',
+  venue: '',
+  homeAway: '',
+  competitionId: '',
+};
+
+function getStage(match: Match): string {
+  if (match.status === 'played') {
+    return match.statsEntered ? 'Stats entered' : 'Played';
+  }
+  return match.status === 'cancelled' ? 'Cancelled' : 'Scheduled';
+}
+
+/**
+ * Enter a team's upcoming schedule (kickoff time, venue, home/away) and follow each
+ * fixture through scheduled -> played -> stats entered (stats are filled in from Upload Game Data).
+ */
+export const FixturesView: React.FC = () => {
+  const { user } = useAuth();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [competitions, setCompetitions] = useState<Competition[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  const [fixtures, setFixtures] = useState<Match[]>([]);
+  const [showPast, setShowPast] = useState(false);
+  const [form, setForm] = useState<FixtureForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedCopied, setFeedCopied] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    const loadTeams = user.role === 'admin' ? getAllTeams() : getUserTeams(user.id);
+    loadTeams
+      .then(result => {
+        setTeams(result);
+        setSelectedTeamId(current => current ?? result[0]?.id ?? null);
+      })
+      .catch(err => console.error('Error loading teams:', err));
+    getCompetitions()
+      .then(setCompetitions)
+      .catch(err => console.error('Error loading competitions:', err));
+  }, [user]);
+
+  const loadFixtures = useCallback(async () => {
+    if (!selectedTeamId) {
+      setFixtures([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const matches = await getMatches({ teamId: selectedTeamId });
+      // The schedule reads soonest first
+      setFixtures(matches.sort((a, b) =>
+        a.matchDate.localeCompare(b.matchDate) || (a.kickoffTime || '').localeCompare(b.kickoffTime || '')
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load fixtures');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedTeamId]);
+
+  useEffect(() => {
+    loadFixtures();
+  }, [loadFixtures]);
+
+  useEffect(() => {
+    setFeedUrl(null);
+    setFeedCopied(false);
+    if (!selectedTeamId || user?.role === 'viewer') return;
+    let cancelled = false;
+    getTeamCalendarFeed(selectedTeamId)
+      .then(feed => {
+        if (!cancelled) setFeedUrl(feed.url);
+      })
+      .catch(err => console.error('Error loading calendar feed:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTeamId, user]);
+
+  const handleCopyFeed = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setFeedCopied(true);
+    } catch {
+      setError('Could not copy the link; select it and copy it instead');
+    }
+  };
+
+  const handleRegenerateFeed = async () => {
+    if (!selectedTeamId) return;
+    if (!window.confirm('Create a new calendar link? Calendars subscribed to the current link will stop updating.')) return;
+    setError(null);
+    try {
+      const feed = await regenerateTeamCalendarFeed(selectedTeamId);
+      setFeedUrl(feed.url);
+      setFeedCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create a new calendar link');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTeamId || !form.opponentName.trim() || !form.matchDate) {
+      setError('Opponent and date are required');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await createMatch({
+        teamId: selectedTeamId,
+        opponentName: form.opponentName.trim(),
+        matchDate: form.matchDate,
+        kickoffTime: form.kickoffTime || null,
+        venue: form.venue.trim() || null,
+        isHome: form.homeAway === '' ? null : form.homeAway === 'home',
+        competitionId: form.competitionId ? parseInt(form.competitionId) : null,
+        status: 'scheduled',
+      });
+      // Keep the date and competition for entering the next fixture
+      setForm({ ...EMPTY_FORM, matchDate: form.matchDate, competitionId: form.competitionId });
+      await loadFixtures();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add fixture');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (match: Match, status: MatchStatus) => {
+    setError(null);
+    try {
+      await updateMatch(match.id, { status });
+      await loadFixtures();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update fixture');
+    }
+  };
+
+  const handleDelete = async (match: Match) => {
+    if (!window.confirm(`Delete the fixture against ${match.opponentName}?`)) return;
+    setError(null);
+    try {
+      await deleteMatch(match.id);
+      await loadFixtures();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete fixture');
+    }
+  };
+
+  const todayString = dateToYYYYMMDD(new Date());
+  // Past games are hidden unless asked for (a past fixture still waiting for its result stays listed)
+  const visibleFixtures = showPast ? fixtures : fixtures.filter(match => match.matchDate >= todayString || match.status === 'scheduled');
+
+  const selectedTeam = teams.find(team => team.id === selectedTeamId);
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]';
+
+  return (
+    <>
+      <header className="bg-white shadow-sm border-b border-gray-200 relative">
+        <div className="px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Fixtures</h1>
+              <p className="text-sm text-gray-600 mt-1">Each team's schedule, from fixture to played game to entered stats.</p>
+            </div>
+            <div className="relative">
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-4">
+            <div className="min-w-[240px]">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Team</label>
+              <select
+                value={selectedTeamId || ''}
+                onChange={(e) => setSelectedTeamId(e.target.value ? parseInt(e.target.value) : null)}
+                className={inputClass}
+              >
+                <option value="">Select team...</option>
+                {teams.map(team => (
+                  <option key={team.id} value={team.id}>{team.displayName}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={showPast} onChange={(e) => setShowPast(e.target.checked)} />
+              Show past games
+            </label>
+            {selectedTeamId && user?.role !== 'viewer' && (
+              <button
+                type="button"
+                onClick={() => setShowImport(true)}
+                className="ml-auto px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Import .ics Schedule
+              </button>
+            )}
+          </div>
+
+          {feedUrl && (
+            <div className="bg-white rounded-lg shadow p-4">
+              <div className="text-xs font-medium text-gray-600 mb-1">Calendar feed</div>
+              <p className="text-xs text-gray-500 mb-2">
+                Subscribe to this link in Google Calendar, Apple Calendar or Outlook to see the scheduled fixtures.
+                It works without logging in, so only share it with the team.
+              </p>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-[240px] px-3 py-2 text-xs font-mono border border-gray-300 rounded-lg bg-gray-50 text-gray-700"
+                />
+                <button type="button" onClick={handleCopyFeed} className="px-3 py-2 rounded-lg text-xs font-medium bg-gray-900 text-white">
+                  {feedCopied ? 'Copied' : 'Copy Link'}
+                </button>
+                <button type="button" onClick={handleRegenerateFeed} className="px-3 py-2 text-xs text-gray-600 hover:text-gray-900">
+                  New Link
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {selectedTeamId && (
+            <form onSubmit={handleAdd} className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-7 gap-3 items-end">
+              <div className="md:col-span-2">
+                <label className="block text-xs font-medium text-gray-600 mb-1">Opponent</label>
+                <input
+                  type="text"
+                  value={form.opponentName}
+                  onChange={(e) => setForm({ ...form, opponentName: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+                <input
+                  type="date"
+                  value={form.matchDate}
+                  onChange={(e) => setForm({ ...form, matchDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Kickoff</label>
+                <input
+                  type="time"
+                  value={form.kickoffTime}
+                  onChange={(e) => setForm({ ...form, kickoffTime: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Home/Away</label>
+                <select
+                  value={form.homeAway}
+                  onChange={(e) => setForm({ ...form, homeAway: e.target.value as FixtureForm['homeAway'] })}
+                  className={inputClass}
+                >
+                  <option value="">Tournament</option>
+                  <option value="home">Home</option>
+                  <option value="away">Away</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Venue</label>
+                <input
+                  type="text"
+                  value={form.venue}
+                  onChange={(e) => setForm({ ...form, venue: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Competition</label>
+                <select
+                  value={form.competitionId}
+                  onChange={(e) => setForm({ ...form, competitionId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">None</option>
+                  {competitions.map(competition => (
+                    <option key={competition.id} value={competition.id}>{competition.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-7 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50"
+                  style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+                >
+                  {saving ? 'Adding...' : 'Add Fixture'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-gray-600 mx-auto"></div>
+            </div>
+          ) : selectedTeamId && (
+            <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+              {visibleFixtures.length === 0 ? (
+                <p className="px-6 py-4 text-sm text-gray-600">No fixtures scheduled for this team.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Date</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Kickoff</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Opponent</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Venue</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Competition</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Status</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visibleFixtures.map(match => (
+                      <tr key={match.id}>
+                        <td className="px-4 py-2 text-gray-900 whitespace-nowrap">{formatDateStringLocale(match.matchDate)}</td>
+                        <td className="px-4 py-2 text-gray-700">{match.kickoffTime || '-'}</td>
+                        <td className="px-4 py-2 text-gray-900">
+                          {match.isHome === false ? '@ ' : 'vs '}{match.opponentName}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">{match.venue || '-'}</td>
+                        <td className="px-4 py-2 text-gray-700">{match.competitionName || match.competitionType || '-'}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[match.status || 'played']}`}>
+                            {getStage(match)}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap space-x-3">
+                          {match.status === 'scheduled' && (
+                            <button type="button" onClick={() => handleStatusChange(match, 'cancelled')} className="text-xs text-gray-600 hover:text-gray-900">
+                              Cancel
+                            </button>
+                          )}
+                          {match.status === 'cancelled' && (
+                            <button type="button" onClick={() => handleStatusChange(match, 'scheduled')} className="text-xs text-gray-600 hover:text-gray-900">
+                              Reinstate
+                            </button>
+                          )}
+                          {match.status !== 'played' && (
+                            <button type="button" onClick={() => handleDelete(match)} className="text-xs text-red-600 hover:text-red-800">
+                              Delete
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedTeamId && (
+        <CalendarImportModal
+          isOpen={showImport}
+          onClose={() => setShowImport(false)}
+          teamId={selectedTeamId}
+          teamName={selectedTeam?.displayName || 'Team'}
+          onImported={() => loadFixtures()}
+        />
+      )}
+    </>
+  );
+};
@@ -9,6 +9,10 @@ import { Team } from '../types/auth';
 import { getTeamsForDropdown } from '../utils/teamMapping';
 import { useAuth } from '../contexts/AuthContext';
 import { formatDateWithUserPreference, dateToYYYYMMDD } from '../utils/dateFormatting';
+import { getMatches, Match } from '../services/matchService';
+import { ShotMap } from './ShotMap';
+import { Heatmap } from './Heatmap';
+import { MatchExportModal } from './MatchExportModal';
 
 interface GameDataViewProps {
   matchData: MatchData[];
@@ -298,6 +302,8 @@ export const GameDataView: React.FC<GameDataViewProps> = ({
   const [columnOrder, setColumnOrder] = useState<number[]>([]);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [openConfigCategory, setOpenConfigCategory] = useState<string | null>(null);
+  const [teamDbMatches, setTeamDbMatches] = useState<Match[]>([]);
+  const [showExportModal, setShowExportModal] = useState(false);
 
   const teamKey = getTeamKey();
   const opponentKey = getOpponentKey();
@@ -561,6 +567,49 @@ export const GameDataView: React.FC<GameDataViewProps> = ({
     return columnOrder.map(index => filteredData[index]).filter(Boolean);
   }, [filteredData, columnOrder]);
 
+  // Load database matches for the selected team (shot maps and heatmaps need the database match ID)
+  useEffect(() => {
+    const team = selectedTeam ? teamSlugMap.get(selectedTeam) : undefined;
+    if (!team) {
+      setTeamDbMatches([]);
+      return;
+    }
+    let cancelled = false;
+    getMatches({ teamId: team.id })
+      .then(matches => {
+        if (!cancelled) setTeamDbMatches(matches);
+      })
+      .catch(err => {
+        console.error('Failed to load matches for shot maps:', err);
+        if (!cancelled) setTeamDbMatches([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTeam, teamSlugMap]);
+
+  // Displayed games that exist in the database (matched by date and opponent)
+  const shotMapGames = useMemo(() => {
+    if (!dateKey || teamDbMatches.length === 0) return [];
+    const games: Array<{ matchId: number; title: string }> = [];
+    reorderedData.forEach(row => {
+      const date = parseDateHelper(row[dateKey] as string | number | undefined | null);
+      const opponent = String(row[opponentKey] || '').trim().toLowerCase();
+      if (!date || !opponent) return;
+      const dateStr = dateToYYYYMMDD(date);
+      const dbMatch = teamDbMatches.find(match =>
+        match.matchDate === dateStr && match.opponentName.trim().toLowerCase() === opponent
+      );
+      if (dbMatch) {
+        games.push({
+          matchId: dbMatch.id,
+          title: `${dbMatch.opponentName} · ${formatDateWithUserPreference(date, user?.preferences)}`,
+        });
+      }
+    });
+    return games;
+  }, [reorderedData, teamDbMatches, dateKey, opponentKey, parseDateHelper, user?.preferences]);
+
   // Categorize metrics
   const categorizedMetricsRaw = useMemo(() => {
     return categorizeMetrics(columnKeys);
@@ -795,13 +844,27 @@ export const GameDataView: React.FC<GameDataViewProps> = ({
               <h1 className="text-2xl font-bold text-gray-900" data-tour="game-data-header">Game Data Dashboard</h1>
               <p className="text-sm text-gray-600 mt-1">Browse and compare individual game statistics in tabular format</p>
             </div>
-            <div className="relative">
+            <div className="relative flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setShowExportModal(true)}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+              >
+                Export
+              </button>
               <UserMenu />
             </div>
           </div>
         </div>
       </header>
 
+      <MatchExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        teamSlugMap={teamSlugMap}
+        initialTeamSlug={selectedTeam}
+      />
+
       {/* Sticky Top Control Bar */}
       <div className="bg-gray-50 border-b border-gray-200 sticky top-0 z-10 shadow-sm">
         <div className="max-w-[1600px] mx-auto px-6 py-3">
@@ -1173,6 +1236,52 @@ export const GameDataView: React.FC<GameDataViewProps> = ({
             </div>
           );
           })}
+
+          {/* Shot Maps (games with located shot events) */}
+          {shotMapGames.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div
+                className="px-8 py-4 border-b border-gray-200"
+                style={{ backgroundColor: getCategoryHeaderColor(Object.keys(categorizedMetrics).length) }}
+              >
+                <h2
+                  className={`text-xl font-semibold ${
+                    getCategoryHeaderColor(Object.keys(categorizedMetrics).length) === JOGA_COLORS.voltYellow ? 'text-gray-900' : 'text-white'
+                  }`}
+                >
+                  Shot Maps
+                </h2>
+              </div>
+              <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8">
+                {shotMapGames.map(game => (
+                  <ShotMap key={game.matchId} matchId={game.matchId} title={game.title} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Heatmaps (same games; located events of any type) */}
+          {shotMapGames.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div
+                className="px-8 py-4 border-b border-gray-200"
+                style={{ backgroundColor: getCategoryHeaderColor(Object.keys(categorizedMetrics).length + 1) }}
+              >
+                <h2
+                  className={`text-xl font-semibold ${
+                    getCategoryHeaderColor(Object.keys(categorizedMetrics).length + 1) === JOGA_COLORS.voltYellow ? 'text-gray-900' : 'text-white'
+                  }`}
+                >
+                  Heatmaps
+                </h2>
+              </div>
+              <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8">
+                {shotMapGames.map(game => (
+                  <Heatmap key={game.matchId} matchId={game.matchId} title={game.title} />
+                ))}
+              </div>
+            </div>
+          )}
         </div>
             </>
           )}
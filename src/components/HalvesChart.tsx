@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { MatchData } from '../types';
+import { JOGA_COLORS, OPPONENT_COLORS } from '../utils/colors';
+import { buildHalvesAnalysis, HalfMetricComparison, MIN_DROP_OFF_GAMES } from '../utils/halvesAnalysis';
+import { ChartExpandButton } from './ChartExpandButton';
+
+interface HalvesChartProps {
+  data: MatchData[]; // Displayed games for one team
+  columnKeys: string[];
+  onExpansionChange?: (isExpanded: boolean) => void;
+}
+
+type Side = 'team' | 'opponent';
+type View = 'change' | 'averages';
+
+const SELECT_CLASS = 'px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]';
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#111827',
+  color: '#ffffff',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  padding: '12px'
+};
+
+function formatChange(comparison: HalfMetricComparison): string {
+  const sign = comparison.change > 0 ? '+' : '';
+  return comparison.changePct !== null ? `${sign}${comparison.changePct.toFixed(1)}%` : `${sign}${comparison.change}`;
+}
+
+/**
+ * First vs second half comparison for every half-by-half metric across the displayed games:
+ * the change after the break (or both half averages) per metric, plus the metrics with a
+ * consistent second-half drop-off.
+ */
+export const HalvesChart: React.FC<HalvesChartProps> = ({ data, columnKeys, onExpansionChange }) => {
+  const [side, setSide] = useState<Side>('team');
+  const [view, setView] = useState<View>('change');
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const analysis = useMemo(() => buildHalvesAnalysis(data, columnKeys), [data, columnKeys]);
+
+  const handleExpandToggle = () => {
+    setIsExpanded(!isExpanded);
+    onExpansionChange?.(!isExpanded);
+  };
+
+  const metrics = analysis.metrics.filter(comparison => comparison.isOpponent === (side === 'opponent'));
+
+  // Percent change needs a first half to compare against
+  const changeData = metrics
+    .filter(comparison => comparison.changePct !== null)
+    .map(comparison => ({
+      name: comparison.metric,
+      'Change %': comparison.changePct,
+      worse: comparison.isOpponent ? comparison.change > 0 : comparison.change < 0,
+      comparison,
+    }));
+
+  const averagesData = metrics.map(comparison => ({
+    name: comparison.metric,
+    '1st Half': comparison.firstHalfAvg,
+    '2nd Half': comparison.secondHalfAvg,
+  }));
+
+  const halfColors = side === 'team'
+    ? [JOGA_COLORS.voltYellow, JOGA_COLORS.valorBlue]
+    : [OPPONENT_COLORS.secondary, OPPONENT_COLORS.dark];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 relative group">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-800">1st vs 2nd Half</h3>
+        <div className="flex items-center gap-2">
+          <select value={side} onChange={(e) => setSide(e.target.value as Side)} className={SELECT_CLASS}>
+            <option value="team">Team</option>
+            <option value="opponent">Opponent</option>
+          </select>
+          <select value={view} onChange={(e) => setView(e.target.value as View)} className={SELECT_CLASS}>
+            <option value="change">Change after half-time</option>
+            <option value="averages">Half averages</option>
+          </select>
+          <ChartExpandButton isExpanded={isExpanded} onToggle={handleExpandToggle} />
+        </div>
+      </div>
+
+      {analysis.games === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          No games with 1st and 2nd half stats in the current selection.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <ResponsiveContainer width="100%" height={400}>
+            {view === 'change' ? (
+              <BarChart data={changeData} margin={{ top: 5, right: 30, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} />
+                <YAxis unit="%" />
+                <ReferenceLine y={0} stroke="#374151" />
+                <Tooltip
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value: number, _name: string, item: { payload?: { comparison: HalfMetricComparison } }) => {
+                    const comparison = item.payload?.comparison;
+                    return comparison
+                      ? [`${value.toFixed(1)}% (${comparison.firstHalfAvg} → ${comparison.secondHalfAvg}, worse in ${comparison.worseGames} of ${comparison.games})`, '2nd vs 1st half']
+                      : [value, '2nd vs 1st half'];
+                  }}
+                />
+                <Bar dataKey="Change %" animationDuration={500}>
+                  {changeData.map(entry => (
+                    <Cell key={entry.name} fill={entry.worse ? JOGA_COLORS.pinkFoam : JOGA_COLORS.valorBlue} />
+                  ))}
+                </Bar>
+              </BarChart>
+            ) : (
+              <BarChart data={averagesData} margin={{ top: 5, right: 30, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <Legend verticalAlign="top" align="center" wrapperStyle={{ paddingBottom: '15px', color: '#1f2937' }} />
+                <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} />
+                <YAxis />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Bar dataKey="1st Half" fill={halfColors[0]} animationDuration={500} />
+                <Bar dataKey="2nd Half" fill={halfColors[1]} animationDuration={500} />
+              </BarChart>
+            )}
+          </ResponsiveContainer>
+          {view === 'change' && (
+            <p className="text-xs text-gray-500">
+              Pink bars are metrics that got worse after half-time (for opponent metrics, higher is worse).
+            </p>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-1">Second-half drop-offs</h4>
+            {analysis.dropOffs.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No metric is consistently worse in the second half
+                {analysis.games < MIN_DROP_OFF_GAMES ? ` (needs at least ${MIN_DROP_OFF_GAMES} games with half stats)` : ''}.
+              </p>
+            ) : (
+              <ul className="text-sm text-gray-900 space-y-1">
+                {analysis.dropOffs.map(comparison => (
+                  <li key={comparison.metric}>
+                    <span className="font-medium">{comparison.metric}</span>: {comparison.firstHalfAvg} → {comparison.secondHalfAvg} ({formatChange(comparison)}),
+                    worse in {comparison.worseGames} of {comparison.games} games
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Consistent drop-offs can point to fitness or substitution patterns. 7v7 games compare Q1+Q2 with Q3+Q4.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useCallback, useState } from 'react';
+import { getMatchHeatmap, MatchHeatmap } from '../services/matchService';
+import { JOGA_COLORS, OPPONENT_COLORS } from '../utils/colors';
+import { useAsyncData } from '../hooks/useAsyncData';
+import { PitchMarkings, PITCH_VIEWBOX_HEIGHT } from './PitchMarkings';
+
+interface HeatmapProps {
+  matchId: number;
+  title?: string;
+}
+
+type HeatmapSubject = 'joga' | 'opponent' | 'player';
+
+const GRID_OPTIONS: Array<{ label: string; columns: number; rows: number }> = [
+  { label: 'Coarse', columns: 6, rows: 4 },
+  { label: 'Medium', columns: 12, rows: 8 },
+  { label: 'Fine', columns: 24, rows: 16 },
+];
+
+const PERIODS = [
+  { period: 1, label: '1st half' },
+  { period: 2, label: '2nd half' },
+];
+
+const SELECT_CLASS = 'px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]';
+
+function formatEventType(eventType: string): string {
+  return eventType.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+/**
+ * Touch/action heatmap for a single match, for JOGA, the opponent or one player.
+ * The selected side always attacks left to right. Periods logged with the ends
+ * switched can be flipped; event types and grid resolution are selectable.
+ */
+export const Heatmap: React.FC<HeatmapProps> = ({ matchId, title }) => {
+  const [subject, setSubject] = useState<HeatmapSubject>('joga');
+  const [playerName, setPlayerName] = useState('');
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [gridIndex, setGridIndex] = useState(1);
+  const [mirrorPeriods, setMirrorPeriods] = useState<number[]>([]);
+
+  const grid = GRID_OPTIONS[gridIndex];
+  const side = subject === 'opponent' ? 'opponent' : 'joga';
+  const requestedPlayer = subject === 'player' ? playerName || undefined : undefined;
+
+  const loadHeatmap = useCallback(() => getMatchHeatmap(matchId, {
+    side,
+    playerName: requestedPlayer,
+    eventTypes,
+    columns: grid.columns,
+    rows: grid.rows,
+    mirrorPeriods,
+  }), [matchId, side, requestedPlayer, eventTypes, grid, mirrorPeriods]);
+  const { data, loading, error } = useAsyncData<MatchHeatmap>(loadHeatmap, 'Failed to load heatmap');
+
+  const toggleEventType = (eventType: string) => {
+    setEventTypes(prev => prev.includes(eventType) ? prev.filter(type => type !== eventType) : [...prev, eventType]);
+  };
+
+  const toggleMirrorPeriod = (period: number) => {
+    setMirrorPeriods(prev => prev.includes(period) ? prev.filter(p => p !== period) : [...prev, period]);
+  };
+
+  const fill = side === 'joga' ? JOGA_COLORS.voltYellow : OPPONENT_COLORS.light;
+  const cellWidth = data ? 100 / data.columns : 0;
+  const cellHeight = data ? PITCH_VIEWBOX_HEIGHT / data.rows : 0;
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-baseline justify-between mb-2">
+        {title && <h3 className="text-sm font-semibold text-gray-900">{title}</h3>}
+        {data && data.events > 0 && (
+          <span className="text-xs text-gray-600">{data.events} event{data.events === 1 ? '' : 's'}</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={subject}
+          onChange={(e) => {
+            setSubject(e.target.value as HeatmapSubject);
+            setEventTypes([]);
+          }}
+          className={SELECT_CLASS}
+        >
+          <option value="joga">JOGA</option>
+          <option value="opponent">Opponent</option>
+          <option value="player">Player</option>
+        </select>
+        {subject === 'player' && (
+          <select value={playerName} onChange={(e) => setPlayerName(e.target.value)} className={SELECT_CLASS}>
+            <option value="">Select player...</option>
+            {(data?.playerNames || []).map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        )}
+        <select value={gridIndex} onChange={(e) => setGridIndex(parseInt(e.target.value))} className={SELECT_CLASS}>
+          {GRID_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label} grid ({option.columns}×{option.rows})</option>
+          ))}
+        </select>
+        {PERIODS.map(({ period, label }) => (
+          <label key={period} className="flex items-center gap-1 text-xs text-gray-600" title="For events logged with the ends switched">
+            <input
+              type="checkbox"
+              checked={mirrorPeriods.includes(period)}
+              onChange={() => toggleMirrorPeriod(period)}
+            />
+            Flip {label}
+          </label>
+        ))}
+      </div>
+
+      {data && data.eventTypes.length > 1 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {data.eventTypes.map(eventType => (
+            <button
+              key={eventType}
+              onClick={() => toggleEventType(eventType)}
+              className={`px-2 py-0.5 text-xs rounded-full border ${
+                eventTypes.includes(eventType) ? 'border-gray-900 text-black' : 'border-gray-300 text-gray-600 bg-white'
+              }`}
+              style={eventTypes.includes(eventType) ? { backgroundColor: JOGA_COLORS.voltYellow } : undefined}
+            >
+              {formatEventType(eventType)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading && !data ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500">Loading heatmap...</div>
+      ) : error ? (
+        <div className="h-40 flex items-center justify-center text-sm text-red-600">{error}</div>
+      ) : subject === 'player' && !playerName ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          {data && data.playerNames.length === 0 ? 'No events with a player logged for this match.' : 'Select a player.'}
+        </div>
+      ) : !data || data.events === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          No event locations logged for this selection.
+        </div>
+      ) : (
+        <>
+          <svg viewBox={`0 0 100 ${PITCH_VIEWBOX_HEIGHT}`} className={`w-full rounded-lg ${loading ? 'opacity-60' : ''}`}>
+            <PitchMarkings />
+            {data.cells.map((row, rowIndex) => row.map((count, columnIndex) => count > 0 && (
+              <rect
+                key={`${rowIndex}-${columnIndex}`}
+                x={columnIndex * cellWidth}
+                y={rowIndex * cellHeight}
+                width={cellWidth}
+                height={cellHeight}
+                fill={fill}
+                fillOpacity={0.15 + (count / data.max) * 0.7}
+              >
+                <title>{`${count} event${count === 1 ? '' : 's'}`}</title>
+              </rect>
+            )))}
+          </svg>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-600">
+            {data.thirds && (
+              <span>
+                Def <span className="font-semibold text-gray-900">{data.thirds.def}%</span>
+                {' · '}Mid <span className="font-semibold text-gray-900">{data.thirds.mid}%</span>
+                {' · '}Att <span className="font-semibold text-gray-900">{data.thirds.att}%</span>
+              </span>
+            )}
+            <span className="text-gray-400">Attacking left to right</span>
+          </div>
+          {data.eventsWithoutLocation > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              {data.eventsWithoutLocation} event{data.eventsWithoutLocation === 1 ? '' : 's'} without a location not shown.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,767 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Match,
+  getMatches,
+  createGameEventsBulk,
+  deleteGameEvent,
+  updateGameEvent,
+  CreateGameEventData,
+  SetPieceDelivery,
+  SetPieceOutcome,
+  SetPieceSide,
+} from '../services/matchService';
+import { Player, formatPlayerLabel, getTeamRoster } from '../services/playerService';
+import { getViewScopedStorageKey } from '../hooks/useLocalStorageState';
+import { JOGA_COLORS, OPPONENT_COLORS } from '../utils/colors';
+import { UserMenu } from './UserMenu';
+import { PitchMarkings, PITCH_VIEWBOX_HEIGHT } from './PitchMarkings';
+
+/**
+ * One-tap event buttons shown for both JOGA and the opponent
+ */
+const TAG_BUTTONS: Array<{ eventType: string; label: string; eventCategory: string }> = [
+  { eventType: 'shot', label: 'Shot', eventCategory: 'attack' },
+  { eventType: 'goal', label: 'Goal', eventCategory: 'attack' },
+  { eventType: 'corner', label: 'Corner', eventCategory: 'set_piece' },
+  { eventType: 'free_kick', label: 'Free Kick', eventCategory: 'set_piece' },
+  { eventType: 'turnover', label: 'Turnover', eventCategory: 'possession' },
+];
+
+const EVENT_LABELS: Record<string, string> = Object.fromEntries(
+  TAG_BUTTONS.map(button => [button.eventType, button.label])
+);
+
+const SET_PIECE_EVENT_TYPES = TAG_BUTTONS
+  .filter(button => button.eventCategory === 'set_piece')
+  .map(button => button.eventType);
+
+/**
+ * Optional set-piece details: side and delivery are picked before the tap,
+ * the outcome once the set piece has played out
+ */
+const SET_PIECE_SIDES: Array<{ value: SetPieceSide; label: string }> = [
+  { value: 'left', label: 'Left' },
+  { value: 'central', label: 'Central' },
+  { value: 'right', label: 'Right' },
+];
+
+const SET_PIECE_DELIVERIES: Array<{ value: SetPieceDelivery; label: string }> = [
+  { value: 'inswinger', label: 'Inswinger' },
+  { value: 'outswinger', label: 'Outswinger' },
+  { value: 'driven', label: 'Driven' },
+  { value: 'short', label: 'Short' },
+  { value: 'direct', label: 'Direct' },
+];
+
+const SET_PIECE_OUTCOMES: Array<{ value: SetPieceOutcome; label: string }> = [
+  { value: 'goal', label: 'Goal' },
+  { value: 'shot', label: 'Shot' },
+  { value: 'cleared', label: 'Cleared' },
+  { value: 'retained', label: 'Retained' },
+];
+
+const OUTCOME_LABELS: Record<string, string> = Object.fromEntries(
+  SET_PIECE_OUTCOMES.map(outcome => [outcome.value, outcome.label])
+);
+
+// Delay before pending taps are sent, so quick bursts go out in one bulk request
+const SYNC_DELAY_MS = 1500;
+
+interface ClockState {
+  period: number;
+  // Seconds accumulated while the clock was running before the current run started
+  elapsedSeconds: number;
+  // Epoch ms when the clock was last started (null while paused)
+  startedAt: number | null;
+}
+
+type TapStatus = 'pending' | 'syncing' | 'synced' | 'failed';
+
+interface QueuedTap {
+  localId: string;
+  payload: CreateGameEventData;
+  status: TapStatus;
+  serverId?: number;
+  error?: string;
+}
+
+const DEFAULT_CLOCK: ClockState = { period: 1, elapsedSeconds: 0, startedAt: null };
+
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeStorage(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error('Error saving to localStorage:', error);
+  }
+}
+
+function getClockSeconds(clock: ClockState, now: number): number {
+  const running = clock.startedAt !== null ? Math.floor((now - clock.startedAt) / 1000) : 0;
+  return clock.elapsedSeconds + Math.max(0, running);
+}
+
+function formatClock(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)) * 10) / 10;
+}
+
+/**
+ * Pitch used to tap an optional event location.
+ * Coordinates are percentages (0-100) of pitch length (x) and width (y),
+ * with JOGA attacking left to right (x = 100 is the goal JOGA attacks).
+ */
+const TaggingPitch: React.FC<{
+  location: { x: number; y: number } | null;
+  onSelect: (location: { x: number; y: number }) => void;
+}> = ({ location, onSelect }) => {
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSelect({
+      x: roundCoordinate(((e.clientX - rect.left) / rect.width) * 100),
+      y: roundCoordinate(((e.clientY - rect.top) / rect.height) * 100),
+    });
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 100 ${PITCH_VIEWBOX_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-48 rounded-lg cursor-crosshair select-none touch-manipulation"
+      onClick={handleClick}
+    >
+      <PitchMarkings />
+      {location && (
+        <circle
+          cx={location.x}
+          cy={(location.y / 100) * PITCH_VIEWBOX_HEIGHT}
+          r="1.8"
+          fill={JOGA_COLORS.voltYellow}
+          stroke="#000000"
+          strokeWidth="0.4"
+        />
+      )}
+    </svg>
+  );
+};
+
+export const LiveTaggingView: React.FC = () => {
+  const { user } = useAuth();
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [loadingMatches, setLoadingMatches] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const matchStorageKey = getViewScopedStorageKey('live-tagging', 'matchId');
+  const [selectedMatchId, setSelectedMatchId] = useState<number | null>(() => readStorage<number | null>(matchStorageKey, null));
+
+  const [clock, setClock] = useState<ClockState>(DEFAULT_CLOCK);
+  const [queue, setQueue] = useState<QueuedTap[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [pendingLocation, setPendingLocation] = useState<{ x: number; y: number } | null>(null);
+  const [roster, setRoster] = useState<Player[]>([]);
+  const [pendingPlayer, setPendingPlayer] = useState<Player | null>(null);
+  const [pendingSetPiece, setPendingSetPiece] = useState<{ side?: SetPieceSide; delivery?: SetPieceDelivery }>({});
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [isSavingOutcome, setIsSavingOutcome] = useState(false);
+  const isSyncingRef = useRef(false);
+
+  const clockKey = selectedMatchId ? getViewScopedStorageKey('live-tagging', `clock.${selectedMatchId}`) : null;
+  const queueKey = selectedMatchId ? getViewScopedStorageKey('live-tagging', `queue.${selectedMatchId}`) : null;
+
+  // Load matches the user can tag
+  useEffect(() => {
+    const loadMatches = async () => {
+      setLoadingMatches(true);
+      try {
+        const allMatches = await getMatches();
+        setMatches(allMatches);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load matches');
+      } finally {
+        setLoadingMatches(false);
+      }
+    };
+    loadMatches();
+  }, []);
+
+  // Restore clock and queued taps for the selected match (survives refreshes and dropped connections)
+  useEffect(() => {
+    writeStorage(matchStorageKey, selectedMatchId);
+    if (!clockKey || !queueKey) {
+      setClock(DEFAULT_CLOCK);
+      setQueue([]);
+      return;
+    }
+    setClock(readStorage<ClockState>(clockKey, DEFAULT_CLOCK));
+    // Anything that was mid-sync when the page closed is retried
+    setQueue(readStorage<QueuedTap[]>(queueKey, []).map(tap =>
+      tap.status === 'syncing' ? { ...tap, status: 'pending' } : tap
+    ));
+    setPendingLocation(null);
+    setPendingPlayer(null);
+    setPendingSetPiece({});
+  }, [matchStorageKey, selectedMatchId, clockKey, queueKey]);
+
+  useEffect(() => {
+    if (clockKey) writeStorage(clockKey, clock);
+  }, [clockKey, clock]);
+
+  useEffect(() => {
+    if (queueKey) writeStorage(queueKey, queue);
+  }, [queueKey, queue]);
+
+  // Tick the clock display while running
+  useEffect(() => {
+    if (clock.startedAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [clock.startedAt]);
+
+  const selectedTeamId = matches.find(match => match.id === selectedMatchId)?.teamId ?? null;
+
+  // Roster of the selected match's team, for attributing JOGA events to players
+  useEffect(() => {
+    setRoster([]);
+    if (!selectedTeamId) return;
+    getTeamRoster(selectedTeamId)
+      .then(setRoster)
+      .catch(() => setRoster([]));
+  }, [selectedTeamId]);
+
+  const clockSeconds = getClockSeconds(clock, now);
+  const isRunning = clock.startedAt !== null;
+
+  const syncQueue = useCallback(async () => {
+    if (!selectedMatchId || isSyncingRef.current) return;
+    const toSync = queue.filter(tap => tap.status === 'pending');
+    if (toSync.length === 0) return;
+
+    isSyncingRef.current = true;
+    const syncingIds = new Set(toSync.map(tap => tap.localId));
+    setQueue(prev => prev.map(tap => syncingIds.has(tap.localId) ? { ...tap, status: 'syncing' } : tap));
+
+    try {
+      const created = await createGameEventsBulk(selectedMatchId, toSync.map(tap => tap.payload));
+      const serverIds = new Map(toSync.map((tap, index) => [tap.localId, created[index]?.id]));
+      setQueue(prev => prev.map(tap =>
+        syncingIds.has(tap.localId)
+          ? { ...tap, status: 'synced', serverId: serverIds.get(tap.localId), error: undefined }
+          : tap
+      ));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to sync events';
+      setQueue(prev => prev.map(tap =>
+        syncingIds.has(tap.localId) ? { ...tap, status: 'failed', error: message } : tap
+      ));
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [selectedMatchId, queue]);
+
+  // Send pending taps shortly after they are queued
+  useEffect(() => {
+    if (!queue.some(tap => tap.status === 'pending')) return;
+    const timeoutId = setTimeout(syncQueue, SYNC_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [queue, syncQueue]);
+
+  const retryFailed = useCallback(() => {
+    setQueue(prev => prev.map(tap => tap.status === 'failed' ? { ...tap, status: 'pending', error: undefined } : tap));
+  }, []);
+
+  // Retry automatically when the tablet comes back online
+  useEffect(() => {
+    window.addEventListener('online', retryFailed);
+    return () => window.removeEventListener('online', retryFailed);
+  }, [retryFailed]);
+
+  const handleStartPause = () => {
+    const current = Date.now();
+    setNow(current);
+    setClock(prev => prev.startedAt !== null
+      ? { ...prev, elapsedSeconds: getClockSeconds(prev, current), startedAt: null }
+      : { ...prev, startedAt: current }
+    );
+  };
+
+  const handleEndPeriod = () => {
+    const current = Date.now();
+    setNow(current);
+    setClock(prev => ({
+      period: prev.period + 1,
+      elapsedSeconds: getClockSeconds(prev, current),
+      startedAt: null,
+    }));
+  };
+
+  const handlePeriodChange = (delta: number) => {
+    setClock(prev => ({ ...prev, period: Math.max(1, prev.period + delta) }));
+  };
+
+  const handleResetClock = () => {
+    if (!window.confirm('Reset the match clock to 00:00 and period 1?')) return;
+    setNow(Date.now());
+    setClock(DEFAULT_CLOCK);
+  };
+
+  const handleTap = (button: typeof TAG_BUTTONS[number], isJogaTeam: boolean) => {
+    if (!selectedMatchId) return;
+    const seconds = getClockSeconds(clock, Date.now());
+    const payload: CreateGameEventData = {
+      eventType: button.eventType,
+      eventCategory: button.eventCategory,
+      timestamp: seconds,
+      period: clock.period,
+      minute: Math.floor(seconds / 60),
+      second: seconds % 60,
+      isJogaTeam,
+      xCoordinate: pendingLocation?.x ?? null,
+      yCoordinate: pendingLocation?.y ?? null,
+    };
+    // The selected player only applies to JOGA events
+    if (isJogaTeam && pendingPlayer) {
+      payload.playerId = pendingPlayer.id;
+      payload.playerName = pendingPlayer.name;
+    }
+    const isSetPiece = SET_PIECE_EVENT_TYPES.includes(button.eventType);
+    if (isSetPiece && (pendingSetPiece.side || pendingSetPiece.delivery)) {
+      payload.eventData = { ...pendingSetPiece };
+    }
+    setQueue(prev => [...prev, {
+      localId: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      payload,
+      status: 'pending',
+    }]);
+    setPendingLocation(null);
+    if (isJogaTeam) setPendingPlayer(null);
+    if (isSetPiece) setPendingSetPiece({});
+  };
+
+  const lastTap = queue.length > 0 ? queue[queue.length - 1] : null;
+  const lastSetPiece = useMemo(
+    () => [...queue].reverse().find(tap => SET_PIECE_EVENT_TYPES.includes(tap.payload.eventType)) || null,
+    [queue]
+  );
+
+  // Record how the last set piece played out (updates the saved event once it has synced)
+  const handleSetPieceOutcome = async (outcome: SetPieceOutcome) => {
+    if (!lastSetPiece || !selectedMatchId || lastSetPiece.status === 'syncing') return;
+    const eventData = { ...(lastSetPiece.payload.eventData || {}), outcome };
+    setError(null);
+    if (lastSetPiece.status === 'synced' && lastSetPiece.serverId) {
+      setIsSavingOutcome(true);
+      try {
+        await updateGameEvent(selectedMatchId, lastSetPiece.serverId, { eventData });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save set piece outcome');
+        setIsSavingOutcome(false);
+        return;
+      }
+      setIsSavingOutcome(false);
+    }
+    setQueue(prev => prev.map(tap =>
+      tap.localId === lastSetPiece.localId ? { ...tap, payload: { ...tap.payload, eventData } } : tap
+    ));
+  };
+
+  const handleUndo = async () => {
+    if (!lastTap || !selectedMatchId || lastTap.status === 'syncing') return;
+    setError(null);
+    if (lastTap.status === 'synced' && lastTap.serverId) {
+      setIsUndoing(true);
+      try {
+        await deleteGameEvent(selectedMatchId, lastTap.serverId);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to undo last event');
+        setIsUndoing(false);
+        return;
+      }
+      setIsUndoing(false);
+    }
+    setQueue(prev => prev.filter(tap => tap.localId !== lastTap.localId));
+  };
+
+  const handleClearSynced = () => {
+    setQueue(prev => prev.filter(tap => tap.status !== 'synced'));
+  };
+
+  const sortedMatches = useMemo(
+    () => [...matches].sort((a, b) => (b.matchDate || '').localeCompare(a.matchDate || '')),
+    [matches]
+  );
+  const selectedMatch = matches.find(match => match.id === selectedMatchId) || null;
+
+  const counts = useMemo(() => {
+    const result: Record<string, { joga: number; opponent: number }> = {};
+    TAG_BUTTONS.forEach(button => {
+      result[button.eventType] = { joga: 0, opponent: 0 };
+    });
+    queue.forEach(tap => {
+      const entry = result[tap.payload.eventType];
+      if (entry) {
+        if (tap.payload.isJogaTeam) entry.joga += 1;
+        else entry.opponent += 1;
+      }
+    });
+    return result;
+  }, [queue]);
+
+  const unsyncedCount = queue.filter(tap => tap.status !== 'synced').length;
+  const failedTap = queue.find(tap => tap.status === 'failed');
+
+  const header = (
+    <header className="bg-white shadow-sm border-b border-gray-200 relative">
+      <div className="px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Live Tagging</h1>
+            <p className="text-sm text-gray-600 mt-1">Tag match events from the sideline. Taps are saved on this device and synced automatically.</p>
+          </div>
+          <div className="relative">
+            <UserMenu />
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+
+  if (!user || (user.role !== 'admin' && user.role !== 'coach')) {
+    return (
+      <>
+        {header}
+        <div className="bg-white rounded-lg shadow p-6 m-6">
+          <p className="text-gray-600">You must be a coach or admin to tag match events.</p>
+        </div>
+      </>
+    );
+  }
+
+  const renderTeamButtons = (isJogaTeam: boolean) => (
+    <div className="flex flex-col gap-3">
+      <div className="text-center text-sm font-semibold uppercase tracking-wide text-gray-700">
+        {isJogaTeam ? 'JOGA' : selectedMatch?.opponentName || 'Opponent'}
+      </div>
+      {TAG_BUTTONS.map(button => {
+        const count = counts[button.eventType][isJogaTeam ? 'joga' : 'opponent'];
+        return (
+          <button
+            key={button.eventType}
+            onClick={() => handleTap(button, isJogaTeam)}
+            disabled={!selectedMatchId}
+            className="h-20 rounded-xl text-xl font-bold shadow active:scale-95 transition-transform disabled:opacity-40 touch-manipulation flex items-center justify-between px-5"
+            style={isJogaTeam
+              ? { backgroundColor: JOGA_COLORS.voltYellow, color: '#000000' }
+              : { backgroundColor: OPPONENT_COLORS.dark, color: '#ffffff' }}
+          >
+            <span>{button.label}</span>
+            <span className="text-base font-semibold opacity-70">{count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <>
+      {header}
+
+      <div className="flex-1 overflow-y-auto p-4 bg-gray-50">
+        <div className="max-w-5xl mx-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {/* Match selection */}
+          <div className="bg-white rounded-lg shadow p-4">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Match</label>
+            <select
+              value={selectedMatchId || ''}
+              onChange={(e) => setSelectedMatchId(e.target.value ? parseInt(e.target.value) : null)}
+              className="w-full px-3 py-2 text-base border-2 border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]"
+              disabled={loadingMatches}
+            >
+              <option value="">{loadingMatches ? 'Loading matches...' : 'Select match...'}</option>
+              {sortedMatches.map(match => (
+                <option key={match.id} value={match.id}>
+                  {match.matchDate} vs {match.opponentName}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selectedMatchId && (
+            <>
+              {/* Clock and period control */}
+              <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => handlePeriodChange(-1)}
+                    className="w-10 h-10 rounded-lg bg-gray-100 text-xl font-bold text-gray-700 hover:bg-gray-200"
+                    title="Previous period"
+                  >
+                    −
+                  </button>
+                  <div className="text-center">
+                    <div className="text-xs font-medium text-gray-500 uppercase">Period</div>
+                    <div className="text-2xl font-bold text-gray-900">{clock.period}</div>
+                  </div>
+                  <button
+                    onClick={() => handlePeriodChange(1)}
+                    className="w-10 h-10 rounded-lg bg-gray-100 text-xl font-bold text-gray-700 hover:bg-gray-200"
+                    title="Next period"
+                  >
+                    +
+                  </button>
+                </div>
+                <div className="text-5xl font-mono font-bold text-gray-900 tabular-nums">{formatClock(clockSeconds)}</div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleStartPause}
+                    className="px-5 h-12 rounded-lg font-semibold text-white"
+                    style={{ backgroundColor: isRunning ? OPPONENT_COLORS.dark : JOGA_COLORS.valorBlue }}
+                  >
+                    {isRunning ? 'Pause' : clockSeconds > 0 ? 'Resume' : 'Start'}
+                  </button>
+                  <button
+                    onClick={handleEndPeriod}
+                    className="px-4 h-12 rounded-lg font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    End Period
+                  </button>
+                  <button
+                    onClick={handleResetClock}
+                    className="px-3 h-12 rounded-lg text-sm text-gray-500 hover:bg-gray-100"
+                  >
+                    Reset
+                  </button>
+                </div>
+              </div>
+
+              {/* Tag buttons */}
+              <div className="grid grid-cols-2 gap-4">
+                {renderTeamButtons(true)}
+                {renderTeamButtons(false)}
+              </div>
+
+              {/* Set piece details */}
+              <div className="bg-white rounded-lg shadow p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-gray-700">
+                    <span className="font-semibold">Set piece (optional):</span>{' '}
+                    pick the side and delivery before tapping Corner or Free Kick.
+                  </div>
+                  {(pendingSetPiece.side || pendingSetPiece.delivery) && (
+                    <button
+                      onClick={() => setPendingSetPiece({})}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {SET_PIECE_SIDES.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setPendingSetPiece(prev => ({ ...prev, side: prev.side === option.value ? undefined : option.value }))}
+                      className={`px-3 h-10 rounded-lg text-sm font-semibold touch-manipulation ${
+                        pendingSetPiece.side === option.value ? 'text-black' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                      style={pendingSetPiece.side === option.value ? { backgroundColor: JOGA_COLORS.voltYellow } : undefined}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <span className="w-px bg-gray-200 mx-1" />
+                  {SET_PIECE_DELIVERIES.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setPendingSetPiece(prev => ({ ...prev, delivery: prev.delivery === option.value ? undefined : option.value }))}
+                      className={`px-3 h-10 rounded-lg text-sm font-semibold touch-manipulation ${
+                        pendingSetPiece.delivery === option.value ? 'text-black' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                      style={pendingSetPiece.delivery === option.value ? { backgroundColor: JOGA_COLORS.voltYellow } : undefined}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {lastSetPiece && (
+                  <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-100">
+                    <span className="text-sm text-gray-700">
+                      Outcome of last set piece ({lastSetPiece.payload.isJogaTeam ? 'JOGA' : 'Opponent'}{' '}
+                      {EVENT_LABELS[lastSetPiece.payload.eventType]}, P{lastSetPiece.payload.period}{' '}
+                      {formatClock(lastSetPiece.payload.timestamp || 0)}):
+                    </span>
+                    {SET_PIECE_OUTCOMES.map(option => {
+                      const isSelected = lastSetPiece.payload.eventData?.outcome === option.value;
+                      return (
+                        <button
+                          key={option.value}
+                          onClick={() => handleSetPieceOutcome(option.value)}
+                          disabled={lastSetPiece.status === 'syncing' || isSavingOutcome}
+                          className={`px-3 h-10 rounded-lg text-sm font-semibold touch-manipulation disabled:opacity-40 ${
+                            isSelected ? 'text-black' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                          style={isSelected ? { backgroundColor: JOGA_COLORS.voltYellow } : undefined}
+                        >
+                          {option.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Optional player */}
+              {roster.length > 0 && (
+                <div className="bg-white rounded-lg shadow p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-sm text-gray-700">
+                      <span className="font-semibold">Player (optional):</span>{' '}
+                      {pendingPlayer
+                        ? `the next JOGA event is logged for ${formatPlayerLabel(pendingPlayer)}`
+                        : 'tap a player before a JOGA event.'}
+                    </div>
+                    {pendingPlayer && (
+                      <button
+                        onClick={() => setPendingPlayer(null)}
+                        className="text-sm text-gray-500 hover:text-gray-700"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {roster.map(player => (
+                      <button
+                        key={player.id}
+                        onClick={() => setPendingPlayer(pendingPlayer?.id === player.id ? null : player)}
+                        className={`px-3 h-10 rounded-lg text-sm font-semibold touch-manipulation ${
+                          pendingPlayer?.id === player.id ? 'text-black' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                        style={pendingPlayer?.id === player.id ? { backgroundColor: JOGA_COLORS.voltYellow } : undefined}
+                      >
+                        {formatPlayerLabel(player)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Optional location */}
+              <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-sm text-gray-700">
+                    <span className="font-semibold">Location (optional):</span>{' '}
+                    {pendingLocation
+                      ? `tap an event to log it at ${pendingLocation.x}, ${pendingLocation.y}`
+                      : 'tap the pitch before an event. JOGA attacks left to right.'}
+                  </div>
+                  {pendingLocation && (
+                    <button
+                      onClick={() => setPendingLocation(null)}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <TaggingPitch location={pendingLocation} onSelect={setPendingLocation} />
+              </div>
+
+              {/* Queue / recent taps */}
+              <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <div className="text-sm text-gray-700">
+                    {unsyncedCount === 0
+                      ? 'All events synced'
+                      : `${unsyncedCount} event${unsyncedCount === 1 ? '' : 's'} waiting to sync`}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {failedTap && (
+                      <button
+                        onClick={retryFailed}
+                        className="px-3 py-2 rounded-lg text-sm font-semibold bg-red-50 text-red-700 hover:bg-red-100"
+                      >
+                        Retry Sync
+                      </button>
+                    )}
+                    <button
+                      onClick={handleUndo}
+                      disabled={!lastTap || lastTap.status === 'syncing' || isUndoing}
+                      className="px-4 py-2 rounded-lg text-sm font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+                    >
+                      {isUndoing ? 'Undoing...' : 'Undo Last'}
+                    </button>
+                    <button
+                      onClick={handleClearSynced}
+                      disabled={!queue.some(tap => tap.status === 'synced')}
+                      className="px-3 py-2 rounded-lg text-sm text-gray-500 hover:bg-gray-100 disabled:opacity-40"
+                      title="Clear synced events from this list (they stay saved on the match)"
+                    >
+                      Clear Synced
+                    </button>
+                  </div>
+                </div>
+                {failedTap?.error && (
+                  <p className="text-xs text-red-600 mb-2">{failedTap.error}</p>
+                )}
+                {queue.length === 0 ? (
+                  <p className="text-sm text-gray-500">No events tagged yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {[...queue].reverse().slice(0, 10).map(tap => (
+                      <li key={tap.localId} className="flex items-center justify-between py-2 text-sm">
+                        <span className="text-gray-900">
+                          <span className="font-mono text-gray-500 mr-2">
+                            P{tap.payload.period} {formatClock(tap.payload.timestamp || 0)}
+                          </span>
+                          {tap.payload.isJogaTeam ? 'JOGA' : 'Opponent'} {EVENT_LABELS[tap.payload.eventType] || tap.payload.eventType}
+                          {tap.payload.playerName && (
+                            <span className="text-gray-600 ml-2">{tap.payload.playerName}</span>
+                          )}
+                          {tap.payload.eventData?.outcome && (
+                            <span className="text-gray-600 ml-2">→ {OUTCOME_LABELS[tap.payload.eventData.outcome] || tap.payload.eventData.outcome}</span>
+                          )}
+                          {tap.payload.xCoordinate != null && (
+                            <span className="text-gray-400 ml-2">@ {tap.payload.xCoordinate}, {tap.payload.yCoordinate}</span>
+                          )}
+                        </span>
+                        <span
+                          className={`text-xs font-medium ${
+                            tap.status === 'synced'
+                              ? 'text-green-600'
+                              : tap.status === 'failed'
+                              ? 'text-red-600'
+                              : 'text-gray-500'
+                          }`}
+                        >
+                          {tap.status === 'synced' ? 'Synced' : tap.status === 'failed' ? 'Failed' : tap.status === 'syncing' ? 'Syncing...' : 'Queued'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
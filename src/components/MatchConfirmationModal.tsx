@@ -1,5 +1,5 @@
-import React from 'react';
-import { PreviewMatchStatsResponse } from '../services/matchService';
+import React, { useEffect, useState } from 'react';
+import { PreviewMatchStatsResponse, StatValidationResult } from '../services/matchService';
 import { Team } from '../types/auth';
 import { normalizeFieldName } from '../utils/fieldDeduplication';
 import { JOGA_COLORS } from '../utils/colors';
@@ -9,7 +9,8 @@ interface MatchConfirmationModalProps {
   isOpen: boolean;
   previewData: PreviewMatchStatsResponse | null;
   teamSlugMap: Map<string, Team>;
-  onConfirm: () => void;
+  /** Called with whether the user acknowledged validation warnings */
+  onConfirm: (acknowledgeWarnings: boolean) => void;
   onCancel: () => void;
   isSubmitting?: boolean;
   isUpdating?: boolean;
@@ -24,9 +25,20 @@ export const MatchConfirmationModal: React.FC<MatchConfirmationModalProps> = ({
   isSubmitting = false,
   isUpdating = false,
 }) => {
+  const [warningsAcknowledged, setWarningsAcknowledged] = useState(false);
+
+  // Each preview needs its own acknowledgement
+  useEffect(() => {
+    setWarningsAcknowledged(false);
+  }, [previewData]);
+
   if (!isOpen || !previewData) return null;
 
   const { gameInfo, rawStats } = previewData;
+  const validation = previewData.validation || [];
+  const validationErrors = validation.filter(result => result.severity === 'error');
+  const validationWarnings = validation.filter(result => result.severity === 'warning');
+  const canConfirm = validationErrors.length === 0 && (validationWarnings.length === 0 || warningsAcknowledged);
 
   // Get team name
   const teamName = gameInfo.teamId
@@ -110,6 +122,13 @@ export const MatchConfirmationModal: React.FC<MatchConfirmationModalProps> = ({
     return String(value);
   };
 
+  const renderValidationResult = (result: StatValidationResult) => (
+    <li key={result.ruleId}>
+      {result.message}{' '}
+      <span className="opacity-75">({formatValue(result.leftValue)} vs {formatValue(result.rightValue)})</span>
+    </li>
+  );
+
   const renderSection = (title: string, data: Record<string, any>) => {
     if (Object.keys(data).length === 0) return null;
     
@@ -161,6 +180,35 @@ export const MatchConfirmationModal: React.FC<MatchConfirmationModalProps> = ({
               </p>
             </div>
           )}
+          {validationErrors.length > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded">
+              <p className="text-sm font-semibold text-red-800 mb-1">
+                Fix these before saving:
+              </p>
+              <ul className="list-disc list-inside text-sm text-red-800 space-y-1">
+                {validationErrors.map(renderValidationResult)}
+              </ul>
+            </div>
+          )}
+          {validationWarnings.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded">
+              <p className="text-sm font-semibold text-amber-800 mb-1">
+                Please check:
+              </p>
+              <ul className="list-disc list-inside text-sm text-amber-800 space-y-1">
+                {validationWarnings.map(renderValidationResult)}
+              </ul>
+              <label className="mt-2 flex items-center gap-2 text-sm text-amber-900">
+                <input
+                  type="checkbox"
+                  checked={warningsAcknowledged}
+                  onChange={(e) => setWarningsAcknowledged(e.target.checked)}
+                  disabled={isSubmitting}
+                />
+                These values are correct, save anyway
+              </label>
+            </div>
+          )}
           {/* Game Info */}
           <div className="mb-6">
             <h3 className="text-lg font-semibold text-gray-800 mb-3 border-b border-gray-300 pb-2">
@@ -234,20 +282,20 @@ export const MatchConfirmationModal: React.FC<MatchConfirmationModalProps> = ({
             Cancel
           </button>
           <button
-            onClick={onConfirm}
-            disabled={isSubmitting}
+            onClick={() => onConfirm(warningsAcknowledged)}
+            disabled={isSubmitting || !canConfirm}
             className="px-4 py-2 rounded-md text-black font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             style={{
-              backgroundColor: isSubmitting ? '#9ca3af' : JOGA_COLORS.voltYellow,
+              backgroundColor: isSubmitting || !canConfirm ? '#9ca3af' : JOGA_COLORS.voltYellow,
               border: `2px solid ${JOGA_COLORS.voltYellow}`,
             }}
             onMouseEnter={(e) => {
-              if (!isSubmitting) {
+              if (!isSubmitting && canConfirm) {
                 e.currentTarget.style.backgroundColor = '#b8e600';
               }
             }}
             onMouseLeave={(e) => {
-              if (!isSubmitting) {
+              if (!isSubmitting && canConfirm) {
                 e.currentTarget.style.backgroundColor = JOGA_COLORS.voltYellow;
               }
             }}
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Match, getMatchById, getMatches, updateMatch, MatchFilters } from '../services/matchService';
+import { Match, getMatchById, getMatches, updateMatch, previewMatchStats, MatchFilters } from '../services/matchService';
 import { getAllTeams } from '../services/teamService';
 import { getAllSeasons } from '../services/seasonService';
+import { Competition, getCompetitions } from '../services/competitionService';
 import { Team, Season } from '../types/auth';
 import { JOGA_COLORS } from '../utils/colors';
 import { dateToYYYYMMDD } from '../utils/dateFormatting';
@@ -11,6 +12,17 @@ import { extractStatsFromImage } from '../services/ocrService';
 import { UserMenu } from './UserMenu';
 import { MultiSelectDropdown } from './MultiSelectDropdown';
 import { Modal } from './Modal';
+import { MatchRevisionHistory } from './MatchRevisionHistory';
+import { MatchLineupEditor } from './MatchLineupEditor';
+import {
+  MATCH_FORMATS,
+  MATCH_FORMAT_DEFAULTS,
+  MatchFormat,
+  expandPeriodCategories,
+  formatMatchFormatLabel,
+  getPeriodCategories,
+  getPeriodCount,
+} from '../utils/matchFormats';
 
 interface MatchEditorViewProps {
   columnKeys: string[];
@@ -20,6 +32,7 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
   const { user } = useAuth();
   const [teams, setTeams] = useState<Team[]>([]);
   const [seasons, setSeasons] = useState<Season[]>([]);
+  const [competitions, setCompetitions] = useState<Competition[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -44,8 +57,10 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
   const [editedOpponentName, setEditedOpponentName] = useState<string>('');
   const [editedMatchDate, setEditedMatchDate] = useState<string>('');
   const [editedCompetitionType, setEditedCompetitionType] = useState<string>('');
+  const [editedCompetitionId, setEditedCompetitionId] = useState<string>('');
   const [editedResult, setEditedResult] = useState<string>('');
   const [editedIsHome, setEditedIsHome] = useState<string>('');
+  const [editedFormat, setEditedFormat] = useState<MatchFormat | ''>('');
   const [editedNotes, setEditedNotes] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
   
@@ -62,12 +77,14 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [allTeams, allSeasons] = await Promise.all([
+        const [allTeams, allSeasons, allCompetitions] = await Promise.all([
           getAllTeams(),
           getAllSeasons(),
+          getCompetitions(),
         ]);
         setTeams(allTeams);
         setSeasons(allSeasons);
+        setCompetitions(allCompetitions);
         
         // Set active season as default
         const activeSeason = allSeasons.find(s => s.isActive) || allSeasons[0];
@@ -352,6 +369,8 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
     'penalty for', 'penalty against',
     'penalty', 'penalties',
     'result',
+    // Defense - derived from the defensive half fields
+    'defensive actions', 'opp passes per defensive action', 'save %', 'opp entry attempt %',
   ];
 
   // Fields to exclude (matching Upload Game Data)
@@ -445,7 +464,8 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
     'penalty', 'penalties',
     'possession minutes', 'possession mins', // Specific: possession minutes
     'possession won', // Specific: possession won
-    'throw-in', 'throw in'
+    'throw-in', 'throw in',
+    'tackle', 'interception', 'clearance', 'block', 'recover', 'save', 'final third entries'
   ];
 
   // Sort fields within Basic Stats category (matching Upload Game Data)
@@ -691,6 +711,7 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
 
   // Required fields that should always be shown (matching Upload Game Data)
   const requiredFields = [
+    'Match Duration',
     'Possession Mins (1st)',
     'Possession Mins (2nd)',
     'Opp Possession Mins (1st)',
@@ -699,10 +720,24 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
     'Throw-in (2nd)',
     'Opp Throw-in (1st)',
     'Opp Throw-in (2nd)',
+    'Tackles (1st)',
+    'Tackles (2nd)',
+    'Interceptions (1st)',
+    'Interceptions (2nd)',
+    'Clearances (1st)',
+    'Clearances (2nd)',
+    'Blocks (1st)',
+    'Blocks (2nd)',
+    'Recoveries (1st)',
+    'Recoveries (2nd)',
+    'Saves (1st)',
+    'Saves (2nd)',
+    'Opp Final Third Entries (1st)',
+    'Opp Final Third Entries (2nd)',
   ];
 
   // Build formFields structure exactly like Upload Game Data (matching structure and ordering)
-  const formFields = useMemo(() => {
+  const halvesFormFields = useMemo(() => {
     const seenNormalized = new Set<string>();
     
     // Start with fields from columnKeys (matching Upload Game Data logic)
@@ -858,6 +893,13 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
     return grouped;
   }, [selectedMatch, columnKeys]);
 
+  // Matches without a format keep the halves sections; 7v7 matches get one section per quarter
+  const periodCount = getPeriodCount(editedFormat || null);
+  const formFields = useMemo(
+    () => expandPeriodCategories(halvesFormFields, periodCount),
+    [halvesFormFields, periodCount]
+  );
+
 
   // Scroll to top when success message appears
   useEffect(() => {
@@ -877,8 +919,10 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
       // Parse date string directly without timezone conversion
       setEditedMatchDate(selectedMatch.matchDate ? parseDateString(selectedMatch.matchDate) : '');
       setEditedCompetitionType(selectedMatch.competitionType || '');
+      setEditedCompetitionId(selectedMatch.competitionId?.toString() || '');
       setEditedResult(selectedMatch.result || '');
       setEditedIsHome(selectedMatch.isHome !== null && selectedMatch.isHome !== undefined ? (selectedMatch.isHome ? 'true' : 'false') : '');
+      setEditedFormat(selectedMatch.format || '');
       setEditedNotes(selectedMatch.notes || '');
       
       // Load stats
@@ -911,8 +955,7 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
   // Category order (matching UploadGameDataView - no 'Other' category)
   const categoryOrder = [
     'Game Info',
-    'Basic Stats (1st Half)',
-    'Basic Stats (2nd Half)',
+    ...getPeriodCategories(periodCount),
     'Shots Map',
     'Possession Location',
     'Pass Location',
@@ -1137,16 +1180,34 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
     setSuccess(null);
     
     try {
-      await updateMatch(selectedMatch.id, {
+      const matchData = {
         teamId: editedTeamId ? parseInt(editedTeamId) : null,
         opponentName: editedOpponentName.trim(),
         matchDate: editedMatchDate,
         competitionType: editedCompetitionType.trim() || null,
+        competitionId: editedCompetitionId ? parseInt(editedCompetitionId) : null,
         result: editedResult.trim() || null,
         isHome: editedIsHome === '' ? null : editedIsHome === 'true',
+        format: editedFormat || null,
         notes: editedNotes.trim() || null,
         rawStats: editedStats, // Include stats in update
-      });
+      };
+
+      // Check the edited stats against the club's validation rules first
+      const { validation } = await previewMatchStats(matchData, selectedMatch.id);
+      const validationErrors = validation.filter(result => result.severity === 'error');
+      if (validationErrors.length > 0) {
+        setError(`Fix these before saving: ${validationErrors.map(result => result.message).join('; ')}`);
+        return;
+      }
+      const acknowledgeWarnings = validation.length > 0;
+      if (acknowledgeWarnings && !window.confirm(
+        `Please check:\n${validation.map(result => `• ${result.message}`).join('\n')}\n\nSave anyway?`
+      )) {
+        return;
+      }
+
+      await updateMatch(selectedMatch.id, { ...matchData, acknowledgeWarnings });
       
       // Reload the match to get updated data
       const updatedMatch = await getMatchById(selectedMatch.id);
@@ -1662,11 +1723,62 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
                                 </div>
                               );
                             })}
+                            {competitions.length > 0 && (
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Competition
+                                </label>
+                                <select
+                                  value={editedCompetitionId}
+                                  onChange={(e) => setEditedCompetitionId(e.target.value)}
+                                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black text-black"
+                                >
+                                  <option value="">Not linked</option>
+                                  {competitions.map(competition => (
+                                    <option key={competition.id} value={competition.id}>
+                                      {competition.name}{competition.seasonName ? ` (${competition.seasonName})` : ''}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            )}
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Format
+                              </label>
+                              <select
+                                value={editedFormat}
+                                onChange={(e) => setEditedFormat(e.target.value as MatchFormat | '')}
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black text-black"
+                              >
+                                <option value="">Not Set (halves)</option>
+                                {MATCH_FORMATS.map(format => (
+                                  <option key={format} value={format}>{formatMatchFormatLabel(format)}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Match Duration
+                              </label>
+                              <input
+                                type="number"
+                                step="any"
+                                min="0"
+                                value={editedStats['Match Duration'] ?? ''}
+                                onChange={(e) => {
+                                  const val = e.target.value === '' ? '' : parseFloat(e.target.value);
+                                  setEditedStats(prev => ({ ...prev, 'Match Duration': val }));
+                                }}
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black text-black"
+                                placeholder={editedFormat ? String(MATCH_FORMAT_DEFAULTS[editedFormat].durationMinutes) : 'Minutes'}
+                              />
+                            </div>
                           </div>
                         ) : (
                           // Stats sections - use renderFieldsWithSubsections for Basic Stats, Pass Strings, Shots Map
                           // For other categories, render directly
-                          (category === 'Basic Stats (1st Half)' || category === 'Basic Stats (2nd Half)' || 
+                          (category.startsWith('Basic Stats (') || 
                            category === 'Pass Strings' || category === 'Shots Map') ? (
                             renderFieldsWithSubsections(categoryFields, category)
                           ) : (
@@ -1715,10 +1827,25 @@ export const MatchEditorView: React.FC<MatchEditorViewProps> = ({ columnKeys })
                         )}
                       </div>
                     </div>
+                    {category === 'Game Info' && (
+                      <div className="mt-6">
+                        <MatchLineupEditor matchId={selectedMatch.id} teamId={selectedMatch.teamId ?? null} />
+                      </div>
+                    )}
                   </div>
                 );
             })}
             
+            <MatchRevisionHistory
+              matchId={selectedMatch.id}
+              refreshKey={new Date(selectedMatch.updatedAt).getTime()}
+              onRestored={(restoredMatch) => {
+                setSelectedMatch(restoredMatch);
+                setSearchResults(prev => prev.map(m => m.id === restoredMatch.id ? restoredMatch : m));
+                setSuccess('Match restored to the selected revision.');
+              }}
+            />
+
             {/* Save/Cancel buttons - matching UploadGameDataView style (no card, on gray background) */}
             <div className="flex justify-end gap-4 mt-6">
               <button
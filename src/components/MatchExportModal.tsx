@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { Team, Season } from '../types/auth';
+import { JOGA_COLORS } from '../utils/colors';
+import { getAllSeasons } from '../services/seasonService';
+import { exportMatches, MatchExportFormat, MatchExportColumns } from '../services/matchService';
+
+interface MatchExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teamSlugMap: Map<string, Team>;
+  initialTeamSlug?: string | null;
+}
+
+const FORMAT_OPTIONS: Array<{ value: MatchExportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'json', label: 'JSON' },
+];
+
+const COLUMN_OPTIONS: Array<{ value: MatchExportColumns; label: string; description: string }> = [
+  { value: 'both', label: 'Raw + computed', description: 'Everything entered plus derived metrics' },
+  { value: 'raw', label: 'Raw only', description: 'Stats as entered or imported' },
+  { value: 'computed', label: 'Computed only', description: 'Totals, TSR, SPI, pass share, ...' },
+];
+
+/**
+ * Download matches as CSV, XLSX or JSON.
+ * Game info columns are always included; coaches only get their assigned teams (enforced by the API).
+ */
+export const MatchExportModal: React.FC<MatchExportModalProps> = ({
+  isOpen,
+  onClose,
+  teamSlugMap,
+  initialTeamSlug,
+}) => {
+  const [teamId, setTeamId] = useState<number | null>(null);
+  const [seasonId, setSeasonId] = useState<number | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [format, setFormat] = useState<MatchExportFormat>('csv');
+  const [columns, setColumns] = useState<MatchExportColumns>('both');
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const teams = Array.from(new Map(Array.from(teamSlugMap.values()).map(team => [team.id, team])).values())
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  // Start from the team selected in the dashboard
+  useEffect(() => {
+    if (!isOpen) return;
+    setTeamId(initialTeamSlug ? teamSlugMap.get(initialTeamSlug)?.id ?? null : null);
+    setError(null);
+  }, [isOpen, initialTeamSlug, teamSlugMap]);
+
+  useEffect(() => {
+    if (!isOpen || seasons.length > 0) return;
+    getAllSeasons()
+      .then(setSeasons)
+      .catch(err => console.error('Error loading seasons:', err));
+  }, [isOpen, seasons.length]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await exportMatches(
+        {
+          teamId: teamId ?? undefined,
+          seasonId: seasonId ?? undefined,
+          startDate: startDate || undefined,
+          endDate: endDate || undefined,
+        },
+        format,
+        columns
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export matches');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClassName = 'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Matches" maxWidth="md">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700">
+            Team
+            <select
+              value={teamId ?? ''}
+              onChange={(e) => setTeamId(e.target.value ? parseInt(e.target.value) : null)}
+              className={inputClassName}
+            >
+              <option value="">All teams</option>
+              {teams.map(team => (
+                <option key={team.id} value={team.id}>{team.displayName}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Season
+            <select
+              value={seasonId ?? ''}
+              onChange={(e) => setSeasonId(e.target.value ? parseInt(e.target.value) : null)}
+              className={inputClassName}
+            >
+              <option value="">All seasons</option>
+              {seasons.map(season => (
+                <option key={season.id} value={season.id}>{season.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            From
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+          </label>
+          <label className="text-sm text-gray-700">
+            To
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+          </label>
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 mb-1">Stat columns</legend>
+          <div className="space-y-1">
+            {COLUMN_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="export-columns"
+                  checked={columns === option.value}
+                  onChange={() => setColumns(option.value)}
+                  className="mt-0.5"
+                />
+                <span>
+                  {option.label}
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Game info (team, date, opponent, result, ...) is always included.</p>
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 mb-1">Format</legend>
+          <div className="flex gap-4">
+            {FORMAT_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50"
+            style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+          >
+            {exporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { Team } from '../types/auth';
+import { JOGA_COLORS } from '../utils/colors';
+import { formatDateStringLocale } from '../utils/dateFormatting';
+import {
+  previewMatchImport,
+  commitMatchImport,
+  MatchImportPreview,
+  MatchImportRow,
+} from '../services/matchService';
+
+interface MatchImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teamSlugMap: Map<string, Team>;
+  onImported?: (created: number) => void;
+}
+
+// Rows are pre-selected when they can be imported and don't look like an existing match
+function isSelectedByDefault(row: MatchImportRow): boolean {
+  return row.errors.length === 0 && !row.duplicate && row.duplicateOfRow === null;
+}
+
+function formatStatValue(value: number | string): string {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+  return value;
+}
+
+/**
+ * Bulk match import from a CSV/XLSX spreadsheet (admin only).
+ * Shows a dry-run of every row (mapped game info, computed stats, duplicate flags)
+ * and imports only the rows the admin keeps selected.
+ */
+export const MatchImportModal: React.FC<MatchImportModalProps> = ({
+  isOpen,
+  onClose,
+  teamSlugMap,
+  onImported,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [defaultTeamId, setDefaultTeamId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<MatchImportPreview | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [expandedRow, setExpandedRow] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const teams = Array.from(new Map(Array.from(teamSlugMap.values()).map(team => [team.id, team])).values())
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  const resetPreview = () => {
+    setPreview(null);
+    setSelectedRows(new Set());
+    setExpandedRow(null);
+    setSuccessMessage(null);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setError(null);
+    resetPreview();
+    onClose();
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    resetPreview();
+    try {
+      const result = await previewMatchImport(file, defaultTeamId);
+      setPreview(result);
+      setSelectedRows(new Set(result.rows.filter(isSelectedByDefault).map(row => row.rowNumber)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview import');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || selectedRows.size === 0) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await commitMatchImport(file, {
+        teamId: defaultTeamId,
+        rowNumbers: Array.from(selectedRows).sort((a, b) => a - b),
+      });
+      setPreview(null);
+      setSelectedRows(new Set());
+      setSuccessMessage(`Imported ${result.created} match${result.created === 1 ? '' : 'es'}.`);
+      onImported?.(result.created);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import matches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const selectableRows = preview ? preview.rows.filter(row => row.errors.length === 0) : [];
+  const allSelected = selectableRows.length > 0 && selectableRows.every(row => selectedRows.has(row.rowNumber));
+
+  const toggleAll = () => {
+    setSelectedRows(allSelected ? new Set() : new Set(selectableRows.map(row => row.rowNumber)));
+  };
+
+  const renderStatus = (row: MatchImportRow) => {
+    if (row.errors.length > 0) {
+      return <span className="text-red-700">{row.errors.join('; ')}</span>;
+    }
+    const notes: React.ReactNode[] = [];
+    if (row.duplicate) {
+      notes.push(
+        <span key="duplicate" className="text-amber-700">
+          Possible duplicate of match #{row.duplicate.matchId} ({row.duplicate.opponentName})
+        </span>
+      );
+    }
+    if (row.duplicateOfRow !== null) {
+      notes.push(
+        <span key="duplicate-row" className="text-amber-700">Same match as row {row.duplicateOfRow}</span>
+      );
+    }
+    row.warnings.forEach((warning, index) => {
+      notes.push(<span key={`warning-${index}`} className="text-gray-600">{warning}</span>);
+    });
+    return notes.length > 0
+      ? <div className="flex flex-col gap-0.5">{notes}</div>
+      : <span className="text-green-700">Ready</span>;
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Matches from Spreadsheet" maxWidth="xl">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Upload a .csv or .xlsx file with one match per row. Column names follow the upload form
+          (e.g. Team, Date, Opponent, Goals For (1st Half)). Nothing is saved until you import.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col text-sm text-gray-700">
+            File
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                resetPreview();
+              }}
+              className="mt-1 text-sm"
+            />
+          </label>
+          <label className="flex flex-col text-sm text-gray-700">
+            Team for rows without a Team column
+            <select
+              value={defaultTeamId ?? ''}
+              onChange={(e) => {
+                setDefaultTeamId(e.target.value ? parseInt(e.target.value) : null);
+                resetPreview();
+              }}
+              className="mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">None</option>
+              {teams.map(team => (
+                <option key={team.id} value={team.id}>{team.displayName}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handlePreview}
+            disabled={!file || loading}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-900 text-white disabled:opacity-50"
+          >
+            {loading && !preview ? 'Reading file...' : 'Preview'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+        {successMessage && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{successMessage}</div>
+        )}
+
+        {preview && (
+          <>
+            <div className="text-sm text-gray-700">
+              {preview.summary.total} rows · {preview.summary.valid} valid · {preview.summary.invalid} with errors ·{' '}
+              {preview.summary.duplicates} possible duplicates
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2">
+                      <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all rows" />
+                    </th>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Team</th>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Opponent</th>
+                    <th className="px-3 py-2">Score</th>
+                    <th className="px-3 py-2">Result</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(row => {
+                    const { gameInfo, computedStats } = row;
+                    const hasScore = computedStats.goalsFor !== undefined && computedStats.goalsAgainst !== undefined;
+                    const isExpanded = expandedRow === row.rowNumber;
+                    return (
+                      <React.Fragment key={row.rowNumber}>
+                        <tr
+                          className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${row.errors.length > 0 ? 'bg-red-50/50' : ''}`}
+                          onClick={() => setExpandedRow(isExpanded ? null : row.rowNumber)}
+                        >
+                          <td className="px-3 py-2" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={selectedRows.has(row.rowNumber)}
+                              disabled={row.errors.length > 0}
+                              onChange={() => toggleRow(row.rowNumber)}
+                              aria-label={`Select row ${row.rowNumber}`}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                          <td className="px-3 py-2">{gameInfo.teamName || '-'}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {gameInfo.matchDate ? formatDateStringLocale(gameInfo.matchDate) : '-'}
+                          </td>
+                          <td className="px-3 py-2">{gameInfo.opponentName || '-'}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {hasScore ? `${computedStats.goalsFor} - ${computedStats.goalsAgainst}` : '-'}
+                          </td>
+                          <td className="px-3 py-2">{gameInfo.result || computedStats.result || '-'}</td>
+                          <td className="px-3 py-2 text-xs">{renderStatus(row)}</td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={8} className="px-3 py-3">
+                              <div className="text-xs font-semibold text-gray-700 mb-1">Computed stats</div>
+                              {Object.keys(computedStats).length === 0 ? (
+                                <div className="text-xs text-gray-500">No stats computed for this row.</div>
+                              ) : (
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-xs">
+                                  {Object.entries(computedStats).map(([key, value]) => (
+                                    <div key={key} className="flex justify-between gap-2">
+                                      <span className="text-gray-600">{key}</span>
+                                      <span className="font-medium text-gray-900">{formatStatValue(value)}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={loading || selectedRows.size === 0}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50"
+                style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+              >
+                {loading ? 'Importing...' : `Import ${selectedRows.size} match${selectedRows.size === 1 ? '' : 'es'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
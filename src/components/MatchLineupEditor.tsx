@@ -0,0 +1,394 @@
+import React, { useEffect, useState } from 'react';
+import { JOGA_COLORS } from '../utils/colors';
+import {
+  LineupNameSuggestion,
+  MatchLineup,
+  PlayingTimeReport,
+  deleteMatchLineup,
+  getLineupNameSuggestions,
+  getMatchLineup,
+  getPlayingTimeReport,
+  saveMatchLineup,
+} from '../services/lineupService';
+
+interface MatchLineupEditorProps {
+  matchId: number;
+  teamId: number | null;
+}
+
+interface LineupPlayerDraft {
+  playerName: string;
+  playerId: number | null;
+  isStarter: boolean;
+}
+
+interface SubstitutionDraft {
+  minute: string;
+  playerOff: string;
+  playerOn: string;
+}
+
+const DEFAULT_DURATION_MINUTES = '60';
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Starters, bench and substitutions for a match. Minutes played are worked out by the
+ * server on save; the team's season playing time (with policy alerts) is shown below.
+ */
+export const MatchLineupEditor: React.FC<MatchLineupEditorProps> = ({ matchId, teamId }) => {
+  const [lineup, setLineup] = useState<MatchLineup | null>(null);
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_DURATION_MINUTES);
+  const [players, setPlayers] = useState<LineupPlayerDraft[]>([]);
+  const [substitutions, setSubstitutions] = useState<SubstitutionDraft[]>([]);
+  const [suggestions, setSuggestions] = useState<LineupNameSuggestion[]>([]);
+  const [newPlayerName, setNewPlayerName] = useState('');
+  const [report, setReport] = useState<PlayingTimeReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const applyLineup = (saved: MatchLineup | null) => {
+    setLineup(saved);
+    setDurationMinutes(saved ? String(saved.durationMinutes) : DEFAULT_DURATION_MINUTES);
+    setPlayers(saved ? saved.players.map(({ playerName, playerId, isStarter }) => ({ playerName, playerId, isStarter })) : []);
+    setSubstitutions(saved ? saved.substitutions.map(sub => ({ ...sub, minute: String(sub.minute) })) : []);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    Promise.all([getMatchLineup(matchId), getLineupNameSuggestions(matchId)])
+      .then(([saved, names]) => {
+        if (cancelled) return;
+        applyLineup(saved);
+        setSuggestions(names);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load lineup');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId]);
+
+  useEffect(() => {
+    if (!teamId) {
+      setReport(null);
+      return;
+    }
+    let cancelled = false;
+    getPlayingTimeReport({ teamId })
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(() => {
+        if (!cancelled) setReport(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId, lineup]);
+
+  const handleAddPlayer = (isStarter: boolean) => {
+    const name = newPlayerName.trim().replace(/\s+/g, ' ');
+    if (!name) return;
+    if (players.some(player => sameName(player.playerName, name))) {
+      setError(`${name} is already in the lineup`);
+      return;
+    }
+    const suggestion = suggestions.find(item => sameName(item.name, name));
+    setPlayers(prev => [...prev, { playerName: suggestion?.name ?? name, playerId: suggestion?.playerId ?? null, isStarter }]);
+    setNewPlayerName('');
+    setError(null);
+  };
+
+  const handleRemovePlayer = (name: string) => {
+    setPlayers(prev => prev.filter(player => player.playerName !== name));
+    setSubstitutions(prev => prev.filter(sub => sub.playerOff !== name && sub.playerOn !== name));
+  };
+
+  const handleToggleStarter = (name: string) => {
+    setPlayers(prev => prev.map(player => player.playerName === name ? { ...player, isStarter: !player.isStarter } : player));
+  };
+
+  const updateSubstitution = (index: number, changes: Partial<SubstitutionDraft>) => {
+    setSubstitutions(prev => prev.map((sub, i) => i === index ? { ...sub, ...changes } : sub));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const saved = await saveMatchLineup(matchId, {
+        durationMinutes: parseInt(durationMinutes),
+        players: players.map(({ playerName, playerId, isStarter }) => ({ playerName, playerId, isStarter })),
+        substitutions: substitutions.map(sub => ({ ...sub, minute: parseInt(sub.minute) })),
+      });
+      applyLineup(saved);
+      setSuccess('Lineup saved.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save lineup');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!lineup || !window.confirm('Remove this match\'s lineup and substitutions?')) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await deleteMatchLineup(matchId);
+      applyLineup(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove lineup');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const minutesFor = (name: string) => lineup?.players.find(player => player.playerName === name)?.minutesPlayed;
+  const starters = players.filter(player => player.isStarter);
+  const bench = players.filter(player => !player.isStarter);
+  const suggestionsNotInLineup = suggestions.filter(item => !players.some(player => sameName(player.playerName, item.name)));
+  const inputClass = 'px-2 py-1.5 text-sm border border-gray-300 rounded bg-white text-black';
+
+  const renderPlayerList = (title: string, list: LineupPlayerDraft[]) => (
+    <div>
+      <div className="text-xs font-semibold text-gray-700 mb-1">{title} ({list.length})</div>
+      {list.length === 0 ? (
+        <p className="text-sm text-gray-500">None yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {list.map(player => {
+            const minutes = minutesFor(player.playerName);
+            return (
+              <li key={player.playerName} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                <span className="text-gray-900">
+                  {player.playerName}
+                  {player.playerId === null && <span className="ml-2 text-xs text-gray-400">not on roster</span>}
+                </span>
+                <span className="flex items-center gap-3">
+                  {minutes !== undefined && <span className="text-xs text-gray-500">{minutes}'</span>}
+                  <button type="button" onClick={() => handleToggleStarter(player.playerName)} className="text-xs text-blue-600 hover:text-blue-900">
+                    {player.isStarter ? 'To bench' : 'To starters'}
+                  </button>
+                  <button type="button" onClick={() => handleRemovePlayer(player.playerName)} className="text-xs text-red-600 hover:text-red-800">
+                    Remove
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-semibold text-gray-900">Lineup &amp; Playing Time</h2>
+        <p className="text-xs text-gray-600 mt-1">
+          Starters, bench and substitutions. Minutes played are worked out when the lineup is saved.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-5">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+        {success && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{success}</div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading lineup...</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="text-xs font-medium text-gray-600">
+                Match length (min)
+                <input
+                  type="number"
+                  min={1}
+                  value={durationMinutes}
+                  onChange={(e) => setDurationMinutes(e.target.value)}
+                  className={`block w-28 ${inputClass}`}
+                />
+              </label>
+              <label className="flex-1 min-w-[220px] text-xs font-medium text-gray-600">
+                Player
+                <input
+                  type="text"
+                  list={`lineup-names-${matchId}`}
+                  value={newPlayerName}
+                  onChange={(e) => setNewPlayerName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleAddPlayer(true);
+                    }
+                  }}
+                  placeholder="Pick a name or type a new one"
+                  className={`block w-full ${inputClass}`}
+                />
+                <datalist id={`lineup-names-${matchId}`}>
+                  {suggestionsNotInLineup.map(item => (
+                    <option key={item.name} value={item.name}>
+                      {item.jerseyNumber !== null ? `#${item.jerseyNumber}` : undefined}
+                    </option>
+                  ))}
+                </datalist>
+              </label>
+              <button
+                type="button"
+                onClick={() => handleAddPlayer(true)}
+                disabled={!newPlayerName.trim()}
+                className="px-3 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Add Starter
+              </button>
+              <button
+                type="button"
+                onClick={() => handleAddPlayer(false)}
+                disabled={!newPlayerName.trim()}
+                className="px-3 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Add to Bench
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderPlayerList('Starters', starters)}
+              {renderPlayerList('Bench', bench)}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <div className="text-xs font-semibold text-gray-700">Substitutions</div>
+                <button
+                  type="button"
+                  onClick={() => setSubstitutions(prev => [...prev, { minute: '', playerOff: '', playerOn: '' }])}
+                  disabled={players.length < 2}
+                  className="text-xs text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                >
+                  + Add Substitution
+                </button>
+              </div>
+              {substitutions.length === 0 ? (
+                <p className="text-sm text-gray-500">No substitutions.</p>
+              ) : (
+                <div className="space-y-2">
+                  {substitutions.map((sub, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                      <input
+                        type="number"
+                        min={0}
+                        value={sub.minute}
+                        onChange={(e) => updateSubstitution(index, { minute: e.target.value })}
+                        placeholder="Min"
+                        className={`w-20 ${inputClass}`}
+                      />
+                      <span className="text-gray-500">Off</span>
+                      <select value={sub.playerOff} onChange={(e) => updateSubstitution(index, { playerOff: e.target.value })} className={inputClass}>
+                        <option value="">Select...</option>
+                        {players.map(player => <option key={player.playerName} value={player.playerName}>{player.playerName}</option>)}
+                      </select>
+                      <span className="text-gray-500">On</span>
+                      <select value={sub.playerOn} onChange={(e) => updateSubstitution(index, { playerOn: e.target.value })} className={inputClass}>
+                        <option value="">Select...</option>
+                        {players.map(player => <option key={player.playerName} value={player.playerName}>{player.playerName}</option>)}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setSubstitutions(prev => prev.filter((_, i) => i !== index))}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-3">
+              {lineup && (
+                <button
+                  type="button"
+                  onClick={handleClear}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Clear Lineup
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || starters.length === 0}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+              >
+                {saving ? 'Saving...' : 'Save Lineup'}
+              </button>
+            </div>
+          </>
+        )}
+
+        {report && report.players.length > 0 && (
+          <div className="border-t border-gray-200 pt-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <div className="text-sm font-semibold text-gray-900">Season playing time</div>
+              <div className="text-xs text-gray-600">
+                {report.matches} match{report.matches === 1 ? '' : 'es'} with lineups · policy: at least{' '}
+                {report.policy.minSharePercent}% of available minutes
+              </div>
+            </div>
+            {report.alerts > 0 && (
+              <div className="mb-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                {report.alerts} player{report.alerts === 1 ? ' is' : 's are'} below the playing time policy.
+              </div>
+            )}
+            <table className="min-w-full text-xs">
+              <thead className="text-left text-gray-500">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">Player</th>
+                  <th className="py-1 pr-3 font-medium">Squad</th>
+                  <th className="py-1 pr-3 font-medium">Starts</th>
+                  <th className="py-1 pr-3 font-medium">Minutes</th>
+                  <th className="py-1 font-medium">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.players.map(player => (
+                  <tr key={player.playerId ?? player.playerName} className={`border-t border-gray-100 ${player.belowPolicy ? 'bg-amber-50' : ''}`}>
+                    <td className="py-1 pr-3 text-gray-900">{player.playerName}</td>
+                    <td className="py-1 pr-3 text-gray-700">{player.matches}</td>
+                    <td className="py-1 pr-3 text-gray-700">{player.starts}</td>
+                    <td className="py-1 pr-3 text-gray-700">{player.minutesPlayed} / {player.availableMinutes}</td>
+                    <td className={`py-1 ${player.belowPolicy ? 'text-amber-800 font-semibold' : 'text-gray-700'}`}>
+                      {player.sharePercent === null ? '—' : `${player.sharePercent}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { JOGA_COLORS } from '../utils/colors';
+import {
+  Match,
+  MatchRevision,
+  MatchRevisionDiff,
+  MatchRevisionAction,
+  getMatchRevisions,
+  getMatchRevisionDiff,
+  restoreMatchRevision,
+} from '../services/matchService';
+
+interface MatchRevisionHistoryProps {
+  matchId: number;
+  /** Changes whenever the match is saved, so the list reloads */
+  refreshKey?: string | number;
+  onRestored: (match: Match) => void;
+}
+
+const ACTION_STYLES: Record<MatchRevisionAction, { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Edited', className: 'bg-blue-100 text-blue-800' },
+  delete: { label: 'Deleted', className: 'bg-red-100 text-red-800' },
+  restore: { label: 'Restored', className: 'bg-amber-100 text-amber-800' },
+};
+
+function formatRevisionValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function formatRevisionTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString();
+}
+
+/**
+ * Revision history for a match: every create, edit, restore and delete with who made it.
+ * Selecting a revision shows what changed (vs. the previous revision or any other one)
+ * and lets the user put the match back to that state.
+ */
+export const MatchRevisionHistory: React.FC<MatchRevisionHistoryProps> = ({ matchId, refreshKey, onRestored }) => {
+  const [revisions, setRevisions] = useState<MatchRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<number | null>(null);
+  const [compareToId, setCompareToId] = useState<number | null>(null);
+  const [diff, setDiff] = useState<MatchRevisionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getMatchRevisions(matchId)
+      .then(result => {
+        if (cancelled) return;
+        setRevisions(result);
+        setSelectedRevisionId(result[0]?.id ?? null);
+        setCompareToId(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load revision history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, refreshKey]);
+
+  useEffect(() => {
+    if (selectedRevisionId === null) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    getMatchRevisionDiff(matchId, selectedRevisionId, compareToId)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load changes');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, selectedRevisionId, compareToId]);
+
+  const handleRestore = async () => {
+    if (selectedRevisionId === null) return;
+    if (!window.confirm('Restore the match to this revision? The current values will be kept in the history.')) {
+      return;
+    }
+    setRestoring(true);
+    setError(null);
+    try {
+      const match = await restoreMatchRevision(matchId, selectedRevisionId);
+      onRestored(match);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const gameChanges = diff ? diff.changes.filter(change => change.section === 'game') : [];
+  const statChanges = diff ? diff.changes.filter(change => change.section === 'stats') : [];
+  const isLatest = revisions.length > 0 && selectedRevisionId === revisions[0].id;
+
+  const renderChanges = (title: string, changes: MatchRevisionDiff['changes']) => (
+    changes.length > 0 && (
+      <div>
+        <div className="text-xs font-semibold text-gray-700 mb-1">{title}</div>
+        <table className="min-w-full text-xs">
+          <thead className="text-left text-gray-500">
+            <tr>
+              <th className="py-1 pr-3 font-medium">Field</th>
+              <th className="py-1 pr-3 font-medium">Before</th>
+              <th className="py-1 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(change => (
+              <tr key={`${change.section}-${change.field}`} className="border-t border-gray-100">
+                <td className="py-1 pr-3 text-gray-700">{change.field}</td>
+                <td className="py-1 pr-3 text-red-700 line-through">{formatRevisionValue(change.before)}</td>
+                <td className="py-1 text-green-700">{formatRevisionValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-semibold text-gray-900">Revision History</h2>
+        <p className="text-xs text-gray-600 mt-1">Every save is kept. Pick a revision to see what changed or restore it.</p>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No revisions yet. History starts with the next save.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <ul className="space-y-1 max-h-80 overflow-y-auto">
+              {revisions.map(revision => {
+                const style = ACTION_STYLES[revision.action];
+                const isSelected = revision.id === selectedRevisionId;
+                return (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSelectedRevisionId(revision.id);
+                        setCompareToId(null);
+                      }}
+                      className={`w-full text-left px-3 py-2 rounded-lg border text-sm ${
+                        isSelected ? 'border-[#6787aa] bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>{style.label}</span>
+                        <span className="text-xs text-gray-500">#{revision.id}</span>
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {revision.changedByName || 'Unknown user'} · {formatRevisionTime(revision.createdAt)}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="md:col-span-2 space-y-4">
+              {diff && (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <label className="text-sm text-gray-700 flex items-center gap-2">
+                      Compare with
+                      <select
+                        value={compareToId ?? ''}
+                        onChange={(e) => setCompareToId(e.target.value ? parseInt(e.target.value) : null)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">Previous revision</option>
+                        {revisions
+                          .filter(revision => revision.id !== selectedRevisionId)
+                          .map(revision => (
+                            <option key={revision.id} value={revision.id}>
+                              #{revision.id} {ACTION_STYLES[revision.action].label} · {formatRevisionTime(revision.createdAt)}
+                            </option>
+                          ))}
+                      </select>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={handleRestore}
+                      disabled={restoring || (isLatest && diff.to.action !== 'delete')}
+                      className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50 disabled:cursor-not-allowed"
+                      style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+                      title={isLatest ? 'This is the current state of the match' : undefined}
+                    >
+                      {restoring ? 'Restoring...' : 'Restore this revision'}
+                    </button>
+                  </div>
+
+                  {diff.changes.length === 0 ? (
+                    <p className="text-sm text-gray-500">No field changes{diff.from ? ` compared with #${diff.from.id}` : ''}.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {renderChanges('Game info', gameChanges)}
+                      {renderChanges('Stats', statChanges)}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
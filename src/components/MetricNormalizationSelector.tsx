@@ -0,0 +1,26 @@
+import React from 'react';
+import { MetricNormalization, METRIC_NORMALIZATION_OPTIONS } from '../utils/metricNormalization';
+
+interface MetricNormalizationSelectorProps {
+  value: MetricNormalization;
+  onChange: (value: MetricNormalization) => void;
+  className?: string;
+}
+
+/**
+ * Select for rescaling count metrics by match length (shared across views)
+ */
+export const MetricNormalizationSelector: React.FC<MetricNormalizationSelectorProps> = ({ value, onChange, className = '' }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as MetricNormalization)}
+    className={`px-2 py-1.5 text-sm border-2 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa] ${
+      value !== 'none' ? 'border-[#ceff00]' : 'border-gray-300'
+    } ${className}`}
+    title={METRIC_NORMALIZATION_OPTIONS.find(option => option.value === value)?.description}
+  >
+    {METRIC_NORMALIZATION_OPTIONS.map(option => (
+      <option key={option.value} value={option.value}>{option.label}</option>
+    ))}
+  </select>
+);
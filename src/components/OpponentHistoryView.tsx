@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useAuth } from '../contexts/AuthContext';
+import { getAllTeams, getUserTeams } from '../services/teamService';
+import { getHeadToHead, getOpponents, HeadToHead, HeadToHeadRecord, MatchOutcome, Opponent } from '../services/opponentService';
+import { Team } from '../types/auth';
+import { JOGA_COLORS, OPPONENT_COLORS } from '../utils/colors';
+import { UserMenu } from './UserMenu';
+
+const OUTCOME_STYLES: Record<MatchOutcome, string> = {
+  W: 'bg-green-100 text-green-800',
+  D: 'bg-gray-100 text-gray-800',
+  L: 'bg-red-100 text-red-800',
+};
+
+// Metrics plotted per season in the trend chart
+const TREND_METRICS: Array<{ key: string; color: string }> = [
+  { key: 'goalsFor', color: JOGA_COLORS.voltYellow },
+  { key: 'goalsAgainst', color: OPPONENT_COLORS.dark },
+];
+
+function formatValue(value: number | null | undefined): string {
+  return value === null || value === undefined ? '-' : value.toString();
+}
+
+function formatRecord(record: HeadToHeadRecord): string {
+  return `${record.wins}W ${record.draws}D ${record.losses}L`;
+}
+
+/**
+ * Head-to-head history against one opponent across the club's teams and seasons:
+ * record, key metric averages, the per-season trend, each match and the coach notes.
+ */
+export const OpponentHistoryView: React.FC = () => {
+  const { user } = useAuth();
+  const [opponents, setOpponents] = useState<Opponent[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [search, setSearch] = useState('');
+  const [selectedOpponentId, setSelectedOpponentId] = useState<number | null>(null);
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  const [headToHead, setHeadToHead] = useState<HeadToHead | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const loadTeams = user.role === 'admin' ? getAllTeams() : getUserTeams(user.id);
+    loadTeams
+      .then(setTeams)
+      .catch(err => console.error('Error loading teams:', err));
+  }, [user]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      getOpponents({ search: search.trim() || undefined })
+        .then(setOpponents)
+        .catch(err => setError(err instanceof Error ? err.message : 'Failed to load opponents'));
+    }, 250);
+    return () => clearTimeout(timeoutId);
+  }, [search]);
+
+  useEffect(() => {
+    if (!selectedOpponentId) {
+      setHeadToHead(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    getHeadToHead(selectedOpponentId, selectedTeamId ?? undefined)
+      .then(setHeadToHead)
+      .catch(err => {
+        setHeadToHead(null);
+        setError(err instanceof Error ? err.message : 'Failed to load head-to-head history');
+      })
+      .finally(() => setLoading(false));
+  }, [selectedOpponentId, selectedTeamId]);
+
+  const trendData = useMemo(() => (headToHead?.seasons || []).map(season => ({
+    season: season.seasonName || 'No season',
+    ...season.averages,
+  })), [headToHead]);
+
+  const metricLabels = useMemo(() => Object.fromEntries(
+    (headToHead?.metrics || []).map(metric => [metric.key, metric.label])
+  ), [headToHead]);
+
+  const notedMatches = (headToHead?.matches || []).filter(match => match.notes);
+
+  return (
+    <>
+      <header className="bg-white shadow-sm border-b border-gray-200 relative">
+        <div className="px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Opponent History</h1>
+              <p className="text-sm text-gray-600 mt-1">Every game the club has played against an opponent, for scouting before the next one.</p>
+            </div>
+            <div className="relative">
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {/* Opponent and team selection */}
+          <div className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Search opponents</label>
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Name or alias..."
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Opponent</label>
+              <select
+                value={selectedOpponentId || ''}
+                onChange={(e) => setSelectedOpponentId(e.target.value ? parseInt(e.target.value) : null)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]"
+              >
+                <option value="">Select opponent...</option>
+                {opponents.map(opponent => (
+                  <option key={opponent.id} value={opponent.id}>
+                    {opponent.name}{opponent.ageGroup ? ` (${opponent.ageGroup})` : ''} - {opponent.matchCount} {opponent.matchCount === 1 ? 'match' : 'matches'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Team</label>
+              <select
+                value={selectedTeamId || ''}
+                onChange={(e) => setSelectedTeamId(e.target.value ? parseInt(e.target.value) : null)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]"
+              >
+                <option value="">All teams</option>
+                {teams.map(team => (
+                  <option key={team.id} value={team.id}>{team.displayName}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {loading && (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-gray-600 mx-auto"></div>
+            </div>
+          )}
+
+          {!loading && !headToHead && !error && (
+            <div className="bg-white rounded-lg shadow p-6 text-gray-600">Select an opponent to see the club's history against them.</div>
+          )}
+
+          {!loading && headToHead && (
+            <>
+              {/* Record */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {[
+                  { label: 'Played', value: headToHead.record.played },
+                  { label: 'Won', value: headToHead.record.wins },
+                  { label: 'Drawn', value: headToHead.record.draws },
+                  { label: 'Lost', value: headToHead.record.losses },
+                  { label: 'Goals', value: `${headToHead.record.goalsFor} - ${headToHead.record.goalsAgainst}` },
+                ].map(stat => (
+                  <div key={stat.label} className="bg-white rounded-lg shadow p-4 text-center">
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">{stat.label}</div>
+                    <div className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Key metric averages, overall and per season */}
+              <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                  <h2 className="text-lg font-semibold text-gray-900">Averages vs {headToHead.opponent.name}</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Season</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Record</th>
+                        {headToHead.metrics.map(metric => (
+                          <th key={metric.key} className="px-4 py-2 text-right font-medium text-gray-600 whitespace-nowrap">{metric.label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {headToHead.seasons.map(season => (
+                        <tr key={season.seasonId ?? 'none'}>
+                          <td className="px-4 py-2 text-gray-900">{season.seasonName || 'No season'}</td>
+                          <td className="px-4 py-2 text-gray-700 whitespace-nowrap">{formatRecord(season.record)}</td>
+                          {headToHead.metrics.map(metric => (
+                            <td key={metric.key} className="px-4 py-2 text-right text-gray-700">{formatValue(season.averages[metric.key])}</td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="bg-gray-50 font-semibold">
+                        <td className="px-4 py-2 text-gray-900">All</td>
+                        <td className="px-4 py-2 text-gray-900 whitespace-nowrap">{formatRecord(headToHead.record)}</td>
+                        {headToHead.metrics.map(metric => (
+                          <td key={metric.key} className="px-4 py-2 text-right text-gray-900">{formatValue(headToHead.averages[metric.key])}</td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Trend over time */}
+              {trendData.length > 1 && (
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">Trend by season</h2>
+                  <ResponsiveContainer width="100%" height={260}>
+                    <LineChart data={trendData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="season" />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      {TREND_METRICS.map(metric => (
+                        <Line
+                          key={metric.key}
+                          type="monotone"
+                          dataKey={metric.key}
+                          name={metricLabels[metric.key] || metric.key}
+                          stroke={metric.color}
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              {/* Matches */}
+              <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                  <h2 className="text-lg font-semibold text-gray-900">Matches</h2>
+                </div>
+                {headToHead.matches.length === 0 ? (
+                  <p className="px-6 py-4 text-sm text-gray-600">No matches against this opponent yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {headToHead.matches.map(match => (
+                      <li key={match.id} className="px-6 py-3 flex items-center gap-4 text-sm">
+                        <span className={`w-8 text-center rounded font-bold ${match.outcome ? OUTCOME_STYLES[match.outcome] : 'bg-gray-50 text-gray-400'}`}>
+                          {match.outcome || '?'}
+                        </span>
+                        <span className="w-24 text-gray-700">{match.matchDate}</span>
+                        <span className="flex-1 text-gray-900">{match.teamDisplayName || 'Unknown team'}</span>
+                        <span className="text-gray-500">
+                          {match.competitionType || ''}{match.isHome === null ? '' : match.isHome ? ' · Home' : ' · Away'}
+                        </span>
+                        <span className="w-16 text-right font-semibold text-gray-900">
+                          {match.goalsFor !== null && match.goalsAgainst !== null ? `${match.goalsFor} - ${match.goalsAgainst}` : '-'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Coach notes */}
+              <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                  <h2 className="text-lg font-semibold text-gray-900">Coach notes</h2>
+                </div>
+                {notedMatches.length === 0 ? (
+                  <p className="px-6 py-4 text-sm text-gray-600">No notes recorded for these matches.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {notedMatches.map(match => (
+                      <li key={match.id} className="px-6 py-3 text-sm">
+                        <div className="text-xs text-gray-500 mb-1">
+                          {match.matchDate} · {match.teamDisplayName || 'Unknown team'}
+                        </div>
+                        <p className="text-gray-800 whitespace-pre-wrap">{match.notes}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
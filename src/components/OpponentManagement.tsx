@@ -0,0 +1,360 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { JOGA_COLORS } from '../utils/colors';
+import {
+  Opponent,
+  OpponentInput,
+  OpponentMergeProposal,
+  acceptMergeProposal,
+  addOpponentAlias,
+  dismissMergeProposal,
+  getMergeProposals,
+  getOpponents,
+  mergeOpponents,
+  removeOpponentAlias,
+  scanForDuplicateOpponents,
+  updateOpponent,
+} from '../services/opponentService';
+
+const EMPTY_FORM: OpponentInput = { name: '', clubName: '', teamName: '', ageGroup: '' };
+
+function formatDetails(opponent: Opponent): string {
+  return [opponent.clubName, opponent.teamName, opponent.ageGroup].filter(Boolean).join(' · ');
+}
+
+/**
+ * Admin tools for the opponent registry: edit opponents and their aliases,
+ * merge duplicates (e.g. "Titans" / "TITANS FC"), and review merge proposals from the duplicate scan.
+ */
+export const OpponentManagement: React.FC = () => {
+  const [opponents, setOpponents] = useState<Opponent[]>([]);
+  const [proposals, setProposals] = useState<OpponentMergeProposal[]>([]);
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<OpponentInput>(EMPTY_FORM);
+  const [newAlias, setNewAlias] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadData = async () => {
+    try {
+      const [allOpponents, pending] = await Promise.all([getOpponents(), getMergeProposals()]);
+      setOpponents(allOpponents);
+      setProposals(pending);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load opponents');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadData();
+  }, []);
+
+  const filteredOpponents = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return opponents;
+    return opponents.filter(opponent =>
+      [opponent.name, ...opponent.aliases].some(name => name.toLowerCase().includes(term))
+    );
+  }, [opponents, search]);
+
+  const selectedOpponents = opponents.filter(opponent => selectedIds.includes(opponent.id));
+
+  // Run a change, then reload everything (merges affect several opponents and proposals)
+  const runAction = async <T,>(action: () => Promise<T>, successMessage: string | ((result: T) => string)) => {
+    setIsWorking(true);
+    setError('');
+    setSuccess('');
+    try {
+      const result = await action();
+      await loadData();
+      setSuccess(typeof successMessage === 'function' ? successMessage(result) : successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleSelected = (opponentId: number) => {
+    const next = selectedIds.includes(opponentId)
+      ? selectedIds.filter(id => id !== opponentId)
+      : [...selectedIds, opponentId];
+    setSelectedIds(next);
+    if (mergeTargetId === null || !next.includes(mergeTargetId)) {
+      setMergeTargetId(next[0] ?? null);
+    }
+  };
+
+  const handleMerge = async () => {
+    const target = opponents.find(opponent => opponent.id === mergeTargetId);
+    if (!target || selectedIds.length < 2) return;
+    const sources = selectedOpponents.filter(opponent => opponent.id !== target.id);
+    if (!window.confirm(`Merge ${sources.map(source => source.name).join(', ')} into ${target.name}? Their matches will be renamed.`)) {
+      return;
+    }
+    await runAction(
+      () => mergeOpponents(target.id, sources.map(source => source.id)),
+      `Merged into ${target.name}.`
+    );
+    setSelectedIds([]);
+    setMergeTargetId(null);
+  };
+
+  const handleScan = () => runAction(
+    scanForDuplicateOpponents,
+    result => `Scan complete: ${result.created} new proposal(s).`
+  );
+
+  const startEditing = (opponent: Opponent) => {
+    setEditingId(opponent.id);
+    setForm({
+      name: opponent.name,
+      clubName: opponent.clubName ?? '',
+      teamName: opponent.teamName ?? '',
+      ageGroup: opponent.ageGroup ?? '',
+    });
+    setNewAlias('');
+  };
+
+  const handleSaveEdit = async (opponentId: number) => {
+    await runAction(() => updateOpponent(opponentId, form), 'Opponent saved.');
+    setEditingId(null);
+  };
+
+  const handleAddAlias = async (opponentId: number) => {
+    if (!newAlias.trim()) return;
+    await runAction(() => addOpponentAlias(opponentId, newAlias), `Added alias "${newAlias.trim()}".`);
+    setNewAlias('');
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading opponents...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{success}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Possible Duplicates</h2>
+            <p className="text-xs text-gray-600 mt-1">
+              Opponents with similar names. Merging moves the duplicate's aliases and matches to the opponent on the left.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleScan}
+            disabled={isWorking}
+            className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            Scan for duplicates
+          </button>
+        </div>
+        <div className="p-6">
+          {proposals.length === 0 ? (
+            <p className="text-sm text-gray-500">No merge proposals to review.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {proposals.map(proposal => (
+                <li key={proposal.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="text-sm text-gray-800">
+                    <span className="font-medium">{proposal.target.name}</span>
+                    <span className="text-gray-500"> ({proposal.target.matchCount} matches)</span>
+                    <span className="mx-2 text-gray-400">←</span>
+                    <span className="font-medium">{proposal.source.name}</span>
+                    <span className="text-gray-500"> ({proposal.source.matchCount} matches)</span>
+                    <span className="ml-2 text-xs text-gray-500">{Math.round(proposal.similarity * 100)}% similar</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => runAction(() => acceptMergeProposal(proposal.id), `Merged ${proposal.source.name} into ${proposal.target.name}.`)}
+                      disabled={isWorking}
+                      className="px-3 py-1 rounded-lg text-xs font-medium text-black disabled:opacity-50"
+                      style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+                    >
+                      Merge
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => runAction(() => dismissMergeProposal(proposal.id), 'Proposal dismissed.')}
+                      disabled={isWorking}
+                      className="px-3 py-1 rounded-lg text-xs font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Not a duplicate
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="text-lg font-semibold text-gray-900">Opponents</h2>
+          <p className="text-xs text-gray-600 mt-1">
+            Matches entered with any alias are saved under the opponent's name. Renaming keeps the old name as an alias.
+          </p>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search names and aliases"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-64"
+            />
+            {selectedIds.length >= 2 && (
+              <>
+                <label className="text-sm text-gray-700">
+                  Merge {selectedIds.length} selected into
+                  <select
+                    value={mergeTargetId ?? ''}
+                    onChange={(e) => setMergeTargetId(Number(e.target.value))}
+                    className="ml-2 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {selectedOpponents.map(opponent => (
+                      <option key={opponent.id} value={opponent.id}>{opponent.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="button"
+                  onClick={handleMerge}
+                  disabled={isWorking}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50"
+                  style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+                >
+                  Merge
+                </button>
+              </>
+            )}
+          </div>
+
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-xs text-gray-500">
+              <tr>
+                <th className="py-2 pr-3 font-medium" />
+                <th className="py-2 pr-3 font-medium">Opponent</th>
+                <th className="py-2 pr-3 font-medium">Aliases</th>
+                <th className="py-2 pr-3 font-medium">Matches</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {filteredOpponents.map(opponent => (
+                <tr key={opponent.id} className="border-t border-gray-100 align-top">
+                  <td className="py-2 pr-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(opponent.id)}
+                      onChange={() => toggleSelected(opponent.id)}
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    {editingId === opponent.id ? (
+                      <div className="grid grid-cols-2 gap-2 max-w-md">
+                        {(['name', 'clubName', 'teamName', 'ageGroup'] as const).map(field => (
+                          <input
+                            key={field}
+                            type="text"
+                            value={form[field] ?? ''}
+                            onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                            placeholder={{ name: 'Name', clubName: 'Club', teamName: 'Team', ageGroup: 'Age group' }[field]}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          />
+                        ))}
+                      </div>
+                    ) : (
+                      <>
+                        <div className="text-gray-900">{opponent.name}</div>
+                        {formatDetails(opponent) && <div className="text-xs text-gray-500">{formatDetails(opponent)}</div>}
+                      </>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="flex flex-wrap gap-1">
+                      {opponent.aliases.map(alias => (
+                        <span key={alias} className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-700">
+                          {alias}
+                          {editingId === opponent.id && alias !== opponent.name && (
+                            <button
+                              type="button"
+                              onClick={() => runAction(() => removeOpponentAlias(opponent.id, alias), `Removed alias "${alias}".`)}
+                              className="ml-1 text-gray-400 hover:text-red-600"
+                              aria-label={`Remove alias ${alias}`}
+                            >
+                              ×
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                    {editingId === opponent.id && (
+                      <div className="flex gap-2 mt-2">
+                        <input
+                          type="text"
+                          value={newAlias}
+                          onChange={(e) => setNewAlias(e.target.value)}
+                          placeholder="Add alias"
+                          className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleAddAlias(opponent.id)}
+                          disabled={isWorking || !newAlias.trim()}
+                          className="text-xs text-gray-700 hover:text-gray-900 disabled:opacity-50"
+                        >
+                          Add
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700">{opponent.matchCount}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {editingId === opponent.id ? (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => handleSaveEdit(opponent.id)}
+                          disabled={isWorking || !form.name.trim()}
+                          className="text-xs text-gray-900 font-medium mr-3 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        <button type="button" onClick={() => setEditingId(null)} className="text-xs text-gray-500">
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button type="button" onClick={() => startEditing(opponent)} className="text-xs text-gray-700 hover:text-gray-900">
+                        Edit
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {filteredOpponents.length === 0 && <p className="text-sm text-gray-500">No opponents found.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { getPassNetwork, PassNetwork } from '../services/matchService';
+import { JOGA_COLORS } from '../utils/colors';
+import { useAsyncData } from '../hooks/useAsyncData';
+import { ChartExpandButton } from './ChartExpandButton';
+import { PitchMarkings, PITCH_VIEWBOX_HEIGHT } from './PitchMarkings';
+
+interface PassNetworkChartProps {
+  games: Array<{ matchId: number; title: string }>; // Displayed games that exist in the database
+  onExpansionChange?: (isExpanded: boolean) => void;
+}
+
+const MIN_PASS_OPTIONS = [1, 2, 3, 5];
+
+// Edge width (viewBox units) grows with the share of the busiest connection
+function getEdgeWidth(passes: number, maxPasses: number): number {
+  return 0.3 + (passes / maxPasses) * 2.2;
+}
+
+// Node radius grows with passes made + received
+function getNodeRadius(involvement: number, maxInvolvement: number): number {
+  return 1.5 + (involvement / maxInvolvement) * 2.5;
+}
+
+/**
+ * Pass network for one or all of the displayed games.
+ * Nodes sit at each player's average pass location (JOGA attacks left to right);
+ * edge thickness shows how many passes two players exchanged.
+ */
+export const PassNetworkChart: React.FC<PassNetworkChartProps> = ({ games, onExpansionChange }) => {
+  const [selectedMatchId, setSelectedMatchId] = useState<number | null>(null);
+  const [minPasses, setMinPasses] = useState(1);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const matchIds = useMemo(() => {
+    if (selectedMatchId && games.some(game => game.matchId === selectedMatchId)) {
+      return [selectedMatchId];
+    }
+    return games.map(game => game.matchId);
+  }, [games, selectedMatchId]);
+
+  const loadNetwork = useCallback(() => getPassNetwork(matchIds), [matchIds]);
+  const { data: network, loading, error } = useAsyncData<PassNetwork>(
+    matchIds.length > 0 ? loadNetwork : null,
+    'Failed to load pass network'
+  );
+
+  const handleExpandToggle = () => {
+    setIsExpanded(!isExpanded);
+    onExpansionChange?.(!isExpanded);
+  };
+
+  const located = useMemo(() => new Map(
+    (network?.nodes || [])
+      .filter(node => node.x !== null && node.y !== null)
+      .map(node => [node.playerName, node])
+  ), [network]);
+  const unlocatedPlayers = (network?.nodes || []).filter(node => !located.has(node.playerName));
+  const edges = (network?.edges || []).filter(edge =>
+    edge.passes >= minPasses && located.has(edge.playerA) && located.has(edge.playerB)
+  );
+  const maxPasses = Math.max(1, ...edges.map(edge => edge.passes));
+  const maxInvolvement = Math.max(1, ...[...located.values()].map(node => node.passesMade + node.passesReceived));
+  const toViewY = (y: number) => (y / 100) * PITCH_VIEWBOX_HEIGHT;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 relative group">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-800">Pass Network</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedMatchId || ''}
+            onChange={(e) => setSelectedMatchId(e.target.value ? parseInt(e.target.value) : null)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]"
+          >
+            <option value="">All displayed games ({games.length})</option>
+            {games.map(game => (
+              <option key={game.matchId} value={game.matchId}>{game.title}</option>
+            ))}
+          </select>
+          <select
+            value={minPasses}
+            onChange={(e) => setMinPasses(parseInt(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]"
+            title="Hide connections with fewer passes"
+          >
+            {MIN_PASS_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}+ passes</option>
+            ))}
+          </select>
+          <ChartExpandButton isExpanded={isExpanded} onToggle={handleExpandToggle} />
+        </div>
+      </div>
+
+      {games.length === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          Pass networks need games entered in the app with tagged pass events.
+        </div>
+      ) : loading ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500">Loading pass network...</div>
+      ) : error ? (
+        <div className="h-40 flex items-center justify-center text-sm text-red-600">{error}</div>
+      ) : !network || network.passes === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          No passes with a passer and receiver logged for {matchIds.length === 1 ? 'this game' : 'these games'}.
+        </div>
+      ) : (
+        <>
+          <svg viewBox={`0 0 100 ${PITCH_VIEWBOX_HEIGHT}`} className="w-full rounded-lg">
+            <PitchMarkings />
+            {edges.map(edge => {
+              const a = located.get(edge.playerA)!;
+              const b = located.get(edge.playerB)!;
+              return (
+                <line
+                  key={`${edge.playerA}-${edge.playerB}`}
+                  x1={a.x!}
+                  y1={toViewY(a.y!)}
+                  x2={b.x!}
+                  y2={toViewY(b.y!)}
+                  stroke="#ffffff"
+                  strokeOpacity={0.75}
+                  strokeWidth={getEdgeWidth(edge.passes, maxPasses)}
+                  strokeLinecap="round"
+                >
+                  <title>
+                    {`${edge.playerA} ↔ ${edge.playerB}: ${edge.passes} pass${edge.passes === 1 ? '' : 'es'}`}
+                    {` (${edge.aToB} → ${edge.playerB}, ${edge.bToA} → ${edge.playerA})`}
+                  </title>
+                </line>
+              );
+            })}
+            {[...located.values()].map(node => (
+              <g key={node.playerName}>
+                <circle
+                  cx={node.x!}
+                  cy={toViewY(node.y!)}
+                  r={getNodeRadius(node.passesMade + node.passesReceived, maxInvolvement)}
+                  fill={JOGA_COLORS.voltYellow}
+                  stroke="#000000"
+                  strokeWidth="0.3"
+                >
+                  <title>{`${node.playerName}: ${node.passesMade} made, ${node.passesReceived} received`}</title>
+                </circle>
+                <text
+                  x={node.x!}
+                  y={toViewY(node.y!) + getNodeRadius(node.passesMade + node.passesReceived, maxInvolvement) + 2.2}
+                  textAnchor="middle"
+                  fontSize="2.2"
+                  fill="#ffffff"
+                >
+                  {node.playerName}
+                </text>
+              </g>
+            ))}
+          </svg>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-600">
+            <span>{network.passes} pass{network.passes === 1 ? '' : 'es'} across {network.matches} game{network.matches === 1 ? '' : 's'}</span>
+            <span className="text-gray-400">Line width = passes between players · Circle size = passes made + received</span>
+          </div>
+          {unlocatedPlayers.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              Not shown (no pass locations): {unlocatedPlayers.map(node => node.playerName).join(', ')}
+            </p>
+          )}
+          {network.passesWithoutReceiver > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              {network.passesWithoutReceiver} pass{network.passesWithoutReceiver === 1 ? '' : 'es'} without a passer and receiver not included.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+
+/**
+ * Pitch background and line markings for SVG pitch views.
+ * Drawn in a 100 x 64 viewBox: x runs along the pitch length (0-100),
+ * y along the width (0-64). Event coordinates (0-100 on both axes) map to
+ * (x, y * 0.64) in this space.
+ */
+export const PITCH_VIEWBOX_HEIGHT = 64;
+
+export const PitchMarkings: React.FC = () => (
+  <>
+    <rect x="0" y="0" width="100" height={PITCH_VIEWBOX_HEIGHT} fill="#3f7d3a" />
+    <g fill="none" stroke="#ffffff" strokeWidth="0.4" opacity="0.8">
+      <rect x="0.5" y="0.5" width="99" height="63" />
+      <line x1="50" y1="0.5" x2="50" y2="63.5" />
+      <circle cx="50" cy="32" r="8" />
+      <rect x="0.5" y="14" width="16" height="36" />
+      <rect x="83.5" y="14" width="16" height="36" />
+      <rect x="0.5" y="24" width="5.5" height="16" />
+      <rect x="94" y="24" width="5.5" height="16" />
+    </g>
+  </>
+);
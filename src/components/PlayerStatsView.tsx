@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getAllTeams, getUserTeams } from '../services/teamService';
+import { getAllSeasons } from '../services/seasonService';
+import { getMatches, Match } from '../services/matchService';
+import { getPlayerStats, PlayerStatsEntry, PlayerStatsFilters, PlayerStatTotals } from '../services/playerService';
+import { Season, Team } from '../types/auth';
+import { JOGA_COLORS } from '../utils/colors';
+import { UserMenu } from './UserMenu';
+
+type StatsScope = 'season' | 'match' | 'dates';
+
+const STAT_COLUMNS: Array<{ key: keyof PlayerStatTotals; label: string }> = [
+  { key: 'shots', label: 'Shots' },
+  { key: 'goals', label: 'Goals' },
+  { key: 'assists', label: 'Assists' },
+  { key: 'passes', label: 'Passes' },
+  { key: 'passStrings', label: 'Pass Strings' },
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]';
+
+/**
+ * Individual player stats (shots, goals, assists, passes, pass strings) from tagged events,
+ * as totals or per 60 minutes played, for a season, a single match or a date range.
+ * Coaches only see their assigned teams.
+ */
+export const PlayerStatsView: React.FC = () => {
+  const { user } = useAuth();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  const [scope, setScope] = useState<StatsScope>('season');
+  const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
+  const [selectedMatchId, setSelectedMatchId] = useState<number | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [showPer60, setShowPer60] = useState(false);
+  const [stats, setStats] = useState<PlayerStatsEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const loadTeams = user.role === 'admin' ? getAllTeams() : getUserTeams(user.id);
+    loadTeams
+      .then(setTeams)
+      .catch(err => console.error('Error loading teams:', err));
+    getAllSeasons()
+      .then(loaded => {
+        setSeasons(loaded);
+        const active = loaded.find(season => season.isActive);
+        if (active) setSelectedSeasonId(active.id);
+      })
+      .catch(err => console.error('Error loading seasons:', err));
+  }, [user]);
+
+  useEffect(() => {
+    setSelectedMatchId(null);
+    if (!selectedTeamId) {
+      setMatches([]);
+      return;
+    }
+    getMatches({ teamId: selectedTeamId })
+      .then(loaded => setMatches(loaded.filter(match => match.status !== 'cancelled')))
+      .catch(err => console.error('Error loading matches:', err));
+  }, [selectedTeamId]);
+
+  useEffect(() => {
+    const filters: PlayerStatsFilters = { teamId: selectedTeamId ?? undefined };
+    if (scope === 'season') {
+      filters.seasonId = selectedSeasonId ?? undefined;
+    } else if (scope === 'match') {
+      if (!selectedMatchId) {
+        setStats([]);
+        return;
+      }
+      filters.matchId = selectedMatchId;
+    } else {
+      filters.startDate = startDate || undefined;
+      filters.endDate = endDate || undefined;
+    }
+
+    setLoading(true);
+    setError(null);
+    getPlayerStats(filters)
+      .then(setStats)
+      .catch(err => {
+        setStats([]);
+        setError(err instanceof Error ? err.message : 'Failed to load player stats');
+      })
+      .finally(() => setLoading(false));
+  }, [selectedTeamId, scope, selectedSeasonId, selectedMatchId, startDate, endDate]);
+
+  const formatStat = (entry: PlayerStatsEntry, key: keyof PlayerStatTotals): string => {
+    if (!showPer60) return entry.totals[key].toString();
+    return entry.per60 ? entry.per60[key].toFixed(2) : '—';
+  };
+
+  const showTeamColumn = !selectedTeamId;
+
+  return (
+    <>
+      <header className="bg-white shadow-sm border-b border-gray-200 relative">
+        <div className="px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Player Stats</h1>
+              <p className="text-sm text-gray-600 mt-1">Individual stats from tagged events, for tracking each player's development.</p>
+            </div>
+            <div className="relative">
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {/* Team and scope selection */}
+          <div className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Team</label>
+              <select
+                value={selectedTeamId || ''}
+                onChange={(e) => setSelectedTeamId(e.target.value ? parseInt(e.target.value) : null)}
+                className={INPUT_CLASS}
+              >
+                <option value="">{user?.role === 'admin' ? 'All teams' : 'All my teams'}</option>
+                {teams.map(team => (
+                  <option key={team.id} value={team.id}>{team.displayName}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Period</label>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as StatsScope)}
+                className={INPUT_CLASS}
+              >
+                <option value="season">Season</option>
+                <option value="match">Single match</option>
+                <option value="dates">Date range</option>
+              </select>
+            </div>
+            <div>
+              {scope === 'season' && (
+                <>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Season</label>
+                  <select
+                    value={selectedSeasonId || ''}
+                    onChange={(e) => setSelectedSeasonId(e.target.value ? parseInt(e.target.value) : null)}
+                    className={INPUT_CLASS}
+                  >
+                    <option value="">All seasons</option>
+                    {seasons.map(season => (
+                      <option key={season.id} value={season.id}>{season.name}{season.isActive ? ' (active)' : ''}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+              {scope === 'match' && (
+                <>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Match</label>
+                  <select
+                    value={selectedMatchId || ''}
+                    onChange={(e) => setSelectedMatchId(e.target.value ? parseInt(e.target.value) : null)}
+                    disabled={!selectedTeamId}
+                    className={`${INPUT_CLASS} disabled:bg-gray-100 disabled:text-gray-500`}
+                  >
+                    <option value="">{selectedTeamId ? 'Select match...' : 'Select a team first'}</option>
+                    {matches.map(match => (
+                      <option key={match.id} value={match.id}>{match.matchDate} vs {match.opponentName}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+              {scope === 'dates' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                    <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={INPUT_CLASS} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                    <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={INPUT_CLASS} />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Players</h2>
+                {showPer60 && (
+                  <p className="text-xs text-gray-500 mt-1">Per 60 minutes played, from matches with a saved lineup.</p>
+                )}
+              </div>
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                {[{ per60: false, label: 'Totals' }, { per60: true, label: 'Per 60' }].map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => setShowPer60(option.per60)}
+                    className="px-3 py-1.5 font-medium text-black"
+                    style={{ backgroundColor: showPer60 === option.per60 ? JOGA_COLORS.voltYellow : 'white' }}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-gray-600 mx-auto"></div>
+              </div>
+            ) : scope === 'match' && !selectedMatchId ? (
+              <p className="px-6 py-4 text-sm text-gray-600">Select a team and match to see its player stats.</p>
+            ) : stats.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-gray-600">No player events tagged for this period.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Player</th>
+                      {showTeamColumn && <th className="px-4 py-2 text-left font-medium text-gray-600">Team</th>}
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">Matches</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">Minutes</th>
+                      {STAT_COLUMNS.map(column => (
+                        <th key={column.key} className="px-4 py-2 text-right font-medium text-gray-600 whitespace-nowrap">{column.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {stats.map(entry => (
+                      <tr key={`${entry.teamId}:${entry.playerId ?? entry.playerName}`}>
+                        <td className="px-4 py-2 text-gray-900">{entry.playerName}</td>
+                        {showTeamColumn && <td className="px-4 py-2 text-gray-700">{entry.teamName}</td>}
+                        <td className="px-4 py-2 text-right text-gray-700">{entry.matches}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{entry.minutesPlayed ?? '—'}</td>
+                        {STAT_COLUMNS.map(column => (
+                          <td key={column.key} className="px-4 py-2 text-right text-gray-700">{formatStat(entry, column.key)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
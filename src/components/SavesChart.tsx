@@ -0,0 +1,148 @@
+import React from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LabelList } from 'recharts';
+import { MatchData } from '../types';
+import { JOGA_COLORS } from '../utils/colors';
+import { DEFAULT_SAVES_CONFIG, getChartTitle } from '../types/chartConfig';
+import { ChartConfigPanel } from './ChartConfigPanel';
+import { ChartExpandButton } from './ChartExpandButton';
+import { useChartConfig } from '../hooks/useChartConfig';
+
+interface SavesChartProps {
+  data: MatchData[];
+  savesKey: string;
+  opponentKey: string;
+  // Optional metrics (if available in data)
+  savePctKey?: string;
+  showLabels?: boolean;
+  onExpansionChange?: (isExpanded: boolean) => void; // Callback when expansion state changes
+}
+
+export const SavesChart: React.FC<SavesChartProps> = ({
+  data,
+  savesKey,
+  opponentKey,
+  savePctKey,
+  showLabels = false,
+  onExpansionChange,
+}) => {
+  const { config, isLoading, handleConfigChange, handleSave, handleReset, handleExpandToggle, isExpanded } = useChartConfig({
+    chartType: 'saves',
+    defaultConfig: DEFAULT_SAVES_CONFIG,
+    onExpansionChange,
+  });
+
+  const showSavePct = config.visibleMetrics.includes('savePct') && !!savePctKey;
+
+  // Build chart data based on configuration
+  const chartData = data.map((match) => {
+    const base: Record<string, string | number | null> = {
+      name: match[opponentKey] || 'Opponent',
+    };
+
+    if (config.visibleMetrics.includes('saves')) {
+      base['Saves'] = typeof match[savesKey] === 'number' ? match[savesKey] : 0;
+    }
+    if (showSavePct) {
+      const val = match[savePctKey!];
+      base['Save %'] = typeof val === 'number' ? val : null;
+    }
+
+    return base;
+  });
+
+  // Determine which elements to render based on config
+  const renderChartElements = () => {
+    const elements: JSX.Element[] = [];
+
+    if (config.visibleMetrics.includes('saves')) {
+      elements.push(
+        <Bar key="Saves" yAxisId="left" dataKey="Saves" fill={JOGA_COLORS.valorBlue} animationDuration={500}>
+          {showLabels && <LabelList dataKey="Saves" position="top" fill="#666" fontSize={12} />}
+        </Bar>
+      );
+    }
+    if (showSavePct) {
+      elements.push(
+        <Line
+          key="Save %"
+          yAxisId="right"
+          type="monotone"
+          dataKey="Save %"
+          stroke={JOGA_COLORS.voltYellow}
+          strokeWidth={2}
+          connectNulls
+        />
+      );
+    }
+
+    return elements;
+  };
+
+  // Available metrics
+  const availableMetrics = [
+    { id: 'saves', label: 'Saves', required: false },
+    ...(savePctKey ? [{ id: 'savePct', label: 'Save %', required: false }] : []),
+  ];
+
+  // Generate dynamic title
+  const chartTitle = getChartTitle('saves', config.visibleMetrics);
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-xl font-bold mb-2 text-gray-800">{chartTitle}</h3>
+        <div className="flex items-center justify-center h-96">
+          <p className="text-gray-500">Loading chart configuration...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 relative group">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-800">{chartTitle}</h3>
+        <div className="flex items-center gap-2">
+          <ChartExpandButton isExpanded={isExpanded} onToggle={handleExpandToggle} />
+          <ChartConfigPanel
+            chartType="saves"
+            config={config}
+            availableMetrics={availableMetrics}
+            onConfigChange={handleConfigChange}
+            onSave={handleSave}
+            onReset={handleReset}
+            hideOpponentToggle
+          />
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={400}>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 30, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <Legend
+            verticalAlign="top"
+            align="center"
+            wrapperStyle={{ paddingBottom: '15px', color: '#1f2937' }}
+            formatter={(value: string) => value.trim()}
+          />
+          <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
+          <YAxis yAxisId="left" allowDecimals={false} />
+          <YAxis yAxisId="right" orientation="right" domain={[0, 100]} label={{ value: 'Percent', angle: 90, position: 'insideRight' }} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#111827',
+              color: '#ffffff',
+              border: '1px solid #374151',
+              borderRadius: '8px',
+              padding: '12px'
+            }}
+            formatter={(value: number, name: string) => [
+              name === 'Save %' && typeof value === 'number' ? `${value.toFixed(1)}%` : value,
+              name,
+            ]}
+          />
+          {renderChartElements()}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { getSetPieceAnalytics, SetPieceAnalytics, SetPieceSplit, SetPieceTally, SetPieceType } from '../services/matchService';
+import { JOGA_COLORS, OPPONENT_COLORS } from '../utils/colors';
+import { useAsyncData } from '../hooks/useAsyncData';
+import { ChartExpandButton } from './ChartExpandButton';
+
+interface SetPiecesChartProps {
+  games: Array<{ matchId: number; title: string }>; // Displayed games that exist in the database
+  onExpansionChange?: (isExpanded: boolean) => void;
+}
+
+type Breakdown = 'delivery' | 'side';
+
+const SELECT_CLASS = 'px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white text-black focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa]';
+
+function formatOption(value: string): string {
+  return value.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${rate.toFixed(1)}%`;
+}
+
+const TallyCard: React.FC<{ label: string; tally: SetPieceTally; color: string }> = ({ label, tally, color }) => (
+  <div className="rounded-lg border border-gray-200 p-3">
+    <div className="flex items-center gap-2 mb-2">
+      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+      <span className="text-sm font-semibold text-gray-900">{label}</span>
+      <span className="text-xs text-gray-500">{tally.total} set piece{tally.total === 1 ? '' : 's'}</span>
+    </div>
+    <div className="grid grid-cols-2 gap-2 text-sm">
+      <div>
+        <div className="text-xs text-gray-500">Led to a shot</div>
+        <div className="text-lg font-bold text-gray-900">{formatRate(tally.shotRate)}</div>
+      </div>
+      <div>
+        <div className="text-xs text-gray-500">Led to a goal</div>
+        <div className="text-lg font-bold text-gray-900">{formatRate(tally.goalRate)}</div>
+      </div>
+    </div>
+    <div className="text-xs text-gray-600 mt-2">
+      {tally.goals} goal{tally.goals === 1 ? '' : 's'} · {tally.shots} shot{tally.shots === 1 ? '' : 's'} · {tally.cleared} cleared · {tally.retained} retained
+      {tally.withoutOutcome > 0 && <span className="text-gray-400"> · {tally.withoutOutcome} without outcome</span>}
+    </div>
+  </div>
+);
+
+/**
+ * Corner and free kick analytics for one or all of the displayed games:
+ * conversion for and against, shot rate by game, and a breakdown by delivery or side.
+ * Built from set-piece events, so outcomes must be tagged for rates to show.
+ */
+export const SetPiecesChart: React.FC<SetPiecesChartProps> = ({ games, onExpansionChange }) => {
+  const [selectedMatchId, setSelectedMatchId] = useState<number | null>(null);
+  const [type, setType] = useState<SetPieceType | ''>('');
+  const [breakdown, setBreakdown] = useState<Breakdown>('delivery');
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const matchIds = useMemo(() => {
+    if (selectedMatchId && games.some(game => game.matchId === selectedMatchId)) {
+      return [selectedMatchId];
+    }
+    return games.map(game => game.matchId);
+  }, [games, selectedMatchId]);
+
+  const loadAnalytics = useCallback(() => getSetPieceAnalytics(matchIds, type || undefined), [matchIds, type]);
+  const { data: analytics, loading, error } = useAsyncData<SetPieceAnalytics>(
+    matchIds.length > 0 ? loadAnalytics : null,
+    'Failed to load set pieces'
+  );
+
+  const handleExpandToggle = () => {
+    setIsExpanded(!isExpanded);
+    onExpansionChange?.(!isExpanded);
+  };
+
+  const trendData = useMemo(() => {
+    const titles = new Map(games.map(game => [game.matchId, game.title]));
+    return (analytics?.trend || []).map(entry => ({
+      name: titles.get(entry.matchId) || `Match ${entry.matchId}`,
+      'Shot % For': entry.for.shotRate,
+      'Shot % Against': entry.against.shotRate,
+    }));
+  }, [analytics, games]);
+
+  const breakdownRows: Array<SetPieceSplit & { label: string }> = breakdown === 'delivery'
+    ? (analytics?.deliveries || []).map(row => ({ ...row, label: formatOption(row.delivery) }))
+    : (analytics?.sides || []).map(row => ({ ...row, label: formatOption(row.side) }));
+
+  const hasSetPieces = !!analytics && (analytics.totals.for.total > 0 || analytics.totals.against.total > 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 relative group">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-800">Set Pieces</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedMatchId || ''}
+            onChange={(e) => setSelectedMatchId(e.target.value ? parseInt(e.target.value) : null)}
+            className={SELECT_CLASS}
+          >
+            <option value="">All displayed games ({games.length})</option>
+            {games.map(game => (
+              <option key={game.matchId} value={game.matchId}>{game.title}</option>
+            ))}
+          </select>
+          <select value={type} onChange={(e) => setType(e.target.value as SetPieceType | '')} className={SELECT_CLASS}>
+            <option value="">Corners & free kicks</option>
+            <option value="corner">Corners</option>
+            <option value="free_kick">Free kicks</option>
+          </select>
+          <ChartExpandButton isExpanded={isExpanded} onToggle={handleExpandToggle} />
+        </div>
+      </div>
+
+      {games.length === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          Set-piece analytics need games entered in the app with tagged corners and free kicks.
+        </div>
+      ) : loading && !analytics ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500">Loading set pieces...</div>
+      ) : error ? (
+        <div className="h-40 flex items-center justify-center text-sm text-red-600">{error}</div>
+      ) : !analytics || !hasSetPieces ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          No set pieces logged for {matchIds.length === 1 ? 'this game' : 'these games'}.
+        </div>
+      ) : (
+        <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <TallyCard label="For" tally={analytics.totals.for} color={JOGA_COLORS.voltYellow} />
+            <TallyCard label="Against" tally={analytics.totals.against} color={OPPONENT_COLORS.primary} />
+          </div>
+
+          {trendData.length > 1 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-1">Set pieces leading to a shot, by game</h4>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={trendData} margin={{ top: 5, right: 30, left: 0, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <Legend verticalAlign="top" align="center" wrapperStyle={{ paddingBottom: '10px', color: '#1f2937' }} />
+                  <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#111827',
+                      color: '#ffffff',
+                      border: '1px solid #374151',
+                      borderRadius: '8px',
+                      padding: '12px'
+                    }}
+                    formatter={(value: number, name: string) => [typeof value === 'number' ? `${value.toFixed(1)}%` : value, name]}
+                  />
+                  <Line type="monotone" dataKey="Shot % For" stroke={JOGA_COLORS.valorBlue} strokeWidth={2} connectNulls />
+                  <Line type="monotone" dataKey="Shot % Against" stroke={OPPONENT_COLORS.dark} strokeWidth={2} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="text-sm font-semibold text-gray-900">Breakdown</h4>
+              <select value={breakdown} onChange={(e) => setBreakdown(e.target.value as Breakdown)} className={SELECT_CLASS}>
+                <option value="delivery">By delivery</option>
+                <option value="side">By side</option>
+              </select>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 border-b border-gray-200">
+                  <th className="text-left py-1 font-medium">{breakdown === 'delivery' ? 'Delivery' : 'Side'}</th>
+                  <th className="text-right py-1 font-medium">For</th>
+                  <th className="text-right py-1 font-medium">Shot %</th>
+                  <th className="text-right py-1 font-medium">Goal %</th>
+                  <th className="text-right py-1 font-medium">Against</th>
+                  <th className="text-right py-1 font-medium">Shot %</th>
+                  <th className="text-right py-1 font-medium">Goal %</th>
+                </tr>
+              </thead>
+              <tbody>
+                {breakdownRows.map(row => (
+                  <tr key={row.label} className="border-b border-gray-100 text-gray-900">
+                    <td className="py-1">{row.label}</td>
+                    <td className="text-right py-1">{row.for.total}</td>
+                    <td className="text-right py-1">{formatRate(row.for.shotRate)}</td>
+                    <td className="text-right py-1">{formatRate(row.for.goalRate)}</td>
+                    <td className="text-right py-1">{row.against.total}</td>
+                    <td className="text-right py-1">{formatRate(row.against.shotRate)}</td>
+                    <td className="text-right py-1">{formatRate(row.against.goalRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Rates count set pieces with an outcome logged; a goal also counts as a shot.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
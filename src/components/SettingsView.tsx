@@ -4,6 +4,8 @@ import { ChangePassword } from './ChangePassword';
 import { UserPreferences } from './UserPreferences';
 import { UserManagement } from './UserManagement';
 import { TeamManagement } from './TeamManagement';
+import { ClubSettings } from './ClubSettings';
+import { OpponentManagement } from './OpponentManagement';
 import { UserMenu } from './UserMenu';
 import { CustomChartsManagement } from './CustomChartsManagement';
 import { AllCustomChartsManagement } from './AllCustomChartsManagement';
@@ -18,10 +20,16 @@ import { getAllTeams } from '../services/teamService';
 import { createTeamSlugMap } from '../utils/teamMapping';
 import type { MatchData } from '../types';
 import type { Team } from '../types/auth';
+import type { MetricNormalization } from '../utils/metricNormalization';
 
-export const SettingsView: React.FC = () => {
+interface SettingsViewProps {
+  metricNormalization: MetricNormalization;
+  setMetricNormalization: (value: MetricNormalization) => void;
+}
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ metricNormalization, setMetricNormalization }) => {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'account' | 'preferences' | 'custom-charts' | 'data-at-a-glance' | 'users' | 'teams'>('account');
+  const [activeTab, setActiveTab] = useState<'account' | 'preferences' | 'custom-charts' | 'data-at-a-glance' | 'users' | 'teams' | 'opponents' | 'club'>('account');
   const [isChartBuilderOpen, setIsChartBuilderOpen] = useState(false);
   const [editingChart, setEditingChart] = useState<CustomChart | null>(null);
   const [matchData, setMatchData] = useState<MatchData[]>([]);
@@ -181,6 +189,26 @@ export const SettingsView: React.FC = () => {
                 >
                   Teams
                 </button>
+                <button
+                  onClick={() => setActiveTab('opponents')}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'opponents'
+                      ? 'border-[#6787aa] text-[#6787aa]'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Opponents
+                </button>
+                <button
+                  onClick={() => setActiveTab('club')}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'club'
+                      ? 'border-[#6787aa] text-[#6787aa]'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Club
+                </button>
               </>
             )}
           </nav>
@@ -308,6 +336,8 @@ export const SettingsView: React.FC = () => {
                   matchData={matchData}
                   columnKeys={columnKeys}
                   teamSlugMap={createTeamSlugMap(teams)}
+                  metricNormalization={metricNormalization}
+                  setMetricNormalization={setMetricNormalization}
                 />
               )}
             </div>
@@ -316,6 +346,10 @@ export const SettingsView: React.FC = () => {
           {activeTab === 'users' && isAdmin && <UserManagement />}
 
           {activeTab === 'teams' && isAdmin && <TeamManagement />}
+
+          {activeTab === 'opponents' && isAdmin && <OpponentManagement />}
+
+          {activeTab === 'club' && isAdmin && <ClubSettings />}
         </div>
         </div>
       </div>
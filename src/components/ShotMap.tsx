@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { getMatchShots, MatchShotsResponse, ShotOutcome } from '../services/matchService';
+import { JOGA_COLORS, OPPONENT_COLORS } from '../utils/colors';
+import { PitchMarkings, PITCH_VIEWBOX_HEIGHT } from './PitchMarkings';
+
+interface ShotMapProps {
+  matchId: number;
+  title?: string;
+}
+
+const OUTCOME_STYLES: Record<ShotOutcome, { label: string; fill: string }> = {
+  goal: { label: 'Goal', fill: JOGA_COLORS.voltYellow },
+  on_target: { label: 'On target', fill: JOGA_COLORS.valorBlue },
+  off_target: { label: 'Off target', fill: JOGA_COLORS.pinkFoam },
+  blocked: { label: 'Blocked', fill: OPPONENT_COLORS.primary },
+  unknown: { label: 'Shot', fill: '#ffffff' },
+};
+
+// Marker radius (viewBox units) grows with xG
+function getShotRadius(xG: number): number {
+  return 0.8 + xG * 4;
+}
+
+/**
+ * Shot map for a single match.
+ * JOGA attacks left to right; opponent shots appear in the left half.
+ * Markers are sized by xG and colored by outcome.
+ */
+export const ShotMap: React.FC<ShotMapProps> = ({ matchId, title }) => {
+  const [data, setData] = useState<MatchShotsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadShots = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await getMatchShots(matchId);
+        if (!cancelled) setData(response);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load shots');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadShots();
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId]);
+
+  const missingLocations = data ? data.shotsWithoutLocationFor + data.shotsWithoutLocationAgainst : 0;
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-baseline justify-between mb-2">
+        {title && <h3 className="text-sm font-semibold text-gray-900">{title}</h3>}
+        {data && data.shots.length > 0 && (
+          <span className="text-xs text-gray-600">
+            xG <span className="font-semibold text-gray-900">{data.xG.toFixed(2)}</span>
+            {' – '}
+            <span className="font-semibold text-gray-900">{data.xGA.toFixed(2)}</span> xGA
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500">Loading shots...</div>
+      ) : error ? (
+        <div className="h-40 flex items-center justify-center text-sm text-red-600">{error}</div>
+      ) : !data || data.shots.length === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500 bg-gray-50 rounded-lg">
+          No shot locations logged for this match.
+        </div>
+      ) : (
+        <>
+          <svg viewBox={`0 0 100 ${PITCH_VIEWBOX_HEIGHT}`} className="w-full rounded-lg">
+            <PitchMarkings />
+            {/* Larger markers first so small ones stay visible on top */}
+            {[...data.shots].sort((a, b) => b.xG - a.xG).map(shot => (
+              <circle
+                key={shot.eventId}
+                cx={shot.x}
+                cy={(shot.y / 100) * PITCH_VIEWBOX_HEIGHT}
+                r={getShotRadius(shot.xG)}
+                fill={OUTCOME_STYLES[shot.outcome].fill}
+                fillOpacity={0.85}
+                stroke={shot.isJogaTeam ? '#000000' : OPPONENT_COLORS.light}
+                strokeWidth="0.3"
+              >
+                <title>
+                  {`${shot.isJogaTeam ? 'JOGA' : 'Opponent'} ${OUTCOME_STYLES[shot.outcome].label.toLowerCase()}`}
+                  {shot.minute != null ? ` (${shot.minute}')` : ''}
+                  {shot.playerName ? ` - ${shot.playerName}` : ''}
+                  {` - xG ${shot.xG.toFixed(2)}`}
+                </title>
+              </circle>
+            ))}
+          </svg>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-600">
+            {(Object.keys(OUTCOME_STYLES) as ShotOutcome[])
+              .filter(outcome => data.shots.some(shot => shot.outcome === outcome))
+              .map(outcome => (
+                <span key={outcome} className="flex items-center gap-1">
+                  <span
+                    className="inline-block w-3 h-3 rounded-full border border-gray-400"
+                    style={{ backgroundColor: OUTCOME_STYLES[outcome].fill }}
+                  />
+                  {OUTCOME_STYLES[outcome].label}
+                </span>
+              ))}
+            <span className="text-gray-400">Size = xG</span>
+          </div>
+          {missingLocations > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              {missingLocations} shot{missingLocations === 1 ? '' : 's'} without a location not shown.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { UpcomingFixtures } from './UpcomingFixtures';
 
-type ViewType = 'dashboard' | 'chat' | 'team-data' | 'club-data' | 'game-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor';
+type ViewType = 'dashboard' | 'chat' | 'team-data' | 'club-data' | 'game-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor' | 'live-tagging' | 'opponent-history' | 'competitions' | 'fixtures' | 'player-stats';
 
 interface SidebarProps {
-  currentView: 'dashboard' | 'chat' | 'game-data' | 'club-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor';
+  currentView: 'dashboard' | 'chat' | 'game-data' | 'club-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor' | 'live-tagging' | 'opponent-history' | 'competitions' | 'fixtures' | 'player-stats';
   onNavigate: (view: ViewType) => void;
 }
 
@@ -167,6 +168,108 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate }) =>
                 Game Data
               </span>
             </button>
+            <button
+              onClick={() => onNavigate('player-stats')}
+              className={`w-full flex items-center py-3 text-sm transition-colors ${
+                isExpanded ? 'px-4 justify-start' : 'justify-center'
+              } ${
+                currentView === 'player-stats'
+                  ? 'bg-gray-700 text-white'
+                  : 'hover:bg-gray-700 text-gray-300'
+              }`}
+              title={!isExpanded ? 'Player Stats' : undefined}
+            >
+              <svg
+                className={`w-5 h-5 flex-shrink-0 ${!isExpanded ? 'mx-auto' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                />
+              </svg>
+              <span 
+                className={`ml-3 whitespace-nowrap transition-all duration-300 ease-in-out ${
+                  isExpanded 
+                    ? 'opacity-100 max-w-[200px]' 
+                    : 'opacity-0 max-w-0 overflow-hidden'
+                }`}
+              >
+                Player Stats
+              </span>
+            </button>
+            <button
+              onClick={() => onNavigate('opponent-history')}
+              className={`w-full flex items-center py-3 text-sm transition-colors ${
+                isExpanded ? 'px-4 justify-start' : 'justify-center'
+              } ${
+                currentView === 'opponent-history'
+                  ? 'bg-gray-700 text-white'
+                  : 'hover:bg-gray-700 text-gray-300'
+              }`}
+              title={!isExpanded ? 'Opponent History' : undefined}
+            >
+              <svg
+                className={`w-5 h-5 flex-shrink-0 ${!isExpanded ? 'mx-auto' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                />
+              </svg>
+              <span 
+                className={`ml-3 whitespace-nowrap transition-all duration-300 ease-in-out ${
+                  isExpanded 
+                    ? 'opacity-100 max-w-[200px]' 
+                    : 'opacity-0 max-w-0 overflow-hidden'
+                }`}
+              >
+                Opponent History
+              </span>
+            </button>
+            <button
+              onClick={() => onNavigate('competitions')}
+              className={`w-full flex items-center py-3 text-sm transition-colors ${
+                isExpanded ? 'px-4 justify-start' : 'justify-center'
+              } ${
+                currentView === 'competitions'
+                  ? 'bg-gray-700 text-white'
+                  : 'hover:bg-gray-700 text-gray-300'
+              }`}
+              title={!isExpanded ? 'Competitions' : undefined}
+            >
+              <svg
+                className={`w-5 h-5 flex-shrink-0 ${!isExpanded ? 'mx-auto' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                />
+              </svg>
+              <span 
+                className={`ml-3 whitespace-nowrap transition-all duration-300 ease-in-out ${
+                  isExpanded 
+                    ? 'opacity-100 max-w-[200px]' 
+                    : 'opacity-0 max-w-0 overflow-hidden'
+                }`}
+              >
+                Competitions
+              </span>
+            </button>
           </div>
         </div>
 
@@ -253,6 +356,40 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate }) =>
                 Upload Game Data
               </span>
             </button>
+            <button
+              onClick={() => onNavigate('fixtures')}
+              className={`w-full flex items-center py-3 text-sm transition-colors ${
+                isExpanded ? 'px-4 justify-start' : 'justify-center'
+              } ${
+                currentView === 'fixtures'
+                  ? 'bg-gray-700 text-white'
+                  : 'hover:bg-gray-700 text-gray-300'
+              }`}
+              title={!isExpanded ? 'Fixtures' : undefined}
+            >
+              <svg
+                className={`w-5 h-5 flex-shrink-0 ${!isExpanded ? 'mx-auto' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                />
+              </svg>
+              <span 
+                className={`ml-3 whitespace-nowrap transition-all duration-300 ease-in-out ${
+                  isExpanded 
+                    ? 'opacity-100 max-w-[200px]' 
+                    : 'opacity-0 max-w-0 overflow-hidden'
+                }`}
+              >
+                Fixtures
+              </span>
+            </button>
             <button
               onClick={() => onNavigate('glossary')}
               className={`w-full flex items-center py-3 text-sm transition-colors ${
@@ -342,6 +479,42 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate }) =>
                 Settings
               </span>
             </button>
+            {(user?.role === 'admin' || user?.role === 'coach') && (
+              <button
+                onClick={() => onNavigate('live-tagging')}
+                className={`w-full flex items-center py-3 text-sm transition-colors ${
+                  isExpanded ? 'px-4 justify-start' : 'justify-center'
+                } ${
+                  currentView === 'live-tagging'
+                    ? 'bg-gray-700 text-white'
+                    : 'hover:bg-gray-700 text-gray-300'
+                }`}
+                title={!isExpanded ? 'Live Tagging' : undefined}
+              >
+                <svg
+                  className={`w-5 h-5 flex-shrink-0 ${!isExpanded ? 'mx-auto' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+                <span 
+                  className={`ml-3 whitespace-nowrap transition-all duration-300 ease-in-out ${
+                    isExpanded 
+                      ? 'opacity-100 max-w-[200px]' 
+                      : 'opacity-0 max-w-0 overflow-hidden'
+                  }`}
+                >
+                  Live Tagging
+                </span>
+              </button>
+            )}
             {user?.role === 'admin' && (
               <button
                 onClick={() => onNavigate('match-editor' as any)}
@@ -380,6 +553,16 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate }) =>
             )}
           </div>
         </div>
+
+        {/* Next fixtures per team (only while expanded) */}
+        {isExpanded && (
+          <div className="mb-6">
+            <div className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider whitespace-nowrap">
+              Next Fixtures
+            </div>
+            <UpcomingFixtures variant="sidebar" limit={1} />
+          </div>
+        )}
       </nav>
     </div>
   );
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { JOGA_COLORS } from '../utils/colors';
+import type { StatValidationSeverity } from '../services/matchService';
+import {
+  StatValidationOperator,
+  StatValidationRule,
+  getStatValidationRules,
+  resetStatValidationRules,
+  updateStatValidationRules,
+} from '../services/clubSettingsService';
+
+const OPERATORS: StatValidationOperator[] = ['<=', '<', '=', '>=', '>'];
+
+const EMPTY_NEW_RULE = {
+  message: '',
+  left: '',
+  operator: '<=' as StatValidationOperator,
+  right: '',
+  tolerance: '',
+  severity: 'warning' as StatValidationSeverity,
+};
+
+function formatRuleExpression(rule: StatValidationRule): string {
+  const right = Array.isArray(rule.right) ? rule.right.join(' + ') : String(rule.right);
+  const tolerance = rule.tolerance ? ` (±${rule.tolerance})` : '';
+  return `${rule.left.join(' + ')} ${rule.operator} ${right}${tolerance}`;
+}
+
+function parseFieldList(value: string): string[] {
+  return value.split(/[,+]/).map(field => field.trim()).filter(Boolean);
+}
+
+function toRuleId(message: string, existingIds: Set<string>): string {
+  const base = message.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'rule';
+  let id = base;
+  for (let suffix = 2; existingIds.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Admin editor for the rules entered match stats are checked against.
+ * Field names are the normalized stat keys (e.g. goalsFor1stHalf, possessionDef).
+ */
+export const StatValidationRulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<StatValidationRule[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newRule, setNewRule] = useState(EMPTY_NEW_RULE);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    getStatValidationRules()
+      .then(ruleSet => {
+        setRules(ruleSet.rules);
+        setIsDefault(ruleSet.isDefault);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load validation rules'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const changeRules = (next: StatValidationRule[]) => {
+    setRules(next);
+    setIsDirty(true);
+    setSuccess('');
+  };
+
+  const updateRule = (id: string, changes: Partial<StatValidationRule>) => {
+    changeRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleAddRule = () => {
+    const left = parseFieldList(newRule.left);
+    const rightNumber = Number(newRule.right);
+    const right = newRule.right.trim() !== '' && Number.isFinite(rightNumber) ? rightNumber : parseFieldList(newRule.right);
+    const tolerance = newRule.tolerance.trim() === '' ? undefined : Number(newRule.tolerance);
+
+    if (!newRule.message.trim() || left.length === 0 || (Array.isArray(right) && right.length === 0)) {
+      setError('A new rule needs a message, left-hand fields and a right-hand side');
+      return;
+    }
+    if (tolerance !== undefined && (!Number.isFinite(tolerance) || tolerance < 0)) {
+      setError('Tolerance must be a number of 0 or more');
+      return;
+    }
+
+    setError('');
+    changeRules([
+      ...rules,
+      {
+        id: toRuleId(newRule.message, new Set(rules.map(rule => rule.id))),
+        message: newRule.message.trim(),
+        severity: newRule.severity,
+        enabled: true,
+        left,
+        operator: newRule.operator,
+        right,
+        ...(tolerance !== undefined ? { tolerance } : {}),
+      },
+    ]);
+    setNewRule(EMPTY_NEW_RULE);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const saved = await updateStatValidationRules(rules);
+      setRules(saved.rules);
+      setIsDefault(saved.isDefault);
+      setIsDirty(false);
+      setSuccess('Validation rules saved.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save validation rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Replace the current rules with the defaults?')) return;
+    setIsSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const defaults = await resetStatValidationRules();
+      setRules(defaults.rules);
+      setIsDefault(true);
+      setIsDirty(false);
+      setSuccess('Validation rules reset to the defaults.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset validation rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading validation rules...</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-semibold text-gray-900">Stat Validation Rules</h2>
+        <p className="text-xs text-gray-600 mt-1">
+          Checked whenever match stats are entered. Errors block the save; warnings must be acknowledged.
+          A rule only runs when all of its fields have values.{isDefault ? ' Using the default rules.' : ''}
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+        {success && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{success}</div>
+        )}
+
+        <table className="min-w-full text-sm">
+          <thead className="text-left text-xs text-gray-500">
+            <tr>
+              <th className="py-2 pr-3 font-medium">On</th>
+              <th className="py-2 pr-3 font-medium">Rule</th>
+              <th className="py-2 pr-3 font-medium">Severity</th>
+              <th className="py-2 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map(rule => (
+              <tr key={rule.id} className="border-t border-gray-100 align-top">
+                <td className="py-2 pr-3">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <div className={rule.enabled ? 'text-gray-900' : 'text-gray-400'}>{rule.message}</div>
+                  <div className="text-xs text-gray-500 font-mono">{formatRuleExpression(rule)}</div>
+                </td>
+                <td className="py-2 pr-3">
+                  <select
+                    value={rule.severity}
+                    onChange={(e) => updateRule(rule.id, { severity: e.target.value as StatValidationSeverity })}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="error">Error</option>
+                    <option value="warning">Warning</option>
+                  </select>
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => changeRules(rules.filter(other => other.id !== rule.id))}
+                    className="text-xs text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="border-t border-gray-200 pt-4">
+          <div className="text-sm font-semibold text-gray-700 mb-2">Add a rule</div>
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+            <label className="md:col-span-6 block text-xs font-medium text-gray-600">
+              Message
+              <input
+                type="text"
+                value={newRule.message}
+                onChange={(e) => setNewRule({ ...newRule, message: e.target.value })}
+                placeholder="Corners for can't be more than 20"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="md:col-span-2 block text-xs font-medium text-gray-600">
+              Fields (summed)
+              <input
+                type="text"
+                value={newRule.left}
+                onChange={(e) => setNewRule({ ...newRule, left: e.target.value })}
+                placeholder="cornersFor"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              Operator
+              <select
+                value={newRule.operator}
+                onChange={(e) => setNewRule({ ...newRule, operator: e.target.value as StatValidationOperator })}
+                className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {OPERATORS.map(operator => (
+                  <option key={operator} value={operator}>{operator}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              Fields or number
+              <input
+                type="text"
+                value={newRule.right}
+                onChange={(e) => setNewRule({ ...newRule, right: e.target.value })}
+                placeholder="20"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              Tolerance
+              <input
+                type="number"
+                min={0}
+                value={newRule.tolerance}
+                onChange={(e) => setNewRule({ ...newRule, tolerance: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              Severity
+              <select
+                value={newRule.severity}
+                onChange={(e) => setNewRule({ ...newRule, severity: e.target.value as StatValidationSeverity })}
+                className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="error">Error</option>
+                <option value="warning">Warning</option>
+              </select>
+            </label>
+          </div>
+          <button
+            type="button"
+            onClick={handleAddRule}
+            className="mt-3 px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Add rule
+          </button>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+          >
+            {isSaving ? 'Saving...' : 'Save rules'}
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={isDefault || isSaving}
+            className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
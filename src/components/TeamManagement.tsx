@@ -14,7 +14,9 @@ import { activateSeason, createSeason, getAllSeasons } from '../services/seasonS
 import type { Season, Team, User } from '../types/auth';
 import { JOGA_COLORS } from '../utils/colors';
 import { generateTeamSlug, normalizeLevel } from '../utils/teamSlug';
+import { defaultFormatForLevel, formatMatchFormatLabel, isMatchFormat, MATCH_FORMATS, type MatchFormat } from '../utils/matchFormats';
 import { getAgeGroupOptions } from '../config/levelToAgeGroup';
+import { TeamRosterModal } from './TeamRosterModal';
 // import { calculateAgeGroupFromLevel } from '../config/levelToAgeGroup'; // Reserved for Phase 2
 
 type Gender = 'boys' | 'girls';
@@ -36,6 +38,7 @@ export const TeamManagement: React.FC = () => {
 
   const [showCreateTeam, setShowCreateTeam] = useState(false);
   const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [rosterTeam, setRosterTeam] = useState<Team | null>(null);
 
   // Assignments UI
   const [selectedTeamForAssignments, setSelectedTeamForAssignments] = useState<Team | null>(null);
@@ -451,6 +454,7 @@ export const TeamManagement: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                       {team.level || <span className="text-gray-400">—</span>}
+                      {team.format && <span className="ml-2 text-xs text-gray-500">{team.format}</span>}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                       {team.ageGroup || <span className="text-gray-400">—</span>}
@@ -478,6 +482,12 @@ export const TeamManagement: React.FC = () => {
                         >
                           Assign Coaches
                         </button>
+                        <button
+                          onClick={() => setRosterTeam(team)}
+                          className="text-teal-600 hover:text-teal-900"
+                        >
+                          Roster
+                        </button>
                         {team.isActive && (
                           <button
                             onClick={async () => {
@@ -539,6 +549,10 @@ export const TeamManagement: React.FC = () => {
         />
       )}
 
+      {rosterTeam && (
+        <TeamRosterModal team={rosterTeam} onClose={() => setRosterTeam(null)} />
+      )}
+
       {selectedTeamForAssignments && (
         <AssignmentsModal
           team={selectedTeamForAssignments}
@@ -574,6 +588,7 @@ const TeamModal: React.FC<{
     gender: Gender;
     level: string;
     variant?: Variant;
+    format?: MatchFormat | null;
     ageGroup?: string | null;
     displayName?: string;
     metadata?: any;
@@ -587,6 +602,9 @@ const TeamModal: React.FC<{
   const [gender, setGender] = useState<Gender>((initialTeam?.gender as Gender) ?? 'boys');
   const [level, setLevel] = useState<string>(initialTeam?.level ?? 'U13');
   const [variant, setVariant] = useState<Variant>((initialTeam?.variant as Variant) ?? 'volt');
+  // '' follows the level (U10 and under 7v7, U11-U12 9v9, older 11v11)
+  const [format, setFormat] = useState<MatchFormat | ''>(initialTeam?.format ?? '');
+  const levelFormat = defaultFormatForLevel(normalizeLevel(level));
   const [displayName, setDisplayName] = useState<string>(initialTeam?.displayName ?? '');
   const [parentTeamId, setParentTeamId] = useState<number | null>(initialTeam?.parentTeamId ?? null);
   const [ageGroup, setAgeGroup] = useState<string>(initialTeam?.ageGroup ?? '');
@@ -638,6 +656,7 @@ const TeamModal: React.FC<{
         gender,
         level: normalizeLevel(level),
         variant,
+        format: format || levelFormat,
         ageGroup: ageGroup.trim() || null,
         displayName: displayName.trim() ? displayName.trim() : undefined,
         parentTeamId: parentTeamId ?? null,
@@ -717,6 +736,20 @@ const TeamModal: React.FC<{
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Match Format</label>
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(isMatchFormat(e.target.value) ? e.target.value : '')}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="">Default for level{levelFormat ? ` (${levelFormat})` : ''}</option>
+                  {MATCH_FORMATS.map(option => (
+                    <option key={option} value={option}>{formatMatchFormatLabel(option)}</option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Age Group</label>
                 <select
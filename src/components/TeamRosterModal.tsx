@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import type { Team } from '../types/auth';
+import { JOGA_COLORS } from '../utils/colors';
+import {
+  Player,
+  RosterImportPreview,
+  addPlayerToRoster,
+  commitRosterImport,
+  createPlayer,
+  getPlayers,
+  getTeamRoster,
+  previewRosterImport,
+  removePlayerFromRoster,
+  updatePlayer,
+} from '../services/playerService';
+
+interface TeamRosterModalProps {
+  team: Team;
+  onClose: () => void;
+}
+
+interface PlayerForm {
+  name: string;
+  jerseyNumber: string;
+  positions: string;
+  birthYear: string;
+}
+
+const EMPTY_FORM: PlayerForm = { name: '', jerseyNumber: '', positions: '', birthYear: '' };
+
+function toPlayerForm(player: Player): PlayerForm {
+  return {
+    name: player.name,
+    jerseyNumber: player.jerseyNumber !== null ? String(player.jerseyNumber) : '',
+    positions: player.positions.join(', '),
+    birthYear: player.birthYear !== null ? String(player.birthYear) : '',
+  };
+}
+
+function fromPlayerForm(form: PlayerForm) {
+  return {
+    name: form.name.trim(),
+    jerseyNumber: form.jerseyNumber.trim() ? parseInt(form.jerseyNumber) : null,
+    positions: form.positions.split(',').map(position => position.trim()).filter(Boolean),
+    birthYear: form.birthYear.trim() ? parseInt(form.birthYear) : null,
+  };
+}
+
+/**
+ * A team's roster (admin only): add, edit and remove players, bring in players from
+ * other teams (e.g. last season's team), and import a CSV roster.
+ */
+export const TeamRosterModal: React.FC<TeamRosterModalProps> = ({ team, onClose }) => {
+  const [roster, setRoster] = useState<Player[]>([]);
+  const [clubPlayers, setClubPlayers] = useState<Player[]>([]);
+  const [form, setForm] = useState<PlayerForm>(EMPTY_FORM);
+  const [editingPlayerId, setEditingPlayerId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<PlayerForm>(EMPTY_FORM);
+  const [existingPlayerId, setExistingPlayerId] = useState('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<RosterImportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadRoster = useCallback(async () => {
+    try {
+      const [teamRoster, allPlayers] = await Promise.all([getTeamRoster(team.id), getPlayers()]);
+      setRoster(teamRoster);
+      setClubPlayers(allPlayers);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load roster');
+    }
+  }, [team.id]);
+
+  useEffect(() => {
+    void loadRoster();
+  }, [loadRoster]);
+
+  const run = async (action: () => Promise<void>, successMessage?: string) => {
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await action();
+      await loadRoster();
+      if (successMessage) setSuccess(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    void run(async () => {
+      await createPlayer(fromPlayerForm(form), team.id);
+      setForm(EMPTY_FORM);
+    });
+  };
+
+  const handleSaveEdit = (playerId: number) => {
+    void run(async () => {
+      await updatePlayer(playerId, fromPlayerForm(editForm));
+      setEditingPlayerId(null);
+    });
+  };
+
+  const handleRemove = (player: Player) => {
+    if (!window.confirm(`Take ${player.name} off the ${team.displayName} roster?`)) return;
+    void run(() => removePlayerFromRoster(team.id, player.id));
+  };
+
+  const handleAddExisting = () => {
+    if (!existingPlayerId) return;
+    void run(async () => {
+      await addPlayerToRoster(team.id, parseInt(existingPlayerId));
+      setExistingPlayerId('');
+    });
+  };
+
+  const handlePreviewImport = async () => {
+    if (!importFile) return;
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      setImportPreview(await previewRosterImport(team.id, importFile));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read roster file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!importFile) return;
+    void run(async () => {
+      const result = await commitRosterImport(team.id, importFile);
+      setImportPreview(null);
+      setImportFile(null);
+      setSuccess(`Imported roster: ${result.created} new, ${result.updated} updated.`);
+    });
+  };
+
+  const rosterIds = new Set(roster.map(player => player.id));
+  const otherPlayers = clubPlayers.filter(player => !rosterIds.has(player.id));
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white text-black';
+
+  return (
+    <Modal isOpen onClose={onClose} title={`${team.displayName} Roster`} maxWidth="xl">
+      <div className="space-y-5">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+        {success && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{success}</div>
+        )}
+
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-700">
+              <tr>
+                <th className="px-3 py-2 w-20">#</th>
+                <th className="px-3 py-2">Name</th>
+                <th className="px-3 py-2">Positions</th>
+                <th className="px-3 py-2 w-28">Birth Year</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {roster.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-3 text-gray-500">No players on this roster yet.</td>
+                </tr>
+              )}
+              {roster.map(player => editingPlayerId === player.id ? (
+                <tr key={player.id} className="border-t border-gray-100 bg-gray-50">
+                  <td className="px-3 py-2">
+                    <input type="number" min={0} value={editForm.jerseyNumber} onChange={(e) => setEditForm({ ...editForm, jerseyNumber: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input type="text" value={editForm.name} onChange={(e) => setEditForm({ ...editForm, name: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input type="text" value={editForm.positions} onChange={(e) => setEditForm({ ...editForm, positions: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input type="number" value={editForm.birthYear} onChange={(e) => setEditForm({ ...editForm, birthYear: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                    <button onClick={() => handleSaveEdit(player.id)} disabled={loading} className="text-blue-600 hover:text-blue-900">Save</button>
+                    <button onClick={() => setEditingPlayerId(null)} className="text-gray-600 hover:text-gray-900">Cancel</button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={player.id} className="border-t border-gray-100">
+                  <td className="px-3 py-2 text-gray-900">{player.jerseyNumber ?? '-'}</td>
+                  <td className="px-3 py-2 text-gray-900">{player.name}</td>
+                  <td className="px-3 py-2 text-gray-700">{player.positions.join(', ') || '-'}</td>
+                  <td className="px-3 py-2 text-gray-700">{player.birthYear ?? '-'}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                    <button
+                      onClick={() => {
+                        setEditingPlayerId(player.id);
+                        setEditForm(toPlayerForm(player));
+                      }}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => handleRemove(player)} className="text-red-600 hover:text-red-800">Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <label className="text-xs font-medium text-gray-600 md:col-span-2">
+            Name
+            <input type="text" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Number
+            <input type="number" min={0} value={form.jerseyNumber} onChange={(e) => setForm({ ...form, jerseyNumber: e.target.value })} className={inputClass} />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Positions
+            <input type="text" placeholder="CB, DM" value={form.positions} onChange={(e) => setForm({ ...form, positions: e.target.value })} className={inputClass} />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Birth Year
+            <input type="number" value={form.birthYear} onChange={(e) => setForm({ ...form, birthYear: e.target.value })} className={inputClass} />
+          </label>
+          <div className="col-span-2 md:col-span-5 flex justify-end">
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50"
+              style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+            >
+              Add Player
+            </button>
+          </div>
+        </form>
+
+        {otherPlayers.length > 0 && (
+          <div className="flex flex-wrap items-end gap-2 border-t border-gray-200 pt-4">
+            <label className="flex-1 min-w-[240px] text-xs font-medium text-gray-600">
+              Add a player from another team
+              <select value={existingPlayerId} onChange={(e) => setExistingPlayerId(e.target.value)} className={inputClass}>
+                <option value="">Select player...</option>
+                {otherPlayers.map(player => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}{player.birthYear ? ` (${player.birthYear})` : ''}
+                    {player.teams.length > 0 ? ` - ${player.teams.map(playerTeam => playerTeam.teamName).join(', ')}` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleAddExisting}
+              disabled={!existingPlayerId || loading}
+              className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 disabled:opacity-50"
+            >
+              Add to Roster
+            </button>
+          </div>
+        )}
+
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900">Import CSV roster</h4>
+            <p className="text-xs text-gray-600">
+              Columns: Name (or First Name and Last Name), Number, Position, Birth Year. Players already on
+              this roster are updated by name.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".csv"
+              onChange={(e) => {
+                setImportFile(e.target.files?.[0] || null);
+                setImportPreview(null);
+              }}
+              className="text-sm"
+            />
+            <button
+              onClick={handlePreviewImport}
+              disabled={!importFile || loading}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-900 text-white disabled:opacity-50"
+            >
+              Preview
+            </button>
+          </div>
+
+          {importPreview && (
+            <>
+              <div className="text-sm text-gray-700">
+                {importPreview.summary.total} rows · {importPreview.summary.existing} existing players ·{' '}
+                {importPreview.summary.invalid} with errors
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-64">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-700">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">#</th>
+                      <th className="px-3 py-2">Name</th>
+                      <th className="px-3 py-2">Positions</th>
+                      <th className="px-3 py-2">Birth Year</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importPreview.rows.map(row => (
+                      <tr key={row.rowNumber} className={`border-t border-gray-100 ${row.errors.length > 0 ? 'bg-red-50/50' : ''}`}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2">{row.player.jerseyNumber ?? '-'}</td>
+                        <td className="px-3 py-2">{row.player.name || '-'}</td>
+                        <td className="px-3 py-2">{row.player.positions.join(', ') || '-'}</td>
+                        <td className="px-3 py-2">{row.player.birthYear ?? '-'}</td>
+                        <td className="px-3 py-2 text-xs">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-700">{row.errors.join('; ')}</span>
+                          ) : (
+                            <div className="flex flex-col gap-0.5">
+                              <span className="text-green-700">{row.existingPlayer ? 'Update' : 'New player'}</span>
+                              {row.warnings.map((warning, index) => (
+                                <span key={index} className="text-gray-600">{warning}</span>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleImport}
+                  disabled={loading || importPreview.summary.invalid > 0}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-black disabled:opacity-50"
+                  style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+                  title={importPreview.summary.invalid > 0 ? 'Fix the rows with errors first' : undefined}
+                >
+                  Import {importPreview.summary.total} player{importPreview.summary.total === 1 ? '' : 's'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
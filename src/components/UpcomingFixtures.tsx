@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Match, TeamFixtures, getUpcomingFixtures } from '../services/matchService';
+import { formatDateStringLocale } from '../utils/dateFormatting';
+
+interface UpcomingFixturesProps {
+  /** Only this team's fixtures (otherwise every team the user can see) */
+  teamId?: number;
+  /** Fixtures per team */
+  limit?: number;
+  /** 'sidebar' renders on the dark sidebar, 'card' on the dashboard */
+  variant?: 'sidebar' | 'card';
+}
+
+function formatHomeAway(match: Match): string {
+  return match.isHome === false ? '@' : 'vs';
+}
+
+function formatWhen(match: Match): string {
+  const date = formatDateStringLocale(match.matchDate);
+  return match.kickoffTime ? `${date} ${match.kickoffTime}` : date;
+}
+
+/**
+ * Next scheduled fixtures per team (see Fixtures view for entering the schedule)
+ */
+export const UpcomingFixtures: React.FC<UpcomingFixturesProps> = ({ teamId, limit = 3, variant = 'card' }) => {
+  const [teams, setTeams] = useState<TeamFixtures[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getUpcomingFixtures({ teamId, limit })
+      .then(result => {
+        if (!cancelled) setTeams(result);
+      })
+      .catch(error => console.error('Error loading upcoming fixtures:', error))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId, limit]);
+
+  if (variant === 'sidebar') {
+    if (teams.length === 0) return null;
+    return (
+      <div className="px-4 space-y-3">
+        {teams.map(team => (
+          <div key={team.teamId}>
+            <div className="text-xs font-medium text-gray-300 truncate">{team.teamDisplayName || team.teamSlug}</div>
+            {team.fixtures.map(fixture => (
+              <div key={fixture.id} className="text-xs text-gray-400 truncate" title={fixture.venue || undefined}>
+                {formatWhen(fixture)} {formatHomeAway(fixture)} {fixture.opponentName}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!loaded) return null;
+
+  const fixtures = teams.flatMap(team => team.fixtures.map(fixture => ({ team, fixture })));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden mb-6">
+      <div className="px-6 py-3 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-sm font-semibold text-gray-900">Next Fixtures</h2>
+      </div>
+      {fixtures.length === 0 ? (
+        <p className="px-6 py-3 text-sm text-gray-500">No upcoming fixtures scheduled.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {fixtures.map(({ team, fixture }) => (
+            <li key={fixture.id} className="px-6 py-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+              <span className="font-medium text-gray-900 whitespace-nowrap">{formatWhen(fixture)}</span>
+              {!teamId && <span className="text-gray-600">{team.teamDisplayName || team.teamSlug}</span>}
+              <span className="text-gray-900">{formatHomeAway(fixture)} {fixture.opponentName}</span>
+              {fixture.competitionName && <span className="text-gray-500">{fixture.competitionName}</span>}
+              {fixture.venue && <span className="text-gray-500">{fixture.venue}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
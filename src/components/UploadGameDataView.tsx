@@ -1,16 +1,30 @@
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { MatchData } from '../types';
-import { createMatch, updateMatch, previewMatchStats, PreviewMatchStatsResponse, Match } from '../services/matchService';
+import { createMatch, updateMatch, getMatches, previewMatchStats, PreviewMatchStatsResponse, Match } from '../services/matchService';
 import { JOGA_COLORS } from '../utils/colors';
 import { Team } from '../types/auth';
 import { PageLayout } from './PageLayout';
 import { getAllSeasons } from '../services/seasonService';
 import { normalizeFieldName } from '../utils/fieldDeduplication';
+import { formatDateStringLocale } from '../utils/dateFormatting';
 import { MatchConfirmationModal } from './MatchConfirmationModal';
 import { ExistingMatchModal } from './ExistingMatchModal';
 import { Modal } from './Modal';
 import { extractStatsFromImage } from '../services/ocrService';
 import { apiGet } from '../services/apiClient';
+import { getOpponentSuggestions, type Opponent } from '../services/opponentService';
+import { useAuth } from '../contexts/AuthContext';
+import { MatchImportModal } from './MatchImportModal';
+import {
+  MATCH_FORMATS,
+  MATCH_FORMAT_DEFAULTS,
+  MatchFormat,
+  expandPeriodCategories,
+  formatMatchFormatLabel,
+  getPeriodCategories,
+  getPeriodCount,
+  isMatchFormat,
+} from '../utils/matchFormats';
 
 interface UploadGameDataViewProps {
   columnKeys: string[];
@@ -41,6 +55,8 @@ const COMPUTED_FIELDS = [
   'penalty', 'penalties',
   // Result is computed/derived from goals
   'result',
+  // Defense - derived from the defensive half fields
+  'defensive actions', 'opp passes per defensive action', 'save %', 'opp entry attempt %',
 ];
 
 // Fields to exclude
@@ -202,7 +218,8 @@ const categorizeField = (fieldName: string): string => {
   // Game Info fields
   if (lower.includes('team') || lower.includes('opponent') || lower.includes('date') || 
       lower.includes('competition type') || lower.includes('competition') || 
-      lower.includes('season') || lower.includes('home/away') || lower.includes('home away')) {
+      lower.includes('season') || lower.includes('home/away') || lower.includes('home away') ||
+      lower === 'format' || lower === 'match format' || lower === 'match duration') {
     return 'Game Info';
   }
   
@@ -301,7 +318,7 @@ const formatFieldLabel = (fieldName: string): string => {
 };
 
 // Field ordering for Basic Stats sections
-// Order: Goals > Possession > Shots > Corners > Free Kicks > Passes Comp > Penalty > Possession Mins > Possession Won > Throw-in
+// Order: Goals > Possession > Shots > Corners > Free Kicks > Passes Comp > Penalty > Possession Mins > Possession Won > Throw-in > Defense
 // Note: More specific matches (e.g., "possession mins") must come after general ones (e.g., "possession") in this case
 const BASIC_STATS_ORDER = [
   'goals',
@@ -313,7 +330,8 @@ const BASIC_STATS_ORDER = [
   'penalty', 'penalties',
   'possession minutes', 'possession mins', // Specific: possession minutes
   'possession won', // Specific: possession won
-  'throw-in', 'throw in'
+  'throw-in', 'throw in',
+  'tackle', 'interception', 'clearance', 'block', 'recover', 'save', 'final third entries'
 ];
 
 // Sort fields within Basic Stats category
@@ -499,6 +517,8 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
   teamSlugMap,
   onDataSubmitted 
 }) => {
+  const { user } = useAuth();
+  const [showImportModal, setShowImportModal] = useState(false);
   const [formData, setFormData] = useState<Record<string, string | number>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -520,13 +540,16 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     competitionType: string | null;
     result: string | null;
     isHome: boolean | null;
+    format?: MatchFormat;
     rawStats: Record<string, any>;
   } | null>(null);
   const [existingMatch, setExistingMatch] = useState<Match | null>(null);
   const [isLoadingExistingMatch, setIsLoadingExistingMatch] = useState(false);
   const [showExistingMatchModal, setShowExistingMatchModal] = useState(false);
   const matchSearchParamsRef = useRef<{ teamId: number; opponentName: string; matchDate: string } | null>(null);
-  const [opponentSuggestions, setOpponentSuggestions] = useState<string[]>([]);
+  const [scheduledFixtures, setScheduledFixtures] = useState<Match[]>([]);
+  const [selectedFixtureId, setSelectedFixtureId] = useState<string>('');
+  const [opponentSuggestions, setOpponentSuggestions] = useState<Opponent[]>([]);
   const [showOpponentSuggestions, setShowOpponentSuggestions] = useState(false);
   const opponentInputRef = useRef<HTMLInputElement | null>(null);
   const opponentSuggestionsRef = useRef<HTMLDivElement | null>(null);
@@ -560,6 +583,9 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
       const normalizedKey = normalizeFieldName(key);
       existingData[normalizedKey] = value;
     });
+    if (match.format) {
+      existingData['Format'] = match.format;
+    }
     
     // Merge with current form data (form data takes precedence for fields user has entered)
     setFormData(prev => {
@@ -671,6 +697,68 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     };
   }, [formData, columnKeys, teamSlugMap, performMatchSearch]);
 
+  // Team selected in the form, for offering its scheduled fixtures and its default match format
+  const formTeam = useMemo(() => {
+    const teamKey = columnKeys.find(key =>
+      normalizeFieldName(key).toLowerCase().includes('team') &&
+      !normalizeFieldName(key).toLowerCase().includes('team id')
+    );
+    const teamSlug = teamKey && formData[teamKey] ? String(formData[teamKey]).trim() : '';
+    if (!teamSlug) return null;
+    return Array.from(teamSlugMap.values()).find(t => t.slug === teamSlug) ?? null;
+  }, [formData, columnKeys, teamSlugMap]);
+  const formTeamId = formTeam?.id ?? null;
+
+  // Format picked on the form, otherwise the team's format; it sets how many periods stats are entered for
+  const selectedFormat = isMatchFormat(formData['Format']) ? formData['Format'] : undefined;
+  const formFormat: MatchFormat | null = selectedFormat ?? formTeam?.format ?? null;
+  const periodCount = getPeriodCount(formFormat);
+
+  // Load the team's scheduled fixtures (filling one in updates it instead of creating a duplicate)
+  useEffect(() => {
+    setSelectedFixtureId('');
+    if (!formTeamId) {
+      setScheduledFixtures([]);
+      return;
+    }
+    let cancelled = false;
+    getMatches({ teamId: formTeamId, status: 'scheduled' })
+      .then(fixtures => {
+        if (!cancelled) {
+          setScheduledFixtures(fixtures.sort((a, b) => a.matchDate.localeCompare(b.matchDate)));
+        }
+      })
+      .catch(error => console.error('Error loading scheduled fixtures:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [formTeamId]);
+
+  // Fill the game info from a scheduled fixture; the existing match search then picks it up for the update
+  const handleFillFixture = useCallback(() => {
+    const fixture = scheduledFixtures.find(match => match.id.toString() === selectedFixtureId);
+    if (!fixture) return;
+
+    const opponentKey = columnKeys.find(key => key.toLowerCase().includes('opponent'));
+    const dateKey = columnKeys.find(key =>
+      key.toLowerCase().includes('date') && !key.toLowerCase().includes('match id')
+    );
+    const homeAwayKey = columnKeys.find(key =>
+      key.toLowerCase().includes('home/away') || key.toLowerCase().includes('home away')
+    );
+
+    setFormData(prev => {
+      const next = { ...prev };
+      if (opponentKey) next[opponentKey] = fixture.opponentName;
+      if (dateKey) next[dateKey] = fixture.matchDate;
+      if (homeAwayKey) {
+        next[homeAwayKey] = fixture.isHome === true ? 'Home' : fixture.isHome === false ? 'Away' : 'Tournament';
+      }
+      return next;
+    });
+    setExistingMatch(fixture);
+  }, [scheduledFixtures, selectedFixtureId, columnKeys]);
+
   // Handle pre-fill from modal
   const handlePreFillMatch = useCallback(() => {
     if (existingMatch) {
@@ -731,7 +819,9 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     'Home/Away',
     'Competition Type',
     'Competition',
+    'Format',
     // Stats fields
+    'Match Duration',
     'Possession Mins (1st)',
     'Possession Mins (2nd)',
     'Opp Possession Mins (1st)',
@@ -740,10 +830,24 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     'Throw-in (2nd)',
     'Opp Throw-in (1st)',
     'Opp Throw-in (2nd)',
+    'Tackles (1st)',
+    'Tackles (2nd)',
+    'Interceptions (1st)',
+    'Interceptions (2nd)',
+    'Clearances (1st)',
+    'Clearances (2nd)',
+    'Blocks (1st)',
+    'Blocks (2nd)',
+    'Recoveries (1st)',
+    'Recoveries (2nd)',
+    'Saves (1st)',
+    'Saves (2nd)',
+    'Opp Final Third Entries (1st)',
+    'Opp Final Third Entries (2nd)',
   ];
 
   // Filter and categorize fields for the form
-  const formFields = useMemo(() => {
+  const halvesFormFields = useMemo(() => {
     // Start with fields from columnKeys
     // Normalize field names to fix typos (e.g., "Passed Comp" -> "Passes Comp")
     // Deduplicate at source: use a Set to track normalized names
@@ -841,7 +945,7 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     Object.keys(grouped).forEach(category => {
       if (category === 'Game Info') {
         // Game Info: Team, Opponent, Date, Competition Type, Competition, Home/Away, Result
-        const priorityOrder = ['team', 'opponent', 'date', 'competition type', 'competition', 'home/away', 'home away', 'result'];
+        const priorityOrder = ['team', 'opponent', 'date', 'competition type', 'competition', 'home/away', 'home away', 'result', 'format', 'match duration'];
         grouped[category].sort((a, b) => {
           const aLower = a.name.toLowerCase();
           const bLower = b.name.toLowerCase();
@@ -917,6 +1021,12 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     return grouped;
   }, [columnKeys]);
 
+  // Quarter formats replace the halves sections with one section per quarter
+  const formFields = useMemo(
+    () => expandPeriodCategories(halvesFormFields, periodCount),
+    [halvesFormFields, periodCount]
+  );
+
   // Determine input type for a field
   const getInputType = (fieldName: string): 'text' | 'number' | 'date' | 'select' => {
     const lower = fieldName.toLowerCase();
@@ -925,6 +1035,10 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
       return 'date';
     }
     
+    if (lower === 'format' || lower === 'match format') {
+      return 'select';
+    }
+    
     // Team should always be a select if it's a team field (not team id)
     if (lower.includes('team') && !lower.includes('team id')) {
       return 'select';
@@ -946,7 +1060,8 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     if (lower.includes('goal') || lower.includes('shot') || lower.includes('attempt') || 
         lower.includes('pass') || lower.includes('corner') || lower.includes('free kick') ||
         lower.includes('possession') || lower.includes('poss') || lower.includes('xg') ||
-        lower.includes('string') || lower.includes('penalty') || lower.includes('throw')) {
+        lower.includes('string') || lower.includes('penalty') || lower.includes('throw') ||
+        lower.includes('duration')) {
       return 'number';
     }
     
@@ -985,12 +1100,9 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
     }
 
     try {
-      const teamIdParam = teamId ? `&teamId=${teamId}` : '';
-      const response = await apiGet<{ suggestions: string[] }>(
-        `/matches/opponents/suggestions?query=${encodeURIComponent(query)}${teamIdParam}&limit=10`
-      );
-      setOpponentSuggestions(response.suggestions || []);
-      setShowOpponentSuggestions(response.suggestions && response.suggestions.length > 0);
+      const suggestions = await getOpponentSuggestions(query, teamId);
+      setOpponentSuggestions(suggestions);
+      setShowOpponentSuggestions(suggestions.length > 0);
     } catch (error) {
       console.error('Error fetching opponent suggestions:', error);
       setOpponentSuggestions([]);
@@ -1026,8 +1138,8 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
   }, [formData, columnKeys, teamSlugMap, fetchOpponentSuggestions]);
 
   // Handle opponent suggestion selection
-  const handleOpponentSuggestionSelect = useCallback((fieldName: string, suggestion: string) => {
-    handleChange(fieldName, suggestion);
+  const handleOpponentSuggestionSelect = useCallback((fieldName: string, suggestion: Opponent) => {
+    handleChange(fieldName, suggestion.name);
     setShowOpponentSuggestions(false);
     setOpponentSuggestions([]);
   }, []);
@@ -1150,6 +1262,14 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
       }
     });
     
+    // Match Duration is entered with the game info; default it to the format's match length
+    const matchDuration = Number(formData['Match Duration']);
+    if (matchDuration > 0) {
+      rawStats['Match Duration'] = matchDuration;
+    } else if (formFormat) {
+      rawStats['Match Duration'] = MATCH_FORMAT_DEFAULTS[formFormat].durationMinutes;
+    }
+    
     // Format date - convert MM/DD/YYYY to YYYY-MM-DD
     // IMPORTANT: Use local date methods to avoid timezone shifts (don't use toISOString)
     let matchDate = '';
@@ -1207,6 +1327,7 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
       competitionType: competitionTypeKey && formData[competitionTypeKey] ? String(formData[competitionTypeKey]) : null,
       result: resultKey && formData[resultKey] ? String(formData[resultKey]) : null,
       isHome,
+      format: selectedFormat,
       rawStats,
     };
   };
@@ -1240,8 +1361,9 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
         competitionType: submissionData.competitionType,
         result: submissionData.result,
         isHome: submissionData.isHome,
+        format: submissionData.format,
         rawStats: submissionData.rawStats,
-      });
+      }, existingMatch?.id);
       
       // Validate preview data
       if (!preview || !preview.gameInfo || !preview.rawStats) {
@@ -1268,7 +1390,7 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
   };
 
   // Handle confirmation - actually submit the data
-  const handleConfirm = async () => {
+  const handleConfirm = async (acknowledgeWarnings: boolean) => {
     if (!pendingSubmission) return;
     
     setIsSubmitting(true);
@@ -1293,7 +1415,9 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
           matchDate: pendingSubmission.matchDate,
           competitionType: pendingSubmission.competitionType,
           result: pendingSubmission.result,
+          format: pendingSubmission.format,
           rawStats: rawStatsToUpdate,
+          acknowledgeWarnings,
         });
       } else {
         savedMatch = await createMatch({
@@ -1303,7 +1427,9 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
           competitionType: pendingSubmission.competitionType,
           result: pendingSubmission.result,
           isHome: pendingSubmission.isHome,
+          format: pendingSubmission.format,
           rawStats: pendingSubmission.rawStats,
+          acknowledgeWarnings,
         });
       }
       
@@ -1703,8 +1829,7 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
   // Category order
   const categoryOrder = [
     'Game Info',
-    'Basic Stats (1st Half)',
-    'Basic Stats (2nd Half)',
+    ...getPeriodCategories(periodCount),
     'Shots Map',
     'Possession Location',
     'Pass Location',
@@ -1778,10 +1903,26 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
         </div>
       </Modal>
       
+      <MatchImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        teamSlugMap={teamSlugMap}
+        onImported={() => onDataSubmitted?.()}
+      />
+
       <PageLayout
         title="Upload Game Data"
       subtitle="Enter data for a single game"
       maxWidth="7xl"
+      headerActions={user?.role === 'admin' ? (
+        <button
+          type="button"
+          onClick={() => setShowImportModal(true)}
+          className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+        >
+          Import Spreadsheet
+        </button>
+      ) : undefined}
     >
 
       {errors._general && (
@@ -1790,6 +1931,35 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
         </div>
       )}
 
+      {scheduledFixtures.length > 0 && (
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-blue-900">
+            This team has {scheduledFixtures.length} scheduled {scheduledFixtures.length === 1 ? 'fixture' : 'fixtures'}. Fill one in instead of creating a new match:
+          </span>
+          <select
+            value={selectedFixtureId}
+            onChange={(e) => setSelectedFixtureId(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white text-black"
+          >
+            <option value="">Select fixture...</option>
+            {scheduledFixtures.map(fixture => (
+              <option key={fixture.id} value={fixture.id}>
+                {formatDateStringLocale(fixture.matchDate)}{fixture.kickoffTime ? ` ${fixture.kickoffTime}` : ''} {fixture.isHome === false ? '@' : 'vs'} {fixture.opponentName}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleFillFixture}
+            disabled={!selectedFixtureId}
+            className="px-3 py-1.5 rounded-lg font-medium text-black disabled:opacity-50"
+            style={{ backgroundColor: JOGA_COLORS.voltYellow }}
+          >
+            Fill In
+          </button>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit}>
         {categoryOrder.map((category, categoryIndex) => {
           const fields = formFields[category];
@@ -1964,6 +2134,19 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
                                 <option value="Away">Away</option>
                                 <option value="Tournament">Tournament</option>
                               </select>
+                            ) : inputType === 'select' && (fieldName.toLowerCase() === 'format' || fieldName.toLowerCase() === 'match format') ? (
+                              <select
+                                value={value as string}
+                                onChange={(e) => handleChange(fieldName, e.target.value)}
+                                className={`px-3 py-2 border rounded-lg focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa] ${
+                                  error ? 'border-red-500' : 'border-gray-300'
+                                }`}
+                              >
+                                <option value="">{formTeam?.format ? `Team default (${formTeam.format})` : 'Select...'}</option>
+                                {MATCH_FORMATS.map(format => (
+                                  <option key={format} value={format}>{formatMatchFormatLabel(format)}</option>
+                                ))}
+                              </select>
                             ) : inputType === 'date' ? (
                               <input
                                 type="date"
@@ -1987,7 +2170,7 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
                                 className={`px-3 py-2 border rounded-lg focus:ring-2 focus:ring-[#6787aa] focus:border-[#6787aa] ${
                                   error ? 'border-red-500' : 'border-gray-300'
                                 }`}
-                                placeholder="0"
+                                placeholder={fieldName === 'Match Duration' && formFormat ? String(MATCH_FORMAT_DEFAULTS[formFormat].durationMinutes) : '0'}
                               />
                             ) : (
                               <div className="relative">
@@ -2023,14 +2206,19 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
                                     ref={opponentSuggestionsRef}
                                     className="absolute z-50 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto"
                                   >
-                                    {opponentSuggestions.map((suggestion, index) => (
+                                    {opponentSuggestions.map((suggestion) => (
                                       <button
-                                        key={index}
+                                        key={suggestion.id}
                                         type="button"
                                         onClick={() => handleOpponentSuggestionSelect(fieldName, suggestion)}
                                         className="w-full text-left px-4 py-2 hover:bg-gray-100 focus:bg-gray-100 focus:outline-none transition-colors"
                                       >
-                                        {suggestion}
+                                        {suggestion.name}
+                                        {(suggestion.clubName || suggestion.ageGroup) && (
+                                          <span className="ml-2 text-xs text-gray-500">
+                                            {[suggestion.clubName, suggestion.ageGroup].filter(Boolean).join(' · ')}
+                                          </span>
+                                        )}
                                       </button>
                                     ))}
                                   </div>
@@ -2044,7 +2232,7 @@ export const UploadGameDataView: React.FC<UploadGameDataViewProps> = ({
                         );
                       })}
                     </div>
-                  ) : category === 'Basic Stats (1st Half)' || category === 'Basic Stats (2nd Half)' || 
+                  ) : category.startsWith('Basic Stats (') || 
                       category === 'Pass Strings' || category === 'Shots Map' ? (
                     renderFieldsWithSubsections(fields, category)
                   ) : (
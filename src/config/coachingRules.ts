@@ -107,6 +107,10 @@ export const coachingRules: CoachingRules = {
       question: "Compare attempts for and against for all girls teams in league games vs tournament games",
       description: "I'll identify and visualize the difference between league and tournament games",
     },
+    {
+      question: "Does the BU12 team drop off in the second half this season?",
+      description: "I'll compare first and second half stats and flag consistent drop-offs",
+    },
   ],
   
   // Column metadata - add context about your data columns
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+
+export interface AsyncData<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Data fetched by `load`, fetched again whenever `load` changes, so memoize it (useCallback)
+ * on the request's inputs. Responses from a superseded request or an unmounted component are
+ * dropped. With a null `load` nothing is fetched and the data is cleared.
+ */
+export function useAsyncData<T>(load: (() => Promise<T>) | null, errorMessage: string): AsyncData<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!load) {
+      setData(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    load()
+      .then(response => {
+        if (!cancelled) setData(response);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : errorMessage);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [load, errorMessage]);
+
+  return { data, loading, error };
+}
@@ -0,0 +1,17 @@
+import { useLocalStorageState } from './useLocalStorageState';
+import {
+  MetricNormalization,
+  METRIC_NORMALIZATION_STORAGE_KEY,
+  isMetricNormalization,
+} from '../utils/metricNormalization';
+
+/**
+ * Metric normalization mode (raw totals, per 60/90 minutes, per possession minute).
+ * Not view-scoped: one setting applies to the dashboard, Club Data, chat charts and settings.
+ */
+export function useMetricNormalization() {
+  return useLocalStorageState<MetricNormalization>(METRIC_NORMALIZATION_STORAGE_KEY, 'none', {
+    serialize: (value) => value,
+    deserialize: (value) => (isMetricNormalization(value) ? value : 'none'),
+  });
+}
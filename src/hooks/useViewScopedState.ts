@@ -1,6 +1,6 @@
 import { useURLState } from './useURLState';
 
-type ViewMode = 'chat' | 'dashboard' | 'game-data' | 'club-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor';
+type ViewMode = 'chat' | 'dashboard' | 'game-data' | 'club-data' | 'upload-game-data' | 'settings' | 'glossary' | 'match-editor' | 'live-tagging' | 'opponent-history' | 'competitions' | 'fixtures' | 'player-stats';
 
 /**
  * Get the view-scoped key for a state variable
@@ -19,6 +19,11 @@ function getViewScopedKey(view: ViewMode, key: string): string {
     'chat': 'chat',
     'glossary': 'glossary',
     'match-editor': 'matchEditor',
+    'live-tagging': 'liveTagging',
+    'opponent-history': 'opponentHistory',
+    'competitions': 'competitions',
+    'fixtures': 'fixtures',
+    'player-stats': 'playerStats',
   };
   
   const prefix = viewPrefixes[view] || view;
@@ -2,6 +2,7 @@ import { MatchData, SheetConfig } from '../types';
 import { getCoachingSystemInstructions, coachingRules } from '../config/coachingRules';
 import { fetchColumnMetadata, mergeColumnMetadata, formatMetadataForAI, ColumnMetadataMap } from './metadataService';
 import { findImageColumns } from '../utils/imageUtils';
+import { buildHalvesAnalysis, HalfMetricComparison } from '../utils/halvesAnalysis';
 import { apiGet, apiPost } from './apiClient';
 import {
   computeDataHash,
@@ -89,9 +90,45 @@ function formatMatchDataForAI(data: MatchData[], columnKeys: string[]): string {
     formatted += `Note: Images can be displayed when referencing these columns in responses.\n`;
   }
 
+  formatted += formatHalvesSummaryForAI(data, columnKeys, teamKey);
+
   return formatted;
 }
 
+/**
+ * First vs second half averages per team, with consistent second-half drop-offs flagged
+ */
+function formatHalvesSummaryForAI(data: MatchData[], columnKeys: string[], teamKey: string | undefined): string {
+  const teamMatches = new Map<string, MatchData[]>();
+  data.forEach(match => {
+    const team = teamKey && match[teamKey] ? String(match[teamKey]) : 'All matches';
+    if (!teamMatches.has(team)) teamMatches.set(team, []);
+    teamMatches.get(team)!.push(match);
+  });
+
+  const describe = (comparison: HalfMetricComparison) => {
+    const change = comparison.changePct !== null ? `, ${comparison.changePct > 0 ? '+' : ''}${comparison.changePct}%` : '';
+    return `${comparison.metric}: 1st=${comparison.firstHalfAvg}, 2nd=${comparison.secondHalfAvg}${change}, 2nd half worse in ${comparison.worseGames}/${comparison.games} games`;
+  };
+
+  let formatted = '';
+  teamMatches.forEach((matches, team) => {
+    const analysis = buildHalvesAnalysis(matches, columnKeys);
+    if (analysis.games === 0) return;
+    formatted += `\n  ${team} (${analysis.games} matches with half stats):\n`;
+    formatted += analysis.dropOffs.length > 0
+      ? `    Second-half drop-offs: ${analysis.dropOffs.map(comparison => comparison.metric).join(', ')}\n`
+      : `    Second-half drop-offs: none\n`;
+    analysis.metrics.forEach(comparison => {
+      formatted += `    ${describe(comparison)}\n`;
+    });
+  });
+
+  if (!formatted) return '';
+  return `\nHALVES SUMMARY (1st vs 2nd half averages per match; 7v7 quarters combined into halves; ` +
+    `for opponent/against metrics higher is worse; a drop-off means the 2nd half was worse in most matches):${formatted}`;
+}
+
 /**
  * Builds the system prompt for AI
  */
@@ -107,6 +144,7 @@ You have access to match statistics including:
 - Conversion rates
 - SPI (Soccer Power Index)
 - Goals
+- First vs second half comparisons (see HALVES SUMMARY) - use these for questions about second-half drop-offs, fitness or substitutions
 - And other match statistics
 
 **IMPORTANT - SHOTS vs ATTEMPTS TERMINOLOGY:**
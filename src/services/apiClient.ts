@@ -305,6 +305,29 @@ export async function apiDelete<T = any>(endpoint: string): Promise<T> {
   return apiRequest<T>(endpoint, { method: 'DELETE' });
 }
 
+/**
+ * GET a file download (non-JSON response body)
+ * Returns the body as a Blob plus the filename from Content-Disposition, if any
+ */
+export async function apiDownload(endpoint: string): Promise<{ blob: Blob; fileName: string | null }> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    method: 'GET',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const fileNameMatch = disposition.match(/filename="([^"]+)"/);
+  return {
+    blob: await response.blob(),
+    fileName: fileNameMatch ? fileNameMatch[1] : null,
+  };
+}
+
 /**
  * Session management helpers (no longer needed - using HttpOnly cookies)
  * Kept for backward compatibility but functions are no-ops
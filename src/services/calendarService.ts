@@ -0,0 +1,91 @@
+/**
+ * Calendar Service - Frontend API client for iCal fixture feeds and .ics schedule imports
+ */
+
+import { apiGet, apiPost } from './apiClient';
+
+export interface CalendarFeed {
+  teamId: number;
+  /** Subscription URL; works without logging in, so share it like a password */
+  url: string;
+}
+
+export interface CalendarImportRow {
+  rowNumber: number;
+  uid: string | null;
+  summary: string | null;
+  gameInfo: {
+    opponentName: string | null;
+    matchDate: string | null;
+    kickoffTime: string | null;
+    isHome: boolean | null;
+    venue: string | null;
+  };
+  opponentMatch: {
+    type: 'alias' | 'similar' | 'new';
+    opponentId: number | null;
+    name: string;
+    importedName: string;
+    similarity: number | null;
+  } | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: { matchId: number; opponentName: string; matchDate: string } | null;
+  duplicateOfRow: number | null;
+}
+
+export interface CalendarImportPreview {
+  teamId: number;
+  rows: CalendarImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicates: number;
+  };
+}
+
+export interface CalendarImportResult {
+  created: number;
+  matches: Array<{ rowNumber: number; matchId: number }>;
+}
+
+/**
+ * A team's iCal feed URL (created on first request)
+ */
+export async function getTeamCalendarFeed(teamId: number): Promise<CalendarFeed> {
+  return await apiGet<CalendarFeed>(`/calendar/teams/${teamId}`);
+}
+
+/**
+ * Replace a team's feed URL; calendars subscribed to the old one stop updating
+ */
+export async function regenerateTeamCalendarFeed(teamId: number): Promise<CalendarFeed> {
+  return await apiPost<CalendarFeed>(`/calendar/teams/${teamId}/regenerate`, {});
+}
+
+/**
+ * Dry-run importing a league .ics schedule as scheduled matches
+ */
+export async function previewCalendarImport(teamId: number, file: File): Promise<CalendarImportPreview> {
+  return await apiPost<CalendarImportPreview>('/calendar/import/preview', {
+    teamId,
+    content: await file.text(),
+  });
+}
+
+/**
+ * Import a league .ics schedule as scheduled matches
+ * @param rowNumbers Events to import; omit to import all valid, non-duplicate events
+ */
+export async function commitCalendarImport(
+  teamId: number,
+  file: File,
+  rowNumbers?: number[]
+): Promise<CalendarImportResult> {
+  return await apiPost<CalendarImportResult>('/calendar/import/commit', {
+    teamId,
+    content: await file.text(),
+    rowNumbers,
+  });
+}
@@ -3,7 +3,7 @@
  * Handles saving and loading chart configurations
  */
 
-import { ChartConfig, ChartPreferences, DEFAULT_SHOTS_CONFIG, DEFAULT_POSSESSION_CONFIG, DEFAULT_GOALS_CONFIG, DEFAULT_XG_CONFIG, DEFAULT_CONVERSION_RATE_CONFIG, DEFAULT_TSR_CONFIG, DEFAULT_POSITIONAL_ATTEMPTS_CONFIG, DEFAULT_PASSES_CONFIG, DEFAULT_PASS_STR_LENGTH_CONFIG, DEFAULT_SPI_CONFIG, DEFAULT_PPM_CONFIG } from '../types/chartConfig';
+import { ChartConfig, ChartPreferences, DEFAULT_SHOTS_CONFIG, DEFAULT_POSSESSION_CONFIG, DEFAULT_GOALS_CONFIG, DEFAULT_XG_CONFIG, DEFAULT_CONVERSION_RATE_CONFIG, DEFAULT_TSR_CONFIG, DEFAULT_POSITIONAL_ATTEMPTS_CONFIG, DEFAULT_PASSES_CONFIG, DEFAULT_PASS_STR_LENGTH_CONFIG, DEFAULT_SPI_CONFIG, DEFAULT_PPM_CONFIG, DEFAULT_DEFENSIVE_ACTIONS_CONFIG, DEFAULT_SAVES_CONFIG, DEFAULT_OPP_FINAL_THIRD_ENTRIES_CONFIG } from '../types/chartConfig';
 import { updateUserPreferences } from './authService';
 import { getUserById } from './authService';
 
@@ -19,6 +19,9 @@ const CHART_DEFAULTS: Record<string, ChartConfig> = {
   passStrLength: DEFAULT_PASS_STR_LENGTH_CONFIG,
   spi: DEFAULT_SPI_CONFIG,
   ppm: DEFAULT_PPM_CONFIG,
+  defensiveActions: DEFAULT_DEFENSIVE_ACTIONS_CONFIG,
+  saves: DEFAULT_SAVES_CONFIG,
+  oppFinalThirdEntries: DEFAULT_OPP_FINAL_THIRD_ENTRIES_CONFIG,
 };
 
 /**
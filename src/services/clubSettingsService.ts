@@ -0,0 +1,142 @@
+import { apiGet, apiPut, apiDelete } from './apiClient';
+import type { StatValidationSeverity } from './matchService';
+
+/**
+ * Weighting for SPI (w) / Opp SPI (w): each pass in a string longer than
+ * baseStringLength adds bonusPerExtraPass to the string's multiplier.
+ */
+export interface SpiWeighting {
+  baseStringLength: number;
+  bonusPerExtraPass: number;
+}
+
+export interface SpiWeightingSetting {
+  weighting: SpiWeighting;
+  isDefault: boolean;
+}
+
+export interface MetricChangeSummary {
+  metric: string;
+  matchesChanged: number;
+  maxAbsDelta: number | null;
+  meanDelta: number | null;
+}
+
+export interface StatsRecomputeReport {
+  dryRun: boolean;
+  formulaVersion: number;
+  matchesChecked: number;
+  matchesChanged: number;
+  metrics: MetricChangeSummary[];
+  matches: Array<{
+    matchId: number;
+    teamId: number | null;
+    opponentName: string;
+    matchDate: string;
+    fromVersion: number | null;
+    changes: Array<{ metric: string; before: unknown; after: unknown; delta: number | null }>;
+  }>;
+}
+
+export interface UpdateSpiWeightingResponse {
+  weighting: SpiWeighting;
+  /** Only set when the weighting was saved */
+  isDefault?: boolean;
+  recompute: StatsRecomputeReport;
+}
+
+/**
+ * Get the club's SPI weighting
+ */
+export async function getSpiWeighting(): Promise<SpiWeightingSetting> {
+  return apiGet<SpiWeightingSetting>('/club-settings/spi-weighting');
+}
+
+/**
+ * Change the club's SPI weighting (admin only).
+ * SPI (w) / Opp SPI (w) are recomputed on every match; with dryRun the impact is
+ * reported without saving anything.
+ */
+export async function updateSpiWeighting(
+  weighting: SpiWeighting,
+  dryRun = false
+): Promise<UpdateSpiWeightingResponse> {
+  return apiPut<UpdateSpiWeightingResponse>('/club-settings/spi-weighting', { ...weighting, dryRun });
+}
+
+/**
+ * Multiplier applied to an N-pass string (mirrors the backend formula)
+ */
+export function getSpiStringMultiplier(stringLength: number, weighting: SpiWeighting): number {
+  return 1 + Math.max(0, stringLength - weighting.baseStringLength) * weighting.bonusPerExtraPass;
+}
+
+export type StatValidationOperator = '<=' | '<' | '=' | '>=' | '>';
+
+/**
+ * A rule entered match stats are checked against: the sum of the left fields is
+ * compared with the sum of the right fields (or a constant)
+ */
+export interface StatValidationRule {
+  id: string;
+  message: string;
+  severity: StatValidationSeverity;
+  enabled: boolean;
+  left: string[];
+  operator: StatValidationOperator;
+  right: string[] | number;
+  tolerance?: number;
+}
+
+export interface StatValidationRuleSet {
+  rules: StatValidationRule[];
+  isDefault: boolean;
+}
+
+/**
+ * Get the club's stat validation rules
+ */
+export async function getStatValidationRules(): Promise<StatValidationRuleSet> {
+  return apiGet<StatValidationRuleSet>('/club-settings/validation-rules');
+}
+
+/**
+ * Replace the club's stat validation rules (admin only)
+ */
+export async function updateStatValidationRules(rules: StatValidationRule[]): Promise<StatValidationRuleSet> {
+  return apiPut<StatValidationRuleSet>('/club-settings/validation-rules', { rules });
+}
+
+/**
+ * Go back to the default stat validation rules (admin only)
+ */
+export async function resetStatValidationRules(): Promise<StatValidationRuleSet> {
+  return apiDelete<StatValidationRuleSet>('/club-settings/validation-rules');
+}
+
+/**
+ * Equal playing time policy: each player should get at least minSharePercent of the
+ * minutes in the matches they were in the squad for
+ */
+export interface PlayingTimePolicy {
+  minSharePercent: number;
+}
+
+export interface PlayingTimePolicySetting {
+  policy: PlayingTimePolicy;
+  isDefault: boolean;
+}
+
+/**
+ * Get the club's playing time policy
+ */
+export async function getPlayingTimePolicy(): Promise<PlayingTimePolicySetting> {
+  return apiGet<PlayingTimePolicySetting>('/club-settings/playing-time-policy');
+}
+
+/**
+ * Change the club's playing time policy (admin only)
+ */
+export async function updatePlayingTimePolicy(policy: PlayingTimePolicy): Promise<PlayingTimePolicySetting> {
+  return apiPut<PlayingTimePolicySetting>('/club-settings/playing-time-policy', policy);
+}
@@ -0,0 +1,101 @@
+import { apiGet, apiPost, apiPut, apiDelete } from './apiClient';
+
+export type CompetitionType = 'league' | 'cup' | 'tournament' | 'friendly';
+
+export const COMPETITION_TYPES: Array<{ value: CompetitionType; label: string }> = [
+  { value: 'league', label: 'League' },
+  { value: 'cup', label: 'Cup' },
+  { value: 'tournament', label: 'Tournament' },
+  { value: 'friendly', label: 'Friendly' },
+];
+
+export interface PointsRules {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
+/**
+ * A club team (teamId) or a registry opponent (opponentId) taking part in a competition
+ */
+export interface CompetitionParticipant {
+  teamId: number | null;
+  opponentId: number | null;
+  name: string;
+}
+
+export interface Competition {
+  id: number;
+  name: string;
+  type: CompetitionType;
+  seasonId: number | null;
+  seasonName: string | null;
+  pointsRules: PointsRules;
+  participants: CompetitionParticipant[];
+  matchCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CompetitionInput {
+  name: string;
+  type: CompetitionType;
+  seasonId?: number | null;
+  pointsRules?: Partial<PointsRules>;
+  /** Replaces the participating club teams */
+  teamIds?: number[];
+  /** Replaces the participating opponents */
+  opponentIds?: number[];
+}
+
+export interface StandingsRow {
+  position: number;
+  teamId: number | null;
+  opponentId: number | null;
+  name: string;
+  isClubTeam: boolean;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+}
+
+export interface Standings {
+  competition: Competition;
+  rows: StandingsRow[];
+}
+
+export async function getCompetitions(filters?: { seasonId?: number; teamId?: number; type?: CompetitionType }): Promise<Competition[]> {
+  const params = new URLSearchParams();
+  if (filters?.seasonId) params.append('seasonId', filters.seasonId.toString());
+  if (filters?.teamId) params.append('teamId', filters.teamId.toString());
+  if (filters?.type) params.append('type', filters.type);
+  const query = params.toString();
+  return apiGet<Competition[]>(`/competitions${query ? `?${query}` : ''}`);
+}
+
+export async function getStandings(competitionId: number): Promise<Standings> {
+  return apiGet<Standings>(`/competitions/${competitionId}/standings`);
+}
+
+export async function createCompetition(input: CompetitionInput): Promise<Competition> {
+  return apiPost<Competition>('/competitions', input);
+}
+
+/**
+ * A new type is also written to the competition's matches
+ */
+export async function updateCompetition(competitionId: number, updates: Partial<CompetitionInput>): Promise<Competition> {
+  return apiPut<Competition>(`/competitions/${competitionId}`, updates);
+}
+
+/**
+ * The competition's matches are kept (no longer linked to it)
+ */
+export async function deleteCompetition(competitionId: number): Promise<void> {
+  await apiDelete(`/competitions/${competitionId}`);
+}
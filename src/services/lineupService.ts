@@ -0,0 +1,97 @@
+/**
+ * Lineup Service - Frontend API client for match lineups and playing time
+ */
+
+import { apiGet, apiPut, apiDelete } from './apiClient';
+import type { PlayingTimePolicy } from './clubSettingsService';
+
+export interface LineupPlayer {
+  playerName: string;
+  playerId: number | null;
+  isStarter: boolean;
+  minutesPlayed: number;
+}
+
+export interface Substitution {
+  minute: number;
+  playerOff: string;
+  playerOn: string;
+}
+
+export interface MatchLineup {
+  matchId: number;
+  durationMinutes: number;
+  players: LineupPlayer[];
+  substitutions: Substitution[];
+  updatedAt: string;
+}
+
+export interface LineupInput {
+  durationMinutes: number;
+  players: Array<{ playerName: string; playerId?: number | null; isStarter: boolean }>;
+  substitutions: Substitution[];
+}
+
+export interface LineupNameSuggestion {
+  name: string;
+  playerId: number | null;
+  jerseyNumber: number | null;
+}
+
+export interface PlayingTimeEntry {
+  playerName: string;
+  playerId: number | null;
+  /** Matches in the squad (starter or bench) */
+  matches: number;
+  starts: number;
+  /** Matches with any minutes */
+  appearances: number;
+  minutesPlayed: number;
+  /** Total length of the matches in the squad */
+  availableMinutes: number;
+  sharePercent: number | null;
+  belowPolicy: boolean;
+}
+
+export interface PlayingTimeReport {
+  policy: PlayingTimePolicy;
+  matches: number;
+  players: PlayingTimeEntry[];
+  alerts: number;
+}
+
+/**
+ * A match's lineup, or null when none has been entered
+ */
+export async function getMatchLineup(matchId: number): Promise<MatchLineup | null> {
+  return await apiGet<MatchLineup | null>(`/matches/${matchId}/lineup`);
+}
+
+/**
+ * Save (replace) a match's lineup; minutes played are worked out from the substitutions
+ */
+export async function saveMatchLineup(matchId: number, lineup: LineupInput): Promise<MatchLineup> {
+  return await apiPut<MatchLineup>(`/matches/${matchId}/lineup`, lineup);
+}
+
+export async function deleteMatchLineup(matchId: number): Promise<void> {
+  await apiDelete(`/matches/${matchId}/lineup`);
+}
+
+/**
+ * Player names for a match's team: roster players plus names used in earlier events and lineups
+ */
+export async function getLineupNameSuggestions(matchId: number): Promise<LineupNameSuggestion[]> {
+  return await apiGet<LineupNameSuggestion[]>(`/matches/${matchId}/lineup/names`);
+}
+
+/**
+ * Minutes played per player, with players below the club's playing time policy flagged
+ */
+export async function getPlayingTimeReport(filters?: { teamId?: number; seasonId?: number }): Promise<PlayingTimeReport> {
+  const params = new URLSearchParams();
+  if (filters?.teamId) params.append('teamId', filters.teamId.toString());
+  if (filters?.seasonId) params.append('seasonId', filters.seasonId.toString());
+  const queryString = params.toString();
+  return await apiGet<PlayingTimeReport>(queryString ? `/players/playing-time?${queryString}` : '/players/playing-time');
+}
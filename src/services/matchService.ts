@@ -2,19 +2,38 @@
  * Match Service - Frontend API client for match operations
  */
 
-import { apiGet, apiPost, apiPut, apiDelete } from './apiClient';
+import { apiGet, apiPost, apiPut, apiDelete, apiDownload } from './apiClient';
+import type { MatchFormat } from '../utils/matchFormats';
+
+/**
+ * Fixtures are entered as 'scheduled' and become 'played' once a result or stats are saved
+ */
+export type MatchStatus = 'scheduled' | 'played' | 'cancelled';
 
 export interface Match {
   id: number;
   teamId?: number | null;
+  teamSlug?: string | null;
+  teamDisplayName?: string | null;
+  opponentId?: number | null;
   opponentName: string;
   matchDate: string;
+  /** HH:MM (24h) */
+  kickoffTime?: string | null;
+  status?: MatchStatus;
+  /** stats_json has been filled in */
+  statsEntered?: boolean;
+  competitionId?: number | null;
+  competitionName?: string | null;
   competitionType?: string | null;
   result?: string | null;
   isHome?: boolean | null;
+  /** 7v7, 9v9 or 11v11; null for matches saved before formats (two halves) */
+  format?: MatchFormat | null;
   statsJson?: any;
   statsSource?: string | null;
   statsComputedAt?: Date | null;
+  statsFormulaVersion?: number | null;
   statsManualFields?: any;
   notes?: string | null;
   venue?: string | null;
@@ -29,50 +48,78 @@ export interface CreateMatchData {
   teamId?: number | null;
   opponentName: string;
   matchDate: string;
+  kickoffTime?: string | null;
+  /** Defaults to 'played'; a fixture is created as 'scheduled' without a result or stats */
+  status?: MatchStatus;
+  /** Linked competition (its type replaces competitionType) */
+  competitionId?: number | null;
   competitionType?: string | null;
   result?: string | null;
   isHome?: boolean | null;
+  /** Defaults to the team's format */
+  format?: MatchFormat | null;
   rawStats?: Record<string, any>; // Raw form data - will be computed automatically
   notes?: string | null;
   venue?: string | null;
   referee?: string | null;
+  /** Save even though rawStats fail validation warnings */
+  acknowledgeWarnings?: boolean;
 }
 
 export interface UpdateMatchData {
   teamId?: number | null;
   opponentName?: string;
   matchDate?: string;
+  kickoffTime?: string | null;
+  /** When omitted, a scheduled match becomes 'played' once a result or stats are saved */
+  status?: MatchStatus;
+  /** null unlinks the match from its competition */
+  competitionId?: number | null;
   competitionType?: string | null;
   result?: string | null;
   isHome?: boolean | null;
+  format?: MatchFormat | null;
   rawStats?: Record<string, any>;
   notes?: string | null;
   venue?: string | null;
   referee?: string | null;
+  /** Save even though rawStats fail validation warnings */
+  acknowledgeWarnings?: boolean;
 }
 
 export interface MatchFilters {
   teamId?: number;
+  opponentId?: number;
   opponentName?: string;
   startDate?: string;
   endDate?: string;
   competitionType?: string;
+  competitionId?: number;
+  seasonId?: number;
+  status?: MatchStatus;
   missingHalfTimeStats?: boolean;
 }
 
-/**
- * Get all matches with optional filters
- */
-export async function getMatches(filters?: MatchFilters): Promise<Match[]> {
+function buildMatchFilterParams(filters?: MatchFilters): URLSearchParams {
   const params = new URLSearchParams();
   if (filters?.teamId) params.append('teamId', filters.teamId.toString());
+  if (filters?.opponentId) params.append('opponentId', filters.opponentId.toString());
   if (filters?.opponentName) params.append('opponentName', filters.opponentName);
   if (filters?.startDate) params.append('startDate', filters.startDate);
   if (filters?.endDate) params.append('endDate', filters.endDate);
   if (filters?.competitionType) params.append('competitionType', filters.competitionType);
+  if (filters?.competitionId) params.append('competitionId', filters.competitionId.toString());
+  if (filters?.seasonId) params.append('seasonId', filters.seasonId.toString());
+  if (filters?.status) params.append('status', filters.status);
   if (filters?.missingHalfTimeStats) params.append('missingHalfTimeStats', 'true');
+  return params;
+}
 
-  const queryString = params.toString();
+/**
+ * Get all matches with optional filters
+ */
+export async function getMatches(filters?: MatchFilters): Promise<Match[]> {
+  const queryString = buildMatchFilterParams(filters).toString();
   const endpoint = queryString ? `/matches?${queryString}` : '/matches';
   
   const matches = await apiGet<Match[]>(endpoint);
@@ -86,6 +133,53 @@ export async function getMatches(filters?: MatchFilters): Promise<Match[]> {
   }));
 }
 
+export interface TeamFixtures {
+  teamId: number;
+  teamSlug: string | null;
+  teamDisplayName: string | null;
+  fixtures: Match[];
+}
+
+/**
+ * Next scheduled fixtures per team (from today), soonest first
+ * Coaches only get their assigned teams
+ */
+export async function getUpcomingFixtures(options?: { teamId?: number; limit?: number }): Promise<TeamFixtures[]> {
+  const params = new URLSearchParams();
+  if (options?.teamId) params.append('teamId', options.teamId.toString());
+  if (options?.limit) params.append('limit', options.limit.toString());
+  const query = params.toString();
+  return apiGet<TeamFixtures[]>(`/matches/upcoming${query ? `?${query}` : ''}`);
+}
+
+export type MatchExportFormat = 'csv' | 'xlsx' | 'json';
+export type MatchExportColumns = 'raw' | 'computed' | 'both';
+
+/**
+ * Download matches as a CSV, XLSX or JSON file
+ * Uses the same filters as getMatches; coaches only get their assigned teams
+ */
+export async function exportMatches(
+  filters: MatchFilters,
+  format: MatchExportFormat,
+  columns: MatchExportColumns
+): Promise<void> {
+  const params = buildMatchFilterParams(filters);
+  params.append('format', format);
+  params.append('columns', columns);
+
+  const { blob, fileName } = await apiDownload(`/matches/export?${params.toString()}`);
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName || `matches.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Get a match by ID
  */
@@ -109,13 +203,18 @@ export async function createMatch(data: CreateMatchData): Promise<Match> {
     teamId: data.teamId,
     opponentName: data.opponentName,
     matchDate: data.matchDate,
+    kickoffTime: data.kickoffTime,
+    status: data.status,
+    competitionId: data.competitionId,
     competitionType: data.competitionType,
     result: data.result,
     isHome: data.isHome,
+    format: data.format,
     rawStats: data.rawStats, // Backend will compute derived metrics
     notes: data.notes,
     venue: data.venue,
     referee: data.referee,
+    acknowledgeWarnings: data.acknowledgeWarnings,
   });
   
   return {
@@ -134,13 +233,18 @@ export async function updateMatch(matchId: number, data: UpdateMatchData): Promi
     teamId: data.teamId,
     opponentName: data.opponentName,
     matchDate: data.matchDate,
+    kickoffTime: data.kickoffTime,
+    status: data.status,
+    competitionId: data.competitionId,
     competitionType: data.competitionType,
     result: data.result,
     isHome: data.isHome,
+    format: data.format,
     rawStats: data.rawStats,
     notes: data.notes,
     venue: data.venue,
     referee: data.referee,
+    acknowledgeWarnings: data.acknowledgeWarnings,
   });
   
   return {
@@ -166,6 +270,7 @@ export interface PreviewMatchStatsResponse {
     competitionType?: string | null;
     result?: string | null;
     isHome?: boolean | null;
+    format?: MatchFormat | null;
     venue?: string | null;
     referee?: string | null;
     notes?: string | null;
@@ -173,22 +278,451 @@ export interface PreviewMatchStatsResponse {
   rawStats: Record<string, any>;
   computedStats: Record<string, any>;
   allStats: Record<string, any>;
+  /** Failed validation rules, errors first */
+  validation: StatValidationResult[];
+}
+
+export type StatValidationSeverity = 'error' | 'warning';
+
+export interface StatValidationResult {
+  ruleId: string;
+  severity: StatValidationSeverity;
+  message: string;
+  fields: string[];
+  leftValue: number;
+  rightValue: number;
 }
 
 /**
- * Preview computed stats without saving
+ * Preview computed stats and validation results without saving.
+ * Pass matchId when the stats will update that match, so they're validated against its stored stats.
  */
-export async function previewMatchStats(data: CreateMatchData): Promise<PreviewMatchStatsResponse> {
+export async function previewMatchStats(data: CreateMatchData, matchId?: number): Promise<PreviewMatchStatsResponse> {
   return await apiPost<PreviewMatchStatsResponse>('/matches/preview', {
+    matchId,
     teamId: data.teamId,
     opponentName: data.opponentName,
     matchDate: data.matchDate,
     competitionType: data.competitionType,
     result: data.result,
     isHome: data.isHome,
+    format: data.format,
     rawStats: data.rawStats,
     notes: data.notes,
     venue: data.venue,
     referee: data.referee,
   });
 }
+
+export interface MatchImportRow {
+  rowNumber: number;
+  gameInfo: {
+    teamId: number | null;
+    teamName: string | null;
+    opponentName: string | null;
+    matchDate: string | null;
+    kickoffTime: string | null;
+    status: MatchStatus | null;
+    competitionId: number | null;
+    competitionName: string | null;
+    competitionType: string | null;
+    format: MatchFormat | null;
+    result: string | null;
+    isHome: boolean | null;
+    venue: string | null;
+    referee: string | null;
+    notes: string | null;
+    matchIdExternal: string | null;
+  };
+  rawStats: Record<string, unknown>;
+  computedStats: Record<string, number | string>;
+  errors: string[];
+  warnings: string[];
+  duplicate: { matchId: number; opponentName: string; matchDate: string } | null;
+  duplicateOfRow: number | null;
+}
+
+export interface MatchImportPreview {
+  fileType: 'csv' | 'xlsx';
+  columns: string[];
+  rows: MatchImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicates: number;
+  };
+}
+
+export interface MatchImportResult {
+  created: number;
+  matches: Array<{ rowNumber: number; matchId: number }>;
+}
+
+/**
+ * Read a file as base64 (without the data URL prefix)
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Dry-run a CSV/XLSX match import (admin only)
+ * @param teamId Team used for rows without a Team column
+ */
+export async function previewMatchImport(file: File, teamId?: number | null): Promise<MatchImportPreview> {
+  return await apiPost<MatchImportPreview>('/matches/import/preview', {
+    fileBase64: await readFileAsBase64(file),
+    fileName: file.name,
+    teamId: teamId || undefined,
+  });
+}
+
+/**
+ * Import matches from a CSV/XLSX file (admin only)
+ * @param rowNumbers Spreadsheet rows to import; omit to import all valid, non-duplicate rows
+ */
+export async function commitMatchImport(
+  file: File,
+  options: { teamId?: number | null; rowNumbers?: number[] } = {}
+): Promise<MatchImportResult> {
+  return await apiPost<MatchImportResult>('/matches/import/commit', {
+    fileBase64: await readFileAsBase64(file),
+    fileName: file.name,
+    teamId: options.teamId || undefined,
+    rowNumbers: options.rowNumbers,
+  });
+}
+
+export type MatchRevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface MatchRevision {
+  id: number;
+  matchId: number;
+  action: MatchRevisionAction;
+  changedBy: number | null;
+  changedByName: string | null;
+  restoredFromRevisionId: number | null;
+  createdAt: string;
+}
+
+export interface MatchRevisionChange {
+  field: string;
+  section: 'game' | 'stats';
+  before: unknown;
+  after: unknown;
+}
+
+export interface MatchRevisionDiff {
+  from: MatchRevision | null;
+  to: MatchRevision;
+  changes: MatchRevisionChange[];
+}
+
+/**
+ * Get a match's revision history, newest first
+ */
+export async function getMatchRevisions(matchId: number): Promise<MatchRevision[]> {
+  return await apiGet<MatchRevision[]>(`/matches/${matchId}/revisions`);
+}
+
+/**
+ * Field-by-field diff between two revisions
+ * @param fromRevisionId Defaults to the revision before toRevisionId
+ */
+export async function getMatchRevisionDiff(
+  matchId: number,
+  toRevisionId: number,
+  fromRevisionId?: number | null
+): Promise<MatchRevisionDiff> {
+  const params = new URLSearchParams({ to: String(toRevisionId) });
+  if (fromRevisionId) {
+    params.append('from', String(fromRevisionId));
+  }
+  return await apiGet<MatchRevisionDiff>(`/matches/${matchId}/revisions/diff?${params.toString()}`);
+}
+
+/**
+ * Restore a match to the state stored in a revision (admin or owning coach)
+ */
+export async function restoreMatchRevision(matchId: number, revisionId: number): Promise<Match> {
+  const match = await apiPost<Match>(`/matches/${matchId}/revisions/${revisionId}/restore`, {});
+
+  return {
+    ...match,
+    statsComputedAt: match.statsComputedAt ? new Date(match.statsComputedAt) : null,
+    createdAt: new Date(match.createdAt),
+    updatedAt: new Date(match.updatedAt),
+  };
+}
+
+/**
+ * Free-form event details; set pieces record their side, delivery and outcome here
+ */
+export interface GameEventData {
+  side?: SetPieceSide;
+  delivery?: SetPieceDelivery;
+  outcome?: SetPieceOutcome;
+  [key: string]: unknown;
+}
+
+export interface GameEvent {
+  id: number;
+  matchId: number;
+  eventType: string;
+  eventCategory?: string | null;
+  timestamp?: number | null;
+  period?: number | null;
+  minute?: number | null;
+  second?: number | null;
+  fieldPosition?: string | null;
+  xCoordinate?: number | null;
+  yCoordinate?: number | null;
+  eventData?: GameEventData | null;
+  isJogaTeam: boolean;
+  playerId?: number | null;
+  playerName?: string | null;
+  notes?: string | null;
+  tags?: string[] | null;
+  isProcessed: boolean;
+  processedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateGameEventData {
+  eventType: string;
+  eventCategory?: string | null;
+  timestamp?: number | null;
+  period?: number | null;
+  minute?: number | null;
+  second?: number | null;
+  fieldPosition?: string | null;
+  xCoordinate?: number | null;
+  yCoordinate?: number | null;
+  eventData?: GameEventData | null;
+  isJogaTeam?: boolean;
+  /** A roster player; the event's playerName is then taken from the roster */
+  playerId?: number | null;
+  playerName?: string | null;
+  notes?: string | null;
+  tags?: string[] | null;
+}
+
+export interface GameEventFilters {
+  eventType?: string;
+  period?: number;
+  playerId?: number;
+  playerName?: string;
+  tags?: string[];
+}
+
+function toGameEvent(event: GameEvent): GameEvent {
+  return {
+    ...event,
+    processedAt: event.processedAt ? new Date(event.processedAt) : null,
+    createdAt: new Date(event.createdAt),
+  };
+}
+
+/**
+ * Get game events for a match with optional filters
+ */
+export async function getMatchEvents(matchId: number, filters?: GameEventFilters): Promise<GameEvent[]> {
+  const params = new URLSearchParams();
+  if (filters?.eventType) params.append('eventType', filters.eventType);
+  if (filters?.period !== undefined) params.append('period', filters.period.toString());
+  if (filters?.playerId) params.append('playerId', filters.playerId.toString());
+  if (filters?.playerName) params.append('playerName', filters.playerName);
+  if (filters?.tags && filters.tags.length > 0) params.append('tags', filters.tags.join(','));
+
+  const queryString = params.toString();
+  const endpoint = queryString ? `/matches/${matchId}/events?${queryString}` : `/matches/${matchId}/events`;
+
+  const events = await apiGet<GameEvent[]>(endpoint);
+  return events.map(toGameEvent);
+}
+
+/**
+ * Create a single game event
+ */
+export async function createGameEvent(matchId: number, data: CreateGameEventData): Promise<GameEvent> {
+  const event = await apiPost<GameEvent>(`/matches/${matchId}/events`, data);
+  return toGameEvent(event);
+}
+
+/**
+ * Create many game events in one request (all-or-nothing)
+ * Returned events are in the same order as the input
+ */
+export async function createGameEventsBulk(matchId: number, events: CreateGameEventData[]): Promise<GameEvent[]> {
+  const result = await apiPost<{ created: number; events: GameEvent[] }>(`/matches/${matchId}/events/bulk`, { events });
+  return result.events.map(toGameEvent);
+}
+
+/**
+ * Update a game event
+ */
+export async function updateGameEvent(
+  matchId: number,
+  eventId: number,
+  data: Partial<CreateGameEventData>
+): Promise<GameEvent> {
+  const event = await apiPut<GameEvent>(`/matches/${matchId}/events/${eventId}`, data);
+  return toGameEvent(event);
+}
+
+/**
+ * Delete a game event
+ */
+export async function deleteGameEvent(matchId: number, eventId: number): Promise<void> {
+  await apiDelete(`/matches/${matchId}/events/${eventId}`);
+}
+
+export type ShotOutcome = 'goal' | 'on_target' | 'off_target' | 'blocked' | 'unknown';
+
+export interface MatchShot {
+  eventId: number;
+  isJogaTeam: boolean;
+  x: number;
+  y: number;
+  distance: number;
+  angle: number;
+  insideBox: boolean;
+  xG: number;
+  outcome: ShotOutcome;
+  period?: number | null;
+  minute?: number | null;
+  playerName?: string | null;
+}
+
+export interface MatchShotsResponse {
+  shots: MatchShot[];
+  xG: number;
+  xGA: number;
+  shotsWithoutLocationFor: number;
+  shotsWithoutLocationAgainst: number;
+}
+
+/**
+ * Get located shots for a match with estimated xG per shot
+ */
+export async function getMatchShots(matchId: number): Promise<MatchShotsResponse> {
+  return await apiGet<MatchShotsResponse>(`/matches/${matchId}/shots`);
+}
+
+export type HeatmapSide = 'joga' | 'opponent';
+
+export interface MatchHeatmap {
+  side: HeatmapSide;
+  columns: number;
+  rows: number;
+  cells: number[][]; // [row][column], in the side's attacking frame (attacking left to right)
+  max: number;
+  events: number;
+  eventsWithoutLocation: number;
+  thirds: { def: number; mid: number; att: number } | null;
+  eventTypes: string[];
+  playerNames: string[];
+}
+
+export interface MatchHeatmapOptions {
+  side?: HeatmapSide;
+  playerName?: string;
+  eventTypes?: string[];
+  columns?: number;
+  rows?: number;
+  mirrorPeriods?: number[]; // Periods logged with the ends switched
+}
+
+/**
+ * Get a touch/action heatmap grid for a match from located events
+ */
+export async function getMatchHeatmap(matchId: number, options?: MatchHeatmapOptions): Promise<MatchHeatmap> {
+  const params = new URLSearchParams();
+  if (options?.side) params.append('side', options.side);
+  if (options?.playerName) params.append('playerName', options.playerName);
+  if (options?.eventTypes?.length) params.append('eventTypes', options.eventTypes.join(','));
+  if (options?.columns) params.append('columns', options.columns.toString());
+  if (options?.rows) params.append('rows', options.rows.toString());
+  if (options?.mirrorPeriods?.length) params.append('mirrorPeriods', options.mirrorPeriods.join(','));
+  const queryString = params.toString();
+  return await apiGet<MatchHeatmap>(`/matches/${matchId}/heatmap${queryString ? `?${queryString}` : ''}`);
+}
+
+export interface PassNetworkNode {
+  playerName: string;
+  x: number | null; // Average location of passes made and received; null when unlocated
+  y: number | null;
+  passesMade: number;
+  passesReceived: number;
+}
+
+export interface PassNetworkEdge {
+  playerA: string;
+  playerB: string;
+  passes: number; // Both directions
+  aToB: number;
+  bToA: number;
+}
+
+export interface PassNetwork {
+  matches: number;
+  passes: number;
+  passesWithoutReceiver: number;
+  nodes: PassNetworkNode[];
+  edges: PassNetworkEdge[];
+}
+
+/**
+ * Get the JOGA pass network (from pass events with a passer and receiver) for one or more matches
+ */
+export async function getPassNetwork(matchIds: number[]): Promise<PassNetwork> {
+  return await apiGet<PassNetwork>(`/matches/pass-network?matchIds=${matchIds.join(',')}`);
+}
+
+export type SetPieceType = 'corner' | 'free_kick';
+export type SetPieceSide = 'left' | 'right' | 'central';
+export type SetPieceDelivery = 'inswinger' | 'outswinger' | 'driven' | 'short' | 'direct';
+export type SetPieceOutcome = 'goal' | 'shot' | 'cleared' | 'retained';
+
+export interface SetPieceTally {
+  total: number;
+  goals: number;
+  shots: number; // Includes goals
+  cleared: number;
+  retained: number;
+  withoutOutcome: number;
+  shotRate: number | null; // Percent of set pieces with an outcome that led to a shot
+  goalRate: number | null;
+}
+
+export interface SetPieceSplit {
+  for: SetPieceTally;
+  against: SetPieceTally;
+}
+
+export interface SetPieceAnalytics {
+  matches: number;
+  type: SetPieceType | null;
+  totals: SetPieceSplit;
+  byType: Record<SetPieceType, SetPieceSplit>;
+  trend: Array<SetPieceSplit & { matchId: number }>;
+  deliveries: Array<SetPieceSplit & { delivery: SetPieceDelivery | 'unknown' }>;
+  sides: Array<SetPieceSplit & { side: SetPieceSide | 'unknown' }>;
+}
+
+/**
+ * Get corner/free kick analytics (from set-piece events) for one or more matches
+ */
+export async function getSetPieceAnalytics(matchIds: number[], type?: SetPieceType): Promise<SetPieceAnalytics> {
+  const typeParam = type ? `&type=${type}` : '';
+  return await apiGet<SetPieceAnalytics>(`/matches/set-pieces?matchIds=${matchIds.join(',')}${typeParam}`);
+}
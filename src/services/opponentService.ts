@@ -0,0 +1,154 @@
+import { apiGet, apiPost, apiPut, apiDelete } from './apiClient';
+
+/**
+ * An opponent in the registry. Aliases are every spelling that resolves to it
+ * (including its name); matches entered with any of them are saved under the name.
+ */
+export interface Opponent {
+  id: number;
+  name: string;
+  clubName: string | null;
+  teamName: string | null;
+  ageGroup: string | null;
+  aliases: string[];
+  matchCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OpponentInput {
+  name: string;
+  clubName?: string | null;
+  teamName?: string | null;
+  ageGroup?: string | null;
+}
+
+/**
+ * A likely duplicate found by the scan: source would be merged into target
+ */
+export interface OpponentMergeProposal {
+  id: number;
+  target: Opponent;
+  source: Opponent;
+  similarity: number;
+  createdAt: string;
+}
+
+export type MatchOutcome = 'W' | 'D' | 'L';
+
+export interface HeadToHeadRecord {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+export interface HeadToHeadMatch {
+  id: number;
+  teamId: number | null;
+  teamDisplayName: string | null;
+  seasonId: number | null;
+  matchDate: string;
+  competitionType: string | null;
+  isHome: boolean | null;
+  venue: string | null;
+  outcome: MatchOutcome | null;
+  goalsFor: number | null;
+  goalsAgainst: number | null;
+  metrics: Record<string, number | null>;
+  notes: string | null;
+}
+
+export interface HeadToHeadSeason {
+  seasonId: number | null;
+  seasonName: string | null;
+  record: HeadToHeadRecord;
+  averages: Record<string, number | null>;
+}
+
+/**
+ * Everything the club's teams have played against one opponent.
+ * Seasons are oldest first, matches newest first.
+ */
+export interface HeadToHead {
+  opponent: Opponent;
+  metrics: Array<{ key: string; label: string }>;
+  record: HeadToHeadRecord;
+  averages: Record<string, number | null>;
+  seasons: HeadToHeadSeason[];
+  matches: HeadToHeadMatch[];
+}
+
+export async function getOpponents(filters?: { search?: string; teamId?: number }): Promise<Opponent[]> {
+  const params = new URLSearchParams();
+  if (filters?.search) params.append('search', filters.search);
+  if (filters?.teamId) params.append('teamId', filters.teamId.toString());
+  const query = params.toString();
+  return apiGet<Opponent[]>(`/opponents${query ? `?${query}` : ''}`);
+}
+
+/**
+ * Registry opponents for an opponent name autocomplete
+ */
+export async function getOpponentSuggestions(query: string, teamId?: number, limit = 10): Promise<Opponent[]> {
+  const params = new URLSearchParams({ query, limit: limit.toString() });
+  if (teamId) params.append('teamId', teamId.toString());
+  const response = await apiGet<{ suggestions: Opponent[] }>(`/matches/opponents/suggestions?${params.toString()}`);
+  return response.suggestions || [];
+}
+
+/**
+ * Head-to-head history against an opponent, optionally for one team only
+ */
+export async function getHeadToHead(opponentId: number, teamId?: number): Promise<HeadToHead> {
+  const query = teamId ? `?teamId=${teamId}` : '';
+  return apiGet<HeadToHead>(`/opponents/${opponentId}/head-to-head${query}`);
+}
+
+export async function createOpponent(input: OpponentInput): Promise<Opponent> {
+  return apiPost<Opponent>('/opponents', input);
+}
+
+/**
+ * Renaming keeps the old name as an alias and renames the opponent's matches
+ */
+export async function updateOpponent(opponentId: number, updates: Partial<OpponentInput>): Promise<Opponent> {
+  return apiPut<Opponent>(`/opponents/${opponentId}`, updates);
+}
+
+export async function deleteOpponent(opponentId: number): Promise<void> {
+  await apiDelete(`/opponents/${opponentId}`);
+}
+
+export async function addOpponentAlias(opponentId: number, alias: string): Promise<Opponent> {
+  return apiPost<Opponent>(`/opponents/${opponentId}/aliases`, { alias });
+}
+
+export async function removeOpponentAlias(opponentId: number, alias: string): Promise<Opponent> {
+  return apiDelete<Opponent>(`/opponents/${opponentId}/aliases?alias=${encodeURIComponent(alias)}`);
+}
+
+/**
+ * Merge sourceIds into targetId (their aliases and matches move to the target)
+ */
+export async function mergeOpponents(targetId: number, sourceIds: number[]): Promise<Opponent> {
+  return apiPost<Opponent>('/opponents/merge', { targetId, sourceIds });
+}
+
+export async function getMergeProposals(): Promise<OpponentMergeProposal[]> {
+  return apiGet<OpponentMergeProposal[]>('/opponents/merge-proposals');
+}
+
+export async function scanForDuplicateOpponents(): Promise<{ created: number; proposals: OpponentMergeProposal[] }> {
+  return apiPost<{ created: number; proposals: OpponentMergeProposal[] }>('/opponents/merge-proposals/scan', {});
+}
+
+export async function acceptMergeProposal(proposalId: number): Promise<Opponent> {
+  return apiPost<Opponent>(`/opponents/merge-proposals/${proposalId}/accept`, {});
+}
+
+export async function dismissMergeProposal(proposalId: number): Promise<void> {
+  await apiPost(`/opponents/merge-proposals/${proposalId}/dismiss`, {});
+}
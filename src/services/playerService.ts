@@ -0,0 +1,165 @@
+/**
+ * Player Service - Frontend API client for players and team rosters
+ */
+
+import { apiGet, apiPost, apiPut, apiDelete } from './apiClient';
+
+export interface PlayerTeam {
+  teamId: number;
+  teamName: string;
+  seasonId: number | null;
+}
+
+export interface Player {
+  id: number;
+  name: string;
+  jerseyNumber: number | null;
+  positions: string[];
+  birthYear: number | null;
+  teams: PlayerTeam[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlayerInput {
+  name: string;
+  jerseyNumber?: number | null;
+  positions?: string[];
+  birthYear?: number | null;
+}
+
+export interface RosterImportRow {
+  rowNumber: number;
+  player: {
+    name: string | null;
+    jerseyNumber: number | null;
+    positions: string[];
+    birthYear: number | null;
+  };
+  existingPlayer: { id: number; name: string; match: 'roster' | 'club' } | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface RosterImportPreview {
+  teamId: number;
+  rows: RosterImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    existing: number;
+  };
+}
+
+/**
+ * Jersey number and name, e.g. "#9 Sam Lee"
+ */
+export function formatPlayerLabel(player: Pick<Player, 'name' | 'jerseyNumber'>): string {
+  return player.jerseyNumber !== null ? `#${player.jerseyNumber} ${player.name}` : player.name;
+}
+
+export async function getPlayers(filters?: { teamId?: number; seasonId?: number; search?: string }): Promise<Player[]> {
+  const params = new URLSearchParams();
+  if (filters?.teamId) params.append('teamId', filters.teamId.toString());
+  if (filters?.seasonId) params.append('seasonId', filters.seasonId.toString());
+  if (filters?.search) params.append('search', filters.search);
+  const queryString = params.toString();
+  return await apiGet<Player[]>(queryString ? `/players?${queryString}` : '/players');
+}
+
+/**
+ * A team's roster, by jersey number
+ */
+export async function getTeamRoster(teamId: number): Promise<Player[]> {
+  return await apiGet<Player[]>(`/players/teams/${teamId}`);
+}
+
+/**
+ * Create a player (admin only), optionally straight onto a team's roster
+ */
+export async function createPlayer(data: PlayerInput, teamId?: number): Promise<Player> {
+  return await apiPost<Player>('/players', { ...data, teamId });
+}
+
+export async function updatePlayer(playerId: number, data: Partial<PlayerInput>): Promise<Player> {
+  return await apiPut<Player>(`/players/${playerId}`, data);
+}
+
+export async function deletePlayer(playerId: number): Promise<void> {
+  await apiDelete(`/players/${playerId}`);
+}
+
+/**
+ * Add an existing player to a team's roster; returns the updated roster
+ */
+export async function addPlayerToRoster(teamId: number, playerId: number): Promise<Player[]> {
+  return await apiPost<Player[]>(`/players/teams/${teamId}`, { playerId });
+}
+
+export async function removePlayerFromRoster(teamId: number, playerId: number): Promise<void> {
+  await apiDelete(`/players/teams/${teamId}/${playerId}`);
+}
+
+/**
+ * Dry-run a CSV roster import (admin only)
+ */
+export async function previewRosterImport(teamId: number, file: File): Promise<RosterImportPreview> {
+  return await apiPost<RosterImportPreview>(`/players/teams/${teamId}/import/preview`, {
+    content: await file.text(),
+  });
+}
+
+/**
+ * Import a CSV roster (admin only); nothing is saved if any row has errors
+ */
+export async function commitRosterImport(teamId: number, file: File): Promise<{ created: number; updated: number }> {
+  return await apiPost<{ created: number; updated: number }>(`/players/teams/${teamId}/import/commit`, {
+    content: await file.text(),
+  });
+}
+
+export interface PlayerStatTotals {
+  shots: number;
+  goals: number;
+  assists: number;
+  passes: number;
+  passStrings: number;
+}
+
+export interface PlayerStatsEntry {
+  playerName: string;
+  playerId: number | null;
+  teamId: number;
+  teamName: string;
+  /** Matches with at least one credited event or lineup minutes */
+  matches: number;
+  /** From match lineups; null when no lineup minutes are known */
+  minutesPlayed: number | null;
+  totals: PlayerStatTotals;
+  /** Per 60 minutes played, from matches where the player's minutes are known */
+  per60: PlayerStatTotals | null;
+}
+
+export interface PlayerStatsFilters {
+  teamId?: number;
+  seasonId?: number;
+  matchId?: number;
+  /** YYYY-MM-DD, inclusive */
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Per-player stats aggregated from game events (coaches only get their assigned teams)
+ */
+export async function getPlayerStats(filters?: PlayerStatsFilters): Promise<PlayerStatsEntry[]> {
+  const params = new URLSearchParams();
+  if (filters?.teamId) params.append('teamId', filters.teamId.toString());
+  if (filters?.seasonId) params.append('seasonId', filters.seasonId.toString());
+  if (filters?.matchId) params.append('matchId', filters.matchId.toString());
+  if (filters?.startDate) params.append('startDate', filters.startDate);
+  if (filters?.endDate) params.append('endDate', filters.endDate);
+  const queryString = params.toString();
+  return await apiGet<PlayerStatsEntry[]>(queryString ? `/players/stats?${queryString}` : '/players/stats');
+}
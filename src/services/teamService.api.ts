@@ -5,6 +5,7 @@
 
 import { apiGet, apiPost, apiPut, apiDelete } from './apiClient';
 import { Team, TeamMetadata } from '../types/auth';
+import type { MatchFormat } from '../utils/matchFormats';
 
 /**
  * Get all teams
@@ -40,6 +41,7 @@ export async function createTeam(teamData: {
   gender: 'boys' | 'girls';
   level: string;
   variant?: 'volt' | 'valor' | 'black';
+  format?: MatchFormat | null;
   birthYearStart?: number | null;
   birthYearEnd?: number | null;
   ageGroup?: string | null;
@@ -67,6 +69,7 @@ export async function updateTeam(
     gender?: 'boys' | 'girls';
     level?: string;
     variant?: 'volt' | 'valor' | 'black';
+    format?: MatchFormat | null;
     birthYearStart?: number;
     birthYearEnd?: number;
     ageGroup?: string | null;
@@ -2,6 +2,8 @@
  * Authentication and user-related types
  */
 
+import type { MatchFormat } from '../utils/matchFormats';
+
 export type UserRole = 'admin' | 'coach' | 'viewer';
 
 export interface User {
@@ -61,6 +63,7 @@ export interface Team {
   gender?: 'boys' | 'girls' | null;
   level?: string | null; // "U13"
   variant?: 'volt' | 'valor' | 'black' | null;
+  format?: MatchFormat | null; // Default format for the team's matches
   birthYearStart?: number | null;
   birthYearEnd?: number | null;
   ageGroup?: string | null; // "Aug 2014 - July 2015" or "2014"
@@ -109,13 +109,31 @@ export const DEFAULT_PASS_BY_ZONE_CONFIG: ChartConfig = {
   isExpanded: false,
 };
 
+export const DEFAULT_DEFENSIVE_ACTIONS_CONFIG: ChartConfig = {
+  visibleMetrics: ['tackles', 'interceptions', 'clearances', 'blocks', 'recoveries'],
+  includeOpponent: false, // JOGA-only stats
+  isExpanded: true, // Full width by default
+};
+
+export const DEFAULT_SAVES_CONFIG: ChartConfig = {
+  visibleMetrics: ['saves', 'savePct'],
+  includeOpponent: false, // JOGA-only stats
+  isExpanded: false,
+};
+
+export const DEFAULT_OPP_FINAL_THIRD_ENTRIES_CONFIG: ChartConfig = {
+  visibleMetrics: ['oppFinalThirdEntries', 'oppEntryAttemptPct'],
+  includeOpponent: false, // Opponent stats only
+  isExpanded: false,
+};
+
 export const DEFAULT_AUTO_CONFIG: ChartConfig = {
   visibleMetrics: [], // Dynamic - will be populated from column
   includeOpponent: false, // AutoChart handles opponent data differently
   isExpanded: false,
 };
 
-export type ChartType = 'shots' | 'possession' | 'goals' | 'xg' | 'conversionRate' | 'tsr' | 'passes' | 'passShare' | 'avgPassLength' | 'ppm' | 'passStrLength' | 'spi' | 'attempts' | 'miscStats' | 'positionalAttempts' | 'passByZone' | 'auto';
+export type ChartType = 'shots' | 'possession' | 'goals' | 'xg' | 'conversionRate' | 'tsr' | 'passes' | 'passShare' | 'avgPassLength' | 'ppm' | 'passStrLength' | 'spi' | 'attempts' | 'miscStats' | 'positionalAttempts' | 'passByZone' | 'defensiveActions' | 'saves' | 'oppFinalThirdEntries' | 'auto';
 
 /**
  * Generate chart title based on visible metrics
@@ -190,6 +208,22 @@ export function getChartTitle(chartType: ChartType, visibleMetrics: string[]): s
     passByZone: {
       // Dynamic - zones will be added based on available data
     },
+    defensiveActions: {
+      tackles: 'Tackles',
+      interceptions: 'Interceptions',
+      clearances: 'Clearances',
+      blocks: 'Blocks',
+      recoveries: 'Recoveries',
+      oppPassesPerDefensiveAction: 'Opp Passes per Defensive Action',
+    },
+    saves: {
+      saves: 'Saves',
+      savePct: 'Save %',
+    },
+    oppFinalThirdEntries: {
+      oppFinalThirdEntries: 'Opp Final Third Entries',
+      oppEntryAttemptPct: 'Opp Entry Attempt %',
+    },
     auto: {
       // Dynamic - will use column name
     },
@@ -221,6 +255,9 @@ export function getChartTitle(chartType: ChartType, visibleMetrics: string[]): s
       miscStats: 'Corners & Free Kicks',
       positionalAttempts: 'Conversion Rates & Attempts by Field Position',
       passByZone: 'Pass % by Zone',
+      defensiveActions: 'Defensive Actions',
+      saves: 'Saves',
+      oppFinalThirdEntries: 'Opp Final Third Entries',
       auto: 'Chart',
     };
     return defaultTitles[chartType] || 'Chart';
@@ -246,6 +283,9 @@ const CHART_DEFAULTS: Record<ChartType, ChartConfig> = {
   miscStats: DEFAULT_MISC_STATS_CONFIG,
   positionalAttempts: DEFAULT_POSITIONAL_ATTEMPTS_CONFIG,
   passByZone: DEFAULT_PASS_BY_ZONE_CONFIG,
+  defensiveActions: DEFAULT_DEFENSIVE_ACTIONS_CONFIG,
+  saves: DEFAULT_SAVES_CONFIG,
+  oppFinalThirdEntries: DEFAULT_OPP_FINAL_THIRD_ENTRIES_CONFIG,
   auto: DEFAULT_AUTO_CONFIG,
 };
 
@@ -20,6 +20,12 @@ export type ChartType =
   | 'ppm'
   | 'passShare'
   | 'tsr'
+  | 'passNetwork'
+  | 'defensiveActions'
+  | 'saves'
+  | 'oppFinalThirdEntries'
+  | 'setPieces'
+  | 'halves'
   | 'auto'
   | 'customCharts';
 
@@ -47,19 +53,25 @@ export const CHART_GROUPS: ChartGroup[] = [
     id: 'defense',
     name: 'Defense',
     description: 'Defensive metrics and statistics',
-    charts: [], // Defense charts will be added when specific defensive metrics are implemented
+    charts: ['defensiveActions', 'saves', 'oppFinalThirdEntries'],
+  },
+  {
+    id: 'set-pieces',
+    name: 'Set Pieces',
+    description: 'Corner and free kick outcomes, conversion and delivery',
+    charts: ['setPieces'],
   },
   {
     id: 'passing-possession',
     name: 'Passing & Possession',
     description: 'Passing metrics, pass strings, and possession',
-    charts: ['possession', 'passStrLength', 'spi', 'passes', 'ppm'],
+    charts: ['possession', 'passStrLength', 'spi', 'passes', 'ppm', 'passNetwork'],
   },
   {
     id: 'performance',
     name: 'JOGA Metrics',
     description: 'SPI and overall team performance indicators',
-    charts: [], // SPI moved to passing-possession group
+    charts: ['halves'], // SPI moved to passing-possession group
   },
   {
     id: 'shooting',
@@ -87,6 +99,12 @@ export const CHART_LABELS: Record<ChartType, string> = {
   ppm: 'Passes Per Minute',
   tsr: 'Total Shots Ratio',
   passShare: 'Pass Share',
+  passNetwork: 'Pass Network',
+  defensiveActions: 'Defensive Actions',
+  saves: 'Saves & Save %',
+  oppFinalThirdEntries: 'Opp Final Third Entries',
+  setPieces: 'Set Pieces',
+  halves: '1st vs 2nd Half',
   auto: 'Auto Charts', // Not shown in dropdown currently
   customCharts: 'Custom Charts',
 };
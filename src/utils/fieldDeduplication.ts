@@ -92,6 +92,9 @@ export function normalizeFieldName(fieldName: string): string {
     // Remove any trailing "Half" word after a half indicator in parentheses
     // This handles cases like "Goals For (2nd) Half" -> "Goals For (2nd)"
     normalized = normalized.replace(/\s*\(([12]nd|1st)\)\s+half\b/gi, ' ($1)');
+    
+    // Quarter keys from 7v7 matches: "Goals For Period3" -> "Goals For (Q3)"
+    normalized = normalized.replace(/\s+Period([1-8])$/i, ' (Q$1)');
   }
   
   // Handle snake_case (e.g., "shots_against" -> "Shots Against")
@@ -0,0 +1,174 @@
+/**
+ * Half-by-half comparison of match stats
+ *
+ * Pairs each "(1st)" column with its "(2nd)" column and compares the two halves
+ * across a set of games. 7v7 games record quarters instead ("(Q1)".."(Q4)"); their
+ * first half is Q1 + Q2 and their second half Q3 + Q4 (averaged for percentages).
+ *
+ * A metric is flagged as a second-half drop-off when the team is worse after the
+ * break in most games, not just on average, so one bad second half doesn't flag it.
+ * For opponent metrics (Goals Against, Opp Possession, ...) worse means higher.
+ */
+
+import { MatchData } from '../types';
+
+// Games with both halves needed before a drop-off is flagged
+export const MIN_DROP_OFF_GAMES = 3;
+// Share of those games the second half has to be worse in
+export const DROP_OFF_GAME_SHARE = 0.6;
+
+const OPPONENT_PATTERN = /\b(opp|opponent|against)\b/i;
+// Metrics that are averaged rather than added up when combining quarters
+const SHARE_PATTERN = /%|\b(rate|ratio|avg|average|share|pct)\b|^(opp )?possession$/i;
+
+const HALF_PATTERNS: Array<{ pattern: RegExp; period: (match: RegExpMatchArray) => number; quarter: boolean }> = [
+  { pattern: /\s*\((1st|2nd)(?:\s*half)?\)\s*$/i, period: match => (match[1] === '1st' ? 1 : 2), quarter: false },
+  { pattern: /\s*(1st|2nd)\s*half\s*$/i, period: match => (match[1].toLowerCase() === '1st' ? 1 : 2), quarter: false },
+  { pattern: /\s*\(Q([1-4])\)\s*$/i, period: match => parseInt(match[1], 10), quarter: true },
+  { pattern: /\s*Period([1-4])\s*$/, period: match => parseInt(match[1], 10), quarter: true },
+];
+
+interface HalfColumns {
+  metric: string;
+  halves: [string | null, string | null]; // 1st, 2nd half column
+  quarters: [string | null, string | null, string | null, string | null];
+}
+
+export interface HalfMetricComparison {
+  metric: string; // Column name without the half indicator ("Goals For")
+  isOpponent: boolean; // Lower is better in the second half
+  games: number; // Games with both halves recorded
+  firstHalfAvg: number;
+  secondHalfAvg: number;
+  change: number; // secondHalfAvg - firstHalfAvg
+  changePct: number | null; // Change as a percent of the first half average
+  worseGames: number; // Games where the second half was worse than the first
+  dropOff: boolean; // Consistent second-half drop-off
+}
+
+export interface HalvesAnalysis {
+  games: number; // Games with any half-by-half stats
+  metrics: HalfMetricComparison[]; // In column order
+  dropOffs: HalfMetricComparison[]; // Flagged metrics, most consistent first
+}
+
+/**
+ * Metric name and period of a half or quarter column ("Goals For (2nd)" -> Goals For, 2nd half)
+ */
+function parseHalfColumn(columnKey: string): { metric: string; period: number; quarter: boolean } | null {
+  for (const { pattern, period, quarter } of HALF_PATTERNS) {
+    const match = columnKey.match(pattern);
+    if (match) {
+      const metric = columnKey.slice(0, match.index).trim();
+      return metric ? { metric, period: period(match), quarter } : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Group half and quarter columns by metric
+ */
+function findHalfColumns(columnKeys: string[]): HalfColumns[] {
+  const byMetric = new Map<string, HalfColumns>();
+  columnKeys.forEach(key => {
+    const parsed = parseHalfColumn(key);
+    if (!parsed) return;
+    const id = parsed.metric.toLowerCase();
+    if (!byMetric.has(id)) {
+      byMetric.set(id, { metric: parsed.metric, halves: [null, null], quarters: [null, null, null, null] });
+    }
+    const columns = byMetric.get(id)!;
+    if (parsed.quarter) {
+      columns.quarters[parsed.period - 1] ??= key;
+    } else {
+      columns.halves[parsed.period - 1] ??= key;
+    }
+  });
+  return [...byMetric.values()].filter(columns =>
+    (columns.halves[0] && columns.halves[1]) || columns.quarters.every(Boolean)
+  );
+}
+
+/**
+ * Whether the data has any metric recorded half by half (or quarter by quarter)
+ */
+export function hasHalfColumns(columnKeys: string[]): boolean {
+  return findHalfColumns(columnKeys).length > 0;
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * First and second half values of a metric in one game (null when either half is missing)
+ */
+function getHalfValues(row: MatchData, columns: HalfColumns): [number, number] | null {
+  const first = columns.halves[0] ? toNumber(row[columns.halves[0]]) : null;
+  const second = columns.halves[1] ? toNumber(row[columns.halves[1]]) : null;
+  if (first !== null && second !== null) return [first, second];
+
+  const quarters = columns.quarters.map(key => (key ? toNumber(row[key]) : null));
+  if (quarters.some(value => value === null)) return null;
+  const [q1, q2, q3, q4] = quarters as number[];
+  return SHARE_PATTERN.test(columns.metric) ? [(q1 + q2) / 2, (q3 + q4) / 2] : [q1 + q2, q3 + q4];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compare first and second half values of every half-by-half metric across the given games
+ */
+export function buildHalvesAnalysis(rows: MatchData[], columnKeys: string[]): HalvesAnalysis {
+  const gamesWithHalves = new Set<number>();
+
+  const metrics = findHalfColumns(columnKeys)
+    .map(columns => {
+      const isOpponent = OPPONENT_PATTERN.test(columns.metric);
+      let games = 0;
+      let firstTotal = 0;
+      let secondTotal = 0;
+      let worseGames = 0;
+
+      rows.forEach((row, index) => {
+        const values = getHalfValues(row, columns);
+        if (!values) return;
+        const [first, second] = values;
+        gamesWithHalves.add(index);
+        games += 1;
+        firstTotal += first;
+        secondTotal += second;
+        if (isOpponent ? second > first : second < first) {
+          worseGames += 1;
+        }
+      });
+      if (games === 0) return null;
+
+      const firstHalfAvg = firstTotal / games;
+      const secondHalfAvg = secondTotal / games;
+      const change = secondHalfAvg - firstHalfAvg;
+      const worseOnAverage = isOpponent ? change > 0 : change < 0;
+      const comparison: HalfMetricComparison = {
+        metric: columns.metric,
+        isOpponent,
+        games,
+        firstHalfAvg: round(firstHalfAvg),
+        secondHalfAvg: round(secondHalfAvg),
+        change: round(change),
+        changePct: firstHalfAvg !== 0 ? Math.round((change / Math.abs(firstHalfAvg)) * 1000) / 10 : null,
+        worseGames,
+        dropOff: games >= MIN_DROP_OFF_GAMES && worseOnAverage && worseGames / games >= DROP_OFF_GAME_SHARE,
+      };
+      return comparison;
+    })
+    .filter((comparison): comparison is HalfMetricComparison => comparison !== null);
+
+  const dropOffs = metrics
+    .filter(comparison => comparison.dropOff)
+    .sort((a, b) => b.worseGames / b.games - a.worseGames / a.games || Math.abs(b.changePct ?? 0) - Math.abs(a.changePct ?? 0));
+
+  return { games: gamesWithHalves.size, metrics, dropOffs };
+}
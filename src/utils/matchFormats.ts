@@ -0,0 +1,105 @@
+/**
+ * Small-sided match formats (mirrors backend matchFormatService)
+ *
+ * Each format sets the default match length, how many periods stats are entered
+ * for (halves or quarters) and the pitch size. Matches saved before formats
+ * existed have no format and are treated as two halves.
+ */
+
+export type MatchFormat = '7v7' | '9v9' | '11v11';
+
+export interface MatchFormatDefaults {
+  durationMinutes: number;
+  periods: number; // 2 = halves, 4 = quarters
+  pitchLengthYards: number;
+  pitchWidthYards: number;
+}
+
+export interface PeriodFormField {
+  name: string;
+  category: string;
+  originalKey?: string;
+}
+
+export const MATCH_FORMATS: MatchFormat[] = ['7v7', '9v9', '11v11'];
+
+export const MATCH_FORMAT_DEFAULTS: Record<MatchFormat, MatchFormatDefaults> = {
+  '7v7': { durationMinutes: 48, periods: 4, pitchLengthYards: 60, pitchWidthYards: 40 },
+  '9v9': { durationMinutes: 60, periods: 2, pitchLengthYards: 75, pitchWidthYards: 50 },
+  '11v11': { durationMinutes: 80, periods: 2, pitchLengthYards: 110, pitchWidthYards: 70 },
+};
+
+export function isMatchFormat(value: unknown): value is MatchFormat {
+  return MATCH_FORMATS.includes(value as MatchFormat);
+}
+
+/**
+ * Default format for a team level (U10 and under play 7v7, U11-U12 play 9v9, older play 11v11)
+ */
+export function defaultFormatForLevel(level: string | null | undefined): MatchFormat | null {
+  if (!level) return null;
+  const levelNum = parseInt(level.trim().replace(/^U/i, ''), 10);
+  if (isNaN(levelNum)) return null;
+  if (levelNum <= 10) return '7v7';
+  if (levelNum <= 12) return '9v9';
+  return '11v11';
+}
+
+/**
+ * Number of periods stats are entered for (two halves when the format is unknown)
+ */
+export function getPeriodCount(format: string | null | undefined): number {
+  return isMatchFormat(format) ? MATCH_FORMAT_DEFAULTS[format].periods : 2;
+}
+
+/**
+ * Short labels used in field names for each period: "1st"/"2nd" for halves, "Q1".."Q4" for quarters
+ */
+export function getPeriodLabels(periodCount: number): string[] {
+  if (periodCount === 2) return ['1st', '2nd'];
+  return Array.from({ length: periodCount }, (_, i) => `Q${i + 1}`);
+}
+
+/**
+ * Stat entry categories, one per period ("Basic Stats (1st Half)" or "Basic Stats (Q1)")
+ */
+export function getPeriodCategories(periodCount: number): string[] {
+  if (periodCount === 2) return ['Basic Stats (1st Half)', 'Basic Stats (2nd Half)'];
+  return getPeriodLabels(periodCount).map(label => `Basic Stats (${label})`);
+}
+
+/**
+ * Swap the halves categories of a grouped stat form for one category per quarter.
+ * Quarter fields are named after the 1st half fields ("Goals For (1st)" -> "Goals For (Q1)").
+ */
+export function expandPeriodCategories(
+  grouped: Record<string, PeriodFormField[]>,
+  periodCount: number
+): Record<string, PeriodFormField[]> {
+  if (periodCount === 2) return grouped;
+  const firstHalf = grouped['Basic Stats (1st Half)'] || [];
+  const expanded: Record<string, PeriodFormField[]> = {};
+  Object.entries(grouped).forEach(([category, fields]) => {
+    if (category === 'Basic Stats (1st Half)' || category === 'Basic Stats (2nd Half)') return;
+    // Quarter fields loaded from a saved match are rebuilt below
+    const rest = fields.filter(field => !/\(Q[1-8]\)$/.test(field.name));
+    if (rest.length > 0) expanded[category] = rest;
+  });
+  getPeriodCategories(periodCount).forEach((category, i) => {
+    const label = getPeriodLabels(periodCount)[i];
+    // No originalKey: quarter values are looked up by field name
+    expanded[category] = firstHalf.map(field => ({
+      name: field.name.replace(/\(1st\)|\b1st half\b/i, `(${label})`),
+      category,
+    }));
+  });
+  return expanded;
+}
+
+/**
+ * Format option label with its defaults, e.g. "7v7 (4 × 12 min)"
+ */
+export function formatMatchFormatLabel(format: MatchFormat): string {
+  const { durationMinutes, periods } = MATCH_FORMAT_DEFAULTS[format];
+  return `${format} (${periods} × ${durationMinutes / periods} min)`;
+}
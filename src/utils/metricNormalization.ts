@@ -0,0 +1,181 @@
+/**
+ * Metric normalization for comparing games of different lengths
+ *
+ * Age groups play 50-80 minute games, so raw totals aren't comparable across teams.
+ * Count metrics (goals, shots, passes, corners, tackles, ...) can be rescaled to a
+ * per-60 or per-90 minute rate using the game's match duration, or per minute of
+ * possession (JOGA stats per JOGA possession minute, opponent stats per opponent
+ * possession minute). Percentages, ratios and averages are left as they are.
+ */
+
+import { MatchData } from '../types';
+
+export type MetricNormalization = 'none' | 'per60' | 'per90' | 'perPossessionMinute';
+
+export const METRIC_NORMALIZATION_OPTIONS: Array<{ value: MetricNormalization; label: string; description: string }> = [
+  { value: 'none', label: 'Raw totals', description: 'Count metrics as recorded' },
+  { value: 'per60', label: 'Per 60 min', description: 'Count metrics per 60 minutes of match time' },
+  { value: 'per90', label: 'Per 90 min', description: 'Count metrics per 90 minutes of match time' },
+  { value: 'perPossessionMinute', label: 'Per possession min', description: 'Count metrics per minute of possession' },
+];
+
+// Shared by every view, so the mode is set once and applies everywhere
+export const METRIC_NORMALIZATION_STORAGE_KEY = 'joga.metricNormalization';
+
+export function isMetricNormalization(value: unknown): value is MetricNormalization {
+  return METRIC_NORMALIZATION_OPTIONS.some(option => option.value === value);
+}
+
+// Words that mark a column as a count of events
+const COUNT_PATTERNS = [
+  'goal', 'shot', 'attempt', 'pass', 'string', 'corner', 'free kick', 'freekick', 'throw',
+  'tackle', 'interception', 'clearance', 'block', 'recover', 'save', 'entries', 'entry',
+  'xg', 'defensive actions', 'foul', 'offside', 'possessions won', 'touch',
+];
+
+// Rates, shares and averages are already independent of match length
+// (matched as whole words, so "Accurate Passes" is still a count)
+const NON_COUNT_PATTERN = /%|\b(pct|percent|rates?|ratios?|avg|average|per|ppm|spi|tsr|share|length|len|lpc|conv|conversion|possession (mins?|minutes)|duration)\b/;
+
+const OPPONENT_PATTERN = /\b(opp|opponent|against|xga)\b/;
+
+/**
+ * Column key as lowercase words ("shotsAgainst1stHalf" -> "shots against 1st half")
+ */
+function toWords(key: string): string {
+  return key
+    .replace(/xGA?/g, match => ` ${match.toLowerCase()} `)
+    .replace(/([a-z])([A-Z0-9])/g, '$1 $2')
+    .replace(/[_()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Whether a column holds a count that should be rescaled by the match length
+ */
+export function isCountMetric(columnKey: string): boolean {
+  const words = toWords(columnKey);
+  return COUNT_PATTERNS.some(pattern => words.includes(pattern))
+    && !NON_COUNT_PATTERN.test(words);
+}
+
+function isOpponentMetric(columnKey: string): boolean {
+  return OPPONENT_PATTERN.test(toWords(columnKey));
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Minutes from a full-game column, or the sum of its 1st and 2nd half columns
+ */
+function getMinutes(row: MatchData, fullKeys: string[], halfKeys: string[]): number | null {
+  for (const key of fullKeys) {
+    const value = toNumber(row[key]);
+    if (value !== null) return value;
+  }
+  const halves = halfKeys.map(key => toNumber(row[key]));
+  if (halves.length === 2 && halves.every(value => value !== null)) {
+    return (halves[0] as number) + (halves[1] as number);
+  }
+  return null;
+}
+
+interface MinuteColumns {
+  duration: string[];
+  possession: { full: string[]; halves: string[] };
+  oppPossession: { full: string[]; halves: string[] };
+}
+
+function findMinuteColumns(columnKeys: string[]): MinuteColumns {
+  const possessionColumns = (isOpponent: boolean) => {
+    const keys = columnKeys.filter(key => {
+      const words = toWords(key);
+      return /possession min/.test(words) && OPPONENT_PATTERN.test(words) === isOpponent;
+    });
+    const isHalf = (key: string) => /\b(1st|2nd)\b/.test(toWords(key));
+    return { full: keys.filter(key => !isHalf(key)), halves: keys.filter(isHalf).slice(0, 2) };
+  };
+
+  return {
+    duration: columnKeys.filter(key => ['match duration', 'duration', 'match length'].includes(toWords(key))),
+    possession: possessionColumns(false),
+    oppPossession: possessionColumns(true),
+  };
+}
+
+export interface NormalizedMatchData {
+  data: MatchData[];
+  // Games whose count metrics couldn't be rescaled (no match duration / possession minutes);
+  // their count metrics are left out rather than mixed in as raw totals
+  gamesWithoutMinutes: number;
+}
+
+/**
+ * Rescale count metrics in each game. Other columns are passed through unchanged.
+ */
+export function normalizeMatchData(
+  rows: MatchData[],
+  columnKeys: string[],
+  mode: MetricNormalization
+): NormalizedMatchData {
+  if (mode === 'none' || rows.length === 0) {
+    return { data: rows, gamesWithoutMinutes: 0 };
+  }
+
+  const countKeys = columnKeys.filter(isCountMetric);
+  const minuteColumns = findMinuteColumns(columnKeys);
+  let gamesWithoutMinutes = 0;
+
+  const data = rows.map(row => {
+    let teamMinutes: number | null;
+    let oppMinutes: number | null;
+    let scale: number;
+    if (mode === 'perPossessionMinute') {
+      teamMinutes = getMinutes(row, minuteColumns.possession.full, minuteColumns.possession.halves);
+      oppMinutes = getMinutes(row, minuteColumns.oppPossession.full, minuteColumns.oppPossession.halves);
+      scale = 1;
+    } else {
+      teamMinutes = getMinutes(row, minuteColumns.duration, []);
+      oppMinutes = teamMinutes;
+      scale = mode === 'per60' ? 60 : 90;
+    }
+
+    const usable = (minutes: number | null) => minutes !== null && minutes > 0;
+    if (!usable(teamMinutes) || !usable(oppMinutes)) {
+      gamesWithoutMinutes += 1;
+    }
+
+    const normalized: MatchData = { ...row };
+    countKeys.forEach(key => {
+      const value = toNumber(row[key]);
+      if (value === null) return;
+      const minutes = isOpponentMetric(key) ? oppMinutes : teamMinutes;
+      normalized[key] = usable(minutes)
+        ? Math.round((value / (minutes as number)) * scale * 100) / 100
+        : undefined;
+    });
+    return normalized;
+  });
+
+  return { data, gamesWithoutMinutes };
+}
+
+/**
+ * Short unit label for the active mode ("per 90 min"), or null for raw totals
+ */
+export function getNormalizationUnit(mode: MetricNormalization): string | null {
+  switch (mode) {
+    case 'per60':
+      return 'per 60 min';
+    case 'per90':
+      return 'per 90 min';
+    case 'perPossessionMinute':
+      return 'per possession min';
+    default:
+      return null;
+  }
+}